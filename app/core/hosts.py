@@ -565,6 +565,12 @@ class HostManager:
         # Return subscription data directly
         return host.id, subscription_data
 
+    async def prepare_preview_host(self, db: AsyncSession, host: BaseHost) -> SubscriptionInboundData | None:
+        """Prepare a host the same way the cache does, without storing it. Disabled hosts are prepared too."""
+        inbounds_list = await core_manager.get_inbounds()
+        result = await self._prepare_host_entry(db, host.model_copy(update={"is_disabled": False}), inbounds_list)
+        return result[1] if result else None
+
     async def add_host(self, db: AsyncSession, host: BaseHost):
         await self.add_hosts(db, [host])
 
@@ -23,6 +23,7 @@ from app.db.models import (
     User,
 )
 from app.models.admin import (
+    AdminBrandingModify,
     AdminCreate,
     AdminDetails,
     AdminListQuery,
@@ -235,6 +236,27 @@ async def update_admin(db: AsyncSession, db_admin: Admin, modified_admin: AdminM
     return db_admin
 
 
+async def update_admin_branding(db: AsyncSession, db_admin: Admin, branding: AdminBrandingModify) -> Admin:
+    """
+    Applies the branding fields the request actually sent; an explicit null clears the field.
+
+    Args:
+        db (AsyncSession): Database session.
+        db_admin (Admin): The admin object to be updated.
+        branding (AdminBrandingModify): The branding fields to set.
+
+    Returns:
+        Admin: The updated admin object.
+    """
+    for field, value in branding.model_dump(exclude_unset=True).items():
+        setattr(db_admin, field, value)
+
+    await db.commit()
+    await db.refresh(db_admin)
+    await load_admin_attrs(db_admin)
+    return db_admin
+
+
 async def remove_admin(db: AsyncSession, dbadmin: Admin) -> None:
     """
     Removes an admin from the database.
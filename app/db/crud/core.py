@@ -1,7 +1,7 @@
 from sqlalchemy import delete, func, select, update
 from sqlalchemy.ext.asyncio import AsyncSession
 
-from app.db.models import CoreConfig, Node
+from app.db.models import CoreConfig, CoreConfigRevision, Node
 from app.models.core import (
     CoreCreate,
     CoreListQuery,
@@ -91,6 +91,7 @@ async def remove_core_config(db: AsyncSession, db_core_config: CoreConfig) -> No
         db (AsyncSession): The database session.
         db_core_config (CoreConfig): The CoreConfig object to be removed.
     """
+    await db.execute(delete(CoreConfigRevision).where(CoreConfigRevision.core_config_id == db_core_config.id))
     await db.delete(db_core_config)
     await db.commit()
 
@@ -185,5 +186,110 @@ async def remove_cores(db: AsyncSession, core_ids: list[int]) -> None:
         return
 
     await db.execute(update(Node).where(Node.core_config_id.in_(core_ids)).values(core_config_id=None))
+    await db.execute(delete(CoreConfigRevision).where(CoreConfigRevision.core_config_id.in_(core_ids)))
     await db.execute(delete(CoreConfig).where(CoreConfig.id.in_(core_ids)))
     await db.commit()
+
+
+async def create_core_revision(
+    db: AsyncSession,
+    db_core_config: CoreConfig,
+    admin_username: str | None = None,
+    note: str | None = None,
+    restarted_nodes: list[str] | None = None,
+) -> CoreConfigRevision:
+    """
+    Stores the current state of a core configuration as a new revision.
+
+    Args:
+        db (AsyncSession): The database session.
+        db_core_config (CoreConfig): The saved core configuration to snapshot.
+        admin_username (str, optional): The admin who saved the configuration.
+        note (str, optional): A change note for the revision.
+        restarted_nodes (list[str], optional): Names of the nodes restarted with this save.
+
+    Returns:
+        CoreConfigRevision: The newly created revision.
+    """
+    db_revision = CoreConfigRevision(
+        core_config_id=db_core_config.id,
+        name=db_core_config.name,
+        config=db_core_config.config,
+        type=db_core_config.type,
+        exclude_inbound_tags=set(db_core_config.exclude_inbound_tags or ()),
+        fallbacks_inbound_tags=set(db_core_config.fallbacks_inbound_tags or ()),
+        admin_username=admin_username,
+        note=note,
+        restarted_nodes=restarted_nodes or None,
+    )
+    db.add(db_revision)
+    await db.commit()
+    await db.refresh(db_revision)
+    return db_revision
+
+
+async def get_core_revisions(
+    db: AsyncSession, core_id: int, offset: int | None = None, limit: int | None = None
+) -> tuple[list[CoreConfigRevision], int]:
+    """
+    Retrieves the revisions of a core configuration, newest first.
+
+    Args:
+        db (AsyncSession): The database session.
+        core_id (int): The ID of the core configuration.
+        offset (int, optional): The number of records to skip (for pagination).
+        limit (int, optional): The maximum number of records to return.
+
+    Returns:
+        tuple: A tuple containing:
+            - list[CoreConfigRevision]: The revisions on this page
+            - int: The total count of revisions for the core
+    """
+    stmt = select(CoreConfigRevision).where(CoreConfigRevision.core_config_id == core_id)
+    total = (await db.execute(select(func.count()).select_from(stmt.subquery()))).scalar()
+
+    stmt = stmt.order_by(CoreConfigRevision.created_at.desc(), CoreConfigRevision.id.desc())
+    if offset:
+        stmt = stmt.offset(offset)
+    if limit:
+        stmt = stmt.limit(limit)
+
+    return (await db.execute(stmt)).scalars().all(), total
+
+
+async def get_core_revision(db: AsyncSession, core_id: int, revision_id: int) -> CoreConfigRevision | None:
+    """
+    Retrieves a single revision of a core configuration.
+
+    Args:
+        db (AsyncSession): The database session.
+        core_id (int): The ID of the core configuration the revision belongs to.
+        revision_id (int): The ID of the revision.
+
+    Returns:
+        Optional[CoreConfigRevision]: The revision if found, None otherwise.
+    """
+    stmt = select(CoreConfigRevision).where(
+        CoreConfigRevision.id == revision_id, CoreConfigRevision.core_config_id == core_id
+    )
+    return (await db.execute(stmt)).scalar_one_or_none()
+
+
+async def update_core_revision_note(
+    db: AsyncSession, db_revision: CoreConfigRevision, note: str | None
+) -> CoreConfigRevision:
+    """
+    Sets or clears the change note of a revision.
+
+    Args:
+        db (AsyncSession): The database session.
+        db_revision (CoreConfigRevision): The revision to annotate.
+        note (str, optional): The new note; None clears it.
+
+    Returns:
+        CoreConfigRevision: The updated revision.
+    """
+    db_revision.note = note
+    await db.commit()
+    await db.refresh(db_revision)
+    return db_revision
@@ -0,0 +1,69 @@
+"""add core config revisions
+
+Revision ID: c5e8a1f3d7b9
+Revises: fb32155473c1
+Create Date: 2026-10-19 00:00:00.000000
+
+"""
+
+from alembic import op
+import sqlalchemy as sa
+from sqlalchemy.dialects import postgresql
+
+from app.db.compiles_types import SqliteCompatibleBigInteger
+
+
+# revision identifiers, used by Alembic.
+revision = "c5e8a1f3d7b9"
+down_revision = "fb32155473c1"
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    bind = op.get_bind()
+    dialect = bind.dialect.name
+
+    core_type = (
+        postgresql.ENUM("xray", "wg", "mtproto", "singbox", name="coretype", create_type=False)
+        if dialect == "postgresql"
+        else sa.Enum("xray", "wg", "mtproto", "singbox", name="coretype")
+    )
+
+    op.create_table(
+        "core_config_revisions",
+        sa.Column("id", SqliteCompatibleBigInteger(), autoincrement=True, nullable=False),
+        sa.Column("created_at", sa.DateTime(timezone=True), nullable=False),
+        sa.Column("core_config_id", SqliteCompatibleBigInteger(), nullable=False),
+        sa.Column("name", sa.String(length=256), nullable=False),
+        sa.Column("config", sa.JSON(), nullable=False),
+        sa.Column("type", core_type, nullable=False),
+        sa.Column("exclude_inbound_tags", sa.String(length=2048), nullable=True),
+        sa.Column("fallbacks_inbound_tags", sa.String(length=2048), nullable=True),
+        sa.Column("admin_username", sa.String(length=34), nullable=True),
+        sa.Column("note", sa.String(length=512), nullable=True),
+        sa.Column("restarted_nodes", sa.JSON(), nullable=True),
+        sa.ForeignKeyConstraint(["core_config_id"], ["core_configs.id"], ondelete="CASCADE"),
+        sa.PrimaryKeyConstraint("id"),
+    )
+    op.create_index(
+        "ix_core_config_revisions_core_config_id",
+        "core_config_revisions",
+        ["core_config_id"],
+        unique=False,
+    )
+
+    # Seed each existing core with its current state as the first revision
+    op.execute(
+        """
+        INSERT INTO core_config_revisions
+            (created_at, core_config_id, name, config, type, exclude_inbound_tags, fallbacks_inbound_tags)
+        SELECT created_at, id, name, config, type, exclude_inbound_tags, fallbacks_inbound_tags
+        FROM core_configs
+        """
+    )
+
+
+def downgrade() -> None:
+    op.drop_index("ix_core_config_revisions_core_config_id", table_name="core_config_revisions")
+    op.drop_table("core_config_revisions")
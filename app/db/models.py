@@ -831,6 +831,22 @@ class CoreConfig(Base, CreatedAtUTCMixin):
     fallbacks_inbound_tags: Mapped[set[str] | None] = mapped_column(StringArray(2048), default_factory=set)
 
 
+class CoreConfigRevision(Base, CreatedAtUTCMixin):
+    """Snapshot of a core config as it was saved, with who saved it and which nodes were restarted."""
+
+    __tablename__ = "core_config_revisions"
+    __table_args__ = (Index("ix_core_config_revisions_core_config_id", "core_config_id"),)
+    core_config_id: Mapped[int] = fk_id_column("core_configs.id", ondelete="CASCADE")
+    name: Mapped[str] = mapped_column(String(256))
+    config: Mapped[dict[str, Any]] = mapped_column(JSON(False))
+    type: Mapped[CoreType] = mapped_column(SQLEnum(CoreType), default=CoreType.xray)
+    exclude_inbound_tags: Mapped[set[str] | None] = mapped_column(StringArray(2048), default_factory=set)
+    fallbacks_inbound_tags: Mapped[set[str] | None] = mapped_column(StringArray(2048), default_factory=set)
+    admin_username: Mapped[str | None] = mapped_column(String(34), nullable=True, default=None)
+    note: Mapped[str | None] = mapped_column(String(512), nullable=True, default=None)
+    restarted_nodes: Mapped[list[str] | None] = mapped_column(JSON(True), nullable=True, default=None)
+
+
 class WireGuardSubnet(Base, IdMixin):
     """Allocation state of one WireGuard client subnet: a free-list plus a high-water offset.
 
@@ -189,6 +189,14 @@ class AdminModify(BaseModel):
         return PasswordValidator.validate_password(value)
 
 
+class AdminBrandingModify(BaseModel):
+    """Subscription branding an admin may change on their own account without `admins.update`."""
+
+    sub_domain: str | None = None
+    profile_title: str | None = None
+    support_url: str | None = None
+
+
 class AdminCreate(AdminModify):
     """Model for creating new admin accounts requiring username and password."""
 
@@ -2,6 +2,7 @@ from enum import Enum, StrEnum
 
 from pydantic import BaseModel, ConfigDict, Field, field_validator
 
+from .settings import ConfigFormat
 from .validators import ListValidator
 
 
@@ -64,6 +65,27 @@ class ClientTemplateModify(BaseModel):
         return value
 
 
+class ClientTemplatePreview(BaseModel):
+    """Unsaved template content rendered for an existing user."""
+
+    template_type: ClientTemplateType
+    content: str
+    user_id: int
+    config_format: ConfigFormat | None = None
+
+    @field_validator("content")
+    @classmethod
+    def validate_content(cls, value: str) -> str:
+        if not value or not value.strip():
+            raise ValueError("content can't be empty")
+        return value
+
+
+class ClientTemplatePreviewResponse(BaseModel):
+    config_format: ConfigFormat
+    content: str
+
+
 class ClientTemplateResponse(BaseModel):
     id: int
     name: str
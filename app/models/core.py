@@ -2,7 +2,7 @@ from enum import Enum
 
 from pydantic import BaseModel, ConfigDict, Field, field_validator
 
-from app.db.models import CoreType
+from app.db.models import CoreType, NodeStatus
 
 from .validators import AwareDatetime, ListValidator, StringArrayValidator
 
@@ -58,6 +58,69 @@ class CoreResponseList(BaseModel):
     model_config = ConfigDict(from_attributes=True)
 
 
+class CoreRevisionSummary(BaseModel):
+    """A saved core config revision without its config body, for the timeline."""
+
+    id: int
+    core_config_id: int
+    name: str
+    type: CoreType | None = None
+    admin_username: str | None = None
+    note: str | None = None
+    restarted_nodes: list[str] = Field(default_factory=list)
+    created_at: AwareDatetime
+
+    model_config = ConfigDict(from_attributes=True)
+
+    @field_validator("restarted_nodes", mode="before")
+    @classmethod
+    def validate_restarted_nodes(cls, v):
+        return v or []
+
+
+class CoreRevisionResponse(CoreRevisionSummary):
+    config: dict
+    exclude_inbound_tags: set[str] = Field(default_factory=set)
+    fallbacks_inbound_tags: set[str] = Field(default_factory=set)
+
+    @field_validator("exclude_inbound_tags", "fallbacks_inbound_tags", mode="before")
+    @classmethod
+    def validate_tags(cls, v):
+        return v or set()
+
+
+class CoreRevisionList(BaseModel):
+    revisions: list[CoreRevisionSummary]
+    count: int
+
+
+class CoreRevisionNote(BaseModel):
+    note: str | None = Field(default=None, max_length=512)
+
+    @field_validator("note", mode="after")
+    @classmethod
+    def validate_note(cls, v: str | None) -> str | None:
+        return (v.strip() or None) if v else None
+
+
+class CoreRollout(BaseModel):
+    """A candidate config pushed to a subset of the core's nodes without saving it."""
+
+    core: CoreCreate
+    node_ids: set[int] = Field(min_length=1)
+
+
+class CoreRolloutNodeResult(BaseModel):
+    node_id: int
+    name: str
+    status: NodeStatus
+    message: str = ""
+
+
+class CoreRolloutResponse(BaseModel):
+    results: list[CoreRolloutNodeResult]
+
+
 class CoreSimple(BaseModel):
     """Lightweight core model with only id, name and type for performance."""
 
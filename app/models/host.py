@@ -1,3 +1,4 @@
+from datetime import datetime
 from enum import Enum
 from ipaddress import ip_network
 from typing import Any
@@ -644,6 +645,62 @@ class CreateHost(BaseHost):
         return StringArrayValidator.len_check(v, 1000)
 
 
+class HostPreview(BaseModel):
+    """Unsaved host rendered for one user"""
+
+    host: CreateHost
+    user_id: int
+
+
+class HostPreviewResponse(BaseModel):
+    """What the host adds to each share format, without the client template around it"""
+
+    links: list[str] = Field(default_factory=list)
+    xray: list[dict[str, Any]] = Field(default_factory=list)
+    sing_box: list[dict[str, Any]] = Field(default_factory=list)
+    clash_meta: list[dict[str, Any]] = Field(default_factory=list)
+
+
+class HostHealthStatus(str, Enum):
+    ok = "ok"
+    warning = "warning"
+    error = "error"
+    skipped = "skipped"
+
+
+class HostProbeCheck(BaseModel):
+    name: str
+    status: HostHealthStatus
+    message: str | None = None
+    latency_ms: int | None = None
+
+
+class HostEndpointCheck(BaseModel):
+    address: str
+    port: int
+    sni: str | None = None
+    ip: str | None = None
+    not_after: str | None = None
+    checks: list[HostProbeCheck] = Field(default_factory=list)
+
+
+class HostHealthResult(BaseModel):
+    """Reachability of one saved host as a client would see it"""
+
+    host_id: int
+    remark: str
+    status: HostHealthStatus
+    security: str | None = None
+    checked_at: datetime
+    checks: list[HostProbeCheck] = Field(default_factory=list)
+    endpoints: list[HostEndpointCheck] = Field(default_factory=list)
+    cert_not_after: str | None = None
+
+
+class HostHealthResponse(BaseModel):
+    hosts: list[HostHealthResult]
+
+
 class BulkHostSelection(BaseModel):
     """Model for bulk host selection by IDs"""
 
@@ -655,6 +712,15 @@ class BulkHostSelection(BaseModel):
         return ListValidator.not_null_list(list(v), "host")
 
 
+MAX_HOST_HEALTH_CHECKS = 20
+
+
+class HostHealthSelection(BulkHostSelection):
+    """Hosts to probe; each one opens several connections from the panel, so a request is capped"""
+
+    ids: set[int] = Field(default_factory=set, max_length=MAX_HOST_HEALTH_CHECKS)
+
+
 class RemoveHostsResponse(BaseModel):
     """Response model for bulk host deletion"""
 
@@ -12,6 +12,7 @@ from app.core.manager import core_manager
 from app.db import GetDB
 from app.db.crud.node import get_node_by_id, get_nodes
 from app.db.models import NodeStatus
+from app.models.core import CoreRollout
 from app.models.node import NodeCoreUpdate, NodeGeoFilesUpdate, NodeListQuery
 from app.nats.proto_utils import deserialize_proto_message, deserialize_proto_messages
 from app.nats.rpc_service import BaseRpcService
@@ -62,6 +63,7 @@ class NodeWorkerService(BaseRpcService):
         self.register_rpc_handler("update_core", self._update_core)
         self.register_rpc_handler("update_geofiles", self._update_geofiles)
         self.register_rpc_handler("start_logs", self._start_logs)
+        self.register_rpc_handler("apply_core", self._apply_core)
 
     async def start(self):
         await super().start()
@@ -271,6 +273,15 @@ class NodeWorkerService(BaseRpcService):
         async with GetDB() as db:
             return await self._node_operator.update_core(db, node_id, NodeCoreUpdate.model_validate(payload))
 
+    async def _apply_core(self, data: dict) -> dict:
+        core_id = data.get("core_id")
+        payload = data.get("rollout")
+        if not core_id or payload is None:
+            raise RuntimeError("core_id and rollout are required")
+        async with GetDB() as db:
+            response = await self._node_operator.apply_core_to_nodes(db, core_id, CoreRollout.model_validate(payload))
+            return response.model_dump(mode="json")
+
     async def _update_geofiles(self, data: dict) -> dict:
         node_id = data.get("node_id")
         payload = data.get("geofiles_update")
@@ -24,7 +24,7 @@ from app.db.models import Admin as DBAdmin, ClientTemplate, CoreConfig, Group, N
 from app.models.admin import AdminDetails
 from app.models.group import BulkGroup
 from app.models.user import UserCreate, UserModify
-from app.operation.permissions import get_scope_admin_id
+from app.operation.permissions import PermissionDenied, enforce_permission, get_scope_admin_id
 from app.utils.helpers import ensure_datetime_timezone
 from app.utils.jwt import get_subscription_payload
 
@@ -93,6 +93,17 @@ class BaseOperation:
         else:
             raise ValueError(message)
 
+    async def enforce_any_permission(self, admin: AdminDetails, *permissions: tuple[str, str]) -> None:
+        """Raise 403 unless the admin holds one of the (resource, action) permissions."""
+        denied = PermissionDenied()
+        for resource, action in permissions:
+            try:
+                enforce_permission(admin, resource, action)
+                return
+            except PermissionDenied as exc:
+                denied = exc
+        await self.raise_error(message=denied.detail, code=403)
+
     async def handle_rpc_error(self, exc: RuntimeError):
         """Convert NATS RPC errors to appropriate HTTP responses."""
         code = getattr(exc, "code", 500)
@@ -18,11 +18,13 @@ from app.db.crud.admin import (
     remove_admins,
     reset_admin_usage,
     update_admin,
+    update_admin_branding,
 )
 from app.db.crud.bulk import activate_all_disabled_users, disable_all_active_users
 from app.db.crud.user import get_users, remove_users
 from app.db.models import Admin, AdminStatus
 from app.models.admin import (
+    AdminBrandingModify,
     AdminCreate,
     AdminDetails,
     AdminListQuery,
@@ -154,6 +156,18 @@ class AdminOperation(BaseOperation):
         await self._ensure_owner_target_access(db_admin, current_admin)
         return await self._modify_admin(db, db_admin, modified_admin, current_admin)
 
+    async def modify_own_branding(
+        self, db: AsyncSession, modified_branding: AdminBrandingModify, current_admin: AdminDetails
+    ) -> AdminDetails:
+        db_admin = await self.get_validated_admin_by_id(db, current_admin.id)
+        db_admin = await update_admin_branding(db, db_admin, modified_branding)
+
+        logger.info(f'Admin "{db_admin.username}" with id "{db_admin.id}" updated their subscription branding')
+
+        modified_admin_details = build_admin_details(db_admin, include_loaded_metrics=True)
+        asyncio.create_task(notification.modify_admin(modified_admin_details, current_admin.username))
+        return modified_admin_details
+
     async def remove_admin(self, db: AsyncSession, username: str, current_admin: AdminDetails | None = None):
         warnings.warn(
             "remove_admin(username, ...) is deprecated. Use remove_admin_by_id(admin_id, ...).",
@@ -1,10 +1,12 @@
 import json
+from typing import ClassVar
 
 import yaml
 from sqlalchemy.exc import IntegrityError
 
 from app.db import AsyncSession
 from app.db.crud.client_template import (
+    TEMPLATE_TYPE_TO_LEGACY_KEY,
     clear_host_subscription_template_overrides,
     count_client_templates_by_type,
     create_client_template,
@@ -22,6 +24,8 @@ from app.models.client_template import (
     ClientTemplateCreate,
     ClientTemplateListQuery,
     ClientTemplateModify,
+    ClientTemplatePreview,
+    ClientTemplatePreviewResponse,
     ClientTemplateResponse,
     ClientTemplateResponseList,
     ClientTemplateSimple,
@@ -30,18 +34,42 @@ from app.models.client_template import (
     ClientTemplateType,
     RemoveClientTemplatesResponse,
 )
+from app.models.settings import ConfigFormat
 from app.nats.message import MessageTopic
 from app.nats.router import router
 from app.subscription.client_templates import refresh_client_templates_cache
+from app.subscription.share import generate_subscription
 from app.templates import render_template_string
 from app.utils.logger import get_logger
 
 from . import BaseOperation
+from .subscription import SubscriptionOperation
 
 logger = get_logger("client-template-operation")
 
 
 class ClientTemplateOperation(BaseOperation):
+    # Output formats that read each template type; the first one is used when a preview asks for none
+    _PREVIEW_CONFIG_FORMATS: ClassVar[dict[ClientTemplateType, tuple[ConfigFormat, ...]]] = {
+        ClientTemplateType.clash_subscription: (ConfigFormat.clash_meta, ConfigFormat.clash),
+        ClientTemplateType.xray_subscription: (ConfigFormat.xray,),
+        ClientTemplateType.singbox_subscription: (ConfigFormat.sing_box,),
+        ClientTemplateType.user_agent: (
+            ConfigFormat.xray,
+            ConfigFormat.sing_box,
+            ConfigFormat.clash_meta,
+            ConfigFormat.clash,
+            ConfigFormat.links,
+        ),
+        ClientTemplateType.grpc_user_agent: (
+            ConfigFormat.xray,
+            ConfigFormat.sing_box,
+            ConfigFormat.clash_meta,
+            ConfigFormat.clash,
+            ConfigFormat.links,
+        ),
+    }
+
     @staticmethod
     async def _sync_client_template_cache() -> None:
         await refresh_client_templates_cache()
@@ -106,6 +134,38 @@ class ClientTemplateOperation(BaseOperation):
         await self._sync_client_template_cache()
         return ClientTemplateResponse.model_validate(db_template)
 
+    async def preview_client_template(
+        self, db: AsyncSession, preview: ClientTemplatePreview, admin: AdminDetails
+    ) -> ClientTemplatePreviewResponse:
+        """Render unsaved template content for a user without touching the stored templates."""
+        # The route only checks client_templates.read; the rendered output holds the user's credentials
+        await self.enforce_any_permission(admin, ("users", "read"))
+        await self._validate_template_content(preview.template_type, preview.content)
+
+        allowed_formats = self._PREVIEW_CONFIG_FORMATS[preview.template_type]
+        config_format = preview.config_format or allowed_formats[0]
+        if config_format not in allowed_formats:
+            await self.raise_error(
+                message=f'"{preview.template_type.value}" templates are not used by the "{config_format.value}" format',
+                code=400,
+            )
+
+        db_user = await self.get_validated_user_by_id(db, preview.user_id, admin)
+        user = await SubscriptionOperation.validated_user(db_user)
+        try:
+            content = await generate_subscription(
+                user=user,
+                config_format=config_format.value,
+                as_base64=False,
+                client_templates_override={TEMPLATE_TYPE_TO_LEGACY_KEY[preview.template_type]: preview.content},
+            )
+        except Exception as exc:
+            await self.raise_error(message=f"Failed to render template: {exc!s}", code=400)
+
+        if isinstance(content, bytes):
+            content = content.decode(errors="replace")
+        return ClientTemplatePreviewResponse(config_format=config_format, content=content)
+
     async def get_client_templates(
         self,
         db: AsyncSession,
@@ -6,13 +6,18 @@ from app.core.manager import core_manager
 from app.db import AsyncSession
 from app.db.crud.core import (
     create_core_config,
+    create_core_revision,
     get_core_configs,
+    get_core_revision,
+    get_core_revisions,
     get_cores_simple,
     modify_core_config,
     remove_core_config,
     remove_cores,
+    update_core_revision_note,
 )
 from app.db.crud.host import get_hosts
+from app.db.crud.node import get_nodes
 from app.db.crud.user import get_users_by_ids
 from app.db.crud.wireguard import (
     core_config_dict,
@@ -20,6 +25,7 @@ from app.db.crud.wireguard import (
     reconcile_wireguard_subnets,
     wg_core_subnets,
 )
+from app.db.models import CoreConfigRevision, NodeStatus
 from app.models.admin import AdminDetails
 from app.models.core import (
     BulkCoreSelection,
@@ -27,12 +33,17 @@ from app.models.core import (
     CoreListQuery,
     CoreResponse,
     CoreResponseList,
+    CoreRevisionList,
+    CoreRevisionNote,
+    CoreRevisionResponse,
+    CoreRevisionSummary,
     CoreSimple,
     CoreSimpleListQuery,
     CoresSimpleResponse,
     CoreType,
     RemoveCoresResponse,
 )
+from app.models.node import NodeListQuery
 from app.models.reality_scan import RealityScanRequest, RealityScanResult
 from app.node.sync import sync_users
 from app.operation import BaseOperation
@@ -78,6 +89,18 @@ class CoreOperation(BaseOperation):
             users = await get_users_by_ids(db, changed_ids, load_admin_role=True)
             await sync_users(users)
 
+    async def _restart_target_names(self, db: AsyncSession, core_id: int) -> list[str]:
+        """Names of the nodes a restart of this core reaches; same selection as restarting all nodes."""
+        nodes, _ = await get_nodes(
+            db,
+            query=NodeListQuery(
+                core_id=core_id,
+                status=[NodeStatus.connected, NodeStatus.connecting, NodeStatus.error],
+            ),
+            load_usage_logs=False,
+        )
+        return [node.name for node in nodes]
+
     async def scan_reality_target(self, request: RealityScanRequest) -> RealityScanResult:
         try:
             result = await scan_reality_target(target=request.target, timeout=request.timeout)
@@ -88,7 +111,9 @@ class CoreOperation(BaseOperation):
             await self.raise_error(message=f"Reality scan failed: {e}", code=502)
         return RealityScanResult.model_validate(result)
 
-    async def create_core(self, db: AsyncSession, new_core: CoreCreate, admin: AdminDetails) -> CoreResponse:
+    async def create_core(
+        self, db: AsyncSession, new_core: CoreCreate, admin: AdminDetails, note: str | None = None
+    ) -> CoreResponse:
         if new_core.type == CoreType.wg:
             await self._validate_wireguard_subnet(db, new_core.config, exclude_core_id=None)
         try:
@@ -103,6 +128,7 @@ class CoreOperation(BaseOperation):
             await self.raise_error(message=e, code=400, db=db)
 
         await core_manager.update_core(db_core, validated_core)
+        await create_core_revision(db, db_core, admin.username, note)
         logger.info(f'Core config "{db_core.id}" created by admin "{admin.username}"')
 
         core = CoreResponse.model_validate(db_core)
@@ -127,7 +153,13 @@ class CoreOperation(BaseOperation):
         return CoresSimpleResponse(cores=cores, total=total)
 
     async def modify_core(
-        self, db: AsyncSession, core_id: int, modified_core: CoreCreate, admin: AdminDetails
+        self,
+        db: AsyncSession,
+        core_id: int,
+        modified_core: CoreCreate,
+        admin: AdminDetails,
+        note: str | None = None,
+        restart_nodes: bool = False,
     ) -> CoreResponse:
         db_core = await self.get_validated_core_config(db, core_id)
         was_wg = db_core.type == CoreType.wg
@@ -146,6 +178,9 @@ class CoreOperation(BaseOperation):
 
         await core_manager.update_core(db_core, validated_core)
 
+        restarted_nodes = await self._restart_target_names(db, db_core.id) if restart_nodes else None
+        await create_core_revision(db, db_core, admin.username, note, restarted_nodes)
+
         logger.info(f'Core config "{db_core.name}" modified by admin "{admin.username}"')
 
         core = CoreResponse.model_validate(db_core)
@@ -209,3 +244,33 @@ class CoreOperation(BaseOperation):
         await self._refresh_hosts_from_db(db)
 
         return RemoveCoresResponse(cores=core_names, count=len(db_cores_list))
+
+    async def _get_validated_core_revision(
+        self, db: AsyncSession, core_id: int, revision_id: int
+    ) -> CoreConfigRevision:
+        await self.get_validated_core_config(db, core_id)
+        db_revision = await get_core_revision(db, core_id, revision_id)
+        if not db_revision:
+            await self.raise_error(message="Core revision not found", code=404)
+        return db_revision
+
+    async def get_core_revisions(
+        self, db: AsyncSession, core_id: int, offset: int | None = None, limit: int | None = None
+    ) -> CoreRevisionList:
+        await self.get_validated_core_config(db, core_id)
+        db_revisions, count = await get_core_revisions(db, core_id, offset, limit)
+        return CoreRevisionList(
+            revisions=[CoreRevisionSummary.model_validate(revision) for revision in db_revisions], count=count
+        )
+
+    async def get_core_revision(self, db: AsyncSession, core_id: int, revision_id: int) -> CoreRevisionResponse:
+        db_revision = await self._get_validated_core_revision(db, core_id, revision_id)
+        return CoreRevisionResponse.model_validate(db_revision)
+
+    async def annotate_core_revision(
+        self, db: AsyncSession, core_id: int, revision_id: int, annotation: CoreRevisionNote, admin: AdminDetails
+    ) -> CoreRevisionSummary:
+        db_revision = await self._get_validated_core_revision(db, core_id, revision_id)
+        db_revision = await update_core_revision_note(db, db_revision, annotation.note)
+        logger.info(f'Revision "{revision_id}" of core config "{core_id}" annotated by admin "{admin.username}"')
+        return CoreRevisionSummary.model_validate(db_revision)
@@ -1,7 +1,9 @@
 import asyncio
+from datetime import UTC, datetime
 
 from app import notification
 from app.core.hosts import host_manager
+from app.core.manager import core_manager
 from app.db import AsyncSession
 from app.db.crud.host import (
     create_host,
@@ -19,10 +21,19 @@ from app.models.host import (
     BulkHostsActionResponse,
     BulkHostSelection,
     CreateHost,
+    HostHealthResponse,
+    HostHealthResult,
+    HostHealthSelection,
+    HostHealthStatus,
     HostListQuery,
+    HostPreview,
+    HostPreviewResponse,
     RemoveHostsResponse,
 )
 from app.operation import BaseOperation
+from app.operation.subscription import SubscriptionOperation
+from app.subscription.share import collect_host_entries
+from app.utils.host_probe import find_reality_targets, probe_host
 from app.utils.logger import get_logger
 
 logger = get_logger("host-operation")
@@ -58,6 +69,60 @@ class HostOperation(BaseOperation):
             ):
                 return await self.raise_error("download host cannot have a download host", 400, db=db)
 
+    async def preview_host(self, db: AsyncSession, preview: HostPreview, admin: AdminDetails) -> HostPreviewResponse:
+        # The host is an unsaved payload, and the rendered links carry the user's credentials
+        await self.enforce_any_permission(admin, ("hosts", "update"), ("hosts", "create"))
+        await self.enforce_any_permission(admin, ("users", "read"))
+        await self.validate_ds_host(db, preview.host)
+        await self.check_host_inbound_tags([preview.host.inbound_tag])
+
+        db_user = await self.get_validated_user_by_id(db, preview.user_id, admin)
+        user = await SubscriptionOperation.validated_user(db_user)
+
+        host_data = await host_manager.prepare_preview_host(db, BaseHost.model_validate(preview.host))
+        if host_data is None:
+            return HostPreviewResponse()
+
+        try:
+            entries = await collect_host_entries(user, host_data)
+        except (ValueError, KeyError) as exc:
+            return await self.raise_error(message=f"Failed to render host: {exc!s}", code=400, db=db)
+        return HostPreviewResponse(**entries)
+
+    async def check_hosts_health(self, db: AsyncSession, bulk_hosts: HostHealthSelection) -> HostHealthResponse:
+        """Probe selected hosts from the panel; disabled hosts are checked too so they can be fixed before enabling"""
+        ids_list = list(bulk_hosts.ids)
+        db_hosts = await get_hosts(db, HostListQuery(ids=ids_list, limit=len(ids_list)))
+
+        found_ids = {h.id for h in db_hosts}
+        missing = set(ids_list) - found_ids
+        if missing:
+            await self.raise_error(message="Host not found", code=404)
+
+        async def _check(
+            db_host: ProxyHost, host_data, inbound: dict | None, reality_target: str | None
+        ) -> HostHealthResult:
+            if host_data is None or inbound is None:
+                return HostHealthResult(
+                    host_id=db_host.id,
+                    remark=db_host.remark,
+                    status=HostHealthStatus.error,
+                    checked_at=datetime.now(UTC),
+                    checks=[{"name": "inbound", "status": "error", "message": "Inbound is not available"}],
+                )
+            result = await probe_host(host_data, inbound, reality_target=reality_target)
+            return HostHealthResult(host_id=db_host.id, remark=db_host.remark, **result)
+
+        # Preparing reads the db session, so only the network probes run concurrently
+        reality_targets = await find_reality_targets()
+        prepared = []
+        for db_host in db_hosts:
+            host_data = await host_manager.prepare_preview_host(db, BaseHost.model_validate(db_host))
+            inbound = await core_manager.get_inbound_by_tag(db_host.inbound_tag)
+            prepared.append((db_host, host_data, inbound, reality_targets.get(db_host.inbound_tag)))
+
+        return HostHealthResponse(hosts=await asyncio.gather(*(_check(*item) for item in prepared)))
+
     async def create_host(self, db: AsyncSession, new_host: CreateHost, admin: AdminDetails) -> BaseHost:
         await self.validate_subscription_templates(db, new_host)
         await self.validate_ds_host(db, new_host)
@@ -28,7 +28,7 @@ from app.db.crud.node import (
 from app.db.crud.user import get_user_by_id, get_user_count_metric_stats
 from app.db.models import Node, NodeStatus
 from app.models.admin import AdminDetails
-from app.models.core import CoreType
+from app.models.core import CoreRollout, CoreRolloutResponse, CoreType
 from app.models.node import (
     BulkNodesActionResponse,
     BulkNodeSelection,
@@ -92,6 +92,7 @@ class NodeOperation(BaseOperation):
             self._update_geofiles_impl = self._update_geofiles_local
             self._get_logs_impl = self._get_logs_local
             self._restart_all_impl = self._restart_all_nodes_local
+            self._apply_core_impl = self._apply_core_to_nodes_local
         else:
             self._update_node_impl = self._update_node_remote
             self._remove_node_impl = self._remove_node_remote
@@ -110,6 +111,7 @@ class NodeOperation(BaseOperation):
             self._update_geofiles_impl = self._update_geofiles_remote
             self._get_logs_impl = self._get_logs_remote
             self._restart_all_impl = self._restart_all_nodes_remote
+            self._apply_core_impl = self._apply_core_to_nodes_remote
 
     async def get_db_nodes(
         self,
@@ -551,6 +553,55 @@ class NodeOperation(BaseOperation):
         await self.get_validated_node(db, node_id, load_usage_logs=False)
         return await self._update_geofiles_impl(node_id, node_geofiles_update)
 
+    async def apply_core_to_nodes(self, db: AsyncSession, core_id: int, rollout: CoreRollout) -> CoreRolloutResponse:
+        """
+        Start the selected nodes of a core with a candidate config that is not saved.
+
+        The saved core config is left untouched, so reconnecting a node later puts it back
+        on the saved config. This is what staged rollouts use for canaries and rollback.
+
+        Args:
+            db (AsyncSession): Database session.
+            core_id (int): ID of the core the nodes belong to.
+            rollout (CoreRollout): Candidate config and target node IDs.
+
+        Returns:
+            CoreRolloutResponse: Per-node status after starting the candidate config.
+        """
+        results = await self._apply_core_impl(db, core_id, rollout)
+        return CoreRolloutResponse(results=results)
+
+    async def _get_rollout_targets(
+        self, db: AsyncSession, core_id: int, rollout: CoreRollout
+    ) -> tuple[list[Node], object]:
+        db_core = await self.get_validated_core_config(db, core_id)
+        core_type = rollout.core.type or db_core.type
+        if core_type != db_core.type:
+            await self.raise_error(message="Core type cannot change during a staged rollout", code=400)
+
+        nodes, _ = await get_nodes(db, query=NodeListQuery(ids=list(rollout.node_ids)), load_usage_logs=False)
+        if len(nodes) != len(rollout.node_ids):
+            await self.raise_error(message="Node not found", code=404)
+
+        foreign = [node.name for node in nodes if (node.core_config_id or 1) != core_id]
+        if foreign:
+            await self.raise_error(message=f"Nodes do not use this core: {', '.join(foreign)}", code=400)
+        inactive = [node.name for node in nodes if node.status in (NodeStatus.disabled, NodeStatus.limited)]
+        if inactive:
+            await self.raise_error(message=f"Nodes are disabled or limited: {', '.join(inactive)}", code=400)
+
+        try:
+            core = core_manager.validate_core(
+                rollout.core.config,
+                rollout.core.exclude_inbound_tags,
+                rollout.core.fallbacks_inbound_tags,
+                core_type,
+            )
+        except Exception as e:
+            await self.raise_error(message=e, code=400)
+
+        return nodes, core
+
     async def _update_node_local(self, db_node: Node) -> None:
         await node_manager.update_node(db_node)
 
@@ -980,6 +1031,64 @@ class NodeOperation(BaseOperation):
             {"node_id": node_id, "geofiles_update": node_geofiles_update.model_dump(mode="json")},
         )
 
+    async def _apply_core_to_nodes_local(self, db: AsyncSession, core_id: int, rollout: CoreRollout) -> list[dict]:
+        nodes, core = await self._get_rollout_targets(db, core_id, rollout)
+        users = await core_users(db=db, inbound_tags=core.inbounds, allowed_protocols=core.protocols)
+
+        async def apply_single(node: Node) -> dict:
+            try:
+                await node_manager.update_node(node)
+            except NodeAPIError as e:
+                return {
+                    "node_id": node.id,
+                    "status": NodeStatus.error,
+                    "message": e.detail,
+                    "xray_version": "",
+                    "node_version": "",
+                    "old_status": node.status,
+                }
+
+            result = await self.connect_node(node, core, users)
+            if result is None:
+                return {"node_id": node.id, "status": node.status, "message": "Node is not available"}
+            return result
+
+        results = await asyncio.gather(*[apply_single(node) for node in nodes])
+        await bulk_update_node_status(db, [r for r in results if "old_status" in r])
+
+        names = {node.id: node.name for node in nodes}
+        logger.info(f'Candidate config of core "{core_id}" started on nodes: {", ".join(names.values())}')
+        for result in results:
+            if result["status"] == NodeStatus.error and result.get("old_status") != NodeStatus.error:
+                node_notif = NodeNotification(
+                    id=result["node_id"],
+                    name=names[result["node_id"]],
+                    message=result["message"],
+                )
+                asyncio.create_task(notification.error_node(node_notif))
+
+        return [
+            {
+                "node_id": r["node_id"],
+                "name": names[r["node_id"]],
+                "status": r["status"],
+                "message": r.get("message") or "",
+            }
+            for r in results
+        ]
+
+    async def _apply_core_to_nodes_remote(self, db: AsyncSession, core_id: int, rollout: CoreRollout) -> list[dict]:
+        await self._get_rollout_targets(db, core_id, rollout)
+        try:
+            data = await node_nats_client.request(
+                "apply_core",
+                {"core_id": core_id, "rollout": rollout.model_dump(mode="json")},
+                timeout=60,
+            )
+            return data["results"]
+        except RuntimeError as exc:
+            await self.handle_rpc_error(exc)
+
     async def bulk_remove_nodes(
         self, db: AsyncSession, bulk_nodes: BulkNodeSelection, admin: AdminDetails
     ) -> RemoveNodesResponse:
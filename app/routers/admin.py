@@ -7,6 +7,7 @@ from fastapi.security import OAuth2PasswordRequestForm
 from app import notification
 from app.db import AsyncSession, get_db
 from app.models.admin import (
+    AdminBrandingModify,
     AdminCreate,
     AdminDetails,
     AdminListQuery,
@@ -180,6 +181,16 @@ def get_current_admin(admin: AdminDetails = Depends(get_current_with_metrics)):
     return admin
 
 
+@router.put("/me/branding", response_model=AdminDetails)
+async def modify_own_branding(
+    modified_branding: AdminBrandingModify,
+    db: AsyncSession = Depends(get_db),
+    admin: AdminDetails = Depends(get_current),
+):
+    """Update the subscription domain, profile title and support URL of the current admin; null clears a field."""
+    return await admin_operator.modify_own_branding(db, modified_branding=modified_branding, current_admin=admin)
+
+
 @router.get("s", response_model=AdminsResponse)
 async def get_admins(
     query: Annotated[AdminListQuery, Depends(get_admin_list_query)],
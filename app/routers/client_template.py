@@ -6,6 +6,8 @@ from app.models.client_template import (
     BulkClientTemplateSelection,
     ClientTemplateCreate,
     ClientTemplateModify,
+    ClientTemplatePreview,
+    ClientTemplatePreviewResponse,
     ClientTemplateResponse,
     ClientTemplateResponseList,
     ClientTemplatesSimpleResponse,
@@ -36,6 +38,24 @@ async def create_client_template(
     return await client_template_operator.create_client_template(db, new_template, admin)
 
 
+@router.post(
+    "/preview",
+    response_model=ClientTemplatePreviewResponse,
+    responses={400: responses._400, 404: responses._404},
+)
+async def preview_client_template(
+    preview: ClientTemplatePreview,
+    db: AsyncSession = Depends(get_db),
+    admin: AdminDetails = Depends(require_permission("client_templates", "read")),
+):
+    """
+    Render template content for one of the admin's users, as that user's subscription would look with it
+
+    Also requires **users.read**, since the output contains the user's credentials.
+    """
+    return await client_template_operator.preview_client_template(db, preview, admin)
+
+
 @router.get("/{template_id}", response_model=ClientTemplateResponse)
 async def get_client_template(
     template_id: int,
@@ -1,4 +1,4 @@
-from fastapi import APIRouter, Depends, status
+from fastapi import APIRouter, Depends, Query, status
 
 from app.db import AsyncSession, get_db
 from app.models.admin import AdminDetails
@@ -7,6 +7,12 @@ from app.models.core import (
     CoreCreate,
     CoreResponse,
     CoreResponseList,
+    CoreRevisionList,
+    CoreRevisionNote,
+    CoreRevisionResponse,
+    CoreRevisionSummary,
+    CoreRollout,
+    CoreRolloutResponse,
     CoresSimpleResponse,
     RemoveCoresResponse,
 )
@@ -27,11 +33,12 @@ router = APIRouter(tags=["Core"], prefix="/api/core", responses={401: responses.
 @router.post("", response_model=CoreResponse, status_code=status.HTTP_201_CREATED)
 async def create_core_config(
     new_core: CoreCreate,
+    note: str | None = Query(default=None, max_length=512),
     admin: AdminDetails = Depends(require_permission("cores", "create")),
     db: AsyncSession = Depends(get_db),
 ):
     """Create a new core configuration."""
-    return await core_operator.create_core(db, new_core, admin)
+    return await core_operator.create_core(db, new_core, admin, note=CoreRevisionNote(note=note).note)
 
 
 @router.post("/reality-scan", response_model=RealityScanResult)
@@ -55,11 +62,14 @@ async def modify_core_config(
     core_id: int,
     restart_nodes: bool,
     modified_core: CoreCreate,
+    note: str | None = Query(default=None, max_length=512),
     admin: AdminDetails = Depends(require_permission("cores", "update")),
     db: AsyncSession = Depends(get_db),
 ):
-    """Update an existing core configuration."""
-    response = await core_operator.modify_core(db, core_id, modified_core, admin)
+    """Update an existing core configuration and record the saved state as a new revision."""
+    response = await core_operator.modify_core(
+        db, core_id, modified_core, admin, note=CoreRevisionNote(note=note).note, restart_nodes=restart_nodes
+    )
 
     if restart_nodes:
         await node_operator.restart_all_node(db=db, core_id=core_id, admin=admin)
@@ -67,6 +77,56 @@ async def modify_core_config(
     return response
 
 
+@router.get("/{core_id}/revisions", response_model=CoreRevisionList)
+async def get_core_revisions(
+    core_id: int,
+    offset: int | None = None,
+    limit: int | None = None,
+    _: AdminDetails = Depends(require_permission("cores", "read")),
+    db: AsyncSession = Depends(get_db),
+):
+    """Get the saved revisions of a core configuration, newest first."""
+    return await core_operator.get_core_revisions(db, core_id, offset, limit)
+
+
+@router.get("/{core_id}/revisions/{revision_id}", response_model=CoreRevisionResponse)
+async def get_core_revision(
+    core_id: int,
+    revision_id: int,
+    _: AdminDetails = Depends(require_permission("cores", "read")),
+    db: AsyncSession = Depends(get_db),
+):
+    """Get a single revision of a core configuration, including its config."""
+    return await core_operator.get_core_revision(db, core_id, revision_id)
+
+
+@router.put("/{core_id}/revisions/{revision_id}", response_model=CoreRevisionSummary)
+async def annotate_core_revision(
+    core_id: int,
+    revision_id: int,
+    annotation: CoreRevisionNote,
+    admin: AdminDetails = Depends(require_permission("cores", "update")),
+    db: AsyncSession = Depends(get_db),
+):
+    """Set or clear the change note of a core configuration revision."""
+    return await core_operator.annotate_core_revision(db, core_id, revision_id, annotation, admin)
+
+
+@router.post(
+    "/{core_id}/rollout",
+    response_model=CoreRolloutResponse,
+    responses={400: responses._400, 404: responses._404},
+)
+async def apply_core_rollout(
+    core_id: int,
+    rollout: CoreRollout,
+    _: AdminDetails = Depends(require_permission("cores", "update")),
+    db: AsyncSession = Depends(get_db),
+):
+    """Start selected nodes of a core with an unsaved candidate config, for canary and staged rollouts."""
+    return await node_operator.apply_core_to_nodes(db, core_id, rollout)
+
+
 @router.delete("/{core_id}", status_code=status.HTTP_204_NO_CONTENT)
 async def delete_core_config(
     core_id: int,
@@ -2,7 +2,17 @@ from fastapi import APIRouter, Depends, status
 
 from app.db import AsyncSession, get_db
 from app.models.admin import AdminDetails
-from app.models.host import BaseHost, BulkHostsActionResponse, BulkHostSelection, CreateHost, RemoveHostsResponse
+from app.models.host import (
+    BaseHost,
+    BulkHostsActionResponse,
+    BulkHostSelection,
+    CreateHost,
+    HostHealthResponse,
+    HostHealthSelection,
+    HostPreview,
+    HostPreviewResponse,
+    RemoveHostsResponse,
+)
 from app.operation import OperatorType
 from app.operation.host import HostOperation
 from app.utils import responses
@@ -14,6 +24,21 @@ host_operator = HostOperation(operator_type=OperatorType.API)
 router = APIRouter(tags=["Host"], prefix="/api/host", responses={401: responses._401, 403: responses._403})
 
 
+@router.post("/preview", response_model=HostPreviewResponse, responses={400: responses._400, 404: responses._404})
+async def preview_host(
+    preview: HostPreview,
+    db: AsyncSession = Depends(get_db),
+    admin: AdminDetails = Depends(require_permission("hosts", "read")),
+):
+    """
+    Render a host, saved or not, for one user in every share format
+
+    Nothing is stored; the result only contains the entries this host adds.
+    Also requires **hosts.update** or **hosts.create**, and **users.read** for the user.
+    """
+    return await host_operator.preview_host(db, preview=preview, admin=admin)
+
+
 @router.get("/{host_id}", response_model=BaseHost)
 async def get_host(
     host_id: int, db: AsyncSession = Depends(get_db), _: AdminDetails = Depends(require_permission("hosts", "read"))
@@ -94,6 +119,22 @@ async def modify_hosts(
     return await host_operator.modify_hosts(db=db, modified_hosts=modified_hosts, admin=admin)
 
 
+@router.post("s/health", response_model=HostHealthResponse, responses={404: responses._404})
+async def check_hosts_health(
+    bulk_hosts: HostHealthSelection,
+    db: AsyncSession = Depends(get_db),
+    _: AdminDetails = Depends(require_permission("hosts", "update")),
+):
+    """
+    Probe selected hosts from the panel server
+
+    Checks DNS and TCP reachability, the TLS handshake with the host's SNI and ALPN,
+    certificate expiry and, for Reality, the serverNames and target. Nothing is stored.
+    Up to 20 hosts per request; requires **hosts.update** since the panel opens the connections.
+    """
+    return await host_operator.check_hosts_health(db, bulk_hosts)
+
+
 @router.post(
     "s/bulk/delete",
     response_model=RemoveHostsResponse,
@@ -82,8 +82,11 @@ async def generate_subscription(
     config_format: str,
     as_base64: bool,
     randomize_order: bool = False,
+    client_templates_override: dict[str, str] | None = None,
 ) -> str | bytes:
     client_templates = await subscription_client_templates()
+    if client_templates_override:
+        client_templates = {**client_templates, **client_templates_override}
     xray_template_overrides = await subscription_xray_templates() if config_format == "xray" else None
     conf = _build_subscription_config(config_format, client_templates)
     if conf is None:
@@ -422,12 +425,40 @@ async def process_inbounds_and_tags(
     randomize_order: bool = False,
     custom_variables: list | tuple | None = None,
 ) -> str | bytes:
-    proxy_settings = user.proxy_settings.dict()
-    proxy_settings["_user_id"] = user.id
     hosts = await filter_hosts(list((await host_manager.get_hosts()).values()), user.status)
     if randomize_order and len(hosts) > 1:
         random.shuffle(hosts)
 
+    await _add_hosts_to_config(
+        user,
+        hosts,
+        format_variables,
+        conf,
+        client_templates,
+        xray_template_overrides=xray_template_overrides,
+        custom_variables=custom_variables,
+    )
+    return conf.render()
+
+
+async def _add_hosts_to_config(
+    user: UsersResponseWithInbounds,
+    hosts: list[SubscriptionInboundData],
+    format_variables: dict,
+    conf: StandardLinks
+    | XrayConfiguration
+    | SingBoxConfiguration
+    | ClashConfiguration
+    | ClashMetaConfiguration
+    | OutlineConfiguration
+    | WireGuardConfiguration,
+    client_templates: dict[str, str],
+    xray_template_overrides: dict[int, str] | None = None,
+    custom_variables: list | tuple | None = None,
+) -> None:
+    proxy_settings = user.proxy_settings.dict()
+    proxy_settings["_user_id"] = user.id
+
     def _resolve_host_xray_template_content(inbound: SubscriptionInboundData) -> str | None:
         if xray_template_overrides is None:
             return None
@@ -484,7 +515,41 @@ async def process_inbounds_and_tags(
                 settings=settings,
             )
 
-    return conf.render()
+
+async def collect_host_entries(user: UsersResponseWithInbounds, host: SubscriptionInboundData) -> dict[str, list]:
+    """
+    Build what a single host adds to each share format for a user, without the client template around it.
+    The host does not have to be stored, so unsaved edits can be previewed.
+    """
+    client_templates = await subscription_client_templates()
+    sub_settings = await subscription_settings()
+    custom_variables = get_effective_custom_variables(user, sub_settings.custom_variables)
+
+    entries: dict[str, list] = {}
+    for config_format in ("links", "xray", "sing_box", "clash_meta"):
+        conf = _build_subscription_config(config_format, client_templates)
+        format_variables = setup_format_variables(user, sub_settings.custom_variables)
+        hosts = await filter_hosts([host.model_copy(deep=True)], user.status)
+
+        if isinstance(conf, SingBoxConfiguration):
+            outbounds_start, endpoints_start = len(conf.config["outbounds"]), len(conf.config["endpoints"])
+
+        await _add_hosts_to_config(
+            user, hosts, format_variables, conf, client_templates, custom_variables=custom_variables
+        )
+
+        if isinstance(conf, StandardLinks):
+            entries[config_format] = list(conf.links)
+        elif isinstance(conf, XrayConfiguration):
+            entries[config_format] = list(conf.host_outbounds)
+        elif isinstance(conf, SingBoxConfiguration):
+            entries[config_format] = (
+                conf.config["outbounds"][outbounds_start:] + conf.config["endpoints"][endpoints_start:]
+            )
+        else:
+            entries[config_format] = list(conf.data["proxies"])
+
+    return entries
 
 
 def encode_title(text: str) -> str:
@@ -29,6 +29,8 @@ class XrayConfiguration(BaseSubscription):
             grpc_user_agent_template_content=grpc_user_agent_template_content,
         )
         self.config = []
+        # Outbounds built from hosts, apart from the ones each config's template adds
+        self.host_outbounds: list[dict] = []
         self.template = json.loads(xray_template_content) if xray_template_content else {}
 
         # Registry for transport handlers
@@ -61,6 +63,7 @@ class XrayConfiguration(BaseSubscription):
         json_template["remarks"] = remarks
         json_template["outbounds"] = outbounds + json_template["outbounds"]
         self.config.append(json_template)
+        self.host_outbounds.extend(outbounds)
 
     def render(self):
         return json.dumps(self.config, indent=4)
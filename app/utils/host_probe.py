@@ -0,0 +1,251 @@
+import asyncio
+import secrets
+import socket
+import ssl
+import time
+from datetime import UTC, datetime
+
+from app.core.manager import core_manager
+from app.core.xray import XRayConfig
+from app.models.subscription import SubscriptionInboundData
+from app.utils.reality_scan import (
+    RealityScanError,
+    _get_scan_executor,
+    _get_scan_semaphore,
+    _parse_certificate,
+    _pretty_tls_version,
+    _tls_wrap_with_deadline,
+    parse_target,
+)
+
+DEFAULT_TIMEOUT = 5.0
+MAX_ENDPOINTS_PER_HOST = 6
+CERT_EXPIRY_WARNING_DAYS = 14
+
+STATUS_OK = "ok"
+STATUS_WARNING = "warning"
+STATUS_ERROR = "error"
+STATUS_SKIPPED = "skipped"
+
+_STATUS_RANK = {STATUS_SKIPPED: 0, STATUS_OK: 1, STATUS_WARNING: 2, STATUS_ERROR: 3}
+
+_UDP_PROTOCOLS = {"wireguard", "hysteria"}
+_UDP_NETWORKS = {"kcp", "quic", "hysteria"}
+
+
+def _check(name: str, status: str, message: str | None = None, latency_ms: float | None = None) -> dict:
+    return {
+        "name": name,
+        "status": status,
+        "message": message,
+        "latency_ms": round(latency_ms) if latency_ms is not None else None,
+    }
+
+
+def worst_status(statuses: list[str]) -> str:
+    """Overall status of a set of checks; skipped checks only count when nothing else ran."""
+    return max(statuses, key=lambda status: _STATUS_RANK.get(status, 0), default=STATUS_SKIPPED)
+
+
+def _make_context(alpn: list[str], verify: bool) -> ssl.SSLContext:
+    if verify:
+        ctx = ssl.create_default_context()
+    else:
+        ctx = ssl.SSLContext(ssl.PROTOCOL_TLS_CLIENT)
+        ctx.check_hostname = False
+        ctx.verify_mode = ssl.CERT_NONE
+    ctx.minimum_version = ssl.TLSVersion.TLSv1_2
+    ctx.set_alpn_protocols(alpn or ["h2", "http/1.1"])
+    return ctx
+
+
+def _certificate_check(not_after: str | None, verify_error: str | None, verified: bool) -> dict:
+    if verify_error:
+        return _check("certificate", STATUS_ERROR, verify_error)
+    if not not_after:
+        return _check("certificate", STATUS_WARNING, "Certificate expiry could not be read.")
+
+    days_left = (datetime.fromisoformat(not_after) - datetime.now(UTC)).days
+    if days_left < 0:
+        return _check("certificate", STATUS_ERROR, f"Certificate expired on {not_after[:10]}.")
+    if days_left < CERT_EXPIRY_WARNING_DAYS:
+        return _check("certificate", STATUS_WARNING, f"Certificate expires in {days_left} days ({not_after[:10]}).")
+    message = f"Valid until {not_after[:10]}."
+    if not verified:
+        message += " Chain was not verified because the host allows insecure connections."
+    return _check("certificate", STATUS_OK, message)
+
+
+def _tls_checks(
+    ip: str, port: int, sni: str | None, alpn: list[str], verify: bool, timeout: float
+) -> tuple[list[dict], str | None]:
+    """TLS handshake with the host's SNI and ALPN, then the certificate it presented."""
+    verify_error = None
+
+    def _handshake(ctx: ssl.SSLContext):
+        tls, latency = _tls_wrap_with_deadline(ctx, ip, port, sni or None, timeout)
+        with tls:
+            return tls.version(), tls.selected_alpn_protocol(), tls.getpeercert(binary_form=True), latency
+
+    try:
+        try:
+            version, selected_alpn, der, latency = _handshake(_make_context(alpn, verify))
+        except ssl.SSLCertVerificationError as exc:
+            verify_error = f"Certificate did not validate: {getattr(exc, 'verify_message', None) or exc}"
+            version, selected_alpn, der, latency = _handshake(_make_context(alpn, verify=False))
+    except TimeoutError:
+        return [_check("tls", STATUS_ERROR, "TLS handshake timed out.")], None
+    except ssl.SSLError as exc:
+        return [_check("tls", STATUS_ERROR, f"TLS handshake failed: {exc}")], None
+    except (UnicodeError, OSError) as exc:
+        return [_check("tls", STATUS_ERROR, f"TLS connection failed: {exc}")], None
+
+    message = f"TLS {_pretty_tls_version(version)}" + (f", ALPN {selected_alpn}" if selected_alpn else "")
+    tls_check = _check("tls", STATUS_OK, message, latency)
+    if alpn and selected_alpn is None:
+        tls_check = _check("tls", STATUS_WARNING, f"{message}; the server accepted none of {', '.join(alpn)}", latency)
+
+    not_after = _parse_certificate(der)["not_after"]
+    return [tls_check, _certificate_check(not_after, verify_error, verify)], not_after
+
+
+def _probe_endpoint(
+    address: str, port: int, sni: str | None, tls: str | None, alpn: list[str], verify: bool, timeout: float
+) -> dict:
+    result: dict = {"address": address, "port": port, "sni": sni, "ip": None, "not_after": None, "checks": []}
+    checks: list[dict] = result["checks"]
+
+    try:
+        infos = socket.getaddrinfo(address, port, type=socket.SOCK_STREAM)
+    except (socket.gaierror, UnicodeError) as exc:
+        checks.append(_check("dns", STATUS_ERROR, f"Could not resolve {address}: {exc}"))
+        return result
+    result["ip"] = ip = infos[0][4][0]
+
+    started = time.monotonic()
+    try:
+        with socket.create_connection((ip, port), timeout=timeout):
+            pass
+    except TimeoutError:
+        checks.append(_check("tcp", STATUS_ERROR, "Connection timed out."))
+        return result
+    except OSError as exc:
+        checks.append(_check("tcp", STATUS_ERROR, f"Connection failed: {exc}"))
+        return result
+    checks.append(_check("tcp", STATUS_OK, latency_ms=(time.monotonic() - started) * 1000.0))
+
+    if tls in ("tls", "reality"):
+        tls_checks, result["not_after"] = _tls_checks(ip, port, sni, alpn, verify, timeout)
+        checks.extend(tls_checks)
+    return result
+
+
+async def _run_probe(*args) -> dict:
+    async with _get_scan_semaphore():
+        loop = asyncio.get_running_loop()
+        return await loop.run_in_executor(_get_scan_executor(), _probe_endpoint, *args)
+
+
+def _as_list(value) -> list:
+    if isinstance(value, list):
+        return value
+    return [value] if value else []
+
+
+def _sni_checks(tls: str | None, snis: list[str], inbound: dict) -> list[dict]:
+    if tls not in ("tls", "reality"):
+        return []
+    if not snis:
+        return [_check("sni", STATUS_WARNING, "No SNI is configured; clients connect without a server name.")]
+    if tls != "reality":
+        return []
+
+    # Reality only accepts exact serverNames, so wildcard SNIs never match
+    server_names = set(_as_list(inbound.get("sni")))
+    unknown = [sni for sni in snis if sni not in server_names]
+    if unknown:
+        return [_check("sni", STATUS_ERROR, f"Not in the inbound's Reality serverNames: {', '.join(unknown)}")]
+    return [_check("sni", STATUS_OK)]
+
+
+async def find_reality_targets() -> dict[str, str]:
+    """Reality targets by inbound tag, read from the core configs; the served inbound settings leave them out."""
+    targets: dict[str, str] = {}
+    for core in (await core_manager.get_cores()).values():
+        if not isinstance(core, XRayConfig):
+            continue
+        for inbound in core.get("inbounds", []):
+            reality = (inbound.get("streamSettings") or {}).get("realitySettings") or {}
+            # Older configs still use "dest"
+            target = reality.get("target") or reality.get("dest")
+            if target and inbound.get("tag"):
+                targets.setdefault(inbound["tag"], str(target))
+    return targets
+
+
+async def _reality_target_check(target: str | None, snis: list[str], timeout: float) -> dict:
+    if not target or str(target).isdigit() or str(target).startswith(("/", "@")):
+        return _check("reality_target", STATUS_SKIPPED, "Reality target is local or not set.")
+    try:
+        host, port, default_sni = parse_target(str(target))
+    except RealityScanError as exc:
+        return _check("reality_target", STATUS_ERROR, str(exc))
+
+    # The target is what an unauthenticated handshake is forwarded to, so it has to serve the host's SNI
+    sni = next((name for name in snis if "*" not in name), default_sni)
+    result = await _run_probe(host, port, sni, "tls", [], True, timeout)
+    failed = next((check for check in result["checks"] if check["status"] == STATUS_ERROR), None)
+    if failed:
+        return _check("reality_target", STATUS_ERROR, f"{host}:{port} - {failed['message']}")
+    latency = next((check["latency_ms"] for check in result["checks"] if check["name"] == "tls"), None)
+    return _check("reality_target", STATUS_OK, f"{host}:{port}", latency)
+
+
+async def probe_host(
+    host: SubscriptionInboundData, inbound: dict, timeout: float | None = None, reality_target: str | None = None
+) -> dict:
+    """
+    Check a prepared host the way a client would reach it: every address/port/SNI combination
+    (up to MAX_ENDPOINTS_PER_HOST) gets a TCP connect and, for TLS and Reality, a handshake.
+    """
+    timeout = timeout or DEFAULT_TIMEOUT
+    tls = host.tls_config.tls
+    snis = _as_list(host.tls_config.sni)
+    checks = _sni_checks(tls, snis, inbound)
+    if tls == "reality":
+        checks.append(await _reality_target_check(reality_target, snis, timeout))
+
+    salt = secrets.token_hex(4)
+    verify = not host.tls_config.allowinsecure
+    combos = [
+        (address, port, sni)
+        for address in _as_list(host.address)
+        for port in _as_list(host.port)
+        for sni in (snis or [None])
+    ][:MAX_ENDPOINTS_PER_HOST]
+
+    async def _probe_combo(address: str, port: int, sni: str | None) -> dict:
+        sni = sni.replace("*", salt) if sni else sni
+        if host.protocol in _UDP_PROTOCOLS or host.network in _UDP_NETWORKS:
+            skipped = _check("tcp", STATUS_SKIPPED, "UDP transports cannot be checked with a TCP connect.")
+        elif "{" in address:
+            skipped = _check("address", STATUS_SKIPPED, "Templated addresses are only known per request.")
+        else:
+            address = address.replace("*", salt)
+            return await _run_probe(address, port, sni, tls, host.tls_config.alpn_list, verify, timeout)
+        return {"address": address, "port": port, "sni": sni, "ip": None, "not_after": None, "checks": [skipped]}
+
+    endpoints = list(await asyncio.gather(*(_probe_combo(*combo) for combo in combos)))
+    statuses = [check["status"] for check in checks] + [
+        check["status"] for endpoint in endpoints for check in endpoint["checks"]
+    ]
+    expiries = [endpoint["not_after"] for endpoint in endpoints if endpoint["not_after"]]
+
+    return {
+        "status": worst_status(statuses),
+        "security": tls,
+        "checked_at": datetime.now(UTC),
+        "checks": checks,
+        "endpoints": endpoints,
+        "cert_not_after": min(expiries) if expiries else None,
+    }
@@ -22,6 +22,8 @@ const BulkDataPage = lazyWithChunkRecovery(() => import('../pages/_dashboard.bul
 const BulkExpirePage = lazyWithChunkRecovery(() => import('../pages/_dashboard.bulk.expire'))
 const BulkGroupsPage = lazyWithChunkRecovery(() => import('../pages/_dashboard.bulk.groups'))
 const BulkProxyPage = lazyWithChunkRecovery(() => import('../pages/_dashboard.bulk.proxy'))
+const BulkImportPage = lazyWithChunkRecovery(() => import('../pages/_dashboard.bulk.import'))
+const BulkHistoryPage = lazyWithChunkRecovery(() => import('../pages/_dashboard.bulk.history'))
 const Groups = lazyWithChunkRecovery(() => import('../pages/_dashboard.groups'))
 const Hosts = lazyWithChunkRecovery(() => import('../pages/_dashboard.hosts'))
 const Nodes = lazyWithChunkRecovery(() => import('../pages/_dashboard.nodes'))
@@ -42,6 +44,7 @@ const UserTemplates = lazyWithChunkRecovery(() => import('../pages/_dashboard.te
 const ClientTemplates = lazyWithChunkRecovery(() => import('../pages/_dashboard.templates.client'))
 const Users = lazyWithChunkRecovery(() => import('../pages/_dashboard.users'))
 const Login = lazyWithChunkRecovery(() => import('../pages/login'))
+const SubscriptionLanding = lazyWithChunkRecovery(() => import('../pages/subscription'))
 
 // Component to handle default settings routing based on user permissions
 function SettingsIndex() {
@@ -356,6 +359,14 @@ export const router = createHashRouter([
               </Suspense>
             ),
           },
+          {
+            path: '/bulk/import',
+            element: (
+              <Suspense fallback={<LoadingSpinner />}>
+                <BulkImportPage />
+              </Suspense>
+            ),
+          },
           {
             path: '/bulk/proxy',
             element: (
@@ -380,6 +391,14 @@ export const router = createHashRouter([
               </Suspense>
             ),
           },
+          {
+            path: '/bulk/history',
+            element: (
+              <Suspense fallback={<LoadingSpinner />}>
+                <BulkHistoryPage />
+              </Suspense>
+            ),
+          },
         ],
       },
       {
@@ -401,4 +420,14 @@ export const router = createHashRouter([
       </Suspense>
     ),
   },
+  {
+    // Public landing page for end users, outside the admin loader so no session is required
+    path: '/subscription',
+    hydrateFallbackElement: <LoadingSpinner />,
+    element: (
+      <Suspense fallback={<LoadingSpinner />}>
+        <SubscriptionLanding />
+      </Suspense>
+    ),
+  },
 ] as RouteObject[])
@@ -4,7 +4,7 @@ import { Input } from '@/components/ui/input'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { cn } from '@/lib/utils'
 import { Check, Link2, Pencil, Plus, Trash2, X } from 'lucide-react'
-import { useState } from 'react'
+import { useId, useState } from 'react'
 import { toast } from 'sonner'
 
 interface StringArrayPopoverInputProps {
@@ -22,6 +22,8 @@ interface StringArrayPopoverInputProps {
   removeItemTitle?: string
   saveEditTitle?: string
   cancelEditTitle?: string
+  /** Autocomplete options for the value being typed, shown as a native datalist. */
+  getSuggestions?: (input: string) => string[]
   className?: string
 }
 
@@ -44,12 +46,15 @@ export function StringArrayPopoverInput({
   removeItemTitle = 'Remove',
   saveEditTitle = 'Save',
   cancelEditTitle = 'Cancel',
+  getSuggestions,
   className,
 }: StringArrayPopoverInputProps) {
   const [inputValue, setInputValue] = useState('')
   const [isPopoverOpen, setIsPopoverOpen] = useState(false)
   const [editingIndex, setEditingIndex] = useState<number | null>(null)
   const [editingValue, setEditingValue] = useState('')
+  const suggestionsId = useId()
+  const suggestions = getSuggestions?.(inputValue) ?? []
 
   const items = normalizeItems(value ?? [])
   const displayValue = items.length > 0 ? (items.length <= 3 ? items.join(', ') : `${items.slice(0, 3).join(', ')}... (+${items.length - 3} more)`) : ''
@@ -155,7 +160,15 @@ export function StringArrayPopoverInput({
               className="min-w-0 flex-1 text-sm"
               autoFocus={isPopoverOpen}
               disabled={disabled}
+              list={suggestions.length > 0 ? suggestionsId : undefined}
             />
+            {suggestions.length > 0 && (
+              <datalist id={suggestionsId}>
+                {suggestions.map(suggestion => (
+                  <option key={suggestion} value={suggestion} />
+                ))}
+              </datalist>
+            )}
             <Button
               type="button"
               size="sm"
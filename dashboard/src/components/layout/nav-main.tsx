@@ -30,6 +30,8 @@ export function NavMain({
       icon: LucideIcon
       /** When true, highlight for paths under `url` (e.g. /nodes/cores/123). */
       matchPrefix?: boolean
+      /** Shown verbatim instead of translating `title`, for user-named entries such as saved views. */
+      label?: string
     }[]
   }[]
 }) {
@@ -76,7 +78,7 @@ export function NavMain({
                             <SidebarMenuSubButton asChild className="flex h-8 items-center gap-2" isActive={subActive}>
                               <NavLink to={subItem.url} end={!subItem.matchPrefix} onClick={handleNavigation}>
                                 <subItem.icon />
-                                <span>{t(subItem.title)}</span>
+                                <span>{subItem.label ?? t(subItem.title)}</span>
                               </NavLink>
                             </SidebarMenuSubButton>
                           </SidebarMenuSubItem>
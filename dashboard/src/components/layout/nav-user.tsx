@@ -15,7 +15,7 @@ import { removeAuthToken } from '@/utils/authStorage'
 import { queryClient } from '@/utils/query-client'
 import { ThemeToggle } from '@/components/common/theme-toggle'
 import { Language } from '@/components/common/language'
-import { isOwner, roleLabel } from '@/utils/rbac'
+import { getEffectiveMaxUsers, isOwner, roleLabel } from '@/utils/rbac'
 import { statusColors } from '@/constants/UserSettings'
 import { cn } from '@/lib/utils'
 
@@ -26,14 +26,9 @@ type EffectiveLimits = {
 
 const getEffectiveLimits = (admin: AdminDetails | null): EffectiveLimits => {
   if (!admin) return { dataLimit: null, maxUsers: null }
-  const overrides = admin.permission_overrides ?? null
-  const roleLimits = admin.role?.limits ?? null
-  const maxUsersOverride = overrides?.max_users
-  const maxUsersRole = roleLimits?.max_users
-  const maxUsers = maxUsersOverride != null ? maxUsersOverride : maxUsersRole != null ? maxUsersRole : null
   return {
     dataLimit: admin.data_limit ?? null,
-    maxUsers,
+    maxUsers: getEffectiveMaxUsers(admin),
   }
 }
 
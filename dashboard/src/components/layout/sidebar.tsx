@@ -14,25 +14,30 @@ import { Sidebar, SidebarContent, SidebarFooter, SidebarHeader, SidebarMenu, Sid
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { DISCUSSION_GROUP, DOCUMENTATION, DONATION_URL, REPO_URL } from '@/constants/Project'
 import { useAdmin } from '@/hooks/use-admin'
+import { useUsersSavedViews } from '@/hooks/use-users-saved-views'
 import useDirDetection from '@/hooks/use-dir-detection'
 import { useSystemVersion } from '@/hooks/use-system-version'
 import { useVersionCheck } from '@/hooks/use-version-check'
 import { cn } from '@/lib/utils'
-import { canReadResourcePage, hasPermission, hasScopeAll, isOwner } from '@/utils/rbac'
+import { canReadResourcePage, hasPermission, hasScopeAll, isOwner, isResellerAdmin } from '@/utils/rbac'
+import { getUsersViewPath } from '@/utils/usersSavedViews'
 import {
   ArrowUpDown,
   Bell,
   BookOpen,
+  Bookmark,
   Calendar,
   ChevronsLeft,
   ChevronsRight,
   Cpu,
   Database,
   FileCode2,
+  FileUp,
   FileUser,
   Fingerprint,
   GithubIcon,
   Group,
+  History,
   Key,
   Layers,
   LayoutDashboardIcon,
@@ -76,6 +81,9 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const canReadNodeLogs = hasPermission(admin, 'nodes', 'logs')
   const canBulkCreateFromTemplate = hasPermission(admin, 'users', 'create') && canReadTemplates
   const canBulkUpdateUsers = hasScopeAll(admin, 'users', 'update')
+  const canImportUsers = hasPermission(admin, 'users', 'create')
+  const canViewBulkHistory = hasPermission(admin, 'users', 'update') || hasPermission(admin, 'users', 'delete')
+  const pinnedUsersViews = useUsersSavedViews().views.filter(view => view.pinned)
   const nodeNavItems = [
     ...(canReadNodes
       ? [
@@ -193,7 +201,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       name: admin?.username || 'Admin',
     },
     navMain: [
-      ...(canReadSystem
+      ...(canReadSystem || isResellerAdmin(admin)
         ? [
             {
               title: 'dashboard',
@@ -208,6 +216,23 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
               title: 'users',
               url: '/users',
               icon: UsersIcon,
+              ...(pinnedUsersViews.length > 0
+                ? {
+                    items: [
+                      {
+                        title: 'usersViews.allUsers',
+                        url: '/users',
+                        icon: UsersIcon,
+                      },
+                      ...pinnedUsersViews.map(view => ({
+                        title: view.id,
+                        label: view.name,
+                        url: getUsersViewPath(`view=${encodeURIComponent(view.id)}`),
+                        icon: Bookmark,
+                      })),
+                    ],
+                  }
+                : {}),
             },
           ]
         : []),
@@ -283,7 +308,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
             },
           ]
         : []),
-      ...(canBulkCreateFromTemplate || canBulkUpdateUsers
+      ...(canBulkCreateFromTemplate || canImportUsers || canBulkUpdateUsers || canViewBulkHistory
         ? [
             {
               title: 'bulk.title',
@@ -299,6 +324,15 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
                       },
                     ]
                   : []),
+                ...(canImportUsers
+                  ? [
+                      {
+                        title: 'bulk.importUsers',
+                        url: '/bulk/import',
+                        icon: FileUp,
+                      },
+                    ]
+                  : []),
                 ...(canBulkUpdateUsers
                   ? [
                       {
@@ -323,6 +357,15 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
                       },
                     ]
                   : []),
+                ...(canViewBulkHistory
+                  ? [
+                      {
+                        title: 'bulkHistory.title',
+                        url: '/bulk/history',
+                        icon: History,
+                      },
+                    ]
+                  : []),
               ],
             },
           ]
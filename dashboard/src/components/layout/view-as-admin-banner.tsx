@@ -0,0 +1,32 @@
+import { Button } from '@/components/ui/button'
+import { useAdmin } from '@/hooks/use-admin'
+import { setViewAsAdmin } from '@/utils/viewAsAdmin'
+import { Eye, LogOut } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router'
+
+export function ViewAsAdminBanner() {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { viewAs } = useAdmin()
+
+  if (!viewAs) return null
+
+  const handleExit = () => {
+    setViewAsAdmin(null)
+    navigate('/admin-roles')
+  }
+
+  return (
+    <div className="sticky top-0 z-30 flex flex-wrap items-center justify-between gap-2 border-b border-amber-500/40 bg-amber-50 px-4 py-2 text-sm text-amber-800 dark:bg-amber-950/40 dark:text-amber-200">
+      <div className="flex min-w-0 items-center gap-2">
+        <Eye className="h-4 w-4 shrink-0" />
+        <span className="truncate">{t(viewAs.limited ? 'viewAsAdmin.bannerLimited' : 'viewAsAdmin.banner', { name: viewAs.label })}</span>
+      </div>
+      <Button variant="outline" size="sm" className="h-7 shrink-0" onClick={handleExit}>
+        <LogOut className="h-3.5 w-3.5" />
+        {t('viewAsAdmin.exit')}
+      </Button>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
-import { Copy, Eye, MoreVertical, Pencil, Trash2 } from 'lucide-react'
+import { Copy, CopyPlus, Eye, GitCompare, MoreVertical, Pencil, Trash2 } from 'lucide-react'
 
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import { Button } from '@/components/ui/button'
@@ -18,10 +18,12 @@ interface AdminRoleActionsMenuProps {
   role: AdminRoleResponse
   onEdit: (role: AdminRoleResponse) => void
   onDuplicate: (role: AdminRoleResponse) => void
+  onClone: (role: AdminRoleResponse) => void
+  onCompare: (role: AdminRoleResponse) => void
   className?: string
 }
 
-export default function AdminRoleActionsMenu({ role, onEdit, onDuplicate, className }: AdminRoleActionsMenuProps) {
+export default function AdminRoleActionsMenu({ role, onEdit, onDuplicate, onClone, onCompare, className }: AdminRoleActionsMenuProps) {
   const { t } = useTranslation()
   const dir = useDirDetection()
   const [isDeleteDialogOpen, setDeleteDialogOpen] = useState(false)
@@ -79,6 +81,26 @@ export default function AdminRoleActionsMenu({ role, onEdit, onDuplicate, classN
               <Copy className={cn('h-4 w-4 shrink-0', dir === 'rtl' ? 'ml-2' : 'mr-2')} />
               <span className="min-w-0 truncate">{t('duplicate', { defaultValue: 'Duplicate' })}</span>
             </DropdownMenuItem>
+            {!readOnlyRole && (
+              <DropdownMenuItem
+                onSelect={e => {
+                  e.stopPropagation()
+                  onClone(role)
+                }}
+              >
+                <CopyPlus className={cn('h-4 w-4 shrink-0', dir === 'rtl' ? 'ml-2' : 'mr-2')} />
+                <span className="min-w-0 truncate">{t('adminRoles.cloneAndEdit')}</span>
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem
+              onSelect={e => {
+                e.stopPropagation()
+                onCompare(role)
+              }}
+            >
+              <GitCompare className={cn('h-4 w-4 shrink-0', dir === 'rtl' ? 'ml-2' : 'mr-2')} />
+              <span className="min-w-0 truncate">{t('adminRoles.diff.compareWith')}</span>
+            </DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem disabled={protectedRole} onSelect={handleDeleteClick} className="text-destructive">
               <Trash2 className={cn('h-4 w-4 shrink-0', dir === 'rtl' ? 'ml-2' : 'mr-2')} />
@@ -14,6 +14,8 @@ interface AdminRoleCardProps {
   role: AdminRoleResponse
   onEdit: (role: AdminRoleResponse) => void
   onDuplicate: (role: AdminRoleResponse) => void
+  onClone: (role: AdminRoleResponse) => void
+  onCompare: (role: AdminRoleResponse) => void
   selectionControl?: ReactNode
   selected?: boolean
 }
@@ -28,7 +30,7 @@ const countResourcePermissions = (role: AdminRoleResponse) => {
   return total
 }
 
-export default function AdminRoleCard({ role, onEdit, onDuplicate, selectionControl, selected = false }: AdminRoleCardProps) {
+export default function AdminRoleCard({ role, onEdit, onDuplicate, onClone, onCompare, selectionControl, selected = false }: AdminRoleCardProps) {
   const { t } = useTranslation()
   const builtIn = BUILT_IN_ROLE_IDS.has(role.id) && !role.is_owner
   const RoleIcon = role.is_owner ? Crown : builtIn ? ShieldCheck : Shield
@@ -63,7 +65,7 @@ export default function AdminRoleCard({ role, onEdit, onDuplicate, selectionCont
             {t('adminRoles.id', { defaultValue: 'ID' })} {role.id}
           </div>
         </div>
-        <AdminRoleActionsMenu role={role} onEdit={onEdit} onDuplicate={onDuplicate} />
+        <AdminRoleActionsMenu role={role} onEdit={onEdit} onDuplicate={onDuplicate} onClone={onClone} onCompare={onCompare} />
       </div>
 
       <div className="text-muted-foreground flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
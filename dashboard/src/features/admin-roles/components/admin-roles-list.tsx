@@ -3,7 +3,7 @@ import { useTranslation } from 'react-i18next'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { toast } from 'sonner'
-import { RefreshCw, Search, Trash2, X } from 'lucide-react'
+import { GitCompare, RefreshCw, Search, Trash2, X } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
@@ -36,6 +36,7 @@ import {
 import AdminRoleCard from '@/features/admin-roles/components/admin-role-card'
 import { useAdminRolesListColumns } from '@/features/admin-roles/components/use-admin-roles-list-columns'
 import AdminRoleModal from '@/features/admin-roles/dialogs/admin-role-modal'
+import AdminRoleDiffDialog from '@/features/admin-roles/dialogs/admin-role-diff-dialog'
 
 interface AdminRolesListProps {
   isDialogOpen: boolean
@@ -51,6 +52,7 @@ export default function AdminRolesList({ isDialogOpen, onOpenChange }: AdminRole
   const [viewMode, setViewMode] = usePersistedViewMode('view-mode:admin-roles')
   const [selectedRoleIds, setSelectedRoleIds] = useState<number[]>([])
   const [confirmBulkDelete, setConfirmBulkDelete] = useState(false)
+  const [compareState, setCompareState] = useState<{ open: boolean; roleId: number | null }>({ open: false, roleId: null })
   const createRole = useCreateRole()
   const deleteRole = useDeleteRole()
 
@@ -104,6 +106,16 @@ export default function AdminRolesList({ isDialogOpen, onOpenChange }: AdminRole
     }
   }
 
+  // Unlike duplicate, clone opens the copy in the editor and only creates it on save
+  const handleClone = (role: AdminRoleResponse) => {
+    setEditingRole(null)
+    setIsReadOnly(false)
+    form.reset({ ...adminRoleFormFromResponse(role), name: getDuplicateRoleName(role.name) })
+    onOpenChange(true)
+  }
+
+  const handleCompare = (role: AdminRoleResponse) => setCompareState({ open: true, roleId: role.id })
+
   const handleDialogChange = (open: boolean) => {
     if (!open) {
       setEditingRole(null)
@@ -135,7 +147,7 @@ export default function AdminRolesList({ isDialogOpen, onOpenChange }: AdminRole
   const isEmpty = !isCurrentlyLoading && filteredRoles.length === 0 && !hasSearch
   const isSearchEmpty = !isCurrentlyLoading && filteredRoles.length === 0 && hasSearch
 
-  const listColumns = useAdminRolesListColumns({ onEdit: handleEdit, onDuplicate: handleDuplicate })
+  const listColumns = useAdminRolesListColumns({ onEdit: handleEdit, onDuplicate: handleDuplicate, onClone: handleClone, onCompare: handleCompare })
 
   const clearSelection = () => setSelectedRoleIds([])
 
@@ -215,6 +227,18 @@ export default function AdminRolesList({ isDialogOpen, onOpenChange }: AdminRole
           >
             <RefreshCw className={cn('h-4 w-4', isFetching && 'animate-spin')} />
           </Button>
+          <Button
+            type="button"
+            size="icon-md"
+            variant="ghost"
+            onClick={() => setCompareState({ open: true, roleId: null })}
+            disabled={(rolesData?.roles.length ?? 0) < 2}
+            className="h-9 w-9 rounded-lg border"
+            aria-label={t('adminRoles.diff.title')}
+            title={t('adminRoles.diff.title')}
+          >
+            <GitCompare className="h-4 w-4" />
+          </Button>
           <ViewToggle value={viewMode} onChange={setViewMode} />
         </div>
       </div>
@@ -259,7 +283,7 @@ export default function AdminRolesList({ isDialogOpen, onOpenChange }: AdminRole
             selectedRowIds={selectedRoleIds}
             onSelectionChange={ids => setSelectedRoleIds(ids.map(id => Number(id)))}
             showEmptyState={false}
-            renderItem={role => <AdminRoleCard role={role} onEdit={handleEdit} onDuplicate={handleDuplicate} />}
+            renderItem={role => <AdminRoleCard role={role} onEdit={handleEdit} onDuplicate={handleDuplicate} onClone={handleClone} onCompare={handleCompare} />}
             renderSkeleton={i => (
               <Card key={i} className="px-4 py-5">
                 <div className="flex items-center gap-2 sm:gap-3">
@@ -292,6 +316,8 @@ export default function AdminRolesList({ isDialogOpen, onOpenChange }: AdminRole
 
       <AdminRoleModal isDialogOpen={isDialogOpen} onOpenChange={handleDialogChange} form={form} editingRole={!!editingRole} editingRoleId={editingRole?.id} readOnly={isReadOnly} />
 
+      <AdminRoleDiffDialog open={compareState.open} onOpenChange={open => setCompareState(state => ({ ...state, open }))} roles={rolesData?.roles ?? []} initialRoleId={compareState.roleId} />
+
       <BulkActionAlertDialog
         open={confirmBulkDelete}
         onOpenChange={setConfirmBulkDelete}
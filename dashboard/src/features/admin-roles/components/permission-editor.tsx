@@ -7,6 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch'
 
 import { cn } from '@/lib/utils'
+import { formatPermissionActionLabel } from '@/utils/permissionLabels'
 
 import {
   getRolePermissionAllowedScope,
@@ -58,14 +59,12 @@ export function PermissionEditor({ permissions, onPermissionsChange, className,
         ...group,
         actions: group.actions.filter(item => isRolePermissionActionAllowed(item, allowedPermissions)),
       })).filter(group => group.actions.length > 0),
-    [allowedPermissions]
+    [allowedPermissions],
   )
 
   const setPermission = (item: PermissionAction, value: boolean | { scope: RoleScope }) => {
     const next: RolePermissionFormMap = { ...(permissions || {}) }
-    const nextValue = item.scoped && typeof value === 'object'
-      ? { scope: Math.min(value.scope, getRolePermissionAllowedScope(item, allowedPermissions)) as RoleScope }
-      : value
+    const nextValue = item.scoped && typeof value === 'object' ? { scope: Math.min(value.scope, getRolePermissionAllowedScope(item, allowedPermissions)) as RoleScope } : value
     next[item.resource] = { ...(next[item.resource] || {}), [item.action]: nextValue }
     onPermissionsChange(limitRolePermissionsToAllowed(next, allowedPermissions))
   }
@@ -81,13 +80,7 @@ export function PermissionEditor({ permissions, onPermissionsChange, className,
     onPermissionsChange(limitRolePermissionsToAllowed(next, allowedPermissions))
   }
 
-  const formatActionLabel = (item: PermissionAction) => {
-    const resourceLabel = t(`adminRoles.resources.${item.resource}`, { defaultValue: humanizeKey(item.resource) })
-    const actionLabel = t(`adminRoles.actions.${item.resource}.${item.action}`, {
-      defaultValue: t(`adminRoles.actions.common.${item.action}`, { defaultValue: humanizeKey(item.action) }),
-    })
-    return { resourceLabel, actionLabel }
-  }
+  const formatActionLabel = (item: PermissionAction) => formatPermissionActionLabel(t, item)
 
   return (
     <div className={cn('space-y-3', className)}>
@@ -165,7 +158,3 @@ export function PermissionEditor({ permissions, onPermissionsChange, className,
     </div>
   )
 }
-
-function humanizeKey(key: string) {
-  return key.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase())
-}
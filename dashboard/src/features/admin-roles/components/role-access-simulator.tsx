@@ -0,0 +1,160 @@
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { sanitizeRolePermissions, type AdminRoleFormValues, type AdminRoleFormValuesInput, type RolePermissionFormMap } from '@/features/admin-roles/forms/admin-role-form'
+import { useAdmin } from '@/hooks/use-admin'
+import { cn } from '@/lib/utils'
+import { useGetAdmins, type AdminRoleData, type RolePermissions } from '@/service/api'
+import { simulateAdminAccess, type SimulatedAccessSection } from '@/utils/rbacSimulator'
+import { buildSimulatedAdmin, setViewAsAdmin } from '@/utils/viewAsAdmin'
+import { Check, Eye, Info, X } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { UseFormReturn, useWatch } from 'react-hook-form'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router'
+
+const NO_ADMIN = 'none'
+
+const SECTIONS: SimulatedAccessSection[] = ['pages', 'userActions', 'bulkPages']
+
+interface RoleAccessSimulatorProps {
+  form: UseFormReturn<AdminRoleFormValuesInput, unknown, AdminRoleFormValues>
+  roleId?: number | null
+  isOwnerRole: boolean
+  enabled: boolean
+  /** Called before switching the dashboard into the read-only preview. */
+  onViewAs: () => void
+}
+
+export function RoleAccessSimulator({ form, roleId, isOwnerRole, enabled, onViewAs }: RoleAccessSimulatorProps) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { realAdmin } = useAdmin()
+  const [adminUsername, setAdminUsername] = useState(NO_ADMIN)
+  const [limited, setLimited] = useState(false)
+
+  const [name, permissions, maxUsers, disabledWhenLimited] = useWatch({ control: form.control, name: ['name', 'permissions', 'limits.max_users', 'disabled_when_limited'] })
+
+  // Overrides only exist on admins that already hold the role
+  const adminsQuery = useGetAdmins({ limit: 100 }, { query: { enabled: enabled && roleId != null } })
+  const roleAdmins = useMemo(() => (adminsQuery.data?.admins ?? []).filter(admin => roleId != null && admin.role?.id === roleId), [adminsQuery.data?.admins, roleId])
+  const selectedAdmin = roleAdmins.find(admin => admin.username === adminUsername) ?? null
+
+  const role = useMemo<AdminRoleData>(
+    () => ({
+      id: roleId ?? undefined,
+      name: name || undefined,
+      is_owner: isOwnerRole,
+      permissions: sanitizeRolePermissions(permissions as RolePermissionFormMap) as RolePermissions,
+      limits: { max_users: typeof maxUsers === 'number' ? maxUsers : null },
+      disabled_when_limited: !!disabledWhenLimited,
+    }),
+    [disabledWhenLimited, isOwnerRole, maxUsers, name, permissions, roleId],
+  )
+  const permissionOverrides = selectedAdmin?.permission_overrides ?? null
+
+  const access = useMemo(() => (realAdmin ? simulateAdminAccess(buildSimulatedAdmin(realAdmin, { role, limited, permissionOverrides })) : null), [limited, permissionOverrides, realAdmin, role])
+
+  if (!access) return null
+
+  const handleAdminChange = (value: string) => {
+    setAdminUsername(value)
+    const admin = roleAdmins.find(item => item.username === value)
+    // Start from the admin's real status; it can still be toggled afterwards
+    setLimited(admin ? admin.status === 'limited' || admin.is_limited : false)
+  }
+
+  const handleViewAs = () => {
+    setViewAsAdmin({ label: selectedAdmin?.username || name || t('adminRoles.simulator.draftRole'), role, limited, permissionOverrides })
+    onViewAs()
+    navigate(access.landingRoute)
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-xs">{t('adminRoles.simulator.description')}</p>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {roleAdmins.length > 0 && (
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('adminRoles.simulator.admin')}</Label>
+            <Select value={adminUsername} onValueChange={handleAdminChange}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ADMIN}>{t('adminRoles.simulator.noAdmin')}</SelectItem>
+                {roleAdmins.map(admin => (
+                  <SelectItem key={admin.username} value={admin.username}>
+                    {admin.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 sm:self-end">
+          <Label htmlFor="role-simulator-limited" className="text-xs">
+            {t('adminRoles.simulator.limited')}
+          </Label>
+          <Switch id="role-simulator-limited" checked={limited} onCheckedChange={setLimited} />
+        </div>
+      </div>
+
+      <div className="bg-muted/40 flex flex-col gap-1 rounded-md p-3 text-xs">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className="text-muted-foreground">{t('adminRoles.simulator.landingPage')}</span>
+          <code dir="ltr">{access.landingRoute}</code>
+        </div>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className="text-muted-foreground">{t('adminRoles.simulator.maxUsers')}</span>
+          <span dir="ltr">{access.maxUsers != null && access.maxUsers > 0 ? access.maxUsers : t('adminRoles.unlimited', { defaultValue: 'Unlimited' })}</span>
+        </div>
+        {access.blockedByLimit && (
+          <p className="mt-1 flex items-start gap-1.5 text-amber-600 dark:text-amber-400">
+            <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+            {disabledWhenLimited ? t('adminRoles.simulator.limitedBlocked') : t('adminRoles.simulator.limitedReadOnly')}
+          </p>
+        )}
+      </div>
+
+      {SECTIONS.map(section => {
+        const items = access.sections[section]
+        const allowedCount = items.filter(item => item.allowed).length
+        return (
+          <div key={section} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">{t(`adminRoles.simulator.sections.${section}`)}</span>
+              <Badge variant="secondary" className="text-xs">
+                {allowedCount}/{items.length}
+              </Badge>
+            </div>
+            <div className="grid gap-1 sm:grid-cols-2">
+              {items.map(item => (
+                <div key={item.id} className={cn('flex items-center gap-2 rounded-md px-2 py-1 text-xs', item.allowed ? 'bg-green-500/10' : 'text-muted-foreground')}>
+                  {item.allowed ? <Check className="h-3.5 w-3.5 shrink-0 text-green-600 dark:text-green-400" /> : <X className="h-3.5 w-3.5 shrink-0" />}
+                  <span className="truncate">{t(item.labelKey)}</span>
+                  {item.path && (
+                    <code className="text-muted-foreground ms-auto truncate text-[10px]" dir="ltr">
+                      {item.path}
+                    </code>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+
+      <div className="flex flex-col gap-2 rounded-md border border-dashed p-3 sm:flex-row sm:items-center sm:justify-between">
+        <p className="text-muted-foreground text-xs">{t('adminRoles.simulator.viewAsHint')}</p>
+        <Button type="button" variant="outline" size="sm" onClick={handleViewAs} className="shrink-0">
+          <Eye className="h-4 w-4" />
+          {t('adminRoles.simulator.viewAs')}
+        </Button>
+      </div>
+    </div>
+  )
+}
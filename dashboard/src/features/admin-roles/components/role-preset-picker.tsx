@@ -0,0 +1,42 @@
+import { useTranslation } from 'react-i18next'
+import { Eye, Headset, Server, Store, type LucideIcon } from 'lucide-react'
+
+import { ADMIN_ROLE_PRESETS, type AdminRolePreset, type AdminRolePresetId } from '@/features/admin-roles/forms/admin-role-presets'
+
+const PRESET_ICONS: Record<AdminRolePresetId, LucideIcon> = {
+  reseller: Store,
+  support: Headset,
+  auditor: Eye,
+  nodeOperator: Server,
+}
+
+interface RolePresetPickerProps {
+  onApply: (preset: AdminRolePreset) => void
+}
+
+export function RolePresetPicker({ onApply }: RolePresetPickerProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col gap-0.5">
+        <span className="text-sm font-medium">{t('adminRoles.presets.title')}</span>
+        <span className="text-muted-foreground text-xs">{t('adminRoles.presets.hint')}</span>
+      </div>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {ADMIN_ROLE_PRESETS.map(preset => {
+          const Icon = PRESET_ICONS[preset.id]
+          return (
+            <button key={preset.id} type="button" onClick={() => onApply(preset)} className="hover:bg-muted/60 flex items-start gap-2.5 rounded-md border px-3 py-2 text-start transition-colors">
+              <Icon className="text-muted-foreground mt-0.5 h-4 w-4 shrink-0" />
+              <span className="flex min-w-0 flex-col gap-0.5">
+                <span className="text-xs font-medium">{t(`adminRoles.presets.items.${preset.id}.name`)}</span>
+                <span className="text-muted-foreground text-[11px] leading-snug">{t(`adminRoles.presets.items.${preset.id}.description`)}</span>
+              </span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
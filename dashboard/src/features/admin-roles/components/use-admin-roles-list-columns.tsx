@@ -13,6 +13,8 @@ import AdminRoleActionsMenu from '@/features/admin-roles/components/admin-role-a
 interface UseAdminRolesListColumnsProps {
   onEdit: (role: AdminRoleResponse) => void
   onDuplicate: (role: AdminRoleResponse) => void
+  onClone: (role: AdminRoleResponse) => void
+  onCompare: (role: AdminRoleResponse) => void
 }
 
 const countResourcePermissions = (role: AdminRoleResponse) => {
@@ -25,7 +27,7 @@ const countResourcePermissions = (role: AdminRoleResponse) => {
   return total
 }
 
-export const useAdminRolesListColumns = ({ onEdit, onDuplicate }: UseAdminRolesListColumnsProps) => {
+export const useAdminRolesListColumns = ({ onEdit, onDuplicate, onClone, onCompare }: UseAdminRolesListColumnsProps) => {
   const { t } = useTranslation()
 
   return useMemo<ListColumn<AdminRoleResponse>[]>(
@@ -77,9 +79,9 @@ export const useAdminRolesListColumns = ({ onEdit, onDuplicate }: UseAdminRolesL
         width: '64px',
         align: 'end',
         hideOnMobile: true,
-        cell: role => <AdminRoleActionsMenu role={role} onEdit={onEdit} onDuplicate={onDuplicate} />,
+        cell: role => <AdminRoleActionsMenu role={role} onEdit={onEdit} onDuplicate={onDuplicate} onClone={onClone} onCompare={onCompare} />,
       },
     ],
-    [t, onEdit, onDuplicate],
+    [t, onEdit, onDuplicate, onClone, onCompare],
   )
 }
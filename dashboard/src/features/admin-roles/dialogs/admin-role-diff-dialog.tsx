@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ArrowLeftRight, Check, GitCompare, X } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+
+import { cn } from '@/lib/utils'
+import { formatBytes } from '@/utils/formatByte'
+import type { AdminRoleResponse } from '@/service/api'
+
+import { formatPermissionActionLabel } from '@/utils/permissionLabels'
+import { diffAdminRoles, type AdminRoleDiffRow, type AdminRoleDiffSection } from '@/features/admin-roles/forms/admin-role-diff'
+
+interface AdminRoleDiffDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  roles: AdminRoleResponse[]
+  /** Role preselected on the left, e.g. when opened from a role's actions menu. */
+  initialRoleId?: number | null
+}
+
+const SECTIONS: AdminRoleDiffSection[] = ['permissions', 'limits', 'hwid']
+
+const HWID_LABEL_KEYS: Record<string, string> = {
+  mode: 'adminRoles.hwidMode',
+  forced: 'settings.hwid.forced.title',
+  fallback_limit: 'settings.hwid.fallbackLimit.title',
+  min_limit: 'settings.hwid.minLimit.title',
+  max_limit: 'settings.hwid.maxLimit.title',
+}
+
+const HWID_MODE_LABEL_KEYS: Record<string, string> = {
+  disabled: 'adminRoles.hwidModeDisabled',
+  use_global: 'adminRoles.hwidModeUseGlobal',
+  override: 'adminRoles.hwidModeOverride',
+}
+
+export default function AdminRoleDiffDialog({ open, onOpenChange, roles, initialRoleId }: AdminRoleDiffDialogProps) {
+  const { t } = useTranslation()
+  const [leftId, setLeftId] = useState<string>('')
+  const [rightId, setRightId] = useState<string>('')
+  const [onlyDifferences, setOnlyDifferences] = useState(true)
+
+  useEffect(() => {
+    if (!open) return
+    const first = initialRoleId ?? roles[0]?.id
+    setLeftId(first != null ? String(first) : '')
+    setRightId(String(roles.find(role => role.id !== first)?.id ?? ''))
+  }, [open, initialRoleId, roles])
+
+  const leftRole = roles.find(role => String(role.id) === leftId)
+  const rightRole = roles.find(role => String(role.id) === rightId)
+  const rows = useMemo(() => (leftRole && rightRole ? diffAdminRoles(leftRole, rightRole) : []), [leftRole, rightRole])
+  const changedCount = rows.filter(row => row.changed).length
+
+  const roleName = (role: AdminRoleResponse) => t(`adminRoles.names.${role.name}`, { defaultValue: role.name })
+
+  const rowLabel = (row: AdminRoleDiffRow) => {
+    if (row.permission) {
+      const { resourceLabel, actionLabel } = formatPermissionActionLabel(t, row.permission)
+      return `${resourceLabel} - ${actionLabel}`
+    }
+    if (row.section === 'limits') return t(`adminRoles.limitFields.${row.key}`)
+    return t(HWID_LABEL_KEYS[row.key])
+  }
+
+  const renderValue = (row: AdminRoleDiffRow, value: AdminRoleDiffRow['left']) => {
+    if (typeof value === 'boolean') {
+      return value ? <Check className="h-4 w-4 text-green-600 dark:text-green-400" /> : <X className="text-muted-foreground h-4 w-4" />
+    }
+    if (value === null) return <span className="text-muted-foreground">—</span>
+    if (row.permission?.scoped) return t(`adminRoles.scopes.${['none', 'own', 'all'][Number(value)]}`)
+    if (row.section === 'hwid' && row.key === 'mode') return t(HWID_MODE_LABEL_KEYS[String(value)] ?? String(value))
+    if (row.key.startsWith('data_limit')) return <span dir="ltr">{formatBytes(Number(value))}</span>
+    return <span dir="ltr">{value}</span>
+  }
+
+  const swap = () => {
+    setLeftId(rightId)
+    setRightId(leftId)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="h-auto w-full max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            <span>{t('adminRoles.diff.title')}</span>
+          </DialogTitle>
+          <DialogDescription>{t('adminRoles.diff.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <RoleSelect value={leftId} onChange={setLeftId} roles={roles} roleName={roleName} />
+          <Button type="button" variant="ghost" size="icon" className="shrink-0" onClick={swap} aria-label={t('adminRoles.diff.swap')} title={t('adminRoles.diff.swap')}>
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+          <RoleSelect value={rightId} onChange={setRightId} roles={roles} roleName={roleName} />
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Badge variant={changedCount > 0 ? 'default' : 'secondary'}>{changedCount > 0 ? t('adminRoles.diff.changed', { count: changedCount }) : t('adminRoles.diff.identical')}</Badge>
+          <div className="flex items-center gap-2">
+            <Switch id="role-diff-only-changes" checked={onlyDifferences} onCheckedChange={setOnlyDifferences} />
+            <Label htmlFor="role-diff-only-changes" className="text-xs">
+              {t('adminRoles.diff.onlyDifferences')}
+            </Label>
+          </div>
+        </div>
+
+        <div className="-mr-4 max-h-[60dvh] space-y-4 overflow-y-auto pr-4">
+          {SECTIONS.map(section => {
+            const sectionRows = rows.filter(row => row.section === section && (!onlyDifferences || row.changed))
+            if (sectionRows.length === 0) return null
+            return (
+              <div key={section} className="rounded-md border">
+                <div className="bg-muted/40 grid grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)_minmax(0,1fr)] gap-2 border-b px-3 py-2 text-xs font-medium">
+                  <span>{t(section === 'permissions' ? 'adminRoles.permissions' : section === 'limits' ? 'adminRoles.limits' : 'adminRoles.hwidPolicy')}</span>
+                  <span className="truncate">{leftRole && roleName(leftRole)}</span>
+                  <span className="truncate">{rightRole && roleName(rightRole)}</span>
+                </div>
+                {sectionRows.map(row => (
+                  <div
+                    key={row.key}
+                    className={cn('grid grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)_minmax(0,1fr)] items-center gap-2 border-b px-3 py-1.5 text-xs last:border-b-0', row.changed && 'bg-amber-500/10')}
+                  >
+                    <span className="truncate">{rowLabel(row)}</span>
+                    <span>{renderValue(row, row.left)}</span>
+                    <span>{renderValue(row, row.right)}</span>
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+          {leftRole && rightRole && onlyDifferences && changedCount === 0 && <p className="text-muted-foreground py-6 text-center text-sm">{t('adminRoles.diff.noDifferences')}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function RoleSelect({ value, onChange, roles, roleName }: { value: string; onChange: (value: string) => void; roles: AdminRoleResponse[]; roleName: (role: AdminRoleResponse) => string }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-9 min-w-0 flex-1">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {roles.map(role => (
+          <SelectItem key={role.id} value={String(role.id)}>
+            {roleName(role)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
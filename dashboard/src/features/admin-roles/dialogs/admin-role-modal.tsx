@@ -3,7 +3,7 @@ import { FieldErrors, UseFormReturn, useWatch } from 'react-hook-form'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
 import { useQueryClient } from '@tanstack/react-query'
-import { Check, ChevronsUpDown, Cpu, Eye, FolderTree, KeyRound, Minus, Pencil, Search, Shield, Sliders, Sparkles, X } from 'lucide-react'
+import { Check, ChevronsUpDown, Cpu, Eye, FolderTree, KeyRound, Minus, Pencil, ScanEye, Search, Shield, Sliders, Sparkles, X } from 'lucide-react'
 
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion'
 import { Badge } from '@/components/ui/badge'
@@ -25,15 +25,11 @@ import { cn } from '@/lib/utils'
 import { bytesToFormGigabytes, formatBytes, gbToBytes } from '@/utils/formatByte'
 import { getGetRolesQueryKey, getGetRolesSimpleQueryKey, useCreateRole, useGetAllGroups, useGetUserTemplatesSimple, useModifyRole } from '@/service/api'
 import { PermissionCountBadge, PermissionEditor } from '@/features/admin-roles/components/permission-editor'
+import { RoleAccessSimulator } from '@/features/admin-roles/components/role-access-simulator'
+import { RolePresetPicker } from '@/features/admin-roles/components/role-preset-picker'
+import type { AdminRolePreset } from '@/features/admin-roles/forms/admin-role-presets'
 
-import {
-  AdminRoleFormValues,
-  AdminRoleFormValuesInput,
-  FEATURE_KEYS,
-  RolePermissionFormMap,
-  adminRoleFormDefaultValues,
-  adminRoleFormToPayload,
-} from '@/features/admin-roles/forms/admin-role-form'
+import { AdminRoleFormValues, AdminRoleFormValuesInput, FEATURE_KEYS, RolePermissionFormMap, adminRoleFormDefaultValues, adminRoleFormToPayload } from '@/features/admin-roles/forms/admin-role-form'
 
 const ONE_GB_IN_BYTES = 1024 * 1024 * 1024
 
@@ -51,6 +47,7 @@ const SECTION_LIMITS = 'limits'
 const SECTION_HWID = 'hwid'
 const SECTION_FEATURES = 'features'
 const SECTION_ACCESS = 'access'
+const SECTION_SIMULATOR = 'simulator'
 
 export default function AdminRoleModal({ isDialogOpen, onOpenChange, form, editingRole, editingRoleId, readOnly = false }: AdminRoleModalProps) {
   const { t } = useTranslation()
@@ -109,6 +106,12 @@ export default function AdminRoleModal({ isDialogOpen, onOpenChange, form, editi
     )
   }
 
+  const handleApplyPreset = (preset: AdminRolePreset) => {
+    form.reset({ ...preset.values, name: form.getValues('name') || t(`adminRoles.presets.items.${preset.id}.name`) })
+    setOpenSection(SECTION_PERMISSIONS)
+    toast.success(t('adminRoles.presets.applied', { name: t(`adminRoles.presets.items.${preset.id}.name`) }))
+  }
+
   const handleAccordionChange = (value: string) => {
     setOpenSection(prev => (prev === value ? undefined : value))
   }
@@ -138,6 +141,7 @@ export default function AdminRoleModal({ isDialogOpen, onOpenChange, form, editi
               </div>
             )}
             <div className="-mr-4 max-h-[80dvh] space-y-4 overflow-y-auto px-2 pr-4 sm:max-h-[75dvh]">
+              {!editingRole && !readOnly && <RolePresetPicker onApply={handleApplyPreset} />}
               <fieldset disabled={readOnly} className="disabled:opacity-100">
                 <FormField
                   control={form.control}
@@ -225,6 +229,18 @@ export default function AdminRoleModal({ isDialogOpen, onOpenChange, form, editi
                     </fieldset>
                   </AccordionContent>
                 </AccordionItem>
+
+                <AccordionItem className="rounded-sm border px-4 **:data-[state=closed]:no-underline **:data-[state=open]:no-underline" value={SECTION_SIMULATOR}>
+                  <AccordionTrigger>
+                    <div className="flex items-center gap-2">
+                      <ScanEye className="h-4 w-4" />
+                      <span>{t('adminRoles.simulator.title')}</span>
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent className="px-1 pt-1">
+                    <RoleAccessSimulator form={form} roleId={editingRoleId} isOwnerRole={readOnly} enabled={isDialogOpen && openSection === SECTION_SIMULATOR} onViewAs={() => onOpenChange(false)} />
+                  </AccordionContent>
+                </AccordionItem>
               </Accordion>
             </div>
 
@@ -317,9 +333,7 @@ function HwidPolicySection({ form }: { form: AdminRoleForm }) {
 
   return (
     <div className="space-y-3">
-      <p className="text-muted-foreground text-xs">
-        {t('adminRoles.hwidPolicyHint', { defaultValue: 'Choose how HWID policy is applied. Use "Override" to customize limits for this role.' })}
-      </p>
+      <p className="text-muted-foreground text-xs">{t('adminRoles.hwidPolicyHint', { defaultValue: 'Choose how HWID policy is applied. Use "Override" to customize limits for this role.' })}</p>
 
       <FormField
         control={form.control}
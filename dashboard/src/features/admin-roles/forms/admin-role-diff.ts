@@ -0,0 +1,66 @@
+import type { AdminRoleResponse } from '@/service/api'
+import { adminRoleFormFromResponse, getRolePermissionScopeLimit, LIMIT_KEYS, PERMISSION_GROUPS, type PermissionAction, type RolePermissionFormMap } from '@/features/admin-roles/forms/admin-role-form'
+
+export type AdminRoleDiffSection = 'permissions' | 'limits' | 'hwid'
+
+export const HWID_DIFF_KEYS = ['mode', 'forced', 'fallback_limit', 'min_limit', 'max_limit'] as const
+
+export type AdminRoleDiffValue = string | number | boolean | null
+
+export type AdminRoleDiffRow = {
+  section: AdminRoleDiffSection
+  key: string
+  /** Permission group label key, only for permission rows. */
+  group?: string
+  permission?: PermissionAction
+  left: AdminRoleDiffValue
+  right: AdminRoleDiffValue
+  changed: boolean
+}
+
+const normalizeNumber = (value: unknown) => (value === null || value === undefined || value === '' ? null : Number(value))
+
+/**
+ * Compares two roles field by field after normalising them through the role form, so a missing
+ * permission and an explicit `none` scope, or `null` and an empty limit, count as equal.
+ */
+export const diffAdminRoles = (leftRole: AdminRoleResponse, rightRole: AdminRoleResponse): AdminRoleDiffRow[] => {
+  const left = adminRoleFormFromResponse(leftRole)
+  const right = adminRoleFormFromResponse(rightRole)
+  const leftPermissions = left.permissions as RolePermissionFormMap
+  const rightPermissions = right.permissions as RolePermissionFormMap
+  const rows: AdminRoleDiffRow[] = []
+  const push = (row: Omit<AdminRoleDiffRow, 'changed'>) => rows.push({ ...row, changed: row.left !== row.right })
+
+  for (const group of PERMISSION_GROUPS) {
+    for (const item of group.actions) {
+      const leftValue = leftPermissions[item.resource]?.[item.action]
+      const rightValue = rightPermissions[item.resource]?.[item.action]
+      push({
+        section: 'permissions',
+        key: `${item.resource}.${item.action}`,
+        group: group.labelKey,
+        permission: item,
+        left: item.scoped ? getRolePermissionScopeLimit(leftValue) : leftValue === true,
+        right: item.scoped ? getRolePermissionScopeLimit(rightValue) : rightValue === true,
+      })
+    }
+  }
+
+  for (const key of LIMIT_KEYS) {
+    push({ section: 'limits', key, left: normalizeNumber(left.limits[key]), right: normalizeNumber(right.limits[key]) })
+  }
+
+  for (const key of HWID_DIFF_KEYS) {
+    const leftValue = left.hwid[key]
+    const rightValue = right.hwid[key]
+    push({
+      section: 'hwid',
+      key,
+      left: typeof leftValue === 'string' || typeof leftValue === 'boolean' ? leftValue : normalizeNumber(leftValue),
+      right: typeof rightValue === 'string' || typeof rightValue === 'boolean' ? rightValue : normalizeNumber(rightValue),
+    })
+  }
+
+  return rows
+}
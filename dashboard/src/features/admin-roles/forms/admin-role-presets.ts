@@ -0,0 +1,76 @@
+import { adminRoleFormDefaultValues, PERMISSION_GROUPS, type AdminRoleFormValuesInput, type RolePermissionFormMap } from '@/features/admin-roles/forms/admin-role-form'
+
+export type AdminRolePresetId = 'reseller' | 'support' | 'auditor' | 'nodeOperator'
+
+export type AdminRolePreset = {
+  id: AdminRolePresetId
+  /** Everything except the name, which stays whatever the owner typed. */
+  values: Omit<AdminRoleFormValuesInput, 'name'>
+}
+
+const OWN = { scope: 1 } as const
+const ALL = { scope: 2 } as const
+
+const READ_ACTIONS = new Set(['read', 'read_simple', 'read_general', 'logs', 'stats'])
+
+// Every read action at the widest scope, so the auditor follows new permission groups automatically
+const readOnlyPermissions = (): RolePermissionFormMap => {
+  const permissions: RolePermissionFormMap = {}
+  for (const group of PERMISSION_GROUPS) {
+    for (const item of group.actions) {
+      if (!READ_ACTIONS.has(item.action)) continue
+      permissions[item.resource] = { ...(permissions[item.resource] || {}), [item.action]: item.scoped ? ALL : true }
+    }
+  }
+  return permissions
+}
+
+const withDefaults = (values: Partial<Omit<AdminRoleFormValuesInput, 'name'>>): Omit<AdminRoleFormValuesInput, 'name'> => {
+  const defaults: Omit<AdminRoleFormValuesInput, 'name'> & { name?: string } = { ...adminRoleFormDefaultValues }
+  delete defaults.name
+  return { ...defaults, ...values, limits: { ...defaults.limits, ...values.limits } }
+}
+
+export const ADMIN_ROLE_PRESETS: AdminRolePreset[] = [
+  {
+    id: 'reseller',
+    values: withDefaults({
+      permissions: {
+        users: { read: OWN, read_simple: OWN, create: true, update: OWN, delete: OWN, reset_usage: OWN, revoke_sub: OWN, activate_next_plan: OWN },
+        groups: { read_simple: true },
+        templates: { read_simple: true },
+      },
+      limits: { max_users: 100 },
+      disabled_when_limited: true,
+    }),
+  },
+  {
+    id: 'support',
+    values: withDefaults({
+      permissions: {
+        users: { read: ALL, read_simple: ALL, update: ALL, reset_usage: ALL, revoke_sub: ALL, activate_next_plan: ALL },
+        admins: { read_simple: true },
+        groups: { read_simple: true },
+        templates: { read_simple: true },
+        nodes: { read_simple: true, logs: true },
+        hwids: { read: true, delete: true },
+      },
+    }),
+  },
+  {
+    id: 'auditor',
+    values: withDefaults({ permissions: readOnlyPermissions() }),
+  },
+  {
+    id: 'nodeOperator',
+    values: withDefaults({
+      permissions: {
+        nodes: { read: true, read_simple: true, create: true, update: true, delete: true, reconnect: true, update_core: true, stats: true, logs: true },
+        cores: { read: true, read_simple: true, create: true, update: true, delete: true },
+        hosts: { read: true, create: true, update: true },
+        groups: { read_simple: true },
+        system: { read: true },
+      },
+    }),
+  },
+]
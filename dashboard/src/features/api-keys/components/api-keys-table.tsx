@@ -1,6 +1,6 @@
 import { useMemo, type ReactNode } from 'react'
 import { useTranslation } from 'react-i18next'
-import { Calendar as CalendarIcon, KeyRound, MoreVertical, Pencil, RotateCcw, ShieldCheck, Trash2, UserRound } from 'lucide-react'
+import { Calendar as CalendarIcon, KeyRound, MoreVertical, Pencil, RotateCcw, ShieldCheck, SquareTerminal, Trash2, UserRound } from 'lucide-react'
 
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -24,6 +24,7 @@ interface ApiKeysTableProps {
   onEdit: (apiKey: APIKeyResponse) => void
   onDelete: (apiKey: APIKeyResponse) => void
   onRevoke: (apiKey: APIKeyResponse) => void
+  onOpenConsole?: (apiKey: APIKeyResponse) => void
   isCardView?: boolean
   apiKeys: APIKeyResponse[]
   isLoading: boolean
@@ -54,6 +55,7 @@ function ApiKeyActionsMenu({
   onEdit,
   onDelete,
   onRevoke,
+  onOpenConsole,
   canUpdate = true,
   canDelete = true,
 }: {
@@ -61,13 +63,14 @@ function ApiKeyActionsMenu({
   onEdit: (apiKey: APIKeyResponse) => void
   onDelete: (apiKey: APIKeyResponse) => void
   onRevoke: (apiKey: APIKeyResponse) => void
+  onOpenConsole?: (apiKey: APIKeyResponse) => void
   canUpdate?: boolean
   canDelete?: boolean
 }) {
   const { t } = useTranslation()
   const dir = useDirDetection()
 
-  if (!canUpdate && !canDelete) return null
+  if (!canUpdate && !canDelete && !onOpenConsole) return null
 
   return (
     <div onClick={event => event.stopPropagation()}>
@@ -79,6 +82,18 @@ function ApiKeyActionsMenu({
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align={dir === 'rtl' ? 'start' : 'end'}>
+          {onOpenConsole && (
+            <DropdownMenuItem
+              onSelect={event => {
+                event.preventDefault()
+                event.stopPropagation()
+                onOpenConsole(apiKey)
+              }}
+            >
+              <SquareTerminal className={cn('h-4 w-4 shrink-0', dir === 'rtl' ? 'ml-2' : 'mr-2')} />
+              <span className="min-w-0 truncate">{t('apiKeys.console.open')}</span>
+            </DropdownMenuItem>
+          )}
           {canUpdate && (
             <DropdownMenuItem
               onSelect={event => {
@@ -186,6 +201,7 @@ function ApiKeyCard({
   onEdit,
   onDelete,
   onRevoke,
+  onOpenConsole,
   canUpdate = true,
   canDelete = true,
   selectionControl,
@@ -196,6 +212,7 @@ function ApiKeyCard({
   onEdit: (apiKey: APIKeyResponse) => void
   onDelete: (apiKey: APIKeyResponse) => void
   onRevoke: (apiKey: APIKeyResponse) => void
+  onOpenConsole?: (apiKey: APIKeyResponse) => void
   canUpdate?: boolean
   canDelete?: boolean
   selectionControl?: ReactNode
@@ -243,7 +260,7 @@ function ApiKeyCard({
 
             <div className="flex shrink-0 items-start gap-1.5">
               <ApiKeyStatusBadge apiKey={apiKey} />
-              <ApiKeyActionsMenu apiKey={apiKey} onEdit={onEdit} onDelete={onDelete} onRevoke={onRevoke} canUpdate={canUpdate} canDelete={canDelete} />
+              <ApiKeyActionsMenu apiKey={apiKey} onEdit={onEdit} onDelete={onDelete} onRevoke={onRevoke} onOpenConsole={onOpenConsole} canUpdate={canUpdate} canDelete={canDelete} />
             </div>
           </div>
 
@@ -267,6 +284,7 @@ export default function ApiKeysTable({
   onEdit,
   onDelete,
   onRevoke,
+  onOpenConsole,
   isCardView = false,
   apiKeys,
   isLoading,
@@ -372,7 +390,7 @@ export default function ApiKeysTable({
           </span>
         ),
       },
-      ...(canUpdate || canDelete
+      ...(canUpdate || canDelete || onOpenConsole
         ? [
             {
               id: 'actions',
@@ -381,12 +399,12 @@ export default function ApiKeysTable({
               align: 'center' as const,
               hideOnMobile: true,
               skeletonClassName: 'w-8',
-              cell: (apiKey: APIKeyResponse) => <ApiKeyActionsMenu apiKey={apiKey} onEdit={onEdit} onDelete={onDelete} onRevoke={onRevoke} canUpdate={canUpdate} canDelete={canDelete} />,
+              cell: (apiKey: APIKeyResponse) => <ApiKeyActionsMenu apiKey={apiKey} onEdit={onEdit} onDelete={onDelete} onRevoke={onRevoke} onOpenConsole={onOpenConsole} canUpdate={canUpdate} canDelete={canDelete} />,
             },
           ]
         : []),
     ],
-    [adminNamesById, canDelete, canUpdate, i18n.language, onDelete, onEdit, onRevoke, t],
+    [adminNamesById, canDelete, canUpdate, i18n.language, onDelete, onEdit, onOpenConsole, onRevoke, t],
   )
 
   if (isCardView) {
@@ -404,7 +422,7 @@ export default function ApiKeysTable({
         onSelectionChange={ids => onSelectionChange?.(ids.map(id => Number(id)))}
         showEmptyState={false}
         renderItem={apiKey => (
-          <ApiKeyCard apiKey={apiKey} adminName={adminNamesById.get(apiKey.admin_id)} onEdit={onEdit} onDelete={onDelete} onRevoke={onRevoke} canUpdate={canUpdate} canDelete={canDelete} />
+          <ApiKeyCard apiKey={apiKey} adminName={adminNamesById.get(apiKey.admin_id)} onEdit={onEdit} onDelete={onDelete} onRevoke={onRevoke} onOpenConsole={onOpenConsole} canUpdate={canUpdate} canDelete={canDelete} />
         )}
         renderSkeleton={index => (
           <Card key={index} className="rounded-md px-3 py-3">
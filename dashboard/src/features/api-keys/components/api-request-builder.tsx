@@ -0,0 +1,232 @@
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Lock, Send, TriangleAlert } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LoaderButton } from '@/components/ui/loader-button'
+import { PasswordInput } from '@/components/ui/password-input'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Textarea } from '@/components/ui/textarea'
+import { CopyButton } from '@/components/common/copy-button'
+import { cn } from '@/lib/utils'
+import { formatPermissionActionLabel } from '@/utils/permissionLabels'
+import { METHOD_BADGE_CLASSES, type ApiEndpoint } from '@/utils/apiEndpointCatalog'
+import { buildEndpointUrl, buildRequestSnippet, getApiBaseUrl, getEndpointPathParams, type RequestSnippetLanguage } from '@/utils/apiKeyConsole'
+import { isViewingAsAdmin } from '@/utils/viewAsAdmin'
+
+const SNIPPET_LANGUAGES: RequestSnippetLanguage[] = ['curl', 'fetch', 'python']
+
+/** Streaming endpoints such as node logs never finish on their own. */
+const REQUEST_TIMEOUT_MS = 30_000
+
+const MAX_RESPONSE_LENGTH = 20_000
+
+type ApiResponseState = { status: number; durationMs: number; body: string } | { error: string }
+
+/** Holds per-endpoint state, so render it with `key={endpoint.id}`. */
+interface ApiRequestBuilderProps {
+  endpoint: ApiEndpoint
+  allowed: boolean
+  /** Whether the key can authenticate at all; disabled and expired keys are rejected everywhere. */
+  usable: boolean
+  apiKey: string
+  onApiKeyChange: (value: string) => void
+}
+
+export function ApiRequestBuilder({ endpoint, allowed, usable, apiKey, onApiKeyChange }: ApiRequestBuilderProps) {
+  const { t } = useTranslation()
+  const [pathParams, setPathParams] = useState<Record<string, string>>({})
+  const [query, setQuery] = useState<Record<string, string>>({})
+  const [body, setBody] = useState(endpoint.body && !endpoint.contentType ? '{}' : '')
+  const [language, setLanguage] = useState<RequestSnippetLanguage>('curl')
+  const [response, setResponse] = useState<ApiResponseState | null>(null)
+  const [isSending, setIsSending] = useState(false)
+
+  const pathParamNames = useMemo(() => getEndpointPathParams(endpoint), [endpoint])
+  const url = buildEndpointUrl(getApiBaseUrl(), endpoint, pathParams, query)
+  const contentType = endpoint.contentType ?? 'application/json'
+  const isMutation = endpoint.method !== 'GET' && endpoint.method !== 'HEAD'
+
+  const bodyError = useMemo(() => {
+    if (!endpoint.body || endpoint.contentType || !body.trim()) return null
+    try {
+      JSON.parse(body)
+      return null
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error)
+    }
+  }, [body, endpoint])
+
+  const missingPathParams = pathParamNames.filter(name => !pathParams[name]?.trim())
+  const request = { method: endpoint.method, url, apiKey, body: endpoint.body ? body.trim() : undefined, contentType }
+  const requiresKey = endpoint.access !== 'public'
+  const canSend = allowed && (usable || !requiresKey) && missingPathParams.length === 0 && !bodyError && (!requiresKey || !!apiKey.trim())
+
+  const accessLabel = useMemo(() => {
+    const { access } = endpoint
+    if (typeof access === 'string') return t(`apiKeys.console.access.${access}`)
+    const { resourceLabel, actionLabel } = formatPermissionActionLabel(t, access)
+    return `${resourceLabel} - ${actionLabel}${access.scopeAll ? ` (${t('adminRoles.scopes.all')})` : ''}`
+  }, [endpoint, t])
+
+  const handleSend = async () => {
+    // The dashboard preview is read-only, and this request would bypass the shared fetcher
+    if (isMutation && isViewingAsAdmin()) {
+      toast.error(t('viewAsAdmin.readOnlyError'))
+      return
+    }
+    setIsSending(true)
+    const controller = new AbortController()
+    const timeout = window.setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+    const startedAt = performance.now()
+    try {
+      const headers: Record<string, string> = requiresKey ? { 'X-API-Key': apiKey.trim() } : {}
+      if (request.body) headers['Content-Type'] = contentType
+      const result = await window.fetch(url, { method: endpoint.method, headers, body: request.body || undefined, signal: controller.signal })
+      const text = await result.text()
+      setResponse({ status: result.status, durationMs: Math.round(performance.now() - startedAt), body: formatResponseBody(text) })
+    } catch (error) {
+      setResponse({ error: controller.signal.aborted ? t('apiKeys.console.timedOut') : error instanceof Error ? error.message : String(error) })
+    } finally {
+      window.clearTimeout(timeout)
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1.5">
+        <div className="flex min-w-0 items-center gap-2">
+          <Badge variant="secondary" className={cn('shrink-0 font-mono text-[10px]', METHOD_BADGE_CLASSES[endpoint.method])}>
+            {endpoint.method}
+          </Badge>
+          <code dir="ltr" className="min-w-0 truncate text-sm">
+            {endpoint.path}
+          </code>
+        </div>
+        <p className="text-muted-foreground text-xs">{endpoint.summary}</p>
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <span className="text-muted-foreground">{t('apiKeys.console.requires')}</span>
+          <Badge variant={allowed ? 'outline' : 'destructive'} className="gap-1 text-[10px] font-normal">
+            {!allowed && <Lock className="h-3 w-3" />}
+            {accessLabel}
+          </Badge>
+        </div>
+      </div>
+
+      {requiresKey && (
+        <div className="space-y-1.5">
+          <Label className="text-xs">{t('apiKeys.apiKey')}</Label>
+          <PasswordInput value={apiKey} onChange={event => onApiKeyChange(event.target.value)} placeholder="pg_key_..." dir="ltr" className="font-mono text-xs" autoComplete="off" />
+          <p className="text-muted-foreground text-[11px]">{t('apiKeys.console.apiKeyHint')}</p>
+        </div>
+      )}
+
+      {pathParamNames.length > 0 && (
+        <ParamInputs title={t('apiKeys.console.pathParams')} names={pathParamNames} values={pathParams} onChange={(name, value) => setPathParams(prev => ({ ...prev, [name]: value }))} />
+      )}
+      {endpoint.query && endpoint.query.length > 0 && (
+        <ParamInputs title={t('apiKeys.console.queryParams')} names={endpoint.query} values={query} onChange={(name, value) => setQuery(prev => ({ ...prev, [name]: value }))} />
+      )}
+
+      {endpoint.body && (
+        <div className="space-y-1.5">
+          <Label className="flex items-center gap-2 text-xs">
+            {t('apiKeys.console.body')}
+            <code className="text-muted-foreground text-[10px]">{endpoint.body}</code>
+          </Label>
+          <Textarea value={body} onChange={event => setBody(event.target.value)} rows={6} dir="ltr" className={cn('font-mono text-xs', bodyError && 'border-destructive')} spellCheck={false} />
+          {bodyError && <p className="text-destructive text-[11px]">{t('apiKeys.console.invalidJson', { error: bodyError })}</p>}
+        </div>
+      )}
+
+      <Tabs value={language} onValueChange={value => setLanguage(value as RequestSnippetLanguage)}>
+        <div className="flex items-center justify-between gap-2">
+          <TabsList className="h-8">
+            {SNIPPET_LANGUAGES.map(item => (
+              <TabsTrigger key={item} value={item} className="px-2.5 text-xs">
+                {t(`apiKeys.console.snippets.${item}`)}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          <CopyButton value={buildRequestSnippet(language, request)} className="h-8 w-8 shrink-0" copiedMessage="copied" defaultMessage="clickToCopy" />
+        </div>
+        {SNIPPET_LANGUAGES.map(item => (
+          <TabsContent key={item} value={item}>
+            <pre dir="ltr" className="bg-muted/60 max-h-56 overflow-auto rounded-md p-3 font-mono text-[11px] leading-relaxed whitespace-pre">
+              {buildRequestSnippet(item, request)}
+            </pre>
+          </TabsContent>
+        ))}
+      </Tabs>
+
+      {!allowed && <p className="text-muted-foreground text-xs">{t('apiKeys.console.notAllowed')}</p>}
+      {allowed && isMutation && (
+        <p className="flex items-start gap-1.5 text-xs text-amber-600 dark:text-amber-400">
+          <TriangleAlert className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          {t('apiKeys.console.mutationWarning')}
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <LoaderButton type="button" size="sm" onClick={handleSend} disabled={!canSend} isLoading={isSending} loadingText={t('apiKeys.console.sending')}>
+          <Send className="h-4 w-4" />
+          {t('apiKeys.console.send')}
+        </LoaderButton>
+      </div>
+
+      {response && (
+        <div className="space-y-1.5">
+          {'error' in response ? (
+            <p className="text-destructive text-xs">{response.error}</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 text-xs">
+                <Badge variant={response.status < 400 ? 'secondary' : 'destructive'} className="font-mono">
+                  {response.status}
+                </Badge>
+                <span className="text-muted-foreground" dir="ltr">
+                  {response.durationMs} ms
+                </span>
+              </div>
+              <pre dir="ltr" className="bg-muted/60 max-h-72 overflow-auto rounded-md p-3 font-mono text-[11px] leading-relaxed whitespace-pre-wrap">
+                {response.body || t('apiKeys.console.emptyResponse')}
+              </pre>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ParamInputs({ title, names, values, onChange }: { title: string; names: string[]; values: Record<string, string>; onChange: (name: string, value: string) => void }) {
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{title}</Label>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {names.map(name => (
+          <div key={name} className="flex items-center gap-2">
+            <code dir="ltr" className="text-muted-foreground w-28 shrink-0 truncate text-[11px]" title={name}>
+              {name}
+            </code>
+            <Input value={values[name] ?? ''} onChange={event => onChange(name, event.target.value)} dir="ltr" className="h-8 text-xs" />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function formatResponseBody(text: string) {
+  let formatted = text
+  try {
+    formatted = JSON.stringify(JSON.parse(text), null, 2)
+  } catch {
+    // Not JSON, e.g. a subscription or an error page; show it as-is
+  }
+  return formatted.length > MAX_RESPONSE_LENGTH ? `${formatted.slice(0, MAX_RESPONSE_LENGTH)}\n…` : formatted
+}
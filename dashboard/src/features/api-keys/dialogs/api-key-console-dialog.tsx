@@ -0,0 +1,167 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Lock, Search, SquareTerminal, TriangleAlert } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Switch } from '@/components/ui/switch'
+import { useAdmin } from '@/hooks/use-admin'
+import { cn } from '@/lib/utils'
+import { useGetAdmins, type APIKeyResponse } from '@/service/api'
+import { METHOD_BADGE_CLASSES, type ApiEndpoint } from '@/utils/apiEndpointCatalog'
+import { getApiKeyEffectiveAdmin, groupApiEndpoints, isApiKeyUsable } from '@/utils/apiKeyConsole'
+import { hasPermission } from '@/utils/rbac'
+
+import { ApiRequestBuilder } from '@/features/api-keys/components/api-request-builder'
+
+interface ApiKeyConsoleDialogProps {
+  apiKey: APIKeyResponse | null
+  onOpenChange: (open: boolean) => void
+}
+
+export default function ApiKeyConsoleDialog({ apiKey, onOpenChange }: ApiKeyConsoleDialogProps) {
+  const { t } = useTranslation()
+  const { admin } = useAdmin()
+  const [search, setSearch] = useState('')
+  const [allowedOnly, setAllowedOnly] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  // Only kept in memory for this dialog; the panel cannot show a key after it was created
+  const [rawKey, setRawKey] = useState('')
+
+  useEffect(() => {
+    setSearch('')
+    setSelectedId(null)
+    setRawKey('')
+  }, [apiKey?.id])
+
+  // Keys of other admins resolve against that admin's role, so load it when it isn't us
+  const isOwnKey = !!apiKey && apiKey.admin_id === admin?.id
+  const ownerQuery = useGetAdmins(apiKey && !isOwnKey ? { ids: [apiKey.admin_id] } : undefined, {
+    query: { enabled: !!apiKey && !isOwnKey && hasPermission(admin, 'admins', 'read') },
+  })
+  const owner = isOwnKey ? admin : (ownerQuery.data?.admins?.[0] ?? null)
+  const effectiveAdmin = useMemo(() => (apiKey ? getApiKeyEffectiveAdmin(apiKey, owner) : null), [apiKey, owner])
+
+  const groups = useMemo(() => groupApiEndpoints(effectiveAdmin), [effectiveAdmin])
+  const totalCount = groups.reduce((sum, group) => sum + group.endpoints.length, 0)
+  const allowedCount = groups.reduce((sum, group) => sum + group.allowedCount, 0)
+
+  const normalizedSearch = search.trim().toLowerCase()
+  const visibleGroups = groups
+    .map(group => ({
+      ...group,
+      total: group.endpoints.length,
+      endpoints: group.endpoints.filter(
+        endpoint =>
+          (!allowedOnly || endpoint.allowed) &&
+          (!normalizedSearch ||
+            endpoint.path.toLowerCase().includes(normalizedSearch) ||
+            endpoint.summary.toLowerCase().includes(normalizedSearch) ||
+            endpoint.id.toLowerCase().includes(normalizedSearch)),
+      ),
+    }))
+    .filter(group => group.endpoints.length > 0)
+
+  const selected = groups.flatMap(group => group.endpoints).find(endpoint => endpoint.id === selectedId) ?? null
+  const usable = apiKey ? isApiKeyUsable(apiKey) : false
+  const isLoadingOwner = !isOwnKey && ownerQuery.isLoading
+
+  const groupLabel = (group: string) => (group === 'public' ? t('apiKeys.console.groups.public') : t(`adminRoles.resources.${group}`, { defaultValue: group }))
+
+  return (
+    <Dialog open={!!apiKey} onOpenChange={onOpenChange}>
+      <DialogContent className="h-auto w-full max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SquareTerminal className="h-5 w-5" />
+            <span>{t('apiKeys.console.title')}</span>
+            {apiKey && (
+              <Badge variant="outline" className="max-w-48 truncate font-normal" dir="auto">
+                {apiKey.name}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>{t('apiKeys.console.description')}</DialogDescription>
+        </DialogHeader>
+
+        {!usable && (
+          <p className="flex items-start gap-2 rounded-md border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+            <TriangleAlert className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+            {t('apiKeys.console.unusable')}
+          </p>
+        )}
+        {!isOwnKey && !isLoadingOwner && !owner && <p className="text-muted-foreground text-xs">{t('apiKeys.console.ownerUnavailable')}</p>}
+
+        <div className="grid min-h-0 gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+          <div className="flex min-h-0 flex-col gap-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <Badge variant="secondary">{t('apiKeys.console.allowedCount', { allowed: allowedCount, total: totalCount })}</Badge>
+              <div className="flex items-center gap-2">
+                <Switch id="api-console-allowed-only" checked={allowedOnly} onCheckedChange={setAllowedOnly} />
+                <Label htmlFor="api-console-allowed-only" className="text-xs">
+                  {t('apiKeys.console.allowedOnly')}
+                </Label>
+              </div>
+            </div>
+            <div className="relative">
+              <Search className="text-muted-foreground absolute top-1/2 h-4 w-4 -translate-y-1/2 ltr:left-2.5 rtl:right-2.5" />
+              <Input value={search} onChange={event => setSearch(event.target.value)} placeholder={t('apiKeys.console.search')} className="h-9 ps-8" />
+            </div>
+            <div className="-mr-2 max-h-[55dvh] space-y-3 overflow-y-auto pr-2">
+              {isLoadingOwner
+                ? Array.from({ length: 6 }, (_, index) => <Skeleton key={index} className="h-7 w-full" />)
+                : visibleGroups.map(group => (
+                    <div key={group.group} className="space-y-1">
+                      <div className="text-muted-foreground flex items-center justify-between px-1 text-[11px] font-medium uppercase">
+                        <span>{groupLabel(group.group)}</span>
+                        <span dir="ltr">
+                          {group.allowedCount}/{group.total}
+                        </span>
+                      </div>
+                      {group.endpoints.map(endpoint => (
+                        <EndpointRow key={endpoint.id} endpoint={endpoint} allowed={endpoint.allowed} selected={endpoint.id === selectedId} onSelect={() => setSelectedId(endpoint.id)} />
+                      ))}
+                    </div>
+                  ))}
+              {!isLoadingOwner && visibleGroups.length === 0 && <p className="text-muted-foreground py-6 text-center text-xs">{t('apiKeys.console.noEndpoints')}</p>}
+            </div>
+          </div>
+
+          <div className="-mr-2 max-h-[65dvh] min-w-0 overflow-y-auto pr-2">
+            {selected ? (
+              <ApiRequestBuilder key={selected.id} endpoint={selected} allowed={selected.allowed} usable={usable} apiKey={rawKey} onApiKeyChange={setRawKey} />
+            ) : (
+              <div className="text-muted-foreground flex h-full min-h-40 items-center justify-center rounded-md border border-dashed p-6 text-center text-xs">
+                {t('apiKeys.console.selectEndpoint')}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function EndpointRow({ endpoint, allowed, selected, onSelect }: { endpoint: ApiEndpoint; allowed: boolean; selected: boolean; onSelect: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      title={endpoint.summary}
+      className={cn(
+        'flex w-full min-w-0 items-center gap-2 rounded-md px-2 py-1 text-start text-xs transition-colors',
+        selected ? 'bg-muted' : 'hover:bg-muted/60',
+        !allowed && 'text-muted-foreground',
+      )}
+    >
+      <span className={cn('w-12 shrink-0 rounded px-1 py-0.5 text-center font-mono text-[10px]', METHOD_BADGE_CLASSES[endpoint.method], !allowed && 'opacity-50')}>{endpoint.method}</span>
+      <code dir="ltr" className="min-w-0 flex-1 truncate text-start">
+        {endpoint.path}
+      </code>
+      {!allowed && <Lock className="h-3 w-3 shrink-0" />}
+    </button>
+  )
+}
@@ -12,7 +12,11 @@ import {
   useBulkRemoveUsersFromGroups,
   ShadowsocksMethods,
   UserStatus,
+  type BulkGroup,
+  type BulkUser,
+  type BulkUsersProxy,
 } from '@/service/api'
+import type { ErrorType } from '@/service/http'
 import { Button } from '@/components/ui/button'
 import { LoaderButton } from '@/components/ui/loader-button'
 import { Badge } from '@/components/ui/badge'
@@ -29,6 +33,10 @@ import { Settings, Group, User, Shield, CheckCircle, AlertTriangle, Plus, Minus,
 import { BulkExpiredDateFilters } from '@/features/bulk/components/bulk-expired-date-filters'
 import { DecimalInput } from '@/components/common/decimal-input'
 import { SelectorPanel } from '@/features/bulk/components/selector-panel'
+import { BulkPreviewTable } from '@/features/bulk/components/bulk-preview-table'
+import { useBulkOperationHistory } from '@/features/bulk/hooks/use-bulk-operation-history'
+import { fetchBulkTargetUsers, type BulkOperationDetails, type BulkTargetFilter } from '@/utils/bulkOperationHistory'
+import { buildBulkPreviewRows, type BulkPreviewKind, type BulkPreviewRow } from '@/utils/bulkPreview'
 import { TimeUnitSelect, TIME_UNIT_SECONDS, type TimeUnit } from '@/components/common/time-unit-select'
 import { formatDateByLocale } from '@/utils/datePickerUtils'
 import { formatBytes, gbToBytes } from '@/utils/formatByte'
@@ -42,6 +50,16 @@ const PAGE_SIZE = 50
 type BulkOperationType = 'proxy' | 'data' | 'expire' | 'groups'
 type ExpiryUnit = TimeUnit
 
+/** Request body of each bulk endpoint, tagged with the endpoint it goes to. */
+type BulkRequest = { endpoint: 'proxy'; data: BulkUsersProxy } | { endpoint: 'data' | 'expire'; data: BulkUser } | { endpoint: 'groups_add' | 'groups_remove'; data: BulkGroup }
+
+interface BulkPreviewState {
+  /** Settings and targets the preview was computed for. */
+  key: string
+  rows: BulkPreviewRow[] | null
+  affectedCount: number | null
+}
+
 interface BulkFlowProps {
   operationType: BulkOperationType
 }
@@ -135,9 +153,12 @@ export default function BulkFlow({ operationType }: BulkFlowProps) {
   const expireMutation = useBulkModifyUsersExpire()
   const addGroupsMutation = useBulkAddGroupsToUsers()
   const removeGroupsMutation = useBulkRemoveUsersFromGroups()
+  const { captureTargets, recordOperation, getUndoAction } = useBulkOperationHistory()
 
   const nextStep = () => {
-    if (currentStep < 3) setCurrentStep((currentStep + 1) as 1 | 2 | 3)
+    if (currentStep >= 3) return
+    setCurrentStep((currentStep + 1) as 1 | 2 | 3)
+    if (currentStep === 2 && !currentPreview) void runPreview()
   }
 
   const prevStep = () => {
@@ -195,6 +216,7 @@ export default function BulkFlow({ operationType }: BulkFlowProps) {
 
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
   const [pendingBulkAction, setPendingBulkAction] = useState<'preview' | 'apply' | null>(null)
+  const [preview, setPreview] = useState<BulkPreviewState | null>(null)
 
   const isCurrentBulkMutationPending =
     (operationType === 'proxy' && proxyMutation.isPending) ||
@@ -202,18 +224,16 @@ export default function BulkFlow({ operationType }: BulkFlowProps) {
     (operationType === 'expire' && expireMutation.isPending) ||
     (operationType === 'groups' && (groupsOperation === 'add' ? addGroupsMutation.isPending : removeGroupsMutation.isPending))
 
-  const bulkPreviewDescription = (response: unknown) => {
-    if (!response || typeof response !== 'object') return ''
-    const r = response as Record<string, unknown>
-    const count = typeof r.affected_users === 'number' ? r.affected_users : undefined
-    if (count === undefined) return ''
-    return t('bulk.previewToast', {
-      count,
-      defaultValue: '{{count}} would be affected (dry run)',
-    })
-  }
+  const signedAmount = (() => {
+    if (operationType === 'data' && dataLimit !== undefined) {
+      const dataLimitBytes = gbToBytes(dataLimit)!
+      return dataOperation === 'subtract' ? -dataLimitBytes : dataLimitBytes
+    }
+    if (operationType === 'expire' && expireSeconds !== undefined) return expireOperation === 'subtract' ? -expireSeconds : expireSeconds
+    return undefined
+  })()
 
-  const confirmApply = () => {
+  const buildRequest = (dryRun: boolean): BulkRequest => {
     const basePayload = {
       group_ids: selectedGroups.length ? selectedGroups : [],
       users: selectedUsers.length ? selectedUsers : [],
@@ -221,181 +241,153 @@ export default function BulkFlow({ operationType }: BulkFlowProps) {
     }
     const statusPayload = selectedStatuses.length ? { status: selectedStatuses } : {}
 
-    const payload = (() => {
-      switch (operationType) {
-        case 'proxy':
-          return {
+    switch (operationType) {
+      case 'proxy':
+        return {
+          endpoint: 'proxy',
+          data: {
             ...basePayload,
             method: selectedMethod,
-            dry_run: false,
-          }
-        case 'data':
-          const dataLimitBytes = gbToBytes(dataLimit!)
-          return {
-            ...basePayload,
-            ...statusPayload,
-            ...expireDatePayload,
-            amount: dataOperation === 'subtract' ? -dataLimitBytes! : dataLimitBytes,
-            dry_run: false,
-          }
-        case 'expire':
-          return {
+            dry_run: dryRun,
+          },
+        }
+      case 'data':
+      case 'expire':
+        return {
+          endpoint: operationType,
+          data: {
             ...basePayload,
             ...statusPayload,
             ...expireDatePayload,
-            amount: expireOperation === 'subtract' ? -expireSeconds! : expireSeconds,
-            dry_run: false,
-          }
-        case 'groups':
-          return {
+            // The amount step has to be filled in before the flow reaches preview or apply
+            amount: signedAmount ?? 0,
+            dry_run: dryRun,
+          },
+        }
+      case 'groups':
+        return {
+          endpoint: groupsOperation === 'add' ? 'groups_add' : 'groups_remove',
+          data: {
             group_ids: selectedGroups,
             has_group_ids: selectedHasGroups.length > 0 ? selectedHasGroups : [],
             users: selectedUsers.length ? selectedUsers : [],
             admins: selectedAdmins.length ? selectedAdmins : [],
-            dry_run: false,
-          }
-        default:
-          return basePayload
-      }
-    })()
-
-    const mutation = (() => {
-      switch (operationType) {
-        case 'proxy':
-          return proxyMutation
-        case 'data':
-          return dataMutation
-        case 'expire':
-          return expireMutation
-        case 'groups':
-          return groupsOperation === 'add' ? addGroupsMutation : removeGroupsMutation
-        default:
-          return proxyMutation
-      }
-    })()
+            dry_run: dryRun,
+          },
+        }
+    }
+  }
 
-    setPendingBulkAction('apply')
+  const submitBulkRequest = (request: BulkRequest) => {
+    switch (request.endpoint) {
+      case 'proxy':
+        return proxyMutation.mutateAsync({ data: request.data })
+      case 'data':
+        return dataMutation.mutateAsync({ data: request.data })
+      case 'expire':
+        return expireMutation.mutateAsync({ data: request.data })
+      case 'groups_add':
+        return addGroupsMutation.mutateAsync({ data: request.data })
+      case 'groups_remove':
+        return removeGroupsMutation.mutateAsync({ data: request.data })
+    }
+  }
 
-    mutation.mutate(
-      { data: payload as any },
-      {
-        onSuccess: response => {
-          const detail = typeof response === 'object' && response && 'detail' in response ? response.detail : undefined
-          let description = ''
-          if (detail) {
-            description = typeof detail === 'string' ? detail : JSON.stringify(detail, null, 2)
-          } else if (typeof response === 'string') {
-            description = response
-          } else if (response && Object.keys(response).length > 0) {
-            description = JSON.stringify(response, null, 2)
-          } else {
-            description = 'Operation completed successfully'
-          }
-          toast.success(t('operationSuccess', { defaultValue: 'Operation successful!' }), { description })
-
-          setCurrentStep(1)
-          setSelectedMethod(undefined)
-          setDataLimit(undefined)
-          setExpireSeconds(undefined)
-          setExpireAmount(undefined)
-          setSelectedGroups([])
-          setSelectedUsers([])
-          setSelectedAdmins([])
-          setSelectedHasGroups([])
-          setSelectedStatuses([])
-          setExpiredAfter(undefined)
-          setExpiredBefore(undefined)
-          setShowConfirmDialog(false)
-        },
-        onError: error => {
-          toast.error(t('operationFailed', { defaultValue: 'Operation failed!' }), {
-            description: error?.message || JSON.stringify(error, null, 2),
-          })
-          setShowConfirmDialog(false)
-        },
-        onSettled: () => setPendingBulkAction(null),
-      },
-    )
+  const describeBulkError = (error: unknown) => {
+    const fetchError = error as ErrorType<unknown> | undefined
+    return fetchError?.message || JSON.stringify(error, null, 2)
   }
 
-  const handlePreview = () => {
-    const basePayload = {
-      group_ids: selectedGroups.length ? selectedGroups : [],
-      users: selectedUsers.length ? selectedUsers : [],
-      admins: selectedAdmins.length ? selectedAdmins : [],
+  const previewKind: BulkPreviewKind =
+    operationType === 'groups' ? (groupsOperation === 'add' ? 'groups_add' : 'groups_remove') : operationType === 'proxy' ? 'proxy_settings' : operationType === 'data' ? 'data_limit' : 'expire'
+  const previewDetails: BulkOperationDetails = {
+    amount: signedAmount,
+    method: operationType === 'proxy' ? selectedMethod : undefined,
+    groupIds: operationType === 'groups' ? selectedGroups : undefined,
+  }
+  // Mirrors how the bulk endpoints resolve their targets: groups operations filter on the groups users already have
+  const targetFilter: BulkTargetFilter =
+    operationType === 'groups'
+      ? { users: selectedUsers, admins: selectedAdmins, groupIds: selectedHasGroups }
+      : {
+          users: selectedUsers,
+          admins: selectedAdmins,
+          groupIds: selectedGroups,
+          status: operationType === 'proxy' ? undefined : selectedStatuses,
+          expireAfter: 'expire_after' in expireDatePayload ? expireDatePayload.expire_after : undefined,
+          expireBefore: 'expire_before' in expireDatePayload ? expireDatePayload.expire_before : undefined,
+        }
+  const previewKey = JSON.stringify([previewKind, previewDetails, targetFilter])
+  // A preview only counts for the exact settings and targets it was computed for
+  const currentPreview = preview?.key === previewKey ? preview : null
+  const previewFlaggedCount = currentPreview?.rows?.filter(row => row.flags.some(flag => flag !== 'reactivated')).length ?? 0
+  const groupNames = new Map((groupsData?.groups ?? []).map(group => [group.id, group.name]))
+
+  const runPreview = async () => {
+    const key = previewKey
+    setPendingBulkAction('preview')
+    try {
+      const [dryRun, targets] = await Promise.all([
+        submitBulkRequest(buildRequest(true)),
+        // The per-user diff is best effort; the server's dry run still gives the count
+        fetchBulkTargetUsers(targetFilter).catch(() => ({ total: 0, users: null })),
+      ])
+      const rows = targets.users ? buildBulkPreviewRows(previewKind, targets.users, previewDetails) : null
+      const serverCount = dryRun && typeof dryRun === 'object' && 'affected_users' in dryRun && typeof dryRun.affected_users === 'number' ? dryRun.affected_users : null
+      setPreview({ key, rows, affectedCount: serverCount ?? rows?.length ?? null })
+    } catch (error: unknown) {
+      toast.error(t('operationFailed', { defaultValue: 'Operation failed!' }), {
+        description: describeBulkError(error),
+      })
+    } finally {
+      setPendingBulkAction(null)
     }
-    const statusPayload = selectedStatuses.length ? { status: selectedStatuses } : {}
+  }
 
-    const payload = (() => {
-      switch (operationType) {
-        case 'proxy':
-          return {
-            ...basePayload,
-            method: selectedMethod,
-            dry_run: true,
-          }
-        case 'data': {
-          const dataLimitBytes = gbToBytes(dataLimit!)
-          return {
-            ...basePayload,
-            ...statusPayload,
-            ...expireDatePayload,
-            amount: dataOperation === 'subtract' ? -dataLimitBytes! : dataLimitBytes,
-            dry_run: true,
-          }
-        }
-        case 'expire':
-          return {
-            ...basePayload,
-            ...statusPayload,
-            ...expireDatePayload,
-            amount: expireOperation === 'subtract' ? -expireSeconds! : expireSeconds,
-            dry_run: true,
-          }
-        case 'groups':
-          return {
-            group_ids: selectedGroups,
-            has_group_ids: selectedHasGroups.length > 0 ? selectedHasGroups : [],
-            users: selectedUsers.length ? selectedUsers : [],
-            admins: selectedAdmins.length ? selectedAdmins : [],
-            dry_run: true,
-          }
-      }
-    })()
-
-    const mutation = (() => {
-      switch (operationType) {
-        case 'proxy':
-          return proxyMutation
-        case 'data':
-          return dataMutation
-        case 'expire':
-          return expireMutation
-        case 'groups':
-          return groupsOperation === 'add' ? addGroupsMutation : removeGroupsMutation
-        default:
-          return proxyMutation
+  const confirmApply = async () => {
+    setPendingBulkAction('apply')
+
+    // Snapshot the targets before changing them so the operation can be undone from the history
+    const targets = await captureTargets(targetFilter)
+
+    try {
+      const response = await submitBulkRequest(buildRequest(false))
+      const historyRecord = recordOperation({ kind: previewKind, snapshots: targets.snapshots, affected: targets.total, details: previewDetails })
+      const detail = typeof response === 'object' && response && 'detail' in response ? response.detail : undefined
+      let description = ''
+      if (detail) {
+        description = typeof detail === 'string' ? detail : JSON.stringify(detail, null, 2)
+      } else if (typeof response === 'string') {
+        description = response
+      } else if (response && Object.keys(response).length > 0) {
+        description = JSON.stringify(response, null, 2)
+      } else {
+        description = 'Operation completed successfully'
       }
-    })()
+      toast.success(t('operationSuccess', { defaultValue: 'Operation successful!' }), { description, action: getUndoAction(historyRecord) })
 
-    setPendingBulkAction('preview')
-    mutation.mutate(
-      { data: payload as any },
-      {
-        onSuccess: response => {
-          const description = bulkPreviewDescription(response)
-          toast.success(t('bulk.previewTitle', { defaultValue: 'Preview' }), {
-            description: description || t('bulk.previewNoCount', { defaultValue: 'Dry run completed.' }),
-          })
-        },
-        onError: error => {
-          toast.error(t('operationFailed', { defaultValue: 'Operation failed!' }), {
-            description: error?.message || JSON.stringify(error, null, 2),
-          })
-        },
-        onSettled: () => setPendingBulkAction(null),
-      },
-    )
+      setCurrentStep(1)
+      setSelectedMethod(undefined)
+      setDataLimit(undefined)
+      setExpireSeconds(undefined)
+      setExpireAmount(undefined)
+      setSelectedGroups([])
+      setSelectedUsers([])
+      setSelectedAdmins([])
+      setSelectedHasGroups([])
+      setSelectedStatuses([])
+      setExpiredAfter(undefined)
+      setExpiredBefore(undefined)
+      setPreview(null)
+      setShowConfirmDialog(false)
+    } catch (error: unknown) {
+      toast.error(t('operationFailed', { defaultValue: 'Operation failed!' }), {
+        description: describeBulkError(error),
+      })
+      setShowConfirmDialog(false)
+    } finally {
+      setPendingBulkAction(null)
+    }
   }
 
   // For groups operation, groups are the operation target, not user targets
@@ -1001,6 +993,14 @@ export default function BulkFlow({ operationType }: BulkFlowProps) {
                   </div>
                 </div>
               )}
+
+              <BulkPreviewTable
+                kind={previewKind}
+                rows={currentPreview?.rows ?? null}
+                affectedCount={currentPreview?.affectedCount ?? null}
+                isLoading={pendingBulkAction === 'preview' || !currentPreview}
+                groupNames={groupNames}
+              />
             </div>
           )}
         </CardContent>
@@ -1024,8 +1024,8 @@ export default function BulkFlow({ operationType }: BulkFlowProps) {
             <LoaderButton
               type="button"
               variant="outline"
-              onClick={handlePreview}
-              disabled={!canProceedToNext() || isCurrentBulkMutationPending}
+              onClick={() => void runPreview()}
+              disabled={!canProceedToNext() || isCurrentBulkMutationPending || pendingBulkAction !== null}
               isLoading={pendingBulkAction === 'preview'}
               loadingText={t('bulk.previewing', { defaultValue: 'Previewing…' })}
               size="sm"
@@ -1038,7 +1038,7 @@ export default function BulkFlow({ operationType }: BulkFlowProps) {
             </LoaderButton>
             <LoaderButton
               onClick={handleApply}
-              disabled={!canProceedToNext() || isCurrentBulkMutationPending}
+              disabled={!canProceedToNext() || isCurrentBulkMutationPending || pendingBulkAction !== null || !currentPreview || currentPreview.affectedCount === 0}
               isLoading={pendingBulkAction === 'apply'}
               loadingText={t('applying', { defaultValue: 'Applying...' })}
               size="sm"
@@ -1057,24 +1057,30 @@ export default function BulkFlow({ operationType }: BulkFlowProps) {
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>{t('bulk.confirmOperation', { defaultValue: 'Confirm Operation' })}</AlertDialogTitle>
-            <AlertDialogDescription>
-              {isApplyToAll
-                ? t('bulk.confirmApplyAll', { defaultValue: 'Are you sure you want to apply this operation to ALL users, admins, and groups?' })
-                : t('bulk.confirmApplyTargets', {
-                    count: displayTargetCount,
-                    defaultValue: 'Are you sure you want to apply this operation to {{count}} target(s)?',
-                  })}
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>
+                  {currentPreview?.affectedCount != null
+                    ? t('bulkPreview.confirmDescription', { count: currentPreview.affectedCount })
+                    : isApplyToAll
+                      ? t('bulk.confirmApplyAll', { defaultValue: 'Are you sure you want to apply this operation to ALL users, admins, and groups?' })
+                      : t('bulk.confirmApplyTargets', {
+                          count: displayTargetCount,
+                          defaultValue: 'Are you sure you want to apply this operation to {{count}} target(s)?',
+                        })}
+                </p>
+                {previewFlaggedCount > 0 && <p className="text-destructive">{t('bulkPreview.confirmFlagged', { count: previewFlaggedCount })}</p>}
+              </div>
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>{t('cancel', { defaultValue: 'Cancel' })}</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={confirmApply}
-              disabled={proxyMutation.isPending || dataMutation.isPending || expireMutation.isPending || addGroupsMutation.isPending || removeGroupsMutation.isPending}
-            >
-              {proxyMutation.isPending || dataMutation.isPending || expireMutation.isPending || addGroupsMutation.isPending || removeGroupsMutation.isPending
+            <AlertDialogAction onClick={confirmApply} disabled={isCurrentBulkMutationPending || pendingBulkAction !== null}>
+              {pendingBulkAction === 'apply'
                 ? t('applying', { defaultValue: 'Applying...' })
-                : t('confirm', { defaultValue: 'Confirm' })}
+                : currentPreview?.affectedCount != null
+                  ? t('bulkPreview.applyCount', { count: currentPreview.affectedCount })
+                  : t('confirm', { defaultValue: 'Confirm' })}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
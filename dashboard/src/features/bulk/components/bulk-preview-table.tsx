@@ -0,0 +1,156 @@
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { dateUtils } from '@/utils/dateFormatter'
+import { formatBytes } from '@/utils/formatByte'
+import type { BulkPreviewFlag, BulkPreviewKind, BulkPreviewRow } from '@/utils/bulkPreview'
+import { ArrowRight, ChevronLeft, ChevronRight, Eye, LoaderCircle } from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const PAGE_SIZE = 20
+
+const FLAG_CLASSES: Record<BulkPreviewFlag, string> = {
+  expired: 'border-destructive/40 text-destructive',
+  overLimit: 'border-destructive/40 text-destructive',
+  noGroups: 'border-amber-500/40 text-amber-600 dark:text-amber-400',
+  reactivated: 'border-green-500/40 text-green-600 dark:text-green-400',
+}
+
+interface BulkPreviewTableProps {
+  kind: BulkPreviewKind
+  /** `null` while loading or when the selection is too large to list. */
+  rows: BulkPreviewRow[] | null
+  /** Users the operation will change, from the listed rows or the server's dry run. */
+  affectedCount: number | null
+  isLoading: boolean
+  groupNames: Map<number, string>
+}
+
+export function BulkPreviewTable({ kind, rows, affectedCount, isLoading, groupNames }: BulkPreviewTableProps) {
+  const { t } = useTranslation()
+  const [flaggedOnly, setFlaggedOnly] = useState(false)
+  const [page, setPage] = useState(0)
+
+  const flagCounts = useMemo(() => {
+    const counts = new Map<BulkPreviewFlag, number>()
+    for (const row of rows ?? []) for (const flag of row.flags) counts.set(flag, (counts.get(flag) ?? 0) + 1)
+    return counts
+  }, [rows])
+  const flaggedCount = useMemo(() => (rows ?? []).filter(row => row.flags.some(flag => flag !== 'reactivated')).length, [rows])
+  const filteredRows = useMemo(() => (flaggedOnly ? (rows ?? []).filter(row => row.flags.some(flag => flag !== 'reactivated')) : (rows ?? [])), [rows, flaggedOnly])
+  const pageCount = Math.max(1, Math.ceil(filteredRows.length / PAGE_SIZE))
+
+  useEffect(() => {
+    setPage(0)
+  }, [rows, flaggedOnly])
+
+  const formatValue = (value: BulkPreviewRow['before']) => {
+    if (value === null) return '—'
+    switch (kind) {
+      case 'expire':
+        return dateUtils.formatDate(value as number)
+      case 'data_limit':
+        return formatBytes(value as number)
+      case 'proxy_settings':
+        return value as string
+      default:
+        return (value as number[]).length > 0 ? (value as number[]).map(id => groupNames.get(id) ?? `#${id}`).join(', ') : '—'
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="text-muted-foreground flex items-center justify-center gap-2 rounded-lg border py-8 text-sm">
+        <LoaderCircle className="h-4 w-4 animate-spin" />
+        {t('bulkPreview.loading')}
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border p-3">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Eye className="h-4 w-4" />
+          {affectedCount === null ? t('bulkPreview.title') : t('bulkPreview.affected', { count: affectedCount })}
+        </div>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {[...flagCounts.entries()].map(([flag, count]) => (
+            <Badge key={flag} variant="outline" className={FLAG_CLASSES[flag]}>
+              {t(`bulkPreview.flags.${flag}`, { count })}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      {rows === null ? (
+        <p className="text-muted-foreground text-xs">{t('bulkPreview.tooMany')}</p>
+      ) : rows.length === 0 ? (
+        <p className="text-muted-foreground py-4 text-center text-sm">{t('bulkPreview.empty')}</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-2">
+            <Switch id="bulk-preview-flagged" checked={flaggedOnly} onCheckedChange={setFlaggedOnly} disabled={flaggedCount === 0} />
+            <Label htmlFor="bulk-preview-flagged" className="text-xs">
+              {t('bulkPreview.flaggedOnly', { count: flaggedCount })}
+            </Label>
+          </div>
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('username')}</TableHead>
+                  <TableHead>{t('bulkPreview.before')}</TableHead>
+                  <TableHead className="w-6" />
+                  <TableHead>{t('bulkPreview.after')}</TableHead>
+                  <TableHead>{t('bulkPreview.status')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE).map(row => (
+                  <TableRow key={row.id} className={row.flags.some(flag => flag !== 'reactivated') ? 'bg-destructive/5' : undefined}>
+                    <TableCell className="max-w-[12rem] truncate font-medium" dir="ltr">
+                      {row.username}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground max-w-[14rem] truncate text-xs whitespace-nowrap">{formatValue(row.before)}</TableCell>
+                    <TableCell>
+                      <ArrowRight className="text-muted-foreground h-3 w-3 rtl:rotate-180" />
+                    </TableCell>
+                    <TableCell className="max-w-[14rem] truncate text-xs font-medium whitespace-nowrap">{formatValue(row.after)}</TableCell>
+                    <TableCell className="text-xs">
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="whitespace-nowrap">
+                          {t(`status.${row.status}`)}
+                          {row.nextStatus !== row.status && ` → ${t(`status.${row.nextStatus}`)}`}
+                        </span>
+                        {row.flags.map(flag => (
+                          <Badge key={flag} variant="outline" className={`text-[10px] ${FLAG_CLASSES[flag]}`}>
+                            {t(`bulkPreview.flagLabels.${flag}`)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {pageCount > 1 && (
+            <div className="flex items-center justify-end gap-2 text-xs">
+              <span className="text-muted-foreground">{t('bulkPreview.page', { page: page + 1, total: pageCount })}</span>
+              <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                <ChevronLeft className="h-4 w-4 rtl:rotate-180" />
+              </Button>
+              <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+                <ChevronRight className="h-4 w-4 rtl:rotate-180" />
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
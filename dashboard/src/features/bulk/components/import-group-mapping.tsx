@@ -0,0 +1,74 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { GitMerge } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+const UNSET_VALUE = '__unset__'
+const IGNORE_VALUE = '__ignore__'
+
+interface ImportGroupMappingProps {
+  labels: string[]
+  groups: { id: number; name: string }[]
+  aliases: Record<string, number | null>
+  onAliasesChange: (aliases: Record<string, number | null>) => void
+}
+
+/** Maps inbound tags, protocols or plans from another panel's backup onto existing groups. */
+export function ImportGroupMapping({ labels, groups, aliases, onAliasesChange }: ImportGroupMappingProps) {
+  const { t } = useTranslation()
+
+  if (labels.length === 0) return null
+
+  const getValue = (label: string) => {
+    const alias = aliases[label.toLowerCase()]
+    if (alias === undefined) return UNSET_VALUE
+    return alias === null ? IGNORE_VALUE : String(alias)
+  }
+
+  const setAlias = (label: string, value: string) => {
+    const next = { ...aliases }
+    if (value === UNSET_VALUE) delete next[label.toLowerCase()]
+    else next[label.toLowerCase()] = value === IGNORE_VALUE ? null : Number(value)
+    onAliasesChange(next)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <GitMerge className="h-4 w-4" />
+          {t('usersImport.groupMappingTitle')}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">{t('usersImport.groupMappingDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {labels.map(label => (
+          <div key={label} className="flex flex-col gap-1.5">
+            <Label className="truncate text-xs" dir="ltr" title={label}>
+              {label}
+            </Label>
+            <Select value={getValue(label)} onValueChange={value => setAlias(label, value)}>
+              <SelectTrigger className="h-9 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNSET_VALUE} className="text-muted-foreground text-xs">
+                  {t('usersImport.groupNotMapped')}
+                </SelectItem>
+                <SelectItem value={IGNORE_VALUE} className="text-xs">
+                  {t('usersImport.ignoreGroup')}
+                </SelectItem>
+                {groups.map(group => (
+                  <SelectItem key={group.id} value={String(group.id)} className="text-xs">
+                    {group.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
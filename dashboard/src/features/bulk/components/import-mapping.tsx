@@ -0,0 +1,68 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { USERS_IMPORT_FIELDS, type UsersImportFieldId, type UsersImportMapping } from '@/utils/usersImport'
+import { Columns3 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+const UNMAPPED_VALUE = '__none__'
+
+interface ImportMappingProps {
+  headers: string[]
+  mapping: UsersImportMapping
+  onMappingChange: (mapping: UsersImportMapping) => void
+  disabled?: boolean
+}
+
+/** One select per `UserCreate` field choosing which source column feeds it. */
+export function ImportMapping({ headers, mapping, onMappingChange, disabled = false }: ImportMappingProps) {
+  const { t } = useTranslation()
+
+  const setField = (field: UsersImportFieldId, header: string) => {
+    const next = { ...mapping }
+    if (header === UNMAPPED_VALUE) delete next[field]
+    else next[field] = header
+    onMappingChange(next)
+  }
+
+  const renderField = (field: (typeof USERS_IMPORT_FIELDS)[number]) => (
+    <div key={field.id} className="flex flex-col gap-1.5">
+      <Label className="text-xs">
+        {t(field.labelKey)}
+        {field.id === 'username' && <span className="text-destructive ml-0.5">*</span>}
+      </Label>
+      <Select value={mapping[field.id] ?? UNMAPPED_VALUE} onValueChange={value => setField(field.id, value)} disabled={disabled}>
+        <SelectTrigger className="h-9 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNMAPPED_VALUE} className="text-muted-foreground text-xs">
+            {t('usersImport.notMapped')}
+          </SelectItem>
+          {headers.map(header => (
+            <SelectItem key={header} value={header} className="text-xs">
+              {header}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Columns3 className="h-4 w-4" />
+          {t('usersImport.mappingTitle')}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">{t('usersImport.mappingDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">{USERS_IMPORT_FIELDS.filter(field => !field.proxy).map(renderField)}</div>
+        <div className="text-muted-foreground border-t pt-3 text-xs font-medium">{t('usersImport.proxyFields')}</div>
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">{USERS_IMPORT_FIELDS.filter(field => field.proxy).map(renderField)}</div>
+      </CardContent>
+    </Card>
+  )
+}
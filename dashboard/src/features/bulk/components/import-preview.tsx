@@ -0,0 +1,103 @@
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { dateUtils } from '@/utils/dateFormatter'
+import { formatBytes } from '@/utils/formatByte'
+import type { UsersImportIssue, UsersImportRow } from '@/utils/usersImport'
+import { AlertTriangle, CheckCircle2, ListChecks, LoaderCircle } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+/** Rows rendered at once; counts always cover the whole file. */
+const PREVIEW_ROW_LIMIT = 200
+
+interface ImportPreviewProps {
+  rows: UsersImportRow[]
+  groupNames: Map<number, string>
+  isChecking?: boolean
+}
+
+export function ImportPreview({ rows, groupNames, isChecking = false }: ImportPreviewProps) {
+  const { t } = useTranslation()
+  const [errorsOnly, setErrorsOnly] = useState(false)
+
+  const invalidCount = useMemo(() => rows.filter(row => row.errors.length > 0).length, [rows])
+  const visibleRows = useMemo(() => (errorsOnly ? rows.filter(row => row.errors.length > 0) : rows).slice(0, PREVIEW_ROW_LIMIT), [rows, errorsOnly])
+  const describeIssue = (issue: UsersImportIssue) => t(issue.key, issue.params)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ListChecks className="h-4 w-4" />
+              {t('usersImport.previewTitle')}
+              {isChecking && <LoaderCircle className="text-muted-foreground h-4 w-4 animate-spin" />}
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">{isChecking ? t('usersImport.checkingExisting') : t('usersImport.previewDescription')}</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary">{t('usersImport.totalRows', { count: rows.length })}</Badge>
+            <Badge variant="outline" className="border-green-500/40 text-green-600 dark:text-green-400">
+              {t('usersImport.validRows', { count: rows.length - invalidCount })}
+            </Badge>
+            {invalidCount > 0 && <Badge variant="destructive">{t('usersImport.invalidRows', { count: invalidCount })}</Badge>}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 pt-2">
+          <Switch id="import-errors-only" checked={errorsOnly} onCheckedChange={setErrorsOnly} disabled={invalidCount === 0} />
+          <Label htmlFor="import-errors-only" className="text-xs">
+            {t('usersImport.errorsOnly')}
+          </Label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-[28rem] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>{t('usersImport.fields.username')}</TableHead>
+                <TableHead>{t('usersImport.fields.dataLimit')}</TableHead>
+                <TableHead>{t('usersImport.fields.expire')}</TableHead>
+                <TableHead>{t('usersImport.fields.groups')}</TableHead>
+                <TableHead>{t('usersImport.result')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map(row => (
+                <TableRow key={row.index} className={row.errors.length > 0 ? 'bg-destructive/5' : undefined}>
+                  <TableCell className="text-muted-foreground text-xs tabular-nums">{row.index}</TableCell>
+                  <TableCell className="max-w-[12rem] truncate font-medium" dir="ltr">
+                    {row.username || '—'}
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">{row.payload ? (row.payload.data_limit ? formatBytes(row.payload.data_limit) : t('unlimited')) : '—'}</TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">{row.payload ? (row.payload.expire ? dateUtils.formatDate(row.payload.expire) : t('never')) : '—'}</TableCell>
+                  <TableCell className="max-w-[12rem] truncate text-xs">{row.payload?.group_ids?.map(id => groupNames.get(id) ?? `#${id}`).join(', ') ?? '—'}</TableCell>
+                  <TableCell className="text-xs">
+                    {row.errors.length === 0 ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />
+                    ) : (
+                      <ul className="text-destructive flex flex-col gap-0.5">
+                        {row.errors.map((issue, index) => (
+                          <li key={index} className="flex items-start gap-1">
+                            <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                            <span>{describeIssue(issue)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {(errorsOnly ? invalidCount : rows.length) > PREVIEW_ROW_LIMIT && <p className="text-muted-foreground pt-2 text-xs">{t('usersImport.previewLimited', { count: PREVIEW_ROW_LIMIT })}</p>}
+      </CardContent>
+    </Card>
+  )
+}
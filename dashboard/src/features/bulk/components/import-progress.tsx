@@ -0,0 +1,102 @@
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { getUsersImportJobCounts, type UsersImportJob } from '@/utils/usersImport'
+import { Download, LoaderCircle, Pause, Play, RotateCcw, Trash2, Upload } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+interface ImportProgressProps {
+  job: UsersImportJob
+  isRunning: boolean
+  onPause: () => void
+  onResume: () => void
+  onRetryFailed: () => void
+  onDownloadFailures: () => void
+  onDiscard: () => void
+}
+
+export function ImportProgress({ job, isRunning, onPause, onResume, onRetryFailed, onDownloadFailures, onDiscard }: ImportProgressProps) {
+  const { t } = useTranslation()
+  const counts = getUsersImportJobCounts(job)
+  const processed = counts.created + counts.failed
+  const percent = counts.total > 0 ? Math.round((processed / counts.total) * 100) : 0
+  const failedRows = job.rows.filter(row => row.status === 'failed')
+  const retryableCount = failedRows.filter(row => row.payload).length
+  const isFinished = counts.pending === 0
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          {isRunning ? <LoaderCircle className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          {t(isFinished ? 'usersImport.finishedTitle' : isRunning ? 'usersImport.runningTitle' : 'usersImport.pausedTitle')}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm" dir="ltr">
+          {job.fileName}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <div className="flex flex-col gap-1.5">
+          <Progress value={percent} className="h-2" />
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-muted-foreground">{t('usersImport.processed', { processed, total: counts.total })}</span>
+            <Badge variant="outline" className="border-green-500/40 text-green-600 dark:text-green-400">
+              {t('usersImport.createdCount', { count: counts.created })}
+            </Badge>
+            {counts.failed > 0 && <Badge variant="destructive">{t('usersImport.failedCount', { count: counts.failed })}</Badge>}
+            {counts.pending > 0 && <Badge variant="secondary">{t('usersImport.pendingCount', { count: counts.pending })}</Badge>}
+          </div>
+          <span className="text-muted-foreground text-[11px]">{t('usersImport.batchInfo', { size: job.batchSize, delay: job.delayMs / 1000 })}</span>
+        </div>
+
+        {failedRows.length > 0 && (
+          <div className="max-h-48 overflow-y-auto rounded-md border p-2">
+            <ul className="flex flex-col gap-1 text-xs">
+              {failedRows.map(row => (
+                <li key={row.index} className="flex gap-2">
+                  <span className="text-muted-foreground shrink-0 tabular-nums">#{row.index}</span>
+                  <span className="shrink-0 font-medium" dir="ltr">
+                    {row.username || '—'}
+                  </span>
+                  <span className="text-destructive min-w-0 break-words">{row.error}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {!isFinished &&
+            (isRunning ? (
+              <Button variant="outline" size="sm" onClick={onPause}>
+                <Pause className="h-4 w-4" />
+                {t('usersImport.pause')}
+              </Button>
+            ) : (
+              <Button size="sm" onClick={onResume}>
+                <Play className="h-4 w-4" />
+                {t('usersImport.resume')}
+              </Button>
+            ))}
+          {isFinished && retryableCount > 0 && (
+            <Button variant="outline" size="sm" onClick={onRetryFailed}>
+              <RotateCcw className="h-4 w-4" />
+              {t('usersImport.retryFailed', { count: retryableCount })}
+            </Button>
+          )}
+          {failedRows.length > 0 && (
+            <Button variant="outline" size="sm" onClick={onDownloadFailures} disabled={isRunning}>
+              <Download className="h-4 w-4" />
+              {t('usersImport.downloadFailures')}
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onDiscard} disabled={isRunning}>
+            <Trash2 className="h-4 w-4" />
+            {t(isFinished ? 'usersImport.startNew' : 'usersImport.discard')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
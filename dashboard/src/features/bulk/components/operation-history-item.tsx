@@ -0,0 +1,133 @@
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
+import { formatDateByLocale } from '@/utils/datePickerUtils'
+import { formatBytes } from '@/utils/formatByte'
+import { formatDuration } from '@/utils/formatDuration'
+import { getBulkOperationUndoBlocker, type BulkOperationKind, type BulkOperationRecord } from '@/utils/bulkOperationHistory'
+import { ArrowUpDown, Calendar, ChevronDown, Group, Link2Off, Lock, LoaderCircle, Power, PowerOff, RefreshCcw, Trash2, Undo2, UserCog, type LucideIcon } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+const KIND_ICONS: Record<BulkOperationKind, LucideIcon> = {
+  expire: Calendar,
+  data_limit: ArrowUpDown,
+  proxy_settings: Lock,
+  groups_add: Group,
+  groups_remove: Group,
+  set_owner: UserCog,
+  delete: Trash2,
+  disable: PowerOff,
+  enable: Power,
+  reset_usage: RefreshCcw,
+  revoke_subscription: Link2Off,
+}
+
+/** Affected usernames listed inline before the rest is summarised as a count. */
+const MAX_LISTED_USERS = 100
+
+interface OperationHistoryItemProps {
+  record: BulkOperationRecord
+  groupNames: Map<number, string>
+  isUndoing: boolean
+  onUndo: (record: BulkOperationRecord) => void
+}
+
+export function OperationHistoryItem({ record, groupNames, isUndoing, onUndo }: OperationHistoryItemProps) {
+  const { t, i18n } = useTranslation()
+  const Icon = KIND_ICONS[record.kind] ?? Undo2
+  const blocker = getBulkOperationUndoBlocker(record)
+  const details = record.details
+  const amount = details?.amount
+
+  const detailParts: string[] = []
+  if (amount !== undefined && record.kind === 'expire') detailParts.push(`${amount < 0 ? '-' : '+'}${formatDuration(Math.abs(amount), t)}`)
+  if (amount !== undefined && record.kind === 'data_limit') detailParts.push(`${amount < 0 ? '-' : '+'}${formatBytes(Math.abs(amount))}`)
+  if (details?.method) detailParts.push(details.method)
+  if (details?.groupIds?.length) detailParts.push(details.groupIds.map(id => groupNames.get(id) ?? `#${id}`).join(', '))
+  if (details?.owner) detailParts.push(t('bulkHistory.toOwner', { owner: details.owner }))
+
+  const usernames = record.snapshots?.map(snapshot => snapshot.username) ?? []
+
+  return (
+    <div className="flex flex-col gap-2 rounded-lg border p-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="flex min-w-0 items-start gap-2.5">
+          <div className="bg-muted flex h-8 w-8 shrink-0 items-center justify-center rounded-md">
+            <Icon className="h-4 w-4" />
+          </div>
+          <div className="flex min-w-0 flex-col gap-0.5">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">{t(`bulkHistory.kinds.${record.kind}`)}</span>
+              <Badge variant="secondary" className="text-xs">
+                {t('bulkHistory.affectedUsers', { count: record.affected })}
+              </Badge>
+              {record.undo && (
+                <Badge variant="outline" className={record.undo.failed > 0 ? 'border-amber-500/40 text-amber-600 dark:text-amber-400' : 'border-green-500/40 text-green-600 dark:text-green-400'}>
+                  {record.undo.failed > 0 ? t('bulkHistory.partiallyUndone', { restored: record.undo.restored, failed: record.undo.failed }) : t('bulkHistory.undone')}
+                </Badge>
+              )}
+            </div>
+            {detailParts.length > 0 && (
+              <span className="text-muted-foreground truncate text-xs" dir="ltr">
+                {detailParts.join(' · ')}
+              </span>
+            )}
+            <span className="text-muted-foreground text-xs">
+              {t('bulkHistory.performedBy', { admin: record.admin, date: formatDateByLocale(new Date(record.createdAt), i18n.language === 'fa', true) })}
+            </span>
+          </div>
+        </div>
+        {blocker === 'alreadyUndone' ? null : blocker ? (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span>
+                <Button variant="outline" size="sm" disabled>
+                  <Undo2 className="h-4 w-4" />
+                  {t('bulkHistory.undo')}
+                </Button>
+              </span>
+            </TooltipTrigger>
+            <TooltipContent>{t(`bulkHistory.blockers.${blocker}`)}</TooltipContent>
+          </Tooltip>
+        ) : (
+          <Button variant="outline" size="sm" onClick={() => onUndo(record)} disabled={isUndoing}>
+            {isUndoing ? <LoaderCircle className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+            {t('bulkHistory.undo')}
+          </Button>
+        )}
+      </div>
+
+      {(usernames.length > 0 || (record.undo?.errors.length ?? 0) > 0) && (
+        <Collapsible>
+          <CollapsibleTrigger className="text-muted-foreground hover:text-foreground flex items-center gap-1 text-xs [&[data-state=open]>svg]:rotate-180">
+            <ChevronDown className="h-3.5 w-3.5 transition-transform" />
+            {t('bulkHistory.showDetails')}
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-2 flex flex-col gap-2">
+            {usernames.length > 0 && (
+              <div className="bg-muted/40 max-h-32 overflow-y-auto rounded-md p-2 text-xs break-words" dir="ltr">
+                {usernames.slice(0, MAX_LISTED_USERS).join(', ')}
+                {usernames.length > MAX_LISTED_USERS && <span className="text-muted-foreground"> {t('bulkHistory.andMore', { count: usernames.length - MAX_LISTED_USERS })}</span>}
+              </div>
+            )}
+            {record.undo && record.undo.errors.length > 0 && (
+              <ul className="flex max-h-32 flex-col gap-1 overflow-y-auto rounded-md border p-2 text-xs">
+                {record.undo.errors.map((error, index) => (
+                  <li key={index} className="flex gap-2">
+                    {error.target && (
+                      <span className="shrink-0 font-medium" dir="ltr">
+                        {error.target}
+                      </span>
+                    )}
+                    <span className="text-destructive min-w-0 break-words">{t(error.message)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import { useAdmin } from '@/hooks/use-admin'
+import {
+  addBulkOperationRecord,
+  clearBulkOperationHistory,
+  fetchBulkTargetSnapshots,
+  getBulkOperationHistory,
+  getBulkOperationUndoBlocker,
+  isAffectedByBulkOperation,
+  subscribeBulkOperationHistory,
+  undoBulkOperation,
+  updateBulkOperationRecord,
+  type BulkOperationDetails,
+  type BulkOperationKind,
+  type BulkOperationRecord,
+  type BulkTargetFilter,
+  type BulkUserSnapshot,
+} from '@/utils/bulkOperationHistory'
+import { invalidateUserMetricsQueries } from '@/utils/usersCache'
+import { useQueryClient } from '@tanstack/react-query'
+import { useCallback, useSyncExternalStore } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+interface RecordBulkOperationInput {
+  kind: BulkOperationKind
+  snapshots: BulkUserSnapshot[] | null
+  /** Used when no snapshot could be taken. */
+  affected?: number
+  details?: BulkOperationDetails
+}
+
+// Shared across hook instances so a toast action and the history page cannot undo the same operation twice
+const undoingIds = new Set<string>()
+
+export function useBulkOperationHistory() {
+  const { t } = useTranslation()
+  const { admin } = useAdmin()
+  const queryClient = useQueryClient()
+  const username = admin?.username
+
+  const getSnapshot = useCallback(() => getBulkOperationHistory(username), [username])
+  const records = useSyncExternalStore(subscribeBulkOperationHistory, getSnapshot, getSnapshot)
+
+  /** Never throws: a failed snapshot only means the operation cannot be undone later. */
+  const captureTargets = useCallback(async (filter: BulkTargetFilter) => {
+    try {
+      return await fetchBulkTargetSnapshots(filter)
+    } catch {
+      return { total: 0, snapshots: null }
+    }
+  }, [])
+
+  const recordOperation = useCallback(
+    ({ kind, snapshots, affected, details }: RecordBulkOperationInput) => {
+      if (!username) return null
+      const affectedSnapshots = snapshots?.filter(snapshot => isAffectedByBulkOperation(kind, snapshot, details)) ?? null
+      return addBulkOperationRecord(username, { kind, details, snapshots: affectedSnapshots, affected: affectedSnapshots?.length ?? affected ?? 0 })
+    },
+    [username],
+  )
+
+  const undoOperation = useCallback(
+    async (id: string) => {
+      const record = getBulkOperationHistory(username).find(item => item.id === id)
+      if (!username || !record || getBulkOperationUndoBlocker(record) || undoingIds.has(id)) return null
+
+      undoingIds.add(id)
+      const toastId = toast.loading(t('bulkHistory.undoing', { count: record.affected }))
+      try {
+        const result = await undoBulkOperation(record)
+        updateBulkOperationRecord(username, id, { undo: result })
+        queryClient.invalidateQueries({ queryKey: ['/api/users'] })
+        invalidateUserMetricsQueries(queryClient)
+        if (result.failed > 0) {
+          toast.warning(t('bulkHistory.undoPartial', { restored: result.restored, failed: result.failed }), { id: toastId })
+        } else {
+          toast.success(t('bulkHistory.undoSuccess', { count: result.restored }), { id: toastId })
+        }
+        return result
+      } catch (error: unknown) {
+        toast.error(t('bulkHistory.undoFailed'), { id: toastId, description: error instanceof Error ? error.message : undefined })
+        return null
+      } finally {
+        undoingIds.delete(id)
+      }
+    },
+    [queryClient, t, username],
+  )
+
+  /** Sonner action for the success toast of a bulk operation, when the operation can be reverted. */
+  const getUndoAction = useCallback(
+    (record: BulkOperationRecord | null) =>
+      record && !getBulkOperationUndoBlocker(record)
+        ? {
+            label: t('bulkHistory.undo'),
+            onClick: () => void undoOperation(record.id),
+          }
+        : undefined,
+    [t, undoOperation],
+  )
+
+  const clearHistory = useCallback(() => {
+    if (username) clearBulkOperationHistory(username)
+  }, [username])
+
+  return { records, captureTargets, recordOperation, undoOperation, getUndoAction, clearHistory }
+}
@@ -24,21 +24,24 @@ interface ConfigDiffPanelProps {
   before: JsonValue
   after: JsonValue
   className?: string
+  /** Monaco language id; anything other than `json` diffs string values verbatim (e.g. YAML templates). */
+  language?: string
+  title?: string
 }
 
 /**
  * Read-only JSON diff in a single Monaco surface (inline hunks, not side‑by‑side).
  * Fullscreen uses a `document.body` portal (same rationale as `CodeEditorPanel`).
  */
-export function ConfigDiffPanel({ before, after, className }: ConfigDiffPanelProps) {
+export function ConfigDiffPanel({ before, after, className, language = 'json', title: titleProp }: ConfigDiffPanelProps) {
   const { t } = useTranslation()
   const { resolvedTheme } = useTheme()
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [isDiffReady, setIsDiffReady] = useState(false)
   const diffEditorRef = useRef<{ layout?: () => void } | null>(null)
 
-  const original = useMemo(() => stableStringify(before), [before])
-  const modified = useMemo(() => stableStringify(after), [after])
+  const original = useMemo(() => (language !== 'json' && typeof before === 'string' ? before : stableStringify(before)), [before, language])
+  const modified = useMemo(() => (language !== 'json' && typeof after === 'string' ? after : stableStringify(after)), [after, language])
 
   const handleToggleFullscreen = useCallback(() => {
     diffEditorRef.current = null
@@ -87,7 +90,7 @@ export function ConfigDiffPanel({ before, after, className }: ConfigDiffPanelPro
     [],
   )
 
-  const title = t('coreEditor.advanced.diffFullscreenTitle', { defaultValue: 'Diff vs last saved' })
+  const title = titleProp ?? t('coreEditor.advanced.diffFullscreenTitle', { defaultValue: 'Diff vs last saved' })
 
   if (original === modified) {
     return <p className="text-muted-foreground text-sm">{t('coreEditor.advanced.noDiffChanges', { defaultValue: 'No changes.' })}</p>
@@ -101,7 +104,7 @@ export function ConfigDiffPanel({ before, after, className }: ConfigDiffPanelPro
 
   const renderDiffEditor = () => (
     <Suspense fallback={fallback}>
-      <MonacoDiffEditor height="100%" language="json" original={original} modified={modified} theme={theme} onMount={handleDiffMount} options={diffOptions as any} />
+      <MonacoDiffEditor height="100%" language={language} original={original} modified={modified} theme={theme} onMount={handleDiffMount} options={diffOptions as any} />
     </Suspense>
   )
 
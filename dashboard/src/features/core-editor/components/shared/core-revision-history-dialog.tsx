@@ -0,0 +1,353 @@
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { LoaderButton } from '@/components/ui/loader-button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ConfigDiffPanel } from '@/features/core-editor/components/shared/config-diff-panel'
+import { CoreEditorFormDialog } from '@/features/core-editor/components/shared/core-editor-form-dialog'
+import { selectCoreEditorHasActualChanges } from '@/features/core-editor/kit/core-editor-change-state'
+import { useCoreEditorStore } from '@/features/core-editor/state/core-editor-store'
+import dayjs from '@/lib/dayjs'
+import { cn } from '@/lib/utils'
+import { getGetCoreRevisionQueryOptions, getGetCoreRevisionsQueryKey, useAnnotateCoreRevision, useGetCoreRevision, useGetCoreRevisions, type CoreRevisionSummary } from '@/service/api'
+import { dateUtils } from '@/utils/dateFormatter'
+import { queryClient } from '@/utils/query-client'
+import type { JsonValue } from '@pasarguard/xray-config-kit'
+import { GitCompare, History, Pencil, RotateCcw } from 'lucide-react'
+import { FormEvent, useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+const DRAFT = 'draft'
+
+type CompareTarget = number | typeof DRAFT
+
+function formatSavedAt(iso: string) {
+  const d = dayjs(iso)
+  if (!d.isValid()) return iso
+  return `${d.fromNow()} (${dateUtils.formatDate(d.unix())})`
+}
+
+function RevisionNote({ coreId, revision }: { coreId: number; revision: CoreRevisionSummary }) {
+  const { t } = useTranslation()
+  const [editing, setEditing] = useState(false)
+  const [value, setValue] = useState(revision.note ?? '')
+  const annotateMutation = useAnnotateCoreRevision()
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    try {
+      await annotateMutation.mutateAsync({ coreId, revisionId: revision.id, data: { note: value.trim() || null } })
+      queryClient.invalidateQueries({ queryKey: getGetCoreRevisionsQueryKey(coreId) })
+      setEditing(false)
+    } catch (error) {
+      toast.error(t('coreEditor.revisions.noteFailed', { defaultValue: 'Could not save the note' }), {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
+  if (editing) {
+    return (
+      <form className="flex items-center gap-2" onSubmit={handleSubmit}>
+        <Input
+          value={value}
+          onChange={e => setValue(e.target.value)}
+          maxLength={512}
+          autoFocus
+          className="h-8 text-sm"
+          placeholder={t('coreEditor.revisions.notePlaceholder', { defaultValue: 'What changed and why' })}
+        />
+        <LoaderButton type="submit" size="sm" className="h-8" isLoading={annotateMutation.isPending} disabled={annotateMutation.isPending}>
+          {t('save', { defaultValue: 'Save' })}
+        </LoaderButton>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8"
+          onClick={() => {
+            setValue(revision.note ?? '')
+            setEditing(false)
+          }}
+        >
+          {t('cancel', { defaultValue: 'Cancel' })}
+        </Button>
+      </form>
+    )
+  }
+
+  return (
+    <div className="flex min-w-0 items-start gap-1">
+      <p className={cn('min-w-0 text-sm break-words', !revision.note && 'text-muted-foreground italic')}>{revision.note || t('coreEditor.revisions.noNote', { defaultValue: 'No note' })}</p>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 shrink-0"
+        onClick={() => {
+          setValue(revision.note ?? '')
+          setEditing(true)
+        }}
+        aria-label={t('coreEditor.revisions.editNote', { defaultValue: 'Edit note' })}
+      >
+        <Pencil className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  )
+}
+
+interface CoreRevisionHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  coreId: number
+}
+
+/** Timeline of saved revisions for one core, with a diff between any two and restore into the draft. */
+export function CoreRevisionHistoryDialog({ open, onOpenChange, coreId }: CoreRevisionHistoryDialogProps) {
+  const { t } = useTranslation()
+  const monacoJson = useCoreEditorStore(s => s.monacoJson)
+  const hasActualChanges = useCoreEditorStore(selectCoreEditorHasActualChanges)
+  const restoreRevision = useCoreEditorStore(s => s.restoreRevision)
+  const setSaveNote = useCoreEditorStore(s => s.setSaveNote)
+
+  const { data, isLoading } = useGetCoreRevisions(coreId, undefined, { query: { enabled: open && coreId > 0 } })
+  const revisions = useMemo(() => data?.revisions ?? [], [data])
+
+  const [from, setFrom] = useState<number | null>(null)
+  const [to, setTo] = useState<CompareTarget | null>(null)
+  const [pendingRestore, setPendingRestore] = useState<CoreRevisionSummary | null>(null)
+  const [restoringId, setRestoringId] = useState<number | null>(null)
+
+  // Default to what the last save changed once the timeline is loaded
+  useEffect(() => {
+    if (!open || revisions.length === 0) return
+    setFrom(prev => (prev !== null && revisions.some(r => r.id === prev) ? prev : (revisions[1] ?? revisions[0]).id))
+    setTo(prev => (prev === DRAFT || (prev !== null && revisions.some(r => r.id === prev)) ? prev : revisions[0].id))
+  }, [open, revisions])
+
+  const fromQuery = useGetCoreRevision(coreId, from ?? 0, { query: { enabled: open && from !== null } })
+  const toQuery = useGetCoreRevision(coreId, typeof to === 'number' ? to : 0, { query: { enabled: open && typeof to === 'number' } })
+
+  const draftConfig = useMemo<JsonValue>(() => {
+    try {
+      return JSON.parse(monacoJson) as JsonValue
+    } catch {
+      return {} as JsonValue
+    }
+  }, [monacoJson])
+
+  const revisionNumber = (id: number) => {
+    const index = revisions.findIndex(r => r.id === id)
+    return index === -1 ? '?' : String(revisions.length - index)
+  }
+
+  const revisionLabel = (revision: CoreRevisionSummary) =>
+    t('coreEditor.revisions.optionLabel', {
+      number: revisionNumber(revision.id),
+      time: dayjs(revision.created_at).fromNow(),
+      defaultValue: '#{{number}} · {{time}}',
+    })
+
+  const restore = async (revision: CoreRevisionSummary) => {
+    setPendingRestore(null)
+    setRestoringId(revision.id)
+    try {
+      const full = await queryClient.fetchQuery(getGetCoreRevisionQueryOptions(coreId, revision.id))
+      const result = restoreRevision(full)
+      if (!result.ok) {
+        toast.error(t('coreEditor.revisions.restoreFailed', { defaultValue: 'This revision could not be loaded into the editor' }), { description: result.error })
+        return
+      }
+      setSaveNote(t('coreEditor.revisions.restoreNote', { number: revisionNumber(revision.id), defaultValue: 'Restore revision #{{number}}' }))
+      toast.success(
+        t('coreEditor.revisions.restored', {
+          number: revisionNumber(revision.id),
+          defaultValue: 'Revision #{{number}} loaded as a draft. Review and save to apply it.',
+        }),
+      )
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(t('coreEditor.revisions.restoreFailed', { defaultValue: 'This revision could not be loaded into the editor' }), {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const requestRestore = (revision: CoreRevisionSummary) => {
+    if (hasActualChanges) setPendingRestore(revision)
+    else void restore(revision)
+  }
+
+  const showChanges = (index: number) => {
+    setFrom((revisions[index + 1] ?? revisions[index]).id)
+    setTo(revisions[index].id)
+  }
+
+  const before = fromQuery.data?.config as JsonValue | undefined
+  const after = to === DRAFT ? draftConfig : (toQuery.data?.config as JsonValue | undefined)
+  const diffTitle = t('coreEditor.revisions.diffTitle', {
+    from: from !== null ? `#${revisionNumber(from)}` : '',
+    to: to === DRAFT ? t('coreEditor.revisions.currentDraft', { defaultValue: 'Current draft' }) : to !== null ? `#${revisionNumber(to)}` : '',
+    defaultValue: '{{from}} → {{to}}',
+  })
+
+  return (
+    <>
+      <CoreEditorFormDialog
+        isDialogOpen={open}
+        onOpenChange={onOpenChange}
+        title={t('coreEditor.revisions.title', { defaultValue: 'Revision history' })}
+        leadingIcon={<History className="h-5 w-5 shrink-0" />}
+        size="xl"
+        inlinePersistValidation={false}
+      >
+        <div className="space-y-4">
+          <p className="text-muted-foreground text-sm">
+            {t('coreEditor.revisions.description', {
+              defaultValue: 'Every save of this core is kept here. Compare any two revisions, or restore one into the editor as a new draft.',
+            })}
+          </p>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-muted-foreground text-sm">{t('coreEditor.revisions.empty', { defaultValue: 'No revisions recorded yet.' })}</p>
+          ) : (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <span className="text-muted-foreground text-xs">{t('coreEditor.revisions.compareFrom', { defaultValue: 'Compare from' })}</span>
+                  <Select value={from !== null ? String(from) : undefined} onValueChange={v => setFrom(Number(v))}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions.map(revision => (
+                        <SelectItem key={revision.id} value={String(revision.id)}>
+                          {revisionLabel(revision)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-muted-foreground text-xs">{t('coreEditor.revisions.compareTo', { defaultValue: 'To' })}</span>
+                  <Select value={to !== null ? String(to) : undefined} onValueChange={v => setTo(v === DRAFT ? DRAFT : Number(v))}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DRAFT}>{t('coreEditor.revisions.currentDraft', { defaultValue: 'Current draft' })}</SelectItem>
+                      {revisions.map(revision => (
+                        <SelectItem key={revision.id} value={String(revision.id)}>
+                          {revisionLabel(revision)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {before === undefined || after === undefined ? <Skeleton className="h-40 w-full" /> : <ConfigDiffPanel before={before} after={after} title={diffTitle} />}
+
+              <ol className="space-y-2">
+                {revisions.map((revision, index) => {
+                  const restarted = revision.restarted_nodes ?? []
+                  return (
+                    <li key={revision.id} className={cn('space-y-2 rounded-md border p-3', (revision.id === from || revision.id === to) && 'border-primary/50')}>
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex min-w-0 flex-wrap items-center gap-2 text-sm">
+                          <span className="font-medium">#{revisionNumber(revision.id)}</span>
+                          {index === 0 && (
+                            <Badge variant="secondary" className="font-normal">
+                              {t('coreEditor.revisions.latest', { defaultValue: 'Latest' })}
+                            </Badge>
+                          )}
+                          <span className="text-muted-foreground">{formatSavedAt(revision.created_at)}</span>
+                          <span className="text-muted-foreground">
+                            {revision.admin_username
+                              ? t('coreEditor.revisions.savedBy', { admin: revision.admin_username, defaultValue: 'by {{admin}}' })
+                              : t('coreEditor.revisions.savedBySystem', { defaultValue: 'recorded automatically' })}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button type="button" variant="ghost" size="sm" className="h-8" onClick={() => showChanges(index)}>
+                            <GitCompare className="h-4 w-4" />
+                            {t('coreEditor.revisions.showChanges', { defaultValue: 'Changes' })}
+                          </Button>
+                          <LoaderButton
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            isLoading={restoringId === revision.id}
+                            disabled={restoringId !== null}
+                            onClick={() => requestRestore(revision)}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                            {t('coreEditor.revisions.restore', { defaultValue: 'Restore' })}
+                          </LoaderButton>
+                        </div>
+                      </div>
+                      <RevisionNote coreId={coreId} revision={revision} />
+                      <div className="flex flex-wrap items-center gap-1 text-xs">
+                        {restarted.length > 0 ? (
+                          <>
+                            <span className="text-muted-foreground">{t('coreEditor.revisions.restartedNodes', { defaultValue: 'Restarted nodes:' })}</span>
+                            {restarted.map(node => (
+                              <Badge key={node} variant="outline" className="font-normal">
+                                {node}
+                              </Badge>
+                            ))}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">{t('coreEditor.revisions.noRestart', { defaultValue: 'No nodes restarted' })}</span>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ol>
+            </>
+          )}
+        </div>
+      </CoreEditorFormDialog>
+      <AlertDialog open={pendingRestore !== null} onOpenChange={next => !next && setPendingRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('coreEditor.revisions.restoreTitle', { defaultValue: 'Replace unsaved changes?' })}</AlertDialogTitle>
+            <AlertDialogDescription>{t('coreEditor.revisions.restoreDesc', { defaultValue: 'Restoring a revision replaces the edits you have not saved yet.' })}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('cancel', { defaultValue: 'Cancel' })}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingRestore && void restore(pendingRestore)}>{t('coreEditor.revisions.restore', { defaultValue: 'Restore' })}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
+
+/** Header button opening the {@link CoreRevisionHistoryDialog}. */
+export function CoreRevisionHistoryButton({ coreId, className }: { coreId: number; className?: string }) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <Button type="button" variant="outline" className={cn('h-10', className)} onClick={() => setOpen(true)}>
+        <History className="h-4 w-4" />
+        <span className="hidden sm:inline">{t('coreEditor.revisions.open', { defaultValue: 'History' })}</span>
+      </Button>
+      <CoreRevisionHistoryDialog open={open} onOpenChange={setOpen} coreId={coreId} />
+    </>
+  )
+}
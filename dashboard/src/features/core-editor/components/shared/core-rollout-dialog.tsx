@@ -0,0 +1,361 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LoaderButton } from '@/components/ui/loader-button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { CoreEditorFormDialog } from '@/features/core-editor/components/shared/core-editor-form-dialog'
+import { useCoreRollout, type CoreRolloutNodeView, type CoreRolloutOutcome, type CoreRolloutPhase } from '@/features/core-editor/hooks/use-core-rollout'
+import { DEFAULT_CORE_ROLLOUT_SETTINGS, planRolloutWaves, type CoreRolloutSettings, type RolloutProblem } from '@/features/core-editor/kit/core-rollout'
+import { cn } from '@/lib/utils'
+import { useGetNodes, type CoreCreate, type NodeStatus } from '@/service/api'
+import { Rocket } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const RUNNING_PHASES: CoreRolloutPhase[] = ['applying', 'watching', 'awaiting-promotion', 'promoting', 'rolling-back']
+
+function statusDotColor(status: NodeStatus) {
+  switch (status) {
+    case 'connected':
+      return 'bg-green-500'
+    case 'connecting':
+      return 'bg-amber-500'
+    case 'error':
+      return 'bg-destructive'
+    default:
+      return 'bg-gray-400 dark:bg-gray-600'
+  }
+}
+
+function NodeStatusLabel({ status }: { status: NodeStatus }) {
+  const { t } = useTranslation()
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      <span className={cn('h-2 w-2 shrink-0 rounded-full', statusDotColor(status))} />
+      {t(`nodeModal.status.${status}`, { defaultValue: status })}
+    </span>
+  )
+}
+
+function SettingField({ id, label, value, min, max, onChange }: { id: string; label: string; value: number; min: number; max: number; onChange: (value: number) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-muted-foreground text-xs font-normal">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        inputMode="numeric"
+        min={min}
+        max={max}
+        value={value}
+        onChange={e => {
+          const next = Number(e.target.value)
+          if (Number.isFinite(next)) onChange(Math.min(max, Math.max(min, Math.round(next))))
+        }}
+        className="h-9"
+      />
+    </div>
+  )
+}
+
+interface CoreRolloutDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  rollout: ReturnType<typeof useCoreRollout>
+  coreId: number
+  /** Why the draft cannot be rolled out right now, e.g. unsaved validation errors. */
+  blockedReason: string | null
+}
+
+function CoreRolloutDialog({ open, onOpenChange, rollout, coreId, blockedReason }: CoreRolloutDialogProps) {
+  const { t } = useTranslation()
+  const { state, start, promote, rollBack, reset } = rollout
+  const [canaryIds, setCanaryIds] = useState<number[] | null>(null)
+  const [settings, setSettings] = useState<CoreRolloutSettings>(DEFAULT_CORE_ROLLOUT_SETTINGS)
+  const { data, isLoading } = useGetNodes({ core_id: coreId }, { query: { enabled: open && state.phase === 'idle' } })
+
+  const eligibleNodes = useMemo(() => (data?.nodes ?? []).filter(node => node.status !== 'disabled' && node.status !== 'limited'), [data])
+  const selectedCanaries =
+    canaryIds ??
+    eligibleNodes
+      .filter(node => node.status === 'connected')
+      .slice(0, 1)
+      .map(node => node.id)
+  const plannedWaves = planRolloutWaves(
+    eligibleNodes.map(node => node.id).filter(id => !selectedCanaries.includes(id)),
+    settings.waveSize,
+  )
+
+  const toggleCanary = (nodeId: number, checked: boolean) => {
+    setCanaryIds(checked ? [...selectedCanaries, nodeId] : selectedCanaries.filter(id => id !== nodeId))
+  }
+
+  const nodeName = (nodeId: number) => state.nodes[nodeId]?.name ?? `#${nodeId}`
+
+  const stageLabel = (node: CoreRolloutNodeView) => {
+    if (state.canaryIds.includes(node.id)) return t('coreEditor.rollout.canary', { defaultValue: 'Canary' })
+    const wave = state.waves.findIndex(ids => ids.includes(node.id))
+    return t('coreEditor.rollout.waveN', { n: wave + 1, defaultValue: 'Wave {{n}}' })
+  }
+
+  const problemMessage = (problem: RolloutProblem) => {
+    const node = nodeName(problem.nodeId)
+    switch (problem.kind) {
+      case 'failed':
+        return t('coreEditor.rollout.problem.failed', { node, message: problem.message, defaultValue: '{{node}} failed to start the core: {{message}}' })
+      case 'notConnected':
+        return t('coreEditor.rollout.problem.notConnected', { node, status: problem.status, defaultValue: '{{node}} was still {{status}} when the watch window ended' })
+      case 'errors':
+        return t('coreEditor.rollout.problem.errors', { node, count: problem.perMinute, defaultValue: '{{node}} logged {{count}} errors per minute' })
+      case 'users':
+        return t('coreEditor.rollout.problem.users', {
+          node,
+          users: problem.users,
+          baseline: problem.baseline,
+          defaultValue: '{{node}} served {{users}} users against a median of {{baseline}} on nodes still on the saved config',
+        })
+    }
+  }
+
+  const phaseLabel = () => {
+    switch (state.phase) {
+      case 'applying':
+        return t('coreEditor.rollout.phase.applying', { defaultValue: 'Starting the canaries on the new config…' })
+      case 'watching':
+        return state.wave < 0
+          ? t('coreEditor.rollout.phase.watchingCanary', { seconds: state.remainingSeconds, defaultValue: 'Watching canaries, {{seconds}}s left' })
+          : t('coreEditor.rollout.phase.watchingWave', {
+              n: state.wave + 1,
+              total: state.waves.length,
+              seconds: state.remainingSeconds,
+              defaultValue: 'Watching wave {{n}} of {{total}}, {{seconds}}s left',
+            })
+      case 'awaiting-promotion':
+        return t('coreEditor.rollout.phase.awaitingPromotion', { defaultValue: 'Canaries are healthy. Promote to save the config and update the remaining nodes.' })
+      case 'promoting':
+        return t('coreEditor.rollout.phase.promoting', { defaultValue: 'Saving the config and updating the next wave…' })
+      case 'completed':
+        return t('coreEditor.rollout.phase.completed', { defaultValue: 'Rollout complete. Every node runs the new config.' })
+      case 'rolling-back':
+        return t('coreEditor.rollout.phase.rollingBack', { defaultValue: 'Rolling back to the saved config…' })
+      case 'rolled-back':
+        return t('coreEditor.rollout.phase.rolledBack', { defaultValue: 'Rolled back. Updated nodes were reconnected on the saved config.' })
+      default:
+        return ''
+    }
+  }
+
+  const running = RUNNING_PHASES.includes(state.phase)
+  const footer =
+    state.phase === 'idle' ? (
+      <Button type="button" disabled={!!blockedReason || selectedCanaries.length === 0} onClick={() => start(selectedCanaries, eligibleNodes, settings)}>
+        {t('coreEditor.rollout.start', { defaultValue: 'Start canary' })}
+      </Button>
+    ) : state.phase === 'completed' || state.phase === 'rolled-back' ? (
+      <Button type="button" onClick={reset}>
+        {t('coreEditor.rollout.newRollout', { defaultValue: 'New rollout' })}
+      </Button>
+    ) : (
+      <>
+        <LoaderButton type="button" variant="destructive" isLoading={state.phase === 'rolling-back'} disabled={state.phase === 'rolling-back'} onClick={rollBack}>
+          {t('coreEditor.rollout.rollBack', { defaultValue: 'Roll back' })}
+        </LoaderButton>
+        {state.phase === 'awaiting-promotion' && (
+          <Button type="button" onClick={promote}>
+            {t('coreEditor.rollout.promote', { defaultValue: 'Promote' })}
+          </Button>
+        )}
+      </>
+    )
+
+  return (
+    <CoreEditorFormDialog
+      isDialogOpen={open}
+      onOpenChange={onOpenChange}
+      title={t('coreEditor.rollout.title', { defaultValue: 'Staged rollout' })}
+      leadingIcon={<Rocket className="h-5 w-5 shrink-0" />}
+      size="lg"
+      inlinePersistValidation={false}
+      footerExtra={footer}
+    >
+      <div className="space-y-4">
+        <p className="text-muted-foreground text-sm">
+          {t('coreEditor.rollout.description', {
+            defaultValue:
+              'Run the unsaved draft on a few canary nodes first. If they stay healthy for the watch window, promote it to save the config and update the other nodes in waves. A node that fails to start the core, logs too many errors or loses users rolls everything back.',
+          })}
+        </p>
+
+        {state.phase === 'idle' ? (
+          <>
+            {blockedReason && (
+              <Alert variant="destructive">
+                <AlertDescription>{blockedReason}</AlertDescription>
+              </Alert>
+            )}
+            <div className="space-y-2">
+              <span className="text-sm font-medium">{t('coreEditor.rollout.canaries', { defaultValue: 'Canary nodes' })}</span>
+              {isLoading ? (
+                <Skeleton className="h-20 w-full" />
+              ) : eligibleNodes.length === 0 ? (
+                <p className="text-muted-foreground text-sm">{t('coreEditor.rollout.noNodes', { defaultValue: 'No enabled nodes use this core.' })}</p>
+              ) : (
+                <ul className="divide-y rounded-md border">
+                  {eligibleNodes.map(node => (
+                    <li key={node.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <Checkbox id={`rollout-canary-${node.id}`} checked={selectedCanaries.includes(node.id)} onCheckedChange={v => toggleCanary(node.id, v === true)} />
+                      <Label htmlFor={`rollout-canary-${node.id}`} className="min-w-0 flex-1 truncate font-normal">
+                        {node.name}
+                      </Label>
+                      <NodeStatusLabel status={node.status} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              <SettingField
+                id="rollout-watch"
+                label={t('coreEditor.rollout.watchSeconds', { defaultValue: 'Watch window (s)' })}
+                value={settings.watchSeconds}
+                min={15}
+                max={3600}
+                onChange={watchSeconds => setSettings(s => ({ ...s, watchSeconds }))}
+              />
+              <SettingField
+                id="rollout-wave"
+                label={t('coreEditor.rollout.waveSize', { defaultValue: 'Nodes per wave' })}
+                value={settings.waveSize}
+                min={1}
+                max={100}
+                onChange={waveSize => setSettings(s => ({ ...s, waveSize }))}
+              />
+              <SettingField
+                id="rollout-errors"
+                label={t('coreEditor.rollout.maxErrors', { defaultValue: 'Max errors / min' })}
+                value={settings.maxErrorsPerMinute}
+                min={0}
+                max={10000}
+                onChange={maxErrorsPerMinute => setSettings(s => ({ ...s, maxErrorsPerMinute }))}
+              />
+              <SettingField
+                id="rollout-users"
+                label={t('coreEditor.rollout.maxUserDrop', { defaultValue: 'Max user drop (%)' })}
+                value={settings.maxUserDropPercent}
+                min={0}
+                max={100}
+                onChange={maxUserDropPercent => setSettings(s => ({ ...s, maxUserDropPercent }))}
+              />
+            </div>
+            {selectedCanaries.length > 0 && (
+              <p className="text-muted-foreground text-xs">
+                {t('coreEditor.rollout.plan', {
+                  canaries: selectedCanaries.length,
+                  waves: plannedWaves.length,
+                  defaultValue: '{{canaries}} canary node(s), then {{waves}} promotion wave(s).',
+                })}
+              </p>
+            )}
+          </>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {running && <span className="h-2 w-2 animate-pulse rounded-full bg-amber-500" aria-hidden />}
+              <span>{phaseLabel()}</span>
+            </div>
+            <div className="overflow-x-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="text-muted-foreground text-xs">
+                  <tr className="border-b">
+                    <th className="px-3 py-2 text-start font-normal">{t('coreEditor.rollout.node', { defaultValue: 'Node' })}</th>
+                    <th className="px-3 py-2 text-start font-normal">{t('coreEditor.rollout.stage', { defaultValue: 'Stage' })}</th>
+                    <th className="px-3 py-2 text-start font-normal">{t('coreEditor.rollout.status', { defaultValue: 'Status' })}</th>
+                    <th className="px-3 py-2 text-end font-normal">{t('coreEditor.rollout.users', { defaultValue: 'Active users' })}</th>
+                    <th className="px-3 py-2 text-end font-normal">{t('coreEditor.rollout.errors', { defaultValue: 'Errors' })}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.values(state.nodes).map(node => (
+                    <tr key={node.id} className="border-b last:border-0">
+                      <td className="px-3 py-2">
+                        <span className="flex items-center gap-2">
+                          <span className="truncate">{node.name}</span>
+                          {node.onCandidate && (
+                            <Badge variant="secondary" className="font-normal">
+                              {t('coreEditor.rollout.onCandidate', { defaultValue: 'New config' })}
+                            </Badge>
+                          )}
+                        </span>
+                      </td>
+                      <td className="text-muted-foreground px-3 py-2">{stageLabel(node)}</td>
+                      <td className="px-3 py-2">
+                        <NodeStatusLabel status={node.status} />
+                      </td>
+                      <td className="px-3 py-2 text-end tabular-nums">{node.users}</td>
+                      <td className="px-3 py-2 text-end tabular-nums">{node.errors}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {state.problems.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTitle>{t('coreEditor.rollout.problemsTitle', { defaultValue: 'Health checks failed' })}</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-inside list-disc text-sm">
+                    {state.problems.map((problem, i) => (
+                      <li key={i}>{problemMessage(problem)}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+            {state.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{state.error}</AlertDescription>
+              </Alert>
+            )}
+            {running && (
+              <p className="text-muted-foreground text-xs">
+                {t('coreEditor.rollout.keepOpen', { defaultValue: 'You can close this dialog; the rollout keeps running as long as the core editor stays open.' })}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </CoreEditorFormDialog>
+  )
+}
+
+interface CoreRolloutButtonProps {
+  coreId: number
+  candidate: CoreCreate | null
+  previous: CoreCreate | null
+  note: string
+  blockedReason: string | null
+  onFinished?: (outcome: CoreRolloutOutcome, rolledOut: CoreCreate) => void
+  className?: string
+}
+
+export function CoreRolloutButton({ coreId, candidate, previous, note, blockedReason, onFinished, className }: CoreRolloutButtonProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const rollout = useCoreRollout({ coreId, candidate, previous, note, onFinished })
+  const running = RUNNING_PHASES.includes(rollout.state.phase)
+
+  return (
+    <>
+      <Button type="button" variant="outline" className={cn('relative h-10', className)} onClick={() => setOpen(true)}>
+        {running && <span className="ring-background absolute -top-1 -right-1 h-2.5 w-2.5 animate-pulse rounded-full bg-amber-500 ring-2" aria-hidden />}
+        <Rocket className="h-4 w-4" />
+        <span className="hidden sm:inline">{t('coreEditor.rollout.open', { defaultValue: 'Rollout' })}</span>
+      </Button>
+      <CoreRolloutDialog open={open} onOpenChange={setOpen} rollout={rollout} coreId={coreId} blockedReason={blockedReason} />
+    </>
+  )
+}
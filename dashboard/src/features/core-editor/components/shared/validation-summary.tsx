@@ -1,12 +1,26 @@
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 import type { CoreKitValidationIssue } from '@pasarguard/core-kit'
 import type { Issue, Profile } from '@pasarguard/xray-config-kit'
 import type { WireGuardValidationIssue } from '@pasarguard/wireguard-config-kit'
 import { useTranslation } from 'react-i18next'
 import { useCoreEditorStore } from '@/features/core-editor/state/core-editor-store'
+import { applyXrayLintFix, type XrayLintFix, type XrayLintRuleId, type XrayLintSeverity } from '@/features/core-editor/kit/xray-lint'
 
-export type ValidationListItem = { source: 'core-kit'; issue: CoreKitValidationIssue } | { source: 'xray'; issue: Issue } | { source: 'wireguard'; issue: WireGuardValidationIssue }
+/** A lint finding with its message and quick-fix label already translated. */
+export interface XrayLintIssue {
+  code: XrayLintRuleId
+  severity: XrayLintSeverity
+  path: string
+  message: string
+  fix?: XrayLintFix
+  fixLabel?: string
+}
+
+export type ValidationListItem =
+  { source: 'core-kit'; issue: CoreKitValidationIssue } | { source: 'xray'; issue: Issue } | { source: 'wireguard'; issue: WireGuardValidationIssue } | { source: 'lint'; issue: XrayLintIssue }
 
 export function validationListItemPath(item: ValidationListItem): string {
   const p = item.issue.path
@@ -39,9 +53,10 @@ function formatXrayProfilePath(path: string, profile: Profile | null | undefined
   return ['/', collection, label, ...parts.slice(3)].join('/').replace('//', '/')
 }
 
-/** Same semantics as the “Validation errors” list (not warnings / info-only). */
+/** Same semantics as the “Validation errors” list (not warnings / info-only). Lint findings are advisory and never block. */
 export function filterValidationListBlockingErrors(items: ValidationListItem[]): ValidationListItem[] {
   return items.filter(i => {
+    if (i.source === 'lint') return false
     if (i.source === 'core-kit') return i.issue.severity !== 'warning' && i.issue.severity !== 'info'
     if (i.source === 'xray') return i.issue.severity !== 'warning' && i.issue.severity !== 'info'
     return true
@@ -54,6 +69,7 @@ export function formatValidationListItemLine(row: ValidationListItem): string {
     const code = row.issue.code ? ` [${row.issue.code}]` : ''
     return `${row.issue.path}: ${row.issue.message}${code}`
   }
+  if (row.source === 'lint') return `${row.issue.path}: ${row.issue.message} [${row.issue.code}]`
   return `${row.issue.path}: ${row.issue.message}`
 }
 
@@ -79,8 +95,64 @@ interface ValidationSummaryProps {
 
 const DISPLAY_LIMIT = 48
 
-/** Lists blocking issues from the Xray config kit (strict compile), core-kit, WireGuard, etc. */
+const LINT_SEVERITY_BADGE = { error: 'red', warning: 'yellow', info: 'blue' } as const
+const LINT_SEVERITY_ORDER: Record<XrayLintSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+/** Lint findings, most severe first, each with its rule ID and a quick fix when one is known. */
+function LintSummary({ items, className }: { items: XrayLintIssue[]; className?: string }) {
+  const { t } = useTranslation()
+  const profile = useCoreEditorStore(s => s.xrayProfile)
+  const updateXrayProfile = useCoreEditorStore(s => s.updateXrayProfile)
+  const sorted = [...items].sort((a, b) => LINT_SEVERITY_ORDER[a.severity] - LINT_SEVERITY_ORDER[b.severity])
+  const displayed = sorted.slice(0, DISPLAY_LIMIT)
+  const rest = sorted.length - displayed.length
+
+  return (
+    <Alert className={cn(className)}>
+      <AlertTitle>{t('coreEditor.lint.title', { defaultValue: 'Lint' })}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <ul className="mt-1 space-y-1.5 text-sm">
+          {displayed.map((issue, idx) => {
+            const fix = issue.fix
+            return (
+              <li key={idx} className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                <Badge variant={LINT_SEVERITY_BADGE[issue.severity]} className="shrink-0">
+                  {t(`coreEditor.lint.severity.${issue.severity}`, { defaultValue: issue.severity })}
+                </Badge>
+                <span className="min-w-0 flex-1">
+                  {formatXrayProfilePath(issue.path, profile)}: {issue.message}
+                  <span className="ml-1 text-[0.8em] opacity-80">[{issue.code}]</span>
+                </span>
+                {fix ? (
+                  <Button type="button" variant="outline" size="sm" className="h-7 shrink-0 px-2 text-xs" onClick={() => updateXrayProfile(p => applyXrayLintFix(p, fix))}>
+                    {issue.fixLabel ?? t('coreEditor.lint.fix', { defaultValue: 'Fix' })}
+                  </Button>
+                ) : null}
+              </li>
+            )
+          })}
+        </ul>
+        {rest > 0 ? <p className="text-xs opacity-90">{t('coreEditor.validationMore', { count: rest, defaultValue: `…and ${rest} more` })}</p> : null}
+      </AlertDescription>
+    </Alert>
+  )
+}
+
+/** Lists blocking issues from the Xray config kit (strict compile), core-kit, WireGuard, etc., and lint findings below them. */
 export function ValidationSummary({ items, className }: ValidationSummaryProps) {
+  const lint = items.flatMap(item => (item.source === 'lint' ? [item.issue] : []))
+  const issues = items.filter(item => item.source !== 'lint')
+  if (lint.length === 0) return <IssueSummary items={issues} className={className} />
+  if (issues.length === 0) return <LintSummary items={lint} className={className} />
+  return (
+    <div className={cn('space-y-3', className)}>
+      <IssueSummary items={issues} />
+      <LintSummary items={lint} />
+    </div>
+  )
+}
+
+function IssueSummary({ items, className }: ValidationSummaryProps) {
   const { t } = useTranslation()
   const profile = useCoreEditorStore(s => s.xrayProfile)
   if (items.length === 0) return null
@@ -9,6 +9,8 @@ import { Switch } from '@/components/ui/switch'
 import { Textarea } from '@/components/ui/textarea'
 import { Button } from '@/components/ui/button'
 import { TcpHeaderObfuscationForm } from '@/features/core-editor/components/shared/tcp-header-obfuscation-form'
+import { useGeoReferenceSuggestions } from '@/features/core-editor/hooks/use-geodata'
+import type { GeodataKind } from '@/features/core-editor/kit/geodata'
 import type { XrayGeneratedFormField } from '@pasarguard/xray-config-kit'
 import { inferParityFieldMode, stringifyJsonFormRecord, TLS_CURVE_PREFERENCE_OPTIONS, type ParityFieldMode } from '@/features/core-editor/kit/xray-parity-value'
 import { cn } from '@/lib/utils'
@@ -227,6 +229,13 @@ function tagPickerSpec(normalizedKey: string, mode: ParityFieldMode, o: XrayProf
   return null
 }
 
+/** Routing rule lists that take `geosite:` / `geoip:` values. */
+function geoReferenceKind(normalizedKey: string): GeodataKind | null {
+  if (normalizedKey === 'domain' || normalizedKey === 'domains') return 'geosite'
+  if (normalizedKey === 'ip' || normalizedKey === 'source' || normalizedKey === 'sourceip') return 'geoip'
+  return null
+}
+
 const ALPN_OPTIONS = ['h3', 'h2', 'http/1.1'] as const
 const TLS_CIPHER_SUITES_RECOMMENDED =
   'TLS_ECDHE_ECDSA_WITH_CHACHA20_POLY1305_SHA256:TLS_ECDHE_RSA_WITH_CHACHA20_POLY1305_SHA256:TLS_ECDHE_ECDSA_WITH_AES_256_GCM_SHA384:TLS_ECDHE_RSA_WITH_AES_256_GCM_SHA384:TLS_ECDHE_ECDSA_WITH_AES_128_GCM_SHA256:TLS_ECDHE_RSA_WITH_AES_128_GCM_SHA256'
@@ -235,6 +244,8 @@ const TLS_CIPHER_SUITES_RECOMMENDED =
 export function XrayParityFormControl({ field, value, onChange, disabled, className, renderBooleanAsToggleRow = false, profileTagOptions, placeholder }: XrayParityFormControlProps) {
   const { t } = useTranslation()
   const key = normalizeFieldName(field)
+  const geositeSuggestions = useGeoReferenceSuggestions('geosite')
+  const geoipSuggestions = useGeoReferenceSuggestions('geoip')
 
   if (isBooleanParityField(field)) {
     const checked = value === 'true' || value === '1'
@@ -676,6 +687,7 @@ export function XrayParityFormControl({ field, value, onChange, disabled, classN
         </FormControl>
       )
     }
+    const geoKind = geoReferenceKind(key)
     return (
       <FormControl>
         <StringArrayPopoverInput
@@ -692,6 +704,7 @@ export function XrayParityFormControl({ field, value, onChange, disabled, classN
           removeItemTitle={t('arrayInput.removeItem')}
           saveEditTitle={t('arrayInput.saveEdit')}
           cancelEditTitle={t('arrayInput.cancelEdit')}
+          getSuggestions={geoKind === 'geosite' ? geositeSuggestions : geoKind === 'geoip' ? geoipSuggestions : undefined}
           className={className}
           disabled={disabled}
         />
@@ -18,10 +18,12 @@ interface CoreEditorLayoutProps {
   showRestart?: boolean
   restartNodes: boolean
   onRestartChange: (v: boolean) => void
+  saveNote?: string
+  onSaveNoteChange?: (note: string) => void
   className?: string
 }
 
-export function CoreEditorLayout({ header, sectionHeader, main, dirty, canSave, saveLabel, onSave, onDiscard, onCancel, saving, showRestart, restartNodes, onRestartChange, className }: CoreEditorLayoutProps) {
+export function CoreEditorLayout({ header, sectionHeader, main, dirty, canSave, saveLabel, onSave, onDiscard, onCancel, saving, showRestart, restartNodes, onRestartChange, saveNote, onSaveNoteChange, className }: CoreEditorLayoutProps) {
   return (
     <div className={cn('flex min-h-0 flex-1 flex-col gap-0', className)}>
       <CoreCommandMenu />
@@ -42,6 +44,8 @@ export function CoreEditorLayout({ header, sectionHeader, main, dirty, canSave,
         showRestart={showRestart}
         restartNodes={restartNodes}
         onRestartChange={onRestartChange}
+        saveNote={saveNote}
+        onSaveNoteChange={onSaveNoteChange}
       />
     </div>
   )
@@ -1,6 +1,7 @@
 import { LoaderButton } from '@/components/ui/loader-button'
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { cn } from '@/lib/utils'
@@ -17,10 +18,27 @@ interface StickySaveBarProps {
   showRestart?: boolean
   restartNodes: boolean
   onRestartChange: (v: boolean) => void
+  /** Optional change note stored with the revision the save creates; the input shows only for unsaved edits. */
+  saveNote?: string
+  onSaveNoteChange?: (note: string) => void
   className?: string
 }
 
-export function StickySaveBar({ dirty, canSave = dirty, saveLabel, onSave, onDiscard, onCancel, saving, showRestart, restartNodes, onRestartChange, className }: StickySaveBarProps) {
+export function StickySaveBar({
+  dirty,
+  canSave = dirty,
+  saveLabel,
+  onSave,
+  onDiscard,
+  onCancel,
+  saving,
+  showRestart,
+  restartNodes,
+  onRestartChange,
+  saveNote,
+  onSaveNoteChange,
+  className,
+}: StickySaveBarProps) {
   const { t } = useTranslation()
   const statusLabel = dirty ? t('coreEditor.unsaved', { defaultValue: 'Unsaved changes' }) : t('coreEditor.saved', { defaultValue: 'All changes saved' })
 
@@ -33,6 +51,16 @@ export function StickySaveBar({ dirty, canSave = dirty, saveLabel, onSave, onDis
     >
       <TooltipProvider delayDuration={200}>
         <div className="flex flex-wrap items-center justify-end gap-3">
+          {dirty && onSaveNoteChange && (
+            <Input
+              value={saveNote ?? ''}
+              onChange={e => onSaveNoteChange(e.target.value)}
+              maxLength={512}
+              className="h-8 w-full sm:w-64"
+              placeholder={t('coreEditor.revisions.saveNotePlaceholder', { defaultValue: 'Change note (optional)' })}
+              aria-label={t('coreEditor.revisions.saveNote', { defaultValue: 'Change note' })}
+            />
+          )}
           {showRestart && (
             <div className="flex items-center gap-2 pr-2">
               <Checkbox id="restart-nodes" checked={restartNodes} onCheckedChange={v => onRestartChange(v === true)} />
@@ -0,0 +1,318 @@
+import { CopyButton } from '@/components/common/copy-button'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { CoreEditorFormDialog } from '@/features/core-editor/components/shared/core-editor-form-dialog'
+import { useGeodata } from '@/features/core-editor/hooks/use-geodata'
+import { findUnknownGeoReferences, GEODATA_KINDS, lookupGeoipAddress, lookupGeositeDomain, type GeodataKind, type GeoipMatch, type GeositeMatch } from '@/features/core-editor/kit/geodata'
+import { parseIp } from '@/features/core-editor/kit/routing-simulator'
+import { useCoreEditorStore } from '@/features/core-editor/state/core-editor-store'
+import { clearGeodataFile, loadGeodataFile } from '@/features/core-editor/state/geodata-store'
+import dayjs from '@/lib/dayjs'
+import { AlertTriangle, Database, FileUp, Search, Trash2 } from 'lucide-react'
+import { FormEvent, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+/** Categories rendered at once; the search narrows the rest down. */
+const CATEGORY_DISPLAY_LIMIT = 200
+
+function GeodataFileSlot({ kind }: { kind: GeodataKind }) {
+  const { t } = useTranslation()
+  const slot = useGeodata()[kind]
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const loadFile = async (file: File) => {
+    setIsLoading(true)
+    try {
+      const index = loadGeodataFile(kind, file.name, await file.arrayBuffer())
+      toast.success(t('coreEditor.geodata.loaded', { file: file.name, count: index.categories.length, defaultValue: '{{file}}: {{count}} categories loaded' }))
+    } catch (error) {
+      toast.error(t('coreEditor.geodata.loadFailed', { file: file.name, defaultValue: 'Could not read {{file}}' }), {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border p-3">
+      <Database className="text-muted-foreground h-5 w-5 shrink-0" />
+      <div className="min-w-0 flex-1 space-y-0.5">
+        <div className="flex flex-wrap items-center gap-2 text-sm font-medium">
+          <span dir="ltr">{kind}.dat</span>
+          {slot && (
+            <Badge variant="secondary" className="font-normal">
+              {t('coreEditor.geodata.categoryCount', { count: slot.index.categories.length, defaultValue: '{{count}} categories' })}
+            </Badge>
+          )}
+        </div>
+        <p className="text-muted-foreground truncate text-xs">
+          {slot
+            ? t('coreEditor.geodata.fileInfo', { file: slot.index.fileName, time: dayjs(slot.index.loadedAt).fromNow(), defaultValue: '{{file}}, loaded {{time}}' })
+            : t('coreEditor.geodata.notLoaded', { defaultValue: 'Not loaded' })}
+        </p>
+        {slot && !slot.file && (
+          <p className="text-xs text-amber-700 dark:text-amber-400">{t('coreEditor.geodata.reloadForLookup', { defaultValue: 'Load the file again to look up domains and IPs.' })}</p>
+        )}
+      </div>
+      <div className="flex shrink-0 items-center gap-1">
+        <Button type="button" size="sm" variant="outline" onClick={() => inputRef.current?.click()} disabled={isLoading}>
+          <FileUp className="h-4 w-4" />
+          <span className="hidden sm:inline">{slot ? t('coreEditor.geodata.replace', { defaultValue: 'Replace' }) : t('coreEditor.geodata.upload', { defaultValue: 'Upload' })}</span>
+        </Button>
+        {slot && (
+          <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={() => clearGeodataFile(kind)} title={t('coreEditor.geodata.clear', { defaultValue: 'Remove' })}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".dat,application/octet-stream"
+        className="hidden"
+        onChange={event => {
+          const file = event.target.files?.[0]
+          if (file) void loadFile(file)
+          event.target.value = ''
+        }}
+      />
+    </div>
+  )
+}
+
+function CategoryList({ kind }: { kind: GeodataKind }) {
+  const { t } = useTranslation()
+  const slot = useGeodata()[kind]
+  const [search, setSearch] = useState('')
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase().replace(`${kind}:`, '')
+    const categories = slot?.index.categories ?? []
+    return query ? categories.filter(category => category.name.includes(query) || category.attributes.some(attribute => attribute.includes(query))) : categories
+  }, [slot, search, kind])
+
+  if (!slot) {
+    return <p className="text-muted-foreground py-6 text-center text-sm">{t('coreEditor.geodata.uploadFirst', { file: `${kind}.dat`, defaultValue: 'Upload {{file}} to browse its categories.' })}</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <Input
+        dir="ltr"
+        value={search}
+        onChange={event => setSearch(event.target.value)}
+        placeholder={t('coreEditor.geodata.searchCategories', { defaultValue: 'Search categories…' })}
+        className="h-9"
+      />
+      <div className="max-h-[50dvh] divide-y overflow-y-auto rounded-md border">
+        {filtered.slice(0, CATEGORY_DISPLAY_LIMIT).map(category => (
+          <div key={category.name} className="flex items-start gap-2 px-2 py-1.5 text-xs">
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex items-center gap-2">
+                <span dir="ltr" className="font-mono font-medium">
+                  {kind}:{category.name}
+                </span>
+                <span className="text-muted-foreground">{category.size.toLocaleString()}</span>
+              </div>
+              {category.attributes.length > 0 && (
+                <div dir="ltr" className="flex flex-wrap gap-1">
+                  {category.attributes.map(attribute => (
+                    <Badge key={attribute} variant="outline" className="px-1 py-0 font-mono text-[10px] font-normal">
+                      @{attribute}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+            <CopyButton value={`${kind}:${category.name}`} className="h-6 w-6 shrink-0" />
+          </div>
+        ))}
+        {!filtered.length && <p className="text-muted-foreground py-6 text-center text-sm">{t('coreEditor.geodata.noCategories', { defaultValue: 'No matching categories' })}</p>}
+      </div>
+      {filtered.length > CATEGORY_DISPLAY_LIMIT && (
+        <p className="text-muted-foreground text-xs">
+          {t('coreEditor.geodata.moreCategories', { count: filtered.length - CATEGORY_DISPLAY_LIMIT, defaultValue: '{{count}} more; refine the search to see them.' })}
+        </p>
+      )}
+    </div>
+  )
+}
+
+type LookupResult = { kind: 'geosite'; query: string; matches: GeositeMatch[] } | { kind: 'geoip'; query: string; matches: GeoipMatch[] }
+
+function GeodataLookup() {
+  const { t } = useTranslation()
+  const geodata = useGeodata()
+  const [query, setQuery] = useState('')
+  const [result, setResult] = useState<LookupResult | null>(null)
+  const [missingFile, setMissingFile] = useState<GeodataKind | null>(null)
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const value = query.trim()
+    if (!value) return
+    const kind: GeodataKind = parseIp(value) ? 'geoip' : 'geosite'
+    const file = geodata[kind]?.file
+    if (!file) {
+      setMissingFile(kind)
+      setResult(null)
+      return
+    }
+    setMissingFile(null)
+    setResult(kind === 'geoip' ? { kind, query: value, matches: lookupGeoipAddress(file, value) ?? [] } : { kind, query: value, matches: lookupGeositeDomain(file, value) })
+  }
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input dir="ltr" value={query} onChange={event => setQuery(event.target.value)} placeholder="www.example.com / 8.8.8.8" className="h-9" />
+        <Button type="submit" size="sm" className="h-9" disabled={!query.trim()}>
+          <Search className="h-4 w-4" />
+          <span className="hidden sm:inline">{t('coreEditor.geodata.lookup', { defaultValue: 'Look up' })}</span>
+        </Button>
+      </form>
+      <p className="text-muted-foreground text-xs">{t('coreEditor.geodata.lookupHint', { defaultValue: 'Finds every category that contains a domain or an IP address.' })}</p>
+
+      {missingFile && (
+        <p className="text-sm text-amber-700 dark:text-amber-400">{t('coreEditor.geodata.uploadForLookup', { file: `${missingFile}.dat`, defaultValue: 'Upload {{file}} to look this up.' })}</p>
+      )}
+
+      {result &&
+        (result.matches.length ? (
+          <div className="divide-y rounded-md border">
+            {result.matches.map(match => {
+              const reference = `${result.kind}:${match.category}`
+              return (
+                <div key={match.category} className="flex items-start gap-2 px-2 py-1.5 text-xs">
+                  <div dir="ltr" className="min-w-0 flex-1 space-y-0.5">
+                    <span className="font-mono font-medium">{reference}</span>
+                    <div className="text-muted-foreground flex flex-wrap items-center gap-1 font-mono">
+                      <span>{'rule' in match ? match.rule : match.cidr}</span>
+                      {'attributes' in match &&
+                        match.attributes.map(attribute => (
+                          <Badge key={attribute} variant="outline" className="px-1 py-0 text-[10px] font-normal">
+                            @{attribute}
+                          </Badge>
+                        ))}
+                    </div>
+                    {'reversed' in match && match.reversed && (
+                      <p className="text-amber-700 dark:text-amber-400">{t('coreEditor.geodata.reversed', { defaultValue: 'Reverse match: Xray matches addresses outside this list.' })}</p>
+                    )}
+                  </div>
+                  <CopyButton value={reference} className="h-6 w-6 shrink-0" />
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          <p className="text-muted-foreground py-4 text-center text-sm">{t('coreEditor.geodata.noMatches', { query: result.query, defaultValue: 'No category contains {{query}}.' })}</p>
+        ))}
+    </div>
+  )
+}
+
+function UnknownReferences() {
+  const { t } = useTranslation()
+  const profile = useCoreEditorStore(s => s.xrayProfile)
+  const geodata = useGeodata()
+  const problems = useMemo(() => (profile ? findUnknownGeoReferences(profile, { geosite: geodata.geosite?.index, geoip: geodata.geoip?.index }) : []), [profile, geodata])
+
+  if (!problems.length) return null
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{t('coreEditor.geodata.unknownTitle', { count: problems.length, defaultValue: '{{count}} unknown geo references in this config' })}</AlertTitle>
+      <AlertDescription>
+        <ul dir="ltr" className="mt-1 space-y-0.5 font-mono text-xs">
+          {problems.slice(0, 12).map((problem, index) => (
+            <li key={`${problem.path}-${problem.value}-${index}`}>
+              <span className="text-muted-foreground">{problem.path}</span> {problem.value}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  )
+}
+
+interface GeodataBrowserDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/** Browses geosite.dat / geoip.dat loaded in this browser; the files never leave it. */
+export function GeodataBrowserDialog({ open, onOpenChange }: GeodataBrowserDialogProps) {
+  const { t } = useTranslation()
+  const [tab, setTab] = useState<string>('geosite')
+
+  return (
+    <CoreEditorFormDialog
+      isDialogOpen={open}
+      onOpenChange={onOpenChange}
+      title={t('coreEditor.geodata.title', { defaultValue: 'Geodata browser' })}
+      leadingIcon={<Database className="h-5 w-5 shrink-0" />}
+      size="lg"
+      inlinePersistValidation={false}
+    >
+      <div className="space-y-4">
+        <p className="text-muted-foreground text-sm">
+          {t('coreEditor.geodata.description', {
+            defaultValue:
+              'Upload the geosite.dat and geoip.dat your nodes use. They are read in this browser to autocomplete geosite: and geoip: values, flag unknown categories and look up domains and IPs.',
+          })}
+        </p>
+        <div className="grid gap-2">
+          {GEODATA_KINDS.map(kind => (
+            <GeodataFileSlot key={kind} kind={kind} />
+          ))}
+        </div>
+        <UnknownReferences />
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="geosite">geosite</TabsTrigger>
+            <TabsTrigger value="geoip">geoip</TabsTrigger>
+            <TabsTrigger value="lookup">{t('coreEditor.geodata.lookup', { defaultValue: 'Look up' })}</TabsTrigger>
+          </TabsList>
+          {GEODATA_KINDS.map(kind => (
+            <TabsContent key={kind} value={kind} className="mt-3">
+              <CategoryList kind={kind} />
+            </TabsContent>
+          ))}
+          <TabsContent value="lookup" className="mt-3">
+            <GeodataLookup />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </CoreEditorFormDialog>
+  )
+}
+
+/** Toolbar button opening the {@link GeodataBrowserDialog}. */
+export function GeodataBrowserButton({ className }: { className?: string }) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const geodata = useGeodata()
+  const loaded = GEODATA_KINDS.filter(kind => geodata[kind]).length
+
+  return (
+    <>
+      <Button type="button" variant="outline" size="sm" className={className} onClick={() => setOpen(true)}>
+        <Database className="h-4 w-4" />
+        {t('coreEditor.geodata.open', { defaultValue: 'Geodata' })}
+        {loaded > 0 && (
+          <Badge variant="secondary" className="px-1.5 py-0 text-[10px]">
+            {loaded}/{GEODATA_KINDS.length}
+          </Badge>
+        )}
+      </Button>
+      <GeodataBrowserDialog open={open} onOpenChange={setOpen} />
+    </>
+  )
+}
@@ -9,6 +9,8 @@ import { Switch } from '@/components/ui/switch'
 import { StringArrayPopoverInput } from '@/components/common/string-array-popover-input'
 import { CoreEditorDataTable } from '@/features/core-editor/components/shared/core-editor-data-table'
 import { CoreEditorFormDialog } from '@/features/core-editor/components/shared/core-editor-form-dialog'
+import { GeodataBrowserButton } from '@/features/core-editor/components/xray/geodata-browser-dialog'
+import { useGeoReferenceSuggestions } from '@/features/core-editor/hooks/use-geodata'
 import { useSectionHeaderAddPulseEffect, type SectionHeaderAddPulse } from '@/features/core-editor/hooks/use-section-header-add-pulse'
 import { useXrayPersistModifyGuard } from '@/features/core-editor/hooks/use-xray-persist-modify-guard'
 import { remapIndexAfterArrayMove } from '@/features/core-editor/kit/remap-index-after-move'
@@ -224,6 +226,8 @@ export function XrayDnsSection({ headerAddPulse, headerAddEpoch }: XrayDnsSectio
   const profile = useCoreEditorStore(s => s.xrayProfile)
   const updateXrayProfile = useCoreEditorStore(s => s.updateXrayProfile)
   const { assertNoPersistBlockingErrors } = useXrayPersistModifyGuard()
+  const geositeSuggestions = useGeoReferenceSuggestions('geosite')
+  const geoipSuggestions = useGeoReferenceSuggestions('geoip')
 
   const dns = profile?.dns
   const enabled = dns != null
@@ -523,10 +527,13 @@ export function XrayDnsSection({ headerAddPulse, headerAddEpoch }: XrayDnsSectio
                 <Globe className="text-muted-foreground h-4 w-4 shrink-0" aria-hidden />
                 {t('coreEditor.dns.serversTitle', { defaultValue: 'Servers' })}
               </CardTitle>
-              <Button type="button" size="sm" variant="outline" onClick={beginAddServer}>
-                <Plus className="h-4 w-4" />
-                <span className="ms-1">{t('coreEditor.dns.addServer', { defaultValue: 'Add server' })}</span>
-              </Button>
+              <div className="flex items-center gap-2">
+                <GeodataBrowserButton />
+                <Button type="button" size="sm" variant="outline" onClick={beginAddServer}>
+                  <Plus className="h-4 w-4" />
+                  <span className="ms-1">{t('coreEditor.dns.addServer', { defaultValue: 'Add server' })}</span>
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               <CoreEditorDataTable
@@ -711,6 +718,7 @@ export function XrayDnsSection({ headerAddPulse, headerAddEpoch }: XrayDnsSectio
                       addButtonLabel={t('add', { defaultValue: 'Add' })}
                       itemsLabel={t('coreEditor.dns.server.domainsItemsLabel', { defaultValue: 'Domains' })}
                       emptyMessage={t('coreEditor.dns.server.domainsEmpty', { defaultValue: 'No domains added.' })}
+                      getSuggestions={geositeSuggestions}
                     />
                   </FormControl>
                   <FormMessage />
@@ -735,6 +743,7 @@ export function XrayDnsSection({ headerAddPulse, headerAddEpoch }: XrayDnsSectio
                       addButtonLabel={t('add', { defaultValue: 'Add' })}
                       itemsLabel={t('coreEditor.dns.server.expectedIPsItemsLabel', { defaultValue: 'IPs' })}
                       emptyMessage={t('coreEditor.dns.server.expectedIPsEmpty', { defaultValue: 'No IPs added.' })}
+                      getSuggestions={geoipSuggestions}
                     />
                   </FormControl>
                   <FormMessage />
@@ -5,6 +5,8 @@ import { Form, FormField, FormItem, FormLabel, FormMessage } from '@/components/
 import { XrayParityFormControl, isBooleanParityField, transportParityFieldLabel, type XrayProfileTagOptions } from '@/features/core-editor/components/shared/xray-parity-form-control'
 import { CoreEditorDataTable } from '@/features/core-editor/components/shared/core-editor-data-table'
 import { CoreEditorFormDialog } from '@/features/core-editor/components/shared/core-editor-form-dialog'
+import { GeodataBrowserButton } from '@/features/core-editor/components/xray/geodata-browser-dialog'
+import { XrayRoutingSimulator } from '@/features/core-editor/components/xray/xray-routing-simulator'
 import { useSectionHeaderAddPulseEffect, type SectionHeaderAddPulse } from '@/features/core-editor/hooks/use-section-header-add-pulse'
 import { useXrayPersistModifyGuard } from '@/features/core-editor/hooks/use-xray-persist-modify-guard'
 import { profileDuplicateTagMessage, profileTagHasDuplicateUsage } from '@/features/core-editor/kit/profile-tag-uniqueness'
@@ -352,6 +354,17 @@ export function XrayRoutingSection({ headerAddPulse, headerAddEpoch }: XrayRouti
     setDraftRule(null)
   }
 
+  const openRule = (index: number) => {
+    if (detailOpen && dialogMode === 'add' && draftRule !== null) {
+      setBlockAddWhileDraftOpen(true)
+      return
+    }
+    setDraftRule(null)
+    setDialogMode('edit')
+    setSelected(index)
+    setDetailOpen(true)
+  }
+
   const handleDetailOpenChange = (open: boolean) => {
     if (open) {
       setDetailOpen(true)
@@ -477,6 +490,12 @@ export function XrayRoutingSection({ headerAddPulse, headerAddEpoch }: XrayRouti
 
   return (
     <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex justify-end">
+          <GeodataBrowserButton />
+        </div>
+        <XrayRoutingSimulator profile={profile} inboundTags={routingCaps.inboundTags} onOpenRule={openRule} />
+      </div>
       <CoreEditorDataTable
         columns={columns}
         data={rules}
@@ -489,16 +508,7 @@ export function XrayRoutingSection({ headerAddPulse, headerAddEpoch }: XrayRouti
         })}
         emptyLabel={t('coreEditor.routing.emptyRules', { defaultValue: 'No routing rules' })}
         getRowId={(_, i) => String(i)}
-        onRowClick={(_row, rowIndex) => {
-          if (detailOpen && dialogMode === 'add' && draftRule !== null) {
-            setBlockAddWhileDraftOpen(true)
-            return
-          }
-          setDraftRule(null)
-          setDialogMode('edit')
-          setSelected(rowIndex)
-          setDetailOpen(true)
-        }}
+        onRowClick={(_row, rowIndex) => openRule(rowIndex)}
         onRemoveRow={i => {
           updateXrayProfile(p => removeRule(p, i))
           setSelected(0)
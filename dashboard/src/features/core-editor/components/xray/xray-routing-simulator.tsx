@@ -0,0 +1,291 @@
+import { Badge } from '@/components/ui/badge'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  parseIp,
+  simulateRouting,
+  SIMULATOR_NETWORKS,
+  SIMULATOR_PROTOCOLS,
+  type ConditionResult,
+  type RuleEvaluation,
+  type RoutingOutcome,
+  type SimulatedConnection,
+} from '@/features/core-editor/kit/routing-simulator'
+import { cn } from '@/lib/utils'
+import type { Profile } from '@pasarguard/xray-config-kit'
+import { AlertTriangle, ArrowRight, ChevronDown, CircleCheck, CircleHelp, CircleMinus, CircleX, Route } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const NO_PROTOCOL = 'none'
+const NO_INBOUND = '__none__'
+
+const DEFAULT_CONNECTION: SimulatedConnection = {
+  inboundTag: '',
+  user: '',
+  destination: '',
+  resolvedIp: '',
+  port: '443',
+  network: 'tcp',
+  protocol: 'tls',
+  sourceIp: '',
+  vlessRoute: '',
+}
+
+function EvaluationIcon({ status }: { status: RuleEvaluation['status'] }) {
+  if (status === 'matched') return <CircleCheck className="h-4 w-4 shrink-0 text-green-500" />
+  if (status === 'undetermined') return <CircleHelp className="h-4 w-4 shrink-0 text-amber-500" />
+  if (status === 'noConditions') return <CircleMinus className="text-muted-foreground h-4 w-4 shrink-0" />
+  return <CircleX className="text-muted-foreground h-4 w-4 shrink-0" />
+}
+
+const CONDITION_CLASSES: Record<ConditionResult['status'], string> = {
+  match: 'border-green-500/40 text-green-700 dark:text-green-400',
+  mismatch: 'border-destructive/40 text-destructive',
+  unknown: 'border-amber-500/40 text-amber-700 dark:text-amber-400',
+}
+
+interface XrayRoutingSimulatorProps {
+  profile: Profile
+  inboundTags: readonly string[]
+  /** Opens the rule in the routing rule dialog. */
+  onOpenRule: (index: number) => void
+}
+
+/** Evaluates the draft routing rules for a hypothetical connection, without deploying the config to a node. */
+export function XrayRoutingSimulator({ profile, inboundTags, onOpenRule }: XrayRoutingSimulatorProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [connection, setConnection] = useState<SimulatedConnection>(DEFAULT_CONNECTION)
+
+  const patch = (next: Partial<SimulatedConnection>) => setConnection(current => ({ ...current, ...next }))
+  const simulation = useMemo(() => (open && connection.destination.trim() ? simulateRouting(profile, connection) : null), [open, profile, connection])
+  const destinationIsDomain = !!connection.destination.trim() && !parseIp(connection.destination)
+
+  const describeCondition = (condition: ConditionResult) =>
+    t(`coreEditor.routing.simulator.reasons.${condition.reason}`, {
+      pattern: condition.pattern ?? '',
+      value: condition.value ?? '',
+      defaultValue: condition.reason,
+    })
+
+  const describeOutcome = (outcome: RoutingOutcome) => {
+    if (outcome.kind === 'default') {
+      return outcome.tag
+        ? t('coreEditor.routing.simulator.defaultOutbound', { tag: outcome.tag, defaultValue: 'No rule matched; the first outbound ({{tag}}) is used.' })
+        : t('coreEditor.routing.simulator.noOutbounds', { defaultValue: 'No rule matched and there is no outbound to fall back to.' })
+    }
+    return outcome.kind === 'outbound'
+      ? t('coreEditor.routing.simulator.toOutbound', { tag: outcome.tag, defaultValue: 'Outbound {{tag}}' })
+      : t('coreEditor.routing.simulator.toBalancer', { tag: outcome.tag, defaultValue: 'Balancer {{tag}}' })
+  }
+
+  const renderTarget = (evaluation: RuleEvaluation) =>
+    evaluation.target.kind === 'none' ? (
+      <span className="text-muted-foreground">—</span>
+    ) : (
+      <span dir="ltr" className="font-mono">
+        {evaluation.target.kind === 'balancer' ? `⚖ ${evaluation.target.tag}` : evaluation.target.tag}
+      </span>
+    )
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="bg-card rounded-lg border">
+      <CollapsibleTrigger asChild>
+        <button type="button" className="flex w-full items-center justify-between gap-3 p-3 text-start">
+          <div className="min-w-0 space-y-1">
+            <span className="flex items-center gap-2 text-sm font-medium">
+              <Route className="h-4 w-4 shrink-0" />
+              {t('coreEditor.routing.simulator.title', { defaultValue: 'Routing simulator' })}
+            </span>
+            <p className="text-muted-foreground text-xs">
+              {t('coreEditor.routing.simulator.description', { defaultValue: 'Check which outbound a connection would take with the rules in this draft.' })}
+            </p>
+          </div>
+          <ChevronDown className={cn('h-4 w-4 shrink-0 transition-transform', open && 'rotate-180')} />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 border-t p-3">
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label className="text-xs">{t('coreEditor.routing.simulator.destination', { defaultValue: 'Destination domain or IP' })}</Label>
+            <Input dir="ltr" value={connection.destination} onChange={event => patch({ destination: event.target.value })} placeholder="www.example.com" className="h-8 font-mono text-xs" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('coreEditor.routing.port', { defaultValue: 'Port' })}</Label>
+            <Input dir="ltr" inputMode="numeric" value={connection.port} onChange={event => patch({ port: event.target.value })} className="h-8 font-mono text-xs" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('coreEditor.routing.simulator.network', { defaultValue: 'Network' })}</Label>
+            <Select value={connection.network} onValueChange={value => patch({ network: value as SimulatedConnection['network'] })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SIMULATOR_NETWORKS.map(network => (
+                  <SelectItem key={network} value={network}>
+                    {network}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('coreEditor.routing.inbound', { defaultValue: 'Inbound' })}</Label>
+            <Select value={connection.inboundTag || NO_INBOUND} onValueChange={value => patch({ inboundTag: value === NO_INBOUND ? '' : value })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_INBOUND}>{t('coreEditor.routing.simulator.anyInbound', { defaultValue: 'Not set' })}</SelectItem>
+                {inboundTags.map(tag => (
+                  <SelectItem key={tag} value={tag}>
+                    {tag}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('coreEditor.routing.simulator.user', { defaultValue: 'User email' })}</Label>
+            <Input dir="ltr" value={connection.user} onChange={event => patch({ user: event.target.value })} className="h-8 font-mono text-xs" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('coreEditor.routing.simulator.protocol', { defaultValue: 'Sniffed protocol' })}</Label>
+            <Select value={connection.protocol || NO_PROTOCOL} onValueChange={value => patch({ protocol: value === NO_PROTOCOL ? '' : value })}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PROTOCOL}>{t('coreEditor.routing.simulator.notSniffed', { defaultValue: 'Not sniffed' })}</SelectItem>
+                {SIMULATOR_PROTOCOLS.map(protocol => (
+                  <SelectItem key={protocol} value={protocol}>
+                    {protocol}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('coreEditor.routing.simulator.sourceIp', { defaultValue: 'Client IP' })}</Label>
+            <Input dir="ltr" value={connection.sourceIp} onChange={event => patch({ sourceIp: event.target.value })} className="h-8 font-mono text-xs" />
+          </div>
+          {destinationIsDomain && simulation?.domainStrategy !== 'AsIs' && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t('coreEditor.routing.simulator.resolvedIp', { defaultValue: 'Resolves to' })}</Label>
+              <Input dir="ltr" value={connection.resolvedIp} onChange={event => patch({ resolvedIp: event.target.value })} placeholder="203.0.113.10" className="h-8 font-mono text-xs" />
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label className="text-xs">vlessRoute</Label>
+            <Input dir="ltr" inputMode="numeric" value={connection.vlessRoute} onChange={event => patch({ vlessRoute: event.target.value })} className="h-8 font-mono text-xs" />
+          </div>
+        </div>
+
+        {!simulation ? (
+          <p className="text-muted-foreground py-4 text-center text-xs">{t('coreEditor.routing.simulator.empty', { defaultValue: 'Enter a destination to simulate a connection.' })}</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 rounded-md border border-green-500/30 bg-green-500/10 p-3 text-sm">
+              <ArrowRight className="h-4 w-4 shrink-0 text-green-600" />
+              <span className="font-medium">{describeOutcome(simulation.outcome)}</span>
+              {simulation.matched && (
+                <span className="text-muted-foreground text-xs">
+                  {t('coreEditor.routing.simulator.viaRule', { index: simulation.matched.index + 1, defaultValue: 'via rule #{{index}}' })}
+                  {simulation.matched.pass === 'ip' && ` · ${t('coreEditor.routing.simulator.afterResolve', { defaultValue: 'after resolving the domain' })}`}
+                </span>
+              )}
+              <Badge variant="outline" className="ms-auto font-mono text-[10px]">
+                domainStrategy: {simulation.domainStrategy}
+              </Badge>
+            </div>
+
+            {(simulation.outcome.kind === 'outbound' || simulation.outcome.kind === 'balancer') && !simulation.outcome.exists && (
+              <p className="text-destructive flex items-start gap-2 text-xs">
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                {t('coreEditor.routing.simulator.missingTarget', { tag: simulation.outcome.tag, defaultValue: '{{tag}} does not exist in this config.' })}
+              </p>
+            )}
+
+            {simulation.outcome.kind === 'balancer' && simulation.outcome.exists && (
+              <div className="space-y-1.5 rounded-md border p-3 text-xs">
+                <div className="text-muted-foreground flex flex-wrap gap-x-3">
+                  <span>
+                    {t('coreEditor.balancer.strategy', { defaultValue: 'Strategy' })}: <span className="text-foreground font-mono">{simulation.outcome.strategy}</span>
+                  </span>
+                  {simulation.outcome.fallbackTag && (
+                    <span>
+                      {t('coreEditor.routing.simulator.fallback', { defaultValue: 'Fallback' })}: <span className="text-foreground font-mono">{simulation.outcome.fallbackTag}</span>
+                    </span>
+                  )}
+                </div>
+                {simulation.outcome.candidates.length ? (
+                  <div className="flex flex-wrap gap-1.5">
+                    {simulation.outcome.candidates.map(tag => (
+                      <Badge key={tag} variant="secondary" dir="ltr" className="font-mono font-normal">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-amber-700 dark:text-amber-400">{t('coreEditor.routing.simulator.noCandidates', { defaultValue: 'The selector matches no outbound tags.' })}</p>
+                )}
+              </div>
+            )}
+
+            {simulation.undeterminedBefore.length > 0 && (
+              <p className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                {t('coreEditor.routing.simulator.undeterminedBefore', {
+                  rules: simulation.undeterminedBefore.map(index => `#${index + 1}`).join(', '),
+                  defaultValue: 'Rules {{rules}} depend on geo data or runtime attributes and could take the connection first.',
+                })}
+              </p>
+            )}
+
+            <div className="divide-y rounded-md border">
+              {simulation.evaluations.map(evaluation => (
+                <button
+                  key={`${evaluation.pass}-${evaluation.index}`}
+                  type="button"
+                  onClick={() => onOpenRule(evaluation.index)}
+                  className={cn('hover:bg-accent/50 flex w-full flex-col gap-1.5 p-2 text-start text-xs', evaluation.status === 'matched' && 'bg-green-500/5')}
+                >
+                  <div className="flex w-full items-center gap-2">
+                    <EvaluationIcon status={evaluation.status} />
+                    <span className="font-medium">#{evaluation.index + 1}</span>
+                    {evaluation.ruleTag && (
+                      <span dir="ltr" className="text-muted-foreground font-mono">
+                        {evaluation.ruleTag}
+                      </span>
+                    )}
+                    {evaluation.pass === 'ip' && (
+                      <Badge variant="outline" className="px-1 py-0 text-[10px] font-normal">
+                        {t('coreEditor.routing.simulator.ipPass', { defaultValue: 'resolved IP' })}
+                      </Badge>
+                    )}
+                    <span className="ms-auto">{renderTarget(evaluation)}</span>
+                  </div>
+                  {evaluation.status === 'noConditions' ? (
+                    <p className="text-muted-foreground ps-6">{t('coreEditor.routing.simulator.noConditions', { defaultValue: 'No match conditions; Xray rejects this rule.' })}</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-1.5 ps-6">
+                      {evaluation.conditions.map(condition => (
+                        <Badge key={condition.field} variant="outline" className={cn('gap-1 font-normal', CONDITION_CLASSES[condition.status])} title={describeCondition(condition)}>
+                          <span className="font-mono">{condition.field}</span>
+                          {condition.status !== 'match' && <span className="max-w-64 truncate">{describeCondition(condition)}</span>}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,295 @@
+import { openNodeLogStream, parseLogChunk } from '@/features/nodes/hooks/use-node-log-stream'
+import {
+  createRolloutActivity,
+  evaluateRolloutHealth,
+  planRolloutWaves,
+  recordRolloutLogLines,
+  type CoreRolloutSettings,
+  type RolloutNodeActivity,
+  type RolloutProblem,
+} from '@/features/core-editor/kit/core-rollout'
+import { applyCoreRollout, getNodes, modifyCoreConfig, reconnectNode, type CoreCreate, type NodeResponse, type NodeStatus } from '@/service/api'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+/** Node statuses are re-read on this cadence while a stage is watched. */
+const POLL_INTERVAL_MS = 5000
+
+export type CoreRolloutPhase = 'idle' | 'applying' | 'watching' | 'awaiting-promotion' | 'promoting' | 'completed' | 'rolling-back' | 'rolled-back'
+
+export interface CoreRolloutNodeView {
+  id: number
+  name: string
+  status: NodeStatus
+  message?: string | null
+  users: number
+  errors: number
+  onCandidate: boolean
+}
+
+export interface CoreRolloutState {
+  phase: CoreRolloutPhase
+  canaryIds: number[]
+  waves: number[][]
+  /** Index into `waves` being promoted; -1 while the canaries are watched. */
+  wave: number
+  nodes: Record<number, CoreRolloutNodeView>
+  problems: RolloutProblem[]
+  remainingSeconds: number
+  error: string | null
+}
+
+const initialState: CoreRolloutState = {
+  phase: 'idle',
+  canaryIds: [],
+  waves: [],
+  wave: -1,
+  nodes: {},
+  problems: [],
+  remainingSeconds: 0,
+  error: null,
+}
+
+export type CoreRolloutOutcome = 'completed' | 'rolled-back'
+
+interface UseCoreRolloutOptions {
+  coreId: number
+  /** Draft to roll out; `null` while it cannot be saved. */
+  candidate: CoreCreate | null
+  /** The saved config, written back if a failure happens after promotion. */
+  previous: CoreCreate | null
+  note: string
+  /** Called with the config that was rolled out, which may differ from the draft by then. */
+  onFinished?: (outcome: CoreRolloutOutcome, rolledOut: CoreCreate) => void
+}
+
+function errorMessage(e: unknown) {
+  const err = e as { data?: { detail?: unknown }; response?: { _data?: { detail?: unknown } }; message?: string }
+  const detail = err?.data?.detail ?? err?.response?._data?.detail
+  return typeof detail === 'string' ? detail : detail ? JSON.stringify(detail) : (err?.message ?? String(e))
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Drives a staged rollout: the candidate goes to the canaries through the rollout endpoint
+ * without being saved, and reconnecting a node puts it back on the saved config. Promoting
+ * saves the candidate and reconnects the remaining nodes wave by wave, each wave watched like
+ * the canaries. Any failed check rolls every updated node back; after promotion this also
+ * saves the previous config again. The rollout only runs while the editor page is open.
+ */
+export function useCoreRollout({ coreId, candidate, previous, note, onFinished }: UseCoreRolloutOptions) {
+  const { t } = useTranslation()
+  const [state, setState] = useState<CoreRolloutState>(initialState)
+  const runRef = useRef(0)
+  const settingsRef = useRef<CoreRolloutSettings | null>(null)
+  const updatedRef = useRef(new Set<number>())
+  const promotedRef = useRef(false)
+  /** Draft as it was when the canaries started; later edits are not part of this rollout. */
+  const rolledOutRef = useRef<CoreCreate | null>(null)
+  const previousRef = useRef<CoreCreate | null>(null)
+  const optionsRef = useRef({ candidate, previous, note, onFinished })
+  optionsRef.current = { candidate, previous, note, onFinished }
+
+  useEffect(
+    () => () => {
+      runRef.current += 1
+      // Leaving the editor mid-rollout puts unpromoted canaries back on the saved config.
+      if (!promotedRef.current) void Promise.allSettled([...updatedRef.current].map(nodeId => reconnectNode(nodeId)))
+    },
+    [],
+  )
+
+  const patch = useCallback((next: Partial<CoreRolloutState>) => setState(prev => ({ ...prev, ...next })), [])
+
+  const syncNodes = useCallback((nodes: NodeResponse[], activity: Map<number, RolloutNodeActivity>) => {
+    setState(prev => {
+      const views = { ...prev.nodes }
+      for (const node of nodes) {
+        const current = views[node.id]
+        if (!current) continue
+        const seen = activity.get(node.id)
+        views[node.id] = {
+          ...current,
+          status: node.status,
+          message: node.message,
+          users: seen ? seen.users.size : current.users,
+          errors: seen ? seen.errors : current.errors,
+          onCandidate: updatedRef.current.has(node.id),
+        }
+      }
+      return { ...prev, nodes: views }
+    })
+  }, [])
+
+  /**
+   * Watches the updated nodes for one window; returns early with problems on a hard failure.
+   * Throws when the node statuses cannot be read, which callers treat as a failed check.
+   */
+  const watch = useCallback(
+    async (run: number, controlIds: number[]): Promise<RolloutProblem[] | null> => {
+      const settings = settingsRef.current!
+      const updatedIds = [...updatedRef.current]
+      const activity = new Map<number, RolloutNodeActivity>()
+      const streams = [...updatedIds, ...controlIds].map(nodeId => {
+        const seen = createRolloutActivity()
+        activity.set(nodeId, seen)
+        const eventSource = openNodeLogStream(nodeId)
+        eventSource.onmessage = e => recordRolloutLogLines(seen, parseLogChunk(e.data))
+        return eventSource
+      })
+      const started = Date.now()
+      patch({ phase: 'watching', remainingSeconds: settings.watchSeconds })
+
+      try {
+        for (;;) {
+          const { nodes } = await getNodes({ core_id: coreId })
+          if (runRef.current !== run) return null
+          syncNodes(nodes, activity)
+
+          const elapsed = (Date.now() - started) / 1000
+          const final = elapsed >= settings.watchSeconds
+          const sample = (nodeId: number) => {
+            const node = nodes.find(n => n.id === nodeId)
+            return {
+              nodeId,
+              status: node?.status ?? 'error',
+              message: node ? node.message : t('coreEditor.rollout.nodeMissing', { defaultValue: 'Node no longer uses this core' }),
+              activity: activity.get(nodeId)!,
+            }
+          }
+          const problems = evaluateRolloutHealth(updatedIds.map(sample), controlIds.map(sample), elapsed, settings, final)
+          if (problems.length > 0 || final) return problems
+
+          patch({ remainingSeconds: Math.ceil(settings.watchSeconds - elapsed) })
+          await sleep(Math.min(POLL_INTERVAL_MS, (settings.watchSeconds - elapsed) * 1000))
+          if (runRef.current !== run) return null
+        }
+      } finally {
+        streams.forEach(eventSource => eventSource.close())
+      }
+    },
+    [coreId, patch, syncNodes, t],
+  )
+
+  const rollBack = useCallback(
+    async (problems: RolloutProblem[], error: string | null = null) => {
+      const run = ++runRef.current
+      patch({ phase: 'rolling-back', problems, error })
+      try {
+        const previous = previousRef.current
+        if (promotedRef.current && previous) {
+          await modifyCoreConfig(coreId, previous, {
+            restart_nodes: false,
+            note: t('coreEditor.rollout.rollbackNote', { defaultValue: 'Rolled back staged rollout' }),
+          })
+          promotedRef.current = false
+        }
+        await Promise.allSettled([...updatedRef.current].map(nodeId => reconnectNode(nodeId)))
+        updatedRef.current = new Set()
+        const { nodes } = await getNodes({ core_id: coreId })
+        if (runRef.current === run) syncNodes(nodes, new Map())
+      } catch (e) {
+        error = errorMessage(e)
+      }
+      if (runRef.current !== run) return
+      patch({ phase: 'rolled-back', error })
+      optionsRef.current.onFinished?.('rolled-back', rolledOutRef.current!)
+    },
+    [coreId, patch, syncNodes, t],
+  )
+
+  const start = useCallback(
+    async (canaryIds: number[], nodes: NodeResponse[], settings: CoreRolloutSettings) => {
+      const { candidate } = optionsRef.current
+      if (!candidate || canaryIds.length === 0) return
+      const run = ++runRef.current
+      settingsRef.current = settings
+      rolledOutRef.current = candidate
+      previousRef.current = optionsRef.current.previous
+      updatedRef.current = new Set()
+      promotedRef.current = false
+
+      const rest = nodes.map(node => node.id).filter(id => !canaryIds.includes(id))
+      const views: Record<number, CoreRolloutNodeView> = {}
+      for (const node of nodes) {
+        views[node.id] = { id: node.id, name: node.name, status: node.status, message: node.message, users: 0, errors: 0, onCandidate: false }
+      }
+      setState({ ...initialState, phase: 'applying', canaryIds, waves: planRolloutWaves(rest, settings.waveSize), nodes: views })
+
+      try {
+        const { results } = await applyCoreRollout(coreId, { core: candidate, node_ids: canaryIds })
+        if (runRef.current !== run) return
+        canaryIds.forEach(id => updatedRef.current.add(id))
+        const failed: RolloutProblem[] = results.filter(r => r.status !== 'connected').map(r => ({ nodeId: r.node_id, kind: 'failed', message: r.message ?? '' }))
+        if (failed.length > 0) return rollBack(failed)
+      } catch (e) {
+        if (runRef.current !== run) return
+        // The request can fail after some canaries already started, so all of them are reconnected.
+        canaryIds.forEach(id => updatedRef.current.add(id))
+        return rollBack([], errorMessage(e))
+      }
+
+      let problems: RolloutProblem[] | null
+      try {
+        problems = await watch(run, rest)
+      } catch (e) {
+        // A failed status poll leaves the canaries unchecked, so they go back like on any other failure.
+        if (runRef.current === run) return rollBack([], errorMessage(e))
+        return
+      }
+      if (problems === null) return
+      if (problems.length > 0) return rollBack(problems)
+      patch({ phase: 'awaiting-promotion', remainingSeconds: 0 })
+    },
+    [coreId, patch, rollBack, watch],
+  )
+
+  const promote = useCallback(async () => {
+    const candidate = rolledOutRef.current
+    if (!candidate) return
+    const run = ++runRef.current
+    patch({ phase: 'promoting', problems: [], error: null })
+
+    try {
+      await modifyCoreConfig(coreId, candidate, {
+        restart_nodes: false,
+        note: optionsRef.current.note.trim() || t('coreEditor.rollout.promoteNote', { defaultValue: 'Staged rollout' }),
+      })
+      promotedRef.current = true
+    } catch (e) {
+      if (runRef.current === run) return rollBack([], errorMessage(e))
+      return
+    }
+
+    const waves = state.waves
+    for (let index = 0; index < waves.length; index++) {
+      if (runRef.current !== run) return
+      patch({ wave: index })
+      await Promise.allSettled(waves[index].map(nodeId => reconnectNode(nodeId)))
+      waves[index].forEach(id => updatedRef.current.add(id))
+      let problems: RolloutProblem[] | null
+      try {
+        problems = await watch(run, waves.slice(index + 1).flat())
+      } catch (e) {
+        if (runRef.current === run) return rollBack([], errorMessage(e))
+        return
+      }
+      if (problems === null) return
+      if (problems.length > 0) return rollBack(problems)
+    }
+
+    if (runRef.current !== run) return
+    patch({ phase: 'completed', remainingSeconds: 0 })
+    optionsRef.current.onFinished?.('completed', candidate)
+  }, [coreId, patch, rollBack, state.waves, t, watch])
+
+  const reset = useCallback(() => {
+    runRef.current += 1
+    updatedRef.current = new Set()
+    promotedRef.current = false
+    setState(initialState)
+  }, [])
+
+  return { state, start, promote, rollBack: () => rollBack([]), reset }
+}
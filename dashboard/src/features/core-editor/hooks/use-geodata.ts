@@ -0,0 +1,13 @@
+import { suggestGeoReferences, type GeodataKind } from '@/features/core-editor/kit/geodata'
+import { getGeodataState, subscribeGeodata } from '@/features/core-editor/state/geodata-store'
+import { useCallback, useSyncExternalStore } from 'react'
+
+export function useGeodata() {
+  return useSyncExternalStore(subscribeGeodata, getGeodataState, getGeodataState)
+}
+
+/** Autocomplete for `geosite:` / `geoip:` values; returns no suggestions until that file is loaded. */
+export function useGeoReferenceSuggestions(kind: GeodataKind) {
+  const slot = useGeodata()[kind]
+  return useCallback((input: string) => (slot ? suggestGeoReferences(slot.index, input) : []), [slot])
+}
@@ -1,22 +1,104 @@
 import type { ValidationListItem } from '@/features/core-editor/components/shared/validation-summary'
+import { useGeodata } from '@/features/core-editor/hooks/use-geodata'
+import { findUnknownGeoReferences } from '@/features/core-editor/kit/geodata'
+import { lintXrayProfile, type XrayLintFinding, type XrayLintRuleId } from '@/features/core-editor/kit/xray-lint'
 import { validateProfileForPersist } from '@/features/core-editor/kit/xray-adapter'
 import { useCoreEditorStore } from '@/features/core-editor/state/core-editor-store'
 import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { TFunction } from 'i18next'
 
-/** Same list as the Xray branch of `preSaveIssues` on the core editor page (strict blockers + core-kit issues). */
+const LINT_MESSAGES: Record<XrayLintRuleId, string> = {
+  'routing.outbound.unknown': 'Rule {{rule}} sends traffic to outbound "{{tag}}", which does not exist.',
+  'routing.balancer.unknown': 'Rule {{rule}} sends traffic to balancer "{{tag}}", which does not exist.',
+  'routing.rule.shadowed': 'Rule {{rule}} never matches: rule {{by}} above it already takes all of its traffic.',
+  'balancer.selector.empty': 'Balancer "{{tag}}" selects no outbounds with "{{selector}}".',
+  'reality.target.cdn': 'Inbound "{{inbound}}" uses Reality target {{target}}, which is served by {{cdn}}; pick a site on its own servers.',
+  'inbound.port.duplicate': 'Inbound "{{inbound}}" listens on port {{port}}, already taken by inbound "{{other}}".',
+  'dns.server.unreachable': 'DNS server {{server}} is routed to blackhole outbound "{{outbound}}", so its queries are dropped.',
+  'outbound.unused': 'Outbound "{{tag}}" is not used by any rule, balancer, proxy chain or DNS server.',
+}
+
+function lintFixLabel(finding: XrayLintFinding, t: TFunction): string | undefined {
+  const fix = finding.fix
+  if (!fix) return undefined
+  switch (fix.kind) {
+    case 'useBalancer':
+      return t('coreEditor.lint.fixes.useBalancer', { defaultValue: 'Use balancer "{{tag}}"', tag: fix.tag })
+    case 'useOutbound':
+      return t('coreEditor.lint.fixes.useOutbound', { defaultValue: 'Use outbound "{{tag}}"', tag: fix.tag })
+    case 'removeRule':
+      return t('coreEditor.lint.fixes.removeRule', { defaultValue: 'Remove rule' })
+    case 'removeBalancer':
+      return t('coreEditor.lint.fixes.removeBalancer', { defaultValue: 'Remove balancer' })
+    case 'setInboundPort':
+      return t('coreEditor.lint.fixes.setInboundPort', { defaultValue: 'Move to port {{port}}', port: fix.port })
+    case 'removeOutbound':
+      return t('coreEditor.lint.fixes.removeOutbound', { defaultValue: 'Remove outbound' })
+  }
+}
+
+/**
+ * Same list as the Xray branch of `preSaveIssues` on the core editor page (strict blockers + core-kit issues),
+ * plus warnings for geo categories missing from the loaded geodata files and the lint findings.
+ */
 export function useXrayPersistValidationItems(): ValidationListItem[] {
+  const { t } = useTranslation()
   const hydrated = useCoreEditorStore(s => s.hydrated)
   const kind = useCoreEditorStore(s => s.kind)
   const profile = useCoreEditorStore(s => s.xrayProfile)
+  const geodata = useGeodata()
 
   return useMemo(() => {
     if (!hydrated || kind !== 'xray' || !profile) return []
+    const items: ValidationListItem[] = []
     const r = validateProfileForPersist(profile)
-    if (r.ok) return []
-    const items: ValidationListItem[] = r.strictBlockers.map(issue => ({ source: 'xray' as const, issue }))
-    for (const issue of r.coreKitIssues) {
-      items.push({ source: 'core-kit' as const, issue })
+    if (!r.ok) {
+      items.push(...r.strictBlockers.map(issue => ({ source: 'xray' as const, issue })))
+      for (const issue of r.coreKitIssues) {
+        items.push({ source: 'core-kit' as const, issue })
+      }
+    }
+    const geoProblems = findUnknownGeoReferences(profile, { geosite: geodata.geosite?.index, geoip: geodata.geoip?.index })
+    for (const problem of geoProblems) {
+      const fileName = geodata[problem.reference.kind]?.index.fileName ?? `${problem.reference.kind}.dat`
+      items.push({
+        source: 'xray' as const,
+        issue: {
+          code: problem.attribute ? 'geodata.attribute.unknown' : 'geodata.category.unknown',
+          severity: 'warning',
+          category: 'semantic',
+          path: problem.path,
+          message: problem.attribute
+            ? t('coreEditor.geodata.validation.unknownAttribute', {
+                defaultValue: '"{{value}}": category {{category}} in {{file}} has no @{{attribute}} domains.',
+                value: problem.value,
+                category: problem.reference.category,
+                attribute: problem.attribute,
+                file: fileName,
+              })
+            : t('coreEditor.geodata.validation.unknownCategory', {
+                defaultValue: '"{{value}}": {{file}} has no category {{category}}.',
+                value: problem.value,
+                category: problem.reference.category,
+                file: fileName,
+              }),
+        },
+      })
+    }
+    for (const finding of lintXrayProfile(profile)) {
+      items.push({
+        source: 'lint' as const,
+        issue: {
+          code: finding.rule,
+          severity: finding.severity,
+          path: finding.path,
+          message: t(`coreEditor.lint.rules.${finding.rule}`, { defaultValue: LINT_MESSAGES[finding.rule], ...finding.params }),
+          fix: finding.fix,
+          fixLabel: lintFixLabel(finding, t),
+        },
+      })
     }
     return items
-  }, [hydrated, kind, profile])
+  }, [hydrated, kind, profile, geodata, t])
 }
@@ -0,0 +1,104 @@
+import type { NodeStatus } from '@/service/api'
+import type { LogLine } from '@/utils/logsUtils'
+
+/**
+ * Health rules for staged core rollouts. Canary nodes run the candidate config first; the rest
+ * follow in waves once the canaries pass a watch window. A node fails when it reports an error
+ * status, is still not connected when the window ends, logs more errors than allowed, or serves
+ * far fewer users than the nodes still on the saved config over the same window.
+ */
+
+export interface CoreRolloutSettings {
+  /** How long each stage is watched before it counts as healthy. */
+  watchSeconds: number
+  /** Nodes reconnected together in each promotion wave. */
+  waveSize: number
+  maxErrorsPerMinute: number
+  /** Allowed drop of active users against the median of nodes still on the saved config. */
+  maxUserDropPercent: number
+}
+
+export const DEFAULT_CORE_ROLLOUT_SETTINGS: CoreRolloutSettings = {
+  watchSeconds: 120,
+  waveSize: 2,
+  maxErrorsPerMinute: 10,
+  maxUserDropPercent: 50,
+}
+
+/** Below this many active users on the control nodes, user drops are too noisy to judge. */
+export const MIN_USER_BASELINE = 5
+
+/** Error lines and distinct accepted users seen in one node's log stream during a watch window. */
+export interface RolloutNodeActivity {
+  errors: number
+  users: Set<string>
+}
+
+export interface RolloutNodeSample {
+  nodeId: number
+  status: NodeStatus
+  message?: string | null
+  activity: RolloutNodeActivity
+}
+
+export type RolloutProblem =
+  | { nodeId: number; kind: 'failed'; message: string }
+  | { nodeId: number; kind: 'notConnected'; status: NodeStatus }
+  | { nodeId: number; kind: 'errors'; perMinute: number }
+  | { nodeId: number; kind: 'users'; users: number; baseline: number }
+
+export const createRolloutActivity = (): RolloutNodeActivity => ({ errors: 0, users: new Set() })
+
+export function recordRolloutLogLines(activity: RolloutNodeActivity, lines: LogLine[]) {
+  for (const line of lines) {
+    if (line.type === 'error') activity.errors += 1
+    if (line.access?.accepted && line.access.email) activity.users.add(line.access.email)
+  }
+}
+
+/** Splits the nodes left after the canaries into promotion waves of at most `waveSize` nodes. */
+export function planRolloutWaves(nodeIds: number[], waveSize: number): number[][] {
+  const size = Math.max(1, Math.floor(waveSize))
+  const waves: number[][] = []
+  for (let i = 0; i < nodeIds.length; i += size) waves.push(nodeIds.slice(i, i + size))
+  return waves
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Checks the nodes running the candidate against the rollout thresholds. Before the window
+ * ends only hard failures count, so a rollback starts as soon as a core fails to start; error
+ * rates, user counts and nodes stuck connecting are judged once `final` is set.
+ */
+export function evaluateRolloutHealth(updated: RolloutNodeSample[], control: RolloutNodeSample[], elapsedSeconds: number, settings: CoreRolloutSettings, final: boolean): RolloutProblem[] {
+  const problems: RolloutProblem[] = []
+  const minutes = Math.max(elapsedSeconds, 1) / 60
+  const baseline = median(control.filter(sample => sample.status === 'connected').map(sample => sample.activity.users.size))
+
+  for (const sample of updated) {
+    if (sample.status === 'error') {
+      problems.push({ nodeId: sample.nodeId, kind: 'failed', message: sample.message ?? '' })
+      continue
+    }
+    if (!final) continue
+    if (sample.status !== 'connected') {
+      problems.push({ nodeId: sample.nodeId, kind: 'notConnected', status: sample.status })
+      continue
+    }
+    const perMinute = sample.activity.errors / minutes
+    if (perMinute > settings.maxErrorsPerMinute) {
+      problems.push({ nodeId: sample.nodeId, kind: 'errors', perMinute: Math.round(perMinute * 10) / 10 })
+    }
+    const users = sample.activity.users.size
+    if (baseline >= MIN_USER_BASELINE && users < baseline * (1 - settings.maxUserDropPercent / 100)) {
+      problems.push({ nodeId: sample.nodeId, kind: 'users', users, baseline })
+    }
+  }
+  return problems
+}
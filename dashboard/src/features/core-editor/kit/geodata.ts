@@ -0,0 +1,412 @@
+import type { Profile } from '@pasarguard/xray-config-kit'
+import { parseIp, type ParsedIp } from '@/features/core-editor/kit/routing-simulator'
+
+/**
+ * Reads `geosite.dat` / `geoip.dat` in the browser. Both are protobuf lists from Xray-core
+ * (`app/router/routercommon`), decoded here with a minimal wire-format reader:
+ *
+ *   GeoSiteList { repeated GeoSite entry = 1 }   GeoSite { country_code = 1; repeated Domain domain = 2 }
+ *   Domain { Type type = 1; value = 2; repeated Attribute attribute = 3 }   Attribute { key = 1; ... }
+ *   GeoIPList { repeated GeoIP entry = 1 }       GeoIP { country_code = 1; repeated CIDR cidr = 2; reverse_match = 3 }
+ *   CIDR { bytes ip = 1; uint32 prefix = 2 }
+ *
+ * Entries keep a view into the original buffer and are only decoded in full for lookups, so a
+ * 20 MB geoip.dat does not turn into a million objects.
+ */
+
+export type GeodataKind = 'geosite' | 'geoip'
+
+export const GEODATA_KINDS: readonly GeodataKind[] = ['geosite', 'geoip']
+
+export interface GeodataCategory {
+  /** Lower-cased country code, the way it is written after `geosite:` / `geoip:`. */
+  name: string
+  /** Number of domains or CIDRs in the category. */
+  size: number
+  /** Attribute keys used by the category's domains (geosite only), sorted. */
+  attributes: string[]
+}
+
+/** What is kept across reloads: enough for autocomplete and validation, not for lookups. */
+export interface GeodataIndex {
+  kind: GeodataKind
+  fileName: string
+  loadedAt: string
+  categories: GeodataCategory[]
+}
+
+interface GeodataEntry {
+  name: string
+  bytes: Uint8Array
+}
+
+export interface GeodataFile {
+  index: GeodataIndex
+  entries: GeodataEntry[]
+}
+
+export class GeodataParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GeodataParseError'
+  }
+}
+
+// ─── Protobuf wire format ────────────────────────────────────────────────────
+
+const WIRE_VARINT = 0
+const WIRE_FIXED64 = 1
+const WIRE_LENGTH_DELIMITED = 2
+const WIRE_FIXED32 = 5
+
+const textDecoder = new TextDecoder()
+
+interface WireField {
+  field: number
+  wireType: number
+  /** Varint value; only exact up to 2^53, which covers every field read here. */
+  value: number
+  bytes: Uint8Array
+}
+
+function* readFields(buffer: Uint8Array): Generator<WireField> {
+  let offset = 0
+
+  const readVarint = () => {
+    let result = 0
+    let multiplier = 1
+    for (;;) {
+      if (offset >= buffer.length) throw new GeodataParseError('Truncated varint')
+      const byte = buffer[offset++]
+      result += (byte & 0x7f) * multiplier
+      if (byte < 0x80) return result
+      multiplier *= 128
+      if (multiplier > 2 ** 63) throw new GeodataParseError('Varint is too long')
+    }
+  }
+
+  while (offset < buffer.length) {
+    const key = readVarint()
+    const field = Math.floor(key / 8)
+    const wireType = key % 8
+    if (field === 0) throw new GeodataParseError('Invalid field number')
+    if (wireType === WIRE_VARINT) {
+      yield { field, wireType, value: readVarint(), bytes: buffer.subarray(0, 0) }
+    } else if (wireType === WIRE_LENGTH_DELIMITED) {
+      const length = readVarint()
+      if (offset + length > buffer.length) throw new GeodataParseError('Truncated field')
+      yield { field, wireType, value: length, bytes: buffer.subarray(offset, offset + length) }
+      offset += length
+    } else if (wireType === WIRE_FIXED64 || wireType === WIRE_FIXED32) {
+      offset += wireType === WIRE_FIXED64 ? 8 : 4
+      if (offset > buffer.length) throw new GeodataParseError('Truncated field')
+    } else {
+      throw new GeodataParseError(`Unsupported wire type ${wireType}`)
+    }
+  }
+}
+
+// ─── Decoding ────────────────────────────────────────────────────────────────
+
+export type GeositeDomainType = 'keyword' | 'regexp' | 'domain' | 'full'
+
+const DOMAIN_TYPES: GeositeDomainType[] = ['keyword', 'regexp', 'domain', 'full']
+
+interface GeositeDomain {
+  type: GeositeDomainType
+  value: string
+  attributes: string[]
+}
+
+function decodeDomain(bytes: Uint8Array): GeositeDomain {
+  const domain: GeositeDomain = { type: 'keyword', value: '', attributes: [] }
+  for (const item of readFields(bytes)) {
+    if (item.field === 1 && item.wireType === WIRE_VARINT) domain.type = DOMAIN_TYPES[item.value] ?? 'keyword'
+    else if (item.field === 2 && item.wireType === WIRE_LENGTH_DELIMITED) domain.value = textDecoder.decode(item.bytes)
+    else if (item.field === 3 && item.wireType === WIRE_LENGTH_DELIMITED) {
+      for (const attribute of readFields(item.bytes)) {
+        if (attribute.field === 1 && attribute.wireType === WIRE_LENGTH_DELIMITED) domain.attributes.push(textDecoder.decode(attribute.bytes).toLowerCase())
+      }
+    }
+  }
+  return domain
+}
+
+function* geositeDomains(entry: GeodataEntry): Generator<GeositeDomain> {
+  for (const item of readFields(entry.bytes)) {
+    if (item.field === 2 && item.wireType === WIRE_LENGTH_DELIMITED) yield decodeDomain(item.bytes)
+  }
+}
+
+interface GeoipCidr {
+  ip: Uint8Array
+  prefix: number
+}
+
+function decodeCidr(bytes: Uint8Array): GeoipCidr {
+  const cidr: GeoipCidr = { ip: bytes.subarray(0, 0), prefix: 0 }
+  for (const item of readFields(bytes)) {
+    if (item.field === 1 && item.wireType === WIRE_LENGTH_DELIMITED) cidr.ip = item.bytes
+    else if (item.field === 2 && item.wireType === WIRE_VARINT) cidr.prefix = item.value
+  }
+  return cidr
+}
+
+function readEntryName(bytes: Uint8Array): string {
+  for (const item of readFields(bytes)) {
+    if (item.field === 1 && item.wireType === WIRE_LENGTH_DELIMITED) return textDecoder.decode(item.bytes).toLowerCase()
+  }
+  return ''
+}
+
+function summarizeEntry(kind: GeodataKind, entry: GeodataEntry): GeodataCategory {
+  let size = 0
+  const attributes = new Set<string>()
+  if (kind === 'geosite') {
+    for (const domain of geositeDomains(entry)) {
+      if (!domain.value) continue
+      size++
+      domain.attributes.forEach(attribute => attributes.add(attribute))
+    }
+  } else {
+    for (const item of readFields(entry.bytes)) {
+      if (item.field !== 2 || item.wireType !== WIRE_LENGTH_DELIMITED) continue
+      const { ip } = decodeCidr(item.bytes)
+      if (ip.length === 4 || ip.length === 16) size++
+    }
+  }
+  return { name: entry.name, size, attributes: [...attributes].sort() }
+}
+
+/** Throws {@link GeodataParseError} when the buffer is not a geosite/geoip list. */
+export function parseGeodataFile(kind: GeodataKind, fileName: string, buffer: ArrayBuffer): GeodataFile {
+  const entries: GeodataEntry[] = []
+  for (const item of readFields(new Uint8Array(buffer))) {
+    if (item.field !== 1 || item.wireType !== WIRE_LENGTH_DELIMITED) throw new GeodataParseError('Not a geodata list')
+    const name = readEntryName(item.bytes)
+    if (!name) throw new GeodataParseError('Entry without a country code')
+    entries.push({ name, bytes: item.bytes })
+  }
+  if (!entries.length) throw new GeodataParseError('The file has no categories')
+
+  const categories = entries.map(entry => summarizeEntry(kind, entry))
+  // geosite.dat read as geoip.dat (or the other way round) decodes without errors but yields nothing
+  if (categories.every(category => category.size === 0)) throw new GeodataParseError(`No ${kind === 'geosite' ? 'domains' : 'CIDRs'} found; is this the right file?`)
+
+  return {
+    index: {
+      kind,
+      fileName,
+      loadedAt: new Date().toISOString(),
+      categories: categories.sort((a, b) => a.name.localeCompare(b.name)),
+    },
+    entries,
+  }
+}
+
+// ─── Lookups ─────────────────────────────────────────────────────────────────
+
+export interface GeositeMatch {
+  category: string
+  /** The rule in the category that matched, e.g. `domain:google.com`. */
+  rule: string
+  attributes: string[]
+}
+
+function domainMatches(domain: GeositeDomain, host: string): boolean {
+  const value = domain.value.toLowerCase()
+  switch (domain.type) {
+    case 'full':
+      return host === value
+    case 'domain':
+      return host === value || host.endsWith(`.${value}`)
+    case 'regexp':
+      try {
+        return new RegExp(domain.value).test(host)
+      } catch {
+        return false
+      }
+    default:
+      return host.includes(value)
+  }
+}
+
+/** Every geosite category with a rule matching `host`, with the first matching rule of each. */
+export function lookupGeositeDomain(file: GeodataFile, host: string): GeositeMatch[] {
+  const needle = host.trim().toLowerCase().replace(/\.$/, '')
+  if (!needle) return []
+  const matches: GeositeMatch[] = []
+  for (const entry of file.entries) {
+    for (const domain of geositeDomains(entry)) {
+      if (!domainMatches(domain, needle)) continue
+      matches.push({ category: entry.name, rule: `${domain.type}:${domain.value}`, attributes: domain.attributes })
+      break
+    }
+  }
+  return matches
+}
+
+export interface GeoipMatch {
+  category: string
+  cidr: string
+  /** The entry has `reverse_match`, so Xray matches every address outside it instead. */
+  reversed: boolean
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  let value = BigInt(0)
+  for (const byte of bytes) value = (value << BigInt(8)) | BigInt(byte)
+  return value
+}
+
+function formatCidr(cidr: GeoipCidr): string {
+  if (cidr.ip.length === 4) return `${Array.from(cidr.ip).join('.')}/${cidr.prefix}`
+  const groups: string[] = []
+  for (let i = 0; i < cidr.ip.length; i += 2) groups.push(((cidr.ip[i] << 8) | cidr.ip[i + 1]).toString(16))
+  // Collapse the longest run of zero groups into `::`
+  let runStart = -1
+  let runLength = 0
+  for (let i = 0; i < groups.length; i++) {
+    let length = 0
+    while (groups[i + length] === '0') length++
+    if (length > runLength) [runStart, runLength] = [i, length]
+  }
+  if (runLength < 2) return `${groups.join(':')}/${cidr.prefix}`
+  return `${groups.slice(0, runStart).join(':')}::${groups.slice(runStart + runLength).join(':')}/${cidr.prefix}`
+}
+
+function cidrContains(cidr: GeoipCidr, ip: ParsedIp): boolean {
+  const bits = ip.version === 4 ? 32 : 128
+  if (cidr.ip.length * 8 !== bits || cidr.prefix > bits) return false
+  const shift = BigInt(bits - cidr.prefix)
+  return ip.value >> shift === bytesToBigInt(cidr.ip) >> shift
+}
+
+/** Every geoip category containing `address`; `null` when `address` is not an IP. */
+export function lookupGeoipAddress(file: GeodataFile, address: string): GeoipMatch[] | null {
+  const ip = parseIp(address)
+  if (!ip) return null
+  const matches: GeoipMatch[] = []
+  for (const entry of file.entries) {
+    let reversed = false
+    let found: GeoipCidr | null = null
+    for (const item of readFields(entry.bytes)) {
+      if (item.field === 3 && item.wireType === WIRE_VARINT) reversed = item.value !== 0
+      if (found || item.field !== 2 || item.wireType !== WIRE_LENGTH_DELIMITED) continue
+      const cidr = decodeCidr(item.bytes)
+      if (cidrContains(cidr, ip)) found = cidr
+    }
+    if (found) matches.push({ category: entry.name, cidr: formatCidr(found), reversed })
+  }
+  return matches
+}
+
+// ─── References in a profile ─────────────────────────────────────────────────
+
+export interface GeoReference {
+  kind: GeodataKind
+  category: string
+  attributes: string[]
+}
+
+/** `geosite:google@ads`, `geoip:!cn`; `ext:` files are not checked since only the default files are loaded. */
+export function parseGeoReference(value: string): GeoReference | null {
+  const lower = value.trim().toLowerCase()
+  for (const kind of GEODATA_KINDS) {
+    if (!lower.startsWith(`${kind}:`)) continue
+    const [category, ...attributes] = lower.slice(kind.length + 1).split('@')
+    return { kind, category: kind === 'geoip' ? category.replace(/^!/, '') : category, attributes: attributes.filter(Boolean) }
+  }
+  return null
+}
+
+export interface GeoReferenceProblem {
+  /** 1-based JSON pointer, matching the paths of kit issues. */
+  path: string
+  value: string
+  reference: GeoReference
+  /** Set when the category exists but does not use this attribute. */
+  attribute?: string
+}
+
+const RULE_GEO_FIELDS = ['domain', 'domains', 'ip', 'source', 'sourceIP'] as const
+const DNS_SERVER_GEO_FIELDS = ['domains', 'expectedIPs', 'expectIPs', 'unexpectedIPs'] as const
+
+function listValues(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string')
+  return typeof value === 'string' ? [value] : []
+}
+
+/** Geo categories and attributes in routing rules and DNS that the loaded geodata files do not have. */
+export function findUnknownGeoReferences(profile: Profile, indexes: Partial<Record<GeodataKind, GeodataIndex | null>>): GeoReferenceProblem[] {
+  const lookup = new Map<GeodataKind, Map<string, GeodataCategory>>()
+  for (const kind of GEODATA_KINDS) {
+    const index = indexes[kind]
+    if (index) lookup.set(kind, new Map(index.categories.map(category => [category.name, category])))
+  }
+  if (!lookup.size) return []
+
+  const problems: GeoReferenceProblem[] = []
+  const check = (path: string, value: string) => {
+    const reference = parseGeoReference(value)
+    const categories = reference && lookup.get(reference.kind)
+    if (!reference || !categories) return
+    const category = categories.get(reference.category)
+    if (!category) {
+      problems.push({ path, value, reference })
+      return
+    }
+    const attribute = reference.attributes.find(item => !category.attributes.includes(item))
+    if (attribute) problems.push({ path, value, reference, attribute })
+  }
+
+  ;(profile.routing?.rules ?? []).forEach((rule, index) => {
+    const fields = rule as unknown as Record<string, unknown>
+    for (const field of RULE_GEO_FIELDS) {
+      for (const value of listValues(fields[field])) check(`/routing/rules/${index + 1}/${field}`, value)
+    }
+  })
+
+  const dns = profile.dns as unknown as { servers?: unknown[]; hosts?: Record<string, unknown> } | undefined
+  ;(dns?.servers ?? []).forEach((server, index) => {
+    if (!server || typeof server !== 'object') return
+    const fields = server as Record<string, unknown>
+    for (const field of DNS_SERVER_GEO_FIELDS) {
+      for (const value of listValues(fields[field])) check(`/dns/servers/${index + 1}/${field}`, value)
+    }
+  })
+  for (const host of Object.keys(dns?.hosts ?? {})) check('/dns/hosts', host)
+
+  return problems
+}
+
+// ─── Autocomplete ────────────────────────────────────────────────────────────
+
+const SUGGESTION_LIMIT = 50
+
+/**
+ * Completions for a value being typed: categories once the `geosite:` / `geoip:` prefix is
+ * (partly) typed, and the category's attributes after `@`.
+ */
+export function suggestGeoReferences(index: GeodataIndex, input: string): string[] {
+  const prefix = `${index.kind}:`
+  const lower = input.trim().toLowerCase()
+  if (lower.length < 3) return []
+  if (!lower.startsWith(prefix)) return prefix.startsWith(lower) ? index.categories.slice(0, SUGGESTION_LIMIT).map(category => `${prefix}${category.name}`) : []
+
+  const rest = lower.slice(prefix.length)
+  const negation = index.kind === 'geoip' && rest.startsWith('!') ? '!' : ''
+  const query = rest.slice(negation.length)
+  const at = query.indexOf('@')
+  if (at !== -1) {
+    const category = index.categories.find(item => item.name === query.slice(0, at))
+    if (!category) return []
+    const typed = query.slice(0, query.lastIndexOf('@') + 1)
+    const partial = query.slice(typed.length)
+    return category.attributes.filter(attribute => attribute.startsWith(partial)).map(attribute => `${prefix}${typed}${attribute}`)
+  }
+
+  const starts = index.categories.filter(category => category.name.startsWith(query))
+  const contains = index.categories.filter(category => !category.name.startsWith(query) && category.name.includes(query))
+  return [...starts, ...contains].slice(0, SUGGESTION_LIMIT).map(category => `${prefix}${negation}${category.name}`)
+}
@@ -0,0 +1,478 @@
+import type { Profile, RoutingRule } from '@pasarguard/xray-config-kit'
+
+/**
+ * Offline evaluation of Xray routing rules for one hypothetical connection, following
+ * `app/router` in Xray-core: rules are tried in order, every condition of a rule must match,
+ * and `domainStrategy` decides when the destination domain is resolved for `ip` conditions.
+ * Geo lists and attributes only known at runtime cannot be evaluated and are reported as unknown.
+ */
+
+export type RoutingDomainStrategy = 'AsIs' | 'IPIfNonMatch' | 'IPOnDemand'
+
+export const SIMULATOR_NETWORKS = ['tcp', 'udp'] as const
+export const SIMULATOR_PROTOCOLS = ['http', 'tls', 'quic', 'bittorrent'] as const
+
+export interface SimulatedConnection {
+  inboundTag: string
+  user: string
+  /** Domain or IP literal the client asked for. */
+  destination: string
+  /** What the domain resolves to, used when the domain strategy resolves it. */
+  resolvedIp: string
+  port: string
+  network: (typeof SIMULATOR_NETWORKS)[number]
+  /** Sniffed protocol; empty when sniffing is off or found nothing. */
+  protocol: string
+  sourceIp: string
+  vlessRoute: string
+}
+
+export type ConditionStatus = 'match' | 'mismatch' | 'unknown'
+
+export type ConditionReason = 'matched' | 'notListed' | 'noDomain' | 'notResolvedAsIs' | 'resolvedLater' | 'needsResolvedIp' | 'geoData' | 'notSimulated' | 'missingInput' | 'invalidValue'
+
+export interface ConditionResult {
+  field: string
+  status: ConditionStatus
+  reason: ConditionReason
+  /** The pattern that matched, or the one that could not be evaluated. */
+  pattern?: string
+  /** The connection value the condition was checked against. */
+  value?: string
+}
+
+export type RuleTarget = { kind: 'outbound'; tag: string } | { kind: 'balancer'; tag: string } | { kind: 'none' }
+
+export type RuleEvaluationStatus = 'matched' | 'notMatched' | 'undetermined' | 'noConditions'
+
+export interface RuleEvaluation {
+  index: number
+  ruleTag?: string
+  target: RuleTarget
+  status: RuleEvaluationStatus
+  conditions: ConditionResult[]
+  /** `ip` is the second pass of IPIfNonMatch, after the domain was resolved. */
+  pass: 'domain' | 'ip'
+}
+
+export type RoutingOutcome =
+  | { kind: 'outbound'; tag: string; exists: boolean }
+  | { kind: 'balancer'; tag: string; exists: boolean; candidates: string[]; fallbackTag?: string; strategy?: string }
+  /** No rule matched: Xray uses the first outbound. */
+  | { kind: 'default'; tag: string | null }
+
+export interface RoutingSimulation {
+  domainStrategy: RoutingDomainStrategy
+  evaluations: RuleEvaluation[]
+  matched: RuleEvaluation | null
+  outcome: RoutingOutcome
+  /** Rules before the match whose result depends on data the simulator does not have. */
+  undeterminedBefore: number[]
+}
+
+export const CONDITION_KEYS = [
+  'inboundTag',
+  'domain',
+  'domains',
+  'ip',
+  'port',
+  'sourcePort',
+  'source',
+  'sourceIP',
+  'localIP',
+  'localPort',
+  'network',
+  'protocol',
+  'user',
+  'vlessRoute',
+  'attrs',
+  'process',
+] as const
+
+const NOT_SIMULATED_KEYS = new Set(['sourcePort', 'localIP', 'localPort', 'attrs', 'process'])
+
+// ─── Value helpers ───────────────────────────────────────────────────────────
+
+export function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null) return true
+  if (typeof value === 'string') return value.trim() === ''
+  if (Array.isArray(value)) return value.length === 0
+  if (typeof value === 'object') return Object.keys(value as Record<string, unknown>).length === 0
+  return false
+}
+
+/** Xray accepts both arrays and comma-separated strings for list fields; `split` is off for regex-bearing lists. */
+export function toList(value: unknown, split = true): string[] {
+  const items = Array.isArray(value) ? value : [value]
+  return items
+    .flatMap(item => (split ? String(item ?? '').split(',') : [String(item ?? '')]))
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+function parsePortNumber(raw: string): number | null {
+  const trimmed = raw.trim()
+  if (!/^\d+$/.test(trimmed)) return null
+  const port = Number(trimmed)
+  return port >= 0 && port <= 65535 ? port : null
+}
+
+function portListMatches(value: unknown, port: number): { matched: boolean; pattern?: string; invalid?: string } {
+  for (const segment of toList(value)) {
+    const range = segment.match(/^(\d+)-(\d+)$/)
+    if (range) {
+      if (port >= Number(range[1]) && port <= Number(range[2])) return { matched: true, pattern: segment }
+      continue
+    }
+    const single = parsePortNumber(segment)
+    if (single === null) return { matched: false, invalid: segment }
+    if (single === port) return { matched: true, pattern: segment }
+  }
+  return { matched: false }
+}
+
+// ─── IP helpers ──────────────────────────────────────────────────────────────
+
+export interface ParsedIp {
+  version: 4 | 6
+  value: bigint
+}
+
+function parseIpv4(raw: string): bigint | null {
+  const parts = raw.split('.')
+  if (parts.length !== 4) return null
+  let value = BigInt(0)
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null
+    value = (value << BigInt(8)) | BigInt(Number(part))
+  }
+  return value
+}
+
+function parseIpv6(raw: string): bigint | null {
+  let address = raw.toLowerCase()
+  const zone = address.indexOf('%')
+  if (zone !== -1) address = address.slice(0, zone)
+
+  // A trailing dotted IPv4 part (::ffff:1.2.3.4) stands for the last two groups
+  const lastColon = address.lastIndexOf(':')
+  const tail = address.slice(lastColon + 1)
+  if (tail.includes('.')) {
+    const v4 = parseIpv4(tail)
+    if (v4 === null) return null
+    address = `${address.slice(0, lastColon + 1)}${(v4 >> BigInt(16)).toString(16)}:${(v4 & BigInt(0xffff)).toString(16)}`
+  }
+
+  const halves = address.split('::')
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(':') : []
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - rest.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...rest]
+
+  let value = BigInt(0)
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/.test(group)) return null
+    value = (value << BigInt(16)) | BigInt(parseInt(group, 16))
+  }
+  return value
+}
+
+export function parseIp(raw: string): ParsedIp | null {
+  const trimmed = raw.trim().replace(/^\[|\]$/g, '')
+  if (!trimmed) return null
+  const v4 = parseIpv4(trimmed)
+  if (v4 !== null) return { version: 4, value: v4 }
+  if (!trimmed.includes(':')) return null
+  const v6 = parseIpv6(trimmed)
+  return v6 === null ? null : { version: 6, value: v6 }
+}
+
+/** `null` when `cidr` is not an IP or CIDR. */
+export function ipInCidr(ip: ParsedIp, cidr: string): boolean | null {
+  const [address, prefixRaw] = cidr.split('/')
+  const network = parseIp(address)
+  if (!network) return null
+  const bits = network.version === 4 ? 32 : 128
+  const prefix = prefixRaw === undefined ? bits : Number(prefixRaw)
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return null
+  if (network.version !== ip.version) return false
+  const shift = BigInt(bits - prefix)
+  return ip.value >> shift === network.value >> shift
+}
+
+/** The ranges Xray's geoip.dat ships as `private`. */
+const PRIVATE_CIDRS = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.0.2.0/24',
+  '192.88.99.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '198.51.100.0/24',
+  '203.0.113.0/24',
+  '224.0.0.0/3',
+  '::/127',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+]
+
+export const isPrivateIp = (ip: ParsedIp) => PRIVATE_CIDRS.some(cidr => ipInCidr(ip, cidr))
+
+type PatternResult = { status: ConditionStatus; pattern?: string; invalid?: string }
+
+function matchIpList(patterns: string[], ip: ParsedIp): PatternResult {
+  let unknownPattern: string | undefined
+  for (const pattern of patterns) {
+    const lower = pattern.toLowerCase()
+    if (lower.startsWith('geoip:')) {
+      const code = lower.slice('geoip:'.length)
+      const negated = code.startsWith('!')
+      if (code.replace('!', '') === 'private') {
+        if (isPrivateIp(ip) !== negated) return { status: 'match', pattern }
+        continue
+      }
+      unknownPattern ??= pattern
+      continue
+    }
+    if (lower.startsWith('ext:') || lower.startsWith('ext-ip:')) {
+      unknownPattern ??= pattern
+      continue
+    }
+    const inCidr = ipInCidr(ip, pattern)
+    if (inCidr === null) return { status: 'mismatch', invalid: pattern }
+    if (inCidr) return { status: 'match', pattern }
+  }
+  return unknownPattern ? { status: 'unknown', pattern: unknownPattern } : { status: 'mismatch' }
+}
+
+// ─── Domain helpers ──────────────────────────────────────────────────────────
+
+function matchDomainPattern(pattern: string, domain: string): boolean | null {
+  const lower = pattern.toLowerCase()
+  if (lower.startsWith('geosite:') || lower.startsWith('ext:') || lower.startsWith('ext-domain:')) return null
+  if (lower.startsWith('regexp:')) {
+    try {
+      return new RegExp(pattern.slice('regexp:'.length)).test(domain)
+    } catch {
+      return false
+    }
+  }
+  if (lower.startsWith('domain:')) {
+    const value = lower.slice('domain:'.length)
+    return domain === value || domain.endsWith(`.${value}`)
+  }
+  if (lower.startsWith('full:')) return domain === lower.slice('full:'.length)
+  if (lower.startsWith('keyword:')) return domain.includes(lower.slice('keyword:'.length))
+  if (lower.startsWith('dotless:')) return !domain.includes('.') && domain.includes(lower.slice('dotless:'.length))
+  // A bare value is a keyword (substring) match
+  return domain.includes(lower)
+}
+
+function matchDomainList(patterns: string[], domain: string): PatternResult {
+  let unknownPattern: string | undefined
+  for (const pattern of patterns) {
+    const matched = matchDomainPattern(pattern, domain)
+    if (matched === null) unknownPattern ??= pattern
+    else if (matched) return { status: 'match', pattern }
+  }
+  return unknownPattern ? { status: 'unknown', pattern: unknownPattern } : { status: 'mismatch' }
+}
+
+function matchUserList(patterns: string[], user: string): PatternResult {
+  for (const pattern of patterns) {
+    if (pattern.startsWith('regexp:')) {
+      try {
+        if (new RegExp(pattern.slice('regexp:'.length)).test(user)) return { status: 'match', pattern }
+      } catch {
+        return { status: 'mismatch', invalid: pattern }
+      }
+    } else if (pattern === user) {
+      return { status: 'match', pattern }
+    }
+  }
+  return { status: 'mismatch' }
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+interface EvaluationContext {
+  connection: SimulatedConnection
+  domain: string | null
+  destinationIp: ParsedIp | null
+  resolvedIp: ParsedIp | null
+  strategy: RoutingDomainStrategy
+  pass: 'domain' | 'ip'
+}
+
+function fromPattern(field: string, result: PatternResult, value: string): ConditionResult {
+  if (result.invalid) return { field, status: 'mismatch', reason: 'invalidValue', pattern: result.invalid, value }
+  if (result.status === 'match') return { field, status: 'match', reason: 'matched', pattern: result.pattern, value }
+  if (result.status === 'unknown') return { field, status: 'unknown', reason: 'geoData', pattern: result.pattern, value }
+  return { field, status: 'mismatch', reason: 'notListed', value }
+}
+
+function evaluateIpCondition(field: string, patterns: string[], ctx: EvaluationContext): ConditionResult {
+  let ip = ctx.destinationIp
+  if (!ip && ctx.domain) {
+    if (ctx.strategy === 'AsIs') return { field, status: 'mismatch', reason: 'notResolvedAsIs', value: ctx.domain }
+    if (ctx.strategy === 'IPIfNonMatch' && ctx.pass === 'domain') return { field, status: 'mismatch', reason: 'resolvedLater', value: ctx.domain }
+    ip = ctx.resolvedIp
+    if (!ip) return { field, status: 'unknown', reason: 'needsResolvedIp', value: ctx.domain }
+  }
+  if (!ip) return { field, status: 'unknown', reason: 'missingInput' }
+  const value = ip === ctx.destinationIp ? ctx.connection.destination.trim() : ctx.connection.resolvedIp.trim()
+  return fromPattern(field, matchIpList(patterns, ip), value)
+}
+
+function evaluateCondition(field: (typeof CONDITION_KEYS)[number], raw: unknown, ctx: EvaluationContext): ConditionResult {
+  const { connection } = ctx
+  if (NOT_SIMULATED_KEYS.has(field)) return { field, status: 'unknown', reason: 'notSimulated' }
+
+  switch (field) {
+    case 'inboundTag': {
+      const tags = toList(raw)
+      const value = connection.inboundTag.trim()
+      return tags.includes(value) ? { field, status: 'match', reason: 'matched', pattern: value, value } : { field, status: 'mismatch', reason: value ? 'notListed' : 'missingInput', value }
+    }
+    case 'domain':
+    case 'domains': {
+      if (!ctx.domain) return { field, status: 'mismatch', reason: 'noDomain', value: connection.destination.trim() }
+      return fromPattern(field, matchDomainList(toList(raw, false), ctx.domain), ctx.domain)
+    }
+    case 'ip':
+      return evaluateIpCondition(field, toList(raw), ctx)
+    case 'source':
+    case 'sourceIP': {
+      const ip = parseIp(connection.sourceIp)
+      if (!ip) return { field, status: 'unknown', reason: 'missingInput' }
+      return fromPattern(field, matchIpList(toList(raw), ip), connection.sourceIp.trim())
+    }
+    case 'port':
+    case 'vlessRoute': {
+      const input = field === 'port' ? connection.port : connection.vlessRoute
+      const port = parsePortNumber(input)
+      if (port === null) return { field, status: field === 'port' ? 'unknown' : 'mismatch', reason: 'missingInput' }
+      const result = portListMatches(raw, port)
+      if (result.invalid) return { field, status: 'mismatch', reason: 'invalidValue', pattern: result.invalid, value: String(port) }
+      return result.matched ? { field, status: 'match', reason: 'matched', pattern: result.pattern, value: String(port) } : { field, status: 'mismatch', reason: 'notListed', value: String(port) }
+    }
+    case 'network': {
+      const networks = toList(raw).map(item => item.toLowerCase())
+      return networks.includes(connection.network)
+        ? { field, status: 'match', reason: 'matched', pattern: connection.network, value: connection.network }
+        : { field, status: 'mismatch', reason: 'notListed', value: connection.network }
+    }
+    case 'protocol': {
+      const protocols = toList(raw).map(item => item.toLowerCase())
+      const value = connection.protocol.trim().toLowerCase()
+      return value && protocols.includes(value)
+        ? { field, status: 'match', reason: 'matched', pattern: value, value }
+        : { field, status: 'mismatch', reason: value ? 'notListed' : 'missingInput', value }
+    }
+    case 'user': {
+      const value = connection.user.trim()
+      if (!value) return { field, status: 'mismatch', reason: 'missingInput' }
+      return fromPattern(field, matchUserList(toList(raw, false), value), value)
+    }
+    default:
+      return { field, status: 'unknown', reason: 'notSimulated' }
+  }
+}
+
+function ruleTarget(rule: Record<string, unknown>): RuleTarget {
+  // outboundTag wins when both are set, like in Xray
+  const outbound = String(rule.outboundTag ?? '').trim()
+  if (outbound) return { kind: 'outbound', tag: outbound }
+  const balancer = String(rule.balancerTag ?? '').trim()
+  if (balancer) return { kind: 'balancer', tag: balancer }
+  return { kind: 'none' }
+}
+
+function evaluateRule(rule: RoutingRule, index: number, ctx: EvaluationContext): RuleEvaluation {
+  const record = rule as unknown as Record<string, unknown>
+  const ruleTag = String(record.ruleTag ?? record.tag ?? '').trim() || undefined
+  const conditions = CONDITION_KEYS.filter(key => !isEmptyValue(record[key])).map(key => evaluateCondition(key, record[key], ctx))
+  const base = { index, ruleTag, target: ruleTarget(record), conditions, pass: ctx.pass }
+
+  // Xray refuses rules without conditions, so they never route anything
+  if (conditions.length === 0) return { ...base, status: 'noConditions' }
+  if (conditions.some(condition => condition.status === 'mismatch')) return { ...base, status: 'notMatched' }
+  if (conditions.some(condition => condition.status === 'unknown')) return { ...base, status: 'undetermined' }
+  return { ...base, status: 'matched' }
+}
+
+const usesIp = (rule: RoutingRule) => !isEmptyValue((rule as unknown as Record<string, unknown>).ip)
+
+function resolveOutcome(profile: Profile, matched: RuleEvaluation | null): RoutingOutcome {
+  const outboundTags = (profile.outbounds ?? []).map(outbound => String(outbound?.tag ?? '')).filter(Boolean)
+
+  if (!matched || matched.target.kind === 'none') return { kind: 'default', tag: outboundTags[0] ?? null }
+  if (matched.target.kind === 'outbound') return { kind: 'outbound', tag: matched.target.tag, exists: outboundTags.includes(matched.target.tag) }
+
+  const balancerTag = matched.target.tag
+  const balancer = (profile.routing?.balancers ?? []).find(item => item.tag === balancerTag)
+  if (!balancer) return { kind: 'balancer', tag: balancerTag, exists: false, candidates: [] }
+  // Selector entries are tag prefixes
+  const selector = balancer.selector ?? []
+  const candidates = outboundTags.filter(tag => selector.some(prefix => tag.startsWith(prefix)))
+  return { kind: 'balancer', tag: balancerTag, exists: true, candidates, fallbackTag: balancer.fallbackTag || undefined, strategy: balancer.strategy?.type || 'random' }
+}
+
+export function normalizeDomainStrategy(value: unknown): RoutingDomainStrategy {
+  return value === 'IPIfNonMatch' || value === 'IPOnDemand' ? value : 'AsIs'
+}
+
+export function simulateRouting(profile: Profile, connection: SimulatedConnection): RoutingSimulation {
+  const rules = profile.routing?.rules ?? []
+  const strategy = normalizeDomainStrategy(profile.routing?.domainStrategy)
+  const destination = connection.destination.trim()
+  const destinationIp = parseIp(destination)
+  const ctx: EvaluationContext = {
+    connection,
+    domain: destinationIp || !destination ? null : destination.toLowerCase().replace(/\.$/, ''),
+    destinationIp,
+    resolvedIp: parseIp(connection.resolvedIp),
+    strategy,
+    pass: 'domain',
+  }
+
+  const evaluations: RuleEvaluation[] = []
+  const undeterminedBefore: number[] = []
+  let matched: RuleEvaluation | null = null
+
+  const runPass = (candidates: { rule: RoutingRule; index: number }[], pass: 'domain' | 'ip') => {
+    for (const { rule, index } of candidates) {
+      const evaluation = evaluateRule(rule, index, { ...ctx, pass })
+      evaluations.push(evaluation)
+      if (evaluation.status === 'undetermined') undeterminedBefore.push(index)
+      if (evaluation.status === 'matched') return evaluation
+    }
+    return null
+  }
+
+  const indexed = rules.map((rule, index) => ({ rule, index }))
+  matched = runPass(indexed, 'domain')
+  // IPIfNonMatch resolves the domain and retries the rules that look at IPs
+  if (!matched && strategy === 'IPIfNonMatch' && ctx.domain) {
+    matched = runPass(
+      indexed.filter(({ rule }) => usesIp(rule)),
+      'ip',
+    )
+  }
+
+  return {
+    domainStrategy: strategy,
+    evaluations,
+    matched,
+    outcome: resolveOutcome(profile, matched),
+    undeterminedBefore: [...new Set(undeterminedBefore)].filter(index => index !== matched?.index),
+  }
+}
@@ -0,0 +1,381 @@
+import type { Profile } from '@pasarguard/xray-config-kit'
+import { CONDITION_KEYS, isEmptyValue, simulateRouting, toList } from '@/features/core-editor/kit/routing-simulator'
+
+/**
+ * Semantic lint for Xray profiles, on top of the schema checks in xray-config-kit. Each rule has a
+ * stable ID and a fixed severity; findings carry the values for their message and, where the
+ * intent is clear, a quick fix that {@link applyXrayLintFix} can apply to the draft.
+ */
+
+export type XrayLintSeverity = 'error' | 'warning' | 'info'
+
+export const XRAY_LINT_RULES = {
+  'routing.outbound.unknown': 'error',
+  'routing.balancer.unknown': 'error',
+  'routing.rule.shadowed': 'warning',
+  'balancer.selector.empty': 'warning',
+  'reality.target.cdn': 'warning',
+  'inbound.port.duplicate': 'error',
+  'dns.server.unreachable': 'warning',
+  'outbound.unused': 'info',
+} as const satisfies Record<string, XrayLintSeverity>
+
+export type XrayLintRuleId = keyof typeof XRAY_LINT_RULES
+
+export type XrayLintFix =
+  | { kind: 'useBalancer'; ruleIndex: number; tag: string }
+  | { kind: 'useOutbound'; ruleIndex: number; tag: string }
+  | { kind: 'removeRule'; ruleIndex: number }
+  | { kind: 'removeBalancer'; balancerIndex: number }
+  | { kind: 'setInboundPort'; inboundIndex: number; port: number }
+  | { kind: 'removeOutbound'; outboundIndex: number }
+
+export interface XrayLintFinding {
+  rule: XrayLintRuleId
+  severity: XrayLintSeverity
+  /** 1-based JSON pointer, matching the paths of kit issues. */
+  path: string
+  /** Values interpolated into the rule's message. */
+  params: Record<string, string | number>
+  fix?: XrayLintFix
+}
+
+type JsonRecord = Record<string, unknown>
+
+/** Reality targets behind these CDNs share IPs and certificates with countless sites, so probes can tell the server is not the real one. */
+const CDN_DOMAINS = [
+  'cloudflare.com',
+  'cloudflare.net',
+  'cloudfront.net',
+  'akamai.net',
+  'akamaihd.net',
+  'akamaized.net',
+  'akamaiedge.net',
+  'edgekey.net',
+  'edgesuite.net',
+  'fastly.net',
+  'fastly.com',
+  'fastlylb.net',
+  'azureedge.net',
+  'azurefd.net',
+  'cdn77.org',
+  'b-cdn.net',
+  'jsdelivr.net',
+  'gcdn.co',
+]
+
+const UDP_TRANSPORTS = new Set(['kcp', 'mkcp', 'quic', 'hysteria'])
+const UDP_PROTOCOLS = new Set(['wireguard', 'hysteria'])
+const WILDCARD_LISTEN = new Set(['', '0.0.0.0', '::', '[::]'])
+
+const records = (value: unknown): JsonRecord[] => (Array.isArray(value) ? value.map(item => (item && typeof item === 'object' ? (item as JsonRecord) : {})) : [])
+const str = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+
+function makeFinding(rule: XrayLintRuleId, path: string, params: XrayLintFinding['params'], fix?: XrayLintFix): XrayLintFinding {
+  return { rule, severity: XRAY_LINT_RULES[rule], path, params, ...(fix ? { fix } : {}) }
+}
+
+// ─── Routing targets ─────────────────────────────────────────────────────────
+
+function lintRuleTargets(rules: JsonRecord[], outboundTags: Set<string>, balancerTags: Set<string>): XrayLintFinding[] {
+  const findings: XrayLintFinding[] = []
+  rules.forEach((rule, index) => {
+    const outbound = str(rule.outboundTag)
+    const balancer = str(rule.balancerTag)
+    // outboundTag wins when both are set, like in Xray
+    if (outbound && !outboundTags.has(outbound)) {
+      const fix: XrayLintFix | undefined = balancerTags.has(outbound) ? { kind: 'useBalancer', ruleIndex: index, tag: outbound } : undefined
+      findings.push(makeFinding('routing.outbound.unknown', `/routing/rules/${index + 1}/outboundTag`, { rule: index + 1, tag: outbound }, fix))
+    } else if (!outbound && balancer && !balancerTags.has(balancer)) {
+      const fix: XrayLintFix | undefined = outboundTags.has(balancer) ? { kind: 'useOutbound', ruleIndex: index, tag: balancer } : undefined
+      findings.push(makeFinding('routing.balancer.unknown', `/routing/rules/${index + 1}/balancerTag`, { rule: index + 1, tag: balancer }, fix))
+    }
+  })
+  return findings
+}
+
+// ─── Shadowed rules ──────────────────────────────────────────────────────────
+
+const CASE_INSENSITIVE_KEYS = new Set(['domain', 'domains', 'network', 'protocol'])
+const PORT_KEYS = new Set(['port', 'sourcePort', 'localPort', 'vlessRoute'])
+/** Lists whose entries may contain regexes, so commas are not separators. */
+const UNSPLIT_KEYS = new Set(['domain', 'domains', 'user', 'process'])
+
+function parsePortRanges(value: unknown): [number, number][] | null {
+  const ranges: [number, number][] = []
+  for (const segment of toList(value)) {
+    const range = segment.match(/^(\d+)(?:-(\d+))?$/)
+    if (!range) return null
+    ranges.push([Number(range[1]), Number(range[2] ?? range[1])])
+  }
+  return ranges
+}
+
+/** True when every value the later rule accepts for `key` is also accepted by the earlier one. */
+function conditionCovers(key: string, earlier: unknown, later: unknown): boolean {
+  if (PORT_KEYS.has(key)) {
+    const outer = parsePortRanges(earlier)
+    const inner = parsePortRanges(later)
+    if (!outer || !inner) return false
+    return inner.every(([from, to]) => outer.some(([start, end]) => from >= start && to <= end))
+  }
+  if (key === 'attrs') return JSON.stringify(earlier) === JSON.stringify(later)
+  const normalize = (value: unknown) => toList(value, !UNSPLIT_KEYS.has(key)).map(item => (CASE_INSENSITIVE_KEYS.has(key) ? item.toLowerCase() : item))
+  const outer = new Set(normalize(earlier))
+  return normalize(later).every(item => outer.has(item))
+}
+
+function ruleConditions(rule: JsonRecord) {
+  return CONDITION_KEYS.filter(key => !isEmptyValue(rule[key]))
+}
+
+/**
+ * A rule is shadowed when an earlier rule checks a subset of its conditions with at least the same
+ * values: any connection the later rule would match has already been taken. Only exact value
+ * inclusion is compared, so overlaps through keywords, geo lists or CIDRs are not reported.
+ */
+function lintShadowedRules(rules: JsonRecord[]): XrayLintFinding[] {
+  const findings: XrayLintFinding[] = []
+  const conditions = rules.map(ruleConditions)
+  rules.forEach((rule, index) => {
+    if (conditions[index].length === 0) return
+    const shadowing = rules.findIndex(
+      (earlier, earlierIndex) =>
+        earlierIndex < index && conditions[earlierIndex].length > 0 && conditions[earlierIndex].every(key => conditions[index].includes(key) && conditionCovers(key, earlier[key], rule[key])),
+    )
+    if (shadowing >= 0) {
+      findings.push(makeFinding('routing.rule.shadowed', `/routing/rules/${index + 1}`, { rule: index + 1, by: shadowing + 1 }, { kind: 'removeRule', ruleIndex: index }))
+    }
+  })
+  return findings
+}
+
+// ─── Balancers ───────────────────────────────────────────────────────────────
+
+function lintBalancerSelectors(balancers: JsonRecord[], outboundTags: string[], rules: JsonRecord[]): XrayLintFinding[] {
+  const findings: XrayLintFinding[] = []
+  balancers.forEach((balancer, index) => {
+    // Selector entries are tag prefixes
+    const selector = toList(balancer.selector, false)
+    if (outboundTags.some(tag => selector.some(prefix => tag.startsWith(prefix)))) return
+    const tag = str(balancer.tag)
+    const referenced = rules.some(rule => str(rule.balancerTag) === tag || str(rule.outboundTag) === tag)
+    findings.push(
+      makeFinding(
+        'balancer.selector.empty',
+        `/routing/balancers/${index + 1}/selector`,
+        { tag, selector: selector.join(', ') },
+        referenced ? undefined : { kind: 'removeBalancer', balancerIndex: index },
+      ),
+    )
+  })
+  return findings
+}
+
+// ─── Inbounds ────────────────────────────────────────────────────────────────
+
+function targetHost(target: string): string {
+  const host = target.replace(/^[a-z]+:\/\//i, '').split('/')[0]
+  if (host.startsWith('[')) return host.slice(1, host.indexOf(']'))
+  return (host.split(':').length > 2 ? host : host.split(':')[0]).toLowerCase().replace(/\.$/, '')
+}
+
+function lintRealityTargets(inbounds: JsonRecord[]): XrayLintFinding[] {
+  const findings: XrayLintFinding[] = []
+  inbounds.forEach((inbound, index) => {
+    const security = inbound.security as JsonRecord | undefined
+    if (!security || security.type !== 'reality') return
+    const target = str(security.target) || str(security.dest)
+    if (!target) return
+    const host = targetHost(target)
+    const cdn = CDN_DOMAINS.find(domain => host === domain || host.endsWith(`.${domain}`))
+    if (cdn) findings.push(makeFinding('reality.target.cdn', `/inbounds/${index + 1}/security/target`, { inbound: str(inbound.tag) || `#${index + 1}`, target, cdn }))
+  })
+  return findings
+}
+
+function inboundSocket(inbound: JsonRecord): 'tcp' | 'udp' {
+  const transport = str((inbound.transport as JsonRecord | undefined)?.type).toLowerCase()
+  return UDP_PROTOCOLS.has(str(inbound.protocol)) || UDP_TRANSPORTS.has(transport) ? 'udp' : 'tcp'
+}
+
+function lintDuplicatePorts(inbounds: JsonRecord[]): XrayLintFinding[] {
+  const bound = inbounds.map(inbound => {
+    const listen = str(inbound.listen)
+    // Unix sockets and env-provided ports cannot clash on a port number
+    const ranges = listen.startsWith('/') || listen.startsWith('@') ? null : parsePortRanges(inbound.port)
+    return { listen: WILDCARD_LISTEN.has(listen) ? '' : listen, ranges, socket: inboundSocket(inbound) }
+  })
+  // Suggested ports go above every port already taken
+  let lastPort = Math.max(1023, ...bound.flatMap(({ ranges }) => (ranges ?? []).map(([, to]) => to)))
+
+  const findings: XrayLintFinding[] = []
+  bound.forEach((current, index) => {
+    if (!current.ranges?.length) return
+    const clash = bound.findIndex(
+      (other, otherIndex) =>
+        otherIndex < index &&
+        !!other.ranges &&
+        other.socket === current.socket &&
+        (other.listen === '' || current.listen === '' || other.listen === current.listen) &&
+        other.ranges.some(([start, end]) => current.ranges!.some(([from, to]) => from <= end && to >= start)),
+    )
+    if (clash < 0) return
+    const single = current.ranges.length === 1 && current.ranges[0][0] === current.ranges[0][1]
+    findings.push(
+      makeFinding(
+        'inbound.port.duplicate',
+        `/inbounds/${index + 1}/port`,
+        { inbound: str(inbounds[index].tag) || `#${index + 1}`, other: str(inbounds[clash].tag) || `#${clash + 1}`, port: String(inbounds[index].port) },
+        single && lastPort < 65535 ? { kind: 'setInboundPort', inboundIndex: index, port: ++lastPort } : undefined,
+      ),
+    )
+  })
+  return findings
+}
+
+// ─── DNS ─────────────────────────────────────────────────────────────────────
+
+const DNS_SCHEME_DEFAULTS: Record<string, { port: number; network: 'tcp' | 'udp' }> = {
+  https: { port: 443, network: 'tcp' },
+  tcp: { port: 53, network: 'tcp' },
+  quic: { port: 853, network: 'udp' },
+  udp: { port: 53, network: 'udp' },
+}
+
+/** Where a DNS server's queries go, or null for servers that do not pass through routing. */
+function dnsServerEndpoint(server: unknown): { address: string; host: string; port: number; network: 'tcp' | 'udp'; tag: string } | null {
+  const entry = typeof server === 'string' ? { address: server } : server && typeof server === 'object' ? (server as JsonRecord) : null
+  const address = str(entry?.address)
+  if (!entry || !address || address === 'localhost' || address === 'fakedns') return null
+  const scheme = address.match(/^([a-z+]+):\/\//i)?.[1].toLowerCase()
+  // `+local` servers query directly from the host and skip routing
+  if (scheme?.endsWith('+local')) return null
+  const defaults = DNS_SCHEME_DEFAULTS[scheme ?? 'udp']
+  if (!defaults) return null
+  const rest = scheme ? address.slice(scheme.length + 3).split('/')[0] : address
+  const host = targetHost(rest)
+  const inlinePort = rest.match(/:(\d+)$/)?.[1]
+  const port = Number(entry.port ?? inlinePort ?? defaults.port)
+  return { address, host, port, network: defaults.network, tag: str(entry.tag) }
+}
+
+/** DNS servers whose queries routing would send to a blackhole outbound. Rules depending on unknown data are given the benefit of the doubt. */
+function lintDnsServers(profile: Profile, outbounds: JsonRecord[]): XrayLintFinding[] {
+  const dns = profile.dns as unknown as { servers?: unknown[]; tag?: string } | undefined
+  const blackholes = new Set(outbounds.filter(outbound => outbound.protocol === 'blackhole').map(outbound => str(outbound.tag)))
+  if (!dns?.servers?.length || blackholes.size === 0) return []
+
+  const findings: XrayLintFinding[] = []
+  dns.servers.forEach((server, index) => {
+    const endpoint = dnsServerEndpoint(server)
+    if (!endpoint) return
+    const simulation = simulateRouting(profile, {
+      inboundTag: endpoint.tag || str(dns.tag),
+      user: '',
+      destination: endpoint.host,
+      resolvedIp: '',
+      port: String(endpoint.port),
+      network: endpoint.network,
+      protocol: '',
+      sourceIp: '',
+      vlessRoute: '',
+    })
+    if (simulation.undeterminedBefore.length > 0) return
+    const { outcome } = simulation
+    const blocked =
+      outcome.kind === 'balancer' ? outcome.exists && outcome.candidates.length > 0 && outcome.candidates.every(tag => blackholes.has(tag)) : outcome.tag !== null && blackholes.has(outcome.tag)
+    if (!blocked) return
+    const outbound = outcome.kind === 'balancer' ? outcome.candidates.join(', ') : (outcome.tag ?? '')
+    findings.push(makeFinding('dns.server.unreachable', `/dns/servers/${index + 1}`, { server: endpoint.address, outbound }))
+  })
+  return findings
+}
+
+// ─── Outbounds ───────────────────────────────────────────────────────────────
+
+function collectDialerProxies(value: unknown, into: Set<string>) {
+  if (!value || typeof value !== 'object') return
+  for (const [key, item] of Object.entries(value as JsonRecord)) {
+    if (key === 'dialerProxy' && typeof item === 'string') into.add(item.trim())
+    else collectDialerProxies(item, into)
+  }
+}
+
+/** Outbounds no rule, balancer, proxy chain or the default route can send traffic to. */
+function lintUnusedOutbounds(outbounds: JsonRecord[], rules: JsonRecord[], balancers: JsonRecord[]): XrayLintFinding[] {
+  const used = new Set<string>()
+  for (const rule of rules) used.add(str(rule.outboundTag))
+  for (const balancer of balancers) {
+    const selector = toList(balancer.selector, false)
+    outbounds.forEach(outbound => {
+      const tag = str(outbound.tag)
+      if (selector.some(prefix => tag.startsWith(prefix))) used.add(tag)
+    })
+    used.add(str(balancer.fallbackTag))
+  }
+  for (const outbound of outbounds) {
+    used.add(str((outbound.proxySettings as JsonRecord | undefined)?.tag))
+    collectDialerProxies(outbound, used)
+  }
+
+  const findings: XrayLintFinding[] = []
+  outbounds.forEach((outbound, index) => {
+    const tag = str(outbound.tag)
+    // The first outbound is the default route
+    if (index === 0 || !tag || used.has(tag)) return
+    findings.push(makeFinding('outbound.unused', `/outbounds/${index + 1}`, { tag }, { kind: 'removeOutbound', outboundIndex: index }))
+  })
+  return findings
+}
+
+// ─── Entry points ────────────────────────────────────────────────────────────
+
+export function lintXrayProfile(profile: Profile): XrayLintFinding[] {
+  const inbounds = records(profile.inbounds)
+  const outbounds = records(profile.outbounds)
+  const rules = records(profile.routing?.rules)
+  const balancers = records(profile.routing?.balancers)
+  const outboundTags = outbounds.map(outbound => str(outbound.tag)).filter(Boolean)
+
+  return [
+    ...lintRuleTargets(rules, new Set(outboundTags), new Set(balancers.map(balancer => str(balancer.tag)).filter(Boolean))),
+    ...lintShadowedRules(rules),
+    ...lintBalancerSelectors(balancers, outboundTags, rules),
+    ...lintRealityTargets(inbounds),
+    ...lintDuplicatePorts(inbounds),
+    ...lintDnsServers(profile, outbounds),
+    ...lintUnusedOutbounds(outbounds, rules, balancers),
+  ]
+}
+
+const withoutIndex = <T>(items: T[] | undefined, index: number) => (items ?? []).filter((_, i) => i !== index)
+
+export function applyXrayLintFix(profile: Profile, fix: XrayLintFix): Profile {
+  const routing = (profile.routing ?? {}) as unknown as { rules?: JsonRecord[]; balancers?: JsonRecord[] }
+  const withRouting = (next: typeof routing) => ({ ...profile, routing: { ...routing, ...next } }) as unknown as Profile
+
+  switch (fix.kind) {
+    case 'useBalancer':
+    case 'useOutbound': {
+      const rules = (routing.rules ?? []).map((rule, index) => {
+        if (index !== fix.ruleIndex) return rule
+        const next = { ...rule }
+        delete next.outboundTag
+        delete next.balancerTag
+        return fix.kind === 'useBalancer' ? { ...next, balancerTag: fix.tag } : { ...next, outboundTag: fix.tag }
+      })
+      return withRouting({ rules })
+    }
+    case 'removeRule':
+      return withRouting({ rules: withoutIndex(routing.rules, fix.ruleIndex) })
+    case 'removeBalancer':
+      return withRouting({ balancers: withoutIndex(routing.balancers, fix.balancerIndex) })
+    case 'setInboundPort': {
+      const inbounds = records(profile.inbounds).map((inbound, index) => (index === fix.inboundIndex ? { ...inbound, port: fix.port } : inbound))
+      return { ...profile, inbounds } as unknown as Profile
+    }
+    case 'removeOutbound':
+      return { ...profile, outbounds: withoutIndex(records(profile.outbounds), fix.outboundIndex) } as unknown as Profile
+  }
+}
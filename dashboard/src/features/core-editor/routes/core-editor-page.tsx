@@ -6,9 +6,12 @@ import { Skeleton } from '@/components/ui/skeleton'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { CoreCommandMenu } from '@/features/core-editor/components/shared/core-command-menu'
+import { CoreRevisionHistoryButton } from '@/features/core-editor/components/shared/core-revision-history-dialog'
+import { CoreRolloutButton } from '@/features/core-editor/components/shared/core-rollout-dialog'
 import { CoreEditorLayout } from '@/features/core-editor/components/shell/core-editor-layout'
 import { CoreSectionTabsPlaceholder } from '@/features/core-editor/components/shell/core-section-sidebar'
-import { ValidationSummary, type ValidationListItem } from '@/features/core-editor/components/shared/validation-summary'
+import { filterValidationListBlockingErrors, ValidationSummary, type ValidationListItem } from '@/features/core-editor/components/shared/validation-summary'
+import type { CoreRolloutOutcome } from '@/features/core-editor/hooks/use-core-rollout'
 import type { SectionHeaderAddPulse } from '@/features/core-editor/hooks/use-section-header-add-pulse'
 import { useXrayPersistValidationItems } from '@/features/core-editor/hooks/use-xray-persist-validation-items'
 import { WireGuardCoreEditor } from '@/features/core-editor/components/wg/wireguard-core-editor'
@@ -19,7 +22,7 @@ import { selectCoreEditorHasActualChanges } from '@/features/core-editor/kit/cor
 import { useCoreEditorStore } from '@/features/core-editor/state/core-editor-store'
 import type { WgCoreSection, XrayCoreSection } from '@/features/core-editor/state/core-editor-store'
 import type { CoreKind } from '@pasarguard/core-kit'
-import { getGetCoreConfigQueryKey, useCreateCoreConfig, useGetCoreConfig, useModifyCoreConfig } from '@/service/api'
+import { getGetCoreConfigQueryKey, getGetCoreRevisionsQueryKey, useCreateCoreConfig, useGetCoreConfig, useModifyCoreConfig, type CoreCreate } from '@/service/api'
 import { queryClient } from '@/utils/query-client'
 import { ArrowLeft } from 'lucide-react'
 import { useCallback, useEffect, useLayoutEffect, useMemo, useState } from 'react'
@@ -185,6 +188,8 @@ export default function CoreEditorPage() {
   const markClean = useCoreEditorStore(s => s.markClean)
   const restartNodes = useCoreEditorStore(s => s.restartNodes)
   const setRestartNodes = useCoreEditorStore(s => s.setRestartNodes)
+  const saveNote = useCoreEditorStore(s => s.saveNote)
+  const setSaveNote = useCoreEditorStore(s => s.setSaveNote)
   const switchKind = useCoreEditorStore(s => s.switchKind)
   const fallbacksInboundTags = useCoreEditorStore(s => s.fallbacksInboundTags)
   const excludeInboundTags = useCoreEditorStore(s => s.excludeInboundTags)
@@ -295,6 +300,7 @@ export default function CoreEditorPage() {
               exclude_inbound_tags: [],
               fallbacks_inbound_tags: [],
             },
+            params: { note: saveNote.trim() || undefined },
           })
           toast.success(t('coreConfigModal.createSuccess', { name }))
           markClean()
@@ -311,13 +317,14 @@ export default function CoreEditorPage() {
               exclude_inbound_tags: [],
               fallbacks_inbound_tags: [],
             },
-            params: { restart_nodes: restartNodes },
+            params: { restart_nodes: restartNodes, note: saveNote.trim() || undefined },
           })
           toast.success(t('coreConfigModal.editSuccess', { name }))
           markClean()
           queryClient.invalidateQueries({ queryKey: ['/api/cores'] })
           queryClient.invalidateQueries({ queryKey: ['/api/cores/simple'] })
           queryClient.invalidateQueries({ queryKey: getGetCoreConfigQueryKey(numericId) })
+          queryClient.invalidateQueries({ queryKey: getGetCoreRevisionsQueryKey(numericId) })
         }
         return
       }
@@ -333,6 +340,7 @@ export default function CoreEditorPage() {
               exclude_inbound_tags: excludeInboundTags,
               fallbacks_inbound_tags: fallbacksInboundTags,
             },
+            params: { note: saveNote.trim() || undefined },
           })
           toast.success(t('coreConfigModal.createSuccess', { name }))
           markClean()
@@ -349,13 +357,14 @@ export default function CoreEditorPage() {
               exclude_inbound_tags: excludeInboundTags,
               fallbacks_inbound_tags: fallbacksInboundTags,
             },
-            params: { restart_nodes: restartNodes },
+            params: { restart_nodes: restartNodes, note: saveNote.trim() || undefined },
           })
           toast.success(t('coreConfigModal.editSuccess', { name }))
           markClean()
           queryClient.invalidateQueries({ queryKey: ['/api/cores'] })
           queryClient.invalidateQueries({ queryKey: ['/api/cores/simple'] })
           queryClient.invalidateQueries({ queryKey: getGetCoreConfigQueryKey(numericId) })
+          queryClient.invalidateQueries({ queryKey: getGetCoreRevisionsQueryKey(numericId) })
         }
       }
     } catch (e: unknown) {
@@ -378,6 +387,7 @@ export default function CoreEditorPage() {
     fallbacksInboundTags,
     excludeInboundTags,
     restartNodes,
+    saveNote,
     createMutation,
     modifyMutation,
     markClean,
@@ -385,6 +395,54 @@ export default function CoreEditorPage() {
     t,
   ])
 
+  /** Staged rollouts ship the unsaved Xray draft; see {@link CoreRolloutButton}. */
+  const rolloutCandidate = useMemo((): CoreCreate | null => {
+    if (kind !== 'xray' || !xrayProfile || !hasActualChanges || !coreName.trim()) return null
+    return {
+      name: coreName.trim(),
+      type: 'xray',
+      config: profileToPersistedConfig(xrayProfile),
+      exclude_inbound_tags: excludeInboundTags,
+      fallbacks_inbound_tags: fallbacksInboundTags,
+    }
+  }, [kind, xrayProfile, hasActualChanges, coreName, excludeInboundTags, fallbacksInboundTags])
+
+  const rolloutPrevious = useMemo(
+    (): CoreCreate | null =>
+      coreData
+        ? {
+            name: coreData.name,
+            type: coreData.type,
+            config: coreData.config,
+            exclude_inbound_tags: coreData.exclude_inbound_tags,
+            fallbacks_inbound_tags: coreData.fallbacks_inbound_tags,
+          }
+        : null,
+    [coreData],
+  )
+
+  const rolloutBlockedReason = !hasActualChanges
+    ? t('coreEditor.rollout.noChanges', { defaultValue: 'There are no unsaved changes to roll out.' })
+    : filterValidationListBlockingErrors(preSaveIssues).length > 0 || !rolloutCandidate
+      ? t('coreEditor.rollout.hasErrors', { defaultValue: 'Fix the validation errors before rolling out.' })
+      : null
+
+  const handleRolloutFinished = useCallback(
+    (outcome: CoreRolloutOutcome, rolledOut: CoreCreate) => {
+      if (outcome === 'completed') {
+        toast.success(t('coreEditor.rollout.completedToast', { name: rolledOut.name, defaultValue: 'Rollout of «{{name}}» completed' }))
+        // Edits made while the rollout ran stay unsaved.
+        if (rolloutCandidate && JSON.stringify(rolloutCandidate) === JSON.stringify(rolledOut)) markClean()
+      } else {
+        toast.error(t('coreEditor.rollout.rolledBackToast', { name: rolledOut.name, defaultValue: 'Rollout of «{{name}}» was rolled back' }))
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/cores'] })
+      queryClient.invalidateQueries({ queryKey: getGetCoreConfigQueryKey(numericId) })
+      queryClient.invalidateQueries({ queryKey: getGetCoreRevisionsQueryKey(numericId) })
+    },
+    [rolloutCandidate, markClean, numericId, t],
+  )
+
   const nameRequiredMessage = t('coreConfigModal.nameRequired', { defaultValue: 'Core name is required' })
   const showNameRequired = nameSubmitAttempted && coreName.trim() === ''
   const canSaveCore = isNew || hasActualChanges
@@ -403,7 +461,12 @@ export default function CoreEditorPage() {
           <ArrowLeft className="h-5 w-5" />
         </Button>
         <div className="min-w-0 flex-1 space-y-2">
-          <div className="grid max-w-2xl grid-cols-[1fr_auto] items-center gap-2 sm:gap-3">
+          <div
+            className={cn(
+              'grid max-w-2xl items-center gap-2 sm:gap-3',
+              validId && !isNew ? (kind === 'xray' ? 'grid-cols-[1fr_auto_auto_auto]' : 'grid-cols-[1fr_auto_auto]') : 'grid-cols-[1fr_auto]',
+            )}
+          >
             <Input
               value={coreName}
               onChange={e => {
@@ -443,6 +506,10 @@ export default function CoreEditorPage() {
                 <SelectItem value="wg">WireGuard</SelectItem>
               </SelectContent>
             </Select>
+            {validId && !isNew && <CoreRevisionHistoryButton coreId={numericId} />}
+            {validId && !isNew && kind === 'xray' && (
+              <CoreRolloutButton coreId={numericId} candidate={rolloutCandidate} previous={rolloutPrevious} note={saveNote} blockedReason={rolloutBlockedReason} onFinished={handleRolloutFinished} />
+            )}
           </div>
           {kind === 'xray' && xrayImportWarnings.length > 0 && (
             <Alert>
@@ -582,6 +649,8 @@ export default function CoreEditorPage() {
         showRestart={!isNew}
         restartNodes={restartNodes}
         onRestartChange={setRestartNodes}
+        saveNote={saveNote}
+        onSaveNoteChange={setSaveNote}
       />
       <AlertDialog open={discardOpen} onOpenChange={setDiscardOpen}>
         <AlertDialogContent>
@@ -2,7 +2,7 @@ import type { CoreKind } from '@pasarguard/core-kit'
 import type { Profile } from '@pasarguard/xray-config-kit'
 import type { WireGuardCoreDraft } from '@pasarguard/wireguard-config-kit'
 import { create } from 'zustand'
-import type { CoreResponse } from '@/service/api'
+import type { CoreResponse, CoreRevisionResponse } from '@/service/api'
 import { apiCoreTypeToKind } from '../kit/core-kind'
 import { createNewXrayProfile, importRawToProfile, profileToPersistedConfig } from '../kit/xray-adapter'
 import { createNewWireGuardDraft, draftToPersistedConfig, wireGuardConfigToDraft } from '../kit/wireguard-adapter'
@@ -105,6 +105,8 @@ export interface CoreEditorStoreState {
   coreName: string
   kind: CoreKind
   restartNodes: boolean
+  /** Change note sent with the next save and stored on the revision it creates. */
+  saveNote: string
   fallbacksInboundTags: string[]
   excludeInboundTags: string[]
   xrayProfile: Profile | null
@@ -126,6 +128,7 @@ export interface CoreEditorStoreState {
   setCoreName: (name: string) => void
   setActiveSection: (s: XrayCoreSection | WgCoreSection) => void
   setRestartNodes: (v: boolean) => void
+  setSaveNote: (note: string) => void
   setFallbacksInboundTags: (tags: string[]) => void
   setExcludeInboundTags: (tags: string[]) => void
   setXrayProfile: (p: Profile) => void
@@ -138,6 +141,8 @@ export interface CoreEditorStoreState {
   setMonacoJson: (json: string, opts?: { dirty?: boolean }) => void
   syncMonacoFromDraft: () => void
   applyMonacoJson: () => { ok: true } | { ok: false; error: string }
+  /** Loads a saved revision as the draft; the baseline stays at the last saved state so the restore shows as changes. */
+  restoreRevision: (revision: CoreRevisionResponse) => { ok: true } | { ok: false; error: string }
 }
 
 const defaultSection = (kind: CoreKind): XrayCoreSection | WgCoreSection => (kind === 'wg' ? 'interface' : 'inbounds')
@@ -149,6 +154,7 @@ export const useCoreEditorStore = create<CoreEditorStoreState>((set, get) => ({
   coreName: '',
   kind: 'xray',
   restartNodes: true,
+  saveNote: '',
   fallbacksInboundTags: [],
   excludeInboundTags: [],
   xrayProfile: null,
@@ -183,6 +189,7 @@ export const useCoreEditorStore = create<CoreEditorStoreState>((set, get) => ({
           coreName: core.name,
           kind,
           restartNodes: nav.restartNodes,
+          saveNote: '',
           fallbacksInboundTags: [],
           excludeInboundTags: [],
           xrayProfile: null,
@@ -207,6 +214,7 @@ export const useCoreEditorStore = create<CoreEditorStoreState>((set, get) => ({
         coreName: core.name,
         kind,
         restartNodes: nav.restartNodes,
+        saveNote: '',
         fallbacksInboundTags: [],
         excludeInboundTags: [],
         xrayProfile: null,
@@ -232,6 +240,7 @@ export const useCoreEditorStore = create<CoreEditorStoreState>((set, get) => ({
       coreName: core.name,
       kind,
       restartNodes: nav.restartNodes,
+      saveNote: '',
       fallbacksInboundTags: fallbacks,
       excludeInboundTags: excludes,
       xrayProfile: p,
@@ -258,6 +267,7 @@ export const useCoreEditorStore = create<CoreEditorStoreState>((set, get) => ({
         coreName: name,
         kind,
         restartNodes: true,
+        saveNote: '',
         fallbacksInboundTags: [],
         excludeInboundTags: [],
         xrayProfile: null,
@@ -282,6 +292,7 @@ export const useCoreEditorStore = create<CoreEditorStoreState>((set, get) => ({
       coreName: name,
       kind,
       restartNodes: true,
+      saveNote: '',
       fallbacksInboundTags: [],
       excludeInboundTags: [],
       xrayProfile: p,
@@ -306,6 +317,7 @@ export const useCoreEditorStore = create<CoreEditorStoreState>((set, get) => ({
       coreName: '',
       kind: 'xray',
       restartNodes: true,
+      saveNote: '',
       fallbacksInboundTags: [],
       excludeInboundTags: [],
       xrayProfile: null,
@@ -327,6 +339,8 @@ export const useCoreEditorStore = create<CoreEditorStoreState>((set, get) => ({
 
   setRestartNodes: restartNodes => set({ restartNodes }),
 
+  setSaveNote: saveNote => set({ saveNote }),
+
   setFallbacksInboundTags: fallbacksInboundTags => set({ fallbacksInboundTags, dirty: true }),
 
   setExcludeInboundTags: excludeInboundTags => set({ excludeInboundTags, dirty: true }),
@@ -365,7 +379,7 @@ export const useCoreEditorStore = create<CoreEditorStoreState>((set, get) => ({
       set({ xrayBaseline: cloneProfile(xrayProfile), dirty: false, monacoDirty: false })
     }
     get().syncMonacoFromDraft()
-    set({ persistedSnapshot: captureSnapshot(get()) })
+    set({ saveNote: '', persistedSnapshot: captureSnapshot(get()) })
   },
 
   discardDraft: () => {
@@ -457,4 +471,50 @@ export const useCoreEditorStore = create<CoreEditorStoreState>((set, get) => ({
     })
     return { ok: true }
   },
+
+  restoreRevision: revision => {
+    const cur = get()
+    const kind = apiCoreTypeToKind(revision.type)
+    const activeSection = kind === cur.kind ? cur.activeSection : defaultSection(kind)
+    if (kind === 'wg') {
+      const r = wireGuardConfigToDraft(revision.config)
+      if (!r.ok) return { ok: false, error: r.message }
+      set({
+        kind,
+        coreName: revision.name,
+        fallbacksInboundTags: [],
+        excludeInboundTags: [],
+        xrayProfile: null,
+        xrayBaseline: null,
+        wgDraft: r.draft,
+        wgBaseline: cur.kind === 'wg' && cur.wgBaseline ? cur.wgBaseline : cloneWg(r.draft),
+        activeSection,
+        dirty: true,
+        xrayImportWarnings: [],
+      })
+      get().syncMonacoFromDraft()
+      return { ok: true }
+    }
+    const { profile, issues } = importRawToProfile(revision.config)
+    const errors = issues.filter(i => i.severity === 'error')
+    if (errors.length > 0) {
+      return { ok: false, error: errors.map(e => e.message).join('; ') }
+    }
+    const p = cloneProfile(profile)
+    set({
+      kind,
+      coreName: revision.name,
+      fallbacksInboundTags: (revision.fallbacks_inbound_tags ?? []).map(String),
+      excludeInboundTags: (revision.exclude_inbound_tags ?? []).map(String),
+      xrayProfile: p,
+      xrayBaseline: cur.kind === 'xray' && cur.xrayBaseline ? cur.xrayBaseline : cloneProfile(p),
+      wgDraft: null,
+      wgBaseline: null,
+      activeSection,
+      dirty: true,
+      xrayImportWarnings: issues.filter(i => i.severity !== 'error').map(i => i.message),
+    })
+    get().syncMonacoFromDraft()
+    return { ok: true }
+  },
 }))
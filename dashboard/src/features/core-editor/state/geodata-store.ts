@@ -0,0 +1,71 @@
+import { GEODATA_KINDS, parseGeodataFile, type GeodataFile, type GeodataIndex, type GeodataKind } from '@/features/core-editor/kit/geodata'
+
+/**
+ * Geodata files loaded into the core editor. The category index is kept in localStorage so
+ * autocomplete and validation survive a reload; the files themselves are too large for it and
+ * only live for this session, which is what lookups need.
+ */
+
+const STORAGE_KEY = 'pasarguard-geodata-index'
+
+export interface GeodataSlot {
+  index: GeodataIndex
+  /** `null` after a reload: the index is known but the file has to be loaded again for lookups. */
+  file: GeodataFile | null
+}
+
+export type GeodataState = Record<GeodataKind, GeodataSlot | null>
+
+const EMPTY_STATE: GeodataState = { geosite: null, geoip: null }
+
+let cache: GeodataState | null = null
+const listeners = new Set<() => void>()
+
+export const subscribeGeodata = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const getGeodataState = (): GeodataState => {
+  if (cache) return cache
+  const state: GeodataState = { ...EMPTY_STATE }
+  if (typeof localStorage !== 'undefined') {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+      for (const kind of GEODATA_KINDS) {
+        const index = parsed?.[kind]
+        if (index && Array.isArray(index.categories)) state[kind] = { index, file: null }
+      }
+    } catch {
+      // Unreadable index: start without geodata
+    }
+  }
+  cache = state
+  return state
+}
+
+const setGeodataState = (state: GeodataState) => {
+  if (typeof localStorage !== 'undefined') {
+    try {
+      const indexes = Object.fromEntries(GEODATA_KINDS.filter(kind => state[kind]).map(kind => [kind, state[kind]!.index]))
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(indexes))
+    } catch {
+      // Quota exceeded: the index still lives for this session
+    }
+  }
+  cache = state
+  listeners.forEach(listener => listener())
+}
+
+/** Parses and stores a geodata file; throws `GeodataParseError` for files that are not geodata. */
+export const loadGeodataFile = (kind: GeodataKind, fileName: string, buffer: ArrayBuffer) => {
+  const file = parseGeodataFile(kind, fileName, buffer)
+  setGeodataState({ ...getGeodataState(), [kind]: { index: file.index, file } })
+  return file.index
+}
+
+export const clearGeodataFile = (kind: GeodataKind) => {
+  setGeodataState({ ...getGeodataState(), [kind]: null })
+}
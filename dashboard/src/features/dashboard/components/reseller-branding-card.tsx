@@ -0,0 +1,91 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useQueryClient } from '@tanstack/react-query'
+import { Palette } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LoaderButton } from '@/components/ui/loader-button'
+import { getGetCurrentAdminQueryKey, useModifyOwnBranding, type AdminBrandingModify, type AdminDetails } from '@/service/api'
+import type { ErrorType } from '@/service/http'
+
+type BrandingField = keyof AdminBrandingModify
+
+const BRANDING_FIELDS: { field: BrandingField; placeholder: string }[] = [
+  { field: 'sub_domain', placeholder: 'https://sub.example.com' },
+  { field: 'profile_title', placeholder: 'My VPN' },
+  { field: 'support_url', placeholder: 'https://t.me/support' },
+]
+
+const getBrandingValues = (admin: AdminDetails): Record<BrandingField, string> => ({
+  sub_domain: admin.sub_domain ?? '',
+  profile_title: admin.profile_title ?? '',
+  support_url: admin.support_url ?? '',
+})
+
+/** Only the fields resellers may change on their own account; everything else stays with the owner. */
+export default function ResellerBrandingCard({ admin }: { admin: AdminDetails }) {
+  const { t } = useTranslation()
+  const queryClient = useQueryClient()
+  const [values, setValues] = useState(() => getBrandingValues(admin))
+  const modifyBranding = useModifyOwnBranding()
+
+  useEffect(() => {
+    setValues(getBrandingValues(admin))
+  }, [admin])
+
+  const saved = getBrandingValues(admin)
+  const isDirty = BRANDING_FIELDS.some(({ field }) => values[field].trim() !== saved[field])
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    try {
+      const updated = await modifyBranding.mutateAsync({
+        // An emptied field is sent as null so the saved value is cleared
+        data: { sub_domain: values.sub_domain.trim() || null, profile_title: values.profile_title.trim() || null, support_url: values.support_url.trim() || null },
+      })
+      queryClient.setQueryData(getGetCurrentAdminQueryKey(), updated)
+      toast.success(t('reseller.branding.saved'))
+    } catch (error: unknown) {
+      const detail = (error as ErrorType<unknown> | undefined)?.data?.detail
+      toast.error(typeof detail === 'string' ? detail : t('reseller.branding.failed'))
+    }
+  }
+
+  return (
+    <Card className="bg-card/80">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Palette className="h-4 w-4" />
+          {t('reseller.branding.title')}
+        </CardTitle>
+        <CardDescription>{t('reseller.branding.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {BRANDING_FIELDS.map(({ field, placeholder }) => (
+            <div key={field} className="space-y-1.5">
+              <Label htmlFor={`reseller-branding-${field}`} className="text-xs">
+                {t(`reseller.branding.fields.${field}`)}
+              </Label>
+              <Input
+                id={`reseller-branding-${field}`}
+                value={values[field]}
+                onChange={event => setValues(prev => ({ ...prev, [field]: event.target.value }))}
+                placeholder={placeholder}
+                dir={field === 'profile_title' ? 'auto' : 'ltr'}
+              />
+            </div>
+          ))}
+          <div className="flex justify-end">
+            <LoaderButton type="submit" size="sm" disabled={!isDirty} isLoading={modifyBranding.isPending} loadingText={t('reseller.branding.saving')}>
+              {t('reseller.branding.save')}
+            </LoaderButton>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
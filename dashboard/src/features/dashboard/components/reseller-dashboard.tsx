@@ -0,0 +1,31 @@
+import { Separator } from '@/components/ui/separator'
+import PageHeader from '@/components/layout/page-header'
+import type { AdminDetails } from '@/service/api'
+
+import ResellerBrandingCard from './reseller-branding-card'
+import ResellerExpiryPipeline from './reseller-expiry-pipeline'
+import ResellerQuotaCard from './reseller-quota-card'
+import ResellerSellPlanCard from './reseller-sell-plan-card'
+
+/** Self-service home for admins that only manage their own users, in place of the operator dashboard. */
+export default function ResellerDashboard({ admin }: { admin: AdminDetails }) {
+  return (
+    <div className="flex w-full flex-col items-start gap-2">
+      <div className="animate-fade-in w-full transform-gpu" style={{ animationDuration: '400ms' }}>
+        <PageHeader title="reseller.title" description="reseller.description" />
+        <Separator />
+      </div>
+
+      <div className="w-full px-3 pt-2 sm:px-4">
+        <div className="animate-slide-up flex transform-gpu flex-col gap-4 sm:gap-6" style={{ animationDuration: '500ms', animationDelay: '100ms', animationFillMode: 'both' }}>
+          <ResellerQuotaCard admin={admin} />
+          <ResellerExpiryPipeline />
+          <div className="grid gap-4 sm:gap-6 lg:grid-cols-2">
+            <ResellerSellPlanCard admin={admin} />
+            <ResellerBrandingCard admin={admin} />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
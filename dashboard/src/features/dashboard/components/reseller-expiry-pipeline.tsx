@@ -0,0 +1,88 @@
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useNavigate } from 'react-router'
+import { CalendarClock, ChevronRight } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { cn } from '@/lib/utils'
+import { useGetUsers, type UserResponse } from '@/service/api'
+import { useRelativeExpiryDate } from '@/utils/dateFormatter'
+import { EXPIRY_PIPELINE_STAGES, getExpiryStageParams, getExpiryStageSort, getExpiryStageUsersQuery, type ExpiryPipelineStage } from '@/utils/resellerPortal'
+import { getUsersViewPath } from '@/utils/usersSavedViews'
+
+const STAGE_PREVIEW_LIMIT = 5
+
+const STAGE_ACCENT_CLASSES: Record<ExpiryPipelineStage['id'], string> = {
+  expired: 'border-t-red-500',
+  within3Days: 'border-t-orange-500',
+  within7Days: 'border-t-amber-500',
+  within30Days: 'border-t-sky-500',
+}
+
+export default function ResellerExpiryPipeline() {
+  const { t } = useTranslation()
+  // Windows are anchored once per mount so the query keys stay stable between refetches
+  const now = useMemo(() => Date.now(), [])
+
+  return (
+    <Card className="bg-card/80">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarClock className="h-4 w-4" />
+          {t('reseller.pipeline.title')}
+        </CardTitle>
+        <CardDescription>{t('reseller.pipeline.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+          {EXPIRY_PIPELINE_STAGES.map(stage => (
+            <PipelineStage key={stage.id} stage={stage} now={now} />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function PipelineStage({ stage, now }: { stage: ExpiryPipelineStage; now: number }) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { data, isLoading } = useGetUsers({ ...getExpiryStageParams(stage, now), sort: getExpiryStageSort(stage), limit: STAGE_PREVIEW_LIMIT, offset: 0 })
+  const users = data?.users ?? []
+  const total = data?.total ?? 0
+
+  return (
+    <div className={cn('flex min-w-0 flex-col gap-2 rounded-md border border-t-4 p-3', STAGE_ACCENT_CLASSES[stage.id])}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate text-sm font-medium">{t(`reseller.pipeline.stages.${stage.id}`)}</span>
+        {isLoading ? <Skeleton className="h-5 w-8" /> : <Badge variant="secondary">{total}</Badge>}
+      </div>
+      <div className="flex min-h-24 flex-col gap-1">
+        {isLoading ? Array.from({ length: 3 }, (_, index) => <Skeleton key={index} className="h-5 w-full" />) : users.map(user => <PipelineUserRow key={user.id} user={user} />)}
+        {!isLoading && total === 0 && <p className="text-muted-foreground py-4 text-center text-xs">{t('reseller.pipeline.empty')}</p>}
+      </div>
+      {total > 0 && (
+        <button type="button" onClick={() => navigate(getUsersViewPath(getExpiryStageUsersQuery(stage, now)))} className="text-primary flex items-center gap-1 self-start text-xs hover:underline">
+          {t('reseller.pipeline.viewAll', { count: total })}
+          <ChevronRight className="h-3 w-3 rtl:rotate-180" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+function PipelineUserRow({ user }: { user: UserResponse }) {
+  const { t } = useTranslation()
+  const expiry = useRelativeExpiryDate(user.expire, user.status)
+
+  return (
+    <div className="flex min-w-0 items-center justify-between gap-2 text-xs">
+      <span className="truncate" dir="ltr">
+        {user.username}
+      </span>
+      {expiry.status && <span className="text-muted-foreground shrink-0">{t(expiry.status, { time: expiry.time })}</span>}
+    </div>
+  )
+}
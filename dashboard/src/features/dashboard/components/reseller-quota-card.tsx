@@ -0,0 +1,58 @@
+import { useTranslation } from 'react-i18next'
+import { Gauge } from 'lucide-react'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CircularProgress } from '@/components/ui/circular-progress'
+import type { AdminDetails } from '@/service/api'
+import { formatBytes } from '@/utils/formatByte'
+import { getResellerQuota, type QuotaUsage } from '@/utils/resellerPortal'
+import { isLimited } from '@/utils/rbac'
+
+const getGaugeClassName = (percent: number) => (percent >= 90 ? 'stroke-red-500' : percent >= 70 ? 'stroke-amber-500' : 'stroke-primary')
+
+export default function ResellerQuotaCard({ admin }: { admin: AdminDetails }) {
+  const { t } = useTranslation()
+  const { traffic, users } = getResellerQuota(admin)
+
+  return (
+    <Card className="bg-card/80">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Gauge className="h-4 w-4" />
+          {t('reseller.quota.title')}
+        </CardTitle>
+        <CardDescription>{t('reseller.quota.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLimited(admin) && <p className="rounded-md border border-red-500/30 bg-red-500/10 px-3 py-2 text-xs text-red-700 dark:text-red-400">{t('reseller.quota.limitedWarning')}</p>}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <QuotaGauge label={t('reseller.quota.traffic')} usage={traffic} format={value => formatBytes(value)} />
+          <QuotaGauge label={t('reseller.quota.users')} usage={users} format={value => String(value)} />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function QuotaGauge({ label, usage, format }: { label: string; usage: QuotaUsage; format: (value: number) => string }) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex items-center gap-4 rounded-md border p-3">
+      <CircularProgress
+        value={usage.limit === null ? 0 : usage.percent}
+        size={84}
+        strokeWidth={8}
+        valueFormatter={value => (usage.limit === null ? '∞' : `${Math.round(value)}%`)}
+        indicatorClassName={getGaugeClassName(usage.percent)}
+      />
+      <div className="min-w-0 space-y-1">
+        <div className="text-sm font-medium">{label}</div>
+        <div className="text-muted-foreground text-xs" dir="ltr">
+          {usage.limit === null ? format(usage.used) : `${format(usage.used)} / ${format(usage.limit)}`}
+        </div>
+        <div className="text-xs">{usage.remaining === null ? t('reseller.quota.unlimited') : t('reseller.quota.remaining', { value: format(usage.remaining) })}</div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+import { useState, type FormEvent } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useQueryClient } from '@tanstack/react-query'
+import { QRCodeCanvas } from 'qrcode.react'
+import { CircleCheck, ShoppingCart } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { LoaderButton } from '@/components/ui/loader-button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { CopyButton } from '@/components/common/copy-button'
+import { getGetCurrentAdminQueryKey, useCreateUserFromTemplate, useGetUserTemplate, useGetUserTemplatesSimple, type AdminDetails, type UserResponse } from '@/service/api'
+import type { ErrorType } from '@/service/http'
+import { formatBytes } from '@/utils/formatByte'
+import { formatDuration } from '@/utils/formatDuration'
+import { hasPermission } from '@/utils/rbac'
+import { getResellerQuota, toAbsoluteSubscriptionUrl } from '@/utils/resellerPortal'
+
+export default function ResellerSellPlanCard({ admin }: { admin: AdminDetails }) {
+  const { t } = useTranslation()
+  const queryClient = useQueryClient()
+  const [templateId, setTemplateId] = useState('')
+  const [username, setUsername] = useState('')
+  const [note, setNote] = useState('')
+  const [soldUser, setSoldUser] = useState<UserResponse | null>(null)
+
+  const canSell = hasPermission(admin, 'users', 'create') && hasPermission(admin, 'templates', 'read_simple')
+  const { users } = getResellerQuota(admin)
+  const isUserQuotaFull = users.remaining === 0
+
+  const { data: templatesData, isLoading: isLoadingTemplates } = useGetUserTemplatesSimple({ all: true }, { query: { enabled: canSell } })
+  const templates = templatesData?.templates ?? []
+  const { data: template } = useGetUserTemplate(Number(templateId), { query: { enabled: !!templateId && hasPermission(admin, 'templates', 'read') } })
+
+  const createUser = useCreateUserFromTemplate()
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!templateId || !username.trim()) return
+    try {
+      const user = await createUser.mutateAsync({ data: { user_template_id: Number(templateId), username: username.trim(), note: note.trim() || undefined } })
+      setSoldUser(user)
+      setUsername('')
+      setNote('')
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] })
+      queryClient.invalidateQueries({ queryKey: getGetCurrentAdminQueryKey() })
+    } catch (error: unknown) {
+      const detail = (error as ErrorType<unknown> | undefined)?.data?.detail
+      toast.error(typeof detail === 'string' ? detail : t('reseller.sellPlan.failed'))
+    }
+  }
+
+  return (
+    <Card className="bg-card/80">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShoppingCart className="h-4 w-4" />
+          {t('reseller.sellPlan.title')}
+        </CardTitle>
+        <CardDescription>{t('reseller.sellPlan.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!canSell ? (
+          <p className="text-muted-foreground text-sm">{t('reseller.sellPlan.notAllowed')}</p>
+        ) : soldUser ? (
+          <SoldPlanResult user={soldUser} onSellAnother={() => setSoldUser(null)} />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t('reseller.sellPlan.plan')}</Label>
+              <Select value={templateId} onValueChange={setTemplateId} disabled={isLoadingTemplates || templates.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder={templates.length === 0 && !isLoadingTemplates ? t('reseller.sellPlan.noPlans') : t('reseller.sellPlan.selectPlan')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(item => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name || `#${item.id}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {template && (
+                <p className="text-muted-foreground text-xs">
+                  {t('reseller.sellPlan.summary', {
+                    traffic: template.data_limit ? formatBytes(template.data_limit) : t('reseller.quota.unlimited'),
+                    duration: template.expire_duration ? formatDuration(template.expire_duration, t) : t('reseller.quota.unlimited'),
+                  })}
+                </p>
+              )}
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="reseller-sell-username" className="text-xs">
+                {t('username')}
+              </Label>
+              <div className="flex items-center gap-2" dir="ltr">
+                {template?.username_prefix && <span className="text-muted-foreground text-xs">{template.username_prefix}</span>}
+                <Input id="reseller-sell-username" value={username} onChange={event => setUsername(event.target.value)} autoComplete="off" />
+                {template?.username_suffix && <span className="text-muted-foreground text-xs">{template.username_suffix}</span>}
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="reseller-sell-note" className="text-xs">
+                {t('reseller.sellPlan.note')}
+              </Label>
+              <Input id="reseller-sell-note" value={note} onChange={event => setNote(event.target.value)} />
+            </div>
+            {isUserQuotaFull && <p className="text-xs text-red-600 dark:text-red-400">{t('reseller.sellPlan.quotaFull')}</p>}
+            <div className="flex justify-end">
+              <LoaderButton type="submit" size="sm" disabled={!templateId || !username.trim() || isUserQuotaFull} isLoading={createUser.isPending} loadingText={t('reseller.sellPlan.selling')}>
+                {t('reseller.sellPlan.sell')}
+              </LoaderButton>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function SoldPlanResult({ user, onSellAnother }: { user: UserResponse; onSellAnother: () => void }) {
+  const { t } = useTranslation()
+  const subscriptionUrl = user.subscription_url ? toAbsoluteSubscriptionUrl(user.subscription_url) : ''
+
+  return (
+    <div className="flex flex-col items-center gap-3 text-center">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <CircleCheck className="h-4 w-4 text-green-600 dark:text-green-400" />
+        {t('reseller.sellPlan.sold', { username: user.username })}
+      </p>
+      {subscriptionUrl && (
+        <>
+          <QRCodeCanvas value={subscriptionUrl} size={160} className="rounded-md bg-white p-2" />
+          <div className="flex w-full min-w-0 items-center gap-2">
+            <code dir="ltr" className="bg-muted/60 min-w-0 flex-1 truncate rounded-md px-2 py-1.5 text-start text-xs">
+              {subscriptionUrl}
+            </code>
+            <CopyButton value={subscriptionUrl} className="h-8 w-8 shrink-0" copiedMessage="copied" defaultMessage="clickToCopy" />
+          </div>
+        </>
+      )}
+      <Button type="button" variant="outline" size="sm" onClick={onSellAnother}>
+        {t('reseller.sellPlan.sellAnother')}
+      </Button>
+    </div>
+  )
+}
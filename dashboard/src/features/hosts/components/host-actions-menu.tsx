@@ -2,12 +2,15 @@ import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { Button } from '@/components/ui/button'
-import { Copy, MoreVertical, Pencil, Power, PowerOff, Trash2 } from 'lucide-react'
-import { BaseHost, modifyHost, removeHost } from '@/service/api'
+import { Activity, Copy, Eye, MoreVertical, Pencil, Power, PowerOff, Trash2 } from 'lucide-react'
+import { BaseHost, CreateHost, modifyHost, removeHost } from '@/service/api'
 import { toast } from 'sonner'
 import useDirDetection from '@/hooks/use-dir-detection'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { cn } from '@/lib/utils'
+import { HostLinkPreview } from './host-link-preview'
+import { useHostHealth } from '@/features/hosts/hooks/use-host-health'
 
 interface HostActionsMenuProps {
   host: BaseHost
@@ -43,9 +46,33 @@ const DeleteAlertDialog = ({ host, isOpen, onClose, onConfirm }: { host: BaseHos
   )
 }
 
+const PreviewLinksDialog = ({ host, isOpen, onClose }: { host: BaseHost; isOpen: boolean; onClose: () => void }) => {
+  const { t } = useTranslation()
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="w-full max-w-2xl" onOpenAutoFocus={e => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Eye className="h-5 w-5" />
+            <span className="truncate">{t('hostsDialog.preview.titleFor', { name: host.remark ?? '' })}</span>
+          </DialogTitle>
+          <DialogDescription>{t('hostsDialog.preview.description')}</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[75dvh] overflow-y-auto">
+          {/* Saved hosts come back in the same shape they are accepted in, like when duplicating */}
+          <HostLinkPreview getHost={() => host as CreateHost} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
 export default function HostActionsMenu({ host, onEdit, onDuplicate, onDataChanged, canUpdate = true, canCreate = true, className }: HostActionsMenuProps) {
   const [isDeleteDialogOpen, setDeleteDialogOpen] = useState<boolean>(false)
+  const [isPreviewDialogOpen, setPreviewDialogOpen] = useState<boolean>(false)
   const { t } = useTranslation()
+  const { checkHosts, isChecking } = useHostHealth()
   const dir = useDirDetection()
 
   const handleToggleStatus = async () => {
@@ -146,8 +173,6 @@ export default function HostActionsMenu({ host, onEdit, onDuplicate, onDataChang
     }
   }
 
-  if (!canUpdate && !canCreate) return null
-
   return (
     <div className={cn(className)} onClick={e => e.stopPropagation()}>
       <DropdownMenu>
@@ -179,6 +204,27 @@ export default function HostActionsMenu({ host, onEdit, onDuplicate, onDataChang
               </DropdownMenuItem>
             </>
           )}
+          <DropdownMenuItem
+            onSelect={e => {
+              e.stopPropagation()
+              setPreviewDialogOpen(true)
+            }}
+          >
+            <Eye className={cn('h-4 w-4', dir === 'rtl' ? 'ml-2' : 'mr-2')} />
+            {t('hostsDialog.preview.menuItem')}
+          </DropdownMenuItem>
+          {host.id && (
+            <DropdownMenuItem
+              disabled={isChecking}
+              onSelect={e => {
+                e.stopPropagation()
+                void checkHosts([host.id as number])
+              }}
+            >
+              <Activity className={cn('h-4 w-4', dir === 'rtl' ? 'ml-2' : 'mr-2')} />
+              {t('host.health.check')}
+            </DropdownMenuItem>
+          )}
           {canCreate && (
             <DropdownMenuItem
               onSelect={e => {
@@ -200,6 +246,7 @@ export default function HostActionsMenu({ host, onEdit, onDuplicate, onDataChang
         </DropdownMenuContent>
       </DropdownMenu>
 
+      <PreviewLinksDialog host={host} isOpen={isPreviewDialogOpen} onClose={() => setPreviewDialogOpen(false)} />
       {canUpdate && <DeleteAlertDialog host={host} isOpen={isDeleteDialogOpen} onClose={() => setDeleteDialogOpen(false)} onConfirm={handleConfirmDelete} />}
     </div>
   )
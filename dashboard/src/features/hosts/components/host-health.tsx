@@ -0,0 +1,176 @@
+import { Badge } from '@/components/ui/badge'
+import { LoaderButton } from '@/components/ui/loader-button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useHostHealth, useHostHealthHistory } from '@/features/hosts/hooks/use-host-health'
+import dayjs from '@/lib/dayjs'
+import { cn } from '@/lib/utils'
+import type { HostHealthResult, HostHealthStatus, HostProbeCheck } from '@/service/api'
+import { dateUtils } from '@/utils/dateFormatter'
+import { clearHostHealthHistory, getHostHealthProblems } from '@/utils/hostHealthHistory'
+import { Activity, AlertTriangle, CircleCheck, CircleMinus, CircleX } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+const STATUS_CLASSES: Record<HostHealthStatus, string> = {
+  ok: 'border-green-500/40 bg-green-500/10 text-green-700 dark:text-green-400',
+  warning: 'border-amber-500/40 bg-amber-500/10 text-amber-700 dark:text-amber-400',
+  error: 'border-destructive/40 bg-destructive/10 text-destructive',
+  skipped: 'border-border bg-muted text-muted-foreground',
+}
+
+const STATUS_DOT_CLASSES: Record<HostHealthStatus, string> = {
+  ok: 'bg-green-500',
+  warning: 'bg-amber-500',
+  error: 'bg-destructive',
+  skipped: 'bg-muted-foreground/40',
+}
+
+function StatusIcon({ status, className }: { status: HostHealthStatus; className?: string }) {
+  if (status === 'ok') return <CircleCheck className={cn('shrink-0 text-green-500', className)} />
+  if (status === 'warning') return <AlertTriangle className={cn('shrink-0 text-amber-500', className)} />
+  if (status === 'error') return <CircleX className={cn('text-destructive shrink-0', className)} />
+  return <CircleMinus className={cn('text-muted-foreground shrink-0', className)} />
+}
+
+const formatTime = (iso: string) => {
+  const d = dayjs(iso)
+  return d.isValid() ? d.fromNow() : iso
+}
+
+function CheckRow({ check }: { check: HostProbeCheck }) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex items-start gap-2 py-1 text-xs">
+      <StatusIcon status={check.status} className="mt-0.5 h-3.5 w-3.5" />
+      <span className="shrink-0 font-medium">{t(`host.health.checks.${check.name}`, { defaultValue: check.name })}</span>
+      {check.message && (
+        <span dir="ltr" className="text-muted-foreground min-w-0 break-words">
+          {check.message}
+        </span>
+      )}
+      {check.latency_ms !== null && check.latency_ms !== undefined && <span className="text-muted-foreground ms-auto shrink-0 font-mono">{check.latency_ms} ms</span>}
+    </div>
+  )
+}
+
+/** The latest result in full, followed by a compact line per earlier check. */
+export function HostHealthDetails({ results }: { results: HostHealthResult[] }) {
+  const { t } = useTranslation()
+  const [latest, ...earlier] = results
+
+  return (
+    <div className="space-y-3">
+      <div className={cn('flex flex-wrap items-center justify-between gap-2 rounded-md border p-2 text-xs', STATUS_CLASSES[latest.status])}>
+        <span className="flex items-center gap-2 font-medium">
+          <StatusIcon status={latest.status} className="h-4 w-4" />
+          {t(`host.health.status.${latest.status}`)}
+        </span>
+        <span title={dateUtils.formatDate(dayjs(latest.checked_at).unix())}>{t('host.health.lastChecked', { time: formatTime(latest.checked_at) })}</span>
+      </div>
+
+      {latest.cert_not_after && <p className="text-muted-foreground text-xs">{t('host.health.certExpires', { time: formatTime(latest.cert_not_after), date: latest.cert_not_after.slice(0, 10) })}</p>}
+
+      {!!latest.checks?.length && (
+        <div className="divide-y rounded-md border px-2">
+          {latest.checks.map(check => (
+            <CheckRow key={check.name} check={check} />
+          ))}
+        </div>
+      )}
+
+      {(latest.endpoints ?? []).map((endpoint, index) => (
+        <div key={`${endpoint.address}-${endpoint.port}-${endpoint.sni}-${index}`} className="rounded-md border px-2 py-1">
+          <div dir="ltr" className="text-muted-foreground flex flex-wrap items-center gap-x-2 font-mono text-[11px]">
+            <span className="text-foreground">
+              {endpoint.address}:{endpoint.port}
+            </span>
+            {endpoint.ip && endpoint.ip !== endpoint.address && <span>{endpoint.ip}</span>}
+            {endpoint.sni && <span>SNI {endpoint.sni}</span>}
+          </div>
+          <div className="divide-y">
+            {(endpoint.checks ?? []).map(check => (
+              <CheckRow key={check.name} check={check} />
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {earlier.length > 0 && (
+        <div className="space-y-1">
+          <span className="text-xs font-medium">{t('host.health.history')}</span>
+          <div className="divide-y rounded-md border px-2">
+            {earlier.map(result => {
+              const problems = getHostHealthProblems(result)
+              return (
+                <div key={result.checked_at} className="flex items-center gap-2 py-1 text-xs">
+                  <span className={cn('h-2 w-2 shrink-0 rounded-full', STATUS_DOT_CLASSES[result.status])} />
+                  <span className="shrink-0" title={dateUtils.formatDate(dayjs(result.checked_at).unix())}>
+                    {formatTime(result.checked_at)}
+                  </span>
+                  {problems.length > 0 && (
+                    <span dir="ltr" className="text-muted-foreground truncate" title={problems.map(problem => problem.message ?? problem.name).join('\n')}>
+                      {problems[0].message ?? problems[0].name}
+                    </span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Last-checked status of a host with its details on click; renders nothing until the host was checked in this browser. */
+export function HostHealthBadge({ hostId, className }: { hostId?: number | null; className?: string }) {
+  const { t } = useTranslation()
+  const history = useHostHealthHistory()
+  const results = hostId ? history[hostId] : undefined
+  if (!results?.length) return null
+  const latest = results[0]
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className={cn('shrink-0', className)} onClick={event => event.stopPropagation()}>
+          <Badge variant="outline" className={cn('gap-1 px-1.5 py-0 text-[10px] font-normal', STATUS_CLASSES[latest.status])}>
+            <StatusIcon status={latest.status} className="h-3 w-3" />
+            <span className="whitespace-nowrap">{formatTime(latest.checked_at)}</span>
+          </Badge>
+          <span className="sr-only">{t(`host.health.status.${latest.status}`)}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="max-h-[60dvh] w-96 max-w-[calc(100vw-2rem)] overflow-y-auto p-3" onClick={event => event.stopPropagation()}>
+        <HostHealthDetails results={results} />
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+/** Health section of the host dialog: runs a check for the saved host and shows its local history. */
+export function HostHealthPanel({ hostId }: { hostId: number }) {
+  const { t } = useTranslation()
+  const { history, checkHosts, isChecking } = useHostHealth()
+  const results = history[hostId] ?? []
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-muted-foreground text-xs">{t('host.health.description')}</p>
+        <div className="flex shrink-0 items-center gap-2">
+          {results.length > 0 && (
+            <button type="button" className="text-muted-foreground hover:text-foreground text-xs underline-offset-2 hover:underline" onClick={() => clearHostHealthHistory(hostId)}>
+              {t('host.health.clearHistory')}
+            </button>
+          )}
+          <LoaderButton type="button" size="sm" onClick={() => checkHosts([hostId])} isLoading={isChecking} disabled={isChecking}>
+            {!isChecking && <Activity className="h-4 w-4" />}
+            {t('host.health.checkNow')}
+          </LoaderButton>
+        </div>
+      </div>
+      {results.length ? <HostHealthDetails results={results} /> : <p className="text-muted-foreground py-4 text-center text-xs">{t('host.health.neverChecked')}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import { CodeEditorPanel } from '@/components/common/code-editor-panel'
+import { CopyButton } from '@/components/common/copy-button'
+import { UserSearchCombobox } from '@/features/users/components/user-search-combobox'
+import { Badge } from '@/components/ui/badge'
+import { LoaderButton } from '@/components/ui/loader-button'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { type CreateHost, type PreviewHostMutationError, type UserSimple, type ValidationError, useGetUserById, usePreviewHost } from '@/service/api'
+import { findDroppedHostOptions, HOST_PREVIEW_FORMATS, type HostPreviewFormat } from '@/utils/hostLinkPreview'
+import { extractAddressFromConfigUrl, extractNameFromConfigUrl } from '@/utils/subscription-config'
+import { AlertTriangle, XCircle } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const getErrorMessage = (error: PreviewHostMutationError | null): string | null => {
+  const detail: unknown = error?.data?.detail ?? error?.response?._data?.detail
+  if (typeof detail === 'string') return detail
+  // Unsaved form values can fail request validation; show the first field error
+  if (Array.isArray(detail)) {
+    const [first] = detail as Partial<ValidationError>[]
+    if (first?.msg) return `${(first.loc ?? []).slice(1).join('.')}: ${first.msg}`
+  }
+  return null
+}
+
+interface HostLinkPreviewProps {
+  /** Called on render so the preview always uses the current, possibly unsaved, host. */
+  getHost: () => CreateHost
+}
+
+/** Renders what a host adds to each share format for one user, flagging host options a format leaves out. */
+export function HostLinkPreview({ getHost }: HostLinkPreviewProps) {
+  const { t } = useTranslation()
+  const [selectedUser, setSelectedUser] = useState<UserSimple | null>(null)
+  const [renderedHost, setRenderedHost] = useState<CreateHost | null>(null)
+  const previewHost = usePreviewHost()
+  const { data: user } = useGetUserById(selectedUser?.id ?? 0, { query: { enabled: !!selectedUser } })
+
+  const handleRender = () => {
+    if (!selectedUser) return
+    const host = getHost()
+    setRenderedHost(host)
+    previewHost.mutate({ data: { host, user_id: selectedUser.id } })
+  }
+
+  const preview = previewHost.data
+  const isEmpty = !!preview && HOST_PREVIEW_FORMATS.every(format => !preview[format]?.length)
+  const droppedOptions = preview && renderedHost ? findDroppedHostOptions(renderedHost, preview) : null
+  const statusFiltered = !!user && !!renderedHost?.status?.length && !renderedHost.status.includes(user.status)
+  const errorMessage = getErrorMessage(previewHost.error)
+
+  const renderDropped = (format: HostPreviewFormat) =>
+    !!droppedOptions?.[format].length && (
+      <div className="flex flex-wrap items-center gap-1.5 rounded-md border border-amber-500/40 bg-amber-500/5 p-2 text-xs text-amber-700 dark:text-amber-400">
+        <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+        <span>{t('hostsDialog.preview.dropped')}</span>
+        {droppedOptions[format].map(option => (
+          <Badge key={option} variant="outline" className="border-amber-500/50 font-normal text-amber-700 dark:text-amber-400">
+            {t(`hostsDialog.preview.options.${option}`)}
+          </Badge>
+        ))}
+      </div>
+    )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <UserSearchCombobox
+          value={selectedUser}
+          onChange={value => {
+            setSelectedUser(value)
+            previewHost.reset()
+          }}
+          placeholder={t('hostsDialog.preview.selectUser')}
+          searchPlaceholder={t('hostsDialog.preview.searchUsers')}
+          className="flex-1"
+        />
+        <LoaderButton type="button" onClick={handleRender} isLoading={previewHost.isPending} disabled={!selectedUser || previewHost.isPending}>
+          {t('hostsDialog.preview.render')}
+        </LoaderButton>
+      </div>
+
+      {previewHost.isError ? (
+        <p className="text-destructive flex items-start gap-2 text-xs">
+          <XCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          <span className="break-all">{errorMessage ?? t('hostsDialog.preview.renderFailed')}</span>
+        </p>
+      ) : !preview ? (
+        <p className="text-muted-foreground py-4 text-center text-xs">{t('hostsDialog.preview.empty')}</p>
+      ) : isEmpty ? (
+        <div className="text-muted-foreground space-y-1 rounded-md border border-dashed p-3 text-xs">
+          <p className="text-foreground font-medium">{t('hostsDialog.preview.nothingRendered')}</p>
+          <p>{statusFiltered ? t('hostsDialog.preview.statusFiltered', { status: t(`status.${user?.status}`) }) : t('hostsDialog.preview.inboundNotAvailable')}</p>
+        </div>
+      ) : (
+        <Tabs defaultValue="links" className="space-y-2">
+          <TabsList className="w-full">
+            {HOST_PREVIEW_FORMATS.map(format => (
+              <TabsTrigger key={format} value={format} className="flex-1 gap-1 text-xs">
+                {t(`hostsDialog.preview.formats.${format}`)}
+                {!!droppedOptions?.[format].length && <AlertTriangle className="h-3 w-3 text-amber-500" />}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          <TabsContent value="links" className="space-y-2">
+            {renderDropped('links')}
+            {(preview.links ?? []).map((link, index) => (
+              <div key={index} className="space-y-1 rounded-md border p-2">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <div dir="ltr" className="flex min-w-0 items-center gap-2">
+                    <span className="truncate font-medium">{extractNameFromConfigUrl(link) ?? '-'}</span>
+                    <span className="text-muted-foreground truncate font-mono">{extractAddressFromConfigUrl(link)}</span>
+                  </div>
+                  <CopyButton value={link} className="h-6 w-6 shrink-0" copiedMessage="copied" defaultMessage="copy" />
+                </div>
+                <p dir="ltr" className="text-muted-foreground font-mono text-[11px] break-all">
+                  {link}
+                </p>
+              </div>
+            ))}
+          </TabsContent>
+
+          {HOST_PREVIEW_FORMATS.filter(format => format !== 'links').map(format => (
+            <TabsContent key={format} value={format} className="space-y-2">
+              {renderDropped(format)}
+              {preview[format]?.length ? (
+                <CodeEditorPanel value={JSON.stringify(preview[format], null, 2)} onChange={() => undefined} language="json" readOnly embeddedContainerClassName="h-[280px]" />
+              ) : (
+                <p className="text-muted-foreground py-4 text-center text-xs">{t('hostsDialog.preview.formatEmpty')}</p>
+              )}
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
+    </div>
+  )
+}
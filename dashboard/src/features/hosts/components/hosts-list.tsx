@@ -16,9 +16,11 @@ import { useEffect, useMemo, useState } from 'react'
 import { Resolver, useForm } from 'react-hook-form'
 import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
-import { Power, PowerOff, Trash2 } from 'lucide-react'
+import { Activity, Power, PowerOff, Trash2 } from 'lucide-react'
 import HostModal from '../dialogs/host-modal'
 import SortableHost from './sortable-host'
+import { useHostHealth } from '@/features/hosts/hooks/use-host-health'
+import { pruneHostHealthHistory } from '@/utils/hostHealthHistory'
 import { BulkActionItem, BulkActionsBar } from '@/features/users/components/bulk-actions-bar'
 import { BulkActionAlertDialog } from '@/features/users/components/bulk-action-alert-dialog'
 import { Skeleton } from '@/components/ui/skeleton'
@@ -78,11 +80,13 @@ export default function HostsList({
   const bulkDeleteHostsMutation = useBulkDeleteHosts()
   const bulkDisableHostsMutation = useBulkDisableHosts()
   const bulkEnableHostsMutation = useBulkEnableHosts()
+  const { checkHosts, isChecking: isCheckingHealth } = useHostHealth()
 
   // Set up hosts data from props
   useEffect(() => {
     if (data !== undefined) {
       setHosts(data)
+      pruneHostHealthHistory(data.map(host => host.id).filter((id): id is number => typeof id === 'number'))
     }
   }, [data])
 
@@ -831,9 +835,18 @@ export default function HostsList({
   const selectedDisableEligibleIds = selectedHosts.filter(host => !Boolean(host.is_disabled)).map(host => host.id as number)
   const enableEligibleCount = selectedEnableEligibleIds.length
   const disableEligibleCount = selectedDisableEligibleIds.length
+  const checkHealthAction: BulkActionItem = {
+    key: 'check_health',
+    label: t('host.health.check'),
+    icon: Activity,
+    onClick: () => void checkHosts(selectedHostIds),
+    direct: true,
+    disabled: isCheckingHealth,
+  }
   const bulkActions: BulkActionItem[] = selectedCount
     ? canUpdate
       ? [
+          checkHealthAction,
           {
             key: 'delete',
             label: t('delete'),
@@ -863,7 +876,7 @@ export default function HostsList({
               ]
             : []),
         ]
-      : []
+      : [checkHealthAction]
     : []
   const bulkActionConfigs: Record<BulkHostActionType, BulkActionDialogConfig> = {
     delete: {
@@ -1037,6 +1050,7 @@ export default function HostsList({
           }}
           form={form}
           editingHost={!!editingHost}
+          editingHostId={editingHost?.id}
           inboundDetails={inbounds}
           isLoadingInbounds={isLoadingInbounds}
         />
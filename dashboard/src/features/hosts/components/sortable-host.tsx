@@ -8,6 +8,7 @@ import { useTranslation } from 'react-i18next'
 import useDirDetection from '@/hooks/use-dir-detection'
 import { cn } from '@/lib/utils'
 import HostActionsMenu from './host-actions-menu'
+import { HostHealthBadge } from './host-health'
 import type { ReactNode } from 'react'
 
 interface SortableHostProps {
@@ -67,6 +68,7 @@ export default function SortableHost({ host, onEdit, onDuplicate, onDataChanged,
               {selectionControl}
               <div className={cn('min-h-2 min-w-2 rounded-full', host.is_disabled ? 'bg-red-500' : 'bg-green-500')} />
               <div className="truncate font-medium">{host.remark ?? ''}</div>
+              <HostHealthBadge hostId={host.id} />
             </div>
             <div className={cn('flex items-center gap-1', dir === 'rtl' && 'justify-start')}>
               <ChevronsLeftRightEllipsis className="text-muted-foreground h-4 w-4" />
@@ -4,6 +4,7 @@ import { ListColumn } from '@/components/common/list-generator'
 import { BaseHost } from '@/service/api'
 import { cn } from '@/lib/utils'
 import HostActionsMenu from '@/features/hosts/components/host-actions-menu'
+import { HostHealthBadge } from '@/features/hosts/components/host-health'
 import { Settings } from 'lucide-react'
 
 interface UseHostsListColumnsProps {
@@ -27,6 +28,7 @@ export const useHostsListColumns = ({ onEdit, onDuplicate, onDataChanged, canUpd
           <div className="flex min-w-0 items-center gap-2">
             <span className={cn('h-2 w-2 shrink-0 rounded-full', host.is_disabled ? 'bg-red-500' : 'bg-green-500')} />
             <span className="truncate font-medium">{host.remark ?? ''}</span>
+            <HostHealthBadge hostId={host.id} />
           </div>
         ),
       },
@@ -48,18 +50,15 @@ export const useHostsListColumns = ({ onEdit, onDuplicate, onDataChanged, canUpd
         cell: host => <span className="text-muted-foreground truncate text-xs">{host.inbound_tag ?? ''}</span>,
         hideOnMobile: true,
       },
-      ...(canUpdate || canCreate
-        ? [
-            {
-              id: 'actions',
-              header: '',
-              width: '64px',
-              align: 'end' as const,
-              hideOnMobile: true,
-              cell: (host: BaseHost) => <HostActionsMenu host={host} onEdit={onEdit} onDuplicate={onDuplicate} onDataChanged={onDataChanged} canUpdate={canUpdate} canCreate={canCreate} />,
-            },
-          ]
-        : []),
+      // Always shown: previewing links only needs read access
+      {
+        id: 'actions',
+        header: '',
+        width: '64px',
+        align: 'end' as const,
+        hideOnMobile: true,
+        cell: (host: BaseHost) => <HostActionsMenu host={host} onEdit={onEdit} onDuplicate={onDuplicate} onDataChanged={onDataChanged} canUpdate={canUpdate} canCreate={canCreate} />,
+      },
     ],
     [t, onEdit, onDuplicate, onDataChanged, canUpdate, canCreate],
   )
@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { StringArrayPopoverInput } from '@/components/common/string-array-popover-input'
 import { Checkbox } from '@/components/ui/checkbox'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
 import { Input } from '@/components/ui/input'
@@ -18,13 +19,15 @@ import { cn } from '@/lib/utils'
 import { ClientTemplateType, UserStatus, getHosts, useGetClientTemplatesSimple } from '@/service/api'
 import { queryClient } from '@/utils/query-client'
 import { useQuery } from '@tanstack/react-query'
-import { AlertTriangle, Cable, ChevronsLeftRightEllipsis, Copy, Pencil, GlobeLock, Info, Loader2, Lock, Network, Plus, Route, Trash2, X, ListTodo } from 'lucide-react'
+import { Activity, AlertTriangle, Cable, ChevronDown, ChevronsLeftRightEllipsis, Copy, Eye, Pencil, GlobeLock, Info, Loader2, Lock, Network, Plus, Route, Trash2, X, ListTodo } from 'lucide-react'
 import { memo, useCallback, useEffect, useMemo, useState } from 'react'
 import { UseFormReturn } from 'react-hook-form'
 import { useTranslation } from 'react-i18next'
-import { hostFormDefaultValues, type HostFormValues } from '@/features/hosts/forms/host-form'
+import { hostFormDefaultValues, hostFormValuesToCreateHost, type HostFormValues } from '@/features/hosts/forms/host-form'
 import { LoaderButton } from '@/components/ui/loader-button'
 import { FinalMaskSettings } from '../components/finalmask-settings'
+import { HostHealthPanel } from '../components/host-health'
+import { HostLinkPreview } from '../components/host-link-preview'
 
 // Predefined sessionIDTable aliases recognized by Xray 26.6.22+.
 const SESSION_ID_TABLE_PRESETS = ['ALPHABET', 'Alphabet', 'BASE36', 'Base62', 'HEX', 'alphabet', 'base36', 'hex', 'number']
@@ -102,6 +105,8 @@ interface HostModalProps {
   onOpenChange: (open: boolean) => void
   onSubmit: (data: HostFormValues) => Promise<{ status: number }>
   editingHost?: boolean
+  /** Saved id of the host being edited; health checks only run against saved hosts. */
+  editingHostId?: number | null
   form: UseFormReturn<HostFormValues>
   inboundDetails?: Array<{ tag: string; protocol: string }>
   isLoadingInbounds?: boolean
@@ -314,10 +319,12 @@ const ArrayInput = memo<ArrayInputProps>(({ field, placeholder, label, infoConte
 
 ArrayInput.displayName = 'ArrayInput'
 
-const HostModal: React.FC<HostModalProps> = ({ isDialogOpen, onOpenChange, onSubmit, editingHost, form, inboundDetails, isLoadingInbounds = false }) => {
+const HostModal: React.FC<HostModalProps> = ({ isDialogOpen, onOpenChange, onSubmit, editingHost, editingHostId, form, inboundDetails, isLoadingInbounds = false }) => {
   const [openSection, setOpenSection] = useState<string | undefined>(undefined)
   const [wireguardOpenSection, setWireguardOpenSection] = useState<string | undefined>(undefined)
   const [isTransportOpen, setIsTransportOpen] = useState(false)
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
+  const [isHealthOpen, setIsHealthOpen] = useState(false)
   const [resolvedHostMode, setResolvedHostMode] = useState<'xray' | 'wireguard'>('xray')
   const { t } = useTranslation()
   const dir = useDirDetection()
@@ -693,6 +700,8 @@ const HostModal: React.FC<HostModalProps> = ({ isDialogOpen, onOpenChange, onSub
       setOpenSection(undefined)
       setWireguardOpenSection(undefined)
       setIsTransportOpen(false)
+      setIsPreviewOpen(false)
+      setIsHealthOpen(false)
       setResolvedHostMode('xray')
       resetFormToDefaults()
     }
@@ -3451,6 +3460,44 @@ const HostModal: React.FC<HostModalProps> = ({ isDialogOpen, onOpenChange, onSub
                   </AccordionItem>
                 </Accordion>
               )}
+
+              <Collapsible open={isPreviewOpen} onOpenChange={setIsPreviewOpen} className="rounded-lg border">
+                <CollapsibleTrigger asChild>
+                  <button type="button" className="flex w-full items-center justify-between gap-3 p-3 text-start">
+                    <div className="min-w-0 space-y-1">
+                      <span className="flex items-center gap-2 text-sm font-medium">
+                        <Eye className="h-4 w-4 shrink-0" />
+                        {t('hostsDialog.preview.title')}
+                      </span>
+                      <p className="text-muted-foreground text-xs">{t('hostsDialog.preview.description')}</p>
+                    </div>
+                    <ChevronDown className={cn('h-4 w-4 shrink-0 transition-transform', isPreviewOpen && 'rotate-180')} />
+                  </button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="border-t p-3">
+                  <HostLinkPreview getHost={() => hostFormValuesToCreateHost(form.getValues())} />
+                </CollapsibleContent>
+              </Collapsible>
+
+              {editingHost && editingHostId && (
+                <Collapsible open={isHealthOpen} onOpenChange={setIsHealthOpen} className="rounded-lg border">
+                  <CollapsibleTrigger asChild>
+                    <button type="button" className="flex w-full items-center justify-between gap-3 p-3 text-start">
+                      <div className="min-w-0 space-y-1">
+                        <span className="flex items-center gap-2 text-sm font-medium">
+                          <Activity className="h-4 w-4 shrink-0" />
+                          {t('host.health.title')}
+                        </span>
+                        <p className="text-muted-foreground text-xs">{t('host.health.savedOnly')}</p>
+                      </div>
+                      <ChevronDown className={cn('h-4 w-4 shrink-0 transition-transform', isHealthOpen && 'rotate-180')} />
+                    </button>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="border-t p-3">
+                    <HostHealthPanel hostId={editingHostId} />
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
             </div>
             <div className="flex justify-end gap-2">
               <Button type="button" variant="outline" onClick={() => handleModalOpenChange(false)}>
@@ -0,0 +1,51 @@
+import { useCheckHostsHealth, type CheckHostsHealthMutationError, type HostHealthResult } from '@/service/api'
+import { addHostHealthResults, getHostHealthHistory, subscribeHostHealthHistory } from '@/utils/hostHealthHistory'
+import { useCallback, useSyncExternalStore } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+/** The server probes at most this many hosts per request. */
+const HOSTS_PER_CHECK = 20
+
+export function useHostHealthHistory() {
+  return useSyncExternalStore(subscribeHostHealthHistory, getHostHealthHistory, getHostHealthHistory)
+}
+
+export function useHostHealth() {
+  const { t } = useTranslation()
+  const history = useHostHealthHistory()
+  const { mutateAsync, isPending } = useCheckHostsHealth()
+
+  const checkHosts = useCallback(
+    async (ids: number[]) => {
+      if (!ids.length) return null
+      const toastId = toast.loading(t('host.health.checking', { count: ids.length }))
+      try {
+        const hosts: HostHealthResult[] = []
+        for (let i = 0; i < ids.length; i += HOSTS_PER_CHECK) {
+          const result = await mutateAsync({ data: { ids: ids.slice(i, i + HOSTS_PER_CHECK) } })
+          hosts.push(...result.hosts)
+        }
+        addHostHealthResults(hosts)
+        const failed = hosts.filter(host => host.status === 'error').length
+        const warned = hosts.filter(host => host.status === 'warning').length
+        if (failed > 0) {
+          toast.error(t('host.health.checkedWithErrors', { count: hosts.length, failed }), { id: toastId })
+        } else if (warned > 0) {
+          toast.warning(t('host.health.checkedWithWarnings', { count: hosts.length, warned }), { id: toastId })
+        } else {
+          toast.success(t('host.health.checkedOk', { count: hosts.length }), { id: toastId })
+        }
+        return hosts
+      } catch (error: unknown) {
+        const fetchError = error as CheckHostsHealthMutationError | undefined
+        const detail: unknown = fetchError?.data?.detail
+        toast.error(t('host.health.checkFailed'), { id: toastId, description: typeof detail === 'string' ? detail : fetchError?.message })
+        return null
+      }
+    },
+    [mutateAsync, t],
+  )
+
+  return { history, checkHosts, isChecking: isPending }
+}
@@ -0,0 +1,71 @@
+import { Network, X } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
+import { ACCESS_LOG_FIELDS, EMPTY_ACCESS_LOG_FILTER, type AccessLogFilter } from '@/utils/logsUtils'
+
+interface AccessLogFilterProps {
+  value: AccessLogFilter
+  onValueChange: (value: AccessLogFilter) => void
+  showColumns: boolean
+  onShowColumnsChange: (show: boolean) => void
+}
+
+export function AccessLogFilterPopover({ value, onValueChange, showColumns, onShowColumnsChange }: AccessLogFilterProps) {
+  const { t } = useTranslation()
+  const activeCount = ACCESS_LOG_FIELDS.filter(field => value[field.key].trim() !== '').length
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-input h-9 w-full text-sm sm:w-auto">
+          <Network className="h-4 w-4" />
+          {t('nodes.logs.access.title')}
+          {activeCount > 0 && (
+            <>
+              <Separator orientation="vertical" className="mx-1 h-4" />
+              <Badge variant="blank" className="rounded-sm px-1 font-normal">
+                {activeCount}
+              </Badge>
+            </>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="start">
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="access-log-columns" className="text-sm">
+              {t('nodes.logs.access.showColumns')}
+            </Label>
+            <Switch id="access-log-columns" checked={showColumns} onCheckedChange={onShowColumnsChange} className="scale-75" />
+          </div>
+          <Separator />
+          {ACCESS_LOG_FIELDS.map(field => (
+            <div key={field.key} className="flex flex-col gap-1">
+              <Label htmlFor={`access-log-${field.key}`} className="text-muted-foreground text-xs">
+                {t(field.label)}
+              </Label>
+              <Input
+                id={`access-log-${field.key}`}
+                dir="ltr"
+                value={value[field.key]}
+                placeholder={field.placeholder}
+                onChange={event => onValueChange({ ...value, [field.key]: event.target.value })}
+                className="h-8 font-mono text-xs"
+              />
+            </div>
+          ))}
+          <Button variant="ghost" size="sm" className="h-8 self-end" onClick={() => onValueChange(EMPTY_ACCESS_LOG_FILTER)} disabled={activeCount === 0}>
+            <X className="h-4 w-4" />
+            {t('nodes.logs.access.clear')}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
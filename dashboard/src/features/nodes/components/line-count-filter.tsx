@@ -12,7 +12,7 @@ export function LineCountFilter({ value, onValueChange }: LineCountFilterProps)
   const { t, i18n } = useTranslation()
   const dir = useDirDetection()
 
-  const LINE_COUNT_OPTIONS = [50, 100, 200, 500, 1000, 2000, 5000]
+  const LINE_COUNT_OPTIONS = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000, 50000]
 
   const getLineCountLabel = (count: number) => {
     const label = t('nodes.logs.linesCount', { count })
@@ -0,0 +1,78 @@
+import { CheckIcon } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Separator } from '@/components/ui/separator'
+import { cn } from '@/lib/utils'
+import type { NodeLogLane } from '@/utils/logsUtils'
+
+interface NodeLanesFilterProps {
+  lanes: NodeLogLane[]
+  value: number[]
+  onValueChange: (value: number[]) => void
+}
+
+export function NodeLanesFilter({ lanes, value, onValueChange }: NodeLanesFilterProps) {
+  const { t } = useTranslation()
+  const selectedIds = new Set(value)
+  const allSelected = lanes.length > 0 && lanes.every(lane => selectedIds.has(lane.id))
+
+  const toggle = (id: number) => {
+    const next = new Set(selectedIds)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    onValueChange(lanes.filter(lane => next.has(lane.id)).map(lane => lane.id))
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-input h-9 w-full justify-start text-sm sm:w-[250px]" disabled={lanes.length === 0}>
+          {t('nodes.title')}
+          <Separator orientation="vertical" className="mx-2 h-4" />
+          <div className="flex items-center gap-1 overflow-hidden">
+            {lanes
+              .filter(lane => selectedIds.has(lane.id))
+              .map(lane => (
+                <span key={lane.id} className={cn('h-2.5 w-2.5 flex-shrink-0 rounded-full', lane.color)} />
+              ))}
+            <Badge variant="blank" className="rounded-sm px-1 font-normal">
+              {allSelected ? t('nodes.logs.all') : `${selectedIds.size}/${lanes.length}`}
+            </Badge>
+          </div>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[250px] p-0" align="start">
+        <Command>
+          <CommandList>
+            <CommandGroup>
+              <CommandItem onSelect={() => onValueChange(allSelected ? [] : lanes.map(lane => lane.id))}>
+                <div className={cn('border-primary mr-2 flex h-4 w-4 items-center rounded-sm border', allSelected ? 'bg-primary text-primary-foreground' : 'opacity-50 [&_svg]:invisible')}>
+                  <CheckIcon className="h-4 w-4" />
+                </div>
+                <Badge variant="blank">{t('nodes.logs.all')}</Badge>
+              </CommandItem>
+              {lanes.map(lane => {
+                const isSelected = selectedIds.has(lane.id)
+                return (
+                  <CommandItem key={lane.id} onSelect={() => toggle(lane.id)}>
+                    <div className={cn('border-primary mr-2 flex h-4 w-4 items-center rounded-sm border', isSelected ? 'bg-primary text-primary-foreground' : 'opacity-50 [&_svg]:invisible')}>
+                      <CheckIcon className="h-4 w-4" />
+                    </div>
+                    <span className={cn('mr-2 h-2.5 w-2.5 flex-shrink-0 rounded-full', lane.color)} />
+                    <span className="truncate">{lane.name}</span>
+                  </CommandItem>
+                )
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -5,19 +5,36 @@ import { Tooltip, TooltipContent, TooltipPortal, TooltipProvider, TooltipTrigger
 import { cn } from '@/lib/utils'
 import dayjs from '@/lib/dayjs'
 import type { Dayjs } from 'dayjs'
-import { getLogStyle, type LogLine } from '@/utils/logsUtils'
+import { getLogStyle, type AccessLogFilterKey, type LogLine, type NodeLogLane } from '@/utils/logsUtils'
 import { useTranslation } from 'react-i18next'
 
 interface LogLineProps {
   log: LogLine
   noTimestamp?: boolean
   searchTerm?: string
+  /** Takes precedence over `searchTerm`; used for regex / case-sensitive search. */
+  highlight?: RegExp | null
+  /** Fixed-height row for virtualized lists: message is truncated instead of wrapped. */
+  singleLine?: boolean
+  showAccessFields?: boolean
+  onAccessFieldSelect?: (key: AccessLogFilterKey, value: string) => void
+  selected?: boolean
+  onSelect?: () => void
+  /** Node the line came from in merged multi-node views. */
+  lane?: NodeLogLane
 }
 
 const fancyAnsi = new FancyAnsi()
 
-export function TerminalLine({ log, noTimestamp, searchTerm }: LogLineProps) {
-  const { timestamp, message, rawTimestamp } = log
+const highlightHtml = (html: string, pattern: RegExp) =>
+  html
+    // Only touch text between tags so a pattern like "span" cannot break the ANSI markup
+    .split(/(<[^>]+>)/)
+    .map(part => (part.startsWith('<') ? part : part.replace(pattern, match => (match ? `<span class="bg-orange-200/80 dark:bg-orange-900/80 font-bold">${match}</span>` : match))))
+    .join('')
+
+export function TerminalLine({ log, noTimestamp, searchTerm, highlight, singleLine, showAccessFields, onAccessFieldSelect, selected, onSelect, lane }: LogLineProps) {
+  const { timestamp, message, rawTimestamp, access } = log
   const { type, variant, color } = getLogStyle(log.type)
   const { t, i18n } = useTranslation()
   const locale = i18n.language
@@ -45,26 +62,30 @@ export function TerminalLine({ log, noTimestamp, searchTerm }: LogLineProps) {
   const displayTime = parsedDate ? parsedDate.format('HH:mm:ss') : rawTimestamp || ''
   const tooltipTimestamp = parsedDate ? parsedDate.format('YYYY-MM-DD HH:mm:ss') : rawTimestamp || ''
 
-  const highlightMessage = (text: string, term: string) => {
-    if (!term) {
-      return (
-        <span
-          className="transition-colors"
-          dangerouslySetInnerHTML={{
-            __html: fancyAnsi.toHtml(text),
-          }}
-        />
-      )
-    }
-
+  const highlightMessage = (text: string) => {
+    const pattern = highlight ?? (searchTerm ? new RegExp(`(${escapeRegExp(searchTerm)})`, 'gi') : null)
     const htmlContent = fancyAnsi.toHtml(text)
-    const searchRegex = new RegExp(`(${escapeRegExp(term)})`, 'gi')
 
-    const modifiedContent = htmlContent.replace(searchRegex, match => `<span class="bg-orange-200/80 dark:bg-orange-900/80 font-bold">${match}</span>`)
-
-    return <span className="transition-colors" dangerouslySetInnerHTML={{ __html: modifiedContent }} />
+    return <span className="transition-colors" dangerouslySetInnerHTML={{ __html: pattern ? highlightHtml(htmlContent, pattern) : htmlContent }} />
   }
 
+  const accessCell = (key: AccessLogFilterKey, value: string | null, width: string) => (
+    <button
+      type="button"
+      title={value ?? undefined}
+      disabled={!value || !onAccessFieldSelect}
+      onClick={event => {
+        event.stopPropagation()
+        if (value) onAccessFieldSelect?.(key, value)
+      }}
+      className={cn('text-muted-foreground enabled:hover:text-foreground flex-shrink-0 truncate text-left text-[11px] enabled:hover:underline', width)}
+    >
+      {value ?? ''}
+    </button>
+  )
+
+  const destination = access ? (access.destinationPort !== null ? `${access.destination}:${access.destinationPort}` : access.destination) : null
+
   const tooltip = (color: string, timestamp: string | null) => {
     const square = <div className={cn('h-full w-2 flex-shrink-0 rounded-[3px]', color)} />
     return timestamp ? (
@@ -87,8 +108,12 @@ export function TerminalLine({ log, noTimestamp, searchTerm }: LogLineProps) {
 
   return (
     <div
+      onClick={onSelect}
       className={cn(
-        'group flex flex-col gap-1.5 px-2 py-2 font-mono text-xs sm:flex-row sm:gap-3 sm:px-3 sm:py-0.5 sm:text-xs',
+        'group flex font-mono text-xs',
+        singleLine ? 'h-full flex-row items-center gap-3 px-3' : 'flex-col gap-1.5 px-2 py-2 sm:flex-row sm:gap-3 sm:px-3 sm:py-0.5 sm:text-xs',
+        onSelect && 'cursor-pointer',
+        selected && 'ring-primary/60 ring-1 ring-inset',
         type === 'error'
           ? 'bg-red-500/10 hover:bg-red-500/15'
           : type === 'warning'
@@ -98,9 +123,15 @@ export function TerminalLine({ log, noTimestamp, searchTerm }: LogLineProps) {
               : 'hover:bg-gray-200/50 dark:hover:bg-gray-800/50',
       )}
     >
-      <div className={cn('flex flex-shrink-0 items-start gap-2', noTimestamp && 'gap-1')}>
+      <div className={cn('flex flex-shrink-0 gap-2', singleLine ? 'h-5 items-center' : 'items-start', noTimestamp && 'gap-1')}>
         {/* Icon to expand the log item maybe implement a colapsible later */}
         {/* <Square className="size-4 text-muted-foreground opacity-0 group-hover/logitem:opacity-100 transition-opacity" /> */}
+        {lane && (
+          <div className="flex h-5 w-24 flex-shrink-0 items-center gap-1.5" title={lane.name}>
+            <span className={cn('h-full w-1 flex-shrink-0 rounded-full', lane.color)} />
+            <span className="text-muted-foreground truncate text-[11px]">{lane.name}</span>
+          </div>
+        )}
         {tooltip(color, tooltipTimestamp || null)}
         {!noTimestamp && <span className="text-muted-foreground w-20 flex-shrink-0 text-[11px] select-text sm:w-24 sm:text-xs">{displayTime}</span>}
 
@@ -108,7 +139,19 @@ export function TerminalLine({ log, noTimestamp, searchTerm }: LogLineProps) {
           {t(`nodes.logs.${type}`)}
         </Badge>
       </div>
-      <span className="text-foreground font-mono text-xs leading-relaxed break-words whitespace-pre-wrap sm:text-xs dark:text-gray-200">{highlightMessage(message, searchTerm || '')}</span>
+      {showAccessFields && (
+        <div className="flex flex-shrink-0 items-center gap-3">
+          {accessCell('sourceIp', access?.sourceIp ?? null, 'w-28')}
+          {accessCell('destination', destination, 'w-44')}
+          {accessCell('inboundTag', access?.inboundTag ?? null, 'w-24')}
+          {accessCell('email', access?.email ?? null, 'w-20')}
+        </div>
+      )}
+      <span
+        className={cn('text-foreground font-mono text-xs leading-relaxed sm:text-xs dark:text-gray-200', singleLine ? 'min-w-0 flex-1 truncate whitespace-pre' : 'break-words whitespace-pre-wrap')}
+      >
+        {highlightMessage(message)}
+      </span>
     </div>
   )
 }
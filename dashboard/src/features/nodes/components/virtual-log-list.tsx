@@ -0,0 +1,73 @@
+import { type ReactNode, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+
+interface VirtualLogListProps<T> {
+  items: T[]
+  rowHeight: number
+  renderItem: (item: T, index: number) => ReactNode
+  /** Keep the viewport pinned to the newest line; turned off when the user scrolls up. */
+  followOutput: boolean
+  onFollowOutputChange: (follow: boolean) => void
+  overscan?: number
+  className?: string
+  emptyState?: ReactNode
+}
+
+/**
+ * Renders only the rows intersecting the viewport. Rows are fixed-height so tens of thousands
+ * of lines cost the same as a screenful; long messages are truncated and expanded elsewhere.
+ */
+export function VirtualLogList<T>({ items, rowHeight, renderItem, followOutput, onFollowOutputChange, overscan = 20, className, emptyState }: VirtualLogListProps<T>) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(0)
+
+  useEffect(() => {
+    const element = scrollRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => setViewportHeight(entry.contentRect.height))
+    observer.observe(element)
+    setViewportHeight(element.clientHeight)
+    return () => observer.disconnect()
+  }, [])
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current
+    if (!followOutput || !element) return
+    element.scrollTop = element.scrollHeight
+    setScrollTop(element.scrollTop)
+  }, [items, followOutput])
+
+  const handleScroll = () => {
+    const element = scrollRef.current
+    if (!element) return
+
+    setScrollTop(element.scrollTop)
+    const isAtBottom = Math.abs(element.scrollHeight - element.scrollTop - element.clientHeight) < rowHeight
+    if (isAtBottom !== followOutput) onFollowOutputChange(isAtBottom)
+  }
+
+  const firstIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan)
+  const lastIndex = Math.min(items.length, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan)
+  const visibleItems = items.slice(firstIndex, lastIndex)
+
+  return (
+    <div ref={scrollRef} onScroll={handleScroll} dir="ltr" className={cn('relative overflow-auto', className)}>
+      {items.length === 0 ? (
+        emptyState
+      ) : (
+        <div className="relative w-full" style={{ height: items.length * rowHeight }}>
+          {visibleItems.map((item, offset) => {
+            const index = firstIndex + offset
+            return (
+              <div key={index} className="absolute inset-x-0" style={{ top: index * rowHeight, height: rowHeight }}>
+                {renderItem(item, index)}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
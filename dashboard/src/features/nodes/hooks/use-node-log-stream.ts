@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { EventSource } from 'eventsource'
+import { getAuthToken } from '@/utils/authStorage'
+import { createLogRingBuffer, parseLogLine, type LogLine, type LogRingBuffer } from '@/utils/logsUtils'
+
+/** Parsed lines kept per stream; older lines fall off the front. */
+export const LOG_BUFFER_CAPACITY = 50000
+
+/** Incoming SSE chunks are parsed immediately but only flushed to React state on this cadence. */
+const FLUSH_INTERVAL_MS = 250
+
+/** How long to wait for the first chunk before switching from the spinner to "No logs". */
+const NO_DATA_TIMEOUT_MS = 2000
+
+const getLogsBaseUrl = () =>
+  import.meta.env.VITE_BASE_API && typeof import.meta.env.VITE_BASE_API === 'string' && import.meta.env.VITE_BASE_API.trim() !== '/' && import.meta.env.VITE_BASE_API.startsWith('http')
+    ? import.meta.env.VITE_BASE_API
+    : window.location.origin
+
+/** Opens the authenticated SSE stream behind `/api/node/{id}/logs`. */
+export function openNodeLogStream(nodeId: number) {
+  const token = getAuthToken()
+  return new EventSource(`${getLogsBaseUrl()}/api/node/${nodeId}/logs`, {
+    fetch: (input, init) =>
+      fetch(input, {
+        ...init,
+        headers: {
+          ...init?.headers,
+          Authorization: `Bearer ${token}`,
+        },
+      }),
+  })
+}
+
+/** A single SSE message may carry several newline-separated log lines. */
+export const parseLogChunk = (chunk: string) =>
+  chunk
+    .split('\n')
+    .map(parseLogLine)
+    .filter((log): log is LogLine => log !== null)
+
+/** Tags every line of a chunk with the node it came from, for merged multi-node views. */
+export const parseNodeLogChunk = (chunk: string, nodeId: number) => parseLogChunk(chunk).map(log => ({ ...log, nodeId }))
+
+interface UseNodeLogStreamOptions {
+  capacity?: number
+  /** Drops lines before they reach the buffer, e.g. to keep only one user's access lines. */
+  accept?: (log: LogLine) => boolean
+}
+
+/** Appends `incoming` to `logs` without walking the whole buffer, trimming the oldest lines past `capacity`. */
+const appendCapped = (logs: LogLine[], incoming: LogLine[], capacity: number) => {
+  if (incoming.length === 0) return logs
+  const overflow = logs.length + incoming.length - capacity
+  if (overflow <= 0) return logs.concat(incoming)
+  if (overflow >= logs.length) return incoming.slice(incoming.length - capacity)
+  return logs.slice(overflow).concat(incoming)
+}
+
+/**
+ * Tails the logs of one or more nodes into a single ring buffer, each line tagged with its
+ * `nodeId`. While paused, new lines keep arriving into a separate buffer of the same
+ * capacity and are appended on resume, so nothing is dropped unless the pause outlasts the
+ * whole buffer. Removing a node from `nodeIds` only closes its stream and keeps its lines;
+ * toggling it back on clears that node's lines first, since the reopened stream replays them.
+ * Call `clear` to reset.
+ */
+export function useNodeLogStream(nodeIds: number[], { capacity = LOG_BUFFER_CAPACITY, accept }: UseNodeLogStreamOptions = {}) {
+  const [logs, setLogs] = useState<LogLine[]>([])
+  const [pendingCount, setPendingCount] = useState(0)
+  const [isPaused, setIsPausedState] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const incomingRef = useRef<LogLine[]>([])
+  const pendingRef = useRef<LogRingBuffer<LogLine>>(createLogRingBuffer(capacity))
+  const isPausedRef = useRef(false)
+  const dirtyRef = useRef(false)
+  const capacityRef = useRef(capacity)
+  capacityRef.current = capacity
+  const streamsRef = useRef(new Map<number, EventSource>())
+  const acceptRef = useRef(accept)
+  acceptRef.current = accept
+
+  const flush = useCallback(() => {
+    if (!dirtyRef.current) return
+    dirtyRef.current = false
+    if (isPausedRef.current) {
+      setPendingCount(pendingRef.current.size)
+    } else {
+      const incoming = incomingRef.current
+      incomingRef.current = []
+      setLogs(prev => appendCapped(prev, incoming, capacityRef.current))
+    }
+  }, [])
+
+  const setPaused = useCallback((paused: boolean) => {
+    isPausedRef.current = paused
+    setIsPausedState(paused)
+    if (!paused && pendingRef.current.size > 0) {
+      const incoming = incomingRef.current.concat(pendingRef.current.toArray())
+      incomingRef.current = []
+      pendingRef.current.clear()
+      setPendingCount(0)
+      setLogs(prev => appendCapped(prev, incoming, capacityRef.current))
+    }
+  }, [])
+
+  const clear = useCallback(() => {
+    incomingRef.current = []
+    pendingRef.current.clear()
+    dirtyRef.current = false
+    isPausedRef.current = false
+    setIsPausedState(false)
+    setPendingCount(0)
+    setLogs([])
+  }, [])
+
+  useEffect(() => {
+    incomingRef.current = []
+    pendingRef.current = createLogRingBuffer(capacity)
+    setLogs([])
+    setPendingCount(0)
+  }, [capacity])
+
+  useEffect(() => {
+    const flushTimer = setInterval(flush, FLUSH_INTERVAL_MS)
+    const streams = streamsRef.current
+    return () => {
+      clearInterval(flushTimer)
+      streams.forEach(eventSource => eventSource.close())
+      streams.clear()
+    }
+  }, [flush])
+
+  const nodeIdsKey = nodeIds.filter(Boolean).join(',')
+
+  useEffect(() => {
+    const wanted = new Set(nodeIdsKey ? nodeIdsKey.split(',').map(Number) : [])
+    const streams = streamsRef.current
+
+    streams.forEach((eventSource, nodeId) => {
+      if (wanted.has(nodeId)) return
+      eventSource.close()
+      streams.delete(nodeId)
+    })
+
+    const added = [...wanted].filter(nodeId => !streams.has(nodeId))
+    if (wanted.size === 0) {
+      setIsLoading(false)
+      return
+    }
+    if (added.length === 0) return
+
+    let isCurrent = true
+    setIsLoading(true)
+    const noDataTimeout = setTimeout(() => {
+      if (isCurrent) setIsLoading(false)
+    }, NO_DATA_TIMEOUT_MS)
+
+    const reopened = new Set(added)
+    const isOtherNode = (log: LogLine) => log.nodeId === undefined || !reopened.has(log.nodeId)
+    incomingRef.current = incomingRef.current.filter(isOtherNode)
+    pendingRef.current.retain(isOtherNode)
+    setPendingCount(pendingRef.current.size)
+    setLogs(prev => (prev.some(log => !isOtherNode(log)) ? prev.filter(isOtherNode) : prev))
+
+    for (const nodeId of added) {
+      const eventSource = openNodeLogStream(nodeId)
+      streams.set(nodeId, eventSource)
+
+      eventSource.onmessage = e => {
+        if (streams.get(nodeId) !== eventSource) return
+
+        const parsed = parseNodeLogChunk(e.data, nodeId)
+        const lines = acceptRef.current ? parsed.filter(acceptRef.current) : parsed
+        if (lines.length > 0) {
+          if (isPausedRef.current) {
+            pendingRef.current.push(...lines)
+          } else {
+            incomingRef.current.push(...lines)
+          }
+          dirtyRef.current = true
+        }
+
+        setIsLoading(false)
+      }
+
+      eventSource.onerror = error => {
+        if (streams.get(nodeId) !== eventSource) return
+        console.error('SSE error:', error)
+        setIsLoading(false)
+      }
+    }
+
+    return () => {
+      isCurrent = false
+      clearTimeout(noDataTimeout)
+    }
+  }, [nodeIdsKey])
+
+  return { logs, pendingCount, isPaused, setPaused, isLoading, clear }
+}
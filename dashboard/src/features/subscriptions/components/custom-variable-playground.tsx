@@ -0,0 +1,225 @@
+import { normalizeCustomVariablesForPayload, type SubscriptionFormData } from '@/features/subscriptions/components/subscription-settings-schema'
+import { UserSearchCombobox } from '@/features/users/components/user-search-combobox'
+import { Badge } from '@/components/ui/badge'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import { type UserSimple, useGetAdmins, useGetUserById } from '@/service/api'
+import { runVariablePlayground, type CustomVariableLevel, type PlaygroundTarget, type PlaygroundVariableSource } from '@/utils/customVariablePlayground'
+import { AlertTriangle, ChevronDown, Variable } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const PLAYGROUND_TARGETS: PlaygroundTarget[] = ['remark', 'profileTitle', 'announce']
+
+const DEFAULT_REMARK_SAMPLE = '{STATUS_EMOJI} {USERNAME} [{PROTOCOL} - {TRANSPORT}] {DATA_LEFT} / {DAYS_LEFT}d'
+
+const SOURCE_CLASSES: Record<PlaygroundVariableSource, string> = {
+  builtin: 'bg-muted text-foreground',
+  context: 'bg-violet-500/15 text-violet-700 dark:text-violet-300',
+  server: 'bg-muted text-muted-foreground',
+  general: 'bg-sky-500/15 text-sky-700 dark:text-sky-300',
+  subscription: 'bg-sky-500/15 text-sky-700 dark:text-sky-300',
+  admin: 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-300',
+  undefined: 'bg-destructive/15 text-destructive',
+}
+
+export interface CustomVariablePlaygroundProps {
+  /** Unsaved values watched from the hosting settings form; the general settings form has no title or announce. */
+  customVariables: SubscriptionFormData['custom_variables'] | undefined
+  profileTitle?: SubscriptionFormData['profile_title']
+  announce?: SubscriptionFormData['announce']
+  /** Which settings page hosts the form; both edit the same list on the panel. */
+  level: Exclude<CustomVariableLevel, 'admin'>
+}
+
+/** Expands a remark, profile title or announce string for a real user with the unsaved custom variables from the form. */
+export function CustomVariablePlayground({ customVariables, profileTitle, announce, level }: CustomVariablePlaygroundProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [selectedUser, setSelectedUser] = useState<UserSimple | null>(null)
+  const [target, setTarget] = useState<PlaygroundTarget>('remark')
+  const [templates, setTemplates] = useState<Record<PlaygroundTarget, string | null>>({ remark: DEFAULT_REMARK_SAMPLE, profileTitle: null, announce: null })
+  const [protocol, setProtocol] = useState('vless')
+  const [transport, setTransport] = useState('ws')
+
+  const { data: user } = useGetUserById(selectedUser?.id ?? 0, { query: { enabled: open && !!selectedUser } })
+  const ownerUsername = user?.admin?.username
+  const { data: adminsData, isError: adminsError } = useGetAdmins({ username: ownerUsername, limit: 10 }, { query: { enabled: open && !!ownerUsername } })
+  const owner = adminsData?.admins.find(admin => admin.username === ownerUsername)
+
+  const settingsVariables = normalizeCustomVariablesForPayload(customVariables)
+  const formProfileTitle = profileTitle ?? ''
+  const formAnnounce = announce ?? ''
+  // Same precedence as the panel: the owner's profile title wins over the subscription setting
+  const effectiveProfileTitle = owner?.profile_title || formProfileTitle || 'Subscription'
+  const template = templates[target] ?? (target === 'profileTitle' ? effectiveProfileTitle : target === 'announce' ? formAnnounce : '')
+
+  const run = (playgroundTarget: PlaygroundTarget, playgroundTemplate: string, profileTitle?: string) =>
+    user
+      ? runVariablePlayground({
+          template: playgroundTemplate,
+          target: playgroundTarget,
+          user,
+          settingsVariables,
+          settingsLevel: level,
+          adminVariables: owner?.custom_variables ?? [],
+          context: { PROTOCOL: protocol, TRANSPORT: transport, url: user.subscription_url ?? '', PROFILE_TITLE: profileTitle },
+        })
+      : null
+
+  const profileTitleForAnnounce = target === 'announce' ? run('profileTitle', effectiveProfileTitle)?.expansion.output : undefined
+  const result = run(target, template, profileTitleForAnnounce)
+  const warningCount = result ? result.expansion.undefinedKeys.length + (result.expansion.error ? 1 : 0) : 0
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="bg-card rounded-lg border shadow-sm">
+      <CollapsibleTrigger asChild>
+        <button type="button" className="flex w-full items-center justify-between gap-3 p-3 text-start sm:p-4">
+          <div className="min-w-0 space-y-1">
+            <span className="flex items-center gap-2 text-sm font-semibold sm:text-base">
+              <Variable className="h-4 w-4 shrink-0" />
+              {t('settings.subscriptions.customVariables.playground.title')}
+              {warningCount > 0 && (
+                <Badge variant="outline" className="gap-1 border-amber-500/50 text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="h-3 w-3" />
+                  {warningCount}
+                </Badge>
+              )}
+            </span>
+            <p className="text-muted-foreground text-xs sm:text-sm">{t('settings.subscriptions.customVariables.playground.description')}</p>
+          </div>
+          <ChevronDown className={cn('h-4 w-4 shrink-0 transition-transform', open && 'rotate-180')} />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 border-t p-3 sm:p-4">
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <UserSearchCombobox
+            value={selectedUser}
+            onChange={setSelectedUser}
+            placeholder={t('settings.subscriptions.customVariables.playground.selectUser')}
+            searchPlaceholder={t('settings.subscriptions.customVariables.playground.searchUsers')}
+            className="sm:flex-1"
+          />
+          <Select value={target} onValueChange={value => setTarget(value as PlaygroundTarget)}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYGROUND_TARGETS.map(item => (
+                <SelectItem key={item} value={item}>
+                  {t(`settings.subscriptions.customVariables.playground.targets.${item}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Input dir="ltr" value={template} onChange={event => setTemplates({ ...templates, [target]: event.target.value })} className="font-mono text-xs" />
+          {target === 'remark' && (
+            <div className="grid grid-cols-2 gap-2">
+              <Input dir="ltr" value={protocol} onChange={event => setProtocol(event.target.value)} placeholder="PROTOCOL" className="h-8 font-mono text-xs" />
+              <Input dir="ltr" value={transport} onChange={event => setTransport(event.target.value)} placeholder="TRANSPORT" className="h-8 font-mono text-xs" />
+            </div>
+          )}
+          {target === 'profileTitle' && owner?.profile_title && (
+            <p className="text-muted-foreground text-xs">{t('settings.subscriptions.customVariables.playground.adminProfileTitle', { admin: owner.username })}</p>
+          )}
+          {ownerUsername && adminsError && <p className="text-muted-foreground text-xs">{t('settings.subscriptions.customVariables.playground.adminUnavailable', { admin: ownerUsername })}</p>}
+        </div>
+
+        {!result ? (
+          <p className="text-muted-foreground py-4 text-center text-xs">{t('settings.subscriptions.customVariables.playground.empty')}</p>
+        ) : (
+          <>
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium sm:text-sm">{t('settings.subscriptions.customVariables.playground.output')}</span>
+              <div dir="ltr" className="bg-muted/30 rounded-md border p-3 font-mono text-xs leading-6 break-all whitespace-pre-wrap">
+                {result.expansion.segments.map((segment, index) =>
+                  segment.kind === 'text' ? (
+                    <span key={index}>{segment.text}</span>
+                  ) : (
+                    <span
+                      key={index}
+                      className={cn('rounded px-0.5', SOURCE_CLASSES[segment.source])}
+                      title={`${segment.raw} · ${t(`settings.subscriptions.customVariables.playground.sources.${segment.source}`)}`}
+                    >
+                      {segment.value}
+                    </span>
+                  ),
+                )}
+              </div>
+            </div>
+
+            {(result.expansion.error || result.expansion.undefinedKeys.length > 0) && (
+              <div className="space-y-1 rounded-md border border-amber-500/40 bg-amber-500/5 p-3">
+                {result.expansion.error && (
+                  <p className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                    <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                    {t(`settings.subscriptions.customVariables.playground.errors.${result.expansion.error}`)}
+                  </p>
+                )}
+                {result.expansion.undefinedKeys.map(key => (
+                  <p key={key} className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                    <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                    <span>
+                      {t('settings.subscriptions.customVariables.playground.undefinedPlaceholder')}
+                      <code dir="ltr" className="bg-muted ms-1 rounded px-1">{`{${key}}`}</code>
+                    </span>
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {result.customVariables.length > 0 && (
+              <div className="space-y-1.5">
+                <span className="text-xs font-medium sm:text-sm">{t('settings.subscriptions.customVariables.playground.customVariables')}</span>
+                <div className="divide-y rounded-md border">
+                  {result.customVariables.map((variable, index) => (
+                    <div key={`${variable.level}-${variable.key}-${index}`} className={cn('space-y-1 p-2 text-xs', variable.overriddenBy && 'opacity-60')}>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <code dir="ltr" className="font-mono font-medium">{`{${variable.key}}`}</code>
+                        <Badge variant="outline" className={cn('border-transparent', SOURCE_CLASSES[variable.level])}>
+                          {t(`settings.subscriptions.customVariables.playground.sources.${variable.level}`)}
+                        </Badge>
+                        {variable.overriddenBy && (
+                          <span className="text-muted-foreground">
+                            {t('settings.subscriptions.customVariables.playground.overriddenBy', {
+                              level: t(`settings.subscriptions.customVariables.playground.sources.${variable.overriddenBy}`),
+                            })}
+                          </span>
+                        )}
+                      </div>
+                      <div dir="ltr" className="text-muted-foreground grid grid-cols-[minmax(0,1fr)_auto_minmax(0,1fr)] items-baseline gap-2 font-mono">
+                        <span className="truncate" title={variable.rawValue}>
+                          {variable.rawValue}
+                        </span>
+                        <span>→</span>
+                        <span className="text-foreground truncate" title={variable.value}>
+                          {variable.value}
+                        </span>
+                      </div>
+                      {variable.customReferences.length > 0 && (
+                        <p className="text-amber-700 dark:text-amber-400">
+                          {t('settings.subscriptions.customVariables.playground.customReference', { keys: variable.customReferences.map(key => `{${key}}`).join(', ') })}
+                        </p>
+                      )}
+                      {variable.undefinedKeys.length > 0 && (
+                        <p className="text-amber-700 dark:text-amber-400">
+                          {t('settings.subscriptions.customVariables.playground.undefinedInValue', { keys: variable.undefinedKeys.map(key => `{${key}}`).join(', ') })}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <p className="text-muted-foreground text-xs">{t('settings.subscriptions.customVariables.playground.serverHint')}</p>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -2,6 +2,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { CustomVariablesPopover, normalizeCustomVariableKey } from '@/components/ui/variables-popover'
+import { CustomVariablePlayground } from '@/features/subscriptions/components/custom-variable-playground'
 import type { SubscriptionFormData } from '@/features/subscriptions/components/subscription-settings-schema'
 import { builtInVariableKeys } from '@/features/subscriptions/components/subscription-settings-schema'
 import { Plus, Trash2 } from 'lucide-react'
@@ -10,6 +11,8 @@ import { useTranslation } from 'react-i18next'
 
 export interface SubscriptionCustomVariablesSectionProps {
   form: UseFormReturn<any>
+  /** Settings page the section is shown on, labelled as the variables' source in the playground. */
+  level?: 'general' | 'subscription'
 }
 
 const nextCustomVariableKey = (variables: NonNullable<SubscriptionFormData['custom_variables']>) => {
@@ -23,7 +26,7 @@ const nextCustomVariableKey = (variables: NonNullable<SubscriptionFormData['cust
   return key
 }
 
-export function SubscriptionCustomVariablesSection({ form }: SubscriptionCustomVariablesSectionProps) {
+export function SubscriptionCustomVariablesSection({ form, level = 'subscription' }: SubscriptionCustomVariablesSectionProps) {
   const { t } = useTranslation()
   const customVariables = form.watch('custom_variables') || []
   const builtInKeys = new Set<string>(builtInVariableKeys)
@@ -111,6 +114,8 @@ export function SubscriptionCustomVariablesSection({ form }: SubscriptionCustomV
           </div>
         )}
       </div>
+
+      <CustomVariablePlayground customVariables={form.watch('custom_variables')} profileTitle={form.watch('profile_title')} announce={form.watch('announce')} level={level} />
     </div>
   )
 }
@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Download, Import, Smartphone, Star } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Platform, type Application } from '@/service/api'
+import { getLocalizedAppDescription, getLocalizedDownloadLink, getPlatformApps, resolveAppImportUrl } from '@/utils/subscriptionLanding'
+
+interface SubscriptionLandingAppsProps {
+  apps: Application[]
+  subscribeUrl: string
+  detectedPlatform: Platform | null
+}
+
+export default function SubscriptionLandingApps({ apps, subscribeUrl, detectedPlatform }: SubscriptionLandingAppsProps) {
+  const { t, i18n } = useTranslation()
+  const [platform, setPlatform] = useState<Platform>(detectedPlatform ?? Platform.android)
+  const platformApps = getPlatformApps(apps, platform)
+
+  return (
+    <Card className="bg-card/80">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Smartphone className="h-4 w-4" />
+          {t('subscriptionLanding.apps.title')}
+        </CardTitle>
+        <CardDescription>
+          {detectedPlatform ? t('subscriptionLanding.apps.detected', { platform: t(`settings.subscriptions.applications.platforms.${detectedPlatform}`) }) : t('subscriptionLanding.apps.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Select value={platform} onValueChange={value => setPlatform(value as Platform)}>
+          <SelectTrigger className="sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(Platform).map(item => (
+              <SelectItem key={item} value={item}>
+                {t(`settings.subscriptions.applications.platforms.${item}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {platformApps.length === 0 && <p className="text-muted-foreground py-6 text-center text-sm">{t('subscriptionLanding.apps.empty')}</p>}
+
+        {platformApps.map(app => {
+          const importUrl = resolveAppImportUrl(app, subscribeUrl)
+          const downloadLink = getLocalizedDownloadLink(app, i18n.language)
+          const description = getLocalizedAppDescription(app, i18n.language)
+
+          return (
+            <div key={`${app.platform}-${app.name}`} className="flex flex-col gap-3 rounded-md border p-3 sm:flex-row sm:items-center">
+              <div className="flex min-w-0 flex-1 items-start gap-3">
+                {app.icon_url ? <img src={app.icon_url} alt="" className="h-10 w-10 shrink-0 rounded-md object-contain" loading="lazy" /> : <div className="bg-muted h-10 w-10 shrink-0 rounded-md" />}
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{app.name}</span>
+                    {app.recommended && (
+                      <Badge variant="secondary" className="gap-1">
+                        <Star className="h-3 w-3" />
+                        {t('subscriptionLanding.apps.recommended')}
+                      </Badge>
+                    )}
+                  </div>
+                  {description && <p className="text-muted-foreground text-xs">{description}</p>}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                {downloadLink && (
+                  <Button asChild variant="outline" size="sm">
+                    <a href={downloadLink.url} target="_blank" rel="noopener noreferrer">
+                      <Download className="h-4 w-4" />
+                      {downloadLink.name}
+                    </a>
+                  </Button>
+                )}
+                {importUrl && (
+                  <Button asChild size="sm">
+                    <a href={importUrl}>
+                      <Import className="h-4 w-4" />
+                      {t('subscriptionLanding.apps.import')}
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,59 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { QRCodeCanvas } from 'qrcode.react'
+import { QrCode } from 'lucide-react'
+
+import { CopyButton } from '@/components/common/copy-button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { TooltipProvider } from '@/components/ui/tooltip'
+import { buildPublicFormatUrl, SUBSCRIPTION_LANDING_FORMATS, type SubscriptionLandingFormat } from '@/utils/subscriptionLanding'
+
+export default function SubscriptionLandingFormats({ subscribeUrl }: { subscribeUrl: string }) {
+  const { t } = useTranslation()
+  const [format, setFormat] = useState<SubscriptionLandingFormat>('auto')
+  const formatUrl = buildPublicFormatUrl(subscribeUrl, format)
+
+  return (
+    <Card className="bg-card/80">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <QrCode className="h-4 w-4" />
+          {t('subscriptionLanding.formats.title')}
+        </CardTitle>
+        <CardDescription>{t('subscriptionLanding.formats.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ToggleGroup
+          type="single"
+          value={format}
+          onValueChange={value => value && setFormat(value as SubscriptionLandingFormat)}
+          className="flex flex-wrap justify-start gap-1"
+          size="sm"
+          variant="outline"
+        >
+          {SUBSCRIPTION_LANDING_FORMATS.map(item => (
+            <ToggleGroupItem key={item} value={item} className="px-2 text-xs">
+              {t(`subscriptionLanding.formats.options.${item}`)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        <div className="flex flex-col items-center gap-3">
+          <div className="rounded-md bg-white p-3">
+            <QRCodeCanvas value={formatUrl} size={208} level="M" />
+          </div>
+          <div className="flex w-full items-center gap-2 rounded-md border p-2">
+            <code className="min-w-0 flex-1 truncate text-xs" dir="ltr" title={formatUrl}>
+              {formatUrl}
+            </code>
+            <TooltipProvider>
+              <CopyButton value={formatUrl} copiedMessage="copied" defaultMessage="copy" showToast toastSuccessMessage="subscriptionLanding.formats.copied" />
+            </TooltipProvider>
+          </div>
+          <p className="text-muted-foreground text-center text-xs">{t(`subscriptionLanding.formats.hints.${format === 'auto' ? 'auto' : 'manual'}`)}</p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
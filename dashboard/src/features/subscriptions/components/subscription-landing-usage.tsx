@@ -0,0 +1,88 @@
+import { useTranslation } from 'react-i18next'
+import { Activity, Megaphone, LifeBuoy } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { StatusBadge } from '@/features/users/components/status-badge'
+import { dateUtils } from '@/utils/dateFormatter'
+import { formatBytes } from '@/utils/formatByte'
+import type { SubscriptionLandingInfo } from '@/utils/subscriptionLanding'
+
+export default function SubscriptionLandingUsage({ info }: { info: SubscriptionLandingInfo }) {
+  const { t } = useTranslation()
+  const { user, announce, announceUrl, supportUrl } = info
+  const dataLimit = user.data_limit ?? 0
+  const usedPercent = dataLimit > 0 ? Math.min(100, (user.used_traffic / dataLimit) * 100) : 0
+
+  return (
+    <div className="space-y-4">
+      {announce && (
+        <div className="bg-primary/10 border-primary/30 flex items-start gap-3 rounded-md border p-3 text-sm">
+          <Megaphone className="text-primary mt-0.5 h-4 w-4 shrink-0" />
+          <div className="min-w-0 flex-1 space-y-1">
+            <p className="break-words whitespace-pre-line" dir="auto">
+              {announce}
+            </p>
+            {announceUrl && (
+              <a href={announceUrl} target="_blank" rel="noopener noreferrer" className="text-primary text-xs hover:underline">
+                {t('subscriptionLanding.readMore')}
+              </a>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Card className="bg-card/80">
+        <CardHeader className="pb-2">
+          <CardTitle className="flex flex-wrap items-center justify-between gap-2 text-base">
+            <span className="flex min-w-0 items-center gap-2">
+              <Activity className="h-4 w-4 shrink-0" />
+              <span className="truncate" dir="ltr">
+                {user.username}
+              </span>
+            </span>
+            <StatusBadge status={user.status} expiryDate={user.expire} showExpiry />
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{t('subscriptionLanding.usage.traffic')}</span>
+              <span dir="ltr">
+                {formatBytes(user.used_traffic)} / {dataLimit > 0 ? formatBytes(dataLimit) : '∞'}
+              </span>
+            </div>
+            {dataLimit > 0 && <Progress value={usedPercent} />}
+            {dataLimit > 0 && <p className="text-muted-foreground text-xs">{t('subscriptionLanding.usage.remaining', { amount: formatBytes(Math.max(0, dataLimit - user.used_traffic)) })}</p>}
+          </div>
+
+          <div className="grid gap-3 text-sm sm:grid-cols-2">
+            <UsageField label={t('subscriptionLanding.usage.expire')} value={user.expire ? dateUtils.formatDate(user.expire) : t('subscriptionLanding.usage.never')} />
+            <UsageField label={t('subscriptionLanding.usage.lifetime')} value={formatBytes(user.lifetime_used_traffic ?? user.used_traffic)} />
+          </div>
+
+          {supportUrl && (
+            <Button asChild variant="outline" size="sm" className="w-full">
+              <a href={supportUrl} target="_blank" rel="noopener noreferrer">
+                <LifeBuoy className="h-4 w-4" />
+                {t('subscriptionLanding.support')}
+              </a>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function UsageField({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border p-2.5">
+      <p className="text-muted-foreground text-xs">{label}</p>
+      <p className="font-medium" dir="ltr">
+        {value}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+import { configFormatOptions } from '@/features/subscriptions/components/config-format-options'
+import type { SubscriptionFormData } from '@/features/subscriptions/components/subscription-settings-schema'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+import { analyzeSubRules, testSubRules, type MergedResponseHeader, type SubRuleTestResult, type SubRuleWarning } from '@/utils/subscriptionRuleTester'
+import { formatClientInfo, KNOWN_CLIENT_USER_AGENTS, parseUserAgent } from '@/utils/userAgentParser'
+import { AlertTriangle, ChevronDown, FlaskConical, ListRestart } from 'lucide-react'
+import { useState } from 'react'
+import { UseFormReturn } from 'react-hook-form'
+import { useTranslation } from 'react-i18next'
+
+const KNOWN_CLIENT_SAMPLES = KNOWN_CLIENT_USER_AGENTS.map(client => client.userAgent).join('\n')
+
+const HEADER_SOURCE_CLASSES: Record<MergedResponseHeader['source'], string> = {
+  default: 'text-muted-foreground',
+  global: 'text-sky-600 dark:text-sky-400',
+  rule: 'text-emerald-600 dark:text-emerald-400',
+}
+
+export interface SubscriptionRuleTesterProps {
+  form: UseFormReturn<SubscriptionFormData>
+}
+
+/** Runs the unsaved rules from the form against sample user agents, the same way the panel picks a format. */
+export function SubscriptionRuleTester({ form }: SubscriptionRuleTesterProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const [samplesText, setSamplesText] = useState(KNOWN_CLIENT_SAMPLES)
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null)
+
+  const rules = form.watch('rules') || []
+  const globalHeaders = (form.watch('response_headers') || {}) as Record<string, string>
+  const samples = samplesText
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+  const results = testSubRules(rules, samples, globalHeaders)
+  const warnings = analyzeSubRules(rules, samples)
+
+  const getTargetLabel = (target: SubRuleTestResult['target']) => {
+    const option = configFormatOptions.find(item => item.value === target)
+    return option ? t(option.label) : target
+  }
+
+  const getWarningText = (warning: SubRuleWarning) => {
+    const rule = warning.index + 1
+    switch (warning.kind) {
+      case 'invalidPattern':
+        return t('settings.subscriptions.rules.tester.warnings.invalidPattern', { rule, error: warning.error })
+      case 'noSampleMatch':
+        return t('settings.subscriptions.rules.tester.warnings.noSampleMatch', { rule })
+      default:
+        return t(`settings.subscriptions.rules.tester.warnings.${warning.kind}`, { rule, other: warning.otherIndex + 1 })
+    }
+  }
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="bg-card rounded-lg border shadow-sm">
+      <CollapsibleTrigger asChild>
+        <button type="button" className="flex w-full items-center justify-between gap-3 p-3 text-start sm:p-4">
+          <div className="min-w-0 space-y-1">
+            <span className="flex items-center gap-2 text-sm font-semibold sm:text-base">
+              <FlaskConical className="h-4 w-4 shrink-0" />
+              {t('settings.subscriptions.rules.tester.title')}
+              {warnings.length > 0 && (
+                <Badge variant="outline" className="gap-1 border-amber-500/50 text-amber-600 dark:text-amber-400">
+                  <AlertTriangle className="h-3 w-3" />
+                  {warnings.length}
+                </Badge>
+              )}
+            </span>
+            <p className="text-muted-foreground text-xs sm:text-sm">{t('settings.subscriptions.rules.tester.description')}</p>
+          </div>
+          <ChevronDown className={cn('h-4 w-4 shrink-0 transition-transform', open && 'rotate-180')} />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-4 border-t p-3 sm:p-4">
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-xs font-medium sm:text-sm">{t('settings.subscriptions.rules.tester.userAgents')}</span>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={() => setSamplesText(KNOWN_CLIENT_SAMPLES)}>
+                <ListRestart className="h-3.5 w-3.5" />
+                {t('settings.subscriptions.rules.tester.loadKnownClients')}
+              </Button>
+              <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setSamplesText('')}>
+                {t('settings.subscriptions.rules.tester.clear')}
+              </Button>
+            </div>
+          </div>
+          <Textarea
+            dir="ltr"
+            value={samplesText}
+            onChange={event => {
+              setSamplesText(event.target.value)
+              setExpandedIndex(null)
+            }}
+            placeholder={t('settings.subscriptions.rules.tester.placeholder')}
+            className="min-h-28 font-mono text-xs"
+          />
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="space-y-1 rounded-md border border-amber-500/40 bg-amber-500/5 p-3">
+            {warnings.map(warning => (
+              <p key={`${warning.kind}-${warning.index}`} className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                <span>
+                  {getWarningText(warning)}
+                  {rules[warning.index]?.pattern && (
+                    <code dir="ltr" className="bg-muted ms-1 rounded px-1 break-all">
+                      {rules[warning.index].pattern}
+                    </code>
+                  )}
+                </span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {results.length === 0 ? (
+          <p className="text-muted-foreground py-4 text-center text-xs">{t('settings.subscriptions.rules.tester.empty')}</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {results.map((result, index) => (
+              <div key={`${index}-${result.userAgent}`} className="text-xs">
+                <button
+                  type="button"
+                  className="hover:bg-muted/50 flex w-full flex-col gap-1.5 p-2 text-start sm:flex-row sm:items-center sm:justify-between"
+                  onClick={() => setExpandedIndex(expandedIndex === index ? null : index)}
+                  disabled={result.rejected}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <code dir="ltr" className="block truncate font-mono" title={result.userAgent}>
+                      {result.userAgent}
+                    </code>
+                    <span className="text-muted-foreground">{formatClientInfo(parseUserAgent(result.userAgent))}</span>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {result.matchIndex !== null && <span className="text-muted-foreground">{t('settings.subscriptions.rules.tester.matchedRule', { rule: result.matchIndex + 1 })}</span>}
+                    {result.rejected ? (
+                      <Badge variant="destructive">{result.target ? getTargetLabel(result.target) : t('settings.subscriptions.rules.tester.noMatch')}</Badge>
+                    ) : (
+                      <Badge variant="secondary">{getTargetLabel(result.target)}</Badge>
+                    )}
+                    {!result.rejected && <ChevronDown className={cn('h-3.5 w-3.5 transition-transform', expandedIndex === index && 'rotate-180')} />}
+                  </div>
+                </button>
+                {expandedIndex === index && !result.rejected && <MergedHeadersTable headers={result.headers} />}
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-muted-foreground text-xs">{t('settings.subscriptions.rules.tester.rejectedHint')}</p>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+function MergedHeadersTable({ headers }: { headers: MergedResponseHeader[] }) {
+  const { t } = useTranslation()
+
+  return (
+    <div dir="ltr" className="bg-muted/30 space-y-1 border-t px-3 py-2">
+      {headers.map(header => (
+        <div key={header.name} className="grid grid-cols-[minmax(0,12rem)_minmax(0,1fr)_auto] items-baseline gap-2">
+          <code className="truncate font-mono">{header.name}</code>
+          <span className={cn('truncate', !header.value && 'text-muted-foreground italic')} title={header.value}>
+            {header.value || t('settings.subscriptions.rules.tester.computedByPanel')}
+            {header.encoded && header.value && <span className="text-muted-foreground ms-1">(base64)</span>}
+          </span>
+          <span className={cn('text-[10px] uppercase', HEADER_SOURCE_CLASSES[header.source])}>{t(`settings.subscriptions.rules.tester.sources.${header.source}`)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
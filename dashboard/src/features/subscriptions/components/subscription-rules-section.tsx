@@ -1,4 +1,5 @@
 import { SortableSubscriptionRule } from '@/features/subscriptions/components/sortable-subscription-rule'
+import { SubscriptionRuleTester } from '@/features/subscriptions/components/subscription-rule-tester'
 import type { SubscriptionFormData } from '@/features/subscriptions/components/subscription-settings-schema'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
@@ -96,6 +97,8 @@ export function SubscriptionRulesSection({ form, ruleFields, sensors, onDragEnd,
           </div>
         </DndContext>
       )}
+
+      <SubscriptionRuleTester form={form} />
     </div>
   )
 }
@@ -2,7 +2,7 @@ import { FC, memo, useState, useEffect, useCallback, useRef } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { QRCodeCanvas } from 'qrcode.react'
 import { useTranslation } from 'react-i18next'
-import { ScanQrCode, Copy, QrCode, ChevronLeft, ChevronRight, Check, RefreshCw, Download } from 'lucide-react'
+import { ScanQrCode, Copy, QrCode, ChevronLeft, ChevronRight, Check, RefreshCw, Download, ExternalLink } from 'lucide-react'
 import useDirDetection from '@/hooks/use-dir-detection'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -20,6 +20,7 @@ import {
   prepareSubscriptionContentForCopy,
   resolveSubscriptionQrUrl,
 } from '@/utils/subscription-config'
+import { buildSubscriptionLandingLink } from '@/utils/subscriptionLanding'
 
 interface SubscriptionModalProps {
   open?: boolean
@@ -207,6 +208,14 @@ const SubscriptionModal: FC<SubscriptionModalProps> = memo(({ open, subscribeUrl
               <div dir="ltr" className="flex max-w-[280px] items-center justify-center overflow-hidden">
                 <QRCodeCanvas value={subscribeQrLink} size={260} className="rounded-sm bg-white p-1.5" />
               </div>
+              {subscribeUrl && (
+                <Button asChild variant="link" size="sm" className="h-7 text-xs">
+                  <a href={buildSubscriptionLandingLink(subscribeUrl)} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-3 w-3" />
+                    {t('subscriptionLanding.openPage')}
+                  </a>
+                </Button>
+              )}
             </div>
 
             <div className="flex h-full flex-col gap-3">
@@ -0,0 +1,201 @@
+import { CodeEditorPanel } from '@/components/common/code-editor-panel'
+import { configFormatOptions } from '@/features/subscriptions/components/config-format-options'
+import { ConfigDiffPanel } from '@/features/core-editor/components/shared/config-diff-panel'
+import { UserSearchCombobox } from '@/features/users/components/user-search-combobox'
+import type { ClientTemplateFormValues } from '@/features/templates/forms/client-template-form'
+import { CLIENT_TEMPLATE_PREVIEW_FORMATS, DEFAULT_TEMPLATE_CONTENT } from '@/features/templates/forms/client-template-form'
+import { Badge } from '@/components/ui/badge'
+import { LoaderButton } from '@/components/ui/loader-button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ClientTemplateType, type ConfigFormat, type UserSimple, useGetClientTemplates, usePreviewClientTemplate } from '@/service/api'
+import { CheckCircle2, Eye, XCircle } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { UseFormReturn } from 'react-hook-form'
+import { useTranslation } from 'react-i18next'
+
+type OutputCheck = { kind: 'json'; error?: string } | { kind: 'yaml' } | { kind: 'text' }
+
+const JSON_OUTPUT_FORMATS = new Set<ConfigFormat>(['xray', 'sing_box'])
+const YAML_OUTPUT_FORMATS = new Set<ConfigFormat>(['clash', 'clash_meta'])
+
+const checkRenderedOutput = (format: ConfigFormat, content: string): OutputCheck => {
+  if (JSON_OUTPUT_FORMATS.has(format)) {
+    try {
+      JSON.parse(content)
+      return { kind: 'json' }
+    } catch (error) {
+      return { kind: 'json', error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+  // Clash output goes through a YAML load/dump on the panel, so a rendered response is already valid YAML
+  if (YAML_OUTPUT_FORMATS.has(format)) return { kind: 'yaml' }
+  return { kind: 'text' }
+}
+
+/** JSON templates are diffed normalized so indentation-only edits do not show up; anything unparsable falls back to text. */
+const getDiffSides = (before: string, after: string, isYaml: boolean) => {
+  if (!isYaml) {
+    try {
+      return { before: JSON.parse(before), after: JSON.parse(after), language: 'json' }
+    } catch {
+      return { before, after, language: 'plaintext' }
+    }
+  }
+  return { before, after, language: 'yaml' }
+}
+
+const getOutputLanguage = (format: ConfigFormat) => (JSON_OUTPUT_FORMATS.has(format) ? 'json' : YAML_OUTPUT_FORMATS.has(format) ? 'yaml' : 'plaintext')
+
+interface ClientTemplatePreviewProps {
+  form: UseFormReturn<ClientTemplateFormValues>
+  dialogOpen: boolean
+  /** Saved id of the template being edited, so it is not offered as "the default" to diff against itself. */
+  editingTemplateId?: number
+}
+
+/** Renders the unsaved editor content for a real user through the panel, next to a diff against the current default template. */
+export function ClientTemplatePreview({ form, dialogOpen, editingTemplateId }: ClientTemplatePreviewProps) {
+  const { t } = useTranslation()
+  const [selectedUser, setSelectedUser] = useState<UserSimple | null>(null)
+  const [configFormat, setConfigFormat] = useState<ConfigFormat | null>(null)
+  const previewTemplate = usePreviewClientTemplate()
+  const { reset: resetPreview } = previewTemplate
+
+  const templateType = form.watch('template_type')
+  const content = form.watch('content') || ''
+  const isYaml = templateType === ClientTemplateType.clash_subscription
+  const formats = CLIENT_TEMPLATE_PREVIEW_FORMATS[templateType as ClientTemplateType] ?? []
+  const activeFormat = configFormat && formats.includes(configFormat) ? configFormat : formats[0]
+
+  const { data: templatesData } = useGetClientTemplates({ template_type: templateType as ClientTemplateType }, { query: { enabled: dialogOpen && !!templateType } })
+
+  const defaultTemplate = templatesData?.templates?.find(template => template.is_default && template.id !== editingTemplateId)
+  const baseContent = defaultTemplate?.content ?? DEFAULT_TEMPLATE_CONTENT[templateType as ClientTemplateType] ?? ''
+
+  // A preview for another type or format would be misleading next to the current editor
+  useEffect(() => {
+    resetPreview()
+    setConfigFormat(null)
+  }, [templateType, resetPreview])
+
+  useEffect(() => {
+    if (!dialogOpen) {
+      resetPreview()
+      setSelectedUser(null)
+      setConfigFormat(null)
+    }
+  }, [dialogOpen, resetPreview])
+
+  const handleRender = () => {
+    if (!selectedUser || !activeFormat) return
+    previewTemplate.mutate({ data: { template_type: templateType as ClientTemplateType, content, user_id: selectedUser.id, config_format: activeFormat } })
+  }
+
+  const diffSides = getDiffSides(baseContent, content, isYaml)
+  const rendered = previewTemplate.data
+  const outputCheck = rendered ? checkRenderedOutput(rendered.config_format, rendered.content) : null
+  const errorDetail: unknown = previewTemplate.error?.data?.detail ?? previewTemplate.error?.response?._data?.detail
+  const getFormatLabel = (format: ConfigFormat) => {
+    const option = configFormatOptions.find(item => item.value === format)
+    return option ? t(option.label) : format
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="space-y-1">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <Eye className="h-4 w-4" />
+          {t('clientTemplates.preview.title')}
+        </span>
+        <p className="text-muted-foreground text-xs">{t('clientTemplates.preview.description')}</p>
+      </div>
+
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <UserSearchCombobox
+          value={selectedUser}
+          onChange={user => {
+            setSelectedUser(user)
+            resetPreview()
+          }}
+          placeholder={t('clientTemplates.preview.selectUser')}
+          searchPlaceholder={t('clientTemplates.preview.searchUsers')}
+          className="flex-1"
+        />
+
+        {formats.length > 1 && (
+          <Select value={activeFormat} onValueChange={value => setConfigFormat(value as ConfigFormat)}>
+            <SelectTrigger className="sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {formats.map(format => (
+                <SelectItem key={format} value={format}>
+                  {getFormatLabel(format)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <LoaderButton type="button" onClick={handleRender} isLoading={previewTemplate.isPending} disabled={!selectedUser || !content.trim() || previewTemplate.isPending}>
+          {t('clientTemplates.preview.render')}
+        </LoaderButton>
+      </div>
+
+      <Tabs defaultValue="output" className="space-y-2">
+        <TabsList className="w-full">
+          <TabsTrigger value="output" className="flex-1">
+            {t('clientTemplates.preview.output')}
+          </TabsTrigger>
+          <TabsTrigger value="diff" className="flex-1">
+            {t('clientTemplates.preview.diff')}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="output" className="space-y-2">
+          {previewTemplate.isError ? (
+            <p className="text-destructive flex items-start gap-2 text-xs">
+              <XCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              <span className="break-all">{typeof errorDetail === 'string' ? errorDetail : t('clientTemplates.preview.renderFailed')}</span>
+            </p>
+          ) : !rendered ? (
+            <p className="text-muted-foreground py-6 text-center text-xs">{t('clientTemplates.preview.empty')}</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <Badge variant="secondary">{getFormatLabel(rendered.config_format)}</Badge>
+                {selectedUser && <span className="text-muted-foreground">{selectedUser.username}</span>}
+                {outputCheck?.kind === 'json' && outputCheck.error ? (
+                  <span className="text-destructive flex items-center gap-1">
+                    <XCircle className="h-3.5 w-3.5" />
+                    {t('clientTemplates.preview.invalidJson', { error: outputCheck.error })}
+                  </span>
+                ) : outputCheck?.kind !== 'text' ? (
+                  <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400">
+                    <CheckCircle2 className="h-3.5 w-3.5" />
+                    {outputCheck?.kind === 'yaml' ? t('clientTemplates.preview.validYaml') : t('clientTemplates.preview.validJson')}
+                  </span>
+                ) : null}
+              </div>
+              <CodeEditorPanel
+                value={rendered.content}
+                onChange={() => undefined}
+                language={getOutputLanguage(rendered.config_format)}
+                readOnly
+                embeddedContainerClassName="h-[calc(40vh-1rem)] md:min-h-[320px]"
+              />
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="diff" className="space-y-2">
+          <p className="text-muted-foreground text-xs">
+            {defaultTemplate ? t('clientTemplates.preview.diffAgainst', { name: defaultTemplate.name }) : t('clientTemplates.preview.diffAgainstBuiltIn')}
+          </p>
+          <ConfigDiffPanel before={diffSides.before} after={diffSides.after} language={diffSides.language} title={t('clientTemplates.preview.diff')} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import { CodeEditorPanel } from '@/components/common/code-editor-panel'
+import { ClientTemplatePreview } from '@/features/templates/components/client-template-preview'
 import type { ClientTemplateFormValues } from '@/features/templates/forms/client-template-form'
 import { DEFAULT_TEMPLATE_CONTENT } from '@/features/templates/forms/client-template-form'
 import { Button } from '@/components/ui/button'
@@ -267,6 +268,8 @@ export default function ClientTemplateModal({ isDialogOpen, onOpenChange, form,
                       </FormItem>
                     )}
                   />
+
+                  <ClientTemplatePreview form={form} dialogOpen={isDialogOpen} editingTemplateId={editingTemplateId} />
                 </div>
               </div>
             </div>
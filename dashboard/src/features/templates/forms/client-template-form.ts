@@ -1,4 +1,4 @@
-import { ClientTemplateType } from '@/service/api'
+import { ClientTemplateType, ConfigFormat } from '@/service/api'
 import { z } from 'zod'
 
 export const clientTemplateFormSchema = z.object({
@@ -199,3 +199,14 @@ export const clientTemplateFormDefaultValues: Partial<ClientTemplateFormValues>
   content: DEFAULT_TEMPLATE_CONTENT[ClientTemplateType.xray_subscription],
   is_default: false,
 }
+
+const USER_AGENT_PREVIEW_FORMATS = [ConfigFormat.xray, ConfigFormat.sing_box, ConfigFormat.clash_meta, ConfigFormat.clash, ConfigFormat.links]
+
+/** Subscription formats that read each template type, in the order the preview offers them (same as the panel's preview endpoint). */
+export const CLIENT_TEMPLATE_PREVIEW_FORMATS: Record<ClientTemplateType, ConfigFormat[]> = {
+  [ClientTemplateType.clash_subscription]: [ConfigFormat.clash_meta, ConfigFormat.clash],
+  [ClientTemplateType.xray_subscription]: [ConfigFormat.xray],
+  [ClientTemplateType.singbox_subscription]: [ConfigFormat.sing_box],
+  [ClientTemplateType.user_agent]: USER_AGENT_PREVIEW_FORMATS,
+  [ClientTemplateType.grpc_user_agent]: USER_AGENT_PREVIEW_FORMATS,
+}
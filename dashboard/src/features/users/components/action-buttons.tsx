@@ -3,11 +3,12 @@ import { Button } from '@/components/ui/button'
 import { useClipboard } from '@/hooks/use-clipboard'
 import useDirDetection from '@/hooks/use-dir-detection'
 import { type UseEditFormValues } from '@/features/users/forms/user-form'
-import { useActiveNextPlanById, useGetCurrentAdmin, useRemoveUserById, useResetUserDataUsageById, useRevokeUserSubscriptionById, UserResponse, UsersResponse } from '@/service/api'
+import { useActiveNextPlanById, useRemoveUserById, useResetUserDataUsageById, useRevokeUserSubscriptionById, UserResponse, UsersResponse } from '@/service/api'
+import { useAdmin } from '@/hooks/use-admin'
 import { useQueryClient } from '@tanstack/react-query'
 import { Cat, Check, Copy, EllipsisVertical, Fingerprint, GlobeLock, Hash, Link2Off, ListStart, ListTree, Network, Pencil, PieChart, QrCode, RefreshCcw, Trash2, UserCog, Users } from 'lucide-react'
 import { WireguardIcon, XrayIcon, SingboxIcon, MihomoIcon } from '@/components/icons/format-icons'
-import { Code } from 'lucide-react'
+import { Cable, Code } from 'lucide-react'
 import { FC, useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react'
 import { useForm } from 'react-hook-form'
 import { useTranslation } from 'react-i18next'
@@ -22,11 +23,12 @@ import UserModal from '@/features/users/dialogs/user-modal'
 import { UserHwidsModal } from '@/features/users/dialogs/user-hwids-modal'
 import { UserSubscriptionClientsModal } from '@/features/users/dialogs/user-subscription-clients-modal'
 import UserAllIPsModal from '@/features/users/dialogs/user-all-ips-modal'
+import UserConnectionsModal from '@/features/users/dialogs/user-connections-modal'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { invalidateUserMetricsQueries, removeUserFromUsersCache, upsertUserInUsersCache } from '@/utils/usersCache'
 import { buildSubscriptionFormatUrl, fetchSubscriptionBlobFromUrl, fetchUserSubscriptionContent, resolveSubscriptionPublicUrl, type SubscriptionContentFormat } from '@/utils/subscription-config'
-import { hasPermission, hasScopeAll } from '@/utils/rbac'
+import { getUserActionPermissions } from '@/utils/rbac'
 
 type ActionButtonsProps = {
   user: UserResponse
@@ -54,6 +56,7 @@ type ActionButtonsModalState = {
   isSubscriptionClientsModalOpen: boolean
   isHwidsModalOpen: boolean
   isUserAllIPsModalOpen: boolean
+  isUserConnectionsModalOpen: boolean
 }
 
 const actionButtonsModalStateStore = new Map<number, ActionButtonsModalState>()
@@ -77,6 +80,7 @@ const createDefaultModalState = (user: UserResponse): ActionButtonsModalState =>
   isSubscriptionClientsModalOpen: false,
   isHwidsModalOpen: false,
   isUserAllIPsModalOpen: false,
+  isUserConnectionsModalOpen: false,
 })
 
 const ensureModalState = (user: UserResponse): ActionButtonsModalState => {
@@ -101,7 +105,8 @@ const hasOpenModal = (state: ActionButtonsModalState) =>
   state.isActiveNextPlanModalOpen ||
   state.isSubscriptionClientsModalOpen ||
   state.isHwidsModalOpen ||
-  state.isUserAllIPsModalOpen
+  state.isUserAllIPsModalOpen ||
+  state.isUserConnectionsModalOpen
 
 const notifyGlobalListeners = () => {
   actionButtonsGlobalStateVersion += 1
@@ -255,6 +260,7 @@ const ActionButtons: FC<ActionButtonsProps> = ({ user, isModalHost = true, rende
     isSubscriptionClientsModalOpen,
     isHwidsModalOpen,
     isUserAllIPsModalOpen,
+    isUserConnectionsModalOpen,
   } = modalState
 
   const setSubscribeUrl = useCallback((value: string) => setModalState({ subscribeUrl: value }), [setModalState])
@@ -268,6 +274,7 @@ const ActionButtons: FC<ActionButtonsProps> = ({ user, isModalHost = true, rende
   const setSubscriptionClientsModalOpen = useCallback((value: boolean) => setModalState({ isSubscriptionClientsModalOpen: value }), [setModalState])
   const setHwidsModalOpen = useCallback((value: boolean) => setModalState({ isHwidsModalOpen: value }), [setModalState])
   const setUserAllIPsModalOpen = useCallback((value: boolean) => setModalState({ isUserAllIPsModalOpen: value }), [setModalState])
+  const setUserConnectionsModalOpen = useCallback((value: boolean) => setModalState({ isUserConnectionsModalOpen: value }), [setModalState])
 
   useEffect(() => {
     ensureModalState(user)
@@ -314,19 +321,16 @@ const ActionButtons: FC<ActionButtonsProps> = ({ user, isModalHost = true, rende
       },
     },
   })
-  const { data: currentAdmin } = useGetCurrentAdmin({
-    query: {
-      staleTime: 5 * 60 * 1000,
-      gcTime: 10 * 60 * 1000,
-      refetchOnMount: false,
-    },
-  })
-  const canUpdateUsers = hasPermission(currentAdmin, 'users', 'update')
-  const canUpdateAllUsers = hasScopeAll(currentAdmin, 'users', 'update')
-  const canReadAllUsers = hasScopeAll(currentAdmin, 'users', 'read')
-  const canDeleteUsers = hasPermission(currentAdmin, 'users', 'delete')
+  const { admin: currentAdmin } = useAdmin()
+  const {
+    canUpdate: canUpdateUsers,
+    canUpdateAll: canUpdateAllUsers,
+    canReadAll: canReadAllUsers,
+    canDelete: canDeleteUsers,
+    canViewConnections: canViewUserConnections,
+  } = getUserActionPermissions(currentAdmin)
   const topDropdownActionCount = (canUpdateUsers ? 1 : 0) + (canUpdateAllUsers ? 1 : 0) + (canReadAllUsers ? 1 : 0)
-  const middleDropdownActionCount = (canUpdateUsers ? 2 : 0) + 3 + (canUpdateUsers && user.next_plan ? 1 : 0) + (canReadAllUsers ? 1 : 0)
+  const middleDropdownActionCount = (canUpdateUsers ? 2 : 0) + 3 + (canUpdateUsers && user.next_plan ? 1 : 0) + (canReadAllUsers ? 1 : 0) + (canViewUserConnections ? 1 : 0)
   const destructiveDropdownActionCount = canDeleteUsers ? 1 : 0
 
   // Create form for user editing
@@ -775,6 +779,13 @@ const ActionButtons: FC<ActionButtonsProps> = ({ user, isModalHost = true, rende
                 </DropdownMenuItem>
               )}
 
+              {canViewUserConnections && (
+                <DropdownMenuItem onSelect={() => setUserConnectionsModalOpen(true)}>
+                  <Cable className="mr-2 h-4 w-4" />
+                  <span>{t('userConnections.menuItem')}</span>
+                </DropdownMenuItem>
+              )}
+
               {middleDropdownActionCount > 0 && destructiveDropdownActionCount > 0 && <DropdownMenuSeparator className="hidden md:block" />}
 
               {/* Trash */}
@@ -881,6 +892,8 @@ const ActionButtons: FC<ActionButtonsProps> = ({ user, isModalHost = true, rende
           <UserHwidsModal isOpen={isHwidsModalOpen} onOpenChange={setHwidsModalOpen} userId={user.id} username={user.username} />
 
           {canReadAllUsers && <UserAllIPsModal isOpen={isUserAllIPsModalOpen} onOpenChange={setUserAllIPsModalOpen} userId={user.id} username={user.username} />}
+
+          {canViewUserConnections && <UserConnectionsModal isOpen={isUserConnectionsModalOpen} onOpenChange={setUserConnectionsModalOpen} userId={user.id} username={user.username} />}
         </div>
       )}
 
@@ -0,0 +1,131 @@
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Switch } from '@/components/ui/switch'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { resolveUsersTableColumnOrder, USERS_TABLE_COLUMNS } from '@/features/users/components/users-table-columns'
+import { cn } from '@/lib/utils'
+import { DEFAULT_USERS_TABLE_LAYOUT, type UsersTableDensity, type UsersTableLayout } from '@/utils/userPreferenceStorage'
+import { closestCenter, DndContext, DragEndEvent, KeyboardSensor, PointerSensor, useSensor, useSensors } from '@dnd-kit/core'
+import { arrayMove, SortableContext, sortableKeyboardCoordinates, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { Columns3, GripVertical, Rows2, Rows4 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+interface ColumnManagerProps {
+  layout: UsersTableLayout
+  onLayoutChange: (layout: UsersTableLayout) => void
+}
+
+interface SortableColumnRowProps {
+  id: string
+  label: string
+  optional: boolean
+  visible: boolean
+  onVisibleChange: (visible: boolean) => void
+}
+
+function SortableColumnRow({ id, label, optional, visible, onVisibleChange }: SortableColumnRowProps) {
+  const { t } = useTranslation()
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id })
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn('bg-background flex items-center gap-2 rounded-md px-1 py-1', isDragging && 'relative z-10 shadow-md')}
+    >
+      <button
+        type="button"
+        className="text-muted-foreground hover:text-foreground cursor-grab touch-none p-1 active:cursor-grabbing"
+        aria-label={t('usersTable.columns.reorder')}
+        {...attributes}
+        {...listeners}
+      >
+        <GripVertical className="h-3.5 w-3.5" />
+      </button>
+      <span className={cn('flex-1 truncate text-xs', !visible && 'text-muted-foreground')}>{label}</span>
+      <Switch checked={visible} disabled={!optional} onCheckedChange={onVisibleChange} aria-label={label} className="scale-75" />
+    </div>
+  )
+}
+
+/** Show, hide and drag-reorder users table columns, and switch row density. */
+export function ColumnManager({ layout, onLayoutChange }: ColumnManagerProps) {
+  const { t } = useTranslation()
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  )
+
+  const orderedColumns = resolveUsersTableColumnOrder(layout.order)
+    .map(id => USERS_TABLE_COLUMNS.find(column => column.id === id))
+    .filter(column => column !== undefined)
+  const orderedIds = orderedColumns.map(column => column.id as string)
+  const isCustomized = layout.order.length > 0 || layout.visible.length > 0 || Object.keys(layout.sizes).length > 0 || layout.density !== DEFAULT_USERS_TABLE_LAYOUT.density
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return
+    const oldIndex = orderedIds.indexOf(String(active.id))
+    const newIndex = orderedIds.indexOf(String(over.id))
+    if (oldIndex === -1 || newIndex === -1) return
+    onLayoutChange({ ...layout, order: arrayMove(orderedIds, oldIndex, newIndex) })
+  }
+
+  const setColumnVisible = (id: string, visible: boolean) => {
+    const others = layout.visible.filter(columnId => columnId !== id)
+    onLayoutChange({ ...layout, visible: visible ? [...others, id] : others })
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon-md"
+          variant="ghost"
+          className="relative hidden h-9 w-9 items-center justify-center rounded-lg border md:flex"
+          aria-label={t('usersTable.columns.title')}
+          title={t('usersTable.columns.title')}
+        >
+          <Columns3 className="h-4 w-4" />
+          {isCustomized && <div className="bg-primary absolute -top-1 -right-1 h-2 w-2 rounded-full" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-2">
+        <div className="flex items-center justify-between px-1 pb-2">
+          <span className="text-muted-foreground text-[11px]">{t('usersTable.columns.density')}</span>
+          <ToggleGroup type="single" size="sm" variant="outline" value={layout.density} onValueChange={value => value && onLayoutChange({ ...layout, density: value as UsersTableDensity })}>
+            <ToggleGroupItem value="comfortable" className="h-7 px-2" aria-label={t('usersTable.columns.comfortable')} title={t('usersTable.columns.comfortable')}>
+              <Rows2 className="h-3.5 w-3.5" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="compact" className="h-7 px-2" aria-label={t('usersTable.columns.compact')} title={t('usersTable.columns.compact')}>
+              <Rows4 className="h-3.5 w-3.5" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <div className="text-muted-foreground border-t px-1 pt-2 pb-1 text-[11px]">{t('usersTable.columns.title')}</div>
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+          <SortableContext items={orderedIds} strategy={verticalListSortingStrategy}>
+            <div className="flex max-h-80 flex-col overflow-y-auto">
+              {orderedColumns.map(column => (
+                <SortableColumnRow
+                  key={column.id}
+                  id={column.id}
+                  label={t(column.labelKey)}
+                  optional={column.optional}
+                  visible={!column.optional || layout.visible.includes(column.id)}
+                  onVisibleChange={visible => setColumnVisible(column.id, visible)}
+                />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+        <p className="text-muted-foreground px-1 pt-2 text-[10px]">{t('usersTable.columns.resizeHint')}</p>
+        <Button variant="ghost" size="sm" className="mt-1 h-7 w-full text-xs" disabled={!isCustomized} onClick={() => onLayoutChange(DEFAULT_USERS_TABLE_LAYOUT)}>
+          {t('usersTable.columns.reset')}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -11,6 +11,10 @@ import useDirDetection from '@/hooks/use-dir-detection'
 import { dateUtils } from '@/utils/dateFormatter'
 import dayjs from '@/lib/dayjs'
 import { Checkbox } from '@/components/ui/checkbox'
+import { formatBytes } from '@/utils/formatByte'
+import { formatDuration } from '@/utils/formatDuration'
+import { OnlineStatus } from './online-status'
+import { SubLastUpdate } from './sub-last-update'
 
 export const setupColumns = ({
   t,
@@ -20,6 +24,7 @@ export const setupColumns = ({
   dir,
   showCreatedBy,
   showSelectionCheckbox,
+  groupNames,
 }: {
   t: (key: string) => string
   handleSort: (column: string, fromDropdown?: boolean) => void
@@ -28,6 +33,8 @@ export const setupColumns = ({
   dir: string
   showCreatedBy: boolean
   showSelectionCheckbox: boolean
+  /** Group id to name lookup for the optional groups column. */
+  groupNames?: Map<number, string>
 }): ColumnDef<UserResponse>[] => [
   ...(showSelectionCheckbox
     ? (() => {
@@ -235,6 +242,96 @@ export const setupColumns = ({
       </div>
     ),
   },
+  {
+    id: 'note',
+    header: () => <span className="text-xs">{t('usersTable.columns.note')}</span>,
+    cell: ({ row }: { row: Row<UserResponse> }) =>
+      row.original.note ? (
+        <span className="block max-w-[220px] truncate text-xs" title={row.original.note} dir="auto">
+          {row.original.note}
+        </span>
+      ) : (
+        <span className="text-muted-foreground text-xs">—</span>
+      ),
+  },
+  {
+    id: 'lifetime_used_traffic',
+    header: () => <span className="text-xs">{t('usersTable.columns.lifetimeUsage')}</span>,
+    cell: ({ row }: { row: Row<UserResponse> }) => (
+      <span className="text-xs" dir="ltr">
+        {formatBytes(row.original.lifetime_used_traffic ?? row.original.used_traffic)}
+      </span>
+    ),
+  },
+  {
+    id: 'hwid_limit',
+    header: () => <span className="text-xs">{t('usersTable.columns.hwidLimit')}</span>,
+    cell: ({ row }: { row: Row<UserResponse> }) => {
+      const hwidLimit = row.original.hwid_limit
+      if (hwidLimit === null || hwidLimit === undefined) return <span className="text-muted-foreground text-xs">{t('usersTable.columns.defaultPolicy')}</span>
+      return <span className="text-xs">{hwidLimit === 0 ? t('unlimited') : hwidLimit}</span>
+    },
+  },
+  {
+    id: 'groups',
+    header: () => <span className="text-xs">{t('usersTable.columns.groups')}</span>,
+    cell: ({ row }: { row: Row<UserResponse> }) => {
+      const names = (row.original.group_ids ?? []).map(id => groupNames?.get(id) ?? `#${id}`)
+      if (names.length === 0) return <span className="text-muted-foreground text-xs">—</span>
+      return (
+        <span className="block max-w-[220px] truncate text-xs" title={names.join(', ')}>
+          {names.join(', ')}
+        </span>
+      )
+    },
+  },
+  {
+    id: 'next_plan',
+    header: () => <span className="text-xs">{t('usersTable.columns.nextPlan')}</span>,
+    cell: ({ row }: { row: Row<UserResponse> }) => {
+      const nextPlan = row.original.next_plan
+      if (!nextPlan) return <span className="text-muted-foreground text-xs">—</span>
+      const parts = [
+        nextPlan.user_template_id ? `${t('usersTable.columns.template')} #${nextPlan.user_template_id}` : null,
+        nextPlan.data_limit ? formatBytes(nextPlan.data_limit) : null,
+        nextPlan.expire ? formatDuration(nextPlan.expire, t) : null,
+      ].filter(Boolean)
+      return <span className="text-xs">{parts.length > 0 ? parts.join(' · ') : t('unlimited')}</span>
+    },
+  },
+  {
+    id: 'on_hold_timeout',
+    header: () => <span className="text-xs">{t('usersTable.columns.onHoldTimeout')}</span>,
+    cell: ({ row }: { row: Row<UserResponse> }) =>
+      row.original.on_hold_timeout ? <span className="text-xs">{dateUtils.formatDate(row.original.on_hold_timeout)}</span> : <span className="text-muted-foreground text-xs">—</span>,
+  },
+  {
+    id: 'created_at',
+    header: () => (
+      <button onClick={() => handleSort('created_at')} className="flex w-full items-center gap-1 py-3">
+        <span className="text-xs">{t('usersTable.columns.createdAt')}</span>
+        {(filters.sort === 'created_at' || filters.sort === '-created_at') && (
+          <ChevronDown size={16} className={cn('transition-transform duration-300', filters.sort === 'created_at' && 'rotate-180')} />
+        )}
+      </button>
+    ),
+    cell: ({ row }: { row: Row<UserResponse> }) => <span className="text-xs">{dateUtils.formatDate(row.original.created_at)}</span>,
+  },
+  {
+    id: 'online_at',
+    header: () => (
+      <button onClick={() => handleSort('online_at')} className="flex w-full items-center gap-1 py-3">
+        <span className="text-xs">{t('usersTable.columns.lastOnline')}</span>
+        {(filters.sort === 'online_at' || filters.sort === '-online_at') && <ChevronDown size={16} className={cn('transition-transform duration-300', filters.sort === 'online_at' && 'rotate-180')} />}
+      </button>
+    ),
+    cell: ({ row }: { row: Row<UserResponse> }) => <OnlineStatus lastOnline={row.original.online_at} />,
+  },
+  {
+    id: 'sub_updated_at',
+    header: () => <span className="text-xs">{t('usersTable.columns.subLastUpdate')}</span>,
+    cell: ({ row }: { row: Row<UserResponse> }) => <SubLastUpdate userId={row.original.id} />,
+  },
   {
     id: 'chevron',
     header: () => <div className="w-6" />,
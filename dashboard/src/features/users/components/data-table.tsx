@@ -1,4 +1,4 @@
-import { ColumnDef, RowSelectionState, flexRender, getCoreRowModel, useReactTable } from '@tanstack/react-table'
+import { ColumnDef, RowSelectionState, VisibilityState, flexRender, getCoreRowModel, useReactTable } from '@tanstack/react-table'
 import React, { useState, useCallback, useMemo, memo, useEffect } from 'react'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import useDirDetection from '@/hooks/use-dir-detection'
@@ -11,6 +11,11 @@ import { StatusBadge } from './status-badge'
 import UsageSliderCompact from '@/components/common/usage-slider-compact'
 import { useTranslation } from 'react-i18next'
 import { Skeleton } from '@/components/ui/skeleton'
+import type { UsersTableDensity } from '@/utils/userPreferenceStorage'
+
+/** Columns that keep their built-in sizing rules and cannot be resized by dragging. */
+const NON_RESIZABLE_COLUMNS = ['select', 'chevron']
+const MIN_COLUMN_WIDTH = 60
 
 interface DataTableProps<TData extends UserResponse, TValue> {
   columns: ColumnDef<TData, TValue>[]
@@ -20,6 +25,13 @@ interface DataTableProps<TData extends UserResponse, TValue> {
   onEdit?: (user: UserResponse) => void
   onSelectionChange?: (selectedIds: number[]) => void
   resetSelectionKey?: number
+  columnOrder?: string[]
+  columnVisibility?: VisibilityState
+  /** Pixel widths per column id; columns without an entry size to their content. */
+  columnSizes?: Record<string, number>
+  /** Called once when a header resize drag ends; a width of `0` (header edge double-click) resets the column. */
+  onColumnResize?: (columnId: string, width: number) => void
+  density?: UsersTableDensity
 }
 
 const ExpandedRowContent = memo(({ row }: { row: { original: UserResponse } }) => (
@@ -47,7 +59,20 @@ const ExpandedRowContent = memo(({ row }: { row: { original: UserResponse } }) =
 ))
 
 export const DataTable = memo(
-  <TData extends UserResponse, TValue>({ columns, data, isLoading = false, isFetching = false, onEdit, onSelectionChange, resetSelectionKey = 0 }: DataTableProps<TData, TValue>) => {
+  <TData extends UserResponse, TValue>({
+    columns,
+    data,
+    isLoading = false,
+    isFetching = false,
+    onEdit,
+    onSelectionChange,
+    resetSelectionKey = 0,
+    columnOrder,
+    columnVisibility,
+    columnSizes,
+    onColumnResize,
+    density = 'comfortable',
+  }: DataTableProps<TData, TValue>) => {
     const { t } = useTranslation()
     const [expandedRow, setExpandedRow] = useState<number | null>(null)
     /** CSS :hover can stick after closing portaled menus; drive md+ row bg with pointer events instead. */
@@ -55,6 +80,8 @@ export const DataTable = memo(
     const dir = useDirDetection()
     const isRTL = dir === 'rtl'
     const hasSelectionColumn = useMemo(() => columns.some(column => column.id === 'select'), [columns])
+    const isCompact = density === 'compact'
+    const [resizingWidth, setResizingWidth] = useState<{ columnId: string; width: number } | null>(null)
 
     const handleRowSelectionChange = useCallback(
       (updater: RowSelectionState | ((old: RowSelectionState) => RowSelectionState)) => {
@@ -82,9 +109,11 @@ export const DataTable = memo(
         onRowSelectionChange: handleRowSelectionChange,
         state: {
           rowSelection,
+          ...(columnOrder ? { columnOrder } : {}),
+          ...(columnVisibility ? { columnVisibility } : {}),
         },
       }),
-      [columns, data, handleRowSelectionChange, hasSelectionColumn, rowSelection],
+      [columns, data, handleRowSelectionChange, hasSelectionColumn, rowSelection, columnOrder, columnVisibility],
     )
 
     const table = useReactTable(tableConfig)
@@ -112,6 +141,35 @@ export const DataTable = memo(
       [handleRowToggle, onEdit],
     )
 
+    const getColumnWidth = (columnId: string) => (resizingWidth?.columnId === columnId ? resizingWidth.width : columnSizes?.[columnId])
+
+    // Widths are tracked locally while dragging and only reported once, so storage is not written on every pointer move
+    const startColumnResize = (event: React.PointerEvent<HTMLDivElement>, columnId: string) => {
+      event.preventDefault()
+      event.stopPropagation()
+      const headerCell = event.currentTarget.parentElement
+      if (!headerCell) return
+
+      const startX = event.clientX
+      const startWidth = headerCell.getBoundingClientRect().width
+      let width = startWidth
+
+      const handleMove = (moveEvent: PointerEvent) => {
+        const delta = (moveEvent.clientX - startX) * (isRTL ? -1 : 1)
+        width = Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + delta))
+        setResizingWidth({ columnId, width })
+      }
+      const handleUp = () => {
+        window.removeEventListener('pointermove', handleMove)
+        window.removeEventListener('pointerup', handleUp)
+        setResizingWidth(null)
+        if (width !== startWidth) onColumnResize?.(columnId, width)
+      }
+
+      window.addEventListener('pointermove', handleMove)
+      window.addEventListener('pointerup', handleUp)
+    }
+
     const isLoadingData = isLoading || isFetching
     const loadingRowCount = 10
 
@@ -208,7 +266,7 @@ export const DataTable = memo(
     )
 
     return (
-      <div className="overflow-hidden rounded-md border">
+      <div className="overflow-hidden rounded-md border md:overflow-x-auto">
         <Table dir={isRTL ? 'rtl' : 'ltr'}>
           <TableHeader>
             {table.getHeaderGroups().map(headerGroup => (
@@ -225,9 +283,25 @@ export const DataTable = memo(
                       header.id === 'details' && 'px-1 md:w-[440px]',
                       !['select', 'username', 'status', 'details', 'chevron'].includes(header.id) && 'hidden md:table-cell',
                       header.id === 'chevron' && 'table-cell md:hidden',
+                      onColumnResize && !NON_RESIZABLE_COLUMNS.includes(header.id) && 'relative',
                     )}
+                    style={getColumnWidth(header.id) ? { width: getColumnWidth(header.id), minWidth: getColumnWidth(header.id) } : undefined}
                   >
                     {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                    {onColumnResize && !NON_RESIZABLE_COLUMNS.includes(header.id) && (
+                      <div
+                        role="separator"
+                        aria-orientation="vertical"
+                        aria-label={t('usersTable.columns.resize')}
+                        onPointerDown={event => startColumnResize(event, header.id)}
+                        onDoubleClick={() => onColumnResize(header.id, 0)}
+                        className={cn(
+                          'hover:bg-primary/40 absolute top-0 hidden h-full w-1.5 cursor-col-resize touch-none select-none md:block',
+                          isRTL ? 'left-0' : 'right-0',
+                          resizingWidth?.columnId === header.id && 'bg-primary/60',
+                        )}
+                      />
+                    )}
                   </TableHead>
                 ))}
               </TableRow>
@@ -260,6 +334,7 @@ export const DataTable = memo(
                                 cell.column.id !== 'details' && 'whitespace-nowrap',
                                 cell.column.id === 'details' && 'md:whitespace-nowrap',
                                 cell.column.id !== 'details' && 'py-1.5',
+                                isCompact && (cell.column.id === 'select' ? '!py-2' : '!py-0.5'),
                                 cell.column.id === 'username' && cn('max-w-[calc(100vw-50px-32px-100px-60px)]', hasSelectionColumn && '!px-0'),
                                 cell.column.id === 'status' && '!px-0',
                                 cell.column.id === 'select' && 'w-8 !px-1 !py-5',
@@ -8,15 +8,19 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import useDirDetection from '@/hooks/use-dir-detection'
 import { cn } from '@/lib/utils'
 import { useDebouncedSearch } from '@/hooks/use-debounced-search'
-import { RefreshCw, SearchIcon, Filter, X, ArrowUpDown, User, Calendar, ChartPie, ChevronDown, Check, Clock } from 'lucide-react'
+import { RefreshCw, SearchIcon, Filter, X, ArrowUpDown, User, Calendar, ChartPie, ChevronDown, Check, Clock, Download } from 'lucide-react'
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useGetUsers, UserStatus } from '@/service/api'
 import { RefetchOptions } from '@tanstack/react-query'
 import { LoaderCircle } from 'lucide-react'
-import { getUsersAutoRefreshIntervalSeconds, setUsersAutoRefreshIntervalSeconds } from '@/utils/userPreferenceStorage'
+import { getUsersAutoRefreshIntervalSeconds, setUsersAutoRefreshIntervalSeconds, type UsersTableLayout } from '@/utils/userPreferenceStorage'
 import { $fetch as publicFetch } from 'ofetch'
 import { resolveSubscriptionPanelBaseUrl } from '@/utils/subscription-config'
+import { SavedViewsMenu } from '@/features/users/components/saved-views-menu'
+import { ColumnManager } from '@/features/users/components/column-manager'
+import ExportUsersModal from '@/features/users/dialogs/export-users-modal'
+import { omit } from 'es-toolkit'
 
 // Compact sort configuration: one row per field
 const sortSections = [
@@ -114,6 +118,8 @@ interface FiltersProps {
   advanceSearchOnOpen: (status: boolean) => void
   onClearAdvanceSearch?: () => void
   handleSort?: (column: string, fromDropdown?: boolean) => void
+  tableLayout?: UsersTableLayout
+  onTableLayoutChange?: (layout: UsersTableLayout) => void
 }
 
 type SubscriptionInfoResponse = {
@@ -139,10 +145,11 @@ const buildSubscriptionInfoUrl = (value: string) => {
   }
 }
 
-export const Filters = ({ filters, onFilterChange, refetch, autoRefetch, advanceSearchOnOpen, onClearAdvanceSearch, handleSort }: FiltersProps) => {
+export const Filters = ({ filters, onFilterChange, refetch, autoRefetch, advanceSearchOnOpen, onClearAdvanceSearch, handleSort, tableLayout, onTableLayoutChange }: FiltersProps) => {
   const { t } = useTranslation()
   const dir = useDirDetection()
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [isExportOpen, setExportOpen] = useState(false)
   const [autoRefreshInterval, setAutoRefreshInterval] = useState<number>(() => getUsersAutoRefreshIntervalSeconds())
   const { refetch: queryRefetch, isFetching } = useGetUsers(filters)
   const activeSearchValue = filters.ids?.join(', ') || filters.search || filters.proxy_id || ''
@@ -427,6 +434,22 @@ export const Filters = ({ filters, onFilterChange, refetch, autoRefetch, advance
           </DropdownMenu>
         </div>
       )}
+      {/* Saved Views */}
+      <div className="flex h-full flex-shrink-0 items-center gap-1">
+        <SavedViewsMenu />
+        {tableLayout && onTableLayoutChange && <ColumnManager layout={tableLayout} onLayoutChange={onTableLayoutChange} />}
+        <Button
+          size="icon-md"
+          variant="ghost"
+          className="relative hidden h-9 w-9 items-center justify-center rounded-lg border md:flex"
+          onClick={() => setExportOpen(true)}
+          aria-label={t('usersExport.title')}
+          title={t('usersExport.title')}
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+        <ExportUsersModal open={isExportOpen} onOpenChange={setExportOpen} params={omit(filters, ['offset', 'limit', 'is_protocol', 'is_id'])} />
+      </div>
       {/* Refresh Button */}
       <div className="flex h-full flex-shrink-0 items-center gap-0">
         <Button
@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Bookmark, BookmarkPlus, Link2, Pin, PinOff, Star, StarOff, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { useClipboard } from '@/hooks/use-clipboard'
+import { useUsersSavedViews } from '@/hooks/use-users-saved-views'
+import { cn } from '@/lib/utils'
+import type { UsersSavedView } from '@/utils/userPreferenceStorage'
+import { buildUsersViewShareLink, createUsersSavedView, getUsersViewPath, getUsersViewQueryFromHash, hasRelativeDates, resolveUsersSavedViewQuery } from '@/utils/usersSavedViews'
+
+const DATE_PARAMS_PATTERN = /(^|&)(expire_after|expire_before|online_after|online_before)=/
+
+export function SavedViewsMenu() {
+  const { t } = useTranslation()
+  const { views, defaultViewId, saveView, deleteView, togglePinned, toggleDefault } = useUsersSavedViews()
+  const { copy } = useClipboard()
+  const [isSaveDialogOpen, setSaveDialogOpen] = useState(false)
+  const [draftName, setDraftName] = useState('')
+  const [draftQuery, setDraftQuery] = useState('')
+  const [keepDatesRelative, setKeepDatesRelative] = useState(true)
+
+  const applyView = (view: UsersSavedView) => {
+    // The users table follows `hashchange`, so assigning the hash is enough to swap every filter at once
+    window.location.hash = getUsersViewPath(resolveUsersSavedViewQuery(view))
+  }
+
+  const copyLink = async (query: string) => {
+    const copied = await copy(buildUsersViewShareLink(query))
+    if (copied) toast.success(t('usersViews.linkCopied'))
+    else toast.error(t('copyFailed', { defaultValue: 'Failed to copy content' }))
+  }
+
+  const openSaveDialog = () => {
+    setDraftName('')
+    setDraftQuery(getUsersViewQueryFromHash())
+    setKeepDatesRelative(true)
+    setSaveDialogOpen(true)
+  }
+
+  const handleSave = () => {
+    const name = draftName.trim()
+    if (!name) return
+    saveView(createUsersSavedView(name, draftQuery, keepDatesRelative))
+    setSaveDialogOpen(false)
+    toast.success(t('usersViews.saved', { name }))
+  }
+
+  const hasDateFilters = DATE_PARAMS_PATTERN.test(draftQuery)
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="icon-md" variant="ghost" className="relative flex h-9 w-9 items-center justify-center rounded-lg border" aria-label={t('usersViews.title')} title={t('usersViews.title')}>
+            <Bookmark className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="max-h-96 w-60 overflow-y-auto">
+          <DropdownMenuLabel className="text-muted-foreground px-2 py-1 text-[10px]">{t('usersViews.title')}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {views.length === 0 && <div className="text-muted-foreground px-2 py-2 text-xs">{t('usersViews.empty')}</div>}
+          {views.map(view => {
+            const isDefault = view.id === defaultViewId
+            return (
+              <DropdownMenuSub key={view.id}>
+                <DropdownMenuSubTrigger className="flex items-center gap-1.5 px-2 py-1.5 text-xs">
+                  <span className="truncate" dir="auto">
+                    {view.name}
+                  </span>
+                  <span className="ms-auto flex items-center gap-1">
+                    {view.pinned && <Pin className="text-muted-foreground h-3 w-3" />}
+                    {isDefault && <Star className="h-3 w-3 fill-amber-400 text-amber-400" />}
+                  </span>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="w-52">
+                  <DropdownMenuItem onSelect={() => applyView(view)} className="gap-2 text-xs">
+                    <Bookmark className="h-3 w-3" />
+                    {t('usersViews.apply')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => togglePinned(view.id)} className="gap-2 text-xs">
+                    {view.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                    {t(view.pinned ? 'usersViews.unpin' : 'usersViews.pin')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => toggleDefault(view.id)} className="gap-2 text-xs">
+                    {isDefault ? <StarOff className="h-3 w-3" /> : <Star className="h-3 w-3" />}
+                    {t(isDefault ? 'usersViews.unsetDefault' : 'usersViews.setDefault')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => void copyLink(resolveUsersSavedViewQuery(view))} className="gap-2 text-xs">
+                    <Link2 className="h-3 w-3" />
+                    {t('usersViews.copyLink')}
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={() => deleteView(view.id)} className="text-destructive focus:text-destructive gap-2 text-xs">
+                    <Trash2 className="h-3 w-3" />
+                    {t('delete')}
+                  </DropdownMenuItem>
+                  {hasRelativeDates(view) && <div className="text-muted-foreground px-2 pt-1 pb-1.5 text-[10px]">{t('usersViews.relativeDatesHint')}</div>}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            )
+          })}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openSaveDialog} className="gap-2 text-xs">
+            <BookmarkPlus className="h-3 w-3" />
+            {t('usersViews.saveCurrent')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => void copyLink(getUsersViewQueryFromHash())} className="gap-2 text-xs">
+            <Link2 className="h-3 w-3" />
+            {t('usersViews.copyCurrentLink')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="w-full max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <BookmarkPlus className="h-5 w-5" />
+              <span>{t('usersViews.saveTitle')}</span>
+            </DialogTitle>
+            <DialogDescription>{t('usersViews.saveDescription')}</DialogDescription>
+          </DialogHeader>
+          <form
+            className="flex flex-col gap-4"
+            onSubmit={event => {
+              event.preventDefault()
+              handleSave()
+            }}
+          >
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="users-view-name">{t('usersViews.name')}</Label>
+              <Input id="users-view-name" value={draftName} onChange={event => setDraftName(event.target.value)} placeholder={t('usersViews.namePlaceholder')} autoFocus />
+            </div>
+            <code className={cn('bg-muted text-muted-foreground block rounded-md px-2 py-1.5 text-xs break-all', !draftQuery && 'italic')} dir="ltr">
+              {draftQuery || t('usersViews.noFilters')}
+            </code>
+            {hasDateFilters && (
+              <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <div className="space-y-0.5">
+                  <Label htmlFor="users-view-relative-dates">{t('usersViews.keepDatesRelative')}</Label>
+                  <p className="text-muted-foreground text-xs">{t('usersViews.keepDatesRelativeDescription')}</p>
+                </div>
+                <Switch id="users-view-relative-dates" checked={keepDatesRelative} onCheckedChange={setKeepDatesRelative} />
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setSaveDialogOpen(false)}>
+                {t('cancel')}
+              </Button>
+              <Button type="submit" disabled={!draftName.trim()}>
+                {t('save')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,22 @@
+import { useGetUserSubUpdateListById } from '@/service/api'
+import { dateUtils } from '@/utils/dateFormatter'
+import { useTranslation } from 'react-i18next'
+
+/**
+ * Latest subscription fetch of a user. The users list does not carry it, so each visible row asks
+ * for the newest entry of its update log; the column is opt-in to keep the default table cheap.
+ */
+export function SubLastUpdate({ userId }: { userId: number }) {
+  const { t } = useTranslation()
+  const { data, isLoading } = useGetUserSubUpdateListById(userId, { limit: 1 }, { query: { staleTime: 60_000 } })
+  const lastUpdate = data?.updates?.[0]
+
+  if (isLoading) return <span className="text-muted-foreground text-xs">…</span>
+  if (!lastUpdate) return <span className="text-muted-foreground text-xs">{t('never')}</span>
+
+  return (
+    <span className="text-xs" title={lastUpdate.user_agent}>
+      {dateUtils.formatDate(lastUpdate.created_at)}
+    </span>
+  )
+}
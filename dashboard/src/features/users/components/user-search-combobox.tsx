@@ -0,0 +1,61 @@
+import { Button } from '@/components/ui/button'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { useDebouncedSearch } from '@/hooks/use-debounced-search'
+import { cn } from '@/lib/utils'
+import { type UserSimple, useGetUsersSimple } from '@/service/api'
+import { Check, ChevronsUpDown } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const USER_SEARCH_LIMIT = 20
+
+interface UserSearchComboboxProps {
+  value: UserSimple | null
+  onChange: (user: UserSimple) => void
+  placeholder: string
+  searchPlaceholder: string
+  className?: string
+}
+
+/** Single-user picker backed by the server-side username search; users are only fetched while it is open. */
+export function UserSearchCombobox({ value, onChange, placeholder, searchPlaceholder, className }: UserSearchComboboxProps) {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+  const { search, debouncedSearch, setSearch } = useDebouncedSearch('', 300)
+  const { data, isLoading } = useGetUsersSimple({ limit: USER_SEARCH_LIMIT, offset: 0, search: debouncedSearch || undefined }, { query: { enabled: open } })
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" role="combobox" className={cn('min-w-0 justify-between font-normal', className)}>
+          <span className={cn('truncate', !value && 'text-muted-foreground')}>{value?.username ?? placeholder}</span>
+          <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput value={search} onValueChange={setSearch} placeholder={searchPlaceholder} />
+          <CommandList>
+            <CommandEmpty>{isLoading ? t('loading') : t('noResults', { defaultValue: 'No results found.' })}</CommandEmpty>
+            <CommandGroup dir="ltr" className="max-h-56 overflow-auto">
+              {(data?.users ?? []).map(user => (
+                <CommandItem
+                  key={user.id}
+                  value={String(user.id)}
+                  onSelect={() => {
+                    onChange(user)
+                    setOpen(false)
+                  }}
+                >
+                  <Check className={cn('h-4 w-4', value?.id === user.id ? 'opacity-100' : 'opacity-0')} />
+                  <span className="truncate">{user.username}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
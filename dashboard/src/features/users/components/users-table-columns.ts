@@ -0,0 +1,27 @@
+/** Columns the admin can reorder from the column manager; `optional` ones are hidden until switched on. */
+export const USERS_TABLE_COLUMNS = [
+  { id: 'username', labelKey: 'username', optional: false },
+  { id: 'status', labelKey: 'usersTable.status', optional: false },
+  { id: 'details', labelKey: 'dataUsage', optional: false },
+  { id: 'note', labelKey: 'usersTable.columns.note', optional: true },
+  { id: 'lifetime_used_traffic', labelKey: 'usersTable.columns.lifetimeUsage', optional: true },
+  { id: 'hwid_limit', labelKey: 'usersTable.columns.hwidLimit', optional: true },
+  { id: 'groups', labelKey: 'usersTable.columns.groups', optional: true },
+  { id: 'next_plan', labelKey: 'usersTable.columns.nextPlan', optional: true },
+  { id: 'on_hold_timeout', labelKey: 'usersTable.columns.onHoldTimeout', optional: true },
+  { id: 'created_at', labelKey: 'usersTable.columns.createdAt', optional: true },
+  { id: 'online_at', labelKey: 'usersTable.columns.lastOnline', optional: true },
+  { id: 'sub_updated_at', labelKey: 'usersTable.columns.subLastUpdate', optional: true },
+] as const
+
+export type UsersTableColumnId = (typeof USERS_TABLE_COLUMNS)[number]['id']
+
+/** Saved order first (unknown ids dropped), then any columns added since, with selection and the mobile chevron pinned to the edges. */
+export const resolveUsersTableColumnOrder = (order: string[]) => {
+  const known = USERS_TABLE_COLUMNS.map(column => column.id as string)
+  const saved = order.filter(id => known.includes(id))
+  return ['select', ...saved, ...known.filter(id => !saved.includes(id)), 'chevron']
+}
+
+export const getUsersTableColumnVisibility = (visible: string[]) =>
+  Object.fromEntries(USERS_TABLE_COLUMNS.filter(column => column.optional).map(column => [column.id, visible.includes(column.id)])) as Record<string, boolean>
@@ -1,4 +1,5 @@
 import { setupColumns } from '@/features/users/components/columns'
+import { getUsersTableColumnVisibility, resolveUsersTableColumnOrder } from '@/features/users/components/users-table-columns'
 import { ActionButtonsModalHost } from '@/features/users/components/action-buttons'
 import SetOwnerModal from '@/features/users/dialogs/set-owner-modal'
 import ApplyTemplateModal from '@/features/templates/dialogs/apply-template-modal'
@@ -13,6 +14,7 @@ import {
   bulkEnableUsers,
   bulkResetUsersDataUsage,
   bulkRevokeUsersSubscription,
+  useGetGroupsSimple,
   useGetUsers,
   UserResponse,
   UserStatus,
@@ -22,11 +24,15 @@ import {
 import { useAdmin } from '@/hooks/use-admin'
 import {
   getUsersPerPageLimitSize,
+  getUsersSavedViews,
   getUsersShowCreatedBy,
   getUsersShowSelectionCheckbox,
+  getUsersTableLayout,
   setUsersPerPageLimitSize,
   setUsersShowCreatedBy,
   setUsersShowSelectionCheckbox,
+  setUsersTableLayout,
+  type UsersTableLayout,
 } from '@/utils/userPreferenceStorage'
 import { bytesToFormGigabytes, gbToBytes } from '@/utils/formatByte'
 import { normalizeDatePickerValueForEditForm } from '@/utils/userEditDateUtils'
@@ -42,10 +48,14 @@ import { PaginationControls } from './filters'
 import AdvanceSearchModal from '@/features/users/dialogs/advance-search-modal'
 import type { AdvanceSearchFormValue } from '@/features/users/forms/advance-search-form'
 import { BulkActionItem, BulkActionsBar } from '@/features/users/components/bulk-actions-bar'
+import { useBulkOperationHistory } from '@/features/bulk/hooks/use-bulk-operation-history'
 import { BulkActionAlertDialog } from '@/features/users/components/bulk-action-alert-dialog'
 import { Card, CardContent } from '@/components/ui/card'
 import { removeUsersFromUsersCache } from '@/utils/usersCache'
 import { hasPermission, hasScopeAll } from '@/utils/rbac'
+import { resolveUsersSavedViewQuery } from '@/utils/usersSavedViews'
+import { toBulkUserSnapshot } from '@/utils/bulkOperationHistory'
+import { useLocation } from 'react-router'
 
 // Helper function to get URL search params from hash
 const getSearchParams = (): URLSearchParams => {
@@ -67,6 +77,17 @@ const updateURLParams = (params: URLSearchParams) => {
   window.history.replaceState(null, '', newHash)
 }
 
+// Pinned sidebar links point at `?view=<id>` and a bare `/users` landing opens the default view;
+// both are expanded in place into the view's filters, with relative date windows anchored to now
+const expandSavedViewInURL = (username: string | undefined, isLanding: boolean) => {
+  const searchParams = getSearchParams()
+  const viewId = searchParams.get('view')
+  if (!viewId && (!isLanding || searchParams.toString())) return
+  const { views, defaultViewId } = getUsersSavedViews(username)
+  const view = views.find(item => item.id === (viewId ?? defaultViewId))
+  if (view || viewId) updateURLParams(new URLSearchParams(view ? resolveUsersSavedViewQuery(view) : ''))
+}
+
 const parseOptionalPositiveNumber = (value: string | null) => {
   if (!value) return undefined
   const parsed = Number(value)
@@ -160,6 +181,8 @@ const UsersTable = memo(() => {
   const isFirstLoadRef = useRef(true)
   const isAutoRefreshingRef = useRef(false)
   const isInitializingFromURLRef = useRef(false)
+  const location = useLocation()
+  const lastLocationKeyRef = useRef(location.key)
   const { admin } = useAdmin()
   const canReadAllUsers = hasScopeAll(admin, 'users', 'read')
   const canUpdateUsers = hasPermission(admin, 'users', 'update')
@@ -201,7 +224,10 @@ const UsersTable = memo(() => {
     }
   }
 
-  const initialState = getInitialStateFromURL()
+  const [initialState] = useState(() => {
+    expandSavedViewInURL(admin?.username, true)
+    return getInitialStateFromURL()
+  })
   const [currentPage, setCurrentPage] = useState(initialState.page)
   const [itemsPerPage, setItemsPerPage] = useState(initialState.limit)
   const [isChangingPage, setIsChangingPage] = useState(false)
@@ -219,6 +245,7 @@ const UsersTable = memo(() => {
   const [isSorting, setIsSorting] = useState(false)
   const [showCreatedBy, setShowCreatedBy] = useState(getUsersShowCreatedBy())
   const [showSelectionCheckbox, setShowSelectionCheckbox] = useState(getUsersShowSelectionCheckbox())
+  const [tableLayout, setTableLayout] = useState<UsersTableLayout>(() => getUsersTableLayout(admin?.username))
 
   const [filters, setFilters] = useState<{
     limit: number
@@ -494,6 +521,7 @@ const UsersTable = memo(() => {
     const handleHashChange = () => {
       if (isInitializingFromURLRef.current) return
 
+      expandSavedViewInURL(admin?.username, false)
       const searchParams = getSearchParams()
       const urlParams = parseURLParams(searchParams, itemsPerPage)
 
@@ -566,9 +594,17 @@ const UsersTable = memo(() => {
       }
     }
 
+    // Router navigations (e.g. pinned views in the sidebar) use pushState, which does not fire `hashchange`
+    if (lastLocationKeyRef.current !== location.key) {
+      lastLocationKeyRef.current = location.key
+      handleHashChange()
+    }
+
     window.addEventListener('hashchange', handleHashChange)
     return () => window.removeEventListener('hashchange', handleHashChange)
   }, [
+    location.key,
+    admin?.username,
     currentPage,
     itemsPerPage,
     filters.sort,
@@ -743,9 +779,13 @@ const UsersTable = memo(() => {
     }
   }, [clearSelection, selectedUserIds.length, showSelectionCheckbox])
 
+  const { recordOperation, getUndoAction } = useBulkOperationHistory()
+  const getSelectedSnapshots = (ids: number[]) => selectedUsers.filter(user => ids.includes(user.id)).map(toBulkUserSnapshot)
+
   const deleteMutation = useMutation({
     mutationFn: (ids: number[]) => bulkDeleteUsers({ ids }),
     onSuccess: (response, ids) => {
+      recordOperation({ kind: 'delete', snapshots: getSelectedSnapshots(ids), affected: response.count })
       removeUsersFromUsersCache(
         queryClient,
         selectedUsers.filter(user => ids.includes(user.id)),
@@ -762,7 +802,8 @@ const UsersTable = memo(() => {
 
   const resetUsageMutation = useMutation({
     mutationFn: (ids: number[]) => bulkResetUsersDataUsage({ ids }),
-    onSuccess: response => {
+    onSuccess: (response, ids) => {
+      recordOperation({ kind: 'reset_usage', snapshots: getSelectedSnapshots(ids), affected: response.count })
       invalidateUsers()
       clearSelection()
       toast.success(t('bulkUserActions.resetSuccess', { count: response.count }))
@@ -776,7 +817,8 @@ const UsersTable = memo(() => {
 
   const revokeSubscriptionMutation = useMutation({
     mutationFn: (ids: number[]) => bulkRevokeUsersSubscription({ ids }),
-    onSuccess: response => {
+    onSuccess: (response, ids) => {
+      recordOperation({ kind: 'revoke_subscription', snapshots: getSelectedSnapshots(ids), affected: response.count })
       invalidateUsers()
       clearSelection()
       toast.success(t('bulkUserActions.revokeSuccess', { count: response.count }))
@@ -790,10 +832,11 @@ const UsersTable = memo(() => {
 
   const disableUsersMutation = useMutation({
     mutationFn: (ids: number[]) => bulkDisableUsers({ ids }),
-    onSuccess: response => {
+    onSuccess: (response, ids) => {
+      const historyRecord = recordOperation({ kind: 'disable', snapshots: getSelectedSnapshots(ids), affected: response.count })
       invalidateUsers()
       clearSelection()
-      toast.success(t('bulkUserActions.disableSuccess', { count: response.count, defaultValue: '{{count}} users disabled successfully.' }))
+      toast.success(t('bulkUserActions.disableSuccess', { count: response.count, defaultValue: '{{count}} users disabled successfully.' }), { action: getUndoAction(historyRecord) })
     },
     onError: (error: any) => {
       toast.error(t('bulkUserActions.disableError', { defaultValue: 'Failed to disable selected users.' }), {
@@ -804,10 +847,11 @@ const UsersTable = memo(() => {
 
   const enableUsersMutation = useMutation({
     mutationFn: (ids: number[]) => bulkEnableUsers({ ids }),
-    onSuccess: response => {
+    onSuccess: (response, ids) => {
+      const historyRecord = recordOperation({ kind: 'enable', snapshots: getSelectedSnapshots(ids), affected: response.count })
       invalidateUsers()
       clearSelection()
-      toast.success(t('bulkUserActions.enableSuccess', { count: response.count, defaultValue: '{{count}} users enabled successfully.' }))
+      toast.success(t('bulkUserActions.enableSuccess', { count: response.count, defaultValue: '{{count}} users enabled successfully.' }), { action: getUndoAction(historyRecord) })
     },
     onError: (error: any) => {
       toast.error(t('bulkUserActions.enableError', { defaultValue: 'Failed to enable selected users.' }), {
@@ -993,11 +1037,33 @@ const UsersTable = memo(() => {
     }
   }, [])
 
+  const { data: groupsData } = useGetGroupsSimple({ all: true }, { query: { enabled: tableLayout.visible.includes('groups'), staleTime: 5 * 60 * 1000 } })
+  const groupNames = useMemo(() => new Map((groupsData?.groups ?? []).map(group => [group.id, group.name])), [groupsData])
+
+  const handleTableLayoutChange = useCallback(
+    (layout: UsersTableLayout) => {
+      setTableLayout(layout)
+      setUsersTableLayout(admin?.username, layout)
+    },
+    [admin?.username],
+  )
+
+  const handleColumnResize = useCallback(
+    (columnId: string, width: number) => {
+      const sizes = { ...tableLayout.sizes }
+      if (width > 0) sizes[columnId] = width
+      else delete sizes[columnId]
+      handleTableLayoutChange({ ...tableLayout, sizes })
+    },
+    [handleTableLayoutChange, tableLayout],
+  )
+
   const columns = useMemo(
     () =>
       setupColumns({
         t,
         dir,
+        groupNames,
         showCreatedBy: canReadAllUsers && showCreatedBy,
         showSelectionCheckbox: showSelectionCheckbox && canBulkMutateUsers,
         handleSort,
@@ -1007,8 +1073,10 @@ const UsersTable = memo(() => {
         },
         handleStatusFilter,
       }),
-    [t, dir, canReadAllUsers, showCreatedBy, showSelectionCheckbox, canBulkMutateUsers, handleSort, filters.sort, filters.status, handleStatusFilter],
+    [t, dir, groupNames, canReadAllUsers, showCreatedBy, showSelectionCheckbox, canBulkMutateUsers, handleSort, filters.sort, filters.status, handleStatusFilter],
   )
+  const columnOrder = useMemo(() => resolveUsersTableColumnOrder(tableLayout.order), [tableLayout.order])
+  const columnVisibility = useMemo(() => getUsersTableColumnVisibility(tableLayout.visible), [tableLayout.visible])
 
   const handleAdvanceSearchSubmit = async (values: AdvanceSearchFormValue) => {
     if (isAdvanceSearchApplying) return
@@ -1170,6 +1238,8 @@ const UsersTable = memo(() => {
         autoRefetch={handleAutoRefresh}
         handleSort={handleSort}
         onClearAdvanceSearch={handleClearAdvanceSearch}
+        tableLayout={tableLayout}
+        onTableLayoutChange={handleTableLayoutChange}
       />
       {canBulkMutateUsers && <BulkActionsBar selectedCount={selectedCount} onClear={clearSelection} actions={bulkActions} />}
       {isEmpty && (
@@ -1201,6 +1271,11 @@ const UsersTable = memo(() => {
           onEdit={canUpdateUsers ? handleEdit : undefined}
           onSelectionChange={setSelectedUserIds}
           resetSelectionKey={resetSelectionKey}
+          columnOrder={columnOrder}
+          columnVisibility={columnVisibility}
+          columnSizes={tableLayout.sizes}
+          onColumnResize={handleColumnResize}
+          density={tableLayout.density}
         />
       )}
       {!isEmpty && !isSearchEmpty && !isCurrentlyLoading && (
@@ -1212,6 +1287,11 @@ const UsersTable = memo(() => {
           onEdit={canUpdateUsers ? handleEdit : undefined}
           onSelectionChange={setSelectedUserIds}
           resetSelectionKey={resetSelectionKey}
+          columnOrder={columnOrder}
+          columnVisibility={columnVisibility}
+          columnSizes={tableLayout.sizes}
+          onColumnResize={handleColumnResize}
+          density={tableLayout.density}
         />
       )}
       <PaginationControls
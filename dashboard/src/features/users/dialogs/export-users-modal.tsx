@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Download, LoaderCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { getGroupsSimple, type GetUsersParams } from '@/service/api'
+import type { ErrorType } from '@/service/http'
+import { downloadBlob } from '@/utils/subscription-config'
+import { buildUsersExport, DEFAULT_USERS_EXPORT_COLUMN_IDS, fetchUsersForExport, USERS_EXPORT_COLUMNS, type UsersExportFormat } from '@/utils/usersExport'
+
+interface ExportUsersModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Filters and sort of the users table; paging is handled by the export itself. */
+  params: GetUsersParams
+}
+
+const EXPORT_FORMATS: UsersExportFormat[] = ['csv', 'xlsx', 'json']
+
+export default function ExportUsersModal({ open, onOpenChange, params }: ExportUsersModalProps) {
+  const { t } = useTranslation()
+  const [format, setFormat] = useState<UsersExportFormat>('csv')
+  const [columnIds, setColumnIds] = useState<string[]>(DEFAULT_USERS_EXPORT_COLUMN_IDS)
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const isExporting = progress !== null
+
+  useEffect(() => {
+    if (!open) abortControllerRef.current?.abort()
+  }, [open])
+
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  const toggleColumn = (id: string, checked: boolean) => {
+    setColumnIds(prev => (checked ? USERS_EXPORT_COLUMNS.map(column => column.id).filter(columnId => columnId === id || prev.includes(columnId)) : prev.filter(columnId => columnId !== id)))
+  }
+
+  const handleExport = async () => {
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    setProgress({ loaded: 0, total: 0 })
+
+    try {
+      const [users, groups] = await Promise.all([
+        fetchUsersForExport(params, {
+          signal: abortController.signal,
+          onProgress: (loaded, total) => setProgress({ loaded, total }),
+        }),
+        columnIds.includes('groups') ? getGroupsSimple({ all: true }, abortController.signal) : Promise.resolve(null),
+      ])
+      const groupNames = new Map((groups?.groups ?? []).map(group => [group.id, group.name]))
+      const blob = buildUsersExport(users, columnIds, format, { groupNames }, labelKey => t(labelKey))
+      const date = new Date().toISOString().slice(0, 10)
+      downloadBlob(blob, `users-${date}.${format}`)
+      toast.success(t('usersExport.success', { count: users.length }))
+      onOpenChange(false)
+    } catch (error: unknown) {
+      if (abortController.signal.aborted) return
+      const fetchError = error as ErrorType<string> | undefined
+      toast.error(t('usersExport.error'), { description: fetchError?.data?.detail || fetchError?.message || '' })
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            <span>{t('usersExport.title')}</span>
+          </DialogTitle>
+          <DialogDescription>{t('usersExport.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex items-center justify-between gap-2">
+            <Label>{t('usersExport.format')}</Label>
+            <ToggleGroup type="single" size="sm" variant="outline" value={format} onValueChange={value => value && setFormat(value as UsersExportFormat)} disabled={isExporting}>
+              {EXPORT_FORMATS.map(item => (
+                <ToggleGroupItem key={item} value={item} className="px-3 text-xs uppercase">
+                  {item}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <Label>{t('usersExport.columnsLabel')}</Label>
+              <div className="flex gap-1">
+                <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" disabled={isExporting} onClick={() => setColumnIds(USERS_EXPORT_COLUMNS.map(column => column.id))}>
+                  {t('usersExport.selectAll')}
+                </Button>
+                <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" disabled={isExporting} onClick={() => setColumnIds(DEFAULT_USERS_EXPORT_COLUMN_IDS)}>
+                  {t('usersExport.resetColumns')}
+                </Button>
+              </div>
+            </div>
+            <div className="grid max-h-64 grid-cols-1 gap-2 overflow-y-auto rounded-md border p-3 sm:grid-cols-2">
+              {USERS_EXPORT_COLUMNS.map(column => (
+                <label key={column.id} className="flex cursor-pointer items-center gap-2 text-sm">
+                  <Checkbox checked={columnIds.includes(column.id)} disabled={isExporting} onCheckedChange={checked => toggleColumn(column.id, checked === true)} />
+                  <span className="truncate">{t(column.labelKey)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {isExporting && (
+            <div className="flex flex-col gap-1.5">
+              <Progress value={percent} className="h-2" />
+              <span className="text-muted-foreground text-xs">{progress.total > 0 ? t('usersExport.progress', { loaded: progress.loaded, total: progress.total }) : t('usersExport.starting')}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => (isExporting ? abortControllerRef.current?.abort() : onOpenChange(false))}>
+            {t('cancel')}
+          </Button>
+          <Button type="button" onClick={() => void handleExport()} disabled={isExporting || columnIds.length === 0}>
+            {isExporting ? <LoaderCircle className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            {t('usersExport.export')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -8,6 +8,7 @@ import { useBulkSetOwner, useSetOwnerById, UserResponse } from '@/service/api'
 import { toast } from 'sonner'
 import useDynamicErrorHandler from '@/hooks/use-dynamic-errors'
 import { Skeleton } from '@/components/ui/skeleton'
+import { useBulkOperationHistory } from '@/features/bulk/hooks/use-bulk-operation-history'
 
 interface SetOwnerModalProps {
   open: boolean
@@ -40,6 +41,7 @@ export default function SetOwnerModal({ open, onClose, userId, username, userIds
     },
   })
   const bulkSetOwnerMutation = useBulkSetOwner()
+  const { captureTargets, recordOperation, getUndoAction } = useBulkOperationHistory()
   const handleDynamicError = useDynamicErrorHandler()
 
   useEffect(() => {
@@ -78,13 +80,20 @@ export default function SetOwnerModal({ open, onClose, userId, username, userIds
     setSubmitting(true)
     try {
       if (isBulkMode) {
-        await bulkSetOwnerMutation.mutateAsync({
+        const targets = await captureTargets({ users: userIds })
+        const response = await bulkSetOwnerMutation.mutateAsync({
           data: {
             ids: userIds ?? [],
             admin_username: selectedAdmin,
           },
         })
-        toast.success(t('setOwnerModal.bulkSuccess', { count: bulkCount, admin: selectedAdmin }))
+        const historyRecord = recordOperation({
+          kind: 'set_owner',
+          snapshots: targets.snapshots?.filter(snapshot => snapshot.owner !== selectedAdmin) ?? null,
+          affected: response.count,
+          details: { owner: selectedAdmin },
+        })
+        toast.success(t('setOwnerModal.bulkSuccess', { count: bulkCount, admin: selectedAdmin }), { action: getUndoAction(historyRecord) })
         onSuccess?.()
       } else if (userId) {
         await setOwnerMutation.mutateAsync({ userId, params: { admin_username: selectedAdmin } })
@@ -7,7 +7,8 @@ import { BarChart3, PieChart as PieChartIcon, TrendingUp, Calendar, Info } from
 import PeriodSelector from '@/components/charts/period-selector'
 import TimeSelector, { TRAFFIC_TIME_SELECTOR_SHORTCUTS } from '@/components/charts/time-selector'
 import { useTranslation } from 'react-i18next'
-import { Period, useGetNodesSimple, useGetCurrentAdmin, useGetUserUsageById } from '@/service/api'
+import { Period, useGetNodesSimple, useGetUserUsageById } from '@/service/api'
+import { useAdmin } from '@/hooks/use-admin'
 import type { GetUserUsageParams, NodeSimple, UserUsageStat, UserUsageStatsListStats } from '@/service/api'
 import { DateRange } from 'react-day-picker'
 import { TimeRangeSelector } from '@/components/common/time-range-selector'
@@ -238,7 +239,7 @@ const UsageModal = ({ open, onClose, userId }: UsageModalProps) => {
   const chartViewType = useChartViewType()
 
   // Get current admin to check permissions
-  const { data: currentAdmin } = useGetCurrentAdmin()
+  const { admin: currentAdmin } = useAdmin()
   const canReadAllUserUsage = hasScopeAll(currentAdmin, 'users', 'read')
   const allNodesSelected = selectedNodeId === undefined && canReadAllUserUsage
   const dir = useDirDetection()
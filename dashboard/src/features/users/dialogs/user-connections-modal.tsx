@@ -0,0 +1,263 @@
+import { useCallback, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { ArrowDown, ArrowUp, ArrowUpDown, Cable, Loader2, Pause, Play, Trash2 } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { type ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { TerminalLine } from '@/features/nodes/components/terminal-line'
+import { useNodeLogStream } from '@/features/nodes/hooks/use-node-log-stream'
+import useDirDetection from '@/hooks/use-dir-detection'
+import dayjs from '@/lib/dayjs'
+import { cn } from '@/lib/utils'
+import { useGetNodesSimple } from '@/service/api'
+import { aggregateAccessLogs, isAccessLogForUser, type AccessLogDimension, type AccessLogStatRow } from '@/utils/accessLogStats'
+import { buildNodeLogLanes, type LogLine, type NodeLogLane } from '@/utils/logsUtils'
+
+interface UserConnectionsModalProps {
+  isOpen: boolean
+  onOpenChange: (open: boolean) => void
+  userId: number
+  username: string
+}
+
+/** One user's access lines are sparse compared to a node's full log, so a smaller buffer suffices. */
+const USER_CONNECTIONS_BUFFER = 20000
+const RECENT_LINES_LIMIT = 200
+
+type SortColumn = 'key' | 'count' | 'lastSeen'
+type SortState = { column: SortColumn; direction: 'asc' | 'desc' }
+
+const DIMENSION_TABS: { dimension: AccessLogDimension; label: string }[] = [
+  { dimension: 'destination', label: 'userConnections.destinations' },
+  { dimension: 'destinationPort', label: 'userConnections.ports' },
+  { dimension: 'inboundTag', label: 'userConnections.inbounds' },
+  { dimension: 'sourceIp', label: 'userConnections.sourceIps' },
+]
+
+const timelineChartConfig = {
+  accepted: { label: 'accepted', color: 'hsl(var(--chart-2))' },
+  rejected: { label: 'rejected', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig
+
+const compareRows = (a: AccessLogStatRow, b: AccessLogStatRow, { column, direction }: SortState) => {
+  const factor = direction === 'asc' ? 1 : -1
+  if (column === 'key') return a.key.localeCompare(b.key, undefined, { numeric: true }) * factor
+  if (column === 'count') return (a.count - b.count) * factor
+  return ((a.lastSeen ?? 0) - (b.lastSeen ?? 0)) * factor
+}
+
+interface ConnectionStatsTableProps {
+  rows: AccessLogStatRow[]
+  keyLabel: string
+  laneById: Map<number, NodeLogLane>
+}
+
+function ConnectionStatsTable({ rows, keyLabel, laneById }: ConnectionStatsTableProps) {
+  const { t } = useTranslation()
+  const [sort, setSort] = useState<SortState>({ column: 'count', direction: 'desc' })
+  const sortedRows = useMemo(() => [...rows].sort((a, b) => compareRows(a, b, sort)), [rows, sort])
+
+  const toggleSort = (column: SortColumn) => {
+    setSort(prev => (prev.column === column ? { column, direction: prev.direction === 'asc' ? 'desc' : 'asc' } : { column, direction: column === 'key' ? 'asc' : 'desc' }))
+  }
+
+  const sortHeader = (column: SortColumn, label: string, className?: string) => {
+    const Icon = sort.column !== column ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown
+    return (
+      <TableHead className={className}>
+        <button type="button" className="hover:text-foreground inline-flex items-center gap-1" onClick={() => toggleSort(column)}>
+          {label}
+          <Icon className={cn('h-3 w-3', sort.column !== column && 'opacity-50')} />
+        </button>
+      </TableHead>
+    )
+  }
+
+  if (rows.length === 0) {
+    return <div className="text-muted-foreground flex h-32 items-center justify-center text-sm">{t('userConnections.noConnections')}</div>
+  }
+
+  return (
+    <Table dir="ltr">
+      <TableHeader>
+        <TableRow>
+          {sortHeader('key', keyLabel)}
+          {sortHeader('count', t('userConnections.count'), 'w-24')}
+          {sortHeader('lastSeen', t('userConnections.lastSeen'), 'w-28')}
+          <TableHead className="w-40">{t('nodes.title')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sortedRows.map(row => (
+          <TableRow key={row.key}>
+            <TableCell className="max-w-[260px] truncate font-mono text-xs" title={row.key}>
+              {row.key}
+            </TableCell>
+            <TableCell className="font-mono text-xs">{row.count}</TableCell>
+            <TableCell className="text-muted-foreground font-mono text-xs">{row.lastSeen ? dayjs(row.lastSeen).format('HH:mm:ss') : '-'}</TableCell>
+            <TableCell>
+              <div className="flex flex-wrap gap-1">
+                {row.nodeIds.map(nodeId => {
+                  const lane = laneById.get(nodeId)
+                  return (
+                    <span key={nodeId} className="text-muted-foreground inline-flex items-center gap-1 text-[11px]">
+                      <span className={cn('h-2 w-2 rounded-full', lane?.color ?? 'bg-muted-foreground')} />
+                      {lane?.name ?? nodeId}
+                    </span>
+                  )
+                })}
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export default function UserConnectionsModal({ isOpen, onOpenChange, userId, username }: UserConnectionsModalProps) {
+  const { t } = useTranslation()
+  const dir = useDirDetection()
+
+  const { data: nodesResponse } = useGetNodesSimple(
+    { all: true },
+    {
+      query: {
+        enabled: isOpen,
+        staleTime: 5 * 60 * 1000,
+      },
+    },
+  )
+  const nodes = useMemo(() => nodesResponse?.nodes || [], [nodesResponse])
+  const connectedNodeIds = useMemo(() => nodes.filter(node => node.status === 'connected').map(node => node.id), [nodes])
+  const laneById = useMemo(() => new Map(buildNodeLogLanes(nodes).map(lane => [lane.id, lane])), [nodes])
+
+  const acceptUserLine = useCallback((log: LogLine) => isAccessLogForUser(log.access, userId, username), [userId, username])
+  const { logs, pendingCount, isPaused, setPaused, isLoading, clear } = useNodeLogStream(isOpen ? connectedNodeIds : [], {
+    capacity: USER_CONNECTIONS_BUFFER,
+    accept: acceptUserLine,
+  })
+
+  const stats = useMemo(() => aggregateAccessLogs(logs), [logs])
+  const recentLogs = useMemo(() => logs.slice(-RECENT_LINES_LIMIT).reverse(), [logs])
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) clear()
+    onOpenChange(open)
+  }
+
+  const summary = [
+    { label: t('userConnections.total'), value: stats.total },
+    { label: t('userConnections.rejected'), value: stats.rejected },
+    { label: t('userConnections.destinations'), value: stats.rows.destination.length },
+    { label: t('userConnections.sourceIps'), value: stats.rows.sourceIp.length },
+  ]
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="flex h-[90vh] max-w-full flex-col sm:h-[720px] sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Cable className="h-5 w-5" />
+            <span>{t('userConnections.title', { username })}</span>
+          </DialogTitle>
+          <DialogDescription>{t('userConnections.description', { count: connectedNodeIds.length })}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-wrap gap-2">
+            {summary.map(item => (
+              <Badge key={item.label} variant="outline" className="gap-1 font-normal">
+                <span className="text-muted-foreground">{item.label}</span>
+                <span className="font-mono">{item.value}</span>
+              </Badge>
+            ))}
+          </div>
+          <div className={cn('flex gap-2', dir === 'rtl' && 'flex-row-reverse')}>
+            <Button variant="outline" size="sm" onClick={() => setPaused(!isPaused)}>
+              {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+              <span>{isPaused ? t('nodes.logs.resume') : t('nodes.logs.pause')}</span>
+            </Button>
+            <Button variant="outline" size="sm" onClick={clear} disabled={logs.length === 0}>
+              <Trash2 className="h-4 w-4" />
+              <span>{t('nodes.logs.clear')}</span>
+            </Button>
+          </div>
+        </div>
+
+        {isPaused && (
+          <Alert className="border-amber-500/50 bg-amber-500/15 text-amber-700 dark:text-amber-400">
+            <Pause className="h-4 w-4" />
+            <AlertDescription>
+              {t('nodes.logs.paused')}
+              {pendingCount > 0 && (
+                <span className="ml-1 font-medium">
+                  ({pendingCount} {t('nodes.logs.messagesBuffered')})
+                </span>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {stats.total === 0 ? (
+          <div className="text-muted-foreground flex flex-1 flex-col items-center justify-center gap-2 text-center text-sm">
+            {isLoading ? <Loader2 className="h-6 w-6 animate-spin" /> : <Cable className="h-6 w-6" />}
+            <span>{connectedNodeIds.length === 0 ? t('nodes.noNodes') : t('userConnections.waiting')}</span>
+          </div>
+        ) : (
+          <Tabs dir={dir} defaultValue="destination" className="flex min-h-0 flex-1 flex-col">
+            <TabsList className="w-full justify-start overflow-x-auto">
+              {DIMENSION_TABS.map(tab => (
+                <TabsTrigger key={tab.dimension} value={tab.dimension}>
+                  {t(tab.label)}
+                </TabsTrigger>
+              ))}
+              <TabsTrigger value="timeline">{t('userConnections.timeline')}</TabsTrigger>
+              <TabsTrigger value="recent">{t('userConnections.recent')}</TabsTrigger>
+            </TabsList>
+            {DIMENSION_TABS.map(tab => (
+              <TabsContent key={tab.dimension} value={tab.dimension} className="min-h-0 flex-1">
+                <ScrollArea className="h-full">
+                  <ConnectionStatsTable rows={stats.rows[tab.dimension]} keyLabel={t(tab.label)} laneById={laneById} />
+                </ScrollArea>
+              </TabsContent>
+            ))}
+            <TabsContent value="timeline" className="min-h-0 flex-1">
+              <ChartContainer dir="ltr" config={timelineChartConfig} className="h-[320px] w-full">
+                <BarChart data={stats.timeline} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid direction="ltr" vertical={false} />
+                  <XAxis
+                    direction="ltr"
+                    dataKey="time"
+                    tickLine={false}
+                    axisLine={false}
+                    minTickGap={28}
+                    tickFormatter={value => dayjs(value).format('HH:mm:ss')}
+                    tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }}
+                  />
+                  <YAxis direction="ltr" tickLine={false} axisLine={false} allowDecimals={false} width={32} tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 10 }} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => dayjs(payload?.[0]?.payload?.time).format('YYYY-MM-DD HH:mm:ss')} />} />
+                  <Bar dataKey="accepted" stackId="connections" fill="var(--color-accepted)" radius={[0, 0, 0, 0]} />
+                  <Bar dataKey="rejected" stackId="connections" fill="var(--color-rejected)" radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </TabsContent>
+            <TabsContent value="recent" className="min-h-0 flex-1">
+              <ScrollArea className="h-full" dir="ltr">
+                {recentLogs.map((log, index) => (
+                  <TerminalLine key={index} log={log} lane={log.nodeId !== undefined ? laneById.get(log.nodeId) : undefined} />
+                ))}
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,6 +4,7 @@ import GroupsSelector from '@/components/common/groups-selector'
 import { TimeUnitSelect, TIME_UNIT_SECONDS, type TimeUnit } from '@/components/common/time-unit-select'
 import UsageModal from '@/features/users/dialogs/usage-modal'
 import UserAllIPsModal from '@/features/users/dialogs/user-all-ips-modal'
+import UserConnectionsModal from '@/features/users/dialogs/user-connections-modal'
 import { UserHwidsModal } from '@/features/users/dialogs/user-hwids-modal'
 import { UserSubscriptionClientsModal } from '@/features/users/dialogs/user-subscription-clients-modal'
 import { type UseEditFormValues, type UseFormValues, userCreateObjectSchema, userCreateSchema, userEditObjectSchema, userEditSchema } from '@/features/users/forms/user-form'
@@ -48,6 +49,7 @@ import { generateWireGuardKeyPair, getWireGuardPublicKey } from '@/utils/wiregua
 import { hasPermission, hasScopeAll } from '@/utils/rbac'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import {
+  Cable,
   CalendarClock,
   CalendarPlus,
   ChevronDown,
@@ -324,6 +326,7 @@ function UserModal({ isDialogOpen, onOpenChange, form, editingUser, editingUserI
   const { t, i18n } = useTranslation()
   const { admin } = useAdmin()
   const canViewAllUserIps = hasScopeAll(admin, 'users', 'read')
+  const canViewUserConnections = canViewAllUserIps && hasPermission(admin, 'nodes', 'logs')
   const canUseResetStrategy = admin?.role?.features?.can_use_reset_strategy !== false
   const canUseNextPlan = admin?.role?.features?.can_use_next_plan !== false
   const requireTemplateForCreate = !editingUser && admin?.role?.access?.require_template === true
@@ -349,6 +352,7 @@ function UserModal({ isDialogOpen, onOpenChange, form, editingUser, editingUserI
   const [isResetUsageDialogOpen, setResetUsageDialogOpen] = useState(false)
   const [isRevokeSubDialogOpen, setRevokeSubDialogOpen] = useState(false)
   const [isUserAllIPsModalOpen, setUserAllIPsModalOpen] = useState(false)
+  const [isUserConnectionsModalOpen, setUserConnectionsModalOpen] = useState(false)
   const [isUsageModalOpen, setUsageModalOpen] = useState(false)
   const [isHwidsModalOpen, setHwidsModalOpen] = useState(false)
   const [isSubscriptionClientsModalOpen, setSubscriptionClientsModalOpen] = useState(false)
@@ -2396,6 +2400,17 @@ function UserModal({ isDialogOpen, onOpenChange, form, editingUser, editingUserI
                         <span>{t('userAllIPs.ipAddresses', { defaultValue: 'IP addresses' })}</span>
                       </DropdownMenuItem>
                     )}
+                    {canViewUserConnections && (
+                      <DropdownMenuItem
+                        onSelect={() => {
+                          setActionsMenuOpen(false)
+                          setUserConnectionsModalOpen(true)
+                        }}
+                      >
+                        <Cable className="mr-2 h-4 w-4" />
+                        <span>{t('userConnections.menuItem')}</span>
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem
                       onSelect={() => {
                         setActionsMenuOpen(false)
@@ -2557,6 +2572,9 @@ function UserModal({ isDialogOpen, onOpenChange, form, editingUser, editingUserI
       {canViewAllUserIps && currentUserId && currentUsername && (
         <UserAllIPsModal isOpen={isUserAllIPsModalOpen} onOpenChange={setUserAllIPsModalOpen} userId={currentUserId} username={currentUsername} />
       )}
+      {canViewUserConnections && currentUserId && currentUsername && (
+        <UserConnectionsModal isOpen={isUserConnectionsModalOpen} onOpenChange={setUserConnectionsModalOpen} userId={currentUserId} username={currentUsername} />
+      )}
       {currentUserId && <UsageModal open={isUsageModalOpen} onClose={() => setUsageModalOpen(false)} userId={currentUserId} />}
       {currentUserId && <UserHwidsModal isOpen={isHwidsModalOpen} onOpenChange={setHwidsModalOpen} userId={currentUserId} username={currentUsername} />}
       {currentUserId && <UserSubscriptionClientsModal isOpen={isSubscriptionClientsModalOpen} onOpenChange={setSubscriptionClientsModalOpen} userId={currentUserId} username={currentUsername} />}
@@ -1,4 +1,6 @@
 import { AdminDetails, useGetCurrentAdmin } from '@/service/api'
+import { buildSimulatedAdmin, getViewAsAdmin, subscribeViewAsAdmin } from '@/utils/viewAsAdmin'
+import { useMemo, useSyncExternalStore } from 'react'
 import { useLoaderData } from 'react-router'
 
 export const useAdmin = () => {
@@ -22,6 +24,10 @@ export const useAdmin = () => {
     },
   })
 
+  // While an owner previews a role, every permission check sees the simulated admin instead
+  const viewAs = useSyncExternalStore(subscribeViewAsAdmin, getViewAsAdmin, getViewAsAdmin)
+  const effectiveAdmin = useMemo(() => (admin && viewAs ? buildSimulatedAdmin(admin, viewAs) : admin), [admin, viewAs])
+
   const clearAdmin = () => {
     // This would typically invalidate the query cache
     // but since we're using React Query, we can just refetch
@@ -29,7 +35,9 @@ export const useAdmin = () => {
   }
 
   return {
-    admin: admin || null,
+    admin: effectiveAdmin || null,
+    realAdmin: admin || null,
+    viewAs,
     isLoading,
     error: error as Error | null,
     clearAdmin,
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAdmin } from '@/hooks/use-admin'
+import { getUsersSavedViews, setUsersSavedViews, USERS_SAVED_VIEWS_CHANGE_EVENT, type UsersSavedView, type UsersSavedViewsState } from '@/utils/userPreferenceStorage'
+
+/** Saved users-table views of the signed-in admin, kept in sync across the sidebar, the filters bar and other tabs. */
+export const useUsersSavedViews = () => {
+  const { admin } = useAdmin()
+  const username = admin?.username
+  const [state, setState] = useState<UsersSavedViewsState>(() => getUsersSavedViews(username))
+
+  useEffect(() => {
+    const syncSavedViews = () => {
+      setState(getUsersSavedViews(username))
+    }
+
+    syncSavedViews()
+    window.addEventListener('storage', syncSavedViews)
+    window.addEventListener(USERS_SAVED_VIEWS_CHANGE_EVENT, syncSavedViews as EventListener)
+
+    return () => {
+      window.removeEventListener('storage', syncSavedViews)
+      window.removeEventListener(USERS_SAVED_VIEWS_CHANGE_EVENT, syncSavedViews as EventListener)
+    }
+  }, [username])
+
+  const update = useCallback(
+    (updater: (current: UsersSavedViewsState) => UsersSavedViewsState) => {
+      setUsersSavedViews(username, updater(getUsersSavedViews(username)))
+    },
+    [username],
+  )
+
+  const saveView = useCallback((view: UsersSavedView) => update(current => ({ ...current, views: [...current.views, view] })), [update])
+
+  const deleteView = useCallback(
+    (id: string) =>
+      update(current => ({
+        views: current.views.filter(view => view.id !== id),
+        defaultViewId: current.defaultViewId === id ? null : current.defaultViewId,
+      })),
+    [update],
+  )
+
+  const togglePinned = useCallback((id: string) => update(current => ({ ...current, views: current.views.map(view => (view.id === id ? { ...view, pinned: !view.pinned } : view)) })), [update])
+
+  const toggleDefault = useCallback((id: string) => update(current => ({ ...current, defaultViewId: current.defaultViewId === id ? null : id })), [update])
+
+  return { ...state, saveView, deleteView, togglePinned, toggleDefault }
+}
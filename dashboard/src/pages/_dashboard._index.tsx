@@ -1,5 +1,6 @@
 import AdminStatisticsCard from '@/features/dashboard/components/admin-statistics-card'
 import DashboardStatistics from '@/features/dashboard/components/dashboard-statistics'
+import ResellerDashboard from '@/features/dashboard/components/reseller-dashboard'
 import WorkersHealthCard from '@/features/dashboard/components/workers-health-card'
 import AdminFilterCombobox from '@/components/common/admin-filter-combobox'
 import AdminModal from '@/features/admins/dialogs/admin-modal'
@@ -30,7 +31,7 @@ import { useTranslation } from 'react-i18next'
 import { toast } from 'sonner'
 import PageHeader from '@/components/layout/page-header'
 import { type UseEditFormValues, type UseFormValues, getDefaultUserForm } from '@/features/users/forms/user-form'
-import { hasPermission, hasScopeAll } from '@/utils/rbac'
+import { hasPermission, hasScopeAll, isResellerAdmin } from '@/utils/rbac'
 // Lazy load CoreConfigModal to prevent Monaco Editor from loading until needed
 const CoreConfigModal = lazy(() => import('@/features/nodes/dialogs/core-config-modal'))
 
@@ -42,7 +43,7 @@ const totalAdmin: DashboardAdmin = {
   is_limited: false,
 }
 
-const Dashboard = () => {
+const OperatorDashboard = () => {
   const [isUserModalOpen, setUserModalOpen] = useState(false)
   const [isGroupModalOpen, setGroupModalOpen] = useState(false)
   const [isHostModalOpen, setHostModalOpen] = useState(false)
@@ -343,4 +344,10 @@ const Dashboard = () => {
   )
 }
 
+const Dashboard = () => {
+  const { admin } = useAdmin()
+  if (admin && isResellerAdmin(admin)) return <ResellerDashboard admin={admin} />
+  return <OperatorDashboard />
+}
+
 export default Dashboard
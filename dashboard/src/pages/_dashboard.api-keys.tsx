@@ -26,6 +26,7 @@ import {
   type ApiKeyAdvanceSearchFormValue,
 } from '@/features/api-keys/forms/api-key-advance-search-form'
 import ApiKeyAdvanceSearchModal from '@/features/api-keys/dialogs/api-key-advance-search-modal'
+import ApiKeyConsoleDialog from '@/features/api-keys/dialogs/api-key-console-dialog'
 import { ApiKeyDeleteDialog, ApiKeyRevokeDialog, ApiKeySecretDialog } from '@/features/api-keys/dialogs/api-key-action-dialogs'
 import { usePersistedViewMode } from '@/hooks/use-persisted-view-mode'
 import { useAdmin } from '@/hooks/use-admin'
@@ -44,6 +45,7 @@ export default function ApiKeysPage() {
   
   const [keyToDelete, setKeyToDelete] = useState<APIKeyResponse | null>(null)
   const [keyToRevoke, setKeyToRevoke] = useState<APIKeyResponse | null>(null)
+  const [consoleKey, setConsoleKey] = useState<APIKeyResponse | null>(null)
   const [newReissuedKey, setNewReissuedKey] = useState<string | null>(null)
   const [copied, setCopied] = useState(false)
   const [selectedApiKeyIds, setSelectedApiKeyIds] = useState<number[]>([])
@@ -254,6 +256,7 @@ export default function ApiKeysPage() {
               onEdit={handleEdit}
               onDelete={setKeyToDelete}
               onRevoke={setKeyToRevoke}
+              onOpenConsole={setConsoleKey}
               isCardView={viewMode === 'grid'}
               apiKeys={apiKeys}
               isLoading={isCurrentlyLoading}
@@ -308,6 +311,13 @@ export default function ApiKeysPage() {
         onSubmit={handleAdvanceSearchSubmit}
       />
 
+      <ApiKeyConsoleDialog
+        apiKey={consoleKey}
+        onOpenChange={open => {
+          if (!open) setConsoleKey(null)
+        }}
+      />
+
       <ApiKeyDeleteDialog
         apiKey={keyToDelete}
         onOpenChange={open => {
@@ -0,0 +1,90 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useGetGroupsSimple } from '@/service/api'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { OperationHistoryItem } from '@/features/bulk/components/operation-history-item'
+import { useBulkOperationHistory } from '@/features/bulk/hooks/use-bulk-operation-history'
+import type { BulkOperationRecord } from '@/utils/bulkOperationHistory'
+import { History, Trash2 } from 'lucide-react'
+
+export default function BulkHistoryPage() {
+  const { t } = useTranslation()
+  const { records, undoOperation, clearHistory } = useBulkOperationHistory()
+  const [pendingUndo, setPendingUndo] = useState<BulkOperationRecord | null>(null)
+  const [undoingId, setUndoingId] = useState<string | null>(null)
+  const [isClearOpen, setIsClearOpen] = useState(false)
+
+  const { data: groupsData } = useGetGroupsSimple({ all: true })
+  const groupNames = useMemo(() => new Map((groupsData?.groups ?? []).map(group => [group.id, group.name])), [groupsData])
+
+  const handleUndo = async () => {
+    if (!pendingUndo) return
+    const id = pendingUndo.id
+    setPendingUndo(null)
+    setUndoingId(id)
+    try {
+      await undoOperation(id)
+    } finally {
+      setUndoingId(null)
+    }
+  }
+
+  return (
+    <div className="flex w-full flex-col gap-4">
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0 pb-3">
+          <div className="flex flex-col gap-1.5">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <History className="h-4 w-4" />
+              {t('bulkHistory.title')}
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">{t('bulkHistory.description')}</CardDescription>
+          </div>
+          {records.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setIsClearOpen(true)} disabled={undoingId !== null}>
+              <Trash2 className="h-4 w-4" />
+              {t('bulkHistory.clear')}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2">
+          {records.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center text-sm">{t('bulkHistory.empty')}</div>
+          ) : (
+            records.map(record => <OperationHistoryItem key={record.id} record={record} groupNames={groupNames} isUndoing={undoingId === record.id} onUndo={setPendingUndo} />)
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={pendingUndo !== null} onOpenChange={open => !open && setPendingUndo(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('bulkHistory.undoTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingUndo && t('bulkHistory.undoPrompt', { operation: t(`bulkHistory.kinds.${pendingUndo.kind}`), count: pendingUndo.affected })}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('cancel', { defaultValue: 'Cancel' })}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => void handleUndo()}>{t('bulkHistory.undo')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={isClearOpen} onOpenChange={setIsClearOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('bulkHistory.clearTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('bulkHistory.clearPrompt')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('cancel', { defaultValue: 'Cancel' })}</AlertDialogCancel>
+            <AlertDialogAction onClick={clearHistory}>{t('bulkHistory.clear')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,394 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { useQueryClient } from '@tanstack/react-query'
+import { createUser, modifyUserById, useGetGroupsSimple } from '@/service/api'
+import type { ErrorType } from '@/service/http'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ApplySection } from '@/features/bulk/components/apply-section'
+import { ImportGroupMapping } from '@/features/bulk/components/import-group-mapping'
+import { ImportMapping } from '@/features/bulk/components/import-mapping'
+import { ImportPreview } from '@/features/bulk/components/import-preview'
+import { ImportProgress } from '@/features/bulk/components/import-progress'
+import { SelectorPanel } from '@/features/bulk/components/selector-panel'
+import { useAdmin } from '@/hooks/use-admin'
+import { cn } from '@/lib/utils'
+import { buildCsv } from '@/utils/csv'
+import { downloadBlob } from '@/utils/subscription-config'
+import { invalidateUserMetricsQueries } from '@/utils/usersCache'
+import {
+  buildUsersImportFailureRows,
+  buildUsersImportRows,
+  createUsersImportJob,
+  describeUsersImportError,
+  fetchExistingUsernames,
+  getUnresolvedGroupLabels,
+  getUsersImportJob,
+  guessUsersImportMapping,
+  setUsersImportJob,
+  USERS_IMPORT_MAX_FILE_SIZE,
+  type UsersImportIssue,
+  type UsersImportJob,
+  type UsersImportMapping,
+  type UsersImportSource,
+} from '@/utils/usersImport'
+import { readUsersImportFile } from '@/utils/usersImportPanels'
+import { AlertTriangle, FileSpreadsheet, FileUp, Gauge, Group, Upload, Users } from 'lucide-react'
+
+const DEFAULT_BATCH_SIZE = 10
+const DEFAULT_BATCH_DELAY_MS = 1000
+/** Upper bound for the back-off applied when the API answers 429. */
+const MAX_BATCH_DELAY_MS = 30_000
+
+const SAMPLE_CSV_ROWS = [
+  ['username', 'data_limit', 'expire_days', 'groups', 'note', 'vless_id'],
+  ['alice', '50', '30', 'Default', 'Migrated from old panel', ''],
+  ['bob', '500MB', '', 'Default;Premium', '', '5f1c7c0e-0d7a-4b8f-9a6e-2f3b1c9d8e7a'],
+]
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/** The user was created but disabling it failed, so the row must not be retried. */
+class DisableAfterCreateError extends Error {
+  constructor(readonly cause: unknown) {
+    super('Failed to disable the created user')
+    this.name = 'DisableAfterCreateError'
+  }
+}
+
+const isRateLimitError = (reason: unknown) => (reason as ErrorType<unknown> | undefined)?.status === 429
+
+export default function BulkImportUsersPage() {
+  const { t } = useTranslation()
+  const { admin } = useAdmin()
+  const queryClient = useQueryClient()
+  const adminUsername = admin?.username
+
+  const [source, setSource] = useState<UsersImportSource | null>(null)
+  const [mapping, setMapping] = useState<UsersImportMapping>({})
+  const [groupAliases, setGroupAliases] = useState<Record<string, number | null>>({})
+  const [defaultGroupIds, setDefaultGroupIds] = useState<number[]>([])
+  const [groupSearch, setGroupSearch] = useState('')
+  const [existingUsernames, setExistingUsernames] = useState<Set<string> | null>(null)
+  const [batchSize, setBatchSize] = useState(String(DEFAULT_BATCH_SIZE))
+  const [batchDelay, setBatchDelay] = useState(String(DEFAULT_BATCH_DELAY_MS / 1000))
+  const [isDragging, setIsDragging] = useState(false)
+  const [job, setJob] = useState<UsersImportJob | null>(() => getUsersImportJob(adminUsername))
+  const [isRunning, setIsRunning] = useState(false)
+  const runningRef = useRef(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const { data: groupsData, isLoading: groupsLoading } = useGetGroupsSimple({ all: true })
+  const groups = useMemo(() => groupsData?.groups ?? [], [groupsData])
+  const groupNames = useMemo(() => new Map(groups.map(group => [group.id, group.name])), [groups])
+
+  useEffect(() => {
+    setJob(current => current ?? getUsersImportJob(adminUsername))
+  }, [adminUsername])
+
+  // Stop scheduling batches when leaving the page; the stored job can be resumed later
+  useEffect(
+    () => () => {
+      runningRef.current = false
+    },
+    [],
+  )
+
+  const usernameHeader = mapping.username
+  useEffect(() => {
+    setExistingUsernames(null)
+    if (!source || !usernameHeader) return
+    const abortController = new AbortController()
+    fetchExistingUsernames(
+      source.records.map(record => (record[usernameHeader] ?? '').trim()),
+      abortController.signal,
+    )
+      .then(setExistingUsernames)
+      .catch(error => {
+        if (abortController.signal.aborted) return
+        setExistingUsernames(new Set())
+        toast.error(t('usersImport.checkExistingFailed'), { description: describeUsersImportError(error) })
+      })
+    return () => abortController.abort()
+  }, [source, usernameHeader, t])
+
+  const rows = useMemo(
+    () => (source ? buildUsersImportRows(source, mapping, { groups, defaultGroupIds, groupAliases, existingUsernames: existingUsernames ?? new Set() }) : []),
+    [source, mapping, groups, defaultGroupIds, groupAliases, existingUsernames],
+  )
+  const unresolvedGroupLabels = useMemo(() => (source ? getUnresolvedGroupLabels(source, mapping, groups) : []), [source, mapping, groups])
+  const validCount = rows.filter(row => row.payload).length
+  const parsedBatchSize = Math.min(Math.max(parseInt(batchSize) || DEFAULT_BATCH_SIZE, 1), 50)
+  const parsedDelayMs = Math.min(Math.max(Math.round((parseFloat(batchDelay) || 0) * 1000), 0), MAX_BATCH_DELAY_MS)
+
+  const loadFile = async (file: File) => {
+    if (file.size > USERS_IMPORT_MAX_FILE_SIZE) {
+      toast.error(t('usersImport.errors.fileTooLarge', { size: USERS_IMPORT_MAX_FILE_SIZE / 1024 / 1024 }))
+      return
+    }
+    try {
+      const parsed = await readUsersImportFile(file)
+      setSource(parsed)
+      setMapping(guessUsersImportMapping(parsed.headers))
+      setGroupAliases({})
+    } catch (error: unknown) {
+      toast.error(t('usersImport.parseFailed'), { description: t(error instanceof Error ? error.message : 'usersImport.errors.invalidJson') })
+    }
+  }
+
+  const persistJob = useCallback(
+    (next: UsersImportJob | null) => {
+      setJob(next)
+      if (!setUsersImportJob(adminUsername, next) && next) {
+        toast.warning(t('usersImport.notResumable'), { id: 'users-import-storage' })
+      }
+    },
+    [adminUsername, t],
+  )
+
+  const runJob = useCallback(
+    async (startJob: UsersImportJob) => {
+      runningRef.current = true
+      setIsRunning(true)
+      let current = startJob
+      let delayMs = startJob.delayMs
+
+      while (runningRef.current) {
+        const batch = current.rows.filter(row => row.status === 'pending' && row.payload).slice(0, current.batchSize)
+        if (batch.length === 0) break
+
+        const results = await Promise.allSettled(
+          batch.map(async row => {
+            const created = await createUser(row.payload!)
+            if (!row.disable) return
+            // The user already exists at this point, so a failed status update must not be retried as a create
+            try {
+              await modifyUserById(created.id, { status: 'disabled' })
+            } catch (error) {
+              throw new DisableAfterCreateError(error)
+            }
+          }),
+        )
+        const rateLimited = results.some(result => result.status === 'rejected' && isRateLimitError(result.reason))
+        const resultByIndex = new Map(batch.map((row, index) => [row.index, results[index]]))
+        current = {
+          ...current,
+          rows: current.rows.map(row => {
+            const result = resultByIndex.get(row.index)
+            if (!result) return row
+            if (result.status === 'fulfilled') return { ...row, status: 'created', error: undefined }
+            if (result.reason instanceof DisableAfterCreateError) {
+              return { ...row, status: 'failed', payload: null, error: t('usersImport.errors.disableFailed', { error: describeUsersImportError(result.reason.cause) }) }
+            }
+            // Throttled rows stay pending and are retried after a longer pause
+            if (isRateLimitError(result.reason)) return row
+            return { ...row, status: 'failed', error: describeUsersImportError(result.reason) }
+          }),
+        }
+        persistJob(current)
+
+        delayMs = rateLimited ? Math.min(Math.max(delayMs * 2, 1000), MAX_BATCH_DELAY_MS) : current.delayMs
+        if (runningRef.current && current.rows.some(row => row.status === 'pending')) await wait(delayMs)
+      }
+
+      runningRef.current = false
+      setIsRunning(false)
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] })
+      invalidateUserMetricsQueries(queryClient)
+
+      if (!current.rows.some(row => row.status === 'pending')) {
+        const created = current.rows.filter(row => row.status === 'created').length
+        const failed = current.rows.filter(row => row.status === 'failed').length
+        if (failed > 0) toast.warning(t('usersImport.finishedWithFailures', { created, failed }))
+        else toast.success(t('usersImport.finished', { count: created }))
+      }
+    },
+    [persistJob, queryClient, t],
+  )
+
+  const handleStart = () => {
+    if (!source || validCount === 0) return
+    const describeIssue = (issue: UsersImportIssue) => t(issue.key, issue.params)
+    const next = createUsersImportJob(source, rows, { batchSize: parsedBatchSize, delayMs: parsedDelayMs }, describeIssue)
+    persistJob(next)
+    setSource(null)
+    void runJob(next)
+  }
+
+  const handleRetryFailed = () => {
+    if (!job) return
+    const next: UsersImportJob = { ...job, rows: job.rows.map(row => (row.status === 'failed' && row.payload ? { ...row, status: 'pending', error: undefined } : row)) }
+    persistJob(next)
+    void runJob(next)
+  }
+
+  const handleDownloadFailures = () => {
+    if (!job) return
+    const baseName = job.fileName.replace(/\.[^.]+$/, '')
+    downloadBlob(buildCsv(buildUsersImportFailureRows(job)), `${baseName}-failed.csv`)
+  }
+
+  const handleDiscard = () => {
+    runningRef.current = false
+    persistJob(null)
+  }
+
+  if (job) {
+    return (
+      <div className="w-full">
+        <ImportProgress
+          job={job}
+          isRunning={isRunning}
+          onPause={() => {
+            runningRef.current = false
+          }}
+          onResume={() => void runJob(job)}
+          onRetryFailed={handleRetryFailed}
+          onDownloadFailures={handleDownloadFailures}
+          onDiscard={handleDiscard}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex w-full flex-col gap-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <FileUp className="h-4 w-4" />
+            {t('usersImport.uploadTitle')}
+          </CardTitle>
+          <CardDescription className="text-xs sm:text-sm">{t('usersImport.uploadDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={event => {
+              event.preventDefault()
+              setIsDragging(true)
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={event => {
+              event.preventDefault()
+              setIsDragging(false)
+              const file = event.dataTransfer.files?.[0]
+              if (file) void loadFile(file)
+            }}
+            className={cn(
+              'hover:border-primary/60 hover:bg-muted/40 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed px-4 py-8 text-center transition-colors',
+              isDragging && 'border-primary bg-primary/5',
+            )}
+          >
+            <FileSpreadsheet className="text-muted-foreground h-8 w-8" />
+            <span className="text-sm font-medium" dir={source ? 'ltr' : undefined}>
+              {source ? source.fileName : t('usersImport.dropFile')}
+            </span>
+            <span className="text-muted-foreground text-xs">{source ? t('usersImport.recordsFound', { count: source.records.length }) : t('usersImport.supportedFormats')}</span>
+            {source?.panel && (
+              <Badge variant="secondary" className="text-xs">
+                {t('usersImport.detectedPanel', { panel: t(`usersImport.panels.${source.panel}`) })}
+              </Badge>
+            )}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,.txt,.db,.sqlite,.sqlite3,text/csv,application/json"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0]
+              if (file) void loadFile(file)
+              event.target.value = ''
+            }}
+          />
+          <Button variant="link" size="sm" className="h-auto self-start p-0 text-xs" onClick={() => downloadBlob(buildCsv(SAMPLE_CSV_ROWS), 'users-import-sample.csv')}>
+            {t('usersImport.downloadSample')}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {source && (
+        <>
+          <ImportMapping headers={source.headers} mapping={mapping} onMappingChange={setMapping} />
+
+          <ImportGroupMapping labels={unresolvedGroupLabels} groups={groups} aliases={groupAliases} onAliasesChange={setGroupAliases} />
+
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+            <SelectorPanel
+              icon={Group}
+              title={t('usersImport.defaultGroups')}
+              description={t('usersImport.defaultGroupsDescription')}
+              items={groups.filter(group => group.name.toLowerCase().includes(groupSearch.trim().toLowerCase()))}
+              selected={defaultGroupIds}
+              setSelected={setDefaultGroupIds}
+              search={groupSearch}
+              setSearch={setGroupSearch}
+              searchPlaceholder={t('bulk.searchGroups', { defaultValue: 'Search groups...' })}
+              selectAllLabel={t('selectAll', { defaultValue: 'Select All' })}
+              deselectAllLabel={t('deselectAll', { defaultValue: 'Deselect All' })}
+              itemLabelKey="name"
+              itemValueKey="id"
+              searchKey="name"
+              t={t}
+              isLoading={groupsLoading}
+            />
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Gauge className="h-4 w-4" />
+                  {t('usersImport.throttleTitle')}
+                </CardTitle>
+                <CardDescription className="text-xs sm:text-sm">{t('usersImport.throttleDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-3">
+                <div className="flex flex-col gap-1.5">
+                  <Label htmlFor="import-batch-size" className="text-xs">
+                    {t('usersImport.batchSize')}
+                  </Label>
+                  <Input id="import-batch-size" type="number" min={1} max={50} value={batchSize} onChange={event => setBatchSize(event.target.value)} />
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <Label htmlFor="import-batch-delay" className="text-xs">
+                    {t('usersImport.batchDelay')}
+                  </Label>
+                  <Input id="import-batch-delay" type="number" min={0} max={30} step={0.5} value={batchDelay} onChange={event => setBatchDelay(event.target.value)} />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {!mapping.username ? (
+            <div className="text-destructive flex items-center gap-2 text-sm">
+              <AlertTriangle className="h-4 w-4" />
+              {t('usersImport.usernameNotMapped')}
+            </div>
+          ) : (
+            <ImportPreview rows={rows} groupNames={groupNames} isChecking={existingUsernames === null} />
+          )}
+
+          <ApplySection
+            title={t('usersImport.startTitle')}
+            description={t('usersImport.startDescription')}
+            badges={[
+              { icon: Users, label: t('usersImport.validRows', { count: validCount }) },
+              { icon: AlertTriangle, label: t('usersImport.skippedRows', { count: rows.length - validCount }) },
+              { icon: Gauge, label: t('usersImport.batchInfo', { size: parsedBatchSize, delay: parsedDelayMs / 1000 }) },
+            ]}
+            buttonLabel={t('usersImport.start', { count: validCount })}
+            buttonIcon={Upload}
+            onApply={handleStart}
+            disabled={!mapping.username || existingUsernames === null || validCount === 0}
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -2,7 +2,7 @@ import PageHeader from '@/components/layout/page-header'
 import { useAdmin } from '@/hooks/use-admin'
 import PageTransition from '@/components/layout/page-transition'
 import { getDocsUrl } from '@/utils/docs-url'
-import { ArrowUpDown, Calendar, Lock, Group, UserPlus } from 'lucide-react'
+import { ArrowUpDown, Calendar, FileUp, History, Lock, Group, UserPlus } from 'lucide-react'
 import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Outlet, useLocation, useNavigate } from 'react-router'
@@ -10,10 +10,12 @@ import { canReadResourcePage, hasPermission, hasScopeAll } from '@/utils/rbac'
 
 const allTabs = [
   { id: 'create', label: 'bulk.createUsers', icon: UserPlus, url: '/bulk' },
+  { id: 'import', label: 'bulk.importUsers', icon: FileUp, url: '/bulk/import' },
   { id: 'groups', label: 'bulk.groups', icon: Group, url: '/bulk/groups' },
   { id: 'expire', label: 'bulk.expireDate', icon: Calendar, url: '/bulk/expire' },
   { id: 'data', label: 'bulk.dataLimit', icon: ArrowUpDown, url: '/bulk/data' },
   { id: 'proxy', label: 'bulk.proxySettings', icon: Lock, url: '/bulk/proxy' },
+  { id: 'history', label: 'bulkHistory.title', icon: History, url: '/bulk/history' },
 ]
 
 const BulkPage = () => {
@@ -22,7 +24,8 @@ const BulkPage = () => {
   const canCreateUsers = hasPermission(admin, 'users', 'create')
   const canReadUserTemplates = canReadResourcePage(admin, 'templates')
   const canBulkUpdate = hasScopeAll(admin, 'users', 'update')
-  const tabs = allTabs.filter(tab => (tab.id === 'create' ? canCreateUsers && canReadUserTemplates : canBulkUpdate))
+  const canViewHistory = hasPermission(admin, 'users', 'update') || hasPermission(admin, 'users', 'delete')
+  const tabs = allTabs.filter(tab => (tab.id === 'create' ? canCreateUsers && canReadUserTemplates : tab.id === 'import' ? canCreateUsers : tab.id === 'history' ? canViewHistory : canBulkUpdate))
   const navigate = useNavigate()
   const location = useLocation()
   const [activeTab, setActiveTab] = useState(allTabs[0].id)
@@ -54,10 +57,12 @@ const BulkPage = () => {
     const pathToHeader: Record<string, { title: string; description: string }> = {
       '/bulk': { title: 'bulk.createUsers', description: 'bulk.createUsersDesc' },
       '/bulk/create': { title: 'bulk.createUsers', description: 'bulk.createUsersDesc' },
+      '/bulk/import': { title: 'bulk.importUsers', description: 'bulk.importUsersDesc' },
       '/bulk/groups': { title: 'bulk.groups', description: 'bulk.groupsDesc' },
       '/bulk/expire': { title: 'bulk.expireDate', description: 'bulk.expireDateDesc' },
       '/bulk/data': { title: 'bulk.dataLimit', description: 'bulk.dataLimitDesc' },
       '/bulk/proxy': { title: 'bulk.proxySettings', description: 'bulk.proxySettingsDesc' },
+      '/bulk/history': { title: 'bulkHistory.title', description: 'bulkHistory.pageDescription' },
     }
 
     const header = pathToHeader[location.pathname] || pathToHeader['/bulk']
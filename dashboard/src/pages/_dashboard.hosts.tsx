@@ -1,8 +1,8 @@
 import MainSection from '@/features/hosts/components/hosts-list'
-import { type HostFormValues } from '@/features/hosts/forms/host-form'
+import { type HostFormValues, hostFormValuesToCreateHost } from '@/features/hosts/forms/host-form'
 import PageHeader from '@/components/layout/page-header'
 import { Separator } from '@/components/ui/separator'
-import { BaseHost, createHost, CreateHost, getHosts, modifyHost, MultiplexProtocol, ProxyHostALPN, ProxyHostFingerprint, Xudp } from '@/service/api'
+import { BaseHost, createHost, getHosts, modifyHost } from '@/service/api'
 import { useAdmin } from '@/hooks/use-admin'
 import { hasPermission } from '@/utils/rbac'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
@@ -52,13 +52,6 @@ export default function HostsPage() {
         return { status: 403 }
       }
 
-      // Check if all protocols are set to none
-      const allProtocolsNone =
-        formData.mux_settings &&
-        (!formData.mux_settings.sing_box?.protocol || formData.mux_settings.sing_box.protocol === 'none') &&
-        (!formData.mux_settings.clash?.protocol || formData.mux_settings.clash.protocol === 'none') &&
-        !formData.mux_settings.xray?.concurrency
-
       // If creating a new host, set priority to max+1 (or 0 if no hosts exist yet)
       let priority = formData.priority
       if (!editingHost?.id) {
@@ -66,109 +59,7 @@ export default function HostsPage() {
         priority = maxPriority + 1
       }
 
-      // Convert HostFormValues to CreateHost type
-      const hostData: CreateHost = {
-        ...formData,
-        priority,
-        alpn: formData.alpn as ProxyHostALPN[] | undefined,
-        fingerprint: formData.fingerprint as ProxyHostFingerprint | undefined,
-        ech_config_list: formData.ech_config_list || undefined,
-        ech_query_strategy: formData.ech_query_strategy || undefined,
-        pinned_peer_cert_sha256: formData.pinned_peer_cert_sha256 || undefined,
-        verify_peer_cert_by_name: formData.verify_peer_cert_by_name && formData.verify_peer_cert_by_name.length > 0 ? formData.verify_peer_cert_by_name : undefined,
-        vless_route: formData.vless_route || undefined,
-        transport_settings: formData.transport_settings
-          ? {
-              ...formData.transport_settings,
-              xhttp_settings: formData.transport_settings.xhttp_settings
-                ? {
-                    ...formData.transport_settings.xhttp_settings,
-                    xmux: formData.transport_settings.xhttp_settings.xmux
-                      ? {
-                          ...formData.transport_settings.xhttp_settings.xmux,
-                          h_keep_alive_period: formData.transport_settings.xhttp_settings.xmux.h_keep_alive_period || undefined,
-                        }
-                      : undefined,
-                  }
-                : undefined,
-            }
-          : undefined,
-        mux_settings: allProtocolsNone
-          ? undefined
-          : formData.mux_settings
-            ? {
-                ...formData.mux_settings,
-                sing_box: formData.mux_settings.sing_box
-                  ? {
-                      enable: formData.mux_settings.sing_box.enable || false,
-                      protocol: formData.mux_settings.sing_box.protocol === 'none' ? undefined : (formData.mux_settings.sing_box.protocol as MultiplexProtocol),
-                      max_connections: formData.mux_settings.sing_box.max_connections || undefined,
-                      max_streams: formData.mux_settings.sing_box.max_streams || undefined,
-                      min_streams: formData.mux_settings.sing_box.min_streams || undefined,
-                      padding: formData.mux_settings.sing_box.padding || undefined,
-                      brutal: formData.mux_settings.sing_box.brutal || undefined,
-                    }
-                  : undefined,
-                clash: formData.mux_settings.clash
-                  ? {
-                      enable: formData.mux_settings.clash.enable || false,
-                      protocol: formData.mux_settings.clash.protocol === 'none' ? undefined : (formData.mux_settings.clash.protocol as MultiplexProtocol),
-                      max_connections: formData.mux_settings.clash.max_connections || undefined,
-                      max_streams: formData.mux_settings.clash.max_streams || undefined,
-                      min_streams: formData.mux_settings.clash.min_streams || undefined,
-                      padding: formData.mux_settings.clash.padding || undefined,
-                      brutal: formData.mux_settings.clash.brutal || undefined,
-                      statistic: formData.mux_settings.clash.statistic || undefined,
-                      only_tcp: formData.mux_settings.clash.only_tcp || undefined,
-                    }
-                  : undefined,
-                xray: formData.mux_settings.xray
-                  ? {
-                      enabled: formData.mux_settings.xray.enabled || false,
-                      concurrency: formData.mux_settings.xray.concurrency || undefined,
-                      xudp_concurrency: formData.mux_settings.xray.xudp_concurrency || undefined,
-                      xudp_proxy_udp_443: formData.mux_settings.xray.xudp_proxy_443 === 'none' ? undefined : (formData.mux_settings.xray.xudp_proxy_443 as Xudp),
-                    }
-                  : undefined,
-              }
-            : undefined,
-        fragment_settings: (() => {
-          const xraySettings = formData.fragment_settings?.xray
-            ? {
-                packets: formData.fragment_settings.xray.packets || '',
-                length: formData.fragment_settings.xray.length || '',
-                interval: formData.fragment_settings.xray.interval || '',
-              }
-            : undefined
-
-          const singboxSettings = formData.fragment_settings?.sing_box?.fragment
-            ? {
-                fragment: formData.fragment_settings.sing_box.fragment,
-                fragment_fallback_delay: formData.fragment_settings.sing_box.fragment_fallback_delay || undefined,
-                record_fragment: formData.fragment_settings.sing_box.record_fragment || undefined,
-              }
-            : undefined
-
-          if (xraySettings || singboxSettings) {
-            return {
-              xray: xraySettings,
-              sing_box: singboxSettings,
-            }
-          }
-          return undefined
-        })(),
-        noise_settings: formData.noise_settings?.xray
-          ? {
-              xray: formData.noise_settings.xray.map(noise => ({
-                type: noise.type,
-                packet: noise.packet,
-                delay: noise.delay,
-                apply_to: noise.apply_to,
-                rand_range: noise.rand_range || undefined,
-              })),
-            }
-          : undefined,
-      }
+      const hostData = hostFormValuesToCreateHost(formData, priority)
 
       if (editingHost?.id) {
         // This is an edit operation
@@ -1,23 +1,42 @@
-import { Download as DownloadIcon, Loader2, Pause, Play } from 'lucide-react'
-import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { CaseSensitive, Download as DownloadIcon, Loader2, Pause, Play, Regex, Trash2 } from 'lucide-react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Card, CardContent } from '@/components/ui/card'
 import { useGetNodesSimple } from '@/service/api'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Label } from '@/components/ui/label'
-import { getAuthToken } from '@/utils/authStorage'
+import { Switch } from '@/components/ui/switch'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Toggle } from '@/components/ui/toggle'
 import { Alert, AlertDescription } from '@/components/ui/alert'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import useDirDetection from '@/hooks/use-dir-detection'
 import { cn } from '@/lib/utils'
 import { TerminalLine } from '@/features/nodes/components/terminal-line'
 import { LineCountFilter } from '@/features/nodes/components/line-count-filter'
 import { SinceLogsFilter, type TimeFilter } from '@/features/nodes/components/since-logs-filter'
 import { StatusLogsFilter } from '@/features/nodes/components/status-logs-filter'
-
-/** Max raw SSE chunks kept in memory; display "lines" is sliced client-side (no reconnect). */
-const RAW_LOG_BUFFER_MAX = 10000
+import { AccessLogFilterPopover } from '@/features/nodes/components/access-log-filter'
+import { VirtualLogList } from '@/features/nodes/components/virtual-log-list'
+import { NodeLanesFilter } from '@/features/nodes/components/node-lanes-filter'
+import { useNodeLogStream } from '@/features/nodes/hooks/use-node-log-stream'
+import { downloadTextFile } from '@/utils/subscription-config'
+import {
+  ACCESS_LOG_FIELDS,
+  buildLogSearchPattern,
+  buildNodeLogLanes,
+  EMPTY_ACCESS_LOG_FILTER,
+  formatLogsAsNdjson,
+  formatLogsAsText,
+  matchesAccessLogFilter,
+  type AccessLogFilter,
+  type AccessLogFilterKey,
+  type LogLine,
+} from '@/utils/logsUtils'
+
+/** Row height of the virtualized log list; rows are single-line and truncated. */
+const LOG_ROW_HEIGHT = 26
 
 const SINCE_DURATION_MS: Record<Exclude<TimeFilter, 'all'>, number> = {
   '1m': 60 * 1000,
@@ -30,8 +49,6 @@ const SINCE_DURATION_MS: Record<Exclude<TimeFilter, 'all'>, number> = {
   '12h': 12 * 60 * 60 * 1000,
   '24h': 24 * 60 * 60 * 1000,
 }
-import { parseLogs, type LogLine } from '@/utils/logsUtils'
-import { EventSource } from 'eventsource'
 
 export const priorities = [
   {
@@ -52,31 +69,40 @@ export const priorities = [
   },
 ]
 
+type LogExportFormat = 'text' | 'ndjson'
+
 export default function NodeLogs() {
   const { t } = useTranslation()
   const dir = useDirDetection()
   const [selectedNode, setSelectedNode] = useState<number>(0)
-  const [rawLogs, setRawLogs] = React.useState<string[]>([])
+  const [mergeMode, setMergeMode] = useState(false)
+  const [mergedNodeIds, setMergedNodeIds] = useState<number[]>([])
   const [autoScroll, setAutoScroll] = React.useState(true)
   const [lines, setLines] = React.useState<number>(1000)
   const [search, setSearch] = React.useState<string>('')
+  const [useRegex, setUseRegex] = React.useState(false)
+  const [caseSensitive, setCaseSensitive] = React.useState(false)
   const [showTimestamp, setShowTimestamp] = React.useState(true)
   const [since, setSince] = React.useState<TimeFilter>('all')
   const [typeFilter, setTypeFilter] = React.useState<string[]>([])
-  const [isPaused, setIsPaused] = React.useState(false)
-  const [messageBuffer, setMessageBuffer] = React.useState<string[]>([])
-  const isPausedRef = useRef(false)
-  const scrollRef = useRef<HTMLDivElement>(null)
-  const [isLoading, setIsLoading] = React.useState(false)
-
-  const eventSourceRef = useRef<EventSource | null>(null)
+  const [accessFilter, setAccessFilter] = React.useState<AccessLogFilter>(EMPTY_ACCESS_LOG_FILTER)
+  const [showAccessColumns, setShowAccessColumns] = React.useState(false)
+  const [selectedLog, setSelectedLog] = React.useState<LogLine | null>(null)
 
   const { data: nodesResponse } = useGetNodesSimple({ all: true })
-  const nodes = nodesResponse?.nodes || []
+  const nodes = useMemo(() => nodesResponse?.nodes || [], [nodesResponse])
 
   // Filter to only show connected nodes
   const connectedNodes = useMemo(() => nodes.filter(node => node.status === 'connected'), [nodes])
 
+  // Lanes cover every node (not only connected ones) so colors and names survive a disconnect
+  const lanes = useMemo(() => buildNodeLogLanes(nodes), [nodes])
+  const laneById = useMemo(() => new Map(lanes.map(lane => [lane.id, lane])), [lanes])
+  const connectedLanes = useMemo(() => lanes.filter(lane => connectedNodes.some(node => node.id === lane.id)), [lanes, connectedNodes])
+
+  const streamNodeIds = mergeMode ? mergedNodeIds.filter(id => connectedNodes.some(node => node.id === id)) : [selectedNode]
+  const { logs, pendingCount, isPaused, setPaused, isLoading, clear } = useNodeLogStream(streamNodeIds)
+
   // Auto-select first connected node if available and none is selected
   useEffect(() => {
     if (connectedNodes.length > 0 && selectedNode === 0) {
@@ -85,22 +111,9 @@ export default function NodeLogs() {
     // Reset selection if selected node is no longer connected
     if (selectedNode !== 0 && !connectedNodes.find(node => node.id === selectedNode)) {
       setSelectedNode(0)
+      if (!mergeMode) clear()
     }
-  }, [connectedNodes, selectedNode])
-
-  const scrollToBottom = () => {
-    if (autoScroll && scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
-    }
-  }
-
-  const handleScroll = () => {
-    if (!scrollRef.current) return
-
-    const { scrollTop, scrollHeight, clientHeight } = scrollRef.current
-    const isAtBottom = Math.abs(scrollHeight - scrollTop - clientHeight) < 10
-    setAutoScroll(isAtBottom)
-  }
+  }, [connectedNodes, selectedNode, mergeMode, clear])
 
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearch(e.target.value || '')
@@ -115,194 +128,115 @@ export default function NodeLogs() {
   }
 
   const handlePauseResume = () => {
-    if (isPaused) {
-      // Resume: Apply all buffered messages
-      if (messageBuffer.length > 0) {
-        setRawLogs(prev => {
-          const combined = [...prev, ...messageBuffer]
-          return combined.slice(-RAW_LOG_BUFFER_MAX)
-        })
-        setMessageBuffer([])
-      }
-    }
-    const newPausedState = !isPaused
-    setIsPaused(newPausedState)
-    isPausedRef.current = newPausedState
+    setPaused(!isPaused)
   }
 
   // Handle node selection change
   const handleNodeChange = (nodeId: number) => {
     setSelectedNode(nodeId)
-    setRawLogs([])
-    setMessageBuffer([])
-    setIsPaused(false)
-    isPausedRef.current = false
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close()
-      eventSourceRef.current = null
-    }
+    clear()
+    setSelectedLog(null)
   }
 
-  useEffect(() => {
-    if (selectedNode === 0) {
-      setIsLoading(false)
-      return
-    }
-
-    let isCurrentConnection = true
-    let noDataTimeout: NodeJS.Timeout
-    setIsLoading(true)
-    setRawLogs([])
-    setMessageBuffer([])
-    // Reset pause state when container changes
-    setIsPaused(false)
-    isPausedRef.current = false
-
-    const baseUrl =
-      import.meta.env.VITE_BASE_API && typeof import.meta.env.VITE_BASE_API === 'string' && import.meta.env.VITE_BASE_API.trim() !== '/' && import.meta.env.VITE_BASE_API.startsWith('http')
-        ? import.meta.env.VITE_BASE_API
-        : window.location.origin
-    const token = getAuthToken()
-
-    const url = `${baseUrl}/api/node/${selectedNode}/logs`
-    const eventSource = new EventSource(url, {
-      fetch: (input, init) =>
-        fetch(input, {
-          ...init,
-          headers: {
-            ...init?.headers,
-            Authorization: `Bearer ${token}`,
-          },
-        }),
-    })
-
-    eventSourceRef.current = eventSource
-
-    const resetNoDataTimeout = () => {
-      if (noDataTimeout) clearTimeout(noDataTimeout)
-      noDataTimeout = setTimeout(() => {
-        if (isCurrentConnection) {
-          setIsLoading(false)
-        }
-      }, 2000) // Wait 2 seconds for data before showing "No logs found"
-    }
-
-    eventSource.onopen = () => {
-      if (!isCurrentConnection) {
-        eventSource.close()
-        return
-      }
-      resetNoDataTimeout()
-    }
-
-    eventSource.onmessage = e => {
-      if (!isCurrentConnection) return
-
-      if (isPausedRef.current) {
-        // When paused, buffer the messages instead of displaying them
-        setMessageBuffer(prev => [...prev, e.data])
-      } else {
-        // When not paused, display messages normally
-        setRawLogs(prev => {
-          const updated = [...prev, e.data]
-          return updated.slice(-RAW_LOG_BUFFER_MAX)
-        })
-      }
-
-      setIsLoading(false)
-      if (noDataTimeout) clearTimeout(noDataTimeout)
-    }
+  // Merged view starts from every connected node; toggling nodes later keeps the merged buffer
+  const handleMergeModeChange = (enabled: boolean) => {
+    setMergeMode(enabled)
+    setMergedNodeIds(enabled ? connectedNodes.map(node => node.id) : [])
+    clear()
+    setSelectedLog(null)
+  }
 
-    eventSource.onerror = error => {
-      if (!isCurrentConnection) return
-      console.error('SSE error:', error)
-      setIsLoading(false)
-      if (noDataTimeout) clearTimeout(noDataTimeout)
-    }
+  const handleClear = () => {
+    clear()
+    setSelectedLog(null)
+  }
 
-    return () => {
-      isCurrentConnection = false
-      if (noDataTimeout) clearTimeout(noDataTimeout)
-      eventSource.close()
-    }
-  }, [selectedNode])
+  const handleAccessFieldSelect = (key: AccessLogFilterKey, value: string) => {
+    setAccessFilter(prev => ({ ...prev, [key]: value }))
+  }
 
-  // Sync isPausedRef with isPaused state
-  useEffect(() => {
-    isPausedRef.current = isPaused
-  }, [isPaused])
+  const searchPattern = useMemo(() => buildLogSearchPattern({ query: search, regex: useRegex, caseSensitive }), [search, useRegex, caseSensitive])
 
   const filteredLogs = useMemo(() => {
-    const logs = parseLogs(rawLogs.join('\n'))
-
-    const sortedLogs = [...logs].sort((a, b) => {
-      if (!a.timestamp && !b.timestamp) return 0
-      if (!a.timestamp) return 1
-      if (!b.timestamp) return -1
-      return a.timestamp.getTime() - b.timestamp.getTime()
-    })
-
     const cutoffMs = since === 'all' ? null : Date.now() - SINCE_DURATION_MS[since]
 
-    return sortedLogs
-      .filter(log => {
-        if (typeFilter.length > 0 && !typeFilter.includes(log.type)) {
-          return false
-        }
-        if (search && !log.message.toLowerCase().includes(search.toLowerCase())) {
-          return false
-        }
-        if (cutoffMs !== null && log.timestamp && log.timestamp.getTime() < cutoffMs) {
-          return false
-        }
-        return true
-      })
-      .slice(-lines)
-  }, [rawLogs, search, lines, since, typeFilter])
+    const visibleNodeIds = mergeMode ? new Set(mergedNodeIds) : null
 
-  useEffect(() => {
-    scrollToBottom()
+    const matching = logs.filter(log => {
+      if (visibleNodeIds && log.nodeId !== undefined && !visibleNodeIds.has(log.nodeId)) {
+        return false
+      }
+      if (typeFilter.length > 0 && !typeFilter.includes(log.type)) {
+        return false
+      }
+      if (!searchPattern.test(log.message)) {
+        return false
+      }
+      if (cutoffMs !== null && log.timestamp && log.timestamp.getTime() < cutoffMs) {
+        return false
+      }
+      return matchesAccessLogFilter(log.access, accessFilter)
+    })
 
-    if (autoScroll && scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
+    // A single stream already arrives in order; only interleaved lanes need sorting. The sort is
+    // stable, so lines without a timestamp keep their arrival position relative to each other.
+    if (mergeMode && mergedNodeIds.length > 1) {
+      matching.sort((a, b) => {
+        if (!a.timestamp && !b.timestamp) return 0
+        if (!a.timestamp) return 1
+        if (!b.timestamp) return -1
+        return a.timestamp.getTime() - b.timestamp.getTime()
+      })
     }
-  }, [filteredLogs, autoScroll])
+    return matching.slice(-lines)
+  }, [logs, searchPattern, lines, since, typeFilter, accessFilter, mergeMode, mergedNodeIds])
 
-  const handleDownload = () => {
-    const logContent = filteredLogs.map(({ timestamp, message }: { timestamp: Date | null; message: string }) => `${timestamp?.toISOString() || 'No timestamp'} ${message}`).join('\n')
-
-    const blob = new Blob([logContent], { type: 'text/plain' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    const nodeName = nodes.find(n => n.id === selectedNode)?.name || t('nodes.title', { defaultValue: 'Node' })
+  const handleExport = (format: LogExportFormat) => {
+    const getNodeName = mergeMode ? (nodeId: number) => laneById.get(nodeId)?.name : undefined
+    const content = format === 'ndjson' ? formatLogsAsNdjson(filteredLogs, getNodeName) : formatLogsAsText(filteredLogs, getNodeName)
+    const nodeName = mergeMode ? 'merged' : nodes.find(n => n.id === selectedNode)?.name || t('nodes.title', { defaultValue: 'Node' })
     const isoDate = new Date().toISOString()
-    a.href = url
-    a.download = `${nodeName}-${isoDate.slice(0, 10).replace(/-/g, '')}_${isoDate.slice(11, 19).replace(/:/g, '')}.log.txt`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+    const baseName = `${nodeName}-${isoDate.slice(0, 10).replace(/-/g, '')}_${isoDate.slice(11, 19).replace(/:/g, '')}`
+    if (format === 'ndjson') {
+      downloadTextFile(content, `${baseName}.ndjson`, 'application/x-ndjson')
+    } else {
+      downloadTextFile(content, `${baseName}.log.txt`)
+    }
   }
 
+  const iconClassName = cn('h-4 w-4 sm:mr-2', dir === 'rtl' && 'sm:mr-0 sm:ml-2')
+
   return (
     <div className={cn('flex w-full flex-col gap-4 p-4', dir === 'rtl' && 'rtl')}>
       <div className="flex flex-col gap-4">
-        <div className="w-full sm:w-auto">
-          <Label htmlFor="node-select" className="mb-1 block text-sm">
-            {t('nodes.title')}
-          </Label>
-          <Select value={selectedNode.toString()} onValueChange={value => handleNodeChange(Number(value))} disabled={connectedNodes.length === 0}>
-            <SelectTrigger id="node-select" className="h-9 w-full text-sm sm:w-[250px]" disabled={connectedNodes.length === 0}>
-              <SelectValue placeholder={connectedNodes.length === 0 ? t('nodes.noNodes') : t('nodes.selectNode')} />
-            </SelectTrigger>
-            <SelectContent>
-              {connectedNodes.map(node => (
-                <SelectItem key={node.id} value={node.id.toString()} className="text-sm">
-                  {node.name}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+        <div className="flex w-full flex-col gap-2 sm:w-auto sm:flex-row sm:items-end sm:gap-4">
+          <div className="w-full sm:w-auto">
+            <Label htmlFor="node-select" className="mb-1 block text-sm">
+              {t('nodes.title')}
+            </Label>
+            {mergeMode ? (
+              <NodeLanesFilter lanes={connectedLanes} value={mergedNodeIds} onValueChange={setMergedNodeIds} />
+            ) : (
+              <Select value={selectedNode.toString()} onValueChange={value => handleNodeChange(Number(value))} disabled={connectedNodes.length === 0}>
+                <SelectTrigger id="node-select" className="h-9 w-full text-sm sm:w-[250px]" disabled={connectedNodes.length === 0}>
+                  <SelectValue placeholder={connectedNodes.length === 0 ? t('nodes.noNodes') : t('nodes.selectNode')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {connectedNodes.map(node => (
+                    <SelectItem key={node.id} value={node.id.toString()} className="text-sm">
+                      {node.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <div className="flex h-9 items-center gap-2">
+            <Switch id="merge-node-logs" checked={mergeMode} onCheckedChange={handleMergeModeChange} disabled={connectedNodes.length < 2 && !mergeMode} className="scale-75" />
+            <Label htmlFor="merge-node-logs" className="text-muted-foreground text-sm">
+              {t('nodes.logs.mergedView')}
+            </Label>
+          </div>
         </div>
 
         <div className="flex flex-col gap-4">
@@ -314,57 +248,140 @@ export default function NodeLogs() {
 
               <StatusLogsFilter value={typeFilter} setValue={setTypeFilter} title={t('nodes.logs.filter')} options={priorities} />
 
-              <Input
-                type="search"
-                placeholder={t('nodes.logs.search')}
-                value={search}
-                onChange={handleSearch}
-                className="inline-flex h-9 w-full min-w-[200px] text-sm placeholder-gray-400 sm:w-auto sm:min-w-0"
-              />
+              <AccessLogFilterPopover value={accessFilter} onValueChange={setAccessFilter} showColumns={showAccessColumns} onShowColumnsChange={setShowAccessColumns} />
+
+              <div className="flex w-full items-center gap-1 sm:w-auto">
+                <Input
+                  type="search"
+                  dir="ltr"
+                  placeholder={useRegex ? t('nodes.logs.regexSearch') : t('nodes.logs.search')}
+                  value={search}
+                  onChange={handleSearch}
+                  aria-invalid={!!searchPattern.error}
+                  className={cn(
+                    'inline-flex h-9 w-full min-w-[200px] text-sm placeholder-gray-400 sm:w-auto sm:min-w-0',
+                    useRegex && 'font-mono',
+                    searchPattern.error && 'border-destructive focus-visible:ring-destructive',
+                  )}
+                />
+                <Toggle variant="outline" pressed={useRegex} onPressedChange={setUseRegex} title={t('nodes.logs.useRegex')} aria-label={t('nodes.logs.useRegex')}>
+                  <Regex />
+                </Toggle>
+                <Toggle variant="outline" pressed={caseSensitive} onPressedChange={setCaseSensitive} title={t('nodes.logs.caseSensitive')} aria-label={t('nodes.logs.caseSensitive')}>
+                  <CaseSensitive />
+                </Toggle>
+              </div>
             </div>
 
             <div className={cn('flex w-full gap-2 sm:w-auto', dir === 'rtl' && 'flex-row-reverse')}>
               <Button variant="outline" size="sm" className="h-9 flex-1 sm:flex-initial" onClick={handlePauseResume} title={isPaused ? t('nodes.logs.resume') : t('nodes.logs.pause')}>
-                {isPaused ? <Play className={cn('h-4 w-4 sm:mr-2', dir === 'rtl' && 'sm:mr-0 sm:ml-2')} /> : <Pause className={cn('h-4 w-4 sm:mr-2', dir === 'rtl' && 'sm:mr-0 sm:ml-2')} />}
+                {isPaused ? <Play className={iconClassName} /> : <Pause className={iconClassName} />}
                 <span className="hidden sm:inline">{isPaused ? t('nodes.logs.resume') : t('nodes.logs.pause')}</span>
               </Button>
-              <Button variant="outline" size="sm" className="h-9 flex-1 sm:flex-initial" onClick={handleDownload} disabled={filteredLogs.length === 0}>
-                <DownloadIcon className={cn('h-4 w-4 sm:mr-2', dir === 'rtl' && 'sm:mr-0 sm:ml-2')} />
-                <span className="hidden sm:inline">{t('nodes.logs.download')}</span>
+              <Button variant="outline" size="sm" className="h-9 flex-1 sm:flex-initial" onClick={handleClear} disabled={logs.length === 0 && pendingCount === 0} title={t('nodes.logs.clear')}>
+                <Trash2 className={iconClassName} />
+                <span className="hidden sm:inline">{t('nodes.logs.clear')}</span>
               </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-9 flex-1 sm:flex-initial" disabled={filteredLogs.length === 0}>
+                    <DownloadIcon className={iconClassName} />
+                    <span className="hidden sm:inline">{t('nodes.logs.download')}</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleExport('text')}>{t('nodes.logs.exportText')}</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('ndjson')}>{t('nodes.logs.exportNdjson')}</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
+          {searchPattern.error && <p className="text-destructive text-xs">{t('nodes.logs.invalidRegex', { error: searchPattern.error })}</p>}
           {isPaused && (
             <Alert className="border-amber-500/50 bg-amber-500/15 text-amber-700 dark:text-amber-400">
               <Pause className="h-4 w-4" />
               <AlertDescription>
                 {t('nodes.logs.paused')}
-                {messageBuffer.length > 0 && (
+                {pendingCount > 0 && (
                   <span className="ml-1 font-medium">
-                    ({messageBuffer.length} {t('nodes.logs.messagesBuffered')})
+                    ({pendingCount} {t('nodes.logs.messagesBuffered')})
                   </span>
                 )}
               </AlertDescription>
             </Alert>
           )}
           <Card className="bg-background">
-            <CardContent className="p-1 sm:p-2">
-              <div
-                ref={scrollRef}
-                onScroll={handleScroll}
-                dir="ltr"
-                className="custom-logs-scrollbar bg-background/75 h-[calc(100vh-280px)] max-h-[720px] min-h-[400px] space-y-0 overflow-x-hidden overflow-y-auto rounded sm:h-[720px] sm:min-h-0"
-              >
-                {filteredLogs.length > 0 ? (
-                  filteredLogs.map((filteredLog: LogLine, index: number) => <TerminalLine key={index} log={filteredLog} searchTerm={search} noTimestamp={!showTimestamp} />)
-                ) : isLoading ? (
-                  <div className="text-muted-foreground flex h-full items-center justify-center">
-                    <Loader2 className="h-6 w-6" />
+            <CardContent className="flex flex-col gap-1 p-1 sm:p-2">
+              <div className="text-muted-foreground flex items-center justify-between px-2 text-xs">
+                <span>{t('nodes.logs.showingCount', { shown: filteredLogs.length, total: logs.length })}</span>
+                {showAccessColumns && (
+                  <div dir="ltr" className="hidden items-center gap-3 lg:flex">
+                    {ACCESS_LOG_FIELDS.map(field => (
+                      <span key={field.key}>{t(field.label)}</span>
+                    ))}
                   </div>
-                ) : (
-                  <div className="text-muted-foreground flex h-full items-center justify-center">{t('nodes.logs.noLogs')}</div>
                 )}
               </div>
+              <VirtualLogList
+                items={filteredLogs}
+                rowHeight={LOG_ROW_HEIGHT}
+                followOutput={autoScroll}
+                onFollowOutputChange={setAutoScroll}
+                className="custom-logs-scrollbar bg-background/75 h-[calc(100vh-320px)] max-h-[720px] min-h-[400px] rounded sm:h-[720px] sm:min-h-0"
+                renderItem={log => (
+                  <TerminalLine
+                    log={log}
+                    highlight={searchPattern.pattern}
+                    noTimestamp={!showTimestamp}
+                    singleLine
+                    showAccessFields={showAccessColumns}
+                    onAccessFieldSelect={handleAccessFieldSelect}
+                    selected={log === selectedLog}
+                    onSelect={() => setSelectedLog(current => (current === log ? null : log))}
+                    lane={mergeMode && log.nodeId !== undefined ? laneById.get(log.nodeId) : undefined}
+                  />
+                )}
+                emptyState={
+                  isLoading ? (
+                    <div className="text-muted-foreground flex h-full items-center justify-center">
+                      <Loader2 className="h-6 w-6" />
+                    </div>
+                  ) : (
+                    <div className="text-muted-foreground flex h-full items-center justify-center">{t('nodes.logs.noLogs')}</div>
+                  )
+                }
+              />
+              {selectedLog && (
+                <div dir="ltr" className="bg-muted/40 flex flex-col gap-2 rounded border p-2">
+                  <TerminalLine
+                    log={selectedLog}
+                    highlight={searchPattern.pattern}
+                    noTimestamp={!showTimestamp}
+                    lane={mergeMode && selectedLog.nodeId !== undefined ? laneById.get(selectedLog.nodeId) : undefined}
+                  />
+                  {selectedLog.access && (
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 px-2 font-mono text-xs sm:grid-cols-4">
+                      {ACCESS_LOG_FIELDS.map(field => {
+                        const access = selectedLog.access!
+                        const value =
+                          field.key === 'destination' ? (access.destinationPort !== null ? `${access.destination}:${access.destinationPort}` : access.destination) : (access[field.key] ?? '')
+                        return (
+                          <button
+                            key={field.key}
+                            type="button"
+                            disabled={!value}
+                            onClick={() => handleAccessFieldSelect(field.key, value)}
+                            className="flex flex-col items-start text-left enabled:hover:underline"
+                          >
+                            <span className="text-muted-foreground">{t(field.label)}</span>
+                            <span className="truncate">{value || '-'}</span>
+                          </button>
+                        )
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -20,7 +20,8 @@ import { DatePicker } from '@/components/common/date-picker'
 import { formatDateByLocale } from '@/utils/datePickerUtils'
 import useDirDetection from '@/hooks/use-dir-detection'
 import { cn } from '@/lib/utils'
-import { useClearUsageData, useDeleteExpiredUsers, useGetAdmins, useGetCurrentAdmin, useResetUsersDataUsage, type AdminDetails, type UsageTable } from '@/service/api'
+import { useClearUsageData, useDeleteExpiredUsers, useGetAdmins, useResetUsersDataUsage, type AdminDetails, type UsageTable } from '@/service/api'
+import { useAdmin } from '@/hooks/use-admin'
 import { useDebouncedSearch } from '@/hooks/use-debounced-search'
 import { AlertTriangle, Check, ChevronDown, Database, Eye, Loader2, RotateCcw, Server, Trash2, UserCog, UserRound } from 'lucide-react'
 import { endOfDay, startOfDay } from 'date-fns'
@@ -43,7 +44,7 @@ export default function CleanupSettings() {
   const [clearDataAfter, setClearDataAfter] = useState<Date | undefined>()
   const [clearDataBefore, setClearDataBefore] = useState<Date | undefined>()
 
-  const { data: currentAdmin } = useGetCurrentAdmin()
+  const { admin: currentAdmin } = useAdmin()
   const canTargetAllAdmins = hasScopeAll(currentAdmin, 'users', 'delete') || hasScopeAll(currentAdmin, 'users', 'update')
 
   // Admin search state
@@ -200,7 +200,7 @@ export default function General() {
           <Separator className="my-3" />
 
           <div className="py-3">
-            <SubscriptionCustomVariablesSection form={form} />
+            <SubscriptionCustomVariablesSection form={form} level="general" />
           </div>
 
           <Separator className="my-3" />
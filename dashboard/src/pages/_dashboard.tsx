@@ -4,6 +4,7 @@ import PageTransition from '@/components/layout/page-transition'
 import RouteGuard from '@/components/layout/route-guard'
 import { TopLoadingBar } from '@/components/layout/top-loading-bar'
 import { VersionUpdateBanner } from '@/components/layout/version-update-banner'
+import { ViewAsAdminBanner } from '@/components/layout/view-as-admin-banner'
 import DonationPopup from '@/components/common/donation-popup'
 import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar'
 import { getCurrentAdmin } from '@/service/api'
@@ -28,6 +29,7 @@ export default function DashboardLayout() {
         <div className="flex w-full flex-col lg:flex-row">
           <AppSidebar />
           <SidebarInset className="scroll-smooth">
+            <ViewAsAdminBanner />
             <TopbarAd />
             <VersionUpdateBanner />
             <div className="flex min-h-0 w-full flex-1 flex-col justify-between gap-y-4">
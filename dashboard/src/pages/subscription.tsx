@@ -0,0 +1,86 @@
+import { useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useSearchParams } from 'react-router'
+import { useQuery } from '@tanstack/react-query'
+import { CircleAlertIcon } from 'lucide-react'
+
+import { Language } from '@/components/common/language'
+import { ThemeToggle } from '@/components/common/theme-toggle'
+import { Footer } from '@/components/layout/footer'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Skeleton } from '@/components/ui/skeleton'
+import { buildDefaultApplications } from '@/features/subscriptions/components/default-applications-catalog'
+import SubscriptionLandingApps from '@/features/subscriptions/components/subscription-landing-apps'
+import SubscriptionLandingFormats from '@/features/subscriptions/components/subscription-landing-formats'
+import SubscriptionLandingUsage from '@/features/subscriptions/components/subscription-landing-usage'
+import type { Application } from '@/service/api'
+import { detectVisitorPlatform, fetchSubscriptionLandingApps, fetchSubscriptionLandingInfo } from '@/utils/subscriptionLanding'
+
+/** Public page for end users: opened from a shared link, so it never touches the admin session. */
+export default function SubscriptionLandingPage() {
+  const { t } = useTranslation()
+  const [searchParams] = useSearchParams()
+  const subscribeUrl = searchParams.get('url')?.trim() ?? ''
+  const detectedPlatform = useMemo(() => detectVisitorPlatform(navigator.userAgent, navigator.maxTouchPoints), [])
+
+  const infoQuery = useQuery({
+    queryKey: ['subscription-landing', 'info', subscribeUrl],
+    queryFn: () => fetchSubscriptionLandingInfo(subscribeUrl),
+    enabled: !!subscribeUrl,
+    retry: false,
+  })
+
+  const appsQuery = useQuery({
+    queryKey: ['subscription-landing', 'apps', subscribeUrl],
+    queryFn: () => fetchSubscriptionLandingApps(subscribeUrl),
+    enabled: !!subscribeUrl && infoQuery.isSuccess,
+    retry: false,
+  })
+
+  // Panels without a configured catalog (or older ones without `/apps`) still get useful suggestions
+  const apps: Application[] = appsQuery.data?.length ? appsQuery.data : buildDefaultApplications()
+
+  return (
+    <div className="flex min-h-screen w-full flex-col justify-between p-6">
+      <div className="w-full">
+        <div className="flex w-full items-center justify-between">
+          <Language />
+          <ThemeToggle />
+        </div>
+        <div className="mx-auto mt-6 w-full max-w-2xl space-y-4">
+          <div className="flex flex-col items-center gap-1 text-center">
+            <span className="text-2xl font-semibold">{t('subscriptionLanding.title')}</span>
+            <span className="text-muted-foreground text-sm">{t('subscriptionLanding.description')}</span>
+          </div>
+
+          {!subscribeUrl ? (
+            <LandingError message={t('subscriptionLanding.missingUrl')} />
+          ) : infoQuery.isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-48 w-full" />
+              <Skeleton className="h-72 w-full" />
+            </div>
+          ) : infoQuery.isError || !infoQuery.data ? (
+            <LandingError message={(infoQuery.error as { status?: number } | null)?.status === 404 ? t('subscriptionLanding.notFound') : t('subscriptionLanding.loadFailed')} />
+          ) : (
+            <>
+              <SubscriptionLandingUsage info={infoQuery.data} />
+              <SubscriptionLandingApps apps={apps} subscribeUrl={subscribeUrl} detectedPlatform={detectedPlatform} />
+              <SubscriptionLandingFormats subscribeUrl={subscribeUrl} />
+            </>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  )
+}
+
+function LandingError({ message }: { message: string }) {
+  return (
+    <Alert variant="destructive">
+      <CircleAlertIcon className="h-4 w-4" />
+      <AlertDescription>{message}</AlertDescription>
+    </Alert>
+  )
+}
@@ -299,6 +299,22 @@ export type DeleteCoreConfigParams = {
 
 export type ModifyCoreConfigParams = {
   restart_nodes: boolean
+  /**
+   * @maxLength 512
+   */
+  note?: string | null
+}
+
+export type CreateCoreConfigParams = {
+  /**
+   * @maxLength 512
+   */
+  note?: string | null
+}
+
+export type GetCoreRevisionsParams = {
+  offset?: number | null
+  limit?: number | null
 }
 
 export type GetGroupsSimpleParams = {
@@ -2996,6 +3012,30 @@ export interface CreateHost {
   final_mask_settings?: CreateHostFinalMaskSettings
 }
 
+/**
+ * Unsaved host rendered for one user
+ */
+export interface HostPreview {
+  host: CreateHost
+  user_id: number
+}
+
+export type HostPreviewResponseXrayItem = { [key: string]: unknown }
+
+export type HostPreviewResponseSingBoxItem = { [key: string]: unknown }
+
+export type HostPreviewResponseClashMetaItem = { [key: string]: unknown }
+
+/**
+ * What the host adds to each share format, without the client template around it
+ */
+export interface HostPreviewResponse {
+  links?: string[]
+  xray?: HostPreviewResponseXrayItem[]
+  sing_box?: HostPreviewResponseSingBoxItem[]
+  clash_meta?: HostPreviewResponseClashMetaItem[]
+}
+
 /**
  * Response model for lightweight core list.
  */
@@ -3032,6 +3072,74 @@ export interface CoreResponseList {
 
 export type CoreResponseType = CoreType | null
 
+export type CoreRevisionSummaryType = CoreType | null
+
+/**
+ * A saved core config revision without its config body, for the timeline.
+ */
+export interface CoreRevisionSummary {
+  id: number
+  core_config_id: number
+  name: string
+  type?: CoreRevisionSummaryType
+  admin_username?: string | null
+  note?: string | null
+  restarted_nodes?: string[]
+  created_at: string
+}
+
+export type CoreRevisionResponseConfig = { [key: string]: unknown }
+
+export type CoreRevisionResponseType = CoreType | null
+
+export interface CoreRevisionResponse {
+  id: number
+  core_config_id: number
+  name: string
+  type?: CoreRevisionResponseType
+  admin_username?: string | null
+  note?: string | null
+  restarted_nodes?: string[]
+  created_at: string
+  config: CoreRevisionResponseConfig
+  exclude_inbound_tags?: string[]
+  fallbacks_inbound_tags?: string[]
+}
+
+export interface CoreRevisionList {
+  revisions: CoreRevisionSummary[]
+  count: number
+}
+
+export interface CoreRevisionNote {
+  /**
+   * @maxLength 512
+   */
+  note?: string | null
+}
+
+/**
+ * A candidate config pushed to a subset of the core's nodes without saving it.
+ */
+export interface CoreRollout {
+  core: CoreCreate
+  /**
+   * @minItems 1
+   */
+  node_ids: number[]
+}
+
+export interface CoreRolloutNodeResult {
+  node_id: number
+  name: string
+  status: NodeStatus
+  message?: string
+}
+
+export interface CoreRolloutResponse {
+  results: CoreRolloutNodeResult[]
+}
+
 export type CoreResponseConfig = { [key: string]: unknown }
 
 export interface CoreResponse {
@@ -3104,6 +3212,23 @@ export interface ClientTemplatesSimpleResponse {
   total: number
 }
 
+export type ClientTemplatePreviewConfigFormat = ConfigFormat | null
+
+/**
+ * Unsaved template content rendered for an existing user.
+ */
+export interface ClientTemplatePreview {
+  template_type: ClientTemplateType
+  content: string
+  user_id: number
+  config_format?: ClientTemplatePreviewConfigFormat
+}
+
+export interface ClientTemplatePreviewResponse {
+  config_format: ConfigFormat
+  content: string
+}
+
 export interface ClientTemplateResponse {
   id: number
   name: string
@@ -3320,6 +3445,58 @@ export interface BulkHostSelection {
   ids?: number[]
 }
 
+/**
+ * Hosts to probe; each one opens several connections from the panel, so a request is capped
+ */
+export interface HostHealthSelection {
+  /** @maxItems 20 */
+  ids?: number[]
+}
+
+export type HostHealthStatus = (typeof HostHealthStatus)[keyof typeof HostHealthStatus]
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const HostHealthStatus = {
+  ok: 'ok',
+  warning: 'warning',
+  error: 'error',
+  skipped: 'skipped',
+} as const
+
+export interface HostProbeCheck {
+  name: string
+  status: HostHealthStatus
+  message?: string | null
+  latency_ms?: number | null
+}
+
+export interface HostEndpointCheck {
+  address: string
+  port: number
+  sni?: string | null
+  ip?: string | null
+  not_after?: string | null
+  checks?: HostProbeCheck[]
+}
+
+/**
+ * Reachability of one saved host as a client would see it
+ */
+export interface HostHealthResult {
+  host_id: number
+  remark: string
+  status: HostHealthStatus
+  security?: string | null
+  checked_at: string
+  checks?: HostProbeCheck[]
+  endpoints?: HostEndpointCheck[]
+  cert_not_after?: string | null
+}
+
+export interface HostHealthResponse {
+  hosts: HostHealthResult[]
+}
+
 /**
  * Response model for bulk group actions.
  */
@@ -3674,6 +3851,21 @@ export interface AdminNotificationEnable {
   usage_limit_warning_percentages?: number[]
 }
 
+export type AdminBrandingModifySupportUrl = string | null
+
+export type AdminBrandingModifyProfileTitle = string | null
+
+export type AdminBrandingModifySubDomain = string | null
+
+/**
+ * Subscription branding an admin may change on their own account without `admins.update`.
+ */
+export interface AdminBrandingModify {
+  sub_domain?: AdminBrandingModifySubDomain
+  profile_title?: AdminBrandingModifyProfileTitle
+  support_url?: AdminBrandingModifySupportUrl
+}
+
 export type AdminModifyPermissionOverrides = RoleLimits | null
 
 export type AdminModifyRoleId = number | null
@@ -4250,6 +4442,52 @@ export function useGetCurrentAdmin<TData = Awaited<ReturnType<typeof getCurrentA
   return query
 }
 
+/**
+ * Update the subscription domain, profile title and support URL of the current admin.
+ * @summary Modify Own Branding
+ */
+export const modifyOwnBranding = (adminBrandingModify: BodyType<AdminBrandingModify>) => {
+  return orvalFetcher<AdminDetails>({ url: `/api/admin/me/branding`, method: 'PUT', headers: { 'Content-Type': 'application/json' }, data: adminBrandingModify })
+}
+
+export const getModifyOwnBrandingMutationOptions = <
+  TData = Awaited<ReturnType<typeof modifyOwnBranding>>,
+  TError = ErrorType<Unauthorized | Forbidden | HTTPValidationError>,
+  TContext = unknown,
+>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { data: BodyType<AdminBrandingModify> }, TContext>
+}) => {
+  const mutationKey = ['modifyOwnBranding']
+  const { mutation: mutationOptions } = options
+    ? options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey
+      ? options
+      : { ...options, mutation: { ...options.mutation, mutationKey } }
+    : { mutation: { mutationKey } }
+
+  const mutationFn: MutationFunction<Awaited<ReturnType<typeof modifyOwnBranding>>, { data: BodyType<AdminBrandingModify> }> = props => {
+    const { data } = props ?? {}
+
+    return modifyOwnBranding(data)
+  }
+
+  return { mutationFn, ...mutationOptions } as UseMutationOptions<TData, TError, { data: BodyType<AdminBrandingModify> }, TContext>
+}
+
+export type ModifyOwnBrandingMutationResult = NonNullable<Awaited<ReturnType<typeof modifyOwnBranding>>>
+export type ModifyOwnBrandingMutationBody = BodyType<AdminBrandingModify>
+export type ModifyOwnBrandingMutationError = ErrorType<Unauthorized | Forbidden | HTTPValidationError>
+
+/**
+ * @summary Modify Own Branding
+ */
+export const useModifyOwnBranding = <TData = Awaited<ReturnType<typeof modifyOwnBranding>>, TError = ErrorType<Unauthorized | Forbidden | HTTPValidationError>, TContext = unknown>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { data: BodyType<AdminBrandingModify> }, TContext>
+}): UseMutationResult<TData, TError, { data: BodyType<AdminBrandingModify> }, TContext> => {
+  const mutationOptions = getModifyOwnBrandingMutationOptions(options)
+
+  return useMutation(mutationOptions)
+}
+
 /**
  * Create a new admin.
  * @summary Create Admin
@@ -7811,8 +8049,8 @@ export const useBulkEnableGroups = <
  * Create a new core configuration.
  * @summary Create Core Config
  */
-export const createCoreConfig = (coreCreate: BodyType<CoreCreate>, signal?: AbortSignal) => {
-  return orvalFetcher<CoreResponse>({ url: `/api/core`, method: 'POST', headers: { 'Content-Type': 'application/json' }, data: coreCreate, signal })
+export const createCoreConfig = (coreCreate: BodyType<CoreCreate>, params?: CreateCoreConfigParams, signal?: AbortSignal) => {
+  return orvalFetcher<CoreResponse>({ url: `/api/core`, method: 'POST', headers: { 'Content-Type': 'application/json' }, data: coreCreate, params, signal })
 }
 
 export const getCreateCoreConfigMutationOptions = <
@@ -7820,7 +8058,7 @@ export const getCreateCoreConfigMutationOptions = <
   TError = ErrorType<Unauthorized | Forbidden | HTTPValidationError>,
   TContext = unknown,
 >(options?: {
-  mutation?: UseMutationOptions<TData, TError, { data: BodyType<CoreCreate> }, TContext>
+  mutation?: UseMutationOptions<TData, TError, { data: BodyType<CoreCreate>; params?: CreateCoreConfigParams }, TContext>
 }) => {
   const mutationKey = ['createCoreConfig']
   const { mutation: mutationOptions } = options
@@ -7829,13 +8067,13 @@ export const getCreateCoreConfigMutationOptions = <
       : { ...options, mutation: { ...options.mutation, mutationKey } }
     : { mutation: { mutationKey } }
 
-  const mutationFn: MutationFunction<Awaited<ReturnType<typeof createCoreConfig>>, { data: BodyType<CoreCreate> }> = props => {
-    const { data } = props ?? {}
+  const mutationFn: MutationFunction<Awaited<ReturnType<typeof createCoreConfig>>, { data: BodyType<CoreCreate>; params?: CreateCoreConfigParams }> = props => {
+    const { data, params } = props ?? {}
 
-    return createCoreConfig(data)
+    return createCoreConfig(data, params)
   }
 
-  return { mutationFn, ...mutationOptions } as UseMutationOptions<TData, TError, { data: BodyType<CoreCreate> }, TContext>
+  return { mutationFn, ...mutationOptions } as UseMutationOptions<TData, TError, { data: BodyType<CoreCreate>; params?: CreateCoreConfigParams }, TContext>
 }
 
 export type CreateCoreConfigMutationResult = NonNullable<Awaited<ReturnType<typeof createCoreConfig>>>
@@ -7846,8 +8084,8 @@ export type CreateCoreConfigMutationError = ErrorType<Unauthorized | Forbidden |
  * @summary Create Core Config
  */
 export const useCreateCoreConfig = <TData = Awaited<ReturnType<typeof createCoreConfig>>, TError = ErrorType<Unauthorized | Forbidden | HTTPValidationError>, TContext = unknown>(options?: {
-  mutation?: UseMutationOptions<TData, TError, { data: BodyType<CoreCreate> }, TContext>
-}): UseMutationResult<TData, TError, { data: BodyType<CoreCreate> }, TContext> => {
+  mutation?: UseMutationOptions<TData, TError, { data: BodyType<CoreCreate>; params?: CreateCoreConfigParams }, TContext>
+}): UseMutationResult<TData, TError, { data: BodyType<CoreCreate>; params?: CreateCoreConfigParams }, TContext> => {
   const mutationOptions = getCreateCoreConfigMutationOptions(options)
 
   return useMutation(mutationOptions)
@@ -8006,6 +8244,196 @@ export const useModifyCoreConfig = <TData = Awaited<ReturnType<typeof modifyCore
   return useMutation(mutationOptions)
 }
 
+/**
+ * Get the saved revisions of a core configuration, newest first.
+ * @summary Get Core Revisions
+ */
+export const getCoreRevisions = (coreId: number, params?: GetCoreRevisionsParams, signal?: AbortSignal) => {
+  return orvalFetcher<CoreRevisionList>({ url: `/api/core/${coreId}/revisions`, method: 'GET', params, signal })
+}
+
+export const getGetCoreRevisionsQueryKey = (coreId: number, params?: GetCoreRevisionsParams) => {
+  return [`/api/core/${coreId}/revisions`, ...(params ? [params] : [])] as const
+}
+
+export const getGetCoreRevisionsQueryOptions = <TData = Awaited<ReturnType<typeof getCoreRevisions>>, TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>>(
+  coreId: number,
+  params?: GetCoreRevisionsParams,
+  options?: { query?: Partial<UseQueryOptions<Awaited<ReturnType<typeof getCoreRevisions>>, TError, TData>> },
+) => {
+  const { query: queryOptions } = options ?? {}
+
+  const queryKey = queryOptions?.queryKey ?? getGetCoreRevisionsQueryKey(coreId, params)
+
+  const queryFn: QueryFunction<Awaited<ReturnType<typeof getCoreRevisions>>> = ({ signal }) => getCoreRevisions(coreId, params, signal)
+
+  return { queryKey, queryFn, enabled: !!coreId, ...queryOptions } as UseQueryOptions<Awaited<ReturnType<typeof getCoreRevisions>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetCoreRevisionsQueryResult = NonNullable<Awaited<ReturnType<typeof getCoreRevisions>>>
+export type GetCoreRevisionsQueryError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>
+
+/**
+ * @summary Get Core Revisions
+ */
+export function useGetCoreRevisions<TData = Awaited<ReturnType<typeof getCoreRevisions>>, TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>>(
+  coreId: number,
+  params?: GetCoreRevisionsParams,
+  options?: { query?: Partial<UseQueryOptions<Awaited<ReturnType<typeof getCoreRevisions>>, TError, TData>> },
+): UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+  const queryOptions = getGetCoreRevisionsQueryOptions(coreId, params, options)
+
+  const query = useQuery(queryOptions) as UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+
+  query.queryKey = queryOptions.queryKey
+
+  return query
+}
+
+/**
+ * Get a single revision of a core configuration, including its config.
+ * @summary Get Core Revision
+ */
+export const getCoreRevision = (coreId: number, revisionId: number, signal?: AbortSignal) => {
+  return orvalFetcher<CoreRevisionResponse>({ url: `/api/core/${coreId}/revisions/${revisionId}`, method: 'GET', signal })
+}
+
+export const getGetCoreRevisionQueryKey = (coreId: number, revisionId: number) => {
+  return [`/api/core/${coreId}/revisions/${revisionId}`] as const
+}
+
+export const getGetCoreRevisionQueryOptions = <TData = Awaited<ReturnType<typeof getCoreRevision>>, TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>>(
+  coreId: number,
+  revisionId: number,
+  options?: { query?: Partial<UseQueryOptions<Awaited<ReturnType<typeof getCoreRevision>>, TError, TData>> },
+) => {
+  const { query: queryOptions } = options ?? {}
+
+  const queryKey = queryOptions?.queryKey ?? getGetCoreRevisionQueryKey(coreId, revisionId)
+
+  const queryFn: QueryFunction<Awaited<ReturnType<typeof getCoreRevision>>> = ({ signal }) => getCoreRevision(coreId, revisionId, signal)
+
+  return { queryKey, queryFn, enabled: !!(coreId && revisionId), ...queryOptions } as UseQueryOptions<Awaited<ReturnType<typeof getCoreRevision>>, TError, TData> & {
+    queryKey: DataTag<QueryKey, TData, TError>
+  }
+}
+
+export type GetCoreRevisionQueryResult = NonNullable<Awaited<ReturnType<typeof getCoreRevision>>>
+export type GetCoreRevisionQueryError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>
+
+/**
+ * @summary Get Core Revision
+ */
+export function useGetCoreRevision<TData = Awaited<ReturnType<typeof getCoreRevision>>, TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>>(
+  coreId: number,
+  revisionId: number,
+  options?: { query?: Partial<UseQueryOptions<Awaited<ReturnType<typeof getCoreRevision>>, TError, TData>> },
+): UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+  const queryOptions = getGetCoreRevisionQueryOptions(coreId, revisionId, options)
+
+  const query = useQuery(queryOptions) as UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+
+  query.queryKey = queryOptions.queryKey
+
+  return query
+}
+
+/**
+ * Set or clear the change note of a core configuration revision.
+ * @summary Annotate Core Revision
+ */
+export const annotateCoreRevision = (coreId: number, revisionId: number, coreRevisionNote: BodyType<CoreRevisionNote>) => {
+  return orvalFetcher<CoreRevisionSummary>({ url: `/api/core/${coreId}/revisions/${revisionId}`, method: 'PUT', headers: { 'Content-Type': 'application/json' }, data: coreRevisionNote })
+}
+
+export const getAnnotateCoreRevisionMutationOptions = <
+  TData = Awaited<ReturnType<typeof annotateCoreRevision>>,
+  TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>,
+  TContext = unknown,
+>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { coreId: number; revisionId: number; data: BodyType<CoreRevisionNote> }, TContext>
+}) => {
+  const mutationKey = ['annotateCoreRevision']
+  const { mutation: mutationOptions } = options
+    ? options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey
+      ? options
+      : { ...options, mutation: { ...options.mutation, mutationKey } }
+    : { mutation: { mutationKey } }
+
+  const mutationFn: MutationFunction<Awaited<ReturnType<typeof annotateCoreRevision>>, { coreId: number; revisionId: number; data: BodyType<CoreRevisionNote> }> = props => {
+    const { coreId, revisionId, data } = props ?? {}
+
+    return annotateCoreRevision(coreId, revisionId, data)
+  }
+
+  return { mutationFn, ...mutationOptions } as UseMutationOptions<TData, TError, { coreId: number; revisionId: number; data: BodyType<CoreRevisionNote> }, TContext>
+}
+
+export type AnnotateCoreRevisionMutationResult = NonNullable<Awaited<ReturnType<typeof annotateCoreRevision>>>
+export type AnnotateCoreRevisionMutationBody = BodyType<CoreRevisionNote>
+export type AnnotateCoreRevisionMutationError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>
+
+/**
+ * @summary Annotate Core Revision
+ */
+export const useAnnotateCoreRevision = <
+  TData = Awaited<ReturnType<typeof annotateCoreRevision>>,
+  TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>,
+  TContext = unknown,
+>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { coreId: number; revisionId: number; data: BodyType<CoreRevisionNote> }, TContext>
+}): UseMutationResult<TData, TError, { coreId: number; revisionId: number; data: BodyType<CoreRevisionNote> }, TContext> => {
+  const mutationOptions = getAnnotateCoreRevisionMutationOptions(options)
+
+  return useMutation(mutationOptions)
+}
+
+/**
+ * Start selected nodes of a core with an unsaved candidate config, for canary and staged rollouts.
+ * @summary Apply Core Rollout
+ */
+export const applyCoreRollout = (coreId: number, coreRollout: BodyType<CoreRollout>, signal?: AbortSignal) => {
+  return orvalFetcher<CoreRolloutResponse>({ url: `/api/core/${coreId}/rollout`, method: 'POST', headers: { 'Content-Type': 'application/json' }, data: coreRollout, signal })
+}
+
+export const getApplyCoreRolloutMutationOptions = <
+  TData = Awaited<ReturnType<typeof applyCoreRollout>>,
+  TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>,
+  TContext = unknown,
+>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { coreId: number; data: BodyType<CoreRollout> }, TContext>
+}) => {
+  const mutationKey = ['applyCoreRollout']
+  const { mutation: mutationOptions } = options
+    ? options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey
+      ? options
+      : { ...options, mutation: { ...options.mutation, mutationKey } }
+    : { mutation: { mutationKey } }
+
+  const mutationFn: MutationFunction<Awaited<ReturnType<typeof applyCoreRollout>>, { coreId: number; data: BodyType<CoreRollout> }> = props => {
+    const { coreId, data } = props ?? {}
+
+    return applyCoreRollout(coreId, data)
+  }
+
+  return { mutationFn, ...mutationOptions } as UseMutationOptions<TData, TError, { coreId: number; data: BodyType<CoreRollout> }, TContext>
+}
+
+export type ApplyCoreRolloutMutationResult = NonNullable<Awaited<ReturnType<typeof applyCoreRollout>>>
+export type ApplyCoreRolloutMutationBody = BodyType<CoreRollout>
+export type ApplyCoreRolloutMutationError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>
+
+/**
+ * @summary Apply Core Rollout
+ */
+export const useApplyCoreRollout = <TData = Awaited<ReturnType<typeof applyCoreRollout>>, TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>, TContext = unknown>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { coreId: number; data: BodyType<CoreRollout> }, TContext>
+}): UseMutationResult<TData, TError, { coreId: number; data: BodyType<CoreRollout> }, TContext> => {
+  const mutationOptions = getApplyCoreRolloutMutationOptions(options)
+
+  return useMutation(mutationOptions)
+}
+
 /**
  * Delete a core configuration.
  * @summary Delete Core Config
@@ -8313,6 +8741,56 @@ export const useCreateClientTemplate = <TData = Awaited<ReturnType<typeof create
   return useMutation(mutationOptions)
 }
 
+/**
+ * Render template content for one of the admin's users, as that user's subscription would look with it.
+ * @summary Preview Client Template
+ */
+export const previewClientTemplate = (clientTemplatePreview: BodyType<ClientTemplatePreview>, signal?: AbortSignal) => {
+  return orvalFetcher<ClientTemplatePreviewResponse>({ url: `/api/client_template/preview`, method: 'POST', headers: { 'Content-Type': 'application/json' }, data: clientTemplatePreview, signal })
+}
+
+export const getPreviewClientTemplateMutationOptions = <
+  TData = Awaited<ReturnType<typeof previewClientTemplate>>,
+  TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>,
+  TContext = unknown,
+>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { data: BodyType<ClientTemplatePreview> }, TContext>
+}) => {
+  const mutationKey = ['previewClientTemplate']
+  const { mutation: mutationOptions } = options
+    ? options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey
+      ? options
+      : { ...options, mutation: { ...options.mutation, mutationKey } }
+    : { mutation: { mutationKey } }
+
+  const mutationFn: MutationFunction<Awaited<ReturnType<typeof previewClientTemplate>>, { data: BodyType<ClientTemplatePreview> }> = props => {
+    const { data } = props ?? {}
+
+    return previewClientTemplate(data)
+  }
+
+  return { mutationFn, ...mutationOptions } as UseMutationOptions<TData, TError, { data: BodyType<ClientTemplatePreview> }, TContext>
+}
+
+export type PreviewClientTemplateMutationResult = NonNullable<Awaited<ReturnType<typeof previewClientTemplate>>>
+export type PreviewClientTemplateMutationBody = BodyType<ClientTemplatePreview>
+export type PreviewClientTemplateMutationError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>
+
+/**
+ * @summary Preview Client Template
+ */
+export const usePreviewClientTemplate = <
+  TData = Awaited<ReturnType<typeof previewClientTemplate>>,
+  TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>,
+  TContext = unknown,
+>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { data: BodyType<ClientTemplatePreview> }, TContext>
+}): UseMutationResult<TData, TError, { data: BodyType<ClientTemplatePreview> }, TContext> => {
+  const mutationOptions = getPreviewClientTemplateMutationOptions(options)
+
+  return useMutation(mutationOptions)
+}
+
 /**
  * @summary Get Client Template
  */
@@ -8645,6 +9123,54 @@ export const useBulkDeleteClientTemplates = <
   return useMutation(mutationOptions)
 }
 
+/**
+ * Render a host, saved or not, for one user in every share format
+
+Nothing is stored; the result only contains the entries this host adds.
+ * @summary Preview Host
+ */
+export const previewHost = (hostPreview: BodyType<HostPreview>, signal?: AbortSignal) => {
+  return orvalFetcher<HostPreviewResponse>({ url: `/api/host/preview`, method: 'POST', headers: { 'Content-Type': 'application/json' }, data: hostPreview, signal })
+}
+
+export const getPreviewHostMutationOptions = <
+  TData = Awaited<ReturnType<typeof previewHost>>,
+  TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>,
+  TContext = unknown,
+>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { data: BodyType<HostPreview> }, TContext>
+}) => {
+  const mutationKey = ['previewHost']
+  const { mutation: mutationOptions } = options
+    ? options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey
+      ? options
+      : { ...options, mutation: { ...options.mutation, mutationKey } }
+    : { mutation: { mutationKey } }
+
+  const mutationFn: MutationFunction<Awaited<ReturnType<typeof previewHost>>, { data: BodyType<HostPreview> }> = props => {
+    const { data } = props ?? {}
+
+    return previewHost(data)
+  }
+
+  return { mutationFn, ...mutationOptions } as UseMutationOptions<TData, TError, { data: BodyType<HostPreview> }, TContext>
+}
+
+export type PreviewHostMutationResult = NonNullable<Awaited<ReturnType<typeof previewHost>>>
+export type PreviewHostMutationBody = BodyType<HostPreview>
+export type PreviewHostMutationError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>
+
+/**
+ * @summary Preview Host
+ */
+export const usePreviewHost = <TData = Awaited<ReturnType<typeof previewHost>>, TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>, TContext = unknown>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { data: BodyType<HostPreview> }, TContext>
+}): UseMutationResult<TData, TError, { data: BodyType<HostPreview> }, TContext> => {
+  const mutationOptions = getPreviewHostMutationOptions(options)
+
+  return useMutation(mutationOptions)
+}
+
 /**
  * get host by **id**
  * @summary Get Host
@@ -9095,6 +9621,56 @@ export const useBulkEnableHosts = <
   return useMutation(mutationOptions)
 }
 
+/**
+ * Probe selected hosts from the panel server
+
+Checks DNS and TCP reachability, the TLS handshake with the host's SNI and ALPN,
+certificate expiry and, for Reality, the serverNames and target. Nothing is stored.
+Up to 20 hosts per request; requires **hosts.update** since the panel opens the connections.
+ * @summary Check Hosts Health
+ */
+export const checkHostsHealth = (hostHealthSelection: BodyType<HostHealthSelection>, signal?: AbortSignal) => {
+  return orvalFetcher<HostHealthResponse>({ url: `/api/hosts/health`, method: 'POST', headers: { 'Content-Type': 'application/json' }, data: hostHealthSelection, signal })
+}
+
+export const getCheckHostsHealthMutationOptions = <
+  TData = Awaited<ReturnType<typeof checkHostsHealth>>,
+  TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>,
+  TContext = unknown,
+>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { data: BodyType<HostHealthSelection> }, TContext>
+}) => {
+  const mutationKey = ['checkHostsHealth']
+  const { mutation: mutationOptions } = options
+    ? options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey
+      ? options
+      : { ...options, mutation: { ...options.mutation, mutationKey } }
+    : { mutation: { mutationKey } }
+
+  const mutationFn: MutationFunction<Awaited<ReturnType<typeof checkHostsHealth>>, { data: BodyType<HostHealthSelection> }> = props => {
+    const { data } = props ?? {}
+
+    return checkHostsHealth(data)
+  }
+
+  return { mutationFn, ...mutationOptions } as UseMutationOptions<TData, TError, { data: BodyType<HostHealthSelection> }, TContext>
+}
+
+export type CheckHostsHealthMutationResult = NonNullable<Awaited<ReturnType<typeof checkHostsHealth>>>
+export type CheckHostsHealthMutationBody = BodyType<HostHealthSelection>
+export type CheckHostsHealthMutationError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>
+
+/**
+ * @summary Check Hosts Health
+ */
+export const useCheckHostsHealth = <TData = Awaited<ReturnType<typeof checkHostsHealth>>, TError = ErrorType<Unauthorized | Forbidden | NotFound | HTTPValidationError>, TContext = unknown>(options?: {
+  mutation?: UseMutationOptions<TData, TError, { data: BodyType<HostHealthSelection> }, TContext>
+}): UseMutationResult<TData, TError, { data: BodyType<HostHealthSelection> }, TContext> => {
+  const mutationOptions = getCheckHostsHealthMutationOptions(options)
+
+  return useMutation(mutationOptions)
+}
+
 /**
  * Retrieve the current node settings.
  * @summary Get Node Settings
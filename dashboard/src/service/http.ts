@@ -1,5 +1,7 @@
 import { getAuthToken } from '@/utils/authStorage'
 import { dateUtils } from '@/utils/dateFormatter'
+import { isViewingAsAdmin } from '@/utils/viewAsAdmin'
+import i18n from '@/locales/i18n'
 import { FetchError, FetchOptions, $fetch as ofetch } from 'ofetch'
 
 export const $fetch = ofetch.create({
@@ -15,6 +17,12 @@ export const $fetch = ofetch.create({
 })
 
 export const fetcher = <T>(url: string, ops: FetchOptions<'json'> = {}) => {
+  // Previewing the dashboard as another admin only changes what the UI shows: reads still run with
+  // the owner's token and scope, so the banner labels it a UI preview and writes are blocked here
+  const method = (ops.method ?? 'GET').toUpperCase()
+  if (isViewingAsAdmin() && method !== 'GET' && method !== 'HEAD') {
+    return Promise.reject(new Error(i18n.t('viewAsAdmin.readOnlyError')))
+  }
   return $fetch<T>(url, ops).catch(e => {
     if (e.status === 401) {
       const url = new URL(window.location.href)
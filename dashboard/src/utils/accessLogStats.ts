@@ -0,0 +1,121 @@
+import type { AccessLogFields, LogLine } from '@/utils/logsUtils'
+
+export type AccessLogDimension = 'destination' | 'destinationPort' | 'inboundTag' | 'sourceIp'
+
+export interface AccessLogStatRow {
+  key: string
+  count: number
+  /** Epoch ms of the newest line, or `null` when none of the lines carried a timestamp. */
+  lastSeen: number | null
+  nodeIds: number[]
+}
+
+export interface AccessLogTimelineBucket {
+  /** Bucket start, epoch ms. */
+  time: number
+  accepted: number
+  rejected: number
+}
+
+export interface AccessLogStats {
+  total: number
+  rejected: number
+  rows: Record<AccessLogDimension, AccessLogStatRow[]>
+  timeline: AccessLogTimelineBucket[]
+}
+
+export const ACCESS_LOG_DIMENSIONS: AccessLogDimension[] = ['destination', 'destinationPort', 'inboundTag', 'sourceIp']
+
+/**
+ * Xray tags access lines with the node-side user email, which PasarGuard sets to the user id.
+ * `id.username` is accepted too so lines from nodes configured with that form still match.
+ */
+export const isAccessLogForUser = (access: AccessLogFields | null | undefined, userId: number, username: string) => {
+  const email = access?.email
+  if (!email) return false
+  return email === String(userId) || email === `${userId}.${username}`
+}
+
+const dimensionValue = (access: AccessLogFields, dimension: AccessLogDimension) => {
+  switch (dimension) {
+    case 'destination':
+      return access.destination
+    case 'destinationPort':
+      return access.destinationPort !== null ? `${access.network}/${access.destinationPort}` : null
+    case 'inboundTag':
+      return access.inboundTag
+    case 'sourceIp':
+      return access.sourceIp
+  }
+}
+
+/** Picks a bucket width that keeps the timeline around 60 bars wide. */
+const pickBucketMs = (spanMs: number) => {
+  const candidates = [10, 30, 60, 5 * 60, 15 * 60, 60 * 60].map(seconds => seconds * 1000)
+  return candidates.find(candidate => spanMs / candidate <= 60) ?? candidates[candidates.length - 1]
+}
+
+export function aggregateAccessLogs(logs: LogLine[]): AccessLogStats {
+  const maps = Object.fromEntries(ACCESS_LOG_DIMENSIONS.map(dimension => [dimension, new Map<string, { count: number; lastSeen: number | null; nodeIds: Set<number> }>()])) as Record<
+    AccessLogDimension,
+    Map<string, { count: number; lastSeen: number | null; nodeIds: Set<number> }>
+  >
+  let total = 0
+  let rejected = 0
+  let minTime = Infinity
+  let maxTime = -Infinity
+
+  for (const log of logs) {
+    const access = log.access
+    if (!access) continue
+
+    total += 1
+    if (!access.accepted) rejected += 1
+    const time = log.timestamp?.getTime() ?? null
+    if (time !== null) {
+      minTime = Math.min(minTime, time)
+      maxTime = Math.max(maxTime, time)
+    }
+
+    for (const dimension of ACCESS_LOG_DIMENSIONS) {
+      const key = dimensionValue(access, dimension)
+      if (!key) continue
+      const entry = maps[dimension].get(key) ?? { count: 0, lastSeen: null, nodeIds: new Set<number>() }
+      entry.count += 1
+      if (time !== null && (entry.lastSeen === null || time > entry.lastSeen)) entry.lastSeen = time
+      if (log.nodeId !== undefined) entry.nodeIds.add(log.nodeId)
+      maps[dimension].set(key, entry)
+    }
+  }
+
+  const rows = Object.fromEntries(
+    ACCESS_LOG_DIMENSIONS.map(dimension => [
+      dimension,
+      [...maps[dimension].entries()].map(([key, entry]) => ({ key, count: entry.count, lastSeen: entry.lastSeen, nodeIds: [...entry.nodeIds] })).sort((a, b) => b.count - a.count),
+    ]),
+  ) as Record<AccessLogDimension, AccessLogStatRow[]>
+
+  const timeline: AccessLogTimelineBucket[] = []
+  if (Number.isFinite(minTime)) {
+    const bucketMs = pickBucketMs(maxTime - minTime)
+    const start = Math.floor(minTime / bucketMs) * bucketMs
+    const buckets = new Map<number, AccessLogTimelineBucket>()
+    for (let time = start; time <= maxTime; time += bucketMs) {
+      buckets.set(time, { time, accepted: 0, rejected: 0 })
+    }
+    for (const log of logs) {
+      const time = log.timestamp?.getTime()
+      if (!log.access || time === undefined) continue
+      const bucket = buckets.get(Math.floor(time / bucketMs) * bucketMs)
+      if (!bucket) continue
+      if (log.access.accepted) {
+        bucket.accepted += 1
+      } else {
+        bucket.rejected += 1
+      }
+    }
+    timeline.push(...buckets.values())
+  }
+
+  return { total, rejected, rows, timeline }
+}
@@ -0,0 +1,1081 @@
+export type ApiEndpointMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+/** Badge colors per HTTP method in the API console. */
+export const METHOD_BADGE_CLASSES: Record<ApiEndpointMethod, string> = {
+  GET: 'bg-sky-500/10 text-sky-600 dark:text-sky-400',
+  HEAD: 'bg-sky-500/10 text-sky-600 dark:text-sky-400',
+  POST: 'bg-green-500/10 text-green-600 dark:text-green-400',
+  PUT: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+  PATCH: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+  DELETE: 'bg-red-500/10 text-red-600 dark:text-red-400',
+}
+
+/**
+ * What a route checks before running:
+ * - `{ resource, action }` mirrors `require_permission`, with `scopeAll` for `require_scope_all`
+ * - `owner` mirrors `require_owner`, which API keys with custom permissions never pass
+ * - `authenticated` accepts any valid admin credential
+ * - `public` needs no credential at all (login, setup and subscription routes)
+ */
+export type ApiEndpointAccess = { resource: string; action: string; scopeAll?: boolean } | 'owner' | 'authenticated' | 'public'
+
+export interface ApiEndpoint {
+  /** Name of the generated request function in `service/api`. */
+  id: string
+  method: ApiEndpointMethod
+  /** Path template with `{param}` placeholders named like the generated function arguments. */
+  path: string
+  summary: string
+  /** Permission resource the endpoint is listed under. */
+  group: string
+  access: ApiEndpointAccess
+  query?: string[]
+  /** Request body schema name, when the endpoint takes one. */
+  body?: string
+  /** Only set when the body is not JSON. */
+  contentType?: string
+}
+
+/**
+ * Every operation exported by `service/api`, paired with the dependency its backend route declares.
+ * Keep in sync when the API client is regenerated.
+ */
+export const API_ENDPOINTS: ApiEndpoint[] = [
+  { id: 'base', method: 'GET', path: '/', summary: 'Base', group: 'public', access: 'public' },
+  { id: 'health', method: 'GET', path: '/health', summary: 'Health', group: 'public', access: 'public' },
+  { id: 'adminToken', method: 'POST', path: '/api/admin/token', summary: 'Admin Token', group: 'public', access: 'public', body: 'BodyAdminToken', contentType: 'application/x-www-form-urlencoded' },
+  { id: 'adminMiniAppToken', method: 'POST', path: '/api/admin/miniapp/token', summary: 'Admin Mini App Token', group: 'public', access: 'public' },
+  { id: 'getCurrentAdmin', method: 'GET', path: '/api/admin', summary: 'Get Current Admin', group: 'admins', access: 'authenticated' },
+  { id: 'modifyOwnBranding', method: 'PUT', path: '/api/admin/me/branding', summary: 'Modify Own Branding', group: 'admins', access: 'authenticated', body: 'AdminBrandingModify' },
+  { id: 'createAdmin', method: 'POST', path: '/api/admin', summary: 'Create Admin', group: 'admins', access: { resource: 'admins', action: 'create' }, body: 'AdminCreate' },
+  { id: 'modifyAdmin', method: 'PUT', path: '/api/admin/{username}', summary: 'Modify Admin', group: 'admins', access: { resource: 'admins', action: 'update' }, body: 'AdminModify' },
+  { id: 'removeAdmin', method: 'DELETE', path: '/api/admin/{username}', summary: 'Remove Admin', group: 'admins', access: { resource: 'admins', action: 'delete' } },
+  {
+    id: 'modifyAdminByUsername',
+    method: 'PUT',
+    path: '/api/admin/by-username/{username}',
+    summary: 'Modify Admin By Username',
+    group: 'admins',
+    access: { resource: 'admins', action: 'update' },
+    body: 'AdminModify',
+  },
+  { id: 'removeAdminByUsername', method: 'DELETE', path: '/api/admin/by-username/{username}', summary: 'Remove Admin By Username', group: 'admins', access: { resource: 'admins', action: 'delete' } },
+  { id: 'modifyAdminById', method: 'PUT', path: '/api/admin/by-id/{adminId}', summary: 'Modify Admin By Id', group: 'admins', access: { resource: 'admins', action: 'update' }, body: 'AdminModify' },
+  { id: 'removeAdminById', method: 'DELETE', path: '/api/admin/by-id/{adminId}', summary: 'Remove Admin By Id', group: 'admins', access: { resource: 'admins', action: 'delete' } },
+  {
+    id: 'getAdmins',
+    method: 'GET',
+    path: '/api/admins',
+    summary: 'Get Admins',
+    group: 'admins',
+    access: { resource: 'admins', action: 'read' },
+    query: ['ids', 'usernames', 'username', 'offset', 'limit', 'sort'],
+  },
+  {
+    id: 'getAdminsSimple',
+    method: 'GET',
+    path: '/api/admins/simple',
+    summary: 'Get lightweight admin list',
+    group: 'admins',
+    access: { resource: 'admins', action: 'read_simple' },
+    query: ['ids', 'usernames', 'search', 'offset', 'limit', 'sort', 'all'],
+  },
+  {
+    id: 'getAdminUsage',
+    method: 'GET',
+    path: '/api/admin/{username}/usage',
+    summary: 'Get Admin Usage',
+    group: 'admins',
+    access: 'authenticated',
+    query: ['period', 'node_id', 'group_by_node', 'start', 'end'],
+  },
+  {
+    id: 'getAdminUsageByUsername',
+    method: 'GET',
+    path: '/api/admin/by-username/{username}/usage',
+    summary: 'Get Admin Usage By Username',
+    group: 'admins',
+    access: { resource: 'admins', action: 'read' },
+    query: ['period', 'node_id', 'group_by_node', 'start', 'end'],
+  },
+  {
+    id: 'getAdminUsageById',
+    method: 'GET',
+    path: '/api/admin/by-id/{adminId}/usage',
+    summary: 'Get Admin Usage By Id',
+    group: 'admins',
+    access: { resource: 'admins', action: 'read' },
+    query: ['period', 'node_id', 'group_by_node', 'start', 'end'],
+  },
+  { id: 'disableAllActiveUsers', method: 'POST', path: '/api/admin/{username}/users/disable', summary: 'Disable All Active Users', group: 'admins', access: { resource: 'admins', action: 'update' } },
+  {
+    id: 'disableAllActiveUsersByUsername',
+    method: 'POST',
+    path: '/api/admin/by-username/{username}/users/disable',
+    summary: 'Disable All Active Users By Username',
+    group: 'admins',
+    access: { resource: 'admins', action: 'update' },
+  },
+  {
+    id: 'disableAllActiveUsersById',
+    method: 'POST',
+    path: '/api/admin/by-id/{adminId}/users/disable',
+    summary: 'Disable All Active Users By Id',
+    group: 'admins',
+    access: { resource: 'admins', action: 'update' },
+  },
+  {
+    id: 'activateAllDisabledUsers',
+    method: 'POST',
+    path: '/api/admin/{username}/users/activate',
+    summary: 'Activate All Disabled Users',
+    group: 'admins',
+    access: { resource: 'admins', action: 'update' },
+  },
+  {
+    id: 'activateAllDisabledUsersByUsername',
+    method: 'POST',
+    path: '/api/admin/by-username/{username}/users/activate',
+    summary: 'Activate All Disabled Users By Username',
+    group: 'admins',
+    access: { resource: 'admins', action: 'update' },
+  },
+  {
+    id: 'activateAllDisabledUsersById',
+    method: 'POST',
+    path: '/api/admin/by-id/{adminId}/users/activate',
+    summary: 'Activate All Disabled Users By Id',
+    group: 'admins',
+    access: { resource: 'admins', action: 'update' },
+  },
+  { id: 'removeAllUsers', method: 'DELETE', path: '/api/admin/{username}/users', summary: 'Remove All Users', group: 'admins', access: { resource: 'admins', action: 'delete' } },
+  {
+    id: 'removeAllUsersByUsername',
+    method: 'DELETE',
+    path: '/api/admin/by-username/{username}/users',
+    summary: 'Remove All Users By Username',
+    group: 'admins',
+    access: { resource: 'admins', action: 'delete' },
+  },
+  { id: 'removeAllUsersById', method: 'DELETE', path: '/api/admin/by-id/{adminId}/users', summary: 'Remove All Users By Id', group: 'admins', access: { resource: 'admins', action: 'delete' } },
+  { id: 'resetAdminUsage', method: 'POST', path: '/api/admin/{username}/reset', summary: 'Reset Admin Usage', group: 'admins', access: { resource: 'admins', action: 'reset_usage' } },
+  {
+    id: 'resetAdminUsageByUsername',
+    method: 'POST',
+    path: '/api/admin/by-username/{username}/reset',
+    summary: 'Reset Admin Usage By Username',
+    group: 'admins',
+    access: { resource: 'admins', action: 'reset_usage' },
+  },
+  { id: 'resetAdminUsageById', method: 'POST', path: '/api/admin/by-id/{adminId}/reset', summary: 'Reset Admin Usage By Id', group: 'admins', access: { resource: 'admins', action: 'reset_usage' } },
+  {
+    id: 'bulkDeleteAdmins',
+    method: 'POST',
+    path: '/api/admins/bulk/delete',
+    summary: 'Bulk Delete Admins',
+    group: 'admins',
+    access: { resource: 'admins', action: 'delete' },
+    body: 'BulkAdminSelection',
+  },
+  {
+    id: 'bulkResetAdminsUsage',
+    method: 'POST',
+    path: '/api/admins/bulk/reset',
+    summary: 'Bulk Reset Admins Usage',
+    group: 'admins',
+    access: { resource: 'admins', action: 'reset_usage' },
+    body: 'BulkAdminSelection',
+  },
+  {
+    id: 'bulkDisableAdmins',
+    method: 'POST',
+    path: '/api/admins/bulk/disable',
+    summary: 'Bulk Disable Admins',
+    group: 'admins',
+    access: { resource: 'admins', action: 'update' },
+    body: 'BulkAdminSelection',
+  },
+  {
+    id: 'bulkEnableAdmins',
+    method: 'POST',
+    path: '/api/admins/bulk/enable',
+    summary: 'Bulk Enable Admins',
+    group: 'admins',
+    access: { resource: 'admins', action: 'update' },
+    body: 'BulkAdminSelection',
+  },
+  {
+    id: 'bulkDisableAllActiveUsers',
+    method: 'POST',
+    path: '/api/admins/bulk/users/disable',
+    summary: 'Bulk Disable All Active Users',
+    group: 'admins',
+    access: { resource: 'admins', action: 'update' },
+    body: 'BulkAdminSelection',
+  },
+  {
+    id: 'bulkActivateAllDisabledUsers',
+    method: 'POST',
+    path: '/api/admins/bulk/users/activate',
+    summary: 'Bulk Activate All Disabled Users',
+    group: 'admins',
+    access: { resource: 'admins', action: 'update' },
+    body: 'BulkAdminSelection',
+  },
+  {
+    id: 'bulkRemoveAllUsers',
+    method: 'DELETE',
+    path: '/api/admins/bulk/users',
+    summary: 'Bulk Remove All Users',
+    group: 'admins',
+    access: { resource: 'admins', action: 'delete' },
+    body: 'BulkAdminSelection',
+  },
+  { id: 'createApiKey', method: 'POST', path: '/api/api_key', summary: 'Create Api Key', group: 'api_keys', access: { resource: 'api_keys', action: 'create' }, body: 'APIKeyCreate' },
+  {
+    id: 'listApiKeys',
+    method: 'GET',
+    path: '/api/api_keys',
+    summary: 'List Api Keys',
+    group: 'api_keys',
+    access: { resource: 'api_keys', action: 'read' },
+    query: ['offset', 'limit', 'key_id', 'name', 'status'],
+  },
+  {
+    id: 'bulkDeleteApiKeys',
+    method: 'POST',
+    path: '/api/api_keys/bulk/delete',
+    summary: 'Bulk Delete Api Keys',
+    group: 'api_keys',
+    access: { resource: 'api_keys', action: 'delete' },
+    body: 'BulkAPIKeySelection',
+  },
+  { id: 'modifyApiKey', method: 'PATCH', path: '/api/api_key/{keyId}', summary: 'Modify Api Key', group: 'api_keys', access: { resource: 'api_keys', action: 'update' }, body: 'APIKeyUpdate' },
+  { id: 'getApiKey', method: 'GET', path: '/api/api_key/{keyId}', summary: 'Get Api Key', group: 'api_keys', access: { resource: 'api_keys', action: 'read' } },
+  { id: 'removeApiKey', method: 'DELETE', path: '/api/api_key/{keyId}', summary: 'Remove Api Key', group: 'api_keys', access: { resource: 'api_keys', action: 'delete' } },
+  { id: 'revokeApiKey', method: 'POST', path: '/api/api_key/{keyId}/revoke', summary: 'Revoke Api Key', group: 'api_keys', access: { resource: 'api_keys', action: 'delete' } },
+  {
+    id: 'getRoles',
+    method: 'GET',
+    path: '/api/admin-roles',
+    summary: 'Get Roles',
+    group: 'admin_roles',
+    access: { resource: 'admin_roles', action: 'read' },
+    query: ['search', 'offset', 'limit', 'sort'],
+  },
+  { id: 'getRolesSimple', method: 'GET', path: '/api/admin-roles/simple', summary: 'Get Roles Simple', group: 'admin_roles', access: { resource: 'admin_roles', action: 'read_simple' } },
+  { id: 'getRole', method: 'GET', path: '/api/admin-role/{roleId}', summary: 'Get Role', group: 'admin_roles', access: { resource: 'admin_roles', action: 'read' } },
+  { id: 'modifyRole', method: 'PUT', path: '/api/admin-role/{roleId}', summary: 'Modify Role', group: 'admin_roles', access: 'owner', body: 'AdminRoleModify' },
+  { id: 'deleteRole', method: 'DELETE', path: '/api/admin-role/{roleId}', summary: 'Delete Role', group: 'admin_roles', access: 'owner' },
+  { id: 'createRole', method: 'POST', path: '/api/admin-role', summary: 'Create Role', group: 'admin_roles', access: 'owner', body: 'AdminRoleCreate' },
+  { id: 'createOwner', method: 'POST', path: '/api/setup/owner', summary: 'Create Owner', group: 'public', access: 'public', body: 'OwnerCreateRequest' },
+  { id: 'resetOwnerPassword', method: 'PATCH', path: '/api/setup/owner', summary: 'Reset Owner Password', group: 'public', access: 'public', body: 'OwnerResetRequest' },
+  { id: 'deleteOwner', method: 'DELETE', path: '/api/setup/owner', summary: 'Delete Owner', group: 'public', access: 'public', query: ['key'] },
+  { id: 'upgradeOwner', method: 'POST', path: '/api/setup/owner/upgrade', summary: 'Upgrade Owner', group: 'public', access: 'public', body: 'OwnerUpgradeRequest' },
+  { id: 'getSystemStats', method: 'GET', path: '/api/system', summary: 'Get System Stats', group: 'system', access: { resource: 'system', action: 'read' }, query: ['admin_username'] },
+  { id: 'getSystemResourceStats', method: 'GET', path: '/api/system/resources', summary: 'Get System Resource Stats', group: 'system', access: { resource: 'system', action: 'read' } },
+  { id: 'getSystemUsersStats', method: 'GET', path: '/api/system/users', summary: 'Get System Users Stats', group: 'users', access: { resource: 'users', action: 'read' }, query: ['admin_username'] },
+  { id: 'getInbounds', method: 'GET', path: '/api/inbounds', summary: 'Get Inbounds', group: 'system', access: { resource: 'system', action: 'read' } },
+  { id: 'getInboundDetails', method: 'GET', path: '/api/inbounds/details', summary: 'Get Inbound Details', group: 'system', access: { resource: 'system', action: 'read' } },
+  { id: 'getWireguardSubnets', method: 'GET', path: '/api/wireguard/subnets', summary: 'Get Wireguard Subnets', group: 'cores', access: { resource: 'cores', action: 'read' } },
+  { id: 'getWorkersHealth', method: 'GET', path: '/api/workers/health', summary: 'Get Workers Health', group: 'system', access: { resource: 'system', action: 'read' } },
+  { id: 'getSettings', method: 'GET', path: '/api/settings', summary: 'Get Settings', group: 'settings', access: { resource: 'settings', action: 'read' } },
+  { id: 'modifySettings', method: 'PUT', path: '/api/settings', summary: 'Modify Settings', group: 'settings', access: { resource: 'settings', action: 'update' }, body: 'SettingsSchema' },
+  { id: 'getGeneralSettings', method: 'GET', path: '/api/settings/general', summary: 'Get General Settings', group: 'settings', access: { resource: 'settings', action: 'read_general' } },
+  { id: 'createGroup', method: 'POST', path: '/api/group', summary: 'Create a new group', group: 'groups', access: { resource: 'groups', action: 'create' }, body: 'GroupCreate' },
+  { id: 'getAllGroups', method: 'GET', path: '/api/groups', summary: 'List all groups', group: 'groups', access: { resource: 'groups', action: 'read' }, query: ['ids', 'offset', 'limit'] },
+  {
+    id: 'getGroupsSimple',
+    method: 'GET',
+    path: '/api/groups/simple',
+    summary: 'Get lightweight group list',
+    group: 'groups',
+    access: { resource: 'groups', action: 'read_simple' },
+    query: ['ids', 'offset', 'limit', 'search', 'sort', 'all'],
+  },
+  { id: 'getGroup', method: 'GET', path: '/api/group/{groupId}', summary: 'Get group details', group: 'groups', access: { resource: 'groups', action: 'read' } },
+  { id: 'modifyGroup', method: 'PUT', path: '/api/group/{groupId}', summary: 'Modify group', group: 'groups', access: { resource: 'groups', action: 'update' }, body: 'GroupModify' },
+  { id: 'removeGroup', method: 'DELETE', path: '/api/group/{groupId}', summary: 'Remove group', group: 'groups', access: { resource: 'groups', action: 'delete' } },
+  {
+    id: 'bulkAddGroupsToUsers',
+    method: 'POST',
+    path: '/api/groups/bulk/add',
+    summary: 'Bulk add groups to users',
+    group: 'groups',
+    access: { resource: 'groups', action: 'update' },
+    body: 'BulkGroup',
+  },
+  {
+    id: 'bulkRemoveUsersFromGroups',
+    method: 'POST',
+    path: '/api/groups/bulk/remove',
+    summary: 'Bulk remove groups from users',
+    group: 'groups',
+    access: { resource: 'groups', action: 'update' },
+    body: 'BulkGroup',
+  },
+  {
+    id: 'bulkDeleteGroups',
+    method: 'POST',
+    path: '/api/groups/bulk/delete',
+    summary: 'Bulk Delete Groups',
+    group: 'groups',
+    access: { resource: 'groups', action: 'delete' },
+    body: 'BulkGroupSelection',
+  },
+  {
+    id: 'bulkDisableGroups',
+    method: 'POST',
+    path: '/api/groups/bulk/disable',
+    summary: 'Bulk Disable Groups',
+    group: 'groups',
+    access: { resource: 'groups', action: 'update' },
+    body: 'BulkGroupSelection',
+  },
+  {
+    id: 'bulkEnableGroups',
+    method: 'POST',
+    path: '/api/groups/bulk/enable',
+    summary: 'Bulk Enable Groups',
+    group: 'groups',
+    access: { resource: 'groups', action: 'update' },
+    body: 'BulkGroupSelection',
+  },
+  {
+    id: 'createCoreConfig',
+    method: 'POST',
+    path: '/api/core',
+    summary: 'Create Core Config',
+    group: 'cores',
+    access: { resource: 'cores', action: 'create' },
+    query: ['note'],
+    body: 'CoreCreate',
+  },
+  {
+    id: 'scanRealityTarget',
+    method: 'POST',
+    path: '/api/core/reality-scan',
+    summary: 'Scan Reality Target',
+    group: 'cores',
+    access: { resource: 'cores', action: 'read' },
+    body: 'RealityScanRequest',
+  },
+  { id: 'getCoreConfig', method: 'GET', path: '/api/core/{coreId}', summary: 'Get Core Config', group: 'cores', access: { resource: 'cores', action: 'read' } },
+  {
+    id: 'modifyCoreConfig',
+    method: 'PUT',
+    path: '/api/core/{coreId}',
+    summary: 'Modify Core Config',
+    group: 'cores',
+    access: { resource: 'cores', action: 'update' },
+    query: ['restart_nodes', 'note'],
+    body: 'CoreCreate',
+  },
+  {
+    id: 'getCoreRevisions',
+    method: 'GET',
+    path: '/api/core/{coreId}/revisions',
+    summary: 'Get Core Revisions',
+    group: 'cores',
+    access: { resource: 'cores', action: 'read' },
+    query: ['offset', 'limit'],
+  },
+  { id: 'getCoreRevision', method: 'GET', path: '/api/core/{coreId}/revisions/{revisionId}', summary: 'Get Core Revision', group: 'cores', access: { resource: 'cores', action: 'read' } },
+  {
+    id: 'annotateCoreRevision',
+    method: 'PUT',
+    path: '/api/core/{coreId}/revisions/{revisionId}',
+    summary: 'Annotate Core Revision',
+    group: 'cores',
+    access: { resource: 'cores', action: 'update' },
+    body: 'CoreRevisionNote',
+  },
+  { id: 'applyCoreRollout', method: 'POST', path: '/api/core/{coreId}/rollout', summary: 'Apply Core Rollout', group: 'cores', access: { resource: 'cores', action: 'update' }, body: 'CoreRollout' },
+  { id: 'deleteCoreConfig', method: 'DELETE', path: '/api/core/{coreId}', summary: 'Delete Core Config', group: 'cores', access: { resource: 'cores', action: 'delete' }, query: ['restart_nodes'] },
+  { id: 'getAllCores', method: 'GET', path: '/api/cores', summary: 'Get All Cores', group: 'cores', access: { resource: 'cores', action: 'read' }, query: ['ids', 'offset', 'limit'] },
+  {
+    id: 'getCoresSimple',
+    method: 'GET',
+    path: '/api/cores/simple',
+    summary: 'Get lightweight core list',
+    group: 'cores',
+    access: { resource: 'cores', action: 'read_simple' },
+    query: ['ids', 'offset', 'limit', 'search', 'sort', 'all'],
+  },
+  { id: 'restartCore', method: 'POST', path: '/api/core/{coreId}/restart', summary: 'Restart Core', group: 'cores', access: { resource: 'cores', action: 'update' } },
+  { id: 'bulkDeleteCores', method: 'POST', path: '/api/cores/bulk/delete', summary: 'Bulk Delete Cores', group: 'cores', access: { resource: 'cores', action: 'delete' }, body: 'BulkCoreSelection' },
+  {
+    id: 'createClientTemplate',
+    method: 'POST',
+    path: '/api/client_template',
+    summary: 'Create Client Template',
+    group: 'client_templates',
+    access: { resource: 'client_templates', action: 'create' },
+    body: 'ClientTemplateCreate',
+  },
+  {
+    id: 'previewClientTemplate',
+    method: 'POST',
+    path: '/api/client_template/preview',
+    summary: 'Preview Client Template',
+    group: 'client_templates',
+    access: { resource: 'client_templates', action: 'read' },
+    body: 'ClientTemplatePreview',
+  },
+  {
+    id: 'getClientTemplate',
+    method: 'GET',
+    path: '/api/client_template/{templateId}',
+    summary: 'Get Client Template',
+    group: 'client_templates',
+    access: { resource: 'client_templates', action: 'read' },
+  },
+  {
+    id: 'modifyClientTemplate',
+    method: 'PUT',
+    path: '/api/client_template/{templateId}',
+    summary: 'Modify Client Template',
+    group: 'client_templates',
+    access: { resource: 'client_templates', action: 'update' },
+    body: 'ClientTemplateModify',
+  },
+  {
+    id: 'removeClientTemplate',
+    method: 'DELETE',
+    path: '/api/client_template/{templateId}',
+    summary: 'Remove Client Template',
+    group: 'client_templates',
+    access: { resource: 'client_templates', action: 'delete' },
+  },
+  {
+    id: 'getClientTemplates',
+    method: 'GET',
+    path: '/api/client_templates',
+    summary: 'Get Client Templates',
+    group: 'client_templates',
+    access: { resource: 'client_templates', action: 'read' },
+    query: ['ids', 'template_type', 'offset', 'limit'],
+  },
+  {
+    id: 'getClientTemplatesSimple',
+    method: 'GET',
+    path: '/api/client_templates/simple',
+    summary: 'Get Client Templates Simple',
+    group: 'client_templates',
+    access: { resource: 'client_templates', action: 'read_simple' },
+    query: ['ids', 'template_type', 'offset', 'limit', 'search', 'sort', 'all'],
+  },
+  {
+    id: 'bulkDeleteClientTemplates',
+    method: 'POST',
+    path: '/api/client_templates/bulk/delete',
+    summary: 'Bulk Delete Client Templates',
+    group: 'client_templates',
+    access: { resource: 'client_templates', action: 'delete' },
+    body: 'BulkClientTemplateSelection',
+  },
+  { id: 'previewHost', method: 'POST', path: '/api/host/preview', summary: 'Preview Host', group: 'hosts', access: { resource: 'hosts', action: 'read' }, body: 'HostPreview' },
+  { id: 'getHost', method: 'GET', path: '/api/host/{hostId}', summary: 'Get Host', group: 'hosts', access: { resource: 'hosts', action: 'read' } },
+  { id: 'modifyHost', method: 'PUT', path: '/api/host/{hostId}', summary: 'Modify Host', group: 'hosts', access: { resource: 'hosts', action: 'update' }, body: 'CreateHost' },
+  { id: 'removeHost', method: 'DELETE', path: '/api/host/{hostId}', summary: 'Remove Host', group: 'hosts', access: { resource: 'hosts', action: 'update' } },
+  { id: 'getHosts', method: 'GET', path: '/api/hosts', summary: 'Get Hosts', group: 'hosts', access: { resource: 'hosts', action: 'read' }, query: ['ids', 'offset', 'limit'] },
+  { id: 'modifyHosts', method: 'PUT', path: '/api/hosts', summary: 'Modify Hosts', group: 'hosts', access: { resource: 'hosts', action: 'update' }, body: 'CreateHost' },
+  { id: 'createHost', method: 'POST', path: '/api/host/', summary: 'Create Host', group: 'hosts', access: { resource: 'hosts', action: 'create' }, body: 'CreateHost' },
+  { id: 'bulkDeleteHosts', method: 'POST', path: '/api/hosts/bulk/delete', summary: 'Bulk Delete Hosts', group: 'hosts', access: { resource: 'hosts', action: 'update' }, body: 'BulkHostSelection' },
+  {
+    id: 'bulkDisableHosts',
+    method: 'POST',
+    path: '/api/hosts/bulk/disable',
+    summary: 'Bulk Disable Hosts',
+    group: 'hosts',
+    access: { resource: 'hosts', action: 'update' },
+    body: 'BulkHostSelection',
+  },
+  { id: 'bulkEnableHosts', method: 'POST', path: '/api/hosts/bulk/enable', summary: 'Bulk Enable Hosts', group: 'hosts', access: { resource: 'hosts', action: 'update' }, body: 'BulkHostSelection' },
+  { id: 'checkHostsHealth', method: 'POST', path: '/api/hosts/health', summary: 'Check Hosts Health', group: 'hosts', access: { resource: 'hosts', action: 'read' }, body: 'BulkHostSelection' },
+  { id: 'getNodeSettings', method: 'GET', path: '/api/node/settings', summary: 'Get Node Settings', group: 'nodes', access: { resource: 'nodes', action: 'read' } },
+  {
+    id: 'getUsage',
+    method: 'GET',
+    path: '/api/node/usage',
+    summary: 'Get Usage',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'stats' },
+    query: ['period', 'node_id', 'group_by_node', 'start', 'end'],
+  },
+  {
+    id: 'getUserCountMetric',
+    method: 'GET',
+    path: '/api/node/user_counts/{metric}',
+    summary: 'Get User Count Metric',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'stats' },
+    query: ['period', 'node_id', 'group_by_node', 'start', 'end'],
+  },
+  {
+    id: 'getNodes',
+    method: 'GET',
+    path: '/api/nodes',
+    summary: 'Get Nodes',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'read' },
+    query: ['core_id', 'offset', 'limit', 'ids', 'status', 'enabled', 'search'],
+  },
+  {
+    id: 'getNodesSimple',
+    method: 'GET',
+    path: '/api/nodes/simple',
+    summary: 'Get lightweight node list',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'read_simple' },
+    query: ['ids', 'offset', 'limit', 'search', 'sort', 'all'],
+  },
+  { id: 'reconnectAllNode', method: 'POST', path: '/api/nodes/reconnect', summary: 'Reconnect All Node', group: 'nodes', access: { resource: 'nodes', action: 'reconnect' }, query: ['core_id'] },
+  { id: 'createNode', method: 'POST', path: '/api/node', summary: 'Create Node', group: 'nodes', access: { resource: 'nodes', action: 'create' }, body: 'NodeCreate' },
+  { id: 'getNode', method: 'GET', path: '/api/node/{nodeId}', summary: 'Get Node', group: 'nodes', access: { resource: 'nodes', action: 'read' } },
+  { id: 'modifyNode', method: 'PUT', path: '/api/node/{nodeId}', summary: 'Modify Node', group: 'nodes', access: { resource: 'nodes', action: 'update' }, body: 'NodeModify' },
+  { id: 'removeNode', method: 'DELETE', path: '/api/node/{nodeId}', summary: 'Remove Node', group: 'nodes', access: { resource: 'nodes', action: 'delete' } },
+  { id: 'updateNode', method: 'POST', path: '/api/node/{nodeId}/update', summary: 'Update Node', group: 'nodes', access: { resource: 'nodes', action: 'update_core' } },
+  { id: 'updateCore', method: 'POST', path: '/api/node/{nodeId}/core_update', summary: 'Update Core', group: 'nodes', access: { resource: 'nodes', action: 'update_core' }, body: 'NodeCoreUpdate' },
+  {
+    id: 'updateGeofiles',
+    method: 'POST',
+    path: '/api/node/{nodeId}/geofiles',
+    summary: 'Update Geofiles',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'update_core' },
+    body: 'NodeGeoFilesUpdate',
+  },
+  { id: 'resetNodeUsage', method: 'POST', path: '/api/node/{nodeId}/reset', summary: 'Reset Node Usage', group: 'nodes', access: { resource: 'nodes', action: 'update' } },
+  { id: 'reconnectNode', method: 'POST', path: '/api/node/{nodeId}/reconnect', summary: 'Reconnect Node', group: 'nodes', access: { resource: 'nodes', action: 'reconnect' } },
+  { id: 'syncNode', method: 'PUT', path: '/api/node/{nodeId}/sync', summary: 'Sync Node', group: 'nodes', access: { resource: 'nodes', action: 'update' }, query: ['flush_users'] },
+  { id: 'nodeLogs', method: 'GET', path: '/api/node/{nodeId}/logs', summary: 'Node Logs', group: 'nodes', access: { resource: 'nodes', action: 'logs' } },
+  {
+    id: 'getNodeStatsPeriodic',
+    method: 'GET',
+    path: '/api/node/{nodeId}/stats',
+    summary: 'Get Node Stats Periodic',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'stats' },
+    query: ['period', 'start', 'end'],
+  },
+  { id: 'realtimeNodeStats', method: 'GET', path: '/api/node/{nodeId}/realtime_stats', summary: 'Realtime Node Stats', group: 'nodes', access: { resource: 'nodes', action: 'stats' } },
+  {
+    id: 'nodeOutboundsLatency',
+    method: 'GET',
+    path: '/api/node/{nodeId}/outbounds_latency',
+    summary: 'Node Outbounds Latency',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'stats' },
+    query: ['name', 'timeout'],
+  },
+  { id: 'realtimeNodesStats', method: 'GET', path: '/api/nodes/realtime_stats', summary: 'Realtime Nodes Stats', group: 'nodes', access: { resource: 'nodes', action: 'stats' } },
+  {
+    id: 'userOnlineIpListAllNodes',
+    method: 'GET',
+    path: '/api/node/online_stats/{userId}/ip',
+    summary: 'User Online Ip List All Nodes',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'stats' },
+  },
+  { id: 'userOnlineStats', method: 'GET', path: '/api/node/{nodeId}/online_stats/{userId}', summary: 'User Online Stats', group: 'nodes', access: { resource: 'nodes', action: 'stats' } },
+  { id: 'userOnlineIpList', method: 'GET', path: '/api/node/{nodeId}/online_stats/{userId}/ip', summary: 'User Online Ip List', group: 'nodes', access: { resource: 'nodes', action: 'stats' } },
+  {
+    id: 'clearUsageData',
+    method: 'DELETE',
+    path: '/api/nodes/clear_usage_data/{table}',
+    summary: 'Clear usage data from a specified table',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'delete' },
+    query: ['start', 'end'],
+  },
+  { id: 'bulkDeleteNodes', method: 'POST', path: '/api/nodes/bulk/delete', summary: 'Bulk Delete Nodes', group: 'nodes', access: { resource: 'nodes', action: 'delete' }, body: 'BulkNodeSelection' },
+  {
+    id: 'bulkDisableNodes',
+    method: 'POST',
+    path: '/api/nodes/bulk/disable',
+    summary: 'Bulk Disable Nodes',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'update' },
+    body: 'BulkNodeSelection',
+  },
+  { id: 'bulkEnableNodes', method: 'POST', path: '/api/nodes/bulk/enable', summary: 'Bulk Enable Nodes', group: 'nodes', access: { resource: 'nodes', action: 'update' }, body: 'BulkNodeSelection' },
+  {
+    id: 'bulkResetNodesUsage',
+    method: 'POST',
+    path: '/api/nodes/bulk/reset',
+    summary: 'Bulk Reset Nodes Usage',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'update' },
+    body: 'BulkNodeSelection',
+  },
+  {
+    id: 'bulkReconnectNodes',
+    method: 'POST',
+    path: '/api/nodes/bulk/reconnect',
+    summary: 'Bulk Reconnect Nodes',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'reconnect' },
+    body: 'BulkNodeSelection',
+  },
+  {
+    id: 'bulkUpdateNodes',
+    method: 'POST',
+    path: '/api/nodes/bulk/update',
+    summary: 'Bulk Update Nodes',
+    group: 'nodes',
+    access: { resource: 'nodes', action: 'update_core' },
+    body: 'BulkNodeSelection',
+  },
+  { id: 'createUser', method: 'POST', path: '/api/user', summary: 'Create User', group: 'users', access: { resource: 'users', action: 'create' }, body: 'UserCreate' },
+  { id: 'modifyUser', method: 'PUT', path: '/api/user/{username}', summary: 'Modify User', group: 'users', access: { resource: 'users', action: 'update' }, body: 'UserModify' },
+  { id: 'removeUser', method: 'DELETE', path: '/api/user/{username}', summary: 'Remove User', group: 'users', access: { resource: 'users', action: 'delete' } },
+  { id: 'getUser', method: 'GET', path: '/api/user/{username}', summary: 'Get User', group: 'users', access: { resource: 'users', action: 'read' } },
+  {
+    id: 'modifyUserByUsername',
+    method: 'PUT',
+    path: '/api/user/by-username/{username}',
+    summary: 'Modify User By Username',
+    group: 'users',
+    access: { resource: 'users', action: 'update' },
+    body: 'UserModify',
+  },
+  { id: 'removeUserByUsername', method: 'DELETE', path: '/api/user/by-username/{username}', summary: 'Remove User By Username', group: 'users', access: { resource: 'users', action: 'delete' } },
+  { id: 'getUserByUsername', method: 'GET', path: '/api/user/by-username/{username}', summary: 'Get User By Username', group: 'users', access: { resource: 'users', action: 'read' } },
+  { id: 'modifyUserById', method: 'PUT', path: '/api/user/by-id/{userId}', summary: 'Modify User By Id', group: 'users', access: { resource: 'users', action: 'update' }, body: 'UserModify' },
+  { id: 'removeUserById', method: 'DELETE', path: '/api/user/by-id/{userId}', summary: 'Remove User By Id', group: 'users', access: { resource: 'users', action: 'delete' } },
+  { id: 'getUserById', method: 'GET', path: '/api/user/by-id/{userId}', summary: 'Get User By Id', group: 'users', access: { resource: 'users', action: 'read' } },
+  {
+    id: 'setUserDisabled',
+    method: 'PUT',
+    path: '/api/user/{username}/disabled',
+    summary: 'Set User Disabled',
+    group: 'users',
+    access: { resource: 'users', action: 'update' },
+    body: 'UserStatusToggle',
+  },
+  {
+    id: 'setUserDisabledByUsername',
+    method: 'PUT',
+    path: '/api/user/by-username/{username}/disabled',
+    summary: 'Set User Disabled By Username',
+    group: 'users',
+    access: { resource: 'users', action: 'update' },
+    body: 'UserStatusToggle',
+  },
+  {
+    id: 'setUserDisabledById',
+    method: 'PUT',
+    path: '/api/user/by-id/{userId}/disabled',
+    summary: 'Set User Disabled By Id',
+    group: 'users',
+    access: { resource: 'users', action: 'update' },
+    body: 'UserStatusToggle',
+  },
+  { id: 'resetUserDataUsage', method: 'POST', path: '/api/user/{username}/reset', summary: 'Reset User Data Usage', group: 'users', access: { resource: 'users', action: 'reset_usage' } },
+  {
+    id: 'resetUserDataUsageByUsername',
+    method: 'POST',
+    path: '/api/user/by-username/{username}/reset',
+    summary: 'Reset User Data Usage By Username',
+    group: 'users',
+    access: { resource: 'users', action: 'reset_usage' },
+  },
+  {
+    id: 'resetUserDataUsageById',
+    method: 'POST',
+    path: '/api/user/by-id/{userId}/reset',
+    summary: 'Reset User Data Usage By Id',
+    group: 'users',
+    access: { resource: 'users', action: 'reset_usage' },
+  },
+  { id: 'revokeUserSubscription', method: 'POST', path: '/api/user/{username}/revoke_sub', summary: 'Revoke User Subscription', group: 'users', access: { resource: 'users', action: 'revoke_sub' } },
+  {
+    id: 'revokeUserSubscriptionByUsername',
+    method: 'POST',
+    path: '/api/user/by-username/{username}/revoke_sub',
+    summary: 'Revoke User Subscription By Username',
+    group: 'users',
+    access: { resource: 'users', action: 'revoke_sub' },
+  },
+  {
+    id: 'revokeUserSubscriptionById',
+    method: 'POST',
+    path: '/api/user/by-id/{userId}/revoke_sub',
+    summary: 'Revoke User Subscription By Id',
+    group: 'users',
+    access: { resource: 'users', action: 'revoke_sub' },
+  },
+  { id: 'resetUsersDataUsage', method: 'POST', path: '/api/users/reset', summary: 'Reset Users Data Usage', group: 'users', access: { resource: 'users', action: 'reset_usage', scopeAll: true } },
+  {
+    id: 'getUsersSubUpdateChart',
+    method: 'GET',
+    path: '/api/users/sub_update/chart',
+    summary: 'Get Users Sub Update Chart',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+    query: ['user_id', 'username', 'admin_id', 'period', 'start', 'end'],
+  },
+  { id: 'setOwner', method: 'PUT', path: '/api/user/{username}/set_owner', summary: 'Set Owner', group: 'users', access: { resource: 'users', action: 'set_owner' }, query: ['admin_username'] },
+  {
+    id: 'setOwnerByUsername',
+    method: 'PUT',
+    path: '/api/user/by-username/{username}/set_owner',
+    summary: 'Set Owner By Username',
+    group: 'users',
+    access: { resource: 'users', action: 'set_owner' },
+    query: ['admin_username'],
+  },
+  {
+    id: 'setOwnerById',
+    method: 'PUT',
+    path: '/api/user/by-id/{userId}/set_owner',
+    summary: 'Set Owner By Id',
+    group: 'users',
+    access: { resource: 'users', action: 'set_owner' },
+    query: ['admin_username'],
+  },
+  { id: 'activeNextPlan', method: 'POST', path: '/api/user/{username}/active_next', summary: 'Active Next Plan', group: 'users', access: { resource: 'users', action: 'activate_next_plan' } },
+  {
+    id: 'activeNextPlanByUsername',
+    method: 'POST',
+    path: '/api/user/by-username/{username}/active_next',
+    summary: 'Active Next Plan By Username',
+    group: 'users',
+    access: { resource: 'users', action: 'activate_next_plan' },
+  },
+  {
+    id: 'activeNextPlanById',
+    method: 'POST',
+    path: '/api/user/by-id/{userId}/active_next',
+    summary: 'Active Next Plan By Id',
+    group: 'users',
+    access: { resource: 'users', action: 'activate_next_plan' },
+  },
+  {
+    id: 'getUserSubscriptionById',
+    method: 'GET',
+    path: '/api/user/{userId}/subscription/{clientType}',
+    summary: 'Get User Subscription By Id',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+  },
+  {
+    id: 'getUserSubUpdateList',
+    method: 'GET',
+    path: '/api/user/{username}/sub_update',
+    summary: 'Get User Sub Update List',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+    query: ['offset', 'limit'],
+  },
+  {
+    id: 'getUserSubUpdateListByUsername',
+    method: 'GET',
+    path: '/api/user/by-username/{username}/sub_update',
+    summary: 'Get User Sub Update List By Username',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+    query: ['offset', 'limit'],
+  },
+  {
+    id: 'getUserSubUpdateListById',
+    method: 'GET',
+    path: '/api/user/by-id/{userId}/sub_update',
+    summary: 'Get User Sub Update List By Id',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+    query: ['offset', 'limit'],
+  },
+  {
+    id: 'getUsers',
+    method: 'GET',
+    path: '/api/users',
+    summary: 'Get Users',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+    query: [
+      'offset',
+      'limit',
+      'ids',
+      'username',
+      'usernames',
+      'admin',
+      'admin_ids',
+      'group',
+      'search',
+      'status',
+      'sort',
+      'proxy_id',
+      'data_limit_reset_strategy',
+      'data_limit_min',
+      'data_limit_max',
+      'expire_after',
+      'expire_before',
+      'online_after',
+      'online_before',
+      'online',
+      'no_data_limit',
+      'no_expire',
+      'load_sub',
+    ],
+  },
+  {
+    id: 'getUsersSimple',
+    method: 'GET',
+    path: '/api/users/simple',
+    summary: 'Get lightweight user list',
+    group: 'users',
+    access: { resource: 'users', action: 'read_simple' },
+    query: ['ids', 'usernames', 'offset', 'limit', 'search', 'sort', 'all'],
+  },
+  {
+    id: 'getUserUsage',
+    method: 'GET',
+    path: '/api/user/{username}/usage',
+    summary: 'Get User Usage',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+    query: ['period', 'node_id', 'group_by_node', 'start', 'end'],
+  },
+  {
+    id: 'getUserUsageByUsername',
+    method: 'GET',
+    path: '/api/user/by-username/{username}/usage',
+    summary: 'Get User Usage By Username',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+    query: ['period', 'node_id', 'group_by_node', 'start', 'end'],
+  },
+  {
+    id: 'getUserUsageById',
+    method: 'GET',
+    path: '/api/user/by-id/{userId}/usage',
+    summary: 'Get User Usage By Id',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+    query: ['period', 'node_id', 'group_by_node', 'start', 'end'],
+  },
+  {
+    id: 'getUsersUsage',
+    method: 'GET',
+    path: '/api/users/usage',
+    summary: 'Get Users Usage',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+    query: ['period', 'node_id', 'group_by_node', 'start', 'end', 'admin'],
+  },
+  {
+    id: 'getUsersCountMetric',
+    method: 'GET',
+    path: '/api/users/counts/{metric}',
+    summary: 'Get Users Count Metric',
+    group: 'users',
+    access: { resource: 'users', action: 'read' },
+    query: ['period', 'node_id', 'group_by_node', 'start', 'end', 'admin'],
+  },
+  {
+    id: 'getExpiredUsers',
+    method: 'GET',
+    path: '/api/users/expired',
+    summary: 'Get Expired Users',
+    group: 'users',
+    access: { resource: 'users', action: 'read', scopeAll: true },
+    query: ['admin_username', 'target', 'expired_after', 'expired_before', 'dry_run'],
+  },
+  {
+    id: 'deleteExpiredUsers',
+    method: 'DELETE',
+    path: '/api/users/expired',
+    summary: 'Delete Expired Users',
+    group: 'users',
+    access: { resource: 'users', action: 'delete', scopeAll: true },
+    query: ['admin_username', 'target', 'expired_after', 'expired_before', 'dry_run'],
+  },
+  { id: 'bulkDeleteUsers', method: 'POST', path: '/api/users/bulk/delete', summary: 'Bulk Delete Users', group: 'users', access: { resource: 'users', action: 'delete' }, body: 'BulkUsersSelection' },
+  {
+    id: 'bulkResetUsersDataUsage',
+    method: 'POST',
+    path: '/api/users/bulk/reset',
+    summary: 'Bulk Reset Users Data Usage',
+    group: 'users',
+    access: { resource: 'users', action: 'reset_usage' },
+    body: 'BulkUsersSelection',
+  },
+  {
+    id: 'bulkDisableUsers',
+    method: 'POST',
+    path: '/api/users/bulk/disable',
+    summary: 'Bulk Disable Users',
+    group: 'users',
+    access: { resource: 'users', action: 'update' },
+    body: 'BulkUsersSelection',
+  },
+  { id: 'bulkEnableUsers', method: 'POST', path: '/api/users/bulk/enable', summary: 'Bulk Enable Users', group: 'users', access: { resource: 'users', action: 'update' }, body: 'BulkUsersSelection' },
+  {
+    id: 'bulkRevokeUsersSubscription',
+    method: 'POST',
+    path: '/api/users/bulk/revoke_sub',
+    summary: 'Bulk Revoke Users Subscription',
+    group: 'users',
+    access: { resource: 'users', action: 'revoke_sub' },
+    body: 'BulkUsersSelection',
+  },
+  { id: 'bulkSetOwner', method: 'PUT', path: '/api/users/bulk/set_owner', summary: 'Bulk Set Owner', group: 'users', access: { resource: 'users', action: 'set_owner' }, body: 'BulkUsersSetOwner' },
+  {
+    id: 'createUserFromTemplate',
+    method: 'POST',
+    path: '/api/user/from_template',
+    summary: 'Create User From Template',
+    group: 'users',
+    access: { resource: 'users', action: 'create' },
+    body: 'CreateUserFromTemplate',
+  },
+  {
+    id: 'bulkCreateUsersFromTemplate',
+    method: 'POST',
+    path: '/api/users/bulk/from_template',
+    summary: 'Bulk Create Users From Template',
+    group: 'users',
+    access: { resource: 'users', action: 'create' },
+    body: 'BulkUsersFromTemplate',
+  },
+  {
+    id: 'bulkApplyTemplateToUsers',
+    method: 'POST',
+    path: '/api/users/bulk/apply_template',
+    summary: 'Bulk Apply Template To Users',
+    group: 'users',
+    access: { resource: 'users', action: 'update' },
+    body: 'BulkUsersApplyTemplate',
+  },
+  {
+    id: 'modifyUserWithTemplate',
+    method: 'PUT',
+    path: '/api/user/from_template/{username}',
+    summary: 'Modify User With Template',
+    group: 'users',
+    access: { resource: 'users', action: 'update' },
+    body: 'ModifyUserByTemplate',
+  },
+  {
+    id: 'modifyUserWithTemplateByUsername',
+    method: 'PUT',
+    path: '/api/user/from_template/by-username/{username}',
+    summary: 'Modify User With Template By Username',
+    group: 'users',
+    access: { resource: 'users', action: 'update' },
+    body: 'ModifyUserByTemplate',
+  },
+  {
+    id: 'modifyUserWithTemplateById',
+    method: 'PUT',
+    path: '/api/user/from_template/by-id/{userId}',
+    summary: 'Modify User With Template By Id',
+    group: 'users',
+    access: { resource: 'users', action: 'update' },
+    body: 'ModifyUserByTemplate',
+  },
+  {
+    id: 'bulkModifyUsersExpire',
+    method: 'POST',
+    path: '/api/users/bulk/expire',
+    summary: 'Bulk sum/sub to expire of users',
+    group: 'users',
+    access: { resource: 'users', action: 'update', scopeAll: true },
+    body: 'BulkUser',
+  },
+  {
+    id: 'bulkModifyUsersDatalimit',
+    method: 'POST',
+    path: '/api/users/bulk/data_limit',
+    summary: 'Bulk sum/sub to data limit of users',
+    group: 'users',
+    access: { resource: 'users', action: 'update', scopeAll: true },
+    body: 'BulkUser',
+  },
+  {
+    id: 'bulkModifyUsersProxySettings',
+    method: 'POST',
+    path: '/api/users/bulk/proxy_settings',
+    summary: 'Bulk modify users proxy settings',
+    group: 'users',
+    access: { resource: 'users', action: 'update', scopeAll: true },
+    body: 'BulkUsersProxy',
+  },
+  { id: 'userSubscription', method: 'GET', path: '/sub/{token}/', summary: 'User Subscription', group: 'public', access: 'public' },
+  { id: 'userSubscriptionHeaders', method: 'HEAD', path: '/sub/{token}/', summary: 'User Subscription Headers', group: 'public', access: 'public' },
+  { id: 'userSubscriptionInfo', method: 'GET', path: '/sub/{token}/info', summary: 'User Subscription Info', group: 'public', access: 'public' },
+  { id: 'userSubscriptionRaw', method: 'GET', path: '/sub/{token}/raw', summary: 'User Subscription Raw', group: 'public', access: 'public' },
+  { id: 'userSubscriptionApps', method: 'GET', path: '/sub/{token}/apps', summary: 'User Subscription Apps', group: 'public', access: 'public' },
+  { id: 'getSubUserUsage', method: 'GET', path: '/sub/{token}/usage', summary: 'Get Sub User Usage', group: 'public', access: 'public', query: ['period', 'start', 'end'] },
+  { id: 'userSubscriptionWithClientType', method: 'GET', path: '/sub/{token}/{clientType}', summary: 'User Subscription With Client Type', group: 'public', access: 'public' },
+  {
+    id: 'createUserTemplate',
+    method: 'POST',
+    path: '/api/user_template',
+    summary: 'Create User Template',
+    group: 'templates',
+    access: { resource: 'templates', action: 'create' },
+    body: 'UserTemplateCreate',
+  },
+  { id: 'getUserTemplate', method: 'GET', path: '/api/user_template/{templateId}', summary: 'Get User Template', group: 'templates', access: { resource: 'templates', action: 'read' } },
+  {
+    id: 'modifyUserTemplate',
+    method: 'PUT',
+    path: '/api/user_template/{templateId}',
+    summary: 'Modify User Template',
+    group: 'templates',
+    access: { resource: 'templates', action: 'update' },
+    body: 'UserTemplateModify',
+  },
+  { id: 'removeUserTemplate', method: 'DELETE', path: '/api/user_template/{templateId}', summary: 'Remove User Template', group: 'templates', access: { resource: 'templates', action: 'delete' } },
+  {
+    id: 'getUserTemplates',
+    method: 'GET',
+    path: '/api/user_templates',
+    summary: 'Get User Templates',
+    group: 'templates',
+    access: { resource: 'templates', action: 'read' },
+    query: ['ids', 'offset', 'limit'],
+  },
+  {
+    id: 'getUserTemplatesSimple',
+    method: 'GET',
+    path: '/api/user_templates/simple',
+    summary: 'Get lightweight user template list',
+    group: 'templates',
+    access: { resource: 'templates', action: 'read_simple' },
+    query: ['ids', 'offset', 'limit', 'search', 'sort', 'all'],
+  },
+  {
+    id: 'bulkDeleteUserTemplates',
+    method: 'POST',
+    path: '/api/user_templates/bulk/delete',
+    summary: 'Bulk Delete User Templates',
+    group: 'templates',
+    access: { resource: 'templates', action: 'delete' },
+    body: 'BulkUserTemplateSelection',
+  },
+  {
+    id: 'bulkDisableUserTemplates',
+    method: 'POST',
+    path: '/api/user_templates/bulk/disable',
+    summary: 'Bulk Disable User Templates',
+    group: 'templates',
+    access: { resource: 'templates', action: 'update' },
+    body: 'BulkUserTemplateSelection',
+  },
+  {
+    id: 'bulkEnableUserTemplates',
+    method: 'POST',
+    path: '/api/user_templates/bulk/enable',
+    summary: 'Bulk Enable User Templates',
+    group: 'templates',
+    access: { resource: 'templates', action: 'update' },
+    body: 'BulkUserTemplateSelection',
+  },
+  { id: 'getUserHwids', method: 'GET', path: '/api/user/{userId}/hwids', summary: 'Get User Hwids', group: 'hwids', access: { resource: 'hwids', action: 'read' } },
+  { id: 'deleteUserHwid', method: 'DELETE', path: '/api/user/{userId}/hwids/{hwid}', summary: 'Delete User Hwid', group: 'hwids', access: { resource: 'hwids', action: 'delete' } },
+  { id: 'resetUserHwids', method: 'POST', path: '/api/user/{userId}/hwids/reset', summary: 'Reset User Hwids', group: 'hwids', access: { resource: 'hwids', action: 'delete' } },
+]
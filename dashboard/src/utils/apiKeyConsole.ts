@@ -0,0 +1,125 @@
+import type { AdminDetails, APIKeyResponse } from '@/service/api'
+import { API_ENDPOINTS, type ApiEndpoint } from '@/utils/apiEndpointCatalog'
+import { hasPermission, hasScopeAll, isOwner } from '@/utils/rbac'
+
+export type RequestSnippetLanguage = 'curl' | 'fetch' | 'python'
+
+export interface ApiConsoleRequest {
+  method: ApiEndpoint['method']
+  url: string
+  apiKey: string
+  body?: string
+  contentType?: string
+}
+
+export interface ApiEndpointGroup {
+  group: string
+  endpoints: Array<ApiEndpoint & { allowed: boolean }>
+  allowedCount: number
+}
+
+/** Shown in snippets until a full key is pasted; the panel only ever stores the trimmed key. */
+export const API_KEY_PLACEHOLDER = 'YOUR_API_KEY'
+
+const hasAnyPermission = (permissions: unknown) => !!permissions && typeof permissions === 'object' && Object.keys(permissions).length > 0
+
+export const isApiKeyUsable = (apiKey: APIKeyResponse) => apiKey.status === 'active' && !apiKey.is_expired
+
+/**
+ * The admin the backend resolves a key to: the owning admin as-is, or with the key's stored
+ * permissions swapped in. Like the backend, an empty custom permission set falls back to the
+ * admin's role, and custom keys never act as owner.
+ */
+export const getApiKeyEffectiveAdmin = (apiKey: APIKeyResponse, owner: AdminDetails | null | undefined): AdminDetails | null => {
+  if (!owner) return null
+  if (apiKey.inherit_permissions || !hasAnyPermission(apiKey.permissions)) return owner
+  return {
+    ...owner,
+    role: { ...owner.role, permissions: apiKey.permissions, is_owner: false },
+  }
+}
+
+export const canCallEndpoint = (admin: AdminDetails | null | undefined, endpoint: ApiEndpoint) => {
+  const { access } = endpoint
+  if (access === 'public') return true
+  if (!admin) return false
+  if (access === 'authenticated') return true
+  if (access === 'owner') return isOwner(admin)
+  return access.scopeAll ? hasScopeAll(admin, access.resource, access.action) : hasPermission(admin, access.resource, access.action)
+}
+
+export const groupApiEndpoints = (admin: AdminDetails | null | undefined, endpoints: ApiEndpoint[] = API_ENDPOINTS): ApiEndpointGroup[] => {
+  const groups = new Map<string, ApiEndpointGroup>()
+  for (const endpoint of endpoints) {
+    const allowed = canCallEndpoint(admin, endpoint)
+    const entry = groups.get(endpoint.group) ?? { group: endpoint.group, endpoints: [], allowedCount: 0 }
+    entry.endpoints.push({ ...endpoint, allowed })
+    if (allowed) entry.allowedCount += 1
+    groups.set(endpoint.group, entry)
+  }
+  return [...groups.values()]
+}
+
+export const getEndpointPathParams = (endpoint: ApiEndpoint) => [...endpoint.path.matchAll(/\{(\w+)\}/g)].map(match => match[1])
+
+export const getApiBaseUrl = () => {
+  const configured = import.meta.env.VITE_BASE_API
+  const base = typeof configured === 'string' && configured.startsWith('http') ? configured : window.location.origin
+  return base.replace(/\/+$/, '')
+}
+
+export const buildEndpointUrl = (baseUrl: string, endpoint: ApiEndpoint, pathParams: Record<string, string>, query: Record<string, string>) => {
+  const path = endpoint.path.replace(/\{(\w+)\}/g, (placeholder, name: string) => (pathParams[name] ? encodeURIComponent(pathParams[name]) : placeholder))
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value.trim() !== '') search.append(key, value.trim())
+  }
+  const queryString = search.toString()
+  return `${baseUrl}${path}${queryString ? `?${queryString}` : ''}`
+}
+
+const quoteShell = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`
+
+const buildCurl = ({ method, url, apiKey, body, contentType }: ApiConsoleRequest) => {
+  const lines = [`curl -X ${method} ${quoteShell(url)}`, `  -H ${quoteShell(`X-API-Key: ${apiKey}`)}`]
+  if (body) {
+    lines.push(`  -H ${quoteShell(`Content-Type: ${contentType}`)}`, `  --data ${quoteShell(body)}`)
+  }
+  return lines.join(' \\\n')
+}
+
+const buildFetch = ({ method, url, apiKey, body, contentType }: ApiConsoleRequest) => {
+  const headers: Record<string, string> = { 'X-API-Key': apiKey }
+  if (body) headers['Content-Type'] = contentType!
+  const options = [`  method: ${JSON.stringify(method)},`, `  headers: ${JSON.stringify(headers)},`]
+  if (body) options.push(`  body: ${contentType === 'application/json' ? `JSON.stringify(${body})` : JSON.stringify(body)},`)
+  return [`const response = await fetch(${JSON.stringify(url)}, {`, ...options, '})', 'console.log(response.status, await response.json())'].join('\n')
+}
+
+const buildPython = ({ method, url, apiKey, body, contentType }: ApiConsoleRequest) => {
+  const isJson = contentType === 'application/json'
+  // requests sets the JSON content type itself when given `json=`
+  const headers: Record<string, string> = body && !isJson ? { 'X-API-Key': apiKey, 'Content-Type': contentType! } : { 'X-API-Key': apiKey }
+  const lines = ['import requests', '', 'response = requests.request(', `    ${JSON.stringify(method)},`, `    ${JSON.stringify(url)},`, `    headers=${JSON.stringify(headers)},`]
+  if (body) lines.push(isJson ? `    json=${toPythonLiteral(body)},` : `    data=${JSON.stringify(body)},`)
+  lines.push(')', 'print(response.status_code, response.text)')
+  return lines.join('\n')
+}
+
+// JSON and Python literals only differ in true/false/null, so swap those outside of strings
+const toPythonLiteral = (json: string) => {
+  try {
+    return JSON.stringify(JSON.parse(json), null, 4)
+      .replace(/"(?:[^"\\]|\\.)*"|\b(true|false|null)\b/g, (match, keyword: string | undefined) => (keyword ? { true: 'True', false: 'False', null: 'None' }[keyword]! : match))
+      .replace(/\n/g, '\n    ')
+  } catch {
+    return JSON.stringify(json)
+  }
+}
+
+export const buildRequestSnippet = (language: RequestSnippetLanguage, request: ApiConsoleRequest) => {
+  const normalized = { ...request, apiKey: request.apiKey.trim() || API_KEY_PLACEHOLDER, contentType: request.contentType ?? 'application/json' }
+  if (language === 'fetch') return buildFetch(normalized)
+  if (language === 'python') return buildPython(normalized)
+  return buildCurl(normalized)
+}
@@ -0,0 +1,311 @@
+import { bulkDisableUsers, bulkEnableUsers, bulkSetOwner, getUsers, modifyUserById, type UserModify, type UserResponse, type UserStatus } from '@/service/api'
+import type { ErrorType } from '@/service/http'
+import { fetchUsersForExport } from '@/utils/usersExport'
+
+/**
+ * Local history of bulk user mutations. The affected users' fields are captured right before each
+ * operation so the operation can later be reverted by writing the old values back per user; the
+ * bulk endpoints themselves only accept relative amounts and cannot express "put it back".
+ */
+
+export type BulkOperationKind = 'expire' | 'data_limit' | 'proxy_settings' | 'groups_add' | 'groups_remove' | 'set_owner' | 'delete' | 'disable' | 'enable' | 'reset_usage' | 'revoke_subscription'
+
+export interface BulkUserSnapshot {
+  id: number
+  username: string
+  status: UserStatus
+  expire: string | number | null
+  data_limit: number | null
+  group_ids: number[]
+  owner: string | null
+}
+
+export interface BulkOperationDetails {
+  /** Seconds for `expire`, bytes for `data_limit`; negative when subtracted. */
+  amount?: number
+  method?: string
+  groupIds?: number[]
+  owner?: string
+}
+
+export interface BulkOperationUndoError {
+  /** Username, or the owner whose users could not be moved back. */
+  target: string
+  /** Server message, or a translation key for failures detected locally. */
+  message: string
+}
+
+export interface BulkOperationUndoResult {
+  at: number
+  restored: number
+  failed: number
+  errors: BulkOperationUndoError[]
+}
+
+export interface BulkOperationRecord {
+  id: string
+  kind: BulkOperationKind
+  admin: string
+  createdAt: number
+  affected: number
+  details?: BulkOperationDetails
+  /** `null` when the target set was too large to capture; such operations are listed but cannot be undone. */
+  snapshots: BulkUserSnapshot[] | null
+  undo?: BulkOperationUndoResult
+}
+
+export type BulkOperationUndoBlocker = 'notReversible' | 'noSnapshot' | 'alreadyUndone'
+
+/** Mirrors the server-side selection of `/api/users/bulk/*` and `/api/groups/bulk/*`. */
+export interface BulkTargetFilter {
+  users?: number[]
+  admins?: number[]
+  groupIds?: number[]
+  status?: UserStatus[]
+  expireAfter?: string
+  expireBefore?: string
+}
+
+export const BULK_HISTORY_MAX_RECORDS = 30
+/** Larger selections are still recorded, but without the per-user snapshot needed to undo them. */
+export const BULK_HISTORY_MAX_SNAPSHOTS = 5000
+
+const REVERSIBLE_KINDS: BulkOperationKind[] = ['expire', 'data_limit', 'groups_add', 'groups_remove', 'set_owner', 'disable', 'enable']
+
+const UNDO_CONCURRENCY = 10
+
+const getStorageKey = (username: string) => `pasarguard-bulk-history:${username}`
+
+const cache = new Map<string, BulkOperationRecord[]>()
+const listeners = new Set<() => void>()
+const EMPTY_HISTORY: BulkOperationRecord[] = []
+
+export const subscribeBulkOperationHistory = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const getBulkOperationHistory = (username: string | undefined): BulkOperationRecord[] => {
+  if (!username || typeof localStorage === 'undefined') return EMPTY_HISTORY
+  const cached = cache.get(username)
+  if (cached) return cached
+  let records = EMPTY_HISTORY
+  try {
+    const parsed = JSON.parse(localStorage.getItem(getStorageKey(username)) || '[]')
+    if (Array.isArray(parsed)) records = parsed.filter(record => record && typeof record.id === 'string' && typeof record.kind === 'string')
+  } catch {
+    records = EMPTY_HISTORY
+  }
+  cache.set(username, records)
+  return records
+}
+
+const setBulkOperationHistory = (username: string, records: BulkOperationRecord[]) => {
+  let stored = records.slice(0, BULK_HISTORY_MAX_RECORDS)
+  if (typeof localStorage !== 'undefined') {
+    // When the quota is hit, drop snapshots of the oldest operations first; the entries themselves stay listed
+    for (let index = stored.length - 1; ; index--) {
+      try {
+        localStorage.setItem(getStorageKey(username), JSON.stringify(stored))
+        break
+      } catch {
+        if (index < 0) break
+        stored = stored.map((record, recordIndex) => (recordIndex === index ? { ...record, snapshots: null } : record))
+      }
+    }
+  }
+  cache.set(username, stored)
+  listeners.forEach(listener => listener())
+}
+
+export const addBulkOperationRecord = (username: string, record: Omit<BulkOperationRecord, 'id' | 'admin' | 'createdAt'>) => {
+  const next: BulkOperationRecord = {
+    ...record,
+    id: globalThis.crypto?.randomUUID?.() ?? `bulk-${Math.random().toString(36).slice(2)}`,
+    admin: username,
+    createdAt: Date.now(),
+  }
+  setBulkOperationHistory(username, [next, ...getBulkOperationHistory(username)])
+  return next
+}
+
+export const updateBulkOperationRecord = (username: string, id: string, patch: Partial<BulkOperationRecord>) => {
+  setBulkOperationHistory(
+    username,
+    getBulkOperationHistory(username).map(record => (record.id === id ? { ...record, ...patch } : record)),
+  )
+}
+
+export const clearBulkOperationHistory = (username: string) => {
+  setBulkOperationHistory(username, [])
+  if (typeof localStorage !== 'undefined') localStorage.removeItem(getStorageKey(username))
+}
+
+export const toBulkUserSnapshot = (user: UserResponse): BulkUserSnapshot => ({
+  id: user.id,
+  username: user.username,
+  status: user.status,
+  expire: user.expire ?? null,
+  data_limit: user.data_limit ?? null,
+  group_ids: user.group_ids ?? [],
+  owner: user.admin?.username ?? null,
+})
+
+/**
+ * Loads the users a bulk call is about to touch. The server matches `users` OR (every other
+ * filter), so both halves are fetched separately and merged. `users` is `null` when the
+ * selection exceeds {@link BULK_HISTORY_MAX_SNAPSHOTS}; `total` is then an upper bound.
+ */
+export const fetchBulkTargetUsers = async (filter: BulkTargetFilter, signal?: AbortSignal): Promise<{ total: number; users: UserResponse[] | null }> => {
+  const hasOtherConditions = Boolean(filter.admins?.length || filter.groupIds?.length || filter.status?.length || filter.expireAfter || filter.expireBefore)
+  const users = new Map<number, UserResponse>()
+  const selectedCount = filter.users?.length ?? 0
+
+  if (hasOtherConditions || selectedCount === 0) {
+    const params = {
+      admin_ids: filter.admins?.length ? filter.admins : undefined,
+      group: filter.groupIds?.length ? filter.groupIds : undefined,
+      status: filter.status?.length ? filter.status : undefined,
+      expire_after: filter.expireAfter,
+      expire_before: filter.expireBefore,
+    }
+    // Probe the size first so a selection of the whole panel does not get downloaded only to be dropped
+    const { total } = await getUsers({ ...params, offset: 0, limit: 1 }, signal)
+    if (total + selectedCount > BULK_HISTORY_MAX_SNAPSHOTS) return { total: total + selectedCount, users: null }
+    for (const user of await fetchUsersForExport(params, { signal })) users.set(user.id, user)
+  }
+  if (selectedCount > 0) {
+    if (selectedCount > BULK_HISTORY_MAX_SNAPSHOTS) return { total: selectedCount, users: null }
+    for (const user of await fetchUsersForExport({ ids: filter.users }, { signal })) users.set(user.id, user)
+  }
+  return { total: users.size, users: [...users.values()] }
+}
+
+export const fetchBulkTargetSnapshots = async (filter: BulkTargetFilter, signal?: AbortSignal) => {
+  const { total, users } = await fetchBulkTargetUsers(filter, signal)
+  return { total, snapshots: users?.map(toBulkUserSnapshot) ?? null }
+}
+
+/** Drops snapshots of users the server skips for `kind`, e.g. users without an expiry date for `expire`. */
+export const isAffectedByBulkOperation = (kind: BulkOperationKind, snapshot: BulkUserSnapshot, details?: BulkOperationDetails) => {
+  const groupIds = details?.groupIds ?? []
+  switch (kind) {
+    case 'expire':
+      return Boolean(snapshot.expire)
+    case 'data_limit':
+      // Subtracting is skipped for users whose limit would drop to zero or below
+      return Boolean(snapshot.data_limit) && (details?.amount === undefined || details.amount >= 0 || snapshot.data_limit! > -details.amount)
+    case 'groups_add':
+      return groupIds.some(id => !snapshot.group_ids.includes(id))
+    case 'groups_remove':
+      return groupIds.some(id => snapshot.group_ids.includes(id))
+    case 'disable':
+      return snapshot.status !== 'disabled'
+    case 'enable':
+      return snapshot.status === 'disabled'
+    default:
+      return true
+  }
+}
+
+export const getBulkOperationUndoBlocker = (record: BulkOperationRecord): BulkOperationUndoBlocker | null => {
+  if (!REVERSIBLE_KINDS.includes(record.kind)) return 'notReversible'
+  if (record.undo) return 'alreadyUndone'
+  if (!record.snapshots?.length) return 'noSnapshot'
+  return null
+}
+
+const describeError = (error: unknown): string => {
+  const fetchError = error as ErrorType<unknown> | undefined
+  const detail = fetchError?.data?.detail ?? fetchError?.response?._data?.detail
+  if (typeof detail === 'string') return detail
+  if (Array.isArray(detail)) return detail.map(item => (item && typeof item === 'object' && 'msg' in item ? String(item.msg) : String(item))).join(', ')
+  return fetchError?.message || String(error)
+}
+
+const runInBatches = async <T>(items: T[], task: (item: T) => Promise<unknown>) => {
+  const results: PromiseSettledResult<unknown>[] = []
+  for (let index = 0; index < items.length; index += UNDO_CONCURRENCY) {
+    results.push(...(await Promise.allSettled(items.slice(index, index + UNDO_CONCURRENCY).map(task))))
+  }
+  return results
+}
+
+const toUndoModify = (record: BulkOperationRecord, snapshot: BulkUserSnapshot): UserModify => {
+  switch (record.kind) {
+    case 'expire':
+      return { expire: snapshot.expire ?? 0 }
+    case 'data_limit':
+      return { data_limit: snapshot.data_limit ?? 0 }
+    default:
+      return { group_ids: snapshot.group_ids }
+  }
+}
+
+/**
+ * Writes the captured values back. Users edited since the operation are overwritten with the
+ * snapshot too, which is why the UI asks for confirmation before calling this.
+ */
+export const undoBulkOperation = async (record: BulkOperationRecord): Promise<BulkOperationUndoResult> => {
+  const snapshots = record.snapshots ?? []
+  const errors: BulkOperationUndoError[] = []
+  let restored = 0
+  let failed = 0
+
+  if (record.kind === 'disable' || record.kind === 'enable') {
+    const ids = snapshots.map(snapshot => snapshot.id)
+    try {
+      const response = record.kind === 'disable' ? await bulkEnableUsers({ ids }) : await bulkDisableUsers({ ids })
+      restored = response.count
+      failed = Math.max(ids.length - response.count, 0)
+    } catch (error) {
+      failed = ids.length
+      errors.push({ target: '', message: describeError(error) })
+    }
+  } else if (record.kind === 'set_owner') {
+    const byOwner = new Map<string, BulkUserSnapshot[]>()
+    for (const snapshot of snapshots) {
+      if (!snapshot.owner) {
+        failed++
+        errors.push({ target: snapshot.username, message: 'bulkHistory.errors.noPreviousOwner' })
+        continue
+      }
+      byOwner.set(snapshot.owner, [...(byOwner.get(snapshot.owner) ?? []), snapshot])
+    }
+    const owners = [...byOwner.entries()]
+    const results = await Promise.allSettled(owners.map(([owner, items]) => bulkSetOwner({ ids: items.map(item => item.id), admin_username: owner })))
+    results.forEach((result, index) => {
+      const [owner, items] = owners[index]
+      if (result.status === 'fulfilled') {
+        restored += items.length
+      } else {
+        failed += items.length
+        errors.push({ target: owner, message: describeError(result.reason) })
+      }
+    })
+  } else {
+    const targets: BulkUserSnapshot[] = []
+    for (const snapshot of snapshots) {
+      // An empty `group_ids` means "no change" to the API, so users that had no groups cannot be restored
+      if ((record.kind === 'groups_add' || record.kind === 'groups_remove') && snapshot.group_ids.length === 0) {
+        failed++
+        errors.push({ target: snapshot.username, message: 'bulkHistory.errors.noPreviousGroups' })
+      } else {
+        targets.push(snapshot)
+      }
+    }
+    const results = await runInBatches(targets, snapshot => modifyUserById(snapshot.id, toUndoModify(record, snapshot)))
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        restored++
+      } else {
+        failed++
+        errors.push({ target: targets[index].username, message: describeError(result.reason) })
+      }
+    })
+  }
+
+  return { at: Date.now(), restored, failed, errors: errors.slice(0, 50) }
+}
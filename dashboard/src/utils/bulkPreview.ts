@@ -0,0 +1,87 @@
+import type { UserResponse, UserStatus } from '@/service/api'
+import { isAffectedByBulkOperation, toBulkUserSnapshot, type BulkOperationDetails, type BulkOperationKind } from '@/utils/bulkOperationHistory'
+import { toUnixSeconds } from '@/utils/dateTimeParsing'
+
+export type BulkPreviewKind = Extract<BulkOperationKind, 'expire' | 'data_limit' | 'proxy_settings' | 'groups_add' | 'groups_remove'>
+
+/**
+ * `expired`: the new expiry is already in the past. `overLimit`: usage already reaches the new
+ * limit. `noGroups`: the user is left without any group. `reactivated`: an expired or limited
+ * user becomes active again.
+ */
+export type BulkPreviewFlag = 'expired' | 'overLimit' | 'noGroups' | 'reactivated'
+
+export interface BulkPreviewRow {
+  id: number
+  username: string
+  status: UserStatus
+  nextStatus: UserStatus
+  /** Unix seconds for `expire`, bytes for `data_limit`, group ids for groups, method for `proxy_settings`. */
+  before: number | string | number[] | null
+  after: number | string | number[] | null
+  usedTraffic: number
+  flags: BulkPreviewFlag[]
+}
+
+/**
+ * Predicts what the bulk endpoints will write for each user, mirroring the server: expiry and
+ * data limit are shifted only for users that have one, and the status flips between
+ * active/expired or active/limited exactly like the bulk update does.
+ */
+export const buildBulkPreviewRows = (kind: BulkPreviewKind, users: UserResponse[], details: BulkOperationDetails, now = Date.now()): BulkPreviewRow[] => {
+  const nowSeconds = Math.floor(now / 1000)
+  const amount = details.amount ?? 0
+  const groupIds = details.groupIds ?? []
+
+  return users
+    .filter(user => isAffectedByBulkOperation(kind, toBulkUserSnapshot(user), details))
+    .map(user => {
+      const flags: BulkPreviewFlag[] = []
+      const row: BulkPreviewRow = {
+        id: user.id,
+        username: user.username,
+        status: user.status,
+        nextStatus: user.status,
+        before: null,
+        after: null,
+        usedTraffic: user.used_traffic,
+        flags,
+      }
+
+      if (kind === 'expire') {
+        const before = toUnixSeconds(user.expire!)
+        const after = before + amount
+        row.before = before
+        row.after = after
+        if (after <= nowSeconds) {
+          flags.push('expired')
+          if (user.status === 'active') row.nextStatus = 'expired'
+        } else if (user.status === 'expired') {
+          row.nextStatus = 'active'
+          flags.push('reactivated')
+        }
+      } else if (kind === 'data_limit') {
+        const after = user.data_limit! + amount
+        row.before = user.data_limit!
+        row.after = after
+        if (after <= user.used_traffic) {
+          flags.push('overLimit')
+          if (user.status === 'active') row.nextStatus = 'limited'
+        } else if (user.status === 'limited') {
+          row.nextStatus = 'active'
+          flags.push('reactivated')
+        }
+      } else if (kind === 'proxy_settings') {
+        row.before = user.proxy_settings?.shadowsocks?.method ?? null
+        row.after = details.method ?? null
+      } else {
+        const current = user.group_ids ?? []
+        const next = kind === 'groups_add' ? [...current, ...groupIds.filter(id => !current.includes(id))] : current.filter(id => !groupIds.includes(id))
+        row.before = current
+        row.after = next
+        if (next.length === 0) flags.push('noGroups')
+      }
+
+      return row
+    })
+}
@@ -0,0 +1,76 @@
+export type CsvCell = string | number | boolean | null | undefined
+
+const CSV_DELIMITERS = [',', ';', '\t'] as const
+
+/** Spreadsheets run text starting with these as a formula (CSV injection). */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const escapeCsvCell = (value: CsvCell) => {
+  if (value === null || value === undefined) return ''
+  // Numbers are written as-is so negative amounts stay numeric; text is neutralized with a leading quote
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Serializes rows as CSV with a BOM so Excel opens non-Latin text correctly. */
+export const buildCsv = (rows: CsvCell[][]) => new Blob(['\uFEFF', rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n')], { type: 'text/csv;charset=utf-8' })
+
+/** Picks the delimiter that occurs most often on the header line, outside quotes. */
+const detectDelimiter = (text: string) => {
+  const counts = new Map<string, number>(CSV_DELIMITERS.map(delimiter => [delimiter, 0]))
+  let inQuotes = false
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes
+    else if (!inQuotes && (char === '\n' || char === '\r')) break
+    else if (!inQuotes && counts.has(char)) counts.set(char, (counts.get(char) ?? 0) + 1)
+  }
+  return [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0]
+}
+
+/**
+ * RFC 4180 parser: quoted cells may contain delimiters, line breaks and doubled quotes.
+ * The delimiter is detected from the header so `;` and tab exports from spreadsheets work too.
+ * Fully empty lines are dropped.
+ */
+export const parseCsv = (input: string) => {
+  const text = input.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(text)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const pushRow = () => {
+    row.push(cell)
+    if (row.some(value => value.trim() !== '')) rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      pushRow()
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) pushRow()
+
+  return rows
+}
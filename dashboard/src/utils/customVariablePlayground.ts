@@ -0,0 +1,268 @@
+import { format as formatJalali } from 'date-fns-jalali'
+
+import type { CustomVariable, UserResponse } from '@/service/api'
+import { parseDateInput } from '@/utils/dateTimeParsing'
+
+/** Where a custom variable is stored. General and subscription settings share one list on the panel. */
+export type CustomVariableLevel = 'general' | 'subscription' | 'admin'
+
+/** Strings the panel formats with user variables; each one sees a slightly different set of them. */
+export type PlaygroundTarget = 'remark' | 'profileTitle' | 'announce'
+
+export type PlaygroundVariableSource = 'builtin' | 'context' | 'server' | CustomVariableLevel | 'undefined'
+
+export type PlaygroundSegment = { kind: 'text'; text: string } | { kind: 'variable'; raw: string; key: string; value: string; source: PlaygroundVariableSource }
+
+export interface PlaygroundExpansion {
+  output: string
+  segments: PlaygroundSegment[]
+  /** Set when Python would reject the format string; the panel then sends it unchanged. */
+  error: 'unbalancedBrace' | 'positionalField' | null
+  undefinedKeys: string[]
+}
+
+export interface ResolvedCustomVariable {
+  key: string
+  rawValue: string
+  value: string
+  level: CustomVariableLevel
+  /** Admin variables are applied last, so they replace settings variables with the same key. */
+  overriddenBy: CustomVariableLevel | null
+  /** References to other custom variables are not expanded inside custom values; the panel prints `<missing>`. */
+  customReferences: string[]
+  undefinedKeys: string[]
+}
+
+export interface PlaygroundContext {
+  PROTOCOL?: string
+  TRANSPORT?: string
+  PROFILE_TITLE?: string
+  url?: string
+}
+
+const MISSING_VALUE = '<missing>'
+
+/** Filled from the panel host, so the dashboard cannot know them. */
+export const SERVER_VARIABLE_KEYS = ['SERVER_IP', 'SERVER_IPV6'] as const
+
+const TARGET_CONTEXT_KEYS: Record<PlaygroundTarget, (keyof PlaygroundContext)[]> = {
+  remark: ['PROTOCOL', 'TRANSPORT'],
+  profileTitle: ['url'],
+  announce: ['url', 'PROFILE_TITLE'],
+}
+
+const STATUS_EMOJIS: Record<string, string> = {
+  active: '✅',
+  expired: '⌛️',
+  limited: '🪫',
+  disabled: '❌',
+  on_hold: '🔌',
+}
+
+const SIZE_NAMES = ['B', 'KB', 'MB', 'GB', 'TB', 'PB', 'EB', 'ZB', 'YB']
+
+/** Python prints floats with at least one decimal (`2.0`), which ends up in the rendered strings. */
+const pythonFloat = (value: number) => (Number.isInteger(value) ? `${value}.0` : String(value))
+
+const roundTo = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits
+
+/** Same output as the panel's `readable_size`. */
+export const readableSize = (bytes: number | null | undefined) => {
+  if (!bytes || bytes <= 0) return '0 B'
+  const index = Math.floor(Math.log(bytes) / Math.log(1024))
+  return `${pythonFloat(roundTo(bytes / 1024 ** index, 2))} ${SIZE_NAMES[index]}`
+}
+
+/** Same output as the panel's `format_time_left` (months are 30 days). */
+export const formatTimeLeft = (secondsLeft: number) => {
+  if (!secondsLeft || secondsLeft <= 0) return '∞'
+  const totalMinutes = Math.floor(secondsLeft / 60)
+  const minutes = totalMinutes % 60
+  const totalHours = Math.floor(totalMinutes / 60)
+  const hours = totalHours % 24
+  const totalDays = Math.floor(totalHours / 24)
+  const days = totalDays % 30
+  const months = Math.floor(totalDays / 30)
+
+  const parts: string[] = []
+  if (months) parts.push(`${months}m`)
+  if (days) parts.push(`${days}d`)
+  if (hours && days < 7) parts.push(`${hours}h`)
+  if (minutes && !(months || days)) parts.push(`${minutes}m`)
+  return parts.join(' ')
+}
+
+/** Built-in variables for a user, computed the way `setup_format_variables` does. */
+export const buildBuiltInVariables = (user: UserResponse, now: Date = new Date()): Record<string, string> => {
+  let daysLeft = '∞'
+  let timeLeft = '∞'
+  let expireDate = '∞'
+  let jalaliExpireDate = '∞'
+
+  if (user.status !== 'on_hold') {
+    if (user.expire !== null && user.expire !== undefined) {
+      // The panel formats the date part of the UTC datetime, whatever the admin's time zone
+      const expire = parseDateInput(user.expire).utc()
+      const secondsLeft = (expire.valueOf() - now.getTime()) / 1000
+      expireDate = expire.format('YYYY-MM-DD')
+      jalaliExpireDate = formatJalali(new Date(expire.year(), expire.month(), expire.date()), 'yyyy-MM-dd')
+      if (secondsLeft > 0) {
+        daysLeft = String(Math.floor(secondsLeft / 86400) + 1)
+        timeLeft = formatTimeLeft(secondsLeft)
+      } else {
+        daysLeft = '0'
+        timeLeft = '0'
+      }
+    }
+  } else if (user.on_hold_expire_duration) {
+    daysLeft = String(Math.floor(user.on_hold_expire_duration / 86400))
+    timeLeft = formatTimeLeft(user.on_hold_expire_duration)
+    expireDate = '-'
+    jalaliExpireDate = '-'
+  }
+
+  const dataLimit = user.data_limit || 0
+  return {
+    USERNAME: user.username,
+    DATA_USAGE: readableSize(user.used_traffic),
+    DATA_LIMIT: dataLimit ? readableSize(dataLimit) : '∞',
+    DATA_LEFT: dataLimit ? readableSize(Math.max(dataLimit - user.used_traffic, 0)) : '∞',
+    DAYS_LEFT: daysLeft,
+    EXPIRE_DATE: expireDate,
+    JALALI_EXPIRE_DATE: jalaliExpireDate,
+    TIME_LEFT: timeLeft,
+    STATUS_EMOJI: STATUS_EMOJIS[user.status] ?? 'None',
+    USAGE_PERCENTAGE: dataLimit ? pythonFloat(roundTo((user.used_traffic / dataLimit) * 100, 2)) : '∞',
+    ADMIN_USERNAME: user.admin?.username ?? '',
+  }
+}
+
+type FormatPart = { kind: 'text'; text: string } | { kind: 'field'; raw: string; key: string }
+
+/** Splits a `str.format` template the way Python does: `{{`/`}}` escapes, `{KEY:spec}`, `{KEY!r}`. */
+const parseFormatString = (template: string): { parts: FormatPart[]; error: PlaygroundExpansion['error'] } => {
+  const parts: FormatPart[] = []
+  let text = ''
+  let index = 0
+
+  while (index < template.length) {
+    const char = template[index]
+    if (char === '{' && template[index + 1] === '{') {
+      text += '{'
+      index += 2
+    } else if (char === '}' && template[index + 1] === '}') {
+      text += '}'
+      index += 2
+    } else if (char === '}') {
+      return { parts: [], error: 'unbalancedBrace' }
+    } else if (char === '{') {
+      const end = template.indexOf('}', index)
+      if (end === -1) return { parts: [], error: 'unbalancedBrace' }
+      const raw = template.slice(index, end + 1)
+      const key = raw.slice(1, -1).split(/[!:.[]/)[0]
+      if (!key || /^\d+$/.test(key)) return { parts: [], error: 'positionalField' }
+      if (text) parts.push({ kind: 'text', text })
+      text = ''
+      parts.push({ kind: 'field', raw, key })
+      index = end + 1
+    } else {
+      text += char
+      index += 1
+    }
+  }
+  if (text) parts.push({ kind: 'text', text })
+  return { parts, error: null }
+}
+
+/**
+ * Effective custom variables in panel order: settings first, then the user's admin. Each value is formatted
+ * with built-in and context variables only, like `apply_custom_format_variables`.
+ */
+export const resolveCustomVariables = (
+  settingsVariables: CustomVariable[],
+  settingsLevel: Exclude<CustomVariableLevel, 'admin'>,
+  adminVariables: CustomVariable[],
+  baseVariables: Record<string, string>,
+): ResolvedCustomVariable[] => {
+  const entries = [
+    ...settingsVariables.map(variable => ({ variable, level: settingsLevel as CustomVariableLevel })),
+    ...adminVariables.map(variable => ({ variable, level: 'admin' as CustomVariableLevel })),
+  ].filter(entry => entry.variable.key?.trim())
+  const customKeys = new Set(entries.map(entry => entry.variable.key.trim()))
+
+  return entries.map(({ variable, level }, index) => {
+    const key = variable.key.trim()
+    const rawValue = variable.value ?? ''
+    const { parts, error } = parseFormatString(rawValue)
+    const fieldKeys = parts.flatMap(part => (part.kind === 'field' ? [part.key] : []))
+    const later = entries.slice(index + 1).find(entry => entry.variable.key.trim() === key)
+
+    return {
+      key,
+      rawValue,
+      value: error ? rawValue : parts.map(part => (part.kind === 'text' ? part.text : (baseVariables[part.key] ?? MISSING_VALUE))).join(''),
+      level,
+      overriddenBy: later ? later.level : null,
+      customReferences: fieldKeys.filter(fieldKey => customKeys.has(fieldKey)),
+      undefinedKeys: fieldKeys.filter(fieldKey => !customKeys.has(fieldKey) && !(fieldKey in baseVariables)),
+    }
+  })
+}
+
+/** Context variables (protocol, url, …) that the panel adds for a given target before formatting it. */
+export const getTargetContext = (target: PlaygroundTarget, context: PlaygroundContext): Record<string, string> =>
+  Object.fromEntries(TARGET_CONTEXT_KEYS[target].flatMap(key => (context[key] === undefined ? [] : [[key, context[key] as string]])))
+
+export const expandPlaygroundTemplate = (
+  template: string,
+  builtIns: Record<string, string>,
+  contextVariables: Record<string, string>,
+  customVariables: ResolvedCustomVariable[],
+): PlaygroundExpansion => {
+  const { parts, error } = parseFormatString(template)
+  if (error) return { output: template, segments: [{ kind: 'text', text: template }], error, undefinedKeys: [] }
+
+  const effectiveCustom = new Map<string, ResolvedCustomVariable>()
+  for (const variable of customVariables) effectiveCustom.set(variable.key, variable)
+
+  const undefinedKeys = new Set<string>()
+  const segments: PlaygroundSegment[] = parts.map(part => {
+    if (part.kind === 'text') return part
+    const custom = effectiveCustom.get(part.key)
+    if (custom) return { kind: 'variable', raw: part.raw, key: part.key, value: custom.value, source: custom.level }
+    if (part.key in contextVariables) return { kind: 'variable', raw: part.raw, key: part.key, value: contextVariables[part.key], source: 'context' }
+    if ((SERVER_VARIABLE_KEYS as readonly string[]).includes(part.key)) return { kind: 'variable', raw: part.raw, key: part.key, value: part.raw, source: 'server' }
+    if (part.key in builtIns) return { kind: 'variable', raw: part.raw, key: part.key, value: builtIns[part.key], source: 'builtin' }
+    undefinedKeys.add(part.key)
+    return { kind: 'variable', raw: part.raw, key: part.key, value: MISSING_VALUE, source: 'undefined' }
+  })
+
+  return {
+    output: segments.map(segment => (segment.kind === 'text' ? segment.text : segment.value)).join(''),
+    segments,
+    error: null,
+    undefinedKeys: [...undefinedKeys],
+  }
+}
+
+export interface VariablePlaygroundInput {
+  template: string
+  target: PlaygroundTarget
+  user: UserResponse
+  settingsVariables: CustomVariable[]
+  settingsLevel: Exclude<CustomVariableLevel, 'admin'>
+  adminVariables: CustomVariable[]
+  context: PlaygroundContext
+  now?: Date
+}
+
+export const runVariablePlayground = ({ template, target, user, settingsVariables, settingsLevel, adminVariables, context, now }: VariablePlaygroundInput) => {
+  const builtIns = buildBuiltInVariables(user, now)
+  const contextVariables = getTargetContext(target, context)
+  const serverVariables = Object.fromEntries(SERVER_VARIABLE_KEYS.map(key => [key, `{${key}}`]))
+  // The profile title is formatted before the panel re-applies custom variables with `url` available
+  const customBase = { ...serverVariables, ...builtIns, ...(target === 'profileTitle' ? {} : contextVariables) }
+  const customVariables = resolveCustomVariables(settingsVariables, settingsLevel, adminVariables, customBase)
+
+  return { builtIns, customVariables, expansion: expandPlaygroundTemplate(template, builtIns, contextVariables, customVariables) }
+}
@@ -0,0 +1,90 @@
+import type { HostHealthResult, HostHealthStatus } from '@/service/api'
+
+/**
+ * Local history of host health checks. The panel does not store probe results, so the last few
+ * results per host are kept in this browser to show trends, e.g. a certificate that started
+ * warning or a host that only fails now and then.
+ */
+
+export const HOST_HEALTH_MAX_RECORDS_PER_HOST = 10
+
+const STORAGE_KEY = 'pasarguard-host-health'
+
+/** Newest first, keyed by host id. */
+export type HostHealthHistory = Record<number, HostHealthResult[]>
+
+let cache: HostHealthHistory | null = null
+const listeners = new Set<() => void>()
+
+export const subscribeHostHealthHistory = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const getHostHealthHistory = (): HostHealthHistory => {
+  if (cache) return cache
+  let history: HostHealthHistory = {}
+  if (typeof localStorage !== 'undefined') {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) history = parsed
+    } catch {
+      history = {}
+    }
+  }
+  cache = history
+  return history
+}
+
+const setHostHealthHistory = (history: HostHealthHistory) => {
+  if (typeof localStorage !== 'undefined') {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(history))
+    } catch {
+      // Quota exceeded: the history still lives for this session
+    }
+  }
+  cache = history
+  listeners.forEach(listener => listener())
+}
+
+export const addHostHealthResults = (results: HostHealthResult[]) => {
+  const history = { ...getHostHealthHistory() }
+  for (const result of results) {
+    history[result.host_id] = [result, ...(history[result.host_id] ?? [])].slice(0, HOST_HEALTH_MAX_RECORDS_PER_HOST)
+  }
+  setHostHealthHistory(history)
+}
+
+/** Drops hosts that no longer exist so deleted hosts do not keep their history around. */
+export const pruneHostHealthHistory = (hostIds: number[]) => {
+  const history = getHostHealthHistory()
+  const keep = new Set(hostIds)
+  const stale = Object.keys(history).filter(id => !keep.has(Number(id)))
+  if (!stale.length) return
+  setHostHealthHistory(Object.fromEntries(Object.entries(history).filter(([id]) => keep.has(Number(id)))))
+}
+
+export const clearHostHealthHistory = (hostId: number) => {
+  const history = { ...getHostHealthHistory() }
+  delete history[hostId]
+  setHostHealthHistory(history)
+}
+
+/** Checks that failed or warned, endpoint checks prefixed with the endpoint they ran against. */
+export const getHostHealthProblems = (result: HostHealthResult) => {
+  const problems: { status: HostHealthStatus; name: string; target?: string; message?: string | null }[] = []
+  for (const check of result.checks ?? []) {
+    if (check.status === 'error' || check.status === 'warning') problems.push({ status: check.status, name: check.name, message: check.message })
+  }
+  for (const endpoint of result.endpoints ?? []) {
+    for (const check of endpoint.checks ?? []) {
+      if (check.status === 'error' || check.status === 'warning') {
+        problems.push({ status: check.status, name: check.name, target: `${endpoint.address}:${endpoint.port}`, message: check.message })
+      }
+    }
+  }
+  return problems
+}
@@ -0,0 +1,152 @@
+import type { CreateHost, HostPreviewResponse } from '@/service/api'
+
+/** Share formats the host preview renders, keyed like the preview response. */
+export type HostPreviewFormat = 'links' | 'xray' | 'sing_box' | 'clash_meta'
+
+export const HOST_PREVIEW_FORMATS: HostPreviewFormat[] = ['links', 'xray', 'sing_box', 'clash_meta']
+
+export type HostPreviewOption =
+  | 'fingerprint'
+  | 'alpn'
+  | 'allowinsecure'
+  | 'ech_config_list'
+  | 'pinned_peer_cert_sha256'
+  | 'verify_peer_cert_by_name'
+  | 'fragment_settings'
+  | 'noise_settings'
+  | 'mux_settings'
+  | 'http_headers'
+  | 'random_user_agent'
+
+interface HostOptionProbe {
+  option: HostPreviewOption
+  isSet: (host: CreateHost) => boolean
+  /** Keys each generator writes the option to; an empty list means the format has no place for it. */
+  keys: Record<HostPreviewFormat, string[]>
+}
+
+const hasItems = (value: unknown) => Array.isArray(value) && value.length > 0
+
+const hasValues = (value: unknown) => !!value && typeof value === 'object' && Object.values(value).some(item => item !== null && item !== undefined)
+
+const HOST_OPTION_PROBES: HostOptionProbe[] = [
+  {
+    option: 'fingerprint',
+    isSet: host => !!host.fingerprint,
+    keys: { links: ['fp'], xray: ['fingerprint'], sing_box: ['utls'], clash_meta: ['client-fingerprint'] },
+  },
+  {
+    option: 'alpn',
+    isSet: host => hasItems(host.alpn),
+    keys: { links: ['alpn'], xray: ['alpn'], sing_box: ['alpn'], clash_meta: ['alpn'] },
+  },
+  {
+    option: 'allowinsecure',
+    isSet: host => !!host.allowinsecure,
+    keys: { links: ['allowInsecure'], xray: ['allowInsecure'], sing_box: ['insecure'], clash_meta: ['skip-cert-verify'] },
+  },
+  {
+    option: 'ech_config_list',
+    isSet: host => !!host.ech_config_list,
+    keys: { links: ['ech'], xray: ['echConfigList'], sing_box: ['ech'], clash_meta: [] },
+  },
+  {
+    option: 'pinned_peer_cert_sha256',
+    isSet: host => !!host.pinned_peer_cert_sha256,
+    keys: { links: ['pcs', 'pinSHA256'], xray: ['pinnedPeerCertSha256'], sing_box: ['certificate_public_key_sha256'], clash_meta: [] },
+  },
+  {
+    option: 'verify_peer_cert_by_name',
+    isSet: host => hasItems(host.verify_peer_cert_by_name),
+    keys: { links: ['vcn'], xray: ['verifyPeerCertByName'], sing_box: [], clash_meta: [] },
+  },
+  {
+    option: 'fragment_settings',
+    isSet: host => hasValues(host.fragment_settings),
+    keys: { links: ['fragment'], xray: ['fragment'], sing_box: ['fragment', 'record_fragment'], clash_meta: [] },
+  },
+  {
+    option: 'noise_settings',
+    isSet: host => hasItems(host.noise_settings?.xray),
+    keys: { links: [], xray: ['noises'], sing_box: [], clash_meta: [] },
+  },
+  {
+    option: 'mux_settings',
+    isSet: host => hasValues(host.mux_settings),
+    keys: { links: [], xray: ['mux'], sing_box: ['multiplex'], clash_meta: ['smux'] },
+  },
+  {
+    option: 'http_headers',
+    isSet: host => hasValues(host.http_headers),
+    keys: { links: ['headers'], xray: ['headers'], sing_box: ['headers'], clash_meta: ['headers'] },
+  },
+  {
+    option: 'random_user_agent',
+    isSet: host => !!host.random_user_agent,
+    keys: { links: ['User-Agent'], xray: ['User-Agent'], sing_box: ['User-Agent'], clash_meta: ['User-Agent'] },
+  },
+]
+
+const isEmptyValue = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  value === '' ||
+  value === false ||
+  value === 0 ||
+  value === '0' ||
+  (Array.isArray(value) ? value.length === 0 : typeof value === 'object' && Object.keys(value).length === 0)
+
+/** True when any nested object has one of `keys` with a meaningful value; generators often write empty defaults. */
+const hasKeyDeep = (value: unknown, keys: Set<string>): boolean => {
+  if (Array.isArray(value)) return value.some(item => hasKeyDeep(item, keys))
+  if (!value || typeof value !== 'object') return false
+  return Object.entries(value).some(([key, item]) => (keys.has(key) && !isEmptyValue(item)) || hasKeyDeep(item, keys))
+}
+
+const parseJsonObject = (value: string): unknown => {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Turns a share link into a plain object so it can be searched like the JSON formats: the decoded vmess payload,
+ * or the query parameters with JSON values (xhttp `extra`) parsed.
+ */
+export const parseShareLink = (link: string): Record<string, unknown> => {
+  const trimmed = link.trim()
+  if (trimmed.startsWith('vmess://')) {
+    try {
+      const payload = parseJsonObject(atob(trimmed.replace('vmess://', '').split('#')[0]))
+      return payload && typeof payload === 'object' ? (payload as Record<string, unknown>) : {}
+    } catch {
+      return {}
+    }
+  }
+
+  const queryStart = trimmed.indexOf('?')
+  if (queryStart === -1) return {}
+  const query = trimmed.slice(queryStart + 1).split('#')[0]
+  const params: Record<string, unknown> = {}
+  new URLSearchParams(query).forEach((value, key) => {
+    params[key] = value.startsWith('{') || value.startsWith('[') ? parseJsonObject(value) : value
+  })
+  return params
+}
+
+const getSearchableEntries = (format: HostPreviewFormat, preview: HostPreviewResponse): unknown[] => (format === 'links' ? (preview.links ?? []).map(parseShareLink) : (preview[format] ?? []))
+
+/** Options set on the host that the rendered entries of a format do not carry. Formats with no entries report nothing. */
+export const findDroppedHostOptions = (host: CreateHost, preview: HostPreviewResponse): Record<HostPreviewFormat, HostPreviewOption[]> => {
+  const setProbes = HOST_OPTION_PROBES.filter(probe => probe.isSet(host))
+
+  return Object.fromEntries(
+    HOST_PREVIEW_FORMATS.map(format => {
+      const entries = getSearchableEntries(format, preview)
+      if (!entries.length) return [format, []]
+      return [format, setProbes.filter(probe => !hasKeyDeep(entries, new Set(probe.keys[format]))).map(probe => probe.option)]
+    }),
+  ) as Record<HostPreviewFormat, HostPreviewOption[]>
+}
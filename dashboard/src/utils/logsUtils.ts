@@ -1,11 +1,29 @@
+import { escapeRegExp } from 'es-toolkit'
+
 export type LogType = 'error' | 'warning' | 'info' | 'debug'
 export type LogVariant = 'red' | 'yellow' | 'blue' | 'orange'
 
+/** Fields pulled out of an Xray access line (`from 1.2.3.4:5678 accepted tcp:example.com:443 [in >> out] email: 7`). */
+export interface AccessLogFields {
+  sourceIp: string
+  sourcePort: number | null
+  network: 'tcp' | 'udp'
+  destination: string
+  destinationPort: number | null
+  inboundTag: string | null
+  outboundTag: string | null
+  email: string | null
+  accepted: boolean
+}
+
 export interface LogLine {
   rawTimestamp: string | null
   timestamp: Date | null
   type: LogType
   message: string
+  access?: AccessLogFields | null
+  /** Set by multi-node streams so merged views can tell lines apart. */
+  nodeId?: number
 }
 
 interface LogStyle {
@@ -37,64 +55,112 @@ const LOG_STYLES: Record<LogType, LogStyle> = {
   },
 } as const
 
-export function parseLogs(logString: string): LogLine[] {
+const LOG_LINE_REGEX = /^(?:(\d+)\s+)?(\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?|\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z|\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{3} UTC)?\s*(.*)$/
+
+// Xray prints the network in front of the source on newer builds ("from tcp:1.2.3.4:5678"), older ones omit it.
+const ACCESS_LOG_REGEX = /from\s+(?:(?:tcp|udp):)?(\[[^\]]+\]|[^\s]+?)(?::(\d+))?\s+(accepted|rejected)\s+(tcp|udp):(\[[^\]]+\]|[^\s]+?)(?::(\d+))?(?=\s|$)(?:\s+\[([^\]]*)\])?(?:\s+email:\s*(\S+))?/i
+
+/** Lane colors for merged multi-node logs, assigned by the node's position in the node list. */
+const NODE_LANE_COLORS = ['bg-sky-500', 'bg-emerald-500', 'bg-violet-500', 'bg-amber-500', 'bg-rose-500', 'bg-teal-500', 'bg-fuchsia-500', 'bg-lime-500', 'bg-indigo-500', 'bg-orange-500']
+
+export interface NodeLogLane {
+  id: number
+  name: string
+  color: string
+}
+
+export const buildNodeLogLanes = (nodes: { id: number; name: string }[]): NodeLogLane[] =>
+  nodes.map((node, index) => ({ id: node.id, name: node.name, color: NODE_LANE_COLORS[index % NODE_LANE_COLORS.length] }))
+
+export function parseLogLine(line: string): LogLine | null {
   // Regex to match the log line format
   // Example of return :
   // 1 2024-12-10T10:00:00.000Z The server is running on port 8080
   // Should return :
   // { timestamp: new Date("2024-12-10T10:00:00.000Z"),
   // message: "The server is running on port 8080" }
-  const logRegex = /^(?:(\d+)\s+)?(\d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2}(?:\.\d+)?|\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z|\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{3} UTC)?\s*(.*)$/
+  const trimmed = line.trim()
+  if (trimmed === '') return null
 
-  return logString
-    .split('\n')
-    .map(line => line.trim())
-    .filter(line => line !== '')
-    .map(line => {
-      const match = line.match(logRegex)
-      if (!match) return null
-
-      const [, , timestamp, message] = match
-
-      if (!message?.trim()) return null
-
-      let parsedTimestamp: Date | null = null
-      if (timestamp) {
-        try {
-          // Handle Xray format: 2025/09/27 13:26:58.279079 (assume UTC)
-          if (timestamp.includes('/')) {
-            parsedTimestamp = new Date(timestamp + 'Z') // Treat as UTC
-          } else {
-            // Handle other formats
-            parsedTimestamp = new Date(timestamp.replace(' UTC', 'Z'))
-          }
-          // Validate the parsed date is valid
-          if (isNaN(parsedTimestamp.getTime())) {
-            parsedTimestamp = null
-          }
-        } catch {
-          // If date parsing fails, set to null
-          parsedTimestamp = null
-        }
-      }
+  const match = trimmed.match(LOG_LINE_REGEX)
+  if (!match) return null
 
-      const type = getLogType(message).type
+  const [, , timestamp, message] = match
 
-      // Remove duplicate status indicators from message text since they're shown in badges
-      let cleanedMessage = message.trim()
-      cleanedMessage = cleanedMessage.replace(/^\[(Debug|Info|Warn|Warning|Error)\]\s*/i, '')
-      cleanedMessage = cleanedMessage.replace(/^(Debug|Info|Warn|Warning|Error):\s*/i, '')
+  if (!message?.trim()) return null
 
-      return {
-        rawTimestamp: timestamp ?? null,
-        timestamp: parsedTimestamp,
-        type,
-        message: cleanedMessage,
+  let parsedTimestamp: Date | null = null
+  if (timestamp) {
+    try {
+      // Handle Xray format: 2025/09/27 13:26:58.279079 (assume UTC)
+      if (timestamp.includes('/')) {
+        parsedTimestamp = new Date(timestamp + 'Z') // Treat as UTC
+      } else {
+        // Handle other formats
+        parsedTimestamp = new Date(timestamp.replace(' UTC', 'Z'))
       }
-    })
+      // Validate the parsed date is valid
+      if (isNaN(parsedTimestamp.getTime())) {
+        parsedTimestamp = null
+      }
+    } catch {
+      // If date parsing fails, set to null
+      parsedTimestamp = null
+    }
+  }
+
+  const type = getLogType(message).type
+
+  // Remove duplicate status indicators from message text since they're shown in badges
+  let cleanedMessage = message.trim()
+  cleanedMessage = cleanedMessage.replace(/^\[(Debug|Info|Warn|Warning|Error)\]\s*/i, '')
+  cleanedMessage = cleanedMessage.replace(/^(Debug|Info|Warn|Warning|Error):\s*/i, '')
+
+  return {
+    rawTimestamp: timestamp ?? null,
+    timestamp: parsedTimestamp,
+    type,
+    message: cleanedMessage,
+    access: parseAccessLog(cleanedMessage),
+  }
+}
+
+export function parseLogs(logString: string): LogLine[] {
+  return logString
+    .split('\n')
+    .map(parseLogLine)
     .filter(log => log !== null) as LogLine[]
 }
 
+const stripBrackets = (host: string) => (host.startsWith('[') && host.endsWith(']') ? host.slice(1, -1) : host)
+
+const toPort = (value: string | undefined) => {
+  if (!value) return null
+  const port = Number(value)
+  return Number.isInteger(port) ? port : null
+}
+
+export function parseAccessLog(message: string): AccessLogFields | null {
+  const match = message.match(ACCESS_LOG_REGEX)
+  if (!match) return null
+
+  const [, sourceIp, sourcePort, verdict, network, destination, destinationPort, route, email] = match
+  // Route is "inbound >> outbound" (or "inbound -> outbound" on some builds)
+  const [inboundTag, outboundTag] = (route ?? '').split(/\s*(?:>>|->)\s*/)
+
+  return {
+    sourceIp: stripBrackets(sourceIp),
+    sourcePort: toPort(sourcePort),
+    network: network.toLowerCase() as AccessLogFields['network'],
+    destination: stripBrackets(destination),
+    destinationPort: toPort(destinationPort),
+    inboundTag: inboundTag?.trim() || null,
+    outboundTag: outboundTag?.trim() || null,
+    email: email?.trim() || null,
+    accepted: verdict.toLowerCase() === 'accepted',
+  }
+}
+
 // Detect log type based on Xray core message content
 export const getLogType = (message: string): LogStyle => {
   if (/\[error\]/i.test(message)) {
@@ -139,3 +205,147 @@ export const getLogType = (message: string): LogStyle => {
 }
 
 export const getLogStyle = (type: LogType): LogStyle => LOG_STYLES[type]
+
+export interface LogRingBuffer<T> {
+  readonly capacity: number
+  readonly size: number
+  push: (...items: T[]) => void
+  toArray: () => T[]
+  /** Drops every entry the predicate rejects, keeping the rest in order. */
+  retain: (keep: (item: T) => boolean) => void
+  clear: () => void
+}
+
+/** Fixed-capacity FIFO: once full, every push overwrites the oldest entry instead of reallocating the whole array. */
+export function createLogRingBuffer<T>(capacity: number): LogRingBuffer<T> {
+  const items: (T | undefined)[] = new Array(capacity)
+  let start = 0
+  let size = 0
+
+  return {
+    capacity,
+    get size() {
+      return size
+    },
+    push: (...incoming: T[]) => {
+      for (const item of incoming) {
+        items[(start + size) % capacity] = item
+        if (size < capacity) {
+          size += 1
+        } else {
+          start = (start + 1) % capacity
+        }
+      }
+    },
+    toArray: () => {
+      const result: T[] = new Array(size)
+      for (let i = 0; i < size; i++) {
+        result[i] = items[(start + i) % capacity] as T
+      }
+      return result
+    },
+    retain: keep => {
+      let kept = 0
+      for (let i = 0; i < size; i++) {
+        const item = items[(start + i) % capacity] as T
+        if (keep(item)) {
+          items[(start + kept) % capacity] = item
+          kept += 1
+        }
+      }
+      for (let i = kept; i < size; i++) {
+        items[(start + i) % capacity] = undefined
+      }
+      size = kept
+    },
+    clear: () => {
+      items.fill(undefined)
+      start = 0
+      size = 0
+    },
+  }
+}
+
+export interface LogSearchOptions {
+  query: string
+  regex: boolean
+  caseSensitive: boolean
+}
+
+export interface LogSearchPattern {
+  /** Global pattern used for highlighting; `null` when the query is empty or invalid. */
+  pattern: RegExp | null
+  error: string | null
+  test: (text: string) => boolean
+}
+
+export function buildLogSearchPattern({ query, regex, caseSensitive }: LogSearchOptions): LogSearchPattern {
+  if (!query) return { pattern: null, error: null, test: () => true }
+
+  const flags = caseSensitive ? 'g' : 'gi'
+  let pattern: RegExp
+  try {
+    pattern = new RegExp(regex ? query : escapeRegExp(query), flags)
+  } catch (error) {
+    return { pattern: null, error: error instanceof Error ? error.message : String(error), test: () => true }
+  }
+
+  const tester = new RegExp(pattern.source, caseSensitive ? '' : 'i')
+  return { pattern, error: null, test: text => tester.test(text) }
+}
+
+export type AccessLogFilterKey = 'sourceIp' | 'destination' | 'inboundTag' | 'email'
+
+export type AccessLogFilter = Record<AccessLogFilterKey, string>
+
+/** Filterable access-log columns with their `nodes.logs.access.*` label keys. */
+export const ACCESS_LOG_FIELDS: { key: AccessLogFilterKey; label: string; placeholder: string }[] = [
+  { key: 'sourceIp', label: 'nodes.logs.access.sourceIp', placeholder: '203.0.113.7' },
+  { key: 'destination', label: 'nodes.logs.access.destination', placeholder: 'example.com:443' },
+  { key: 'inboundTag', label: 'nodes.logs.access.inboundTag', placeholder: 'VLESS TCP REALITY' },
+  { key: 'email', label: 'nodes.logs.access.email', placeholder: '42' },
+]
+
+export const EMPTY_ACCESS_LOG_FILTER: AccessLogFilter = { sourceIp: '', destination: '', inboundTag: '', email: '' }
+
+export const hasAccessLogFilter = (filter: AccessLogFilter) => Object.values(filter).some(value => value.trim() !== '')
+
+export function matchesAccessLogFilter(access: AccessLogFields | null | undefined, filter: AccessLogFilter): boolean {
+  if (!hasAccessLogFilter(filter)) return true
+  if (!access) return false
+
+  const includes = (value: string | null, needle: string) => !needle.trim() || (value ?? '').toLowerCase().includes(needle.trim().toLowerCase())
+  const destination = access.destinationPort !== null ? `${access.destination}:${access.destinationPort}` : access.destination
+
+  return includes(access.sourceIp, filter.sourceIp) && includes(destination, filter.destination) && includes(access.inboundTag, filter.inboundTag) && includes(access.email, filter.email)
+}
+
+const formatLogTimestamp = (log: LogLine) => log.timestamp?.toISOString() ?? log.rawTimestamp ?? null
+
+/** Resolves `LogLine.nodeId` to a display name; exports omit the node when it is not provided. */
+type NodeNameResolver = (nodeId: number) => string | undefined
+
+const resolveNodeName = (log: LogLine, getNodeName?: NodeNameResolver) => (getNodeName && log.nodeId !== undefined ? (getNodeName(log.nodeId) ?? String(log.nodeId)) : undefined)
+
+export function formatLogsAsText(logs: LogLine[], getNodeName?: NodeNameResolver): string {
+  return logs
+    .map(log => {
+      const nodeName = resolveNodeName(log, getNodeName)
+      return `${formatLogTimestamp(log) ?? 'No timestamp'}${nodeName ? ` [${nodeName}]` : ''} [${log.type}] ${log.message}`
+    })
+    .join('\n')
+}
+
+export function formatLogsAsNdjson(logs: LogLine[], getNodeName?: NodeNameResolver): string {
+  return logs
+    .map(log =>
+      JSON.stringify({
+        timestamp: formatLogTimestamp(log),
+        ...(resolveNodeName(log, getNodeName) ? { node: resolveNodeName(log, getNodeName) } : {}),
+        level: log.type,
+        message: log.message,
+        ...(log.access ? { access: log.access } : {}),
+      }),
+    )
+    .join('\n')
+}
@@ -0,0 +1,12 @@
+import type { TFunction } from 'i18next'
+
+const humanizeKey = (key: string) => key.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase())
+
+/** Translated resource and action names of a role permission, falling back to the humanized keys. */
+export const formatPermissionActionLabel = (t: TFunction, item: { resource: string; action: string }) => {
+  const resourceLabel = t(`adminRoles.resources.${item.resource}`, { defaultValue: humanizeKey(item.resource) })
+  const actionLabel = t(`adminRoles.actions.${item.resource}.${item.action}`, {
+    defaultValue: t(`adminRoles.actions.common.${item.action}`, { defaultValue: humanizeKey(item.action) }),
+  })
+  return { resourceLabel, actionLabel }
+}
@@ -49,11 +49,33 @@ export const canManageResource = (admin: AdminDetails | null | undefined, resour
   return mutationActions.some(action => hasPermission(admin, resource, action))
 }
 
+/**
+ * Non-owner admins that only see their own users get the reseller portal instead of the
+ * operator dashboard, whether or not their role also grants `system.read`.
+ */
+export const isResellerAdmin = (admin: AdminDetails | null | undefined) => !!admin && !isOwner(admin) && hasPermission(admin, 'users', 'read') && !hasScopeAll(admin, 'users', 'read')
+
 export const roleLabel = (admin: AdminDetails | null | undefined) => admin?.role?.name || 'operator'
 
+/** An admin's own `max_users` override wins over the limit of their role. */
+export const getEffectiveMaxUsers = (admin: AdminDetails | null | undefined) => admin?.permission_overrides?.max_users ?? admin?.role?.limits?.max_users ?? null
+
+/** Row actions of the users table; scope `all` is required for anything that crosses admin boundaries. */
+export const getUserActionPermissions = (admin: AdminDetails | null | undefined) => {
+  const canReadAll = hasScopeAll(admin, 'users', 'read')
+  return {
+    canUpdate: hasPermission(admin, 'users', 'update'),
+    canUpdateAll: hasScopeAll(admin, 'users', 'update'),
+    canReadAll,
+    canDelete: hasPermission(admin, 'users', 'delete'),
+    // Connections are reconstructed from node access logs, so the admin must be able to tail them
+    canViewConnections: canReadAll && hasPermission(admin, 'nodes', 'logs'),
+  }
+}
+
 export const firstAllowedRoute = (admin: AdminDetails | null | undefined) => {
   if (!admin) return '/login'
-  if (hasPermission(admin, 'system', 'read')) return '/'
+  if (hasPermission(admin, 'system', 'read') || isResellerAdmin(admin)) return '/'
   if (hasPermission(admin, 'users', 'read')) return '/users'
   if (hasPermission(admin, 'nodes', 'stats')) return '/statistics'
   if (canReadResourcePage(admin, 'hosts')) return '/hosts'
@@ -69,7 +91,7 @@ export const firstAllowedRoute = (admin: AdminDetails | null | undefined) => {
 
 export const canAccessRoute = (admin: AdminDetails | null | undefined, pathname: string) => {
   if (!admin) return false
-  if (pathname === '/') return hasPermission(admin, 'system', 'read')
+  if (pathname === '/') return hasPermission(admin, 'system', 'read') || isResellerAdmin(admin)
   if (pathname.startsWith('/theme') || pathname.startsWith('/settings/theme')) return true
   if (pathname.startsWith('/users')) return hasPermission(admin, 'users', 'read')
   if (pathname.startsWith('/statistics')) return hasPermission(admin, 'nodes', 'stats')
@@ -94,6 +116,8 @@ export const canAccessRoute = (admin: AdminDetails | null | undefined, pathname:
     if (pathname === '/settings') return true
     return hasPermission(admin, 'settings', 'read') && hasPermission(admin, 'settings', 'update')
   }
+  if (pathname.startsWith('/bulk/import')) return hasPermission(admin, 'users', 'create')
+  if (pathname.startsWith('/bulk/history')) return hasPermission(admin, 'users', 'update') || hasPermission(admin, 'users', 'delete')
   if (pathname.startsWith('/bulk/create') || pathname === '/bulk') return hasPermission(admin, 'users', 'create') && canReadResourcePage(admin, 'templates')
   if (pathname.startsWith('/bulk/groups')) return hasScopeAll(admin, 'users', 'update') && hasPermission(admin, 'groups', 'read')
   if (pathname.startsWith('/bulk/expire') || pathname.startsWith('/bulk/data') || pathname.startsWith('/bulk/proxy')) return hasScopeAll(admin, 'users', 'update')
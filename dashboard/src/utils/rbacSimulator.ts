@@ -0,0 +1,86 @@
+import type { AdminDetails } from '@/service/api'
+import { canAccessRoute, firstAllowedRoute, getEffectiveMaxUsers, getUserActionPermissions, hasPermission, isLimited, isOwner } from '@/utils/rbac'
+
+export type SimulatedAccessSection = 'pages' | 'userActions' | 'bulkPages'
+
+export interface SimulatedAccessItem {
+  id: string
+  labelKey: string
+  /** Set for pages, which are also the entries the sidebar shows. */
+  path?: string
+  allowed: boolean
+}
+
+export interface SimulatedAccess {
+  /** Where the route guard sends the admin after login or when a page is denied. */
+  landingRoute: string
+  /** Limited admins keep read actions only, or lose everything when the role blocks them. */
+  blockedByLimit: boolean
+  maxUsers: number | null
+  sections: Record<SimulatedAccessSection, SimulatedAccessItem[]>
+}
+
+// Same order and labels as the sidebar
+const PAGES: Array<{ path: string; labelKey: string }> = [
+  { path: '/', labelKey: 'dashboard' },
+  { path: '/users', labelKey: 'users' },
+  { path: '/statistics', labelKey: 'statistics' },
+  { path: '/hosts', labelKey: 'hosts' },
+  { path: '/groups', labelKey: 'groups' },
+  { path: '/admins', labelKey: 'admins.title' },
+  { path: '/admin-roles', labelKey: 'adminRoles.title' },
+  { path: '/api-keys', labelKey: 'apiKeys.title' },
+  { path: '/nodes', labelKey: 'nodes.title' },
+  { path: '/nodes/cores', labelKey: 'settings.cores.title' },
+  { path: '/nodes/wireguard', labelKey: 'nodes.wireguard.title' },
+  { path: '/nodes/logs', labelKey: 'nodes.logs.title' },
+  { path: '/templates/user', labelKey: 'templates.userTemplates' },
+  { path: '/templates/client', labelKey: 'templates.clientTemplates' },
+  { path: '/settings/general', labelKey: 'settings.general.title' },
+  { path: '/settings/notifications', labelKey: 'settings.notifications.title' },
+  { path: '/settings/subscriptions', labelKey: 'settings.subscriptions.title' },
+  { path: '/settings/hwid', labelKey: 'settings.hwid.title' },
+  { path: '/settings/telegram', labelKey: 'settings.telegram.title' },
+  { path: '/settings/webhook', labelKey: 'settings.webhook.title' },
+  { path: '/settings/cleanup', labelKey: 'settings.cleanup.title' },
+  { path: '/settings/theme', labelKey: 'theme.title' },
+]
+
+const BULK_PAGES: Array<{ path: string; labelKey: string }> = [
+  { path: '/bulk', labelKey: 'bulk.createUsers' },
+  { path: '/bulk/import', labelKey: 'bulk.importUsers' },
+  { path: '/bulk/groups', labelKey: 'bulk.groups' },
+  { path: '/bulk/expire', labelKey: 'bulk.expireDate' },
+  { path: '/bulk/data', labelKey: 'bulk.dataLimit' },
+  { path: '/bulk/proxy', labelKey: 'bulk.proxySettings' },
+  { path: '/bulk/history', labelKey: 'bulkHistory.title' },
+]
+
+/** Evaluates the same checks the router, sidebar and users table run, for any admin object. */
+export const simulateAdminAccess = (admin: AdminDetails): SimulatedAccess => {
+  const users = getUserActionPermissions(admin)
+  const canCreateUsers = hasPermission(admin, 'users', 'create')
+
+  const userActions: SimulatedAccessItem[] = [
+    { id: 'create', labelKey: 'createUser', allowed: canCreateUsers },
+    { id: 'edit', labelKey: 'edit', allowed: users.canUpdate },
+    { id: 'setOwner', labelKey: 'setOwnerModal.title', allowed: users.canUpdateAll },
+    { id: 'revokeSubscription', labelKey: 'userDialog.revokeSubscription', allowed: users.canUpdate },
+    { id: 'resetUsage', labelKey: 'userDialog.resetUsage', allowed: users.canUpdate },
+    { id: 'activateNextPlan', labelKey: 'usersTable.activeNextPlanSubmit', allowed: users.canUpdate },
+    { id: 'ipAddresses', labelKey: 'userAllIPs.ipAddresses', allowed: users.canReadAll },
+    { id: 'connections', labelKey: 'userConnections.menuItem', allowed: users.canViewConnections },
+    { id: 'delete', labelKey: 'usersTable.delete', allowed: users.canDelete },
+  ]
+
+  return {
+    landingRoute: firstAllowedRoute(admin),
+    blockedByLimit: !isOwner(admin) && isLimited(admin),
+    maxUsers: getEffectiveMaxUsers(admin),
+    sections: {
+      pages: PAGES.map(page => ({ id: page.path, ...page, allowed: canAccessRoute(admin, page.path) })),
+      userActions,
+      bulkPages: BULK_PAGES.map(page => ({ id: page.path, ...page, allowed: canAccessRoute(admin, page.path) })),
+    },
+  }
+}
@@ -0,0 +1,61 @@
+import type { AdminDetails, GetUsersParams } from '@/service/api'
+import { getEffectiveMaxUsers } from '@/utils/rbac'
+
+export type ExpiryPipelineStageId = 'expired' | 'within3Days' | 'within7Days' | 'within30Days'
+
+export interface ExpiryPipelineStage {
+  id: ExpiryPipelineStageId
+  /** Upper bound of the window in days from now; the previous stage's bound is the lower one. */
+  days?: number
+}
+
+export const EXPIRY_PIPELINE_STAGES: ExpiryPipelineStage[] = [{ id: 'expired' }, { id: 'within3Days', days: 3 }, { id: 'within7Days', days: 7 }, { id: 'within30Days', days: 30 }]
+
+export interface QuotaUsage {
+  used: number
+  /** `null` when the admin has no limit of this kind. */
+  limit: number | null
+  remaining: number | null
+  percent: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const buildQuotaUsage = (used: number, limit: number | null | undefined): QuotaUsage => {
+  if (!limit || limit <= 0) return { used, limit: null, remaining: null, percent: 0 }
+  return { used, limit, remaining: Math.max(0, limit - used), percent: Math.min(100, (used / limit) * 100) }
+}
+
+export const getResellerQuota = (admin: AdminDetails | null | undefined) => ({
+  traffic: buildQuotaUsage(admin?.used_traffic ?? 0, admin?.data_limit),
+  users: buildQuotaUsage(admin?.total_users ?? 0, getEffectiveMaxUsers(admin)),
+})
+
+/**
+ * Stages are disjoint windows, so a user only ever shows up in one of them. Already expired
+ * users are matched by status because the backend moves them out of `active` on expiry.
+ */
+export const getExpiryStageParams = (stage: ExpiryPipelineStage, now = Date.now()): GetUsersParams => {
+  if (!stage.days) return { status: 'expired' }
+  const index = EXPIRY_PIPELINE_STAGES.findIndex(item => item.id === stage.id)
+  const previousDays = EXPIRY_PIPELINE_STAGES[index - 1]?.days ?? 0
+  return {
+    status: 'active',
+    expire_after: new Date(now + previousDays * DAY_MS).toISOString(),
+    expire_before: new Date(now + stage.days * DAY_MS).toISOString(),
+  }
+}
+
+/** Upcoming stages list the most urgent users first, the expired one the most recently lost. */
+export const getExpiryStageSort = (stage: ExpiryPipelineStage) => (stage.days ? 'expire' : '-expire')
+
+/** Query string that opens the users table on the same window as a pipeline stage. */
+export const getExpiryStageUsersQuery = (stage: ExpiryPipelineStage, now = Date.now()) => {
+  const params = new URLSearchParams({ sort: getExpiryStageSort(stage) })
+  for (const [key, value] of Object.entries(getExpiryStageParams(stage, now))) {
+    if (value != null) params.set(key, String(value))
+  }
+  return params.toString()
+}
+
+export const toAbsoluteSubscriptionUrl = (url: string) => (url.startsWith('/') ? window.location.origin + url : url)
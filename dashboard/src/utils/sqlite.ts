@@ -0,0 +1,204 @@
+/**
+ * Read-only SQLite table scanner, enough to pull rows out of the database backups other panels
+ * produce without shipping a WASM build of SQLite. Only table b-trees are walked; indexes, WAL
+ * files and schema features beyond column names are ignored.
+ */
+
+export type SqliteValue = string | number | Uint8Array | null
+
+export type SqliteRow = Record<string, SqliteValue>
+
+const SQLITE_MAGIC = 'SQLite format 3\u0000'
+
+const TABLE_INTERIOR_PAGE = 0x05
+const TABLE_LEAF_PAGE = 0x0d
+
+const CONSTRAINT_KEYWORDS = new Set(['primary', 'unique', 'foreign', 'check', 'constraint'])
+
+export const isSqliteDatabase = (data: ArrayBuffer) => data.byteLength >= 100 && new TextDecoder().decode(new Uint8Array(data, 0, 16)) === SQLITE_MAGIC
+
+const readVarint = (bytes: Uint8Array, offset: number): [value: number, length: number] => {
+  let value = 0
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i]
+    value = value * 128 + (byte & 0x7f)
+    if ((byte & 0x80) === 0) return [value, i + 1]
+  }
+  return [value * 256 + bytes[offset + 8], 9]
+}
+
+/** Column names in declaration order, read from the `CREATE TABLE` statement kept in `sqlite_master`. */
+const parseColumnNames = (sql: string) => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'))
+  const definitions: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of body) {
+    if (char === '(') depth++
+    if (char === ')') depth--
+    if (char === ',' && depth === 0) {
+      definitions.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  definitions.push(current)
+
+  return definitions
+    .map(definition => definition.trim())
+    .filter(definition => definition && !CONSTRAINT_KEYWORDS.has(definition.split(/\s+/)[0].toLowerCase()))
+    .map(definition => {
+      const quoted = definition.match(/^["`[]([^"`\]]+)["`\]]/)
+      return {
+        name: quoted ? quoted[1] : definition.split(/\s+/)[0],
+        // An INTEGER PRIMARY KEY column is stored as the rowid and kept NULL in the record
+        isRowid: /^\S+\s+integer\s+primary\s+key/i.test(definition),
+      }
+    })
+}
+
+export const readSqliteTables = (data: ArrayBuffer, tableNames: string[]) => {
+  if (!isSqliteDatabase(data)) throw new Error('Not a SQLite database')
+
+  const bytes = new Uint8Array(data)
+  const view = new DataView(data)
+  const rawPageSize = view.getUint16(16)
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize
+  const usableSize = pageSize - bytes[20]
+  const encoding = view.getUint32(56)
+  const decoder = new TextDecoder(encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8')
+
+  const pageOffset = (page: number) => (page - 1) * pageSize
+
+  const readPayload = (start: number, payloadSize: number) => {
+    const maxLocal = usableSize - 35
+    if (payloadSize <= maxLocal) return bytes.subarray(start, start + payloadSize)
+
+    const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23
+    const overflowLocal = minLocal + ((payloadSize - minLocal) % (usableSize - 4))
+    const localSize = overflowLocal <= maxLocal ? overflowLocal : minLocal
+    const payload = new Uint8Array(payloadSize)
+    payload.set(bytes.subarray(start, start + localSize))
+
+    let written = localSize
+    let overflowPage = view.getUint32(start + localSize)
+    while (overflowPage !== 0 && written < payloadSize) {
+      const offset = pageOffset(overflowPage)
+      const chunk = Math.min(usableSize - 4, payloadSize - written)
+      payload.set(bytes.subarray(offset + 4, offset + 4 + chunk), written)
+      written += chunk
+      overflowPage = view.getUint32(offset)
+    }
+    return payload
+  }
+
+  const decodeRecord = (payload: Uint8Array): SqliteValue[] => {
+    const payloadView = new DataView(payload.buffer, payload.byteOffset, payload.byteLength)
+    const [headerSize, headerSizeLength] = readVarint(payload, 0)
+    const serialTypes: number[] = []
+    for (let offset = headerSizeLength; offset < headerSize;) {
+      const [serialType, length] = readVarint(payload, offset)
+      serialTypes.push(serialType)
+      offset += length
+    }
+
+    const values: SqliteValue[] = []
+    let offset = headerSize
+    for (const serialType of serialTypes) {
+      switch (serialType) {
+        case 0:
+          values.push(null)
+          break
+        case 1:
+          values.push(payloadView.getInt8(offset))
+          offset += 1
+          break
+        case 2:
+          values.push(payloadView.getInt16(offset))
+          offset += 2
+          break
+        case 3:
+          values.push((payloadView.getInt8(offset) << 16) | payloadView.getUint16(offset + 1))
+          offset += 3
+          break
+        case 4:
+          values.push(payloadView.getInt32(offset))
+          offset += 4
+          break
+        case 5:
+          values.push(payloadView.getInt16(offset) * 2 ** 32 + payloadView.getUint32(offset + 2))
+          offset += 6
+          break
+        case 6:
+          values.push(Number(payloadView.getBigInt64(offset)))
+          offset += 8
+          break
+        case 7:
+          values.push(payloadView.getFloat64(offset))
+          offset += 8
+          break
+        case 8:
+          values.push(0)
+          break
+        case 9:
+          values.push(1)
+          break
+        default: {
+          const length = Math.floor((serialType - (serialType % 2 === 0 ? 12 : 13)) / 2)
+          const content = payload.subarray(offset, offset + length)
+          values.push(serialType % 2 === 0 ? content.slice() : decoder.decode(content))
+          offset += length
+        }
+      }
+    }
+    return values
+  }
+
+  const scanTable = (rootPage: number) => {
+    const records: { rowid: number; values: SqliteValue[] }[] = []
+    const pending = [rootPage]
+    const visited = new Set<number>()
+
+    while (pending.length > 0) {
+      const page = pending.pop()!
+      // Guards against loops in a corrupted file
+      if (visited.has(page)) continue
+      visited.add(page)
+
+      const headerOffset = pageOffset(page) + (page === 1 ? 100 : 0)
+      const pageType = bytes[headerOffset]
+      const cellCount = view.getUint16(headerOffset + 3)
+      const cellPointerOffset = headerOffset + (pageType === TABLE_INTERIOR_PAGE ? 12 : 8)
+
+      if (pageType === TABLE_INTERIOR_PAGE) {
+        pending.push(view.getUint32(headerOffset + 8))
+        for (let i = cellCount - 1; i >= 0; i--) pending.push(view.getUint32(pageOffset(page) + view.getUint16(cellPointerOffset + i * 2)))
+      } else if (pageType === TABLE_LEAF_PAGE) {
+        for (let i = 0; i < cellCount; i++) {
+          let offset = pageOffset(page) + view.getUint16(cellPointerOffset + i * 2)
+          const [payloadSize, payloadSizeLength] = readVarint(bytes, offset)
+          offset += payloadSizeLength
+          const [rowid, rowidLength] = readVarint(bytes, offset)
+          offset += rowidLength
+          records.push({ rowid, values: decodeRecord(readPayload(offset, payloadSize)) })
+        }
+      }
+    }
+    return records
+  }
+
+  const schema = scanTable(1).map(({ values }) => ({ type: values[0], name: values[1], rootPage: values[3], sql: values[4] }))
+  const tables: Record<string, SqliteRow[]> = {}
+
+  for (const tableName of tableNames) {
+    const entry = schema.find(item => item.type === 'table' && typeof item.name === 'string' && item.name.toLowerCase() === tableName.toLowerCase())
+    if (!entry || typeof entry.rootPage !== 'number' || typeof entry.sql !== 'string') continue
+    const columns = parseColumnNames(entry.sql)
+    tables[tableName] = scanTable(entry.rootPage).map(({ rowid, values }) =>
+      Object.fromEntries(columns.map((column, index) => [column.name, column.isRowid && values[index] == null ? rowid : (values[index] ?? null)])),
+    )
+  }
+
+  return tables
+}
@@ -357,7 +357,10 @@ export const prepareSubscriptionContentForCopy = (content: string) => {
 }
 
 export const downloadTextFile = (content: string, fileName: string, mimeType = TEXT_FILE_MIME_TYPE) => {
-  const blob = new Blob([content], { type: mimeType })
+  downloadBlob(new Blob([content], { type: mimeType }), fileName)
+}
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
   const downloadUrl = window.URL.createObjectURL(blob)
   const anchor = document.createElement('a')
 
@@ -0,0 +1,107 @@
+import type { Application, Platform, SubscriptionUserResponse } from '@/service/api'
+import { resolveSubscriptionPanelBaseUrl, resolveSubscriptionQrUrl, type SubscriptionContentFormat } from '@/utils/subscription-config'
+
+export const SUBSCRIPTION_LANDING_PATH = '/subscription'
+
+/** `auto` is the plain subscription URL, which lets the panel pick a format from the client's user agent. */
+export type SubscriptionLandingFormat = 'auto' | Exclude<SubscriptionContentFormat, 'wireguard'>
+
+export const SUBSCRIPTION_LANDING_FORMATS: SubscriptionLandingFormat[] = ['auto', 'links', 'links_base64', 'xray', 'sing_box', 'clash', 'clash_meta', 'outline']
+
+export interface SubscriptionLandingInfo {
+  user: SubscriptionUserResponse
+  supportUrl: string | null
+  announce: string | null
+  announceUrl: string | null
+}
+
+const LANDING_FETCH_TIMEOUT_MS = 10_000
+
+/** Route inside the dashboard (hash router) that renders the landing page for a subscription URL. */
+export const getSubscriptionLandingPath = (subscribeUrl: string) => `${SUBSCRIPTION_LANDING_PATH}?url=${encodeURIComponent(resolveSubscriptionQrUrl(subscribeUrl))}`
+
+export const buildSubscriptionLandingLink = (subscribeUrl: string) => `${window.location.origin}${window.location.pathname}#${getSubscriptionLandingPath(subscribeUrl)}`
+
+/**
+ * The URL users import into their apps. The `url` parameter of this public page is untrusted,
+ * so only its path is kept and the origin is pinned to the panel, the same base `/info` is read from.
+ */
+export const getPublicSubscriptionUrl = (subscribeUrl: string) => resolveSubscriptionPanelBaseUrl(subscribeUrl)
+
+export const buildPublicFormatUrl = (subscribeUrl: string, format: SubscriptionLandingFormat) => {
+  const publicUrl = getPublicSubscriptionUrl(subscribeUrl)
+  return format === 'auto' ? publicUrl : `${publicUrl}/${format}`
+}
+
+/** Header values that may contain non-ASCII text are sent as `base64:<utf-8 bytes>`. */
+export const decodeSubscriptionHeader = (value: string | null) => {
+  if (!value) return null
+  if (!value.startsWith('base64:')) return value
+  try {
+    const bytes = Uint8Array.from(atob(value.slice('base64:'.length)), char => char.charCodeAt(0))
+    return new TextDecoder().decode(bytes)
+  } catch {
+    return value
+  }
+}
+
+const fetchWithTimeout = async (url: string) => {
+  const controller = new AbortController()
+  const timeoutId = window.setTimeout(() => controller.abort(), LANDING_FETCH_TIMEOUT_MS)
+  try {
+    // Plain fetch on purpose: the page is public and must not send or require the admin token
+    const response = await fetch(url, { signal: controller.signal, headers: { Accept: 'application/json' } })
+    if (!response.ok) throw Object.assign(new Error(`HTTP ${response.status}`), { status: response.status })
+    return response
+  } finally {
+    window.clearTimeout(timeoutId)
+  }
+}
+
+export const fetchSubscriptionLandingInfo = async (subscribeUrl: string): Promise<SubscriptionLandingInfo> => {
+  const response = await fetchWithTimeout(`${resolveSubscriptionPanelBaseUrl(subscribeUrl)}/info`)
+  return {
+    user: (await response.json()) as SubscriptionUserResponse,
+    supportUrl: response.headers.get('support-url'),
+    announce: decodeSubscriptionHeader(response.headers.get('announce')),
+    announceUrl: response.headers.get('announce-url'),
+  }
+}
+
+export const fetchSubscriptionLandingApps = async (subscribeUrl: string) => {
+  const response = await fetchWithTimeout(`${resolveSubscriptionPanelBaseUrl(subscribeUrl)}/apps`)
+  return (await response.json()) as Application[]
+}
+
+/**
+ * Best guess of the visitor's platform from the browser. TVs are checked first because their
+ * user agents also mention Android or macOS, and iPadOS reports itself as a Mac with touch.
+ */
+export const detectVisitorPlatform = (userAgent: string, maxTouchPoints = 0): Platform | null => {
+  const ua = userAgent.toLowerCase()
+  if (/appletv|apple tv|tvos/.test(ua)) return 'appletv'
+  if (/android/.test(ua) && /\btv\b|googletv|bravia|aft[a-z]/.test(ua)) return 'androidtv'
+  if (/iphone|ipad|ipod/.test(ua) || (/macintosh/.test(ua) && maxTouchPoints > 1)) return 'ios'
+  if (/android/.test(ua)) return 'android'
+  if (/windows/.test(ua)) return 'windows'
+  if (/macintosh|mac os x/.test(ua)) return 'macos'
+  if (/linux|x11|cros/.test(ua)) return 'linux'
+  return null
+}
+
+/** Apps from `/apps` come with their import URL already filled in; default catalog entries still carry `{url}`. */
+export const resolveAppImportUrl = (app: Pick<Application, 'import_url'>, subscribeUrl: string) => {
+  if (!app.import_url) return null
+  return app.import_url.split('{url}').join(getPublicSubscriptionUrl(subscribeUrl))
+}
+
+export const getPlatformApps = <T extends Pick<Application, 'platform' | 'recommended'>>(apps: T[], platform: Platform) =>
+  apps.filter(app => app.platform === platform).sort((a, b) => Number(!!b.recommended) - Number(!!a.recommended))
+
+export const getLocalizedAppDescription = (app: Pick<Application, 'description'>, language: string) => {
+  const descriptions = app.description ?? {}
+  return descriptions[language] || descriptions.en || Object.values(descriptions)[0] || ''
+}
+
+export const getLocalizedDownloadLink = (app: Pick<Application, 'download_links'>, language: string) =>
+  app.download_links.find(link => link.language === language) ?? app.download_links.find(link => link.language === 'en') ?? app.download_links[0] ?? null
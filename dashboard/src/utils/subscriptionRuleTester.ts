@@ -0,0 +1,162 @@
+import type { ConfigFormat } from '@/service/api'
+
+export interface TestableSubRule {
+  pattern: string
+  target: ConfigFormat
+  response_headers?: Record<string, string>
+}
+
+export interface CompiledSubRule {
+  regex: RegExp | null
+  error: string | null
+}
+
+export type RuleHeaderSource = 'default' | 'global' | 'rule'
+
+export interface MergedResponseHeader {
+  name: string
+  value: string
+  source: RuleHeaderSource
+  /** Sent as `base64:…` because the value may contain non latin-1 text. */
+  encoded: boolean
+}
+
+export interface SubRuleTestResult {
+  userAgent: string
+  matchIndex: number | null
+  target: ConfigFormat | null
+  /** The panel answers 406 when nothing matches or the matching rule blocks the client. */
+  rejected: boolean
+  headers: MergedResponseHeader[]
+}
+
+export type SubRuleWarning =
+  | { index: number; kind: 'invalidPattern'; error: string }
+  | { index: number; kind: 'duplicatePattern'; otherIndex: number }
+  | { index: number; kind: 'unreachable'; otherIndex: number }
+  | { index: number; kind: 'shadowed'; otherIndex: number }
+  | { index: number; kind: 'noSampleMatch' }
+
+/** Headers the panel always sends with a subscription; global and rule headers with the same name replace them. */
+export const DEFAULT_SUBSCRIPTION_RESPONSE_HEADERS = [
+  'content-disposition',
+  'profile-web-page-url',
+  'support-url',
+  'profile-title',
+  'profile-update-interval',
+  'subscription-userinfo',
+  'announce',
+  'announce-url',
+] as const
+
+const ENCODED_RESPONSE_HEADERS = new Set(['announce', 'profile-title'])
+
+const PYTHON_INLINE_FLAGS: Record<string, string> = { i: 'i', s: 's', m: 'm' }
+
+/**
+ * Rules are evaluated with Python's `re.match`, i.e. anchored at the start of the user agent and
+ * case-sensitive. Leading inline flags such as `(?i)`, `(?P<name>…)` groups and `\A`/`\Z` are translated so
+ * the common Python spellings behave the same here.
+ */
+export const compileSubRulePattern = (pattern: string): CompiledSubRule => {
+  let source = pattern
+  let flags = ''
+  const inlineFlags = source.match(/^\(\?([aiLmsux]+)\)/)
+  if (inlineFlags) {
+    source = source.slice(inlineFlags[0].length)
+    for (const flag of inlineFlags[1]) {
+      if (PYTHON_INLINE_FLAGS[flag] && !flags.includes(flag)) flags += PYTHON_INLINE_FLAGS[flag]
+    }
+  }
+  source = source
+    .replace(/\(\?P<([A-Za-z_]\w*)>/g, '(?<$1>')
+    .replace(/\(\?P=([A-Za-z_]\w*)\)/g, '\\k<$1>')
+    .replace(/\\A/g, () => '^')
+    .replace(/\\Z/g, () => '$')
+
+  try {
+    return { regex: new RegExp(`^(?:${source})`, flags), error: null }
+  } catch (error) {
+    return { regex: null, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+const findMatchIndex = (compiled: CompiledSubRule[], userAgent: string) => {
+  const index = compiled.findIndex(rule => rule.regex?.test(userAgent))
+  return index === -1 ? null : index
+}
+
+/** Same precedence as the subscription response: defaults, then global headers, then the matched rule's headers. */
+export const mergeRuleResponseHeaders = (globalHeaders: Record<string, string> | undefined, rule: TestableSubRule | null): MergedResponseHeader[] => {
+  const merged = new Map<string, MergedResponseHeader>()
+  for (const name of DEFAULT_SUBSCRIPTION_RESPONSE_HEADERS) {
+    merged.set(name, { name, value: '', source: 'default', encoded: ENCODED_RESPONSE_HEADERS.has(name) })
+  }
+
+  const apply = (headers: Record<string, string> | undefined, source: RuleHeaderSource) => {
+    for (const [rawName, rawValue] of Object.entries(headers ?? {})) {
+      const name = rawName.trim()
+      const value = String(rawValue ?? '').trim()
+      // Empty values are skipped by the panel, so they do not override anything either
+      if (!name || !value) continue
+      merged.set(name, { name, value, source, encoded: ENCODED_RESPONSE_HEADERS.has(name.toLowerCase()) })
+    }
+  }
+  apply(globalHeaders, 'global')
+  apply(rule?.response_headers, 'rule')
+
+  return [...merged.values()]
+}
+
+export const testSubRules = (rules: TestableSubRule[], userAgents: string[], globalHeaders?: Record<string, string>): SubRuleTestResult[] => {
+  const compiled = rules.map(rule => compileSubRulePattern(rule.pattern))
+  return userAgents.map(userAgent => {
+    const matchIndex = findMatchIndex(compiled, userAgent)
+    const rule = matchIndex === null ? null : rules[matchIndex]
+    const target = rule?.target ?? null
+    const rejected = !target || target === 'block'
+    return { userAgent, matchIndex, target, rejected, headers: rejected ? [] : mergeRuleResponseHeaders(globalHeaders, rule) }
+  })
+}
+
+/**
+ * Static checks plus sample-based ones. A rule is reported as shadowed when it matches some
+ * samples but every one of them is already taken by earlier rules; with no samples
+ * at all only the static checks run.
+ */
+export const analyzeSubRules = (rules: TestableSubRule[], samples: string[]): SubRuleWarning[] => {
+  const compiled = rules.map(rule => compileSubRulePattern(rule.pattern))
+  const warnings: SubRuleWarning[] = []
+  let catchAllIndex: number | null = null
+
+  rules.forEach((rule, index) => {
+    const { regex, error } = compiled[index]
+    if (!regex) {
+      warnings.push({ index, kind: 'invalidPattern', error: error ?? '' })
+      return
+    }
+
+    if (catchAllIndex !== null) {
+      warnings.push({ index, kind: 'unreachable', otherIndex: catchAllIndex })
+      return
+    }
+
+    const duplicateIndex = rules.findIndex((other, otherIndex) => otherIndex < index && other.pattern === rule.pattern)
+    if (duplicateIndex !== -1) {
+      warnings.push({ index, kind: 'duplicatePattern', otherIndex: duplicateIndex })
+    } else if (samples.length > 0) {
+      const matched = samples.filter(sample => regex.test(sample))
+      if (matched.length === 0) {
+        warnings.push({ index, kind: 'noSampleMatch' })
+      } else {
+        const winners = matched.map(sample => findMatchIndex(compiled, sample) ?? index)
+        if (!winners.includes(index)) warnings.push({ index, kind: 'shadowed', otherIndex: Math.min(...winners) })
+      }
+    }
+
+    // An anchored pattern that accepts the empty string accepts every user agent (e.g. `.*`)
+    if (regex.test('') && samples.every(sample => regex.test(sample))) catchAllIndex = index
+  })
+
+  return warnings
+}
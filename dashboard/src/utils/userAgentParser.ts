@@ -10,6 +10,39 @@ export interface ClientInfo {
   iconType: 'desktop' | 'mobile' | 'tv' | 'browser' | 'unknown'
 }
 
+// Common VPN/Proxy clients, each with a typical user agent it sends when fetching a subscription
+const KNOWN_CLIENTS = [
+  { pattern: /karing/, name: 'Karing', iconType: 'desktop' as const, sampleUserAgent: 'Karing/1.1.2.606' },
+  { pattern: /flclash/, name: 'FlClash', iconType: 'desktop' as const, sampleUserAgent: 'FlClash/v0.8.80' },
+  { pattern: /clash[\s.-]?verge|mihomo|clash/, name: 'Clash', iconType: 'desktop' as const, sampleUserAgent: 'clash-verge/v2.2.3' },
+  { pattern: /v2rayng/, name: 'v2rayNG', iconType: 'mobile' as const, sampleUserAgent: 'v2rayNG/1.9.30' },
+  { pattern: /v2rayn/, name: 'v2rayN', iconType: 'desktop' as const, sampleUserAgent: 'v2rayN/7.10.0' },
+  { pattern: /stash/, name: 'Stash', iconType: 'mobile' as const, sampleUserAgent: 'Stash/2.4.7' },
+  { pattern: /shadowrocket/, name: 'Shadowrocket', iconType: 'mobile' as const, sampleUserAgent: 'Shadowrocket/2.2.59 CFNetwork/1568.200.51 Darwin/24.1.0' },
+  { pattern: /quantumult/, name: 'Quantumult', iconType: 'mobile' as const, sampleUserAgent: 'Quantumult%20X/1.5.2' },
+  { pattern: /surge/, name: 'Surge', iconType: 'mobile' as const, sampleUserAgent: 'Surge iOS/3098' },
+  { pattern: /shadowsocks/, name: 'Shadowsocks', iconType: 'desktop' as const, sampleUserAgent: 'Shadowsocks/5.2.3' },
+  { pattern: /\bsf[aimt]\b|sing[\s-]?box/, name: 'sing-box', iconType: 'desktop' as const, sampleUserAgent: 'SFA/1.10.7 (Android 14; sing-box 1.10.7)' },
+  { pattern: /hiddify/, name: 'Hiddify', iconType: 'mobile' as const, sampleUserAgent: 'HiddifyNext/2.5.7 (android)' },
+  { pattern: /happ/, name: 'Happ', iconType: 'mobile' as const, sampleUserAgent: 'Happ/1.6.2' },
+  { pattern: /fairvpn/, name: 'FairVPN', iconType: 'mobile' as const, sampleUserAgent: 'FairVPN/2.3.0' },
+  { pattern: /v2box/, name: 'V2Box', iconType: 'mobile' as const, sampleUserAgent: 'V2Box/9.1.0' },
+  { pattern: /ktor[\s-]?client/, name: 'Ktor Client', iconType: 'mobile' as const, sampleUserAgent: 'Ktor client' },
+  { pattern: /pharos/, name: 'Pharos', iconType: 'mobile' as const, sampleUserAgent: 'Pharos/1.4.0' },
+  { pattern: /napsternetv/, name: 'NapsternetV', iconType: 'mobile' as const, sampleUserAgent: 'NapsternetV/43.0' },
+  { pattern: /oneclick/, name: 'OneClick', iconType: 'mobile' as const, sampleUserAgent: 'OneClick/2.1.0' },
+  { pattern: /streisand/, name: 'Streisand', iconType: 'desktop' as const, sampleUserAgent: 'Streisand/1.6.40' },
+  { pattern: /outline/, name: 'Outline', iconType: 'desktop' as const, sampleUserAgent: 'Outline/1.15.2' },
+  { pattern: /matsuri/, name: 'Matsuri', iconType: 'mobile' as const, sampleUserAgent: 'Matsuri/0.6.0' },
+  { pattern: /sagernet/, name: 'SagerNet', iconType: 'mobile' as const, sampleUserAgent: 'SagerNet/0.8.1' },
+  { pattern: /nekobox/, name: 'NekoBox', iconType: 'mobile' as const, sampleUserAgent: 'NekoBox/1.3.4' },
+  { pattern: /foxray/, name: 'FoxRay', iconType: 'mobile' as const, sampleUserAgent: 'FoxRay/3.1' },
+  { pattern: /xraypb/, name: 'XrayPB', iconType: 'mobile' as const, sampleUserAgent: 'XrayPB/1.0.2' },
+]
+
+/** Representative user agents of the clients above, handy for testing subscription rules. */
+export const KNOWN_CLIENT_USER_AGENTS = KNOWN_CLIENTS.map(({ name, sampleUserAgent }) => ({ name, userAgent: sampleUserAgent }))
+
 export function parseUserAgent(userAgent: string | null | undefined): ClientInfo {
   if (!userAgent) {
     return {
@@ -21,38 +54,8 @@ export function parseUserAgent(userAgent: string | null | undefined): ClientInfo
 
   const ua = userAgent.toLowerCase()
 
-  // Common VPN/Proxy clients
-  const clientPatterns = [
-    { pattern: /karing/, name: 'Karing', iconType: 'desktop' as const },
-    { pattern: /flclash/, name: 'FlClash', iconType: 'desktop' as const },
-    { pattern: /clash[\s.-]?verge|mihomo|clash/, name: 'Clash', iconType: 'desktop' as const },
-    { pattern: /v2rayng/, name: 'v2rayNG', iconType: 'mobile' as const },
-    { pattern: /v2rayn/, name: 'v2rayN', iconType: 'desktop' as const },
-    { pattern: /stash/, name: 'Stash', iconType: 'mobile' as const },
-    { pattern: /shadowrocket/, name: 'Shadowrocket', iconType: 'mobile' as const },
-    { pattern: /quantumult/, name: 'Quantumult', iconType: 'mobile' as const },
-    { pattern: /surge/, name: 'Surge', iconType: 'mobile' as const },
-    { pattern: /shadowsocks/, name: 'Shadowsocks', iconType: 'desktop' as const },
-    { pattern: /\bsf[aimt]\b|sing[\s-]?box/, name: 'sing-box', iconType: 'desktop' as const },
-    { pattern: /hiddify/, name: 'Hiddify', iconType: 'mobile' as const },
-    { pattern: /happ/, name: 'Happ', iconType: 'mobile' as const },
-    { pattern: /fairvpn/, name: 'FairVPN', iconType: 'mobile' as const },
-    { pattern: /v2box/, name: 'V2Box', iconType: 'mobile' as const },
-    { pattern: /ktor[\s-]?client/, name: 'Ktor Client', iconType: 'mobile' as const },
-    { pattern: /pharos/, name: 'Pharos', iconType: 'mobile' as const },
-    { pattern: /napsternetv/, name: 'NapsternetV', iconType: 'mobile' as const },
-    { pattern: /oneclick/, name: 'OneClick', iconType: 'mobile' as const },
-    { pattern: /streisand/, name: 'Streisand', iconType: 'desktop' as const },
-    { pattern: /outline/, name: 'Outline', iconType: 'desktop' as const },
-    { pattern: /matsuri/, name: 'Matsuri', iconType: 'mobile' as const },
-    { pattern: /sagernet/, name: 'SagerNet', iconType: 'mobile' as const },
-    { pattern: /nekobox/, name: 'NekoBox', iconType: 'mobile' as const },
-    { pattern: /foxray/, name: 'FoxRay', iconType: 'mobile' as const },
-    { pattern: /xraypb/, name: 'XrayPB', iconType: 'mobile' as const },
-  ]
-
   // Check for known clients
-  for (const client of clientPatterns) {
+  for (const client of KNOWN_CLIENTS) {
     if (client.pattern.test(ua)) {
       // Try to extract version
       const versionMatch = userAgent.match(new RegExp(`${client.name.toLowerCase()}[/\\s]([\\d.]+)`, 'i'))
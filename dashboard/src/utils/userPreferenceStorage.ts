@@ -122,3 +122,92 @@ export const setCoresListUseConfigModal = (value: boolean) => {
   if (typeof localStorage === 'undefined') return
   localStorage.setItem(CORES_LIST_USE_CONFIG_MODAL_KEY, value ? 'true' : 'false')
 }
+
+const USERS_SAVED_VIEWS_KEY_PREFIX = 'pasarguard-users-saved-views'
+export const USERS_SAVED_VIEWS_CHANGE_EVENT = 'pasarguard-users-saved-views-change'
+
+/** Date filters a saved view may keep as an offset from "now" instead of a fixed timestamp. */
+export type UsersSavedViewDateParam = 'expire_after' | 'expire_before' | 'online_after' | 'online_before'
+
+export interface UsersSavedView {
+  id: string
+  name: string
+  /** Users table hash query string (without `page`), e.g. `status=active&group=3`. */
+  query: string
+  /** Seconds relative to the moment the view is applied, overriding the same params in `query`. */
+  relativeDates?: Partial<Record<UsersSavedViewDateParam, number>>
+  pinned: boolean
+  createdAt: number
+}
+
+export interface UsersSavedViewsState {
+  views: UsersSavedView[]
+  defaultViewId: string | null
+}
+
+const EMPTY_USERS_SAVED_VIEWS_STATE: UsersSavedViewsState = { views: [], defaultViewId: null }
+
+// Saved views are scoped per admin so several admins sharing a browser keep separate presets
+const getUsersSavedViewsKey = (username: string) => `${USERS_SAVED_VIEWS_KEY_PREFIX}:${username}`
+
+export const getUsersSavedViews = (username: string | null | undefined): UsersSavedViewsState => {
+  if (typeof localStorage === 'undefined' || !username) return EMPTY_USERS_SAVED_VIEWS_STATE
+  try {
+    const parsed = JSON.parse(localStorage.getItem(getUsersSavedViewsKey(username)) || 'null')
+    if (!parsed || !Array.isArray(parsed.views)) return EMPTY_USERS_SAVED_VIEWS_STATE
+    const views = (parsed.views as UsersSavedView[]).filter(view => typeof view?.id === 'string' && typeof view.name === 'string' && typeof view.query === 'string')
+    const defaultViewId = views.some(view => view.id === parsed.defaultViewId) ? parsed.defaultViewId : null
+    return { views, defaultViewId }
+  } catch {
+    return EMPTY_USERS_SAVED_VIEWS_STATE
+  }
+}
+
+export const setUsersSavedViews = (username: string | null | undefined, state: UsersSavedViewsState) => {
+  if (typeof localStorage === 'undefined' || !username) return
+  localStorage.setItem(getUsersSavedViewsKey(username), JSON.stringify(state))
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent<string>(USERS_SAVED_VIEWS_CHANGE_EVENT, { detail: username }))
+  }
+}
+
+const USERS_TABLE_LAYOUT_KEY_PREFIX = 'pasarguard-users-table-layout'
+
+export type UsersTableDensity = 'comfortable' | 'compact'
+
+export interface UsersTableLayout {
+  /** Column ids in display order; columns missing here keep their default position after the listed ones. */
+  order: string[]
+  /** Optional columns the admin switched on; built-in columns are always shown. */
+  visible: string[]
+  /** Column widths in pixels set by dragging a header edge. */
+  sizes: Record<string, number>
+  density: UsersTableDensity
+}
+
+export const DEFAULT_USERS_TABLE_LAYOUT: UsersTableLayout = { order: [], visible: [], sizes: {}, density: 'comfortable' }
+
+const getUsersTableLayoutKey = (username: string) => `${USERS_TABLE_LAYOUT_KEY_PREFIX}:${username}`
+
+export const getUsersTableLayout = (username: string | null | undefined): UsersTableLayout => {
+  if (typeof localStorage === 'undefined' || !username) return DEFAULT_USERS_TABLE_LAYOUT
+  try {
+    const parsed = JSON.parse(localStorage.getItem(getUsersTableLayoutKey(username)) || 'null')
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_USERS_TABLE_LAYOUT
+    const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string')
+    const sizes = Object.fromEntries(Object.entries(parsed.sizes ?? {}).filter((entry): entry is [string, number] => typeof entry[1] === 'number' && entry[1] > 0))
+    return {
+      order: isStringArray(parsed.order) ? parsed.order : [],
+      visible: isStringArray(parsed.visible) ? parsed.visible : [],
+      sizes,
+      density: parsed.density === 'compact' ? 'compact' : 'comfortable',
+    }
+  } catch {
+    return DEFAULT_USERS_TABLE_LAYOUT
+  }
+}
+
+export const setUsersTableLayout = (username: string | null | undefined, layout: UsersTableLayout) => {
+  if (typeof localStorage === 'undefined' || !username) return
+  localStorage.setItem(getUsersTableLayoutKey(username), JSON.stringify(layout))
+}
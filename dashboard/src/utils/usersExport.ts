@@ -0,0 +1,100 @@
+import { format as formatJalali } from 'date-fns-jalali'
+import { getUsers, type GetUsersParams, type UserResponse } from '@/service/api'
+import { buildCsv } from '@/utils/csv'
+import { dateUtils } from '@/utils/dateFormatter'
+import { buildXlsx, type XlsxCell } from '@/utils/xlsx'
+
+export type UsersExportFormat = 'csv' | 'xlsx' | 'json'
+
+export interface UsersExportContext {
+  groupNames: Map<number, string>
+}
+
+interface UsersExportColumn {
+  id: string
+  labelKey: string
+  defaultSelected: boolean
+  value: (user: UserResponse, context: UsersExportContext) => XlsxCell
+}
+
+/** Rows fetched per `/api/users` request while exporting. */
+export const USERS_EXPORT_PAGE_SIZE = 200
+
+const BYTES_PER_GB = 1024 ** 3
+
+const toGigabytes = (bytes: number | null | undefined) => (bytes ? Math.round((bytes / BYTES_PER_GB) * 100) / 100 : bytes === 0 ? 0 : null)
+
+const toDate = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined || value === '' || value === 0) return null
+  const date = dateUtils.toDayjs(value)
+  return date.isValid() ? date : null
+}
+
+const formatGregorian = (value: string | number | null | undefined) => toDate(value)?.format('YYYY-MM-DD HH:mm') ?? null
+
+const formatJalaliDate = (value: string | number | null | undefined) => {
+  const date = toDate(value)
+  return date ? formatJalali(date.toDate(), 'yyyy/MM/dd HH:mm') : null
+}
+
+export const USERS_EXPORT_COLUMNS: UsersExportColumn[] = [
+  { id: 'id', labelKey: 'usersExport.columns.id', defaultSelected: true, value: user => user.id },
+  { id: 'username', labelKey: 'usersExport.columns.username', defaultSelected: true, value: user => user.username },
+  { id: 'status', labelKey: 'usersExport.columns.status', defaultSelected: true, value: user => user.status },
+  { id: 'used_traffic_gb', labelKey: 'usersExport.columns.usedTraffic', defaultSelected: true, value: user => toGigabytes(user.used_traffic) },
+  { id: 'data_limit_gb', labelKey: 'usersExport.columns.dataLimit', defaultSelected: true, value: user => toGigabytes(user.data_limit) },
+  { id: 'lifetime_used_traffic_gb', labelKey: 'usersExport.columns.lifetimeUsedTraffic', defaultSelected: false, value: user => toGigabytes(user.lifetime_used_traffic) },
+  { id: 'data_limit_reset_strategy', labelKey: 'usersExport.columns.resetStrategy', defaultSelected: false, value: user => user.data_limit_reset_strategy ?? null },
+  { id: 'expire', labelKey: 'usersExport.columns.expireGregorian', defaultSelected: true, value: user => formatGregorian(user.expire) },
+  { id: 'expire_jalali', labelKey: 'usersExport.columns.expireJalali', defaultSelected: false, value: user => formatJalaliDate(user.expire) },
+  { id: 'subscription_url', labelKey: 'usersExport.columns.subscriptionUrl', defaultSelected: false, value: user => user.subscription_url ?? null },
+  { id: 'groups', labelKey: 'usersExport.columns.groups', defaultSelected: false, value: (user, { groupNames }) => (user.group_ids ?? []).map(id => groupNames.get(id) ?? `#${id}`).join(', ') },
+  { id: 'admin', labelKey: 'usersExport.columns.admin', defaultSelected: false, value: user => user.admin?.username ?? null },
+  { id: 'note', labelKey: 'usersExport.columns.note', defaultSelected: false, value: user => user.note ?? null },
+  { id: 'hwid_limit', labelKey: 'usersExport.columns.hwidLimit', defaultSelected: false, value: user => user.hwid_limit ?? null },
+  { id: 'on_hold_expire_duration', labelKey: 'usersExport.columns.onHoldExpireDuration', defaultSelected: false, value: user => user.on_hold_expire_duration ?? null },
+  { id: 'created_at', labelKey: 'usersExport.columns.createdAt', defaultSelected: false, value: user => formatGregorian(user.created_at) },
+  { id: 'created_at_jalali', labelKey: 'usersExport.columns.createdAtJalali', defaultSelected: false, value: user => formatJalaliDate(user.created_at) },
+  { id: 'online_at', labelKey: 'usersExport.columns.onlineAt', defaultSelected: false, value: user => formatGregorian(user.online_at) },
+]
+
+export const DEFAULT_USERS_EXPORT_COLUMN_IDS = USERS_EXPORT_COLUMNS.filter(column => column.defaultSelected).map(column => column.id)
+
+/**
+ * Pages through `/api/users` with the table's filters and sort until `total` rows are collected.
+ * The table's own `offset`/`limit` are ignored so the export always covers every matching user.
+ */
+export const fetchUsersForExport = async (
+  params: GetUsersParams,
+  { signal, onProgress, pageSize = USERS_EXPORT_PAGE_SIZE }: { signal?: AbortSignal; onProgress?: (loaded: number, total: number) => void; pageSize?: number } = {},
+) => {
+  const users: UserResponse[] = []
+  let total = Infinity
+
+  while (users.length < total) {
+    const response = await getUsers({ ...params, load_sub: true, offset: users.length, limit: pageSize }, signal)
+    total = response.total
+    users.push(...response.users)
+    onProgress?.(users.length, total)
+    // A short page means rows were deleted while exporting; stop instead of looping on the gap
+    if (response.users.length < pageSize) break
+  }
+
+  return users
+}
+
+/** Renders the export in `format`; spreadsheet formats get a translated header row. */
+export const buildUsersExport = (users: UserResponse[], columnIds: string[], format: UsersExportFormat, context: UsersExportContext, getLabel: (labelKey: string) => string) => {
+  const columns = USERS_EXPORT_COLUMNS.filter(column => columnIds.includes(column.id))
+
+  if (format === 'json') {
+    const rows = users.map(user => Object.fromEntries(columns.map(column => [column.id, column.value(user, context) ?? null])))
+    return new Blob([JSON.stringify(rows, null, 2)], { type: 'application/json' })
+  }
+
+  const rows: XlsxCell[][] = [columns.map(column => getLabel(column.labelKey)), ...users.map(user => columns.map(column => column.value(user, context)))]
+
+  if (format === 'xlsx') return buildXlsx(rows, 'Users')
+
+  return buildCsv(rows)
+}
@@ -0,0 +1,466 @@
+import { parse as parseJalali } from 'date-fns-jalali'
+import { DataLimitResetStrategy, getUsers, ShadowsocksMethods, type ProxyTable, type UserCreate } from '@/service/api'
+import type { ErrorType } from '@/service/http'
+import { parseCsv } from '@/utils/csv'
+import type { UsersImportPanel } from '@/utils/usersImportPanels'
+import { formatOffsetDateTime, parseDateInput } from '@/utils/dateTimeParsing'
+
+export type UsersImportFieldId =
+  | 'username'
+  | 'data_limit'
+  | 'expire'
+  | 'expire_days'
+  | 'note'
+  | 'groups'
+  | 'status'
+  | 'data_limit_reset_strategy'
+  | 'hwid_limit'
+  | 'on_hold_expire_days'
+  | 'vless_id'
+  | 'vmess_id'
+  | 'trojan_password'
+  | 'shadowsocks_password'
+  | 'shadowsocks_method'
+  | 'hysteria_auth'
+
+interface UsersImportField {
+  id: UsersImportFieldId
+  labelKey: string
+  /** Normalized header names recognised when guessing the mapping. */
+  aliases: string[]
+  proxy?: boolean
+}
+
+export const USERS_IMPORT_FIELDS: UsersImportField[] = [
+  { id: 'username', labelKey: 'usersImport.fields.username', aliases: ['username', 'user', 'name', 'email'] },
+  { id: 'data_limit', labelKey: 'usersImport.fields.dataLimit', aliases: ['datalimit', 'datalimitgb', 'traffic', 'totaltraffic', 'total', 'quota', 'limit'] },
+  { id: 'expire', labelKey: 'usersImport.fields.expire', aliases: ['expire', 'expiry', 'expiretime', 'expirytime', 'expiredate', 'expireat', 'expiresat', 'expirejalali'] },
+  { id: 'expire_days', labelKey: 'usersImport.fields.expireDays', aliases: ['days', 'expiredays', 'duration', 'durationdays', 'validdays'] },
+  { id: 'note', labelKey: 'usersImport.fields.note', aliases: ['note', 'notes', 'comment', 'remark', 'description'] },
+  { id: 'groups', labelKey: 'usersImport.fields.groups', aliases: ['groups', 'group', 'groupids', 'groupnames', 'inbounds'] },
+  { id: 'status', labelKey: 'usersImport.fields.status', aliases: ['status', 'state'] },
+  { id: 'data_limit_reset_strategy', labelKey: 'usersImport.fields.resetStrategy', aliases: ['datalimitresetstrategy', 'resetstrategy', 'reset'] },
+  { id: 'hwid_limit', labelKey: 'usersImport.fields.hwidLimit', aliases: ['hwidlimit', 'devicelimit', 'devices'] },
+  { id: 'on_hold_expire_days', labelKey: 'usersImport.fields.onHoldExpireDays', aliases: ['onholddays', 'onholdexpiredays', 'onholdexpireduration'] },
+  { id: 'vless_id', labelKey: 'usersImport.fields.vlessId', aliases: ['vlessid', 'vlessuuid', 'uuid', 'proxiesvlessid', 'proxysettingsvlessid'], proxy: true },
+  { id: 'vmess_id', labelKey: 'usersImport.fields.vmessId', aliases: ['vmessid', 'vmessuuid', 'proxiesvmessid', 'proxysettingsvmessid'], proxy: true },
+  { id: 'trojan_password', labelKey: 'usersImport.fields.trojanPassword', aliases: ['trojanpassword', 'trojan', 'proxiestrojanpassword', 'proxysettingstrojanpassword'], proxy: true },
+  {
+    id: 'shadowsocks_password',
+    labelKey: 'usersImport.fields.shadowsocksPassword',
+    aliases: ['shadowsockspassword', 'sspassword', 'shadowsocks', 'proxiesshadowsockspassword', 'proxysettingsshadowsockspassword'],
+    proxy: true,
+  },
+  {
+    id: 'shadowsocks_method',
+    labelKey: 'usersImport.fields.shadowsocksMethod',
+    aliases: ['shadowsocksmethod', 'ssmethod', 'method', 'proxiesshadowsocksmethod', 'proxysettingsshadowsocksmethod'],
+    proxy: true,
+  },
+  { id: 'hysteria_auth', labelKey: 'usersImport.fields.hysteriaAuth', aliases: ['hysteriaauth', 'hysteria', 'proxieshysteriaauth', 'proxysettingshysteriaauth'], proxy: true },
+]
+
+/** Source header picked for each field; unmapped fields are left out of the payload. */
+export type UsersImportMapping = Partial<Record<UsersImportFieldId, string>>
+
+export interface UsersImportSource {
+  fileName: string
+  headers: string[]
+  records: Record<string, string>[]
+  /** Set when the file was recognised as another panel's backup and translated to the standard columns. */
+  panel?: UsersImportPanel
+}
+
+export interface UsersImportIssue {
+  key: string
+  params?: Record<string, string | number>
+}
+
+export interface UsersImportRow {
+  /** 1-based position of the record in the file, excluding the CSV header. */
+  index: number
+  username: string
+  source: Record<string, string>
+  payload: UserCreate | null
+  /** Disabled users cannot be created directly, so they are disabled right after creation. */
+  disable: boolean
+  errors: UsersImportIssue[]
+}
+
+export interface UsersImportContext {
+  groups: { id: number; name: string }[]
+  /** Applied to rows without a groups value, since every user needs at least one group. */
+  defaultGroupIds: number[]
+  /** Group chosen for a source label (lowercased) that is not a group name, or null to ignore the label. */
+  groupAliases?: Record<string, number | null>
+  existingUsernames: Set<string>
+  now?: Date
+}
+
+/** Largest file accepted by the importer, large enough for panel database backups with traffic history. */
+export const USERS_IMPORT_MAX_FILE_SIZE = 64 * 1024 * 1024
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9-_@.]+$/
+const CONSECUTIVE_SPECIALS_PATTERN = /[-_@.]{2,}/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const JALALI_DATE_PATTERN = /^1[34]\d{2}[/-]\d{1,2}[/-]\d{1,2}(\s+\d{1,2}:\d{2}(:\d{2})?)?$/
+const DATA_SIZE_PATTERN = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/i
+const DATA_SIZE_MULTIPLIERS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3, tb: 1024 ** 4 }
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+const isDataLimitResetStrategy = (value: string): value is DataLimitResetStrategy => (Object.values(DataLimitResetStrategy) as string[]).includes(value)
+
+const isShadowsocksMethod = (value: string): value is ShadowsocksMethods => (Object.values(ShadowsocksMethods) as string[]).includes(value)
+
+const splitGroupLabels = (value: string) =>
+  value
+    .split(/[,;|]/)
+    .map(item => item.trim())
+    .filter(Boolean)
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+const stringifyValue = (value: unknown): string => {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) return value.map(stringifyValue).join(', ')
+  return String(value)
+}
+
+/** Flattens nested JSON objects into dotted keys (`proxies.vless.id`) so they can be mapped like CSV columns. */
+const flattenRecord = (value: Record<string, unknown>, prefix = '', out: Record<string, string> = {}) => {
+  for (const [key, item] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (item && typeof item === 'object' && !Array.isArray(item)) flattenRecord(item as Record<string, unknown>, path, out)
+    else out[path] = stringifyValue(item)
+  }
+  return out
+}
+
+export const parseUsersImportFile = (fileName: string, text: string): UsersImportSource => {
+  const trimmed = text.trim()
+  if (!trimmed) throw new Error('usersImport.errors.emptyFile')
+
+  if (fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(trimmed)
+    } catch {
+      throw new Error('usersImport.errors.invalidJson')
+    }
+    const items = Array.isArray(parsed) ? parsed : Array.isArray((parsed as { users?: unknown })?.users) ? (parsed as { users: unknown[] }).users : null
+    if (!items) throw new Error('usersImport.errors.invalidJson')
+
+    const records = items.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object' && !Array.isArray(item)).map(item => flattenRecord(item))
+    const headers = [...new Set(records.flatMap(record => Object.keys(record)))]
+    if (records.length === 0) throw new Error('usersImport.errors.emptyFile')
+    return { fileName, headers, records }
+  }
+
+  const [headerRow, ...rows] = parseCsv(text)
+  if (!headerRow || rows.length === 0) throw new Error('usersImport.errors.emptyFile')
+  const headers = headerRow.map((header, index) => header.trim() || `#${index + 1}`)
+  const records = rows.map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? ''])))
+  return { fileName, headers, records }
+}
+
+/** Maps each field to the first header matching one of its aliases, comparing names without case or punctuation. */
+export const guessUsersImportMapping = (headers: string[]): UsersImportMapping => {
+  const mapping: UsersImportMapping = {}
+  const used = new Set<string>()
+  for (const field of USERS_IMPORT_FIELDS) {
+    const header = headers.find(item => !used.has(item) && field.aliases.includes(normalizeHeader(item)))
+    if (header) {
+      mapping[field.id] = header
+      used.add(header)
+    }
+  }
+  return mapping
+}
+
+/** Plain numbers are gigabytes; `500MB`, `1.5 TB` and friends are converted as written. */
+const parseDataLimit = (value: string) => {
+  const match = value.replace(/,/g, '').match(DATA_SIZE_PATTERN)
+  if (!match) return null
+  return Math.round(Number(match[1]) * DATA_SIZE_MULTIPLIERS[(match[2] ?? 'gb').toLowerCase()])
+}
+
+/** Accepts unix seconds or milliseconds, ISO/Gregorian dates and Jalali dates (`1403/05/01`). `0` means never. */
+const parseExpire = (value: string) => {
+  if (/^\d+$/.test(value)) {
+    const timestamp = Number(value)
+    if (timestamp === 0) return 0
+    if (timestamp < 1e9) return null
+    return timestamp > 1e12 ? Math.floor(timestamp / 1000) : timestamp
+  }
+
+  if (JALALI_DATE_PATTERN.test(value)) {
+    const normalized = value.replace(/-/g, '/').replace(/\s+/, ' ')
+    const formatString = normalized.includes(':') ? (normalized.split(':').length === 3 ? 'yyyy/M/d H:mm:ss' : 'yyyy/M/d H:mm') : 'yyyy/M/d'
+    const date = parseJalali(normalized, formatString, new Date())
+    return Number.isNaN(date.getTime()) ? null : formatOffsetDateTime(date)
+  }
+
+  const parsed = parseDateInput(value)
+  return parsed.isValid() ? formatOffsetDateTime(value) : null
+}
+
+const parseNonNegativeNumber = (value: string) => {
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? number : null
+}
+
+/** Distinct labels of the mapped groups column that match no group by name or id and need to be mapped by hand. */
+export const getUnresolvedGroupLabels = (source: UsersImportSource, mapping: UsersImportMapping, groups: { id: number; name: string }[]) => {
+  const header = mapping.groups
+  if (!header) return []
+  const groupNames = new Set(groups.map(group => group.name.toLowerCase()))
+  const groupIds = new Set(groups.map(group => String(group.id)))
+  const labels = new Map<string, string>()
+  for (const record of source.records) {
+    for (const label of splitGroupLabels(record[header] ?? '')) {
+      const key = label.toLowerCase()
+      if (!groupNames.has(key) && !groupIds.has(label) && !labels.has(key)) labels.set(key, label)
+    }
+  }
+  return [...labels.values()]
+}
+
+export const validateUsername = (username: string): UsersImportIssue | null => {
+  if (!username) return { key: 'usersImport.errors.usernameRequired' }
+  if (username.length < 3 || username.length > 128) return { key: 'usersImport.errors.usernameLength' }
+  if (!USERNAME_PATTERN.test(username) || CONSECUTIVE_SPECIALS_PATTERN.test(username)) return { key: 'usersImport.errors.usernameInvalid' }
+  return null
+}
+
+/**
+ * Turns mapped records into `UserCreate` payloads and collects every problem per row instead of
+ * stopping at the first one, so the preview can show the whole file before anything is created.
+ */
+export const buildUsersImportRows = (source: UsersImportSource, mapping: UsersImportMapping, context: UsersImportContext): UsersImportRow[] => {
+  const now = context.now ?? new Date()
+  const groupsByName = new Map(context.groups.map(group => [group.name.toLowerCase(), group.id]))
+  const groupIds = new Set(context.groups.map(group => group.id))
+  const seenUsernames = new Map<string, number>()
+
+  return source.records.map((record, recordIndex) => {
+    const index = recordIndex + 1
+    const errors: UsersImportIssue[] = []
+    const read = (field: UsersImportFieldId) => {
+      const header = mapping[field]
+      return header ? (record[header] ?? '').trim() : ''
+    }
+
+    const username = read('username')
+    const usernameError = validateUsername(username)
+    if (usernameError) errors.push(usernameError)
+    else if (seenUsernames.has(username)) errors.push({ key: 'usersImport.errors.duplicateInFile', params: { row: seenUsernames.get(username)! } })
+    else if (context.existingUsernames.has(username)) errors.push({ key: 'usersImport.errors.alreadyExists' })
+    if (username && !seenUsernames.has(username)) seenUsernames.set(username, index)
+
+    const payload: UserCreate = { username }
+
+    const dataLimit = read('data_limit')
+    if (dataLimit) {
+      const bytes = parseDataLimit(dataLimit)
+      if (bytes === null) errors.push({ key: 'usersImport.errors.invalidDataLimit', params: { value: dataLimit } })
+      else payload.data_limit = bytes
+    }
+
+    const expire = read('expire')
+    const expireDays = read('expire_days')
+    if (expire) {
+      const parsed = parseExpire(expire)
+      if (parsed === null) errors.push({ key: 'usersImport.errors.invalidDate', params: { value: expire } })
+      else payload.expire = parsed
+    } else if (expireDays) {
+      const days = parseNonNegativeNumber(expireDays)
+      if (days === null) errors.push({ key: 'usersImport.errors.invalidNumber', params: { value: expireDays } })
+      else payload.expire = days === 0 ? 0 : Math.floor(now.getTime() / 1000 + days * SECONDS_PER_DAY)
+    }
+
+    const note = read('note')
+    if (note) payload.note = note
+
+    const resolvedGroups: number[] = []
+    for (const name of splitGroupLabels(read('groups'))) {
+      const alias = context.groupAliases?.[name.toLowerCase()]
+      if (alias === null) continue
+      const id = alias ?? groupsByName.get(name.toLowerCase()) ?? (/^\d+$/.test(name) && groupIds.has(Number(name)) ? Number(name) : undefined)
+      if (id === undefined) errors.push({ key: 'usersImport.errors.unknownGroup', params: { name } })
+      else if (!resolvedGroups.includes(id)) resolvedGroups.push(id)
+    }
+    if (resolvedGroups.length > 0) {
+      payload.group_ids = resolvedGroups
+    } else if (context.defaultGroupIds.length > 0) {
+      payload.group_ids = context.defaultGroupIds
+    } else {
+      errors.push({ key: 'usersImport.errors.groupsRequired' })
+    }
+
+    const status = read('status').toLowerCase().replace(/[\s-]/g, '_')
+    const onHoldDays = read('on_hold_expire_days')
+    const disable = status === 'disabled'
+    if (status === 'active' || status === 'on_hold') payload.status = status
+    // Other panels report computed states; the server derives expired/limited from the limits itself
+    else if (status && !disable && status !== 'expired' && status !== 'limited') errors.push({ key: 'usersImport.errors.invalidStatus', params: { value: read('status') } })
+
+    if (payload.status === 'on_hold') {
+      const days = parseNonNegativeNumber(onHoldDays)
+      if (!days) errors.push({ key: 'usersImport.errors.onHoldDurationRequired' })
+      else payload.on_hold_expire_duration = Math.round(days * SECONDS_PER_DAY)
+      if (payload.expire) errors.push({ key: 'usersImport.errors.onHoldWithExpire' })
+    }
+
+    const resetStrategy = read('data_limit_reset_strategy').toLowerCase().replace(/[\s-]/g, '_')
+    if (resetStrategy) {
+      if (isDataLimitResetStrategy(resetStrategy)) payload.data_limit_reset_strategy = resetStrategy
+      else errors.push({ key: 'usersImport.errors.invalidResetStrategy', params: { value: resetStrategy } })
+    }
+
+    const hwidLimit = read('hwid_limit')
+    if (hwidLimit) {
+      const limit = parseNonNegativeNumber(hwidLimit)
+      if (limit === null || !Number.isInteger(limit)) errors.push({ key: 'usersImport.errors.invalidNumber', params: { value: hwidLimit } })
+      else payload.hwid_limit = limit
+    }
+
+    const proxySettings: ProxyTable = {}
+    const vlessId = read('vless_id')
+    if (vlessId) {
+      if (UUID_PATTERN.test(vlessId)) proxySettings.vless = { id: vlessId }
+      else errors.push({ key: 'usersImport.errors.invalidUuid', params: { value: vlessId } })
+    }
+    const vmessId = read('vmess_id')
+    if (vmessId) {
+      if (UUID_PATTERN.test(vmessId)) proxySettings.vmess = { id: vmessId }
+      else errors.push({ key: 'usersImport.errors.invalidUuid', params: { value: vmessId } })
+    }
+    const trojanPassword = read('trojan_password')
+    if (trojanPassword) proxySettings.trojan = { password: trojanPassword }
+    const shadowsocksPassword = read('shadowsocks_password')
+    const shadowsocksMethod = read('shadowsocks_method')
+    if (shadowsocksMethod && !isShadowsocksMethod(shadowsocksMethod)) errors.push({ key: 'usersImport.errors.invalidMethod', params: { value: shadowsocksMethod } })
+    if (shadowsocksPassword) {
+      proxySettings.shadowsocks = { password: shadowsocksPassword, ...(isShadowsocksMethod(shadowsocksMethod) ? { method: shadowsocksMethod } : {}) }
+    }
+    const hysteriaAuth = read('hysteria_auth')
+    if (hysteriaAuth) proxySettings.hysteria = { auth: hysteriaAuth }
+    if (Object.keys(proxySettings).length > 0) payload.proxy_settings = proxySettings
+
+    return { index, username, source: record, payload: errors.length === 0 ? payload : null, disable, errors }
+  })
+}
+
+/** Looks up which of `usernames` already exist, in chunks small enough for a query string. */
+export const fetchExistingUsernames = async (usernames: string[], signal?: AbortSignal, chunkSize = 100) => {
+  const existing = new Set<string>()
+  const unique = [...new Set(usernames.filter(Boolean))]
+  for (let offset = 0; offset < unique.length; offset += chunkSize) {
+    const chunk = unique.slice(offset, offset + chunkSize)
+    const response = await getUsers({ usernames: chunk, limit: chunk.length }, signal)
+    response.users.forEach(user => existing.add(user.username))
+  }
+  return existing
+}
+
+export type UsersImportJobRowStatus = 'pending' | 'created' | 'failed'
+
+export interface UsersImportJobRow {
+  index: number
+  username: string
+  /** Null for rows that failed validation; they are only kept for the failure file. */
+  payload: UserCreate | null
+  disable?: boolean
+  source: Record<string, string>
+  status: UsersImportJobRowStatus
+  error?: string
+}
+
+export interface UsersImportJob {
+  id: string
+  fileName: string
+  headers: string[]
+  createdAt: number
+  batchSize: number
+  delayMs: number
+  rows: UsersImportJobRow[]
+}
+
+const USERS_IMPORT_JOB_KEY_PREFIX = 'pasarguard-users-import-job'
+
+const getUsersImportJobKey = (username: string) => `${USERS_IMPORT_JOB_KEY_PREFIX}:${username}`
+
+/** Unfinished import of the admin, kept so a closed tab or reload can resume where it stopped. */
+export const getUsersImportJob = (username: string | null | undefined): UsersImportJob | null => {
+  if (typeof localStorage === 'undefined' || !username) return null
+  try {
+    const parsed = JSON.parse(localStorage.getItem(getUsersImportJobKey(username)) || 'null')
+    return parsed && typeof parsed.id === 'string' && Array.isArray(parsed.rows) ? (parsed as UsersImportJob) : null
+  } catch {
+    return null
+  }
+}
+
+/** Returns false when the job does not fit in storage; the import still runs but cannot be resumed. */
+export const setUsersImportJob = (username: string | null | undefined, job: UsersImportJob | null) => {
+  if (typeof localStorage === 'undefined' || !username) return false
+  try {
+    if (job) localStorage.setItem(getUsersImportJobKey(username), JSON.stringify(job))
+    else localStorage.removeItem(getUsersImportJobKey(username))
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const createUsersImportJob = (
+  source: UsersImportSource,
+  rows: UsersImportRow[],
+  options: { batchSize: number; delayMs: number },
+  describeIssue: (issue: UsersImportIssue) => string,
+): UsersImportJob => ({
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+  fileName: source.fileName,
+  headers: source.headers,
+  createdAt: Date.now(),
+  batchSize: options.batchSize,
+  delayMs: options.delayMs,
+  rows: rows.map(row =>
+    row.payload
+      ? { index: row.index, username: row.username, payload: row.payload, disable: row.disable, source: row.source, status: 'pending' }
+      : { index: row.index, username: row.username, payload: null, source: row.source, status: 'failed', error: row.errors.map(describeIssue).join('; ') },
+  ),
+})
+
+export const getUsersImportJobCounts = (job: UsersImportJob) => ({
+  total: job.rows.length,
+  created: job.rows.filter(row => row.status === 'created').length,
+  failed: job.rows.filter(row => row.status === 'failed').length,
+  pending: job.rows.filter(row => row.status === 'pending').length,
+})
+
+/** Original columns of the rows that could not be created plus an `error` column, ready to fix and re-upload. */
+export const buildUsersImportFailureRows = (job: UsersImportJob) => [
+  [...job.headers, 'error'],
+  ...job.rows.filter(row => row.status === 'failed').map(row => [...job.headers.map(header => row.source[header] ?? ''), row.error ?? '']),
+]
+
+/** One FastAPI validation entry (`{ loc, msg }`) as `field.path: message`. */
+const describeValidationIssue = (item: unknown) => {
+  if (!item || typeof item !== 'object') return ''
+  const { loc, msg } = item as { loc?: unknown; msg?: unknown }
+  return Array.isArray(loc) ? `${loc.filter(part => part !== 'body').join('.')}: ${msg}` : String(msg ?? '')
+}
+
+/** Flattens the API error of a failed create into one line for the progress list and failure file. */
+export const describeUsersImportError = (error: unknown): string => {
+  const fetchError = error as ErrorType<unknown> | undefined
+  const detail = fetchError?.data?.detail
+  if (typeof detail === 'string') return detail
+  if (Array.isArray(detail)) return detail.map(describeValidationIssue).join('; ')
+  if (detail && typeof detail === 'object')
+    return Object.entries(detail)
+      .map(([field, message]) => `${field}: ${String(message)}`)
+      .join('; ')
+  return fetchError?.message || String(error)
+}
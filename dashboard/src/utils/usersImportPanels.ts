@@ -0,0 +1,321 @@
+import { isSqliteDatabase, readSqliteTables, type SqliteRow } from '@/utils/sqlite'
+import { parseUsersImportFile, type UsersImportSource } from '@/utils/usersImport'
+
+/**
+ * Backups of other panels are translated into the importer's standard columns so they go through
+ * the same mapping, validation and batching as a hand-written CSV. Proxy credentials are carried
+ * over as-is, which keeps existing client configs and subscriptions valid after the migration.
+ */
+
+export type UsersImportPanel = 'marzban' | '3x-ui' | 'hiddify'
+
+interface PanelUser {
+  username: string
+  status?: 'active' | 'on_hold' | 'disabled' | 'limited' | 'expired'
+  /** Bytes; 0 or missing means unlimited. */
+  dataLimit?: number | null
+  /** Unix seconds or an ISO date. */
+  expire?: number | string | null
+  onHoldDays?: number | null
+  resetStrategy?: string | null
+  note?: string | null
+  /** Inbound tags, protocols or plans the user belonged to; mapped to groups in the importer. */
+  inbounds: string[]
+  vlessId?: string
+  vmessId?: string
+  trojanPassword?: string
+  shadowsocksPassword?: string
+  shadowsocksMethod?: string
+  hysteriaAuth?: string
+}
+
+const PANEL_HEADERS = [
+  'username',
+  'status',
+  'data_limit',
+  'expire',
+  'on_hold_days',
+  'data_limit_reset_strategy',
+  'note',
+  'inbounds',
+  'vless_id',
+  'vmess_id',
+  'trojan_password',
+  'shadowsocks_password',
+  'shadowsocks_method',
+  'hysteria_auth',
+]
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+const MS_PER_DAY = SECONDS_PER_DAY * 1000
+
+const SHADOWSOCKS_METHODS = new Set(['aes-128-gcm', 'aes-256-gcm', 'chacha20-ietf-poly1305', 'xchacha20-poly1305'])
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject => !!value && typeof value === 'object' && !Array.isArray(value)
+
+const parseJsonObject = (value: unknown): JsonObject => {
+  if (isObject(value)) return value
+  if (typeof value !== 'string' || !value.trim()) return {}
+  try {
+    const parsed = JSON.parse(value)
+    return isObject(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+const toNumber = (value: unknown) => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? number : null
+}
+
+/** Python panels store naive UTC datetimes; mark them as UTC so they are not read as local time. */
+const normalizeDateTime = (value: unknown): number | string | null => {
+  if (typeof value === 'number') return value > 0 ? value : null
+  if (typeof value !== 'string' || !value.trim()) return null
+  if (/^\d+$/.test(value)) return Number(value) || null
+  const trimmed = value.trim().replace(' ', 'T')
+  return /(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed) ? trimmed : `${trimmed}Z`
+}
+
+/**
+ * Other panels allow names PasarGuard rejects (spaces, unicode, emails with `+`). Invalid characters
+ * become `_`; the original name is kept in the note by the callers when it changed.
+ */
+export const toImportUsername = (value: string, fallback: string) => {
+  const username = value
+    .trim()
+    .replace(/[^a-zA-Z0-9-_@.]/g, '_')
+    .replace(/[-_@.]{2,}/g, match => match[0])
+    .replace(/^[-_@.]+|[-_@.]+$/g, '')
+    .slice(0, 128)
+  return username.length >= 3 ? username : fallback
+}
+
+const withOriginalName = (note: string | null | undefined, original: string, username: string) => {
+  const trimmed = original.trim()
+  if (!trimmed || trimmed === username) return note ?? ''
+  return note ? `${trimmed} - ${note}` : trimmed
+}
+
+const toRecord = (user: PanelUser): Record<string, string> => ({
+  username: user.username,
+  status: user.status ?? '',
+  data_limit: user.dataLimit ? `${user.dataLimit}B` : '',
+  expire: user.expire ? String(user.expire) : '',
+  on_hold_days: user.onHoldDays ? String(Math.round(user.onHoldDays * 100) / 100) : '',
+  data_limit_reset_strategy: user.resetStrategy ?? '',
+  note: user.note ?? '',
+  inbounds: [...new Set(user.inbounds)].join(', '),
+  vless_id: user.vlessId ?? '',
+  vmess_id: user.vmessId ?? '',
+  trojan_password: user.trojanPassword ?? '',
+  shadowsocks_password: user.shadowsocksPassword ?? '',
+  shadowsocks_method: user.shadowsocksMethod && SHADOWSOCKS_METHODS.has(user.shadowsocksMethod) ? user.shadowsocksMethod : '',
+  hysteria_auth: user.hysteriaAuth ?? '',
+})
+
+const toSource = (fileName: string, panel: UsersImportPanel, users: PanelUser[]): UsersImportSource => {
+  if (users.length === 0) throw new Error('usersImport.errors.emptyFile')
+  return { fileName, panel, headers: PANEL_HEADERS, records: users.map(toRecord) }
+}
+
+const MARZBAN_PROXY_TYPES: Record<string, keyof Pick<PanelUser, 'vlessId' | 'vmessId' | 'trojanPassword' | 'shadowsocksPassword'>> = {
+  vless: 'vlessId',
+  vmess: 'vmessId',
+  trojan: 'trojanPassword',
+  shadowsocks: 'shadowsocksPassword',
+}
+
+const applyMarzbanProxy = (user: PanelUser, type: string, settings: JsonObject) => {
+  const key = MARZBAN_PROXY_TYPES[type.toLowerCase()]
+  if (!key) return
+  const credential = key === 'vlessId' || key === 'vmessId' ? settings.id : settings.password
+  if (typeof credential === 'string' && credential) user[key] = credential
+  if (key === 'shadowsocksPassword' && typeof settings.method === 'string') user.shadowsocksMethod = settings.method
+}
+
+const fromMarzbanUser = (raw: JsonObject, inbounds: string[]): PanelUser => {
+  const status = String(raw.status ?? '').toLowerCase()
+  const onHoldSeconds = toNumber(raw.on_hold_expire_duration)
+  return {
+    username: String(raw.username ?? ''),
+    status: status === 'on_hold' || status === 'disabled' ? status : undefined,
+    dataLimit: toNumber(raw.data_limit),
+    expire: status === 'on_hold' ? null : normalizeDateTime(raw.expire),
+    onHoldDays: status === 'on_hold' && onHoldSeconds ? onHoldSeconds / SECONDS_PER_DAY : null,
+    resetStrategy: typeof raw.data_limit_reset_strategy === 'string' ? raw.data_limit_reset_strategy : null,
+    note: typeof raw.note === 'string' ? raw.note : null,
+    inbounds,
+  }
+}
+
+/** `GET /api/users` output of Marzban: credentials under `proxies`, inbound tags per protocol under `inbounds`. */
+const parseMarzbanJson = (users: JsonObject[]) =>
+  users.map(raw => {
+    const inbounds = isObject(raw.inbounds) ? Object.values(raw.inbounds).flatMap(tags => (Array.isArray(tags) ? tags.map(String) : [])) : []
+    const user = fromMarzbanUser(raw, inbounds)
+    for (const [type, settings] of Object.entries(isObject(raw.proxies) ? raw.proxies : {})) applyMarzbanProxy(user, type, parseJsonObject(settings))
+    return user
+  })
+
+/**
+ * Marzban's `db.sqlite3`. Inbound assignment lives in the Xray config rather than the database, so
+ * users are labelled with their proxy protocols instead of inbound tags.
+ */
+const parseMarzbanDatabase = (tables: Record<string, SqliteRow[]>) => {
+  const proxiesByUser = new Map<unknown, SqliteRow[]>()
+  for (const proxy of tables.proxies ?? []) proxiesByUser.set(proxy.user_id, [...(proxiesByUser.get(proxy.user_id) ?? []), proxy])
+
+  return (tables.users ?? []).map(raw => {
+    const proxies = proxiesByUser.get(raw.id) ?? []
+    const user = fromMarzbanUser(
+      raw,
+      proxies.map(proxy => String(proxy.type ?? '')),
+    )
+    for (const proxy of proxies) applyMarzbanProxy(user, String(proxy.type ?? ''), parseJsonObject(proxy.settings))
+    return user
+  })
+}
+
+/** 3x-ui renews clients every `reset` days; map the common periods onto PasarGuard's strategies. */
+const toResetStrategy = (days: number | null) => {
+  if (!days) return null
+  if (days === 1) return 'day'
+  if (days === 7) return 'week'
+  if (days >= 28 && days <= 31) return 'month'
+  if (days >= 365 && days <= 366) return 'year'
+  return null
+}
+
+/**
+ * 3x-ui keeps clients inside each inbound's `settings` JSON. Clients sharing a `subId` are one
+ * subscription spread over several inbounds, so they are merged into a single user.
+ */
+const parseXuiInbounds = (inbounds: JsonObject[]) => {
+  const users = new Map<string, PanelUser>()
+
+  for (const inbound of inbounds) {
+    const protocol = String(inbound.protocol ?? '').toLowerCase()
+    const settings = parseJsonObject(inbound.settings)
+    const label = String(inbound.remark || inbound.tag || `${protocol}:${inbound.port ?? ''}`)
+
+    for (const client of Array.isArray(settings.clients) ? settings.clients : []) {
+      if (!isObject(client)) continue
+      const email = String(client.email ?? '')
+      const key = String(client.subId || email)
+      if (!key) continue
+
+      let user = users.get(key)
+      if (!user) {
+        const username = toImportUsername(email, `user_${key.replace(/[^a-zA-Z0-9]/g, '').slice(0, 12) || users.size + 1}`)
+        const expiryTime = toNumber(client.expiryTime) ?? 0
+        const comment = typeof client.comment === 'string' ? client.comment : null
+        user = {
+          username,
+          // A negative expiry is a duration that starts on first connection
+          status: client.enable === false ? 'disabled' : expiryTime < 0 ? 'on_hold' : undefined,
+          dataLimit: toNumber(client.totalGB),
+          expire: expiryTime > 0 ? Math.floor(expiryTime / 1000) : null,
+          onHoldDays: expiryTime < 0 ? -expiryTime / MS_PER_DAY : null,
+          resetStrategy: toResetStrategy(toNumber(client.reset)),
+          note: withOriginalName(comment, email, username),
+          inbounds: [],
+        }
+        users.set(key, user)
+      }
+      user.inbounds.push(label)
+
+      if (protocol === 'vless' && client.id) user.vlessId = String(client.id)
+      else if (protocol === 'vmess' && client.id) user.vmessId = String(client.id)
+      else if (protocol === 'trojan' && client.password) user.trojanPassword = String(client.password)
+      else if (protocol === 'shadowsocks' && client.password) {
+        user.shadowsocksPassword = String(client.password)
+        user.shadowsocksMethod = String(client.method || settings.method || '')
+      } else if (protocol.startsWith('hysteria') && (client.auth || client.password)) user.hysteriaAuth = String(client.auth || client.password)
+    }
+  }
+
+  return [...users.values()]
+}
+
+const HIDDIFY_MODES: Record<string, string> = { no_reset: 'no_reset', daily: 'day', weekly: 'week', monthly: 'month' }
+
+/**
+ * Hiddify Manager backup JSON. Every protocol authenticates with the user's single UUID, so it is
+ * reused for VLESS, VMess and Trojan. Users that never connected have no start date and become
+ * on hold for their package length.
+ */
+const parseHiddifyUsers = (users: JsonObject[]) =>
+  users.map((raw, index): PanelUser => {
+    const uuid = String(raw.uuid ?? '')
+    const name = String(raw.name ?? '')
+    const username = toImportUsername(name, `user_${uuid.replace(/-/g, '').slice(0, 8) || index + 1}`)
+    const packageDays = toNumber(raw.package_days)
+    const usageLimitGb = toNumber(raw.usage_limit_GB)
+    const startTime = typeof raw.start_date === 'string' && raw.start_date ? Date.parse(`${raw.start_date.slice(0, 10)}T00:00:00Z`) : NaN
+    const startSeconds = Number.isNaN(startTime) ? null : Math.floor(startTime / 1000)
+    const isOnHold = !startSeconds && !!packageDays
+
+    return {
+      username,
+      status: raw.enable === false ? 'disabled' : isOnHold ? 'on_hold' : undefined,
+      dataLimit: usageLimitGb ? Math.round(usageLimitGb * 1024 ** 3) : null,
+      expire: startSeconds && packageDays ? startSeconds + packageDays * SECONDS_PER_DAY : null,
+      onHoldDays: isOnHold ? packageDays : null,
+      resetStrategy: HIDDIFY_MODES[String(raw.mode ?? '')] ?? null,
+      note: withOriginalName(typeof raw.comment === 'string' ? raw.comment : null, name, username),
+      inbounds: ['hiddify'],
+      vlessId: uuid || undefined,
+      vmessId: uuid || undefined,
+      trojanPassword: uuid || undefined,
+    }
+  })
+
+const detectJsonPanel = (parsed: unknown): { panel: UsersImportPanel; users: PanelUser[] } | null => {
+  // 3x-ui API (`/panel/api/inbounds/list`) wraps inbounds in `obj`; raw inbound arrays are accepted too
+  const inbounds = Array.isArray(parsed) ? parsed : isObject(parsed) && Array.isArray(parsed.obj) ? parsed.obj : null
+  if (inbounds?.some(item => isObject(item) && 'protocol' in item && 'settings' in item)) return { panel: '3x-ui', users: parseXuiInbounds(inbounds.filter(isObject)) }
+
+  const users = isObject(parsed) && Array.isArray(parsed.users) ? parsed.users.filter(isObject) : null
+  if (!users?.length) return null
+  if (users.some(user => 'uuid' in user && ('package_days' in user || 'usage_limit_GB' in user))) return { panel: 'hiddify', users: parseHiddifyUsers(users) }
+  if (users.some(user => isObject(user.proxies))) return { panel: 'marzban', users: parseMarzbanJson(users) }
+  return null
+}
+
+/**
+ * Reads an uploaded file: SQLite databases of 3x-ui and Marzban, JSON backups of Marzban, 3x-ui and
+ * Hiddify, and otherwise plain CSV/JSON handled by {@link parseUsersImportFile}.
+ */
+export const readUsersImportFile = async (file: File): Promise<UsersImportSource> => {
+  const data = await file.arrayBuffer()
+
+  if (isSqliteDatabase(data)) {
+    let tables: Record<string, SqliteRow[]>
+    try {
+      tables = readSqliteTables(data, ['inbounds', 'users', 'proxies'])
+    } catch {
+      throw new Error('usersImport.errors.unsupportedDatabase')
+    }
+    if (tables.inbounds?.some(row => 'settings' in row && 'protocol' in row)) return toSource(file.name, '3x-ui', parseXuiInbounds(tables.inbounds))
+    if (tables.users && tables.proxies) return toSource(file.name, 'marzban', parseMarzbanDatabase(tables))
+    throw new Error('usersImport.errors.unsupportedDatabase')
+  }
+
+  const text = new TextDecoder().decode(data)
+  const trimmed = text.trim()
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      const detected = detectJsonPanel(JSON.parse(trimmed))
+      if (detected) return toSource(file.name, detected.panel, detected.users)
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('usersImport.')) throw error
+      // Not valid JSON; let the generic parser report it
+    }
+  }
+
+  return parseUsersImportFile(file.name, text)
+}
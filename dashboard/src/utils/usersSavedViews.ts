@@ -0,0 +1,57 @@
+import type { UsersSavedView, UsersSavedViewDateParam } from '@/utils/userPreferenceStorage'
+
+const USERS_VIEW_PATH = '/users'
+
+const RELATIVE_DATE_PARAMS: UsersSavedViewDateParam[] = ['expire_after', 'expire_before', 'online_after', 'online_before']
+
+/** Reads the users table query string out of the hash route (`#/users?status=active`). */
+export const getUsersViewQueryFromHash = (hash = window.location.hash) => {
+  const queryIndex = hash.indexOf('?')
+  return normalizeUsersViewQuery(queryIndex === -1 ? '' : hash.substring(queryIndex + 1))
+}
+
+/** Views always open on the first page, so pagination is not part of what gets saved or shared. */
+export const normalizeUsersViewQuery = (query: string) => {
+  const params = new URLSearchParams(query)
+  params.delete('page')
+  return params.toString()
+}
+
+export const createUsersSavedView = (name: string, query: string, keepDatesRelative: boolean, now = Date.now()): UsersSavedView => {
+  const normalizedQuery = normalizeUsersViewQuery(query)
+  const params = new URLSearchParams(normalizedQuery)
+  const relativeDates: UsersSavedView['relativeDates'] = {}
+
+  if (keepDatesRelative) {
+    for (const param of RELATIVE_DATE_PARAMS) {
+      const timestamp = Date.parse(params.get(param) || '')
+      if (!Number.isNaN(timestamp)) relativeDates[param] = Math.round((timestamp - now) / 1000)
+    }
+  }
+
+  return {
+    id: globalThis.crypto?.randomUUID?.() ?? `view-${Math.random().toString(36).slice(2)}`,
+    name: name.trim(),
+    query: normalizedQuery,
+    relativeDates: Object.keys(relativeDates).length > 0 ? relativeDates : undefined,
+    pinned: false,
+    createdAt: now,
+  }
+}
+
+export const hasRelativeDates = (view: UsersSavedView) => Object.keys(view.relativeDates ?? {}).length > 0
+
+/** Turns a saved view into the concrete query for "now", re-anchoring relative date windows. */
+export const resolveUsersSavedViewQuery = (view: UsersSavedView, now = Date.now()) => {
+  const params = new URLSearchParams(view.query)
+  for (const [param, offsetSeconds] of Object.entries(view.relativeDates ?? {})) {
+    if (typeof offsetSeconds !== 'number') continue
+    params.set(param, new Date(now + offsetSeconds * 1000).toISOString())
+  }
+  return params.toString()
+}
+
+export const getUsersViewPath = (query: string) => (query ? `${USERS_VIEW_PATH}?${query}` : USERS_VIEW_PATH)
+
+/** Absolute link that opens the users table with `query` applied, for pasting into chats or tickets. */
+export const buildUsersViewShareLink = (query: string) => `${window.location.origin}${window.location.pathname}#${getUsersViewPath(query)}`
@@ -0,0 +1,43 @@
+import type { AdminDetails, AdminRoleData, RoleLimits } from '@/service/api'
+
+/** What an owner picked in the role simulator to preview the dashboard with. */
+export interface ViewAsAdminState {
+  /** Shown in the preview banner: the simulated admin's username, or the role name. */
+  label: string
+  role: AdminRoleData
+  limited: boolean
+  permissionOverrides: RoleLimits | null
+}
+
+// Kept in memory only, so a reload always returns to the real admin
+let viewAsState: ViewAsAdminState | null = null
+const listeners = new Set<() => void>()
+
+export const subscribeViewAsAdmin = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const getViewAsAdmin = () => viewAsState
+
+export const isViewingAsAdmin = () => viewAsState !== null
+
+export const setViewAsAdmin = (state: ViewAsAdminState | null) => {
+  viewAsState = state
+  listeners.forEach(listener => listener())
+}
+
+/**
+ * Swaps the role, limited status and overrides of the signed-in admin. Everything else,
+ * including the username, stays the real one so the API keeps answering for the owner.
+ */
+export const buildSimulatedAdmin = (base: AdminDetails, { role, limited, permissionOverrides }: Omit<ViewAsAdminState, 'label'>): AdminDetails => ({
+  ...base,
+  role,
+  status: limited ? 'limited' : 'active',
+  is_limited: limited,
+  is_disabled: false,
+  permission_overrides: permissionOverrides,
+})
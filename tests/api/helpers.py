@@ -56,6 +56,29 @@ def delete_admin(access_token: str, username: str) -> None:
     assert response.status_code == status.HTTP_204_NO_CONTENT
 
 
+def create_admin_role(access_token: str, permissions: dict[str, dict[str, Any]], *, name: str | None = None) -> dict:
+    response = client.post(
+        "/api/admin-role",
+        headers=auth_headers(access_token),
+        json={"name": name or unique_name("role"), "permissions": permissions},
+    )
+    assert response.status_code == status.HTTP_201_CREATED
+    return response.json()
+
+
+def delete_admin_role(access_token: str, role_id: int) -> None:
+    client.delete(f"/api/admin-role/{role_id}", headers=auth_headers(access_token))
+
+
+def login_admin(username: str, password: str) -> str:
+    response = client.post(
+        "/api/admin/token",
+        data={"username": username, "password": password, "grant_type": "password"},
+    )
+    assert response.status_code == status.HTTP_200_OK
+    return response.json()["access_token"]
+
+
 def create_core(
     access_token: str,
     *,
@@ -556,6 +556,56 @@ def test_administrator_can_modify_other_non_owner_admin(access_token):
         delete_admin(access_token, admin_b["username"])
 
 
+def test_operator_can_modify_own_branding(access_token):
+    """Admins without admins.update can still change their own subscription branding, and nothing else."""
+    operator = create_admin(access_token)
+    try:
+        login_response = client.post(
+            url="/api/admin/token",
+            data={"username": operator["username"], "password": operator["password"], "grant_type": "password"},
+        )
+        assert login_response.status_code == status.HTTP_200_OK
+        operator_token = login_response.json()["access_token"]
+
+        forbidden = client.put(
+            url=f"/api/admin/{operator['username']}",
+            json={"profile_title": "Blocked"},
+            headers=auth_headers(operator_token),
+        )
+        assert forbidden.status_code == status.HTTP_403_FORBIDDEN
+
+        response = client.put(
+            url="/api/admin/me/branding",
+            json={
+                "sub_domain": "https://sub.example.com",
+                "profile_title": "Reseller VPN",
+                "support_url": "https://t.me/reseller",
+                "note": "ignored",
+            },
+            headers=auth_headers(operator_token),
+        )
+        assert response.status_code == status.HTTP_200_OK
+        data = response.json()
+        assert data["username"] == operator["username"]
+        assert data["sub_domain"] == "https://sub.example.com"
+        assert data["profile_title"] == "Reseller VPN"
+        assert data["support_url"] == "https://t.me/reseller"
+        assert data["note"] is None
+
+        cleared = client.put(
+            url="/api/admin/me/branding",
+            json={"support_url": None},
+            headers=auth_headers(operator_token),
+        )
+        assert cleared.status_code == status.HTTP_200_OK
+        cleared_data = cleared.json()
+        assert cleared_data["support_url"] is None
+        assert cleared_data["profile_title"] == "Reseller VPN"
+        assert cleared_data["sub_domain"] == "https://sub.example.com"
+    finally:
+        delete_admin(access_token, operator["username"])
+
+
 def test_get_admins(access_token):
     """Test that the admins get route is accessible and returns role data."""
 
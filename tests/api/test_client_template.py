@@ -1,7 +1,24 @@
 from fastapi import status
 
 from tests.api import client
-from tests.api.helpers import auth_headers, create_client_template, create_core, delete_core, get_inbounds, unique_name
+from tests.api.helpers import (
+    auth_headers,
+    create_admin,
+    create_admin_role,
+    create_client_template,
+    create_core,
+    create_group,
+    create_hosts_for_inbounds,
+    create_user,
+    delete_admin,
+    delete_admin_role,
+    delete_core,
+    delete_group,
+    delete_user,
+    get_inbounds,
+    login_admin,
+    unique_name,
+)
 
 
 def test_client_template_create_and_get(access_token):
@@ -153,3 +170,79 @@ def test_client_template_delete_clears_associated_host_override(access_token):
         if host_id is not None:
             client.delete(f"/api/host/{host_id}", headers=auth_headers(access_token))
         delete_core(access_token, core["id"])
+
+
+def test_client_template_preview_renders_unsaved_content_for_user(access_token):
+    core = create_core(access_token)
+    group = create_group(access_token, name=unique_name("tmpl_preview_group"))
+    hosts = create_hosts_for_inbounds(access_token)
+    user = create_user(access_token, group_ids=[group["id"]], payload={"username": unique_name("tmpl_preview_user")})
+    content = (
+        "mode: rule\n"
+        "{{ conf | except(\"proxy-groups\", \"port\", \"mode\", \"rules\") | yaml }}\n"
+        "proxy-groups:\n"
+        "- name: preview-marker-group\n"
+        "  type: select\n"
+        "  proxies:\n"
+        "  {{ proxy_remarks | yaml | indent(2) }}\n"
+        "rules:\n"
+        "  - MATCH,preview-marker-group\n"
+    )
+    try:
+        response = client.post(
+            "/api/client_template/preview",
+            headers=auth_headers(access_token),
+            json={"template_type": "clash_subscription", "content": content, "user_id": user["id"]},
+        )
+        assert response.status_code == status.HTTP_200_OK
+        body = response.json()
+        assert body["config_format"] == "clash_meta"
+        assert "preview-marker-group" in body["content"]
+
+        mismatched = client.post(
+            "/api/client_template/preview",
+            headers=auth_headers(access_token),
+            json={
+                "template_type": "clash_subscription",
+                "content": content,
+                "user_id": user["id"],
+                "config_format": "sing_box",
+            },
+        )
+        assert mismatched.status_code == status.HTTP_400_BAD_REQUEST
+
+        invalid = client.post(
+            "/api/client_template/preview",
+            headers=auth_headers(access_token),
+            json={"template_type": "xray_subscription", "content": "{not json", "user_id": user["id"]},
+        )
+        assert invalid.status_code == status.HTTP_400_BAD_REQUEST
+
+        # The stored default template must stay untouched by previews
+        subscription = client.get(f"{user['subscription_url']}/clash_meta")
+        assert subscription.status_code == status.HTTP_200_OK
+        assert "preview-marker-group" not in subscription.text
+    finally:
+        delete_user(access_token, user["username"])
+        for host in hosts:
+            client.delete(f"/api/host/{host['id']}", headers=auth_headers(access_token))
+        delete_group(access_token, group["id"])
+        delete_core(access_token, core["id"])
+
+
+def test_client_template_preview_requires_users_read(access_token):
+    user = create_user(access_token, payload={"username": unique_name("tmpl_preview_scope_user")})
+    role = create_admin_role(access_token, {"client_templates": {"read": True}})
+    template_reader = create_admin(access_token, role_id=role["id"])
+    try:
+        token = login_admin(template_reader["username"], template_reader["password"])
+        response = client.post(
+            "/api/client_template/preview",
+            headers=auth_headers(token),
+            json={"template_type": "clash_subscription", "content": "mode: rule\n", "user_id": user["id"]},
+        )
+        assert response.status_code == status.HTTP_403_FORBIDDEN
+    finally:
+        delete_admin(access_token, template_reader["username"])
+        delete_admin_role(access_token, role["id"])
+        delete_user(access_token, user["username"])
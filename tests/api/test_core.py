@@ -86,6 +86,106 @@ def test_core_get(access_token):
     delete_core(access_token, core["id"])
 
 
+def test_core_revisions_record_saves(access_token):
+    """Test that creating and updating a core stores revisions, newest first."""
+
+    core = create_core(access_token)
+    headers = {"Authorization": f"Bearer {access_token}"}
+    response = client.put(
+        url=f"/api/core/{core['id']}",
+        headers=headers,
+        json={"config": xray_config, "name": "xray_config_revised"},
+        params={"restart_nodes": False, "note": "  rename core  "},
+    )
+    assert response.status_code == status.HTTP_200_OK
+
+    response = client.get(url=f"/api/core/{core['id']}/revisions", headers=headers)
+    assert response.status_code == status.HTTP_200_OK
+    data = response.json()
+    assert data["count"] == 2
+    latest, first = data["revisions"]
+    assert latest["name"] == "xray_config_revised"
+    assert latest["note"] == "rename core"
+    assert latest["restarted_nodes"] == []
+    assert latest["admin_username"]
+    assert first["name"] == core["name"]
+    assert first["note"] is None
+    assert "config" not in latest
+
+    response = client.get(url=f"/api/core/{core['id']}/revisions/{first['id']}", headers=headers)
+    assert response.status_code == status.HTTP_200_OK
+    assert response.json()["config"] == xray_config
+    assert set(response.json()["fallbacks_inbound_tags"]) == {"fallback-A", "fallback-B"}
+    delete_core(access_token, core["id"])
+
+
+def test_core_revision_annotate(access_token):
+    """Test that a revision note can be set and cleared."""
+
+    core = create_core(access_token)
+    headers = {"Authorization": f"Bearer {access_token}"}
+    revision = client.get(url=f"/api/core/{core['id']}/revisions", headers=headers).json()["revisions"][0]
+
+    response = client.put(
+        url=f"/api/core/{core['id']}/revisions/{revision['id']}", headers=headers, json={"note": "initial import"}
+    )
+    assert response.status_code == status.HTTP_200_OK
+    assert response.json()["note"] == "initial import"
+
+    response = client.put(url=f"/api/core/{core['id']}/revisions/{revision['id']}", headers=headers, json={"note": ""})
+    assert response.status_code == status.HTTP_200_OK
+    assert response.json()["note"] is None
+
+    response = client.put(
+        url=f"/api/core/{core['id']}/revisions/{revision['id']}", headers=headers, json={"note": "x" * 513}
+    )
+    assert response.status_code == status.HTTP_422_UNPROCESSABLE_CONTENT
+    delete_core(access_token, core["id"])
+
+
+def test_core_revision_not_found(access_token):
+    """Test that revisions are scoped to their core."""
+
+    core = create_core(access_token)
+    other = create_core(access_token)
+    headers = {"Authorization": f"Bearer {access_token}"}
+    revision = client.get(url=f"/api/core/{other['id']}/revisions", headers=headers).json()["revisions"][0]
+
+    response = client.get(url=f"/api/core/{core['id']}/revisions/{revision['id']}", headers=headers)
+    assert response.status_code == status.HTTP_404_NOT_FOUND
+    response = client.get(url="/api/core/999999/revisions", headers=headers)
+    assert response.status_code == status.HTTP_404_NOT_FOUND
+    delete_core(access_token, core["id"])
+    delete_core(access_token, other["id"])
+
+
+def test_core_rollout_validation(access_token):
+    """Test that staged rollouts reject unknown nodes and core type changes."""
+
+    core = create_core(access_token)
+    headers = {"Authorization": f"Bearer {access_token}"}
+    candidate = {
+        "name": core["name"],
+        "config": core["config"],
+        "exclude_inbound_tags": core["exclude_inbound_tags"],
+        "fallbacks_inbound_tags": core["fallbacks_inbound_tags"],
+    }
+
+    response = client.post(
+        url=f"/api/core/{core['id']}/rollout", headers=headers, json={"core": candidate, "node_ids": [999999]}
+    )
+    assert response.status_code == status.HTTP_404_NOT_FOUND
+    response = client.post(
+        url=f"/api/core/{core['id']}/rollout",
+        headers=headers,
+        json={"core": {**candidate, "type": "wg"}, "node_ids": [999999]},
+    )
+    assert response.status_code == status.HTTP_400_BAD_REQUEST
+    response = client.post(url="/api/core/999999/rollout", headers=headers, json={"core": candidate, "node_ids": [1]})
+    assert response.status_code == status.HTTP_404_NOT_FOUND
+    delete_core(access_token, core["id"])
+
+
 def test_core_delete_1(access_token):
     """Test that the core delete route is accessible."""
 
@@ -4,11 +4,21 @@ from app.utils.crypto import generate_wireguard_keypair
 from tests.api import client
 from tests.api.helpers import (
     auth_headers,
+    create_admin,
+    create_admin_role,
     create_client_template,
     create_core,
+    create_group,
+    create_user,
+    delete_admin,
+    delete_admin_role,
     delete_client_template,
     delete_core,
+    delete_group,
+    delete_user,
+    get_inbound_details,
     get_inbounds,
+    login_admin,
     unique_name,
 )
 
@@ -478,3 +488,115 @@ def test_host_finalmask_legacy_interval_to_delays(access_token):
     finally:
         client.delete(f"/api/host/{host_id}", headers={"Authorization": f"Bearer {access_token}"})
         delete_core(access_token, core["id"])
+
+
+def test_host_preview_renders_unsaved_host_for_user(access_token):
+    core = create_core(access_token)
+    inbound = next(item for item in get_inbound_details(access_token) if item["protocol"] != "wireguard")
+    group = create_group(access_token, name=unique_name("host_preview_group"), inbound_tags=[inbound["tag"]])
+    user = create_user(access_token, group_ids=[group["id"]], payload={"username": unique_name("host_preview_user")})
+    remark = unique_name("preview") + "-{USERNAME}"
+    host_payload = {
+        "remark": remark,
+        "address": ["127.0.0.1"],
+        "port": 443,
+        "sni": ["preview.example.com"],
+        "inbound_tag": inbound["tag"],
+        "priority": 1,
+    }
+
+    try:
+        response = client.post(
+            "/api/host/preview",
+            headers=auth_headers(access_token),
+            json={"host": host_payload, "user_id": user["id"]},
+        )
+        assert response.status_code == status.HTTP_200_OK, response.text
+        body = response.json()
+        assert len(body["links"]) == 1
+        assert user["username"] in body["links"][0]
+        assert body["xray"], "xray outbounds should be rendered"
+        assert set(body) == {"links", "xray", "sing_box", "clash_meta"}
+
+        # Previewing must not create the host
+        hosts = client.get("/api/hosts", headers=auth_headers(access_token)).json()
+        assert all(host["remark"] != remark for host in hosts)
+
+        missing_user = client.post(
+            "/api/host/preview",
+            headers=auth_headers(access_token),
+            json={"host": host_payload, "user_id": 999999999},
+        )
+        assert missing_user.status_code == status.HTTP_404_NOT_FOUND
+    finally:
+        delete_user(access_token, user["username"])
+        delete_group(access_token, group["id"])
+        delete_core(access_token, core["id"])
+
+
+def test_host_preview_requires_host_write_and_users_read(access_token):
+    core = create_core(access_token)
+    user = create_user(access_token, payload={"username": unique_name("host_preview_scope_user")})
+    host_payload = {
+        "remark": unique_name("preview_scope"),
+        "address": ["127.0.0.1"],
+        "port": 443,
+        "inbound_tag": get_inbounds(access_token)[0],
+        "priority": 1,
+    }
+    roles = [
+        create_admin_role(access_token, {"hosts": {"read": True}, "users": {"read": True}}),
+        create_admin_role(access_token, {"hosts": {"read": True, "update": True}}),
+    ]
+    admins = [create_admin(access_token, role_id=role["id"]) for role in roles]
+    try:
+        for admin in admins:
+            token = login_admin(admin["username"], admin["password"])
+            response = client.post(
+                "/api/host/preview",
+                headers=auth_headers(token),
+                json={"host": host_payload, "user_id": user["id"]},
+            )
+            assert response.status_code == status.HTTP_403_FORBIDDEN
+    finally:
+        for admin in admins:
+            delete_admin(access_token, admin["username"])
+        for role in roles:
+            delete_admin_role(access_token, role["id"])
+        delete_user(access_token, user["username"])
+        delete_core(access_token, core["id"])
+
+def test_hosts_health_reports_unreachable_host(access_token):
+    core = create_core(access_token)
+    inbound = get_inbounds(access_token)[0]
+    create_response = client.post(
+        "/api/host",
+        headers=auth_headers(access_token),
+        json={
+            "remark": unique_name("test_host_health"),
+            "address": ["127.0.0.1"],
+            "port": 1,
+            "inbound_tag": inbound,
+            "priority": 1,
+        },
+    )
+    host_id = create_response.json()["id"]
+
+    try:
+        response = client.post("/api/hosts/health", headers=auth_headers(access_token), json={"ids": [host_id]})
+        assert response.status_code == status.HTTP_200_OK, response.text
+        [result] = response.json()["hosts"]
+        assert result["host_id"] == host_id
+        assert result["status"] == "error"
+        assert result["checked_at"]
+
+        missing = client.post("/api/hosts/health", headers=auth_headers(access_token), json={"ids": [999999999]})
+        assert missing.status_code == status.HTTP_404_NOT_FOUND
+
+        too_many = client.post(
+            "/api/hosts/health", headers=auth_headers(access_token), json={"ids": list(range(1, 22))}
+        )
+        assert too_many.status_code == status.HTTP_422_UNPROCESSABLE_CONTENT
+    finally:
+        client.delete(f"/api/host/{host_id}", headers=auth_headers(access_token))
+        delete_core(access_token, core["id"])
@@ -0,0 +1,101 @@
+from datetime import UTC, datetime, timedelta
+from types import SimpleNamespace
+
+import pytest
+
+from app.utils import host_probe as hp
+
+
+def _host(tls="tls", sni=None, address="example.com", port=443, protocol="vless", network="tcp"):
+    return SimpleNamespace(
+        address=address,
+        port=port,
+        protocol=protocol,
+        network=network,
+        tls_config=SimpleNamespace(tls=tls, sni=sni or [], allowinsecure=False, alpn_list=[]),
+    )
+
+
+@pytest.fixture
+def probed(monkeypatch):
+    calls = []
+
+    async def fake_run_probe(address, port, sni, tls, alpn, verify, timeout):
+        calls.append((address, port, sni, tls))
+        checks = [hp._check("tcp", hp.STATUS_OK, latency_ms=12.4)]
+        return {"address": address, "port": port, "sni": sni, "ip": "203.0.113.7", "not_after": None, "checks": checks}
+
+    monkeypatch.setattr(hp, "_run_probe", fake_run_probe)
+    return calls
+
+
+@pytest.mark.parametrize(
+    "statuses,expected",
+    [
+        ([], "skipped"),
+        (["skipped", "skipped"], "skipped"),
+        (["skipped", "ok"], "ok"),
+        (["ok", "warning", "ok"], "warning"),
+        (["warning", "error", "skipped"], "error"),
+    ],
+)
+def test_worst_status(statuses, expected):
+    assert hp.worst_status(statuses) == expected
+
+
+def test_certificate_check_expiry():
+    soon = (datetime.now(UTC) + timedelta(days=3)).isoformat()
+    later = (datetime.now(UTC) + timedelta(days=90)).isoformat()
+    past = (datetime.now(UTC) - timedelta(days=1)).isoformat()
+
+    assert hp._certificate_check(soon, None, True)["status"] == hp.STATUS_WARNING
+    assert hp._certificate_check(later, None, True)["status"] == hp.STATUS_OK
+    assert hp._certificate_check(past, None, True)["status"] == hp.STATUS_ERROR
+    assert hp._certificate_check(later, "hostname mismatch", True)["status"] == hp.STATUS_ERROR
+
+
+def test_missing_sni_is_a_warning():
+    checks = hp._sni_checks("tls", [], {})
+    assert [check["status"] for check in checks] == [hp.STATUS_WARNING]
+    assert hp._sni_checks(None, [], {}) == []
+
+
+def test_reality_sni_must_be_a_server_name():
+    inbound = {"sni": ["www.example.com"]}
+    assert hp._sni_checks("reality", ["www.example.com"], inbound)[0]["status"] == hp.STATUS_OK
+
+    checks = hp._sni_checks("reality", ["www.example.com", "*.example.com"], inbound)
+    assert checks[0]["status"] == hp.STATUS_ERROR
+    assert "*.example.com" in checks[0]["message"]
+
+
+@pytest.mark.parametrize("target", [None, "8443", "/dev/shm/xray.sock", "@abstract"])
+async def test_reality_target_skipped_when_local(target):
+    check = await hp._reality_target_check(target, ["www.example.com"], 1.0)
+    assert check["status"] == hp.STATUS_SKIPPED
+
+
+async def test_probe_host_expands_combinations(probed):
+    host = _host(sni=["a.example.com", "*.example.com"], address=["one.example.com", "two.example.com"], port=[443])
+    result = await hp.probe_host(host, {})
+
+    assert result["status"] == hp.STATUS_OK
+    assert len(result["endpoints"]) == 4
+    assert [call[0] for call in probed] == ["one.example.com"] * 2 + ["two.example.com"] * 2
+    assert all("*" not in call[2] for call in probed)
+
+
+async def test_probe_host_caps_endpoints(probed):
+    host = _host(sni=["a.example.com"], address=[f"{i}.example.com" for i in range(10)])
+    result = await hp.probe_host(host, {})
+    assert len(result["endpoints"]) == hp.MAX_ENDPOINTS_PER_HOST
+
+
+async def test_probe_host_skips_udp_and_templated_addresses(probed):
+    udp = await hp.probe_host(_host(tls="tls", sni=["a.example.com"], network="kcp"), {})
+    templated = await hp.probe_host(_host(sni=["a.example.com"], address="{RANDOM_SUBDOMAIN}.example.com"), {})
+
+    assert probed == []
+    assert udp["endpoints"][0]["checks"][0]["status"] == hp.STATUS_SKIPPED
+    assert templated["endpoints"][0]["checks"][0]["name"] == "address"
+    assert templated["status"] == hp.STATUS_SKIPPED